@@ -0,0 +1,249 @@
+/**
+ * FILE PURPOSE: Announcement Syndication Feeds
+ *
+ * Builds RSS 2.0, Atom (RFC 4287) and JSON Feed 1.1 documents from published
+ * announcements, for diocesan websites and Facebook page managers to
+ * syndicate without a dashboard login.
+ *
+ * Announcements have no public web page, so items carry their full text
+ * (event date, time, venue and contact appended) and no item link. Item IDs
+ * are stable URNs derived from the document ID, so feed readers don't show
+ * an edited announcement twice.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AnnouncementFeedFormat = "rss" | "atom" | "json";
+
+export interface FeedAnnouncement {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  parishName?: string;
+  eventDate?: Date;
+  eventTime?: string;
+  endTime?: string;
+  endDate?: Date;
+  venue?: string;
+  contactInfo?: string;
+  publishedAt: Date;
+  updatedAt?: Date;
+}
+
+export interface AnnouncementFeedOptions {
+  title: string;
+  description: string;
+  homePageUrl: string;
+  feedUrl: string;     // Canonical URL of this feed (self link)
+  announcements: FeedAnnouncement[];
+  now?: Date;          // Used for an empty feed's updated date
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+export const FEED_FORMATS: AnnouncementFeedFormat[] = ["rss", "atom", "json"];
+
+export const FEED_CONTENT_TYPES: Record<AnnouncementFeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+const FEED_AUTHOR = "VISITA Bohol Churches";
+const FEED_LANGUAGE = "en";
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// XML 1.0 forbids most control characters even when escaped
+const stripControlCharacters = (value: string) =>
+  // eslint-disable-next-line no-control-regex
+  value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "");
+
+const escapeXml = (value: string) =>
+  stripControlCharacters(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// RSS readers render <description> as HTML; keep the plain text (and its line breaks) intact
+const toHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+
+const itemId = (announcement: FeedAnnouncement) => `urn:visita-bohol:announcement:${announcement.id}`;
+
+const itemUpdated = (announcement: FeedAnnouncement) =>
+  announcement.updatedAt && announcement.updatedAt > announcement.publishedAt
+    ? announcement.updatedAt
+    : announcement.publishedAt;
+
+const feedUpdated = (options: AnnouncementFeedOptions) =>
+  options.announcements.reduce<Date | null>((latest, announcement) => {
+    const updated = itemUpdated(announcement);
+    return !latest || updated > latest ? updated : latest;
+  }, null) || options.now || new Date();
+
+// "Friday, December 8, 2026" from a stored event date (midnight of the day)
+const formatEventDate = (date: Date) => {
+  const local = new Date(date.getTime() + MANILA_OFFSET_MS);
+  return `${DAY_NAMES[local.getUTCDay()]}, ${MONTH_NAMES[local.getUTCMonth()]} ${local.getUTCDate()}, ${local.getUTCFullYear()}`;
+};
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  if (Number.isNaN(hours)) return time;
+  return `${hours % 12 === 0 ? 12 : hours % 12}:${String(minutes || 0).padStart(2, "0")} ${hours >= 12 ? "PM" : "AM"}`;
+};
+
+// RFC 822 date for RSS, e.g. "Fri, 08 Dec 2026 01:00:00 GMT"
+const formatRfc822 = (date: Date) => date.toUTCString();
+
+// RFC 3339 date for Atom and JSON Feed
+const formatRfc3339 = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+/**
+ * Plain-text body: the description followed by the event details.
+ */
+export function formatAnnouncementText(announcement: FeedAnnouncement): string {
+  const details: string[] = [];
+  if (announcement.eventDate) {
+    const dates = announcement.endDate && announcement.endDate > announcement.eventDate
+      ? `${formatEventDate(announcement.eventDate)} – ${formatEventDate(announcement.endDate)}`
+      : formatEventDate(announcement.eventDate);
+    details.push(`When: ${dates}`);
+  }
+  if (announcement.eventTime) {
+    details.push(`Time: ${formatTime(announcement.eventTime)}${announcement.endTime ? ` – ${formatTime(announcement.endTime)}` : ""}`);
+  }
+  if (announcement.venue) details.push(`Where: ${announcement.venue}`);
+  if (announcement.parishName) details.push(`Parish: ${announcement.parishName}`);
+  if (announcement.contactInfo) details.push(`Contact: ${announcement.contactInfo}`);
+
+  return [announcement.description?.trim(), details.join("\n")].filter(Boolean).join("\n\n");
+}
+
+// =============================================================================
+// RSS 2.0
+// =============================================================================
+
+const buildRss = (options: AnnouncementFeedOptions) => {
+  const lines = [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    "<rss version=\"2.0\" xmlns:atom=\"http://www.w3.org/2005/Atom\">",
+    "<channel>",
+    `<title>${escapeXml(options.title)}</title>`,
+    `<link>${escapeXml(options.homePageUrl)}</link>`,
+    `<description>${escapeXml(options.description)}</description>`,
+    `<language>${FEED_LANGUAGE}</language>`,
+    `<lastBuildDate>${formatRfc822(feedUpdated(options))}</lastBuildDate>`,
+    `<atom:link href="${escapeXml(options.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+  ];
+
+  options.announcements.forEach((announcement) => {
+    lines.push(
+      "<item>",
+      `<title>${escapeXml(announcement.title)}</title>`,
+      `<description>${escapeXml(toHtml(formatAnnouncementText(announcement)))}</description>`,
+      `<guid isPermaLink="false">${escapeXml(itemId(announcement))}</guid>`,
+      `<pubDate>${formatRfc822(announcement.publishedAt)}</pubDate>`,
+      ...(announcement.category ? [`<category>${escapeXml(announcement.category)}</category>`] : []),
+      "</item>"
+    );
+  });
+
+  lines.push("</channel>", "</rss>");
+  return lines.join("\n") + "\n";
+};
+
+// =============================================================================
+// ATOM
+// =============================================================================
+
+const buildAtom = (options: AnnouncementFeedOptions) => {
+  const lines = [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${FEED_LANGUAGE}">`,
+    `<id>${escapeXml(options.feedUrl)}</id>`,
+    `<title>${escapeXml(options.title)}</title>`,
+    `<subtitle>${escapeXml(options.description)}</subtitle>`,
+    `<updated>${formatRfc3339(feedUpdated(options))}</updated>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(options.feedUrl)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(options.homePageUrl)}"/>`,
+    `<author><name>${FEED_AUTHOR}</name></author>`,
+  ];
+
+  options.announcements.forEach((announcement) => {
+    lines.push(
+      "<entry>",
+      `<id>${escapeXml(itemId(announcement))}</id>`,
+      `<title>${escapeXml(announcement.title)}</title>`,
+      `<published>${formatRfc3339(announcement.publishedAt)}</published>`,
+      `<updated>${formatRfc3339(itemUpdated(announcement))}</updated>`,
+      `<content type="text">${escapeXml(formatAnnouncementText(announcement))}</content>`,
+      ...(announcement.category ? [`<category term="${escapeXml(announcement.category)}"/>`] : []),
+      "</entry>"
+    );
+  });
+
+  lines.push("</feed>");
+  return lines.join("\n") + "\n";
+};
+
+// =============================================================================
+// JSON FEED 1.1
+// =============================================================================
+
+const buildJsonFeed = (options: AnnouncementFeedOptions) => {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: options.title,
+    home_page_url: options.homePageUrl,
+    feed_url: options.feedUrl,
+    description: options.description,
+    language: FEED_LANGUAGE,
+    authors: [{ name: FEED_AUTHOR }],
+    items: options.announcements.map((announcement) => ({
+      id: itemId(announcement),
+      title: announcement.title,
+      content_text: formatAnnouncementText(announcement),
+      date_published: formatRfc3339(announcement.publishedAt),
+      date_modified: formatRfc3339(itemUpdated(announcement)),
+      ...(announcement.category ? { tags: [announcement.category] } : {}),
+    })),
+  };
+  return JSON.stringify(feed, null, 2) + "\n";
+};
+
+// =============================================================================
+// FEED
+// =============================================================================
+
+/**
+ * Build the feed document. Announcements are emitted in the given order
+ * (callers sort newest first).
+ */
+export function buildAnnouncementFeed(format: AnnouncementFeedFormat, options: AnnouncementFeedOptions): string {
+  switch (format) {
+    case "atom":
+      return buildAtom(options);
+    case "json":
+      return buildJsonFeed(options);
+    case "rss":
+    default:
+      return buildRss(options);
+  }
+}
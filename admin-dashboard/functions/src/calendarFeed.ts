@@ -0,0 +1,411 @@
+/**
+ * FILE PURPOSE: iCalendar (.ics) Feeds
+ *
+ * Builds RFC 5545 calendars for one church or a whole diocese from:
+ * - mass schedules (massScheduleRules when the parish uses recurring
+ *   schedules, via shared/massScheduleRecurrence.ts; otherwise the legacy
+ *   massSchedules, whose days are read like the nextMasses search reads them)
+ * - the parish feast day, as a yearly all-day event
+ * - non-archived announcements that have an eventDate
+ *
+ * All local times are Asia/Manila. Event UIDs are derived from document and
+ * rule IDs, so subscribed calendars update events in place instead of
+ * duplicating them when a feed is refreshed.
+ */
+
+import {
+  addDaysToKey,
+  manilaDateKey,
+  MassScheduleRecurrence,
+  MASS_WEEKDAYS,
+  ruleOccursOn,
+  toRRule,
+  weekdayOfKey,
+} from "./shared/massScheduleRecurrence";
+import { expandScheduleDays, NextMassSchedule, parseTimeOfDay } from "./shared/nextMassQuery";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CalendarChurch {
+  id: string;
+  name: string;
+  municipality?: string;
+  feastDay?: string;
+  massSchedules?: NextMassSchedule[];
+  massScheduleRules?: Partial<MassScheduleRecurrence>;
+  updatedAt?: Date;
+}
+
+export interface CalendarAnnouncement {
+  id: string;
+  title: string;
+  description?: string;
+  parishId?: string;
+  eventDate: Date;
+  eventTime?: string;
+  endTime?: string;
+  endDate?: Date;
+  venue?: string;
+  updatedAt?: Date;
+}
+
+export interface CalendarFeedOptions {
+  calendarName: string;
+  churches: CalendarChurch[];
+  announcements: CalendarAnnouncement[];
+  // Diocese feeds prefix event titles with the church name
+  includeChurchName?: boolean;
+  now?: Date;
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+export const CALENDAR_TIMEZONE = "Asia/Manila";
+const MANILA_OFFSET_MINUTES = 8 * 60;
+const UID_DOMAIN = "visita-bohol";
+const DEFAULT_DURATION_MINUTES = 60;
+
+const MONTH_NAMES = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// Philippine time has no daylight saving, so one STANDARD block covers every date
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${CALENDAR_TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:+0800",
+  "TZOFFSETTO:+0800",
+  "TZNAME:PHT",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line) <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+const formatLocal = (dateKey: string, time: string) => `${formatDate(dateKey)}T${time.replace(":", "")}00`;
+
+/**
+ * Normalize "6:00", "06:00", "6:00 AM" or "6 PM" to 24-hour "HH:mm".
+ */
+const normalizeTime = (value?: string): string | null => {
+  const minutes = parseTimeOfDay(value);
+  return minutes === null ? null : `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// End time on the same day, defaulting to one hour after the start
+const resolveEndTime = (start: string, end?: string | null) => {
+  if (end && toMinutes(end) > toMinutes(start)) return end;
+  const minutes = Math.min(toMinutes(start) + DEFAULT_DURATION_MINUTES, 23 * 60 + 59);
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+/**
+ * Parse a feast day such as "December 8", "Dec. 8" or "8 December".
+ */
+const parseFeastDay = (value?: string): { month: number; day: number } | null => {
+  const text = value?.trim().toLowerCase().replace(/\./g, "");
+  if (!text) return null;
+  const match = text.match(/^([a-z]+)\s+(\d{1,2})/) || text.match(/^(\d{1,2})\s+([a-z]+)/);
+  if (!match) return null;
+  const [monthText, dayText] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+  const month = MONTH_NAMES.findIndex((name) => monthText.length >= 3 && name.startsWith(monthText));
+  const day = Number(dayText);
+  if (month < 0 || day < 1 || day > 31) return null;
+  return { month: month + 1, day };
+};
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+interface EventContext {
+  church?: CalendarChurch;
+  includeChurchName: boolean;
+  dtstamp: string;
+  anchorDate: string; // Recurring events start from here (Jan 1 of the current year)
+}
+
+const summaryFor = (title: string, context: EventContext) =>
+  context.includeChurchName && context.church ? `${context.church.name}: ${title}` : title;
+
+const churchLocation = (church: CalendarChurch) =>
+  [church.name, church.municipality, "Bohol"].filter(Boolean).join(", ");
+
+const massTitle = (label?: string, language?: string) =>
+  `${label || "Holy Mass"}${language ? ` (${language})` : ""}`;
+
+const timedEvent = (fields: {
+  uid: string;
+  summary: string;
+  date: string;
+  start: string;
+  end?: string | null;
+  rrule?: string;
+  exdates?: string[];
+  location?: string;
+  description?: string;
+  dtstamp: string;
+  lastModified?: Date;
+}): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${fields.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${fields.dtstamp}`,
+    `DTSTART;TZID=${CALENDAR_TIMEZONE}:${formatLocal(fields.date, fields.start)}`,
+    `DTEND;TZID=${CALENDAR_TIMEZONE}:${formatLocal(fields.date, resolveEndTime(fields.start, fields.end))}`,
+  ];
+  if (fields.rrule) lines.push(`RRULE:${fields.rrule}`);
+  if (fields.exdates?.length) lines.push(`EXDATE;TZID=${CALENDAR_TIMEZONE}:${fields.exdates.join(",")}`);
+  lines.push(`SUMMARY:${escapeText(fields.summary)}`);
+  if (fields.location) lines.push(`LOCATION:${escapeText(fields.location)}`);
+  if (fields.description) lines.push(`DESCRIPTION:${escapeText(fields.description)}`);
+  if (fields.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(fields.lastModified)}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+const recurrenceEvents = (church: CalendarChurch, recurrence: Partial<MassScheduleRecurrence>, context: EventContext) => {
+  const lines: string[] = [];
+  const exceptions = recurrence.exceptions || [];
+
+  (recurrence.rules || []).forEach((rule) => {
+    if (!rule.byDay?.length || !normalizeTime(rule.time)) return;
+    const start = normalizeTime(rule.time) as string;
+
+    // DTSTART must be the first real occurrence; look ahead up to a year for it
+    const from = rule.validFrom && rule.validFrom > context.anchorDate ? rule.validFrom : context.anchorDate;
+    let firstDate: string | null = null;
+    for (let offset = 0; offset < 366 && !firstDate; offset++) {
+      const candidate = addDaysToKey(from, offset);
+      if (rule.validUntil && candidate > rule.validUntil) break;
+      if (ruleOccursOn(rule, candidate)) firstDate = candidate;
+    }
+    if (!firstDate) return;
+
+    const exdates = exceptions
+      .filter((exception) => !exception.ruleId || exception.ruleId === rule.id)
+      .filter((exception) => !exception.time || exception.time === rule.time)
+      .filter((exception) => ruleOccursOn(rule, exception.date))
+      .map((exception) => formatLocal(exception.date, start));
+
+    lines.push(...timedEvent({
+      uid: `mass-${church.id}-${rule.id}`,
+      summary: summaryFor(massTitle(rule.label, rule.language), context),
+      date: firstDate,
+      start,
+      end: normalizeTime(rule.endTime),
+      // With a TZID start, RFC 5545 requires UNTIL in UTC
+      rrule: toRRule(rule, { utcOffsetMinutes: MANILA_OFFSET_MINUTES }),
+      exdates,
+      location: churchLocation(church),
+      description: rule.isFbLive ? "Live-streamed on Facebook" : undefined,
+      dtstamp: context.dtstamp,
+    }));
+  });
+
+  (recurrence.additions || []).forEach((addition) => {
+    const start = normalizeTime(addition.time);
+    if (!start || !addition.date) return;
+    lines.push(...timedEvent({
+      uid: `mass-${church.id}-${addition.id}`,
+      summary: summaryFor(massTitle(addition.label || "Special Mass", addition.language), context),
+      date: addition.date,
+      start,
+      end: normalizeTime(addition.endTime),
+      location: churchLocation(church),
+      description: addition.isFbLive ? "Live-streamed on Facebook" : undefined,
+      dtstamp: context.dtstamp,
+    }));
+  });
+
+  return lines;
+};
+
+// Legacy entries name a day ("Sunday"), an alias ("Daily", "Weekdays") or a
+// range ("Monday-Friday"); each covered weekday becomes its own weekly event
+const legacyMassEvents = (church: CalendarChurch, schedules: NextMassSchedule[], context: EventContext) => {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+
+  schedules.forEach((schedule) => {
+    const [startText, endText] = (schedule.time || "").split(/\s+-\s+|\s*–\s*/);
+    const start = normalizeTime(startText);
+    if (!start) return;
+
+    expandScheduleDays(schedule.day).forEach((weekday) => {
+      const uid = `mass-${church.id}-${MASS_WEEKDAYS[weekday].toLowerCase()}-${start.replace(":", "")}`;
+      if (seen.has(uid)) return;
+      seen.add(uid);
+
+      const offset = (weekday - weekdayOfKey(context.anchorDate) + 7) % 7;
+      lines.push(...timedEvent({
+        uid,
+        summary: summaryFor(massTitle(undefined, schedule.language), context),
+        date: addDaysToKey(context.anchorDate, offset),
+        start,
+        end: normalizeTime(schedule.endTime || endText),
+        rrule: `FREQ=WEEKLY;BYDAY=${MASS_WEEKDAYS[weekday]}`,
+        location: churchLocation(church),
+        description: schedule.isFbLive ? "Live-streamed on Facebook" : undefined,
+        dtstamp: context.dtstamp,
+      }));
+    });
+  });
+
+  return lines;
+};
+
+const feastDayEvent = (church: CalendarChurch, context: EventContext) => {
+  const feast = parseFeastDay(church.feastDay);
+  if (!feast) return [];
+  const year = context.anchorDate.slice(0, 4);
+  const date = `${year}-${pad(feast.month)}-${pad(feast.day)}`;
+  return [
+    "BEGIN:VEVENT",
+    `UID:feast-${church.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${context.dtstamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDaysToKey(date, 1))}`,
+    "RRULE:FREQ=YEARLY",
+    `SUMMARY:${escapeText(`Parish Fiesta - ${church.name}`)}`,
+    `LOCATION:${escapeText(churchLocation(church))}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+};
+
+const announcementEvent = (announcement: CalendarAnnouncement, context: EventContext) => {
+  const date = manilaDateKey(announcement.eventDate);
+  const endDate = announcement.endDate ? manilaDateKey(announcement.endDate) : date;
+  const start = normalizeTime(announcement.eventTime);
+  const uid = `announcement-${announcement.id}`;
+  const summary = summaryFor(announcement.title, context);
+  const location = announcement.venue || (context.church ? churchLocation(context.church) : undefined);
+
+  if (start) {
+    return timedEvent({
+      uid,
+      summary,
+      date,
+      start,
+      end: normalizeTime(announcement.endTime),
+      location,
+      description: announcement.description,
+      dtstamp: context.dtstamp,
+      lastModified: announcement.updatedAt,
+    });
+  }
+
+  // No start time: all-day event spanning eventDate to endDate
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${context.dtstamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDaysToKey(endDate > date ? endDate : date, 1))}`,
+    `SUMMARY:${escapeText(summary)}`,
+  ];
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (announcement.description) lines.push(`DESCRIPTION:${escapeText(announcement.description)}`);
+  if (announcement.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(announcement.updatedAt)}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+// =============================================================================
+// CALENDAR
+// =============================================================================
+
+/**
+ * Build a complete VCALENDAR document (CRLF line endings, folded lines).
+ */
+export function buildCalendarFeed(options: CalendarFeedOptions): string {
+  const now = options.now || new Date();
+  const includeChurchName = options.includeChurchName || false;
+  const anchorDate = `${manilaDateKey(now).slice(0, 4)}-01-01`;
+  const churchesById = new Map(options.churches.map((church) => [church.id, church]));
+
+  // DTSTAMP follows the source document so unchanged feeds produce identical output (stable ETag)
+  const contextFor = (church: CalendarChurch | undefined, updatedAt?: Date): EventContext => ({
+    church,
+    includeChurchName,
+    dtstamp: formatUtc(updatedAt || church?.updatedAt || new Date(`${anchorDate}T00:00:00Z`)),
+    anchorDate,
+  });
+
+  const events: string[] = [];
+  options.churches.forEach((church) => {
+    const context = contextFor(church);
+    const recurrence = church.massScheduleRules;
+    events.push(
+      ...(recurrence?.rules?.length || recurrence?.additions?.length
+        ? recurrenceEvents(church, recurrence, context)
+        : legacyMassEvents(church, church.massSchedules || [], context)),
+      ...feastDayEvent(church, context)
+    );
+  });
+
+  options.announcements.forEach((announcement) => {
+    const church = announcement.parishId ? churchesById.get(announcement.parishId) : undefined;
+    events.push(...announcementEvent(announcement, contextFor(church, announcement.updatedAt)));
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//VISITA Bohol Churches//Calendar Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...VTIMEZONE,
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
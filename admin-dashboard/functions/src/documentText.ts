@@ -0,0 +1,60 @@
+/**
+ * FILE PURPOSE: Document Text Extraction
+ *
+ * Extracts plain text from uploaded church documents (PDF, DOCX, images via
+ * Cloud Vision OCR) so it can be passed to the shared church import parser.
+ * Node-only; the admin dashboard reads plain-text files directly.
+ */
+
+const isPdf = (contentType: string, fileName?: string) =>
+  contentType === "application/pdf" || /\.pdf$/i.test(fileName || "");
+
+const isDocx = (contentType: string, fileName?: string) =>
+  contentType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+  /\.docx$/i.test(fileName || "");
+
+const isDoc = (contentType: string, fileName?: string) =>
+  contentType === "application/msword" || /\.doc$/i.test(fileName || "");
+
+const isImage = (contentType: string, fileName?: string) =>
+  contentType.startsWith("image/") || /\.(png|jpe?g|webp|bmp|tiff?)$/i.test(fileName || "");
+
+const extractTextFromPdf = async (buffer: Buffer) => {
+  const pdfParse = (await import("pdf-parse")).default as (data: Uint8Array) => Promise<{ text: string }>;
+  // pdf.js reads the whole underlying ArrayBuffer, so small pooled Buffers must be copied first
+  const result = await pdfParse(new Uint8Array(buffer));
+  return result.text || "";
+};
+
+const extractTextFromDocx = async (buffer: Buffer) => {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ buffer });
+  return result.value || "";
+};
+
+const extractTextFromImage = async (buffer: Buffer) => {
+  const vision = await import("@google-cloud/vision");
+  const client = new vision.ImageAnnotatorClient();
+  const [result] = await client.textDetection({ image: { content: buffer } });
+  const annotations = result?.textAnnotations;
+  return annotations && annotations.length > 0 ? annotations[0].description || "" : "";
+};
+
+export const extractTextFromFile = async (buffer: Buffer, contentType: string, fileName?: string) => {
+  if (contentType.startsWith("text/")) {
+    return buffer.toString("utf8");
+  }
+  if (isPdf(contentType, fileName)) {
+    return extractTextFromPdf(buffer);
+  }
+  if (isDocx(contentType, fileName)) {
+    return extractTextFromDocx(buffer);
+  }
+  if (isDoc(contentType, fileName)) {
+    throw new Error("DOC format is not supported. Please upload DOCX instead.");
+  }
+  if (isImage(contentType, fileName)) {
+    return extractTextFromImage(buffer);
+  }
+  throw new Error("Unsupported file type for parsing.");
+};
@@ -0,0 +1,227 @@
+/**
+ * FILE PURPOSE: Email Layout
+ *
+ * Renders the shared VISITA email layout (logo header, content card, footer)
+ * from a list of content blocks, producing both the HTML body and its
+ * plain-text alternative from the same content. Templates in
+ * emailTemplates.ts only describe content; nothing here sends mail.
+ *
+ * Text in blocks is plain text and is escaped; **double asterisks** mark
+ * bold text (rendered as <strong> in HTML, left plain in text).
+ */
+
+import { EmailLocale } from "./shared/emailLocales";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EmailBranding {
+  logoUrl: string;
+  logoAlt: string;
+  diocese?: string;      // Diocese ID ("tagbilaran") when the email is diocese-branded
+}
+
+export type EmailTone = "success" | "info" | "warning" | "danger" | "neutral";
+
+export type EmailBlock =
+  | { type: "paragraph"; text: string; small?: boolean }
+  | { type: "button"; label: string; url: string; tone?: EmailTone }
+  | { type: "callout"; tone: EmailTone; lines: string[]; centered?: boolean }
+  | { type: "fields"; tone: EmailTone; fields: { label: string; value: string }[] }
+  | { type: "link"; text: string; label: string; url: string }
+  | { type: "item"; accent: string; title: string; message: string; meta: string; url?: string; urlLabel?: string };
+
+export interface EmailContent {
+  subject: string;
+  title: string;          // App name in the header, e.g. "VISITA Admin"
+  subtitle: string;
+  heading?: string;
+  blocks: EmailBlock[];
+  footerLines: string[];
+  footerLink?: { label: string; url: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+export const VISITA_LOGO_URL = "https://visita-bohol-system.vercel.app/visita-logo.png";
+
+export const DEFAULT_EMAIL_BRANDING: EmailBranding = {
+  logoUrl: VISITA_LOGO_URL,
+  logoAlt: "VISITA Logo",
+};
+
+const TONES: Record<EmailTone, { background: string; border: string; text: string; button: [string, string] }> = {
+  success: { background: "#f0fdf4", border: "#bbf7d0", text: "#166534", button: ["#10b981", "#059669"] },
+  info: { background: "#eef2ff", border: "#c7d2fe", text: "#3730a3", button: ["#6366f1", "#4f46e5"] },
+  warning: { background: "#fefce8", border: "#fde047", text: "#713f12", button: ["#f59e0b", "#d97706"] },
+  danger: { background: "#fef2f2", border: "#fecaca", text: "#991b1b", button: ["#dc2626", "#b91c1c"] },
+  neutral: { background: "#f8fafc", border: "#e2e8f0", text: "#475569", button: ["#475569", "#334155"] },
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Escape, then turn **bold** markers and line breaks into HTML
+const inlineHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\n/g, "<br>");
+
+const plain = (text: string) => text.replace(/\*\*(.+?)\*\*/g, "$1");
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+const blockHtml = (block: EmailBlock): string => {
+  switch (block.type) {
+    case "paragraph":
+      return block.small
+        ? `<p style="margin: 0 0 16px; font-size: 13px; line-height: 1.6; color: #94a3b8;">${inlineHtml(block.text)}</p>`
+        : `<p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">${inlineHtml(block.text)}</p>`;
+    case "button": {
+      const [from, to] = TONES[block.tone || "info"].button;
+      return `<table role="presentation" cellspacing="0" cellpadding="0" width="100%"><tr><td align="center" style="padding: 8px 0 24px;">` +
+        `<a href="${escapeHtml(block.url)}" style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, ${from}, ${to}); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px;">${escapeHtml(block.label)}</a>` +
+        "</td></tr></table>";
+    }
+    case "callout": {
+      const tone = TONES[block.tone];
+      const lines = block.lines.map((line, index) =>
+        `<p style="margin: ${index === 0 ? "0" : "4px 0 0"}; font-size: ${index === 0 && block.centered ? "18px" : "14px"}; ${index === 0 && block.centered ? "font-weight: 600; " : ""}color: ${tone.text};">${inlineHtml(line)}</p>`);
+      return `<div style="background-color: ${tone.background}; border: 1px solid ${tone.border}; border-radius: 8px; padding: 16px; margin: 0 0 16px;${block.centered ? " text-align: center;" : ""}">${lines.join("")}</div>`;
+    }
+    case "fields": {
+      const tone = TONES[block.tone];
+      const rows = block.fields.map((field, index) =>
+        `<tr><td style="padding: ${index === 0 ? "0" : "12px"} 0 ${index === block.fields.length - 1 ? "0" : "12px"};${index === 0 ? "" : ` border-top: 1px dashed ${tone.border};`}">` +
+        `<p style="margin: 0; font-size: 12px; font-weight: 600; color: ${tone.text}; text-transform: uppercase; letter-spacing: 0.5px;">${escapeHtml(field.label)}</p>` +
+        `<p style="margin: 4px 0 0; font-size: 16px; font-weight: 600; color: ${tone.text}; font-family: monospace;">${escapeHtml(field.value)}</p>` +
+        "</td></tr>");
+      return `<div style="background-color: ${tone.background}; border: 1px solid ${tone.border}; border-radius: 8px; padding: 20px; margin: 0 0 16px;"><table role="presentation" cellspacing="0" cellpadding="0" width="100%">${rows.join("")}</table></div>`;
+    }
+    case "link":
+      return `<div style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; margin: 0 0 16px; text-align: center;">` +
+        `<p style="margin: 0 0 8px; font-size: 13px; color: #64748b;">${inlineHtml(block.text)}</p>` +
+        `<a href="${escapeHtml(block.url)}" style="font-size: 13px; color: #6366f1; text-decoration: underline; font-weight: 500;">${escapeHtml(block.label)}</a>` +
+        "</div>";
+    case "item":
+      return `<div style="border-left: 4px solid ${block.accent}; padding: 8px 0 8px 16px; margin: 0 0 16px;">` +
+        `<p style="margin: 0; font-size: 15px; font-weight: 600; color: #1e293b;">${escapeHtml(block.title)}</p>` +
+        `<p style="margin: 4px 0 0; font-size: 14px; line-height: 1.6; color: #475569;">${escapeHtml(block.message).replace(/\n/g, "<br>")}</p>` +
+        `<p style="margin: 4px 0 0; font-size: 12px; color: #94a3b8;">${escapeHtml(block.meta)}` +
+        `${block.url ? ` · <a href="${escapeHtml(block.url)}" style="color: #2563eb;">${escapeHtml(block.urlLabel || block.url)}</a>` : ""}</p>` +
+        "</div>";
+    default:
+      return "";
+  }
+};
+
+const renderHtml = (content: EmailContent, branding: EmailBranding, locale: EmailLocale) => `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(content.heading || content.subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
+  <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 520px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center;">
+              <img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.logoAlt)}" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
+              <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">${escapeHtml(content.title)}</h1>
+              <p style="margin: 8px 0 0; font-size: 14px; color: #64748b;">${escapeHtml(content.subtitle)}</p>
+            </td>
+          </tr>
+          <!-- Content -->
+          <tr>
+            <td style="padding: 20px 40px;">
+              ${content.heading ? `<h2 style="margin: 0 0 16px; font-size: 20px; font-weight: 600; color: #1e293b;">${escapeHtml(content.heading)}</h2>` : ""}
+              ${content.blocks.map(blockHtml).join("\n              ")}
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px;">
+              <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 0 0 20px;">
+              ${content.footerLink ? `<p style="margin: 0 0 8px; font-size: 12px; text-align: center;"><a href="${escapeHtml(content.footerLink.url)}" style="color: #64748b;">${escapeHtml(content.footerLink.label)}</a></p>` : ""}
+              <p style="margin: 0; font-size: 12px; color: #94a3b8; text-align: center;">${content.footerLines.map(escapeHtml).join("<br>")}</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+// =============================================================================
+// PLAIN TEXT
+// =============================================================================
+
+const blockText = (block: EmailBlock): string => {
+  switch (block.type) {
+    case "paragraph":
+      return plain(block.text);
+    case "button":
+      return `${block.label}: ${block.url}`;
+    case "callout":
+      return block.lines.map(plain).join("\n");
+    case "fields":
+      return block.fields.map((field) => `${field.label}: ${field.value}`).join("\n");
+    case "link":
+      return `${plain(block.text)}\n${block.label}: ${block.url}`;
+    case "item":
+      return [block.title, block.message, `${block.meta}${block.url ? ` - ${block.url}` : ""}`].join("\n");
+    default:
+      return "";
+  }
+};
+
+const renderText = (content: EmailContent) => {
+  const sections = [
+    content.heading ? `${content.title} - ${content.heading}` : content.title,
+    ...content.blocks.map(blockText),
+    [
+      "---",
+      ...(content.footerLink ? [`${content.footerLink.label}: ${content.footerLink.url}`] : []),
+      ...content.footerLines,
+    ].join("\n"),
+  ];
+  return sections.join("\n\n") + "\n";
+};
+
+// =============================================================================
+// RENDER
+// =============================================================================
+
+export function renderEmailContent(
+  content: EmailContent,
+  branding: EmailBranding,
+  locale: EmailLocale
+): RenderedEmail {
+  return {
+    subject: content.subject,
+    html: renderHtml(content, branding, locale),
+    text: renderText(content),
+  };
+}
@@ -0,0 +1,656 @@
+/**
+ * FILE PURPOSE: Transactional Email Templates
+ *
+ * Every email the Cloud Functions send (password reset, verification,
+ * welcome, account status, notifications and digests) is rendered here from
+ * a template ID, its parameters, a locale and the sender's branding. Each
+ * template has English, Filipino and Cebuano strings and produces HTML and
+ * plain text through the shared layout in emailLayout.ts.
+ *
+ * Rendering is pure, so templates are snapshot-tested and previewed by the
+ * chancery (previewEmailTemplate) without sending mail. EMAIL_TEMPLATE_SAMPLES
+ * holds the parameters used for both.
+ */
+
+import { DEFAULT_EMAIL_LOCALE, EmailLocale } from "./shared/emailLocales";
+import {
+  DEFAULT_EMAIL_BRANDING,
+  EmailBlock,
+  EmailBranding,
+  EmailContent,
+  RenderedEmail,
+  renderEmailContent,
+} from "./emailLayout";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmailSource = "admin" | "mobile";
+
+export interface NotificationEmailItem {
+  title: string;
+  message: string;
+  priority?: string;
+  actionUrl?: string;    // Absolute dashboard URL
+  createdAt: Date;
+}
+
+export interface EmailTemplateParams {
+  passwordReset: { resetLink: string; source: EmailSource };
+  emailVerification: { verifyLink: string; source: EmailSource };
+  welcome: { setupLink: string; parishName: string; diocese?: string };
+  welcomeWithCredentials: {
+    email: string;
+    tempPassword: string;
+    parishName: string;
+    diocese?: string;
+    resetLink: string;
+    loginUrl: string;
+  };
+  accountStatus: {
+    status: "approved" | "rejected";
+    name: string;        // Display name, or the email address when there is none
+    role: string;
+    reason?: string;
+    loginUrl: string;
+  };
+  notification: { item: NotificationEmailItem; recipientName?: string; settingsUrl: string };
+  notificationDigest: {
+    items: NotificationEmailItem[];
+    frequency: "daily" | "weekly";
+    recipientName?: string;
+    settingsUrl: string;
+  };
+}
+
+export type EmailTemplateId = keyof EmailTemplateParams;
+
+// What a template describes; subtitle and footer come from the locale and branding
+type TemplateContent = Omit<EmailContent, "subtitle" | "footerLines">;
+
+type TemplateBuilder<K extends EmailTemplateId> = (params: EmailTemplateParams[K], locale: EmailLocale) => TemplateContent;
+
+// =============================================================================
+// SHARED STRINGS
+// =============================================================================
+
+const COMMON: Record<EmailLocale, {
+  subtitle: string;
+  system: string;
+  bothDioceses: string;
+  diocese: (place: string) => string;
+  greeting: (name?: string) => string;
+  dear: (name: string) => string;
+}> = {
+  en: {
+    subtitle: "Bohol Churches Information System",
+    system: "VISITA: Bohol Churches Information System",
+    bothDioceses: "Diocese of Tagbilaran & Diocese of Talibon",
+    diocese: (place) => `Diocese of ${place}`,
+    greeting: (name) => (name ? `Hello ${name},` : "Hello,"),
+    dear: (name) => `Dear **${name}**,`,
+  },
+  fil: {
+    subtitle: "Sistema ng Impormasyon ng mga Simbahan sa Bohol",
+    system: "VISITA: Sistema ng Impormasyon ng mga Simbahan sa Bohol",
+    bothDioceses: "Diyosesis ng Tagbilaran at Diyosesis ng Talibon",
+    diocese: (place) => `Diyosesis ng ${place}`,
+    greeting: (name) => (name ? `Magandang araw, ${name},` : "Magandang araw,"),
+    dear: (name) => `Mahal na **${name}**,`,
+  },
+  ceb: {
+    subtitle: "Sistema sa Impormasyon sa mga Simbahan sa Bohol",
+    system: "VISITA: Sistema sa Impormasyon sa mga Simbahan sa Bohol",
+    bothDioceses: "Diyosesis sa Tagbilaran ug Diyosesis sa Talibon",
+    diocese: (place) => `Diyosesis sa ${place}`,
+    greeting: (name) => (name ? `Maayong adlaw, ${name},` : "Maayong adlaw,"),
+    dear: (name) => `Minahal nga **${name}**,`,
+  },
+};
+
+// "tagbilaran" -> "Tagbilaran"; accounts without a diocese fall back to "Bohol"
+const placeName = (diocese?: string) => {
+  const value = (diocese || "").trim() || "Bohol";
+  return value.charAt(0).toUpperCase() + value.slice(1);
+};
+
+const getDioceseDisplayName = (diocese: string | undefined, locale: EmailLocale = DEFAULT_EMAIL_LOCALE) =>
+  COMMON[locale].diocese(placeName(diocese));
+
+// =============================================================================
+// ACCOUNT EMAILS
+// =============================================================================
+
+const PASSWORD_RESET: Record<EmailLocale, {
+  subject: Record<EmailSource, string>;
+  heading: string;
+  description: Record<EmailSource, string>;
+  button: string;
+  note: string;
+}> = {
+  en: {
+    subject: { admin: "Reset Your VISITA Admin Password", mobile: "Reset Your VISITA Password" },
+    heading: "Reset Your Password",
+    description: {
+      admin: "We received a request to reset the password for your VISITA admin account. Click the button below to create a new password.",
+      mobile: "We received a request to reset the password for your VISITA account. Click the button below to create a new password.",
+    },
+    button: "Reset Password",
+    note: "This link will expire in 1 hour. If you didn't request this, you can safely ignore this email.",
+  },
+  fil: {
+    subject: { admin: "I-reset ang Iyong Password sa VISITA Admin", mobile: "I-reset ang Iyong Password sa VISITA" },
+    heading: "I-reset ang Iyong Password",
+    description: {
+      admin: "Nakatanggap kami ng kahilingang i-reset ang password ng iyong VISITA admin account. I-click ang button sa ibaba para gumawa ng bagong password.",
+      mobile: "Nakatanggap kami ng kahilingang i-reset ang password ng iyong VISITA account. I-click ang button sa ibaba para gumawa ng bagong password.",
+    },
+    button: "I-reset ang Password",
+    note: "Mag-e-expire ang link na ito sa loob ng 1 oras. Kung hindi ikaw ang humiling nito, maaari mong balewalain ang email na ito.",
+  },
+  ceb: {
+    subject: { admin: "I-reset ang Imong Password sa VISITA Admin", mobile: "I-reset ang Imong Password sa VISITA" },
+    heading: "I-reset ang Imong Password",
+    description: {
+      admin: "Nakadawat kami og hangyo nga i-reset ang password sa imong VISITA admin account. I-click ang button sa ubos aron makahimo og bag-ong password.",
+      mobile: "Nakadawat kami og hangyo nga i-reset ang password sa imong VISITA account. I-click ang button sa ubos aron makahimo og bag-ong password.",
+    },
+    button: "I-reset ang Password",
+    note: "Mo-expire kini nga link sulod sa 1 ka oras. Kung dili ikaw ang nangayo niini, mahimo nimong ibalewala kini nga email.",
+  },
+};
+
+const EMAIL_VERIFICATION: Record<EmailLocale, {
+  subject: Record<EmailSource, string>;
+  heading: string;
+  description: Record<EmailSource, string>;
+  button: string;
+  note: string;
+}> = {
+  en: {
+    subject: { admin: "Verify Your VISITA Admin Email", mobile: "Welcome to VISITA Bohol - Verify Your Email" },
+    heading: "Verify Your Email Address",
+    description: {
+      admin: "Please verify your email address to complete your VISITA admin account setup. Click the button below to confirm your email.",
+      mobile: "Welcome to VISITA! Please verify your email address to unlock the full experience including 360° virtual tours, rich historical insights, upcoming events, announcements, and much more.",
+    },
+    button: "Verify Email",
+    note: "This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.",
+  },
+  fil: {
+    subject: { admin: "I-verify ang Iyong Email sa VISITA Admin", mobile: "Maligayang pagdating sa VISITA Bohol - I-verify ang Iyong Email" },
+    heading: "I-verify ang Iyong Email Address",
+    description: {
+      admin: "Pakiverify ang iyong email address para makumpleto ang pag-set up ng iyong VISITA admin account. I-click ang button sa ibaba para kumpirmahin ang iyong email.",
+      mobile: "Maligayang pagdating sa VISITA! Pakiverify ang iyong email address para ma-unlock ang buong karanasan, kasama ang 360° virtual tours, mayamang kasaysayan, mga paparating na kaganapan, mga anunsyo, at marami pang iba.",
+    },
+    button: "I-verify ang Email",
+    note: "Mag-e-expire ang link na ito sa loob ng 24 na oras. Kung hindi ka gumawa ng account, maaari mong balewalain ang email na ito.",
+  },
+  ceb: {
+    subject: { admin: "I-verify ang Imong Email sa VISITA Admin", mobile: "Malipayong pag-abot sa VISITA Bohol - I-verify ang Imong Email" },
+    heading: "I-verify ang Imong Email Address",
+    description: {
+      admin: "Palihug i-verify ang imong email address aron makompleto ang pag-set up sa imong VISITA admin account. I-click ang button sa ubos aron makumpirma ang imong email.",
+      mobile: "Malipayong pag-abot sa VISITA! Palihug i-verify ang imong email address aron ma-unlock ang tibuok kasinatian, lakip ang 360° virtual tours, dato nga kasaysayan, umaabot nga mga kalihokan, mga pahibalo, ug daghan pa.",
+    },
+    button: "I-verify ang Email",
+    note: "Mo-expire kini nga link sulod sa 24 ka oras. Kung wala ka naghimo og account, mahimo nimong ibalewala kini nga email.",
+  },
+};
+
+const WELCOME: Record<EmailLocale, {
+  subject: (parishName: string) => string;
+  title: string;
+  created: string;
+  instructions: string;
+  button: string;
+  note: string;
+}> = {
+  en: {
+    subject: (parishName) => `Welcome to VISITA Admin - ${parishName}`,
+    title: "Welcome to VISITA Admin!",
+    created: "Your parish secretary account has been created for:",
+    instructions: "Click the button below to set up your password and access your dashboard.",
+    button: "Set Up Password",
+    note: "This link will expire in 1 hour. If it expires, contact the Chancery Office to resend.",
+  },
+  fil: {
+    subject: (parishName) => `Maligayang pagdating sa VISITA Admin - ${parishName}`,
+    title: "Maligayang pagdating sa VISITA Admin!",
+    created: "Nagawa na ang iyong parish secretary account para sa:",
+    instructions: "I-click ang button sa ibaba para i-set up ang iyong password at ma-access ang iyong dashboard.",
+    button: "I-set Up ang Password",
+    note: "Mag-e-expire ang link na ito sa loob ng 1 oras. Kung mag-expire ito, makipag-ugnayan sa Chancery Office para maipadala itong muli.",
+  },
+  ceb: {
+    subject: (parishName) => `Malipayong pag-abot sa VISITA Admin - ${parishName}`,
+    title: "Malipayong pag-abot sa VISITA Admin!",
+    created: "Nahimo na ang imong parish secretary account para sa:",
+    instructions: "I-click ang button sa ubos aron ma-set up ang imong password ug ma-access ang imong dashboard.",
+    button: "I-set Up ang Password",
+    note: "Mo-expire kini nga link sulod sa 1 ka oras. Kung ma-expire kini, kontaka ang Chancery Office aron ipadala kini pag-usab.",
+  },
+};
+
+const WELCOME_WITH_CREDENTIALS: Record<EmailLocale, {
+  subject: (parishName: string) => string;
+  created: string;
+  emailLabel: string;
+  passwordLabel: string;
+  button: string;
+  resetPrompt: string;
+  resetLink: string;
+  securityTip: string;
+}> = {
+  en: {
+    subject: (parishName) => `Your VISITA Admin Account - ${parishName}`,
+    created: "Your parish secretary account has been created. Here are your login credentials:",
+    emailLabel: "Email Address",
+    passwordLabel: "Temporary Password",
+    button: "Login to Your Dashboard",
+    resetPrompt: "Want to set your own password instead?",
+    resetLink: "Click here to reset password",
+    securityTip: "**Security Tip:** We recommend changing your password after your first login. Go to Account Settings to update your password.",
+  },
+  fil: {
+    subject: (parishName) => `Ang Iyong VISITA Admin Account - ${parishName}`,
+    created: "Nagawa na ang iyong parish secretary account. Narito ang iyong mga login credential:",
+    emailLabel: "Email Address",
+    passwordLabel: "Pansamantalang Password",
+    button: "Mag-login sa Iyong Dashboard",
+    resetPrompt: "Gusto mo bang gumawa ng sarili mong password?",
+    resetLink: "I-click dito para i-reset ang password",
+    securityTip: "**Paalala sa Seguridad:** Inirerekomenda naming palitan ang iyong password pagkatapos ng unang pag-login. Pumunta sa Account Settings para i-update ang iyong password.",
+  },
+  ceb: {
+    subject: (parishName) => `Ang Imong VISITA Admin Account - ${parishName}`,
+    created: "Nahimo na ang imong parish secretary account. Ania ang imong mga login credential:",
+    emailLabel: "Email Address",
+    passwordLabel: "Temporaryong Password",
+    button: "Mag-login sa Imong Dashboard",
+    resetPrompt: "Gusto ba nimo nga maghimo og kaugalingong password?",
+    resetLink: "I-click dinhi aron i-reset ang password",
+    securityTip: "**Tip sa Seguridad:** Girekomendar namo nga usbon ang imong password human sa imong unang pag-login. Adto sa Account Settings aron usbon ang imong password.",
+  },
+};
+
+const ACCOUNT_STATUS: Record<EmailLocale, {
+  roles: Record<string, string>;
+  approved: { subject: string; heading: string; body: (role: string) => string; next: string; button: string };
+  rejected: { subject: string; heading: string; body: (role: string) => string; reason: string; next: string };
+}> = {
+  en: {
+    roles: {
+      chancery_office: "Chancery Office Staff",
+      parish: "Parish Staff",
+      parish_secretary: "Parish Secretary",
+      parish_priest: "Parish Priest",
+      museum_researcher: "Museum Researcher",
+    },
+    approved: {
+      subject: "Your Account Has Been Approved — VISITA Bohol",
+      heading: "✅ Account Approved!",
+      body: (role) => `Great news! Your registration as **${role}** for the VISITA Bohol Churches Information System has been approved.`,
+      next: "You can now log in to the admin dashboard and start managing your assigned responsibilities.",
+      button: "Log In to Dashboard",
+    },
+    rejected: {
+      subject: "Account Registration Update — VISITA Bohol",
+      heading: "📋 Registration Update",
+      body: (role) => `We regret to inform you that your registration as **${role}** for the VISITA Bohol Churches Information System has not been approved at this time.`,
+      reason: "Reason:",
+      next: "If you believe this was a mistake or need further assistance, please contact your Chancery Office administrator directly.",
+    },
+  },
+  fil: {
+    roles: {
+      chancery_office: "Kawani ng Chancery Office",
+      parish: "Kawani ng Parokya",
+      parish_secretary: "Kalihim ng Parokya",
+      parish_priest: "Kura Paroko",
+      museum_researcher: "Mananaliksik ng Museo",
+    },
+    approved: {
+      subject: "Naaprubahan na ang Iyong Account — VISITA Bohol",
+      heading: "✅ Naaprubahan ang Account!",
+      body: (role) => `Magandang balita! Naaprubahan na ang iyong pagpaparehistro bilang **${role}** sa VISITA Bohol Churches Information System.`,
+      next: "Maaari ka nang mag-login sa admin dashboard at simulang pamahalaan ang iyong mga nakatalagang responsibilidad.",
+      button: "Mag-login sa Dashboard",
+    },
+    rejected: {
+      subject: "Update sa Pagpaparehistro ng Account — VISITA Bohol",
+      heading: "📋 Update sa Pagpaparehistro",
+      body: (role) => `Ikinalulungkot naming ipaalam na hindi naaprubahan sa ngayon ang iyong pagpaparehistro bilang **${role}** sa VISITA Bohol Churches Information System.`,
+      reason: "Dahilan:",
+      next: "Kung sa tingin mo ay may pagkakamali o kailangan mo ng karagdagang tulong, direktang makipag-ugnayan sa administrator ng iyong Chancery Office.",
+    },
+  },
+  ceb: {
+    roles: {
+      chancery_office: "Kawani sa Chancery Office",
+      parish: "Kawani sa Parokya",
+      parish_secretary: "Sekretarya sa Parokya",
+      parish_priest: "Kura Paroko",
+      museum_researcher: "Tigsiksik sa Museyo",
+    },
+    approved: {
+      subject: "Naaprobahan na ang Imong Account — VISITA Bohol",
+      heading: "✅ Naaprobahan ang Account!",
+      body: (role) => `Maayong balita! Naaprobahan na ang imong pagparehistro isip **${role}** sa VISITA Bohol Churches Information System.`,
+      next: "Makalogin ka na karon sa admin dashboard ug makasugod sa pagdumala sa imong gi-assign nga mga responsibilidad.",
+      button: "Mag-login sa Dashboard",
+    },
+    rejected: {
+      subject: "Update sa Pagparehistro sa Account — VISITA Bohol",
+      heading: "📋 Update sa Pagparehistro",
+      body: (role) => `Nagbasol kami sa pagpahibalo nga wala pa naaprobahan karon ang imong pagparehistro isip **${role}** sa VISITA Bohol Churches Information System.`,
+      reason: "Rason:",
+      next: "Kung sa imong tan-aw adunay sayop o kinahanglan nimo og dugang tabang, palihug kontaka direkta ang administrator sa imong Chancery Office.",
+    },
+  },
+};
+
+// =============================================================================
+// NOTIFICATION EMAILS
+// =============================================================================
+
+const NOTIFICATION: Record<EmailLocale, {
+  urgent: string;
+  open: string;
+  settings: string;
+  digestHeading: Record<"daily" | "weekly", string>;
+  count: (count: number) => string;
+  digestIntro: (count: string) => string;
+}> = {
+  en: {
+    urgent: "[Urgent]",
+    open: "Open in dashboard",
+    settings: "Change which notifications you receive by email",
+    digestHeading: { daily: "Your daily VISITA digest", weekly: "Your weekly VISITA digest" },
+    count: (count) => `${count} notification${count === 1 ? "" : "s"}`,
+    digestIntro: (count) => `You have ${count} since your last digest.`,
+  },
+  fil: {
+    urgent: "[Agaran]",
+    open: "Buksan sa dashboard",
+    settings: "Baguhin kung aling mga notification ang natatanggap mo sa email",
+    digestHeading: { daily: "Ang iyong pang-araw-araw na VISITA digest", weekly: "Ang iyong lingguhang VISITA digest" },
+    count: (count) => `${count} notification`,
+    digestIntro: (count) => `Mayroon kang ${count} mula noong huling digest.`,
+  },
+  ceb: {
+    urgent: "[Dinalian]",
+    open: "Ablihi sa dashboard",
+    settings: "Usba kung unsang mga notification ang imong madawat sa email",
+    digestHeading: { daily: "Ang imong adlaw-adlaw nga VISITA digest", weekly: "Ang imong senemanang VISITA digest" },
+    count: (count) => `${count} ka notification`,
+    digestIntro: (count) => `Aduna kay ${count} sukad sa imong kataposang digest.`,
+  },
+};
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const PRIORITY_COLORS: Record<string, string> = {
+  urgent: "#dc2626",
+  high: "#ea580c",
+  medium: "#2563eb",
+  low: "#64748b",
+};
+
+// "Dec 8, 7:30 AM" in Manila time
+const formatTimestamp = (date: Date) => {
+  const local = new Date(date.getTime() + MANILA_OFFSET_MS);
+  const hours = local.getUTCHours();
+  const minutes = String(local.getUTCMinutes()).padStart(2, "0");
+  return `${MONTH_NAMES[local.getUTCMonth()]} ${local.getUTCDate()}, ${hours % 12 === 0 ? 12 : hours % 12}:${minutes} ${hours >= 12 ? "PM" : "AM"}`;
+};
+
+const notificationItemBlock = (item: NotificationEmailItem, locale: EmailLocale): EmailBlock => ({
+  type: "item",
+  accent: PRIORITY_COLORS[item.priority || "medium"] || PRIORITY_COLORS.medium,
+  title: item.title,
+  message: item.message,
+  meta: formatTimestamp(item.createdAt),
+  url: item.actionUrl,
+  urlLabel: NOTIFICATION[locale].open,
+});
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+const TEMPLATES: { [K in EmailTemplateId]: TemplateBuilder<K> } = {
+  passwordReset: ({ resetLink, source }, locale) => {
+    const strings = PASSWORD_RESET[locale];
+    return {
+      subject: strings.subject[source],
+      title: source === "admin" ? "VISITA Admin" : "VISITA Bohol",
+      heading: strings.heading,
+      blocks: [
+        { type: "paragraph", text: strings.description[source] },
+        { type: "button", label: strings.button, url: resetLink, tone: "info" },
+        { type: "paragraph", text: strings.note, small: true },
+      ],
+    };
+  },
+
+  emailVerification: ({ verifyLink, source }, locale) => {
+    const strings = EMAIL_VERIFICATION[locale];
+    return {
+      subject: strings.subject[source],
+      title: source === "admin" ? "VISITA Admin" : "VISITA Bohol",
+      heading: strings.heading,
+      blocks: [
+        { type: "paragraph", text: strings.description[source] },
+        { type: "button", label: strings.button, url: verifyLink, tone: "success" },
+        { type: "paragraph", text: strings.note, small: true },
+      ],
+    };
+  },
+
+  welcome: ({ setupLink, parishName, diocese }, locale) => {
+    const strings = WELCOME[locale];
+    return {
+      subject: strings.subject(parishName),
+      title: strings.title,
+      blocks: [
+        { type: "paragraph", text: strings.created },
+        { type: "callout", tone: "success", lines: [parishName, getDioceseDisplayName(diocese, locale)], centered: true },
+        { type: "paragraph", text: strings.instructions },
+        { type: "button", label: strings.button, url: setupLink, tone: "success" },
+        { type: "paragraph", text: strings.note, small: true },
+      ],
+    };
+  },
+
+  welcomeWithCredentials: ({ email, tempPassword, parishName, diocese, resetLink, loginUrl }, locale) => {
+    const strings = WELCOME_WITH_CREDENTIALS[locale];
+    return {
+      subject: strings.subject(parishName),
+      title: WELCOME[locale].title,
+      blocks: [
+        { type: "callout", tone: "success", lines: [parishName, getDioceseDisplayName(diocese, locale)], centered: true },
+        { type: "paragraph", text: strings.created },
+        {
+          type: "fields",
+          tone: "warning",
+          fields: [
+            { label: strings.emailLabel, value: email },
+            { label: strings.passwordLabel, value: tempPassword },
+          ],
+        },
+        { type: "button", label: strings.button, url: loginUrl, tone: "info" },
+        { type: "link", text: strings.resetPrompt, label: strings.resetLink, url: resetLink },
+        { type: "callout", tone: "danger", lines: [strings.securityTip] },
+      ],
+    };
+  },
+
+  accountStatus: ({ status, name, role, reason, loginUrl }, locale) => {
+    const strings = ACCOUNT_STATUS[locale];
+    const roleLabel = strings.roles[role] || role || "Staff";
+
+    if (status === "approved") {
+      return {
+        subject: strings.approved.subject,
+        title: "VISITA Admin",
+        heading: strings.approved.heading,
+        blocks: [
+          { type: "paragraph", text: COMMON[locale].dear(name) },
+          { type: "paragraph", text: strings.approved.body(roleLabel) },
+          { type: "paragraph", text: strings.approved.next },
+          { type: "button", label: strings.approved.button, url: loginUrl, tone: "success" },
+        ],
+      };
+    }
+
+    return {
+      subject: strings.rejected.subject,
+      title: "VISITA Admin",
+      heading: strings.rejected.heading,
+      blocks: [
+        { type: "paragraph", text: COMMON[locale].dear(name) },
+        { type: "paragraph", text: strings.rejected.body(roleLabel) },
+        ...(reason ? [{ type: "callout" as const, tone: "warning" as const, lines: [`**${strings.rejected.reason}** ${reason}`] }] : []),
+        { type: "paragraph", text: strings.rejected.next },
+      ],
+    };
+  },
+
+  notification: ({ item, recipientName, settingsUrl }, locale) => {
+    const strings = NOTIFICATION[locale];
+    return {
+      subject: item.priority === "urgent" ? `${strings.urgent} ${item.title}` : item.title,
+      title: "VISITA Admin",
+      heading: item.title,
+      blocks: [
+        { type: "paragraph", text: COMMON[locale].greeting(recipientName) },
+        notificationItemBlock(item, locale),
+      ],
+      footerLink: { label: strings.settings, url: settingsUrl },
+    };
+  },
+
+  notificationDigest: ({ items, frequency, recipientName, settingsUrl }, locale) => {
+    const strings = NOTIFICATION[locale];
+    const sorted = [...items].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const count = strings.count(sorted.length);
+    const heading = strings.digestHeading[frequency];
+    return {
+      subject: `${heading}: ${count}`,
+      title: "VISITA Admin",
+      heading,
+      blocks: [
+        { type: "paragraph", text: COMMON[locale].greeting(recipientName) },
+        { type: "paragraph", text: strings.digestIntro(count) },
+        ...sorted.map((item) => notificationItemBlock(item, locale)),
+      ],
+      footerLink: { label: strings.settings, url: settingsUrl },
+    };
+  },
+};
+
+export const EMAIL_TEMPLATE_IDS = Object.keys(TEMPLATES) as EmailTemplateId[];
+
+export const isEmailTemplateId = (value: unknown): value is EmailTemplateId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(TEMPLATES, value);
+
+/**
+ * Render a template in a locale. Diocese-branded emails show that diocese's
+ * logo and name in the footer; others show the VISITA logo and both dioceses.
+ */
+export function renderEmailTemplate<K extends EmailTemplateId>(
+  id: K,
+  params: EmailTemplateParams[K],
+  options: { locale?: EmailLocale; branding?: EmailBranding } = {}
+): RenderedEmail {
+  const locale = options.locale || DEFAULT_EMAIL_LOCALE;
+  const branding = options.branding || DEFAULT_EMAIL_BRANDING;
+  const common = COMMON[locale];
+  const content = (TEMPLATES[id] as TemplateBuilder<K>)(params, locale);
+
+  return renderEmailContent(
+    {
+      ...content,
+      subtitle: common.subtitle,
+      footerLines: [common.system, branding.diocese ? getDioceseDisplayName(branding.diocese, locale) : common.bothDioceses],
+    },
+    branding,
+    locale
+  );
+}
+
+// =============================================================================
+// SAMPLES
+// =============================================================================
+
+const SAMPLE_SITE_URL = "https://visita-bohol-system.vercel.app";
+
+/**
+ * Example parameters for every template, used by the preview endpoint and
+ * the snapshot tests.
+ */
+export const EMAIL_TEMPLATE_SAMPLES: { [K in EmailTemplateId]: EmailTemplateParams[K] } = {
+  passwordReset: {
+    resetLink: `${SAMPLE_SITE_URL}/__/auth/action?mode=resetPassword&oobCode=SAMPLE`,
+    source: "admin",
+  },
+  emailVerification: {
+    verifyLink: `${SAMPLE_SITE_URL}/auth/action?mode=verifyEmail&oobCode=SAMPLE`,
+    source: "mobile",
+  },
+  welcome: {
+    setupLink: `${SAMPLE_SITE_URL}/__/auth/action?mode=resetPassword&oobCode=SAMPLE`,
+    parishName: "Our Lady of the Assumption Parish - Dauis",
+    diocese: "tagbilaran",
+  },
+  welcomeWithCredentials: {
+    email: "dauis.parish@example.com",
+    tempPassword: "Visita-7Kq2",
+    parishName: "Our Lady of the Assumption Parish - Dauis",
+    diocese: "tagbilaran",
+    resetLink: `${SAMPLE_SITE_URL}/__/auth/action?mode=resetPassword&oobCode=SAMPLE`,
+    loginUrl: `${SAMPLE_SITE_URL}/login`,
+  },
+  accountStatus: {
+    status: "rejected",
+    name: "Maria Santos",
+    role: "museum_researcher",
+    reason: "Please register with your institutional email address.",
+    loginUrl: `${SAMPLE_SITE_URL}/login`,
+  },
+  notification: {
+    item: {
+      title: "Church Submitted for Review",
+      message: "St. Joseph the Worker Cathedral has been submitted for chancery review.",
+      priority: "high",
+      actionUrl: `${SAMPLE_SITE_URL}/churches?church=sample`,
+      createdAt: new Date("2026-03-02T00:30:00Z"),
+    },
+    recipientName: "Chancery Office",
+    settingsUrl: `${SAMPLE_SITE_URL}/settings`,
+  },
+  notificationDigest: {
+    items: [
+      {
+        title: "New Feedback Received",
+        message: "A visitor left a 5-star review for Baclayon Church.",
+        priority: "low",
+        actionUrl: `${SAMPLE_SITE_URL}/parish?tab=feedback`,
+        createdAt: new Date("2026-03-02T03:15:00Z"),
+      },
+      {
+        title: "Announcement Published",
+        message: "Holy Week schedule for the Diocese of Tagbilaran is now live.",
+        priority: "low",
+        createdAt: new Date("2026-03-01T09:00:00Z"),
+      },
+    ],
+    frequency: "daily",
+    recipientName: "Parish Secretary",
+    settingsUrl: `${SAMPLE_SITE_URL}/settings`,
+  },
+};
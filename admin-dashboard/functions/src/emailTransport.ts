@@ -0,0 +1,107 @@
+/**
+ * FILE PURPOSE: Email Transport
+ *
+ * The email outbox processor hands each message to an EmailTransport. In
+ * production that is Gmail SMTP (GMAIL_EMAIL / GMAIL_APP_PASSWORD secrets).
+ * Setting EMAIL_SMTP_URL (e.g. "smtp://localhost:1025") sends through any
+ * other SMTP server instead, so the emulator and tests can use a local
+ * SMTP stand-in such as MailHog or smtp4dev without Gmail credentials.
+ */
+
+import * as nodemailer from "nodemailer";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OutboundEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (email: OutboundEmail) => Promise<{ messageId?: string }>;
+}
+
+// =============================================================================
+// TRANSPORTS
+// =============================================================================
+
+const FROM_NAME = "VISITA Bohol Churches";
+
+const fromNodemailer = (
+  name: string,
+  transporter: nodemailer.Transporter,
+  fromAddress: string
+): EmailTransport => ({
+  name,
+  send: async (email) => {
+    const info = await transporter.sendMail({
+      from: `"${FROM_NAME}" <${fromAddress}>`,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+    return { messageId: info.messageId };
+  },
+});
+
+const createGmailTransport = (): EmailTransport => {
+  const email = process.env.GMAIL_EMAIL;
+  const password = process.env.GMAIL_APP_PASSWORD;
+
+  if (!email || !password) {
+    throw new Error(
+      "Gmail credentials not configured. Run:\n" +
+      "firebase functions:secrets:set GMAIL_EMAIL\n" +
+      "firebase functions:secrets:set GMAIL_APP_PASSWORD"
+    );
+  }
+
+  return fromNodemailer(
+    "gmail",
+    nodemailer.createTransport({
+      service: "gmail",
+      auth: {
+        user: email,
+        pass: password,
+      },
+    }),
+    email
+  );
+};
+
+/**
+ * Transport for the current environment: EMAIL_SMTP_URL when set, otherwise
+ * Gmail. EMAIL_FROM overrides the sender address for the SMTP stand-in.
+ */
+export function createEmailTransport(): EmailTransport {
+  const smtpUrl = process.env.EMAIL_SMTP_URL;
+  if (smtpUrl) {
+    return fromNodemailer(
+      "smtp",
+      nodemailer.createTransport(smtpUrl),
+      process.env.EMAIL_FROM || process.env.GMAIL_EMAIL || "noreply@visita.local"
+    );
+  }
+  return createGmailTransport();
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Errors that will not succeed on retry: the server rejected the recipient
+ * or message outright (SMTP 550-554), or the address is malformed.
+ * Authentication and connection failures are retried.
+ */
+export function isPermanentEmailError(error: unknown): boolean {
+  const { responseCode, code } = (error || {}) as { responseCode?: number; code?: string };
+  if (code === "EENVELOPE") return true;
+  return typeof responseCode === "number" && responseCode >= 550 && responseCode <= 554;
+}
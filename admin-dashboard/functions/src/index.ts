@@ -4,414 +4,139 @@
  * =============================================================================
  * 
  * This module provides serverless functions for:
- * - Professional email delivery via Gmail SMTP (FREE - 500 emails/day)
+ * - Professional email delivery via Gmail SMTP (FREE - 500 emails/day), through a
+ *   retrying email outbox that defers non-urgent mail near the daily limit
  * - Password reset emails
  * - Welcome emails for new parish accounts
  * - Email verification
+ * - Review SLA escalation (scheduled)
+ * - Reviewer claim release (expired claims, archived accounts)
+ * - Announcement publishing, recurrence and archiving (scheduled)
+ * - Nightly re-projection of recurring mass schedules into the weekly list (scheduled)
+ * - iCalendar feeds for churches and dioceses (HTTP)
+ * - RSS/Atom/JSON announcement feeds for dioceses and parishes (HTTP)
+ * - "Next mass near me" search for the mobile app (HTTP)
+ * - Notification fan-out to per-user inboxes, with email immediately or in daily/weekly digests
+ * - Localized, diocese-branded email templates with a chancery preview endpoint
+ * - Automatic moderation of new visitor feedback before it is published
+ * - Official reply threads on feedback, with a notification to the visitor
+ * - Topic and sentiment tagging of feedback comments, with a backfill job
+ * - Visitor and parish flags on feedback, automatic hiding and an appeal queue
+ * - Immutable church version snapshots, written server-side after approvals
  */
 
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
-import * as nodemailer from "nodemailer";
+import { createHash } from "crypto";
+import { buildParsedDataFromText } from "./shared/churchImportParser";
+import { extractTextFromFile } from "./documentText";
+import { buildCalendarFeed, CalendarAnnouncement, CalendarChurch } from "./calendarFeed";
+import { DEFAULT_RESULT_LIMIT, findNextMasses, NextMassChurch } from "./shared/nextMassQuery";
+import { getScheduleAction, ScheduledAnnouncement } from "./shared/announcementSchedule";
+import {
+  AnnouncementFeedFormat,
+  buildAnnouncementFeed,
+  FEED_CONTENT_TYPES,
+  FEED_FORMATS,
+  FeedAnnouncement,
+} from "./announcementFeed";
+import {
+  ANNOUNCEMENT_CATEGORIES,
+  AnnouncementCategory,
+  matchesAnnouncementCategories,
+  parseAnnouncementCategoryFilter,
+} from "./shared/announcementCategories";
+import {
+  DIGEST_HOUR,
+  isDigestDue,
+  isInAppEnabled,
+  isNotificationRecipient,
+  normalizeNotificationPreferences,
+  NotificationAddress,
+  NotificationPreferences,
+  resolveEmailDelivery,
+} from "./shared/notificationPreferences";
+import { DEFAULT_EMAIL_LOCALE, EmailLocale, parseEmailLocale } from "./shared/emailLocales";
+import { DEFAULT_EMAIL_BRANDING, EmailBranding, RenderedEmail } from "./emailLayout";
+import {
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATE_SAMPLES,
+  EmailTemplateId,
+  EmailTemplateParams,
+  isEmailTemplateId,
+  NotificationEmailItem,
+  renderEmailTemplate,
+} from "./emailTemplates";
+import { createEmailTransport, EmailTransport, isPermanentEmailError } from "./emailTransport";
+import {
+  EMAIL_DAILY_QUOTA,
+  EMAIL_OUTBOX_STATUSES,
+  EMAIL_SENDING_LEASE_MS,
+  EmailPriority,
+  getEmailQuotaDay,
+  getEmailRetryDelayMs,
+  getNextEmailQuotaReset,
+  hasEmailQuota,
+  MAX_EMAIL_ATTEMPTS,
+  PENDING_EMAIL_STATUSES,
+  URGENT_EMAIL_RESERVE,
+} from "./shared/emailOutbox";
+import { moderateFeedbackText, PriorFeedback } from "./shared/feedbackModeration";
+import { FeedbackReplyVisibility, isOfficialReply, isPublicReply } from "./shared/feedbackReplies";
+import { FEEDBACK_TAGS_VERSION, tagFeedbackText } from "./shared/feedbackTopics";
+import {
+  FEEDBACK_APPEALS_COLLECTION,
+  FEEDBACK_FLAGS_COLLECTION,
+  FEEDBACK_SETTINGS_COLLECTION,
+  normalizeAutoHideFlagCount,
+  shouldAutoHideFeedback,
+} from "./shared/feedbackFlags";
+import {
+  CHURCH_VERSIONS_COLLECTION,
+  getChurchVersionEvent,
+  getVersionedContent,
+  hasSameVersionedContent,
+} from "./shared/churchVersions";
+import {
+  LegacyMassSchedule,
+  manilaDateKey,
+  MassScheduleRecurrence,
+  projectLegacyMassSchedules,
+  sameLegacyMassSchedules,
+} from "./shared/massScheduleRecurrence";
 
 // Initialize Firebase Admin
 admin.initializeApp();
 
 
-interface EmailTransporter {
-  sendMail: (options: nodemailer.SendMailOptions) => Promise<nodemailer.SentMessageInfo>;
-}
-
-
-const createGmailTransporter = (): EmailTransporter => {
-  const email = process.env.GMAIL_EMAIL;
-  const password = process.env.GMAIL_APP_PASSWORD;
-
-  if (!email || !password) {
-    throw new Error(
-      "Gmail credentials not configured. Run:\n" +
-      "firebase functions:secrets:set GMAIL_EMAIL\n" +
-      "firebase functions:secrets:set GMAIL_APP_PASSWORD"
-    );
-  }
-
-  return nodemailer.createTransport({
-    service: "gmail",
-    auth: {
-      user: email,
-      pass: password,
-    },
-  });
-};
-
-// Email configuration
-const EMAIL_CONFIG = {
-  fromName: "VISITA Bohol Churches",
-  
-};
-
 // ==========================
-// CHURCH IMPORT PARSING
+// CALLER CHECKS
 // ==========================
 
-const normalizeWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
-
-const setNestedValue = (target: Record<string, any>, path: string, value: unknown) => {
-  const keys = path.split(".");
-  let cursor = target;
-  for (let i = 0; i < keys.length - 1; i += 1) {
-    const key = keys[i];
-    if (!cursor[key] || typeof cursor[key] !== "object") {
-      cursor[key] = {};
-    }
-    cursor = cursor[key] as Record<string, any>;
-  }
-  cursor[keys[keys.length - 1]] = value;
-};
-
-// All known labels used to detect field boundaries.
-// Longer labels are listed first so they match before shorter prefixes.
-const ALL_KNOWN_LABELS = [
-  "Parish Name", "Church Name", "Parish", "Church",
-  "Location Details", "Street Address", "Address",
-  "Barangay", "Municipality", "City", "Town", "Province",
-  "Current Parish Priest", "Parish Priest", "Current Priest", "Priest",
-  "Parish Administrator",
-  "Feast Day", "Patron Feast Day", "Patron Saint", "Patron",
-  "Founding Year", "Year Founded", "Year Established", "Year Built",
-  "Date Established", "Date Founded", "Construction Year", "Founded",
-  "Founders", "Founded By", "Founding Organization",
-  "Architectural Style", "Architecture",
-  "Heritage Classification", "Heritage Class",
-  "Religious Classification", "Religious Class",
-  "Historical Background", "Historical background", "Church History", "History",
-  "Architectural Information", "Architectural Features", "Design Features", "Building Features", "Notable Features",
-  "Heritage Information", "Heritage Details", "Heritage Status", "Cultural Significance",
-  "Contact Phone", "Contact Number", "Contact #", "Phone", "Telephone",
-  "Mobile Number", "Mobile", "Tel",
-  "Contact Email", "Email",
-  "Official Website", "Website",
-  "Facebook Page", "Facebook",
-  "Mass Schedules", "Mass Schedule", "Schedule of Masses", "Worship Schedule",
-  "GPS Coordinates", "Coordinates", "Latitude", "Longitude",
-  "Diocese", "Vicariate"
-].sort((a, b) => b.length - a.length);
-
-// Fields whose values legitimately span multiple lines.
-// For all other fields, continuation lines are NOT appended.
-const MULTI_LINE_LABELS = new Set([
-  "historical background", "church history", "history",
-  "architectural information", "architectural features", "design features",
-  "building features", "notable features",
-  "heritage information", "heritage details", "heritage status", "cultural significance",
-  "mass schedules", "mass schedule", "schedule of masses", "worship schedule"
-]);
-
-/**
- * Pre-process raw text: split concatenated fields onto separate lines
- * and join multi-line values that belong to the same field.
- */
-const preprocessText = (text: string): Map<string, string> => {
-  // Phase 1: Insert line breaks before any known "Label:" pattern so
-  // concatenated text like "Municipality: DauisFounding Year: 1697" is split.
-  const labelPattern = ALL_KNOWN_LABELS
-    .map((l) => l.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
-    .join("|");
-  const splitRegex = new RegExp(`(?<=[^\\n])(?=(${labelPattern})\\s*:)`, "gi");
-  const normalized = text.replace(splitRegex, "\n");
-
-  // Phase 2: Walk lines and pair each label with its (possibly multi-line) value.
-  const lines = normalized.split(/\r?\n/);
-  const result = new Map<string, string>();
-  let currentLabel = "";
-  let currentValue = "";
-
-  const labelLineRegex = new RegExp(
-    `^\\s*(${labelPattern})\\s*:\\s*(.*)$`, "i"
-  );
-
-  for (const line of lines) {
-    const match = line.match(labelLineRegex);
-    if (match) {
-      // Store previous field
-      if (currentLabel) {
-        result.set(currentLabel.toLowerCase(), normalizeWhitespace(currentValue));
-      }
-      currentLabel = match[1];
-      currentValue = match[2] || "";
-    } else if (currentLabel) {
-      // Only append continuation lines for multi-line fields (e.g. history, features).
-      // For short fields like names/addresses, ignore stray continuation lines
-      // to prevent address text bleeding into parish/church name fields.
-      const trimmed = line.trim();
-      if (trimmed && MULTI_LINE_LABELS.has(currentLabel.toLowerCase())) {
-        currentValue += " " + trimmed;
-      }
-    }
-  }
-  // Store last field
-  if (currentLabel) {
-    result.set(currentLabel.toLowerCase(), normalizeWhitespace(currentValue));
-  }
-
-  return result;
-};
-
-/**
- * Normalize dropdown values so extracted text maps to valid form options.
- */
-const ARCHITECTURAL_STYLE_MAP: Record<string, string> = {
-  "baroque": "Baroque",
-  "neo-gothic": "Neo-Gothic",
-  "neogothic": "Neo-Gothic",
-  "neo gothic": "Neo-Gothic",
-  "gothic": "Neo-Gothic",
-  "byzantine": "Byzantine",
-  "neo-classical": "Neo-Classical",
-  "neoclassical": "Neo-Classical",
-  "neo classical": "Neo-Classical",
-  "modern": "Modern",
-  "mixed styles": "Mixed Styles",
-  "mixed": "Mixed Styles",
-  "other": "Other",
-};
-
-const normalizeArchitecturalStyle = (raw: string): string => {
-  const lower = raw.toLowerCase().trim();
-  // Direct match
-  if (ARCHITECTURAL_STYLE_MAP[lower]) return ARCHITECTURAL_STYLE_MAP[lower];
-  // Partial / contains match
-  for (const [key, val] of Object.entries(ARCHITECTURAL_STYLE_MAP)) {
-    if (lower.includes(key)) return val;
-  }
-  // If it mentions multiple styles, use Mixed Styles
-  const matched = Object.keys(ARCHITECTURAL_STYLE_MAP).filter((k) => lower.includes(k));
-  if (matched.length > 1) return "Mixed Styles";
-  return raw.trim(); // Return as-is and let the UI handle it
-};
-
-const HERITAGE_CLASSIFICATION_MAP: Record<string, string> = {
-  "none": "None",
-  "national cultural treasure": "National Cultural Treasures",
-  "national cultural treasures": "National Cultural Treasures",
-  "nct": "National Cultural Treasures",
-  "important cultural property": "Important Cultural Properties",
-  "important cultural properties": "Important Cultural Properties",
-  "icp": "Important Cultural Properties",
-};
-
-const normalizeHeritageClassification = (raw: string): string => {
-  const lower = raw.toLowerCase().trim();
-  if (HERITAGE_CLASSIFICATION_MAP[lower]) return HERITAGE_CLASSIFICATION_MAP[lower];
-  for (const [key, val] of Object.entries(HERITAGE_CLASSIFICATION_MAP)) {
-    if (lower.includes(key)) return val;
-  }
-  return raw.trim();
-};
-
-const RELIGIOUS_CLASSIFICATION_OPTIONS = [
-  "Diocesan Shrine", "Jubilee Church", "Papal Basilica Affinity", "Holy Door"
-];
-
-const parseReligiousClassifications = (raw: string): string[] => {
-  const lower = raw.toLowerCase();
-  return RELIGIOUS_CLASSIFICATION_OPTIONS.filter(
-    (opt) => lower.includes(opt.toLowerCase())
-  );
-};
-
-interface MassScheduleEntry {
-  day: string;
-  time: string;
-  endTime: string;
-}
-
 /**
- * Parse mass schedule text into structured MassSchedule objects.
- * Handles formats like:
- *   "Sunday 7:00 AM, 9:00 AM; Saturday 5:30 PM"
- *   "Sunday: 6:00 AM - 7:00 AM, 9:00 AM - 10:00 AM"
- *   "Mon-Fri 6:00 AM"
+ * Throws unless the caller of a callable function is a chancery office
+ * account; returns their uid and diocese. [action] completes the error
+ * messages.
  */
-const parseMassSchedules = (raw: string): MassScheduleEntry[] => {
-  const schedules: MassScheduleEntry[] = [];
-  const entries = raw.split(/[;\n]/).map((s: string) => s.trim()).filter(Boolean);
-
-  const dayAliases: Record<string, string> = {
-    "sun": "Sunday", "sunday": "Sunday",
-    "mon": "Monday", "monday": "Monday",
-    "tue": "Tuesday", "tues": "Tuesday", "tuesday": "Tuesday",
-    "wed": "Wednesday", "wednesday": "Wednesday",
-    "thu": "Thursday", "thurs": "Thursday", "thursday": "Thursday",
-    "fri": "Friday", "friday": "Friday",
-    "sat": "Saturday", "saturday": "Saturday",
-    "weekdays": "Weekdays", "weekday": "Weekdays",
-    "daily": "Daily",
-  };
-
-  const timeRegex = /(\d{1,2}:\d{2}\s*(?:AM|PM|am|pm))/g;
-
-  for (const entry of entries) {
-    const dayMatch = entry.match(/^([A-Za-z-]+)[:\s,]+(.+)$/i);
-    let day = "";
-    let rest = entry;
-    if (dayMatch) {
-      const dayKey = dayMatch[1].toLowerCase().replace(/-/g, "");
-      if (dayAliases[dayKey]) {
-        day = dayAliases[dayKey];
-        rest = dayMatch[2];
-      } else {
-        const parts = dayMatch[1].split("-");
-        if (parts.length === 2 && dayAliases[parts[0].toLowerCase()] && dayAliases[parts[1].toLowerCase()]) {
-          day = `${dayAliases[parts[0].toLowerCase()]}-${dayAliases[parts[1].toLowerCase()]}`;
-          rest = dayMatch[2];
-        }
-      }
-    }
-
-    const times = [...rest.matchAll(timeRegex)].map((m: RegExpMatchArray) => m[1].trim());
-    if (times.length > 0 && day) {
-      for (const time of times) {
-        schedules.push({ day, time, endTime: "" });
-      }
-    } else if (day && rest.trim()) {
-      schedules.push({ day, time: rest.trim(), endTime: "" });
-    }
+const requireChanceryOffice = async (
+  context: functions.https.CallableContext,
+  action: string
+): Promise<{ uid: string; diocese?: string }> => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError("unauthenticated", `Must be authenticated to ${action}`);
   }
-
-  return schedules;
-};
-
-/**
- * Validate extracted values and compute dynamic confidence scores.
- */
-const validateAndScore = (
-  path: string,
-  value: unknown
-): { value: unknown; confidence: number } => {
-  const str = typeof value === "string" ? value : "";
-
-  switch (path) {
-    case "parishName":
-    case "churchName": {
-      const addressPatterns = /\b(bohol|cebu|leyte|street|st\.|brgy\.|barangay|province|philippines)\b/i;
-      if (addressPatterns.test(str)) return { value: str, confidence: 0.4 };
-      if (str.length < 3) return { value: str, confidence: 0.3 };
-      if (str.length > 200) return { value: str, confidence: 0.4 };
-      return { value: str, confidence: 0.85 };
-    }
-
-    case "historicalDetails.foundingYear": {
-      const yearMatch = str.match(/\b(1[0-9]{3}|20[0-2][0-9])\b/);
-      if (yearMatch) {
-        const year = parseInt(yearMatch[1], 10);
-        const currentYear = new Date().getFullYear();
-        if (year >= 1521 && year <= currentYear) return { value: String(year), confidence: 0.95 };
-        return { value: String(year), confidence: 0.5 };
-      }
-      return { value: str, confidence: 0.3 };
-    }
-
-    case "historicalDetails.heritageClassification": {
-      const validValues = ["National Cultural Treasures", "Important Cultural Properties", "None"];
-      if (validValues.includes(str)) return { value: str, confidence: 0.95 };
-      return { value: str, confidence: 0.4 };
-    }
-
-    case "historicalDetails.architecturalStyle": {
-      const validStyles = ["Baroque", "Neo-Gothic", "Byzantine", "Neo-Classical", "Modern", "Mixed Styles", "Other"];
-      if (validStyles.includes(str)) return { value: str, confidence: 0.9 };
-      return { value: str, confidence: 0.5 };
-    }
-
-    case "contactInfo.email": {
-      if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(str)) return { value: str, confidence: 0.9 };
-      return { value: str, confidence: 0.3 };
-    }
-
-    case "contactInfo.phone": {
-      const digits = str.replace(/[^0-9]/g, "");
-      if (digits.length < 7) return { value: str, confidence: 0.4 };
-      // Normalize to +63 format: strip leading 0 (domestic trunk prefix)
-      let normalized = str.trim();
-      if (normalized.startsWith("0")) {
-        normalized = "+63 " + normalized.replace(/^0+/, "");
-      } else if (/^\d/.test(normalized) && !normalized.startsWith("+")) {
-        normalized = "+63 " + normalized;
-      } else if (normalized.startsWith("+63")) {
-        normalized = normalized.replace(/^(\+63\s*)0+/, "$1");
-      }
-      return { value: normalized, confidence: 0.85 };
-    }
-
-    case "historicalDetails.historicalBackground":
-    case "historicalDetails.architecturalFeatures":
-    case "historicalDetails.heritageInformation": {
-      if (str.length > 100) return { value: str, confidence: 0.85 };
-      if (str.length > 30) return { value: str, confidence: 0.7 };
-      return { value: str, confidence: 0.5 };
-    }
-
-    case "massSchedules": {
-      if (Array.isArray(value) && value.length > 0) return { value, confidence: 0.8 };
-      return { value, confidence: 0.4 };
-    }
-
-    default:
-      return { value, confidence: 0.7 };
+  const userDoc = await admin.firestore().collection("users").doc(context.auth.uid).get();
+  const userData = userDoc.data();
+  if (!userData || userData.role !== "chancery_office") {
+    throw new functions.https.HttpsError("permission-denied", `Only chancery office can ${action}`);
   }
+  return { uid: context.auth.uid, diocese: userData.diocese };
 };
 
-const buildParsedDataFromText = (text: string) => {
-  const fieldValues = preprocessText(text);
-  const parsedData: Record<string, any> = {};
-  const confidence: Record<string, number> = {};
-
-  // Mapping: field path -> list of label aliases (lowercase) to search in the map
-  const fieldMap: Array<{ path: string; labels: string[]; transform?: (v: string) => unknown }> = [
-    { path: "parishName", labels: ["parish name", "parish"] },
-    { path: "churchName", labels: ["church name", "church"] },
-    { path: "locationDetails.streetAddress", labels: ["street address", "address"] },
-    { path: "locationDetails.barangay", labels: ["barangay"] },
-    { path: "locationDetails.municipality", labels: ["municipality", "city", "town"] },
-    { path: "locationDetails.province", labels: ["province"] },
-    { path: "currentParishPriest", labels: ["current parish priest", "parish priest", "current priest", "priest", "parish administrator"] },
-    { path: "feastDay", labels: ["feast day", "patron feast day"] },
-    { path: "historicalDetails.foundingYear", labels: ["founding year", "year founded", "year established", "year built", "date established", "date founded", "construction year", "founded"] },
-    { path: "historicalDetails.founders", labels: ["founders", "founded by", "founding organization"] },
-    { path: "historicalDetails.architecturalStyle", labels: ["architectural style", "architecture"], transform: normalizeArchitecturalStyle },
-    { path: "historicalDetails.heritageClassification", labels: ["heritage classification", "heritage class"], transform: normalizeHeritageClassification },
-    { path: "historicalDetails.religiousClassifications", labels: ["religious classification", "religious class"], transform: (v) => { const arr = parseReligiousClassifications(v); return arr.length > 0 ? arr : undefined; } },
-    { path: "historicalDetails.historicalBackground", labels: ["historical background", "church history", "history"] },
-    { path: "historicalDetails.architecturalFeatures", labels: ["architectural information", "architectural features", "design features", "building features", "notable features"] },
-    { path: "historicalDetails.heritageInformation", labels: ["heritage information", "heritage details", "heritage status", "cultural significance"] },
-    { path: "contactInfo.phone", labels: ["contact phone", "contact number", "contact #", "phone", "telephone", "mobile number", "mobile", "tel"] },
-    { path: "contactInfo.email", labels: ["contact email", "email"] },
-    { path: "contactInfo.website", labels: ["official website", "website"] },
-    { path: "contactInfo.facebookPage", labels: ["facebook page", "facebook"] },
-    { path: "massSchedules", labels: ["mass schedules", "mass schedule", "schedule of masses", "worship schedule"], transform: (v) => { const arr = parseMassSchedules(v); return arr.length > 0 ? arr : undefined; } }
-  ];
-
-  fieldMap.forEach(({ path, labels, transform }) => {
-    // Try each label alias — first match wins
-    for (const label of labels) {
-      const raw = fieldValues.get(label);
-      if (raw) {
-        const value = transform ? transform(raw) : raw;
-        if (value !== undefined && value !== "") {
-          const validated = validateAndScore(path, value);
-          if (validated.value !== undefined && validated.value !== "") {
-            setNestedValue(parsedData, path, validated.value);
-            confidence[path] = validated.confidence;
-          }
-        }
-        break;
-      }
-    }
-  });
 
-  return { parsedData, confidence };
-};
+// ==========================
+// CHURCH IMPORT PARSING
+// ==========================
 
 const getStoragePathFromUrl = (url: string) => {
   try {
@@ -429,58 +154,6 @@ const getStoragePathFromUrl = (url: string) => {
   }
 };
 
-const isPdf = (contentType: string, fileName?: string) =>
-  contentType === "application/pdf" || /\.pdf$/i.test(fileName || "");
-
-const isDocx = (contentType: string, fileName?: string) =>
-  contentType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-  /\.docx$/i.test(fileName || "");
-
-const isDoc = (contentType: string, fileName?: string) =>
-  contentType === "application/msword" || /\.doc$/i.test(fileName || "");
-
-const isImage = (contentType: string, fileName?: string) =>
-  contentType.startsWith("image/") || /\.(png|jpe?g|webp|bmp|tiff?)$/i.test(fileName || "");
-
-const extractTextFromPdf = async (buffer: Buffer) => {
-  const pdfParse = (await import("pdf-parse")).default as (data: Buffer) => Promise<{ text: string }>;
-  const result = await pdfParse(buffer);
-  return result.text || "";
-};
-
-const extractTextFromDocx = async (buffer: Buffer) => {
-  const mammoth = await import("mammoth");
-  const result = await mammoth.extractRawText({ buffer });
-  return result.value || "";
-};
-
-const extractTextFromImage = async (buffer: Buffer) => {
-  const vision = await import("@google-cloud/vision");
-  const client = new vision.ImageAnnotatorClient();
-  const [result] = await client.textDetection({ image: { content: buffer } });
-  const annotations = result?.textAnnotations;
-  return annotations && annotations.length > 0 ? annotations[0].description || "" : "";
-};
-
-const extractTextFromFile = async (buffer: Buffer, contentType: string, fileName?: string) => {
-  if (contentType.startsWith("text/")) {
-    return buffer.toString("utf8");
-  }
-  if (isPdf(contentType, fileName)) {
-    return extractTextFromPdf(buffer);
-  }
-  if (isDocx(contentType, fileName)) {
-    return extractTextFromDocx(buffer);
-  }
-  if (isDoc(contentType, fileName)) {
-    throw new Error("DOC format is not supported. Please upload DOCX instead.");
-  }
-  if (isImage(contentType, fileName)) {
-    return extractTextFromImage(buffer);
-  }
-  throw new Error("Unsupported file type for parsing.");
-};
-
 /**
  * Generate password reset link using Firebase Admin SDK
  * @param email - User's email address
@@ -543,474 +216,105 @@ const generateEmailVerificationLink = async (
 // =================
 // EMAIL TEMPLATES
 // =================
+// Templates are rendered by emailTemplates.ts; these helpers choose the
+// language and diocese branding for the person receiving the email.
 
-const emailTemplates = {
-  passwordReset: (resetLink: string, source: 'admin' | 'mobile' = 'admin') => {
-    const isAdmin = source === 'admin';
-    const appName = isAdmin ? 'VISITA Admin' : 'VISITA Bohol';
-    const subtitle = 'Bohol Churches Information System';
-    const description = isAdmin 
-      ? 'We received a request to reset the password for your VISITA admin account. Click the button below to create a new password.'
-      : 'We received a request to reset the password for your VISITA account. Click the button below to create a new password.';
-    
-    return {
-      subject: isAdmin ? 'Reset Your VISITA Admin Password' : 'Reset Your VISITA Password',
-      html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Password Reset</title>
-      </head>
-      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
-        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
-          <tr>
-            <td align="center" style="padding: 40px 20px;">
-              <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 480px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                <!-- Header -->
-                <tr>
-                  <td style="padding: 40px 40px 20px; text-align: center;">
-                    <img src="https://visita-bohol-system.vercel.app/visita-logo.png" alt="VISITA Logo" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
-                    <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">
-                      ${appName}
-                    </h1>
-                    <p style="margin: 8px 0 0; font-size: 14px; color: #64748b;">
-                      ${subtitle}
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Content -->
-                <tr>
-                  <td style="padding: 20px 40px;">
-                    <h2 style="margin: 0 0 16px; font-size: 20px; font-weight: 600; color: #1e293b;">
-                      Reset Your Password
-                    </h2>
-                    <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #475569;">
-                      ${description}
-                    </p>
-                    
-                    <!-- CTA Button -->
-                    <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-                      <tr>
-                        <td align="center">
-                          <a href="${resetLink}" 
-                             style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #6366f1, #4f46e5); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px; box-shadow: 0 2px 4px rgba(99, 102, 241, 0.3);">
-                            Reset Password
-                          </a>
-                        </td>
-                      </tr>
-                    </table>
-                    
-                    <p style="margin: 24px 0 0; font-size: 13px; line-height: 1.6; color: #94a3b8;">
-                      This link will expire in 1 hour. If you didn't request this, you can safely ignore this email.
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Footer -->
-                <tr>
-                  <td style="padding: 20px 40px 40px;">
-                    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 0 0 20px;">
-                    <p style="margin: 0; font-size: 12px; color: #94a3b8; text-align: center;">
-                      Diocese of Tagbilaran & Diocese of Talibon<br>
-                      Bohol, Philippines
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-    `,
-      text: `
-${appName} - Password Reset
-
-${description}
-
-Click this link to reset your password:
-${resetLink}
-
-This link will expire in 1 hour.
-
-If you didn't request this, you can safely ignore this email.
-
----
-Diocese of Tagbilaran & Diocese of Talibon
-Bohol, Philippines
-      `.trim(),
-    };
-  },
-
-  emailVerification: (verifyLink: string, source: 'admin' | 'mobile' = 'admin') => {
-    const isAdmin = source === 'admin';
-    const appName = isAdmin ? 'VISITA Admin' : 'VISITA Bohol';
-    const subtitle = 'Bohol Churches Information System';
-    const description = isAdmin 
-      ? 'Please verify your email address to complete your VISITA admin account setup. Click the button below to confirm your email.'
-      : 'Welcome to VISITA! Please verify your email address to unlock the full experience including 360° virtual tours, rich historical insights, upcoming events, announcements, and much more.';
-    
-    return {
-      subject: isAdmin ? 'Verify Your VISITA Admin Email' : 'Welcome to VISITA Bohol - Verify Your Email',
-      html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Email Verification</title>
-      </head>
-      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
-        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
-          <tr>
-            <td align="center" style="padding: 40px 20px;">
-              <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 480px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                <!-- Header -->
-                <tr>
-                  <td style="padding: 40px 40px 20px; text-align: center;">
-                    <img src="https://visita-bohol-system.vercel.app/visita-logo.png" alt="VISITA Logo" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
-                    <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">
-                      ${appName}
-                    </h1>
-                    <p style="margin: 8px 0 0; font-size: 14px; color: #64748b;">
-                      ${subtitle}
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Content -->
-                <tr>
-                  <td style="padding: 20px 40px;">
-                    <h2 style="margin: 0 0 16px; font-size: 20px; font-weight: 600; color: #1e293b;">
-                      Verify Your Email Address
-                    </h2>
-                    <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #475569;">
-                      ${description}
-                    </p>
-                    
-                    <!-- CTA Button -->
-                    <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-                      <tr>
-                        <td align="center">
-                          <a href="${verifyLink}" 
-                             style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #22c55e, #16a34a); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px; box-shadow: 0 2px 4px rgba(34, 197, 94, 0.3);">
-                            Verify Email
-                          </a>
-                        </td>
-                      </tr>
-                    </table>
-                    
-                    <p style="margin: 24px 0 0; font-size: 13px; line-height: 1.6; color: #94a3b8;">
-                      This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Footer -->
-                <tr>
-                  <td style="padding: 20px 40px 40px;">
-                    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 0 0 20px;">
-                    <p style="margin: 0; font-size: 12px; color: #94a3b8; text-align: center;">
-                      Diocese of Tagbilaran & Diocese of Talibon<br>
-                      Bohol, Philippines
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-    `,
-      text: `
-${appName} - Email Verification
-
-${description}
-
-Click this link to verify your email:
-${verifyLink}
-
-This link will expire in 24 hours.
-
-If you didn't create an account, you can safely ignore this email.
-
----
-Diocese of Tagbilaran & Diocese of Talibon
-Bohol, Philippines
-      `.trim(),
-    };
-  },
-
-  /**
-   * Welcome email with temporary credentials
-   * Used when chancery creates a parish account with a generated password
-   * Parish secretary can use these credentials OR click reset password
-   */
-  welcomeWithCredentials: (
-    email: string,
-    tempPassword: string,
-    parishName: string,
-    diocese: string,
-    resetLink: string
-  ) => ({
-    subject: `Your VISITA Admin Account - ${parishName}`,
-    html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      </head>
-      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
-        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
-          <tr>
-            <td align="center" style="padding: 40px 20px;">
-              <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 520px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                <!-- Header -->
-                <tr>
-                  <td style="padding: 40px 40px 20px; text-align: center;">
-                    <img src="https://visita-bohol-system.vercel.app/visita-logo.png" alt="VISITA Logo" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
-                    <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">
-                      Welcome to VISITA Admin!
-                    </h1>
-                    <p style="margin: 8px 0 0; font-size: 14px; color: #64748b;">
-                      Bohol Churches Information System
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Parish Info -->
-                <tr>
-                  <td style="padding: 0 40px 20px;">
-                    <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 8px; padding: 16px; text-align: center;">
-                      <p style="margin: 0; font-size: 18px; font-weight: 600; color: #166534;">
-                        ${parishName}
-                      </p>
-                      <p style="margin: 4px 0 0; font-size: 14px; color: #15803d;">
-                        Diocese of ${diocese || "Bohol"}
-                      </p>
-                    </div>
-                  </td>
-                </tr>
-                
-                <!-- Credentials Box -->
-                <tr>
-                  <td style="padding: 0 40px 24px;">
-                    <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-                      Your parish secretary account has been created. Here are your login credentials:
-                    </p>
-                    
-                    <div style="background-color: #fefce8; border: 1px solid #fde047; border-radius: 8px; padding: 20px;">
-                      <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-                        <tr>
-                          <td style="padding: 0 0 12px;">
-                            <p style="margin: 0; font-size: 12px; font-weight: 600; color: #a16207; text-transform: uppercase; letter-spacing: 0.5px;">
-                              Email Address
-                            </p>
-                            <p style="margin: 4px 0 0; font-size: 16px; font-weight: 600; color: #713f12; font-family: monospace;">
-                              ${email}
-                            </p>
-                          </td>
-                        </tr>
-                        <tr>
-                          <td style="border-top: 1px dashed #fde047; padding: 12px 0 0;">
-                            <p style="margin: 0; font-size: 12px; font-weight: 600; color: #a16207; text-transform: uppercase; letter-spacing: 0.5px;">
-                              Temporary Password
-                            </p>
-                            <p style="margin: 4px 0 0; font-size: 16px; font-weight: 600; color: #713f12; font-family: monospace; letter-spacing: 1px;">
-                              ${tempPassword}
-                            </p>
-                          </td>
-                        </tr>
-                      </table>
-                    </div>
-                  </td>
-                </tr>
-
-                <!-- Login Button -->
-                <tr>
-                  <td style="padding: 0 40px 16px;">
-                    <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-                      <tr>
-                        <td align="center">
-                          <a href="https://visita-bohol-system.vercel.app/login" 
-                             style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #10b981, #059669); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px; width: 100%; max-width: 280px; text-align: center; box-sizing: border-box;">
-                            Login to Your Dashboard
-                          </a>
-                        </td>
-                      </tr>
-                    </table>
-                  </td>
-                </tr>
-                
-                <!-- Reset Password Option -->
-                <tr>
-                  <td style="padding: 0 40px 24px;">
-                    <div style="background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; text-align: center;">
-                      <p style="margin: 0 0 8px; font-size: 13px; color: #64748b;">
-                        Want to set your own password instead?
-                      </p>
-                      <a href="${resetLink}" 
-                         style="font-size: 13px; color: #6366f1; text-decoration: underline; font-weight: 500;">
-                        Click here to reset password
-                      </a>
-                    </div>
-                  </td>
-                </tr>
-                
-                <!-- Security Notice -->
-                <tr>
-                  <td style="padding: 0 40px 24px;">
-                    <p style="margin: 0; font-size: 12px; line-height: 1.6; color: #94a3b8; background-color: #fef2f2; border: 1px solid #fecaca; border-radius: 6px; padding: 12px;">
-                      <strong style="color: #dc2626;">Security Tip:</strong> We recommend changing your password after your first login. Go to Account Settings to update your password.
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Footer -->
-                <tr>
-                  <td style="padding: 20px 40px 40px;">
-                    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 0 0 20px;">
-                    <p style="margin: 0; font-size: 12px; color: #94a3b8; text-align: center;">
-                      VISITA: Bohol Churches Information System<br>
-                      Diocese of Tagbilaran & Diocese of Talibon
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-    `,
-    text: `
-Welcome to VISITA Admin!
-
-Your parish secretary account has been created for:
-${parishName}
-Diocese of ${diocese || "Bohol"}
-
-=== YOUR LOGIN CREDENTIALS ===
-
-Email: ${email}
-Temporary Password: ${tempPassword}
-
-Login URL: https://visita-bohol-system.vercel.app/login
-
-=== WANT TO SET YOUR OWN PASSWORD? ===
-
-Click this link to reset your password:
-${resetLink}
-
-Security Tip: We recommend changing your password after your first login.
-
----
-VISITA: Bohol Churches Information System
-Diocese of Tagbilaran & Diocese of Talibon
-    `.trim(),
-  }),
-
-  welcome: (setupLink: string, parishName: string, diocese: string) => ({
-    subject: `Welcome to VISITA Admin - ${parishName}`,
-    html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      </head>
-      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
-        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
-          <tr>
-            <td align="center" style="padding: 40px 20px;">
-              <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 480px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                <!-- Header -->
-                <tr>
-                  <td style="padding: 40px 40px 20px; text-align: center;">
-                    <img src="https://visita-bohol-system.vercel.app/visita-logo.png" alt="VISITA Logo" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
-                    <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">
-                      Welcome to VISITA!
-                    </h1>
-                  </td>
-                </tr>
-                
-                <!-- Content -->
-                <tr>
-                  <td style="padding: 20px 40px;">
-                    <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-                      Your parish secretary account has been created for:
-                    </p>
-                    
-                    <div style="background-color: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
-                      <p style="margin: 0; font-size: 16px; font-weight: 600; color: #166534;">
-                        ${parishName}
-                      </p>
-                      <p style="margin: 4px 0 0; font-size: 14px; color: #15803d;">
-                        Diocese of ${diocese || "Bohol"}
-                      </p>
-                    </div>
-                    
-                    <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #475569;">
-                      Click the button below to set up your password and access your dashboard.
-                    </p>
-                    
-                    <!-- CTA Button -->
-                    <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-                      <tr>
-                        <td align="center">
-                          <a href="${setupLink}" 
-                             style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #10b981, #059669); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px;">
-                            Set Up Password
-                          </a>
-                        </td>
-                      </tr>
-                    </table>
-                    
-                    <p style="margin: 24px 0 0; font-size: 13px; line-height: 1.6; color: #94a3b8;">
-                      This link will expire in 1 hour. If it expires, contact the Chancery Office to resend.
-                    </p>
-                  </td>
-                </tr>
-                
-                <!-- Footer -->
-                <tr>
-                  <td style="padding: 20px 40px 40px;">
-                    <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 0 0 20px;">
-                    <p style="margin: 0; font-size: 12px; color: #94a3b8; text-align: center;">
-                      VISITA: Bohol Churches Information System<br>
-                      Diocese of Tagbilaran & Diocese of Talibon
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-    `,
-    text: `
-Welcome to VISITA Admin!
-
-Your parish secretary account has been created for:
-${parishName}
-Diocese of ${diocese || "Bohol"}
-
-Click this link to set up your password:
-${setupLink}
-
-This link will expire in 1 hour.
-
----
-VISITA: Bohol Churches Information System
-Diocese of Tagbilaran & Diocese of Talibon
-    `.trim(),
-  }),
+const LOGIN_URL = "https://visita-bohol-system.vercel.app/login";
+const DIOCESE_LOGO_PREFIX = "logos/diocese";
+
+// Logo lookups are cached for the lifetime of the function instance
+const emailBrandingCache = new Map<string, EmailBranding>();
+
+/**
+ * Branding for email sent on behalf of a diocese: the latest logo uploaded
+ * through LogoService (logos/diocese/{dioceseId}/logo_<timestamp>.<ext>), or
+ * the VISITA logo when the diocese has none. Unknown dioceses get the
+ * default VISITA branding.
+ */
+const getDioceseEmailBranding = async (diocese?: string): Promise<EmailBranding> => {
+  if (!diocese || !DIOCESE_NAMES[diocese]) return DEFAULT_EMAIL_BRANDING;
+
+  const cached = emailBrandingCache.get(diocese);
+  if (cached) return cached;
+
+  let branding: EmailBranding = { ...DEFAULT_EMAIL_BRANDING, diocese };
+  try {
+    const bucket = admin.storage().bucket();
+    const [files] = await bucket.getFiles({ prefix: `${DIOCESE_LOGO_PREFIX}/${diocese}/` });
+    const latest = files
+      .filter((file) => !file.name.endsWith("/"))
+      .sort((a, b) => b.name.localeCompare(a.name))[0];
+
+    if (latest) {
+      const [metadata] = await latest.getMetadata();
+      const token = String(metadata.metadata?.firebaseStorageDownloadTokens || "").split(",")[0];
+      branding = {
+        logoUrl: `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(latest.name)}?alt=media${token ? `&token=${token}` : ""}`,
+        logoAlt: `${DIOCESE_NAMES[diocese]} logo`,
+        diocese,
+      };
+    }
+  } catch (error) {
+    functions.logger.warn(`Failed to load email logo for diocese ${diocese}:`, error);
+  }
+
+  emailBrandingCache.set(diocese, branding);
+  return branding;
+};
+
+/**
+ * Language and diocese for an email address: an explicitly requested
+ * locale wins, then the emailLocale saved on the user's profile.
+ */
+const getEmailRecipientSettings = async (
+  email: string,
+  requestedLocale?: unknown
+): Promise<{ locale: EmailLocale; diocese?: string }> => {
+  let profile: FirebaseFirestore.DocumentData | undefined;
+  try {
+    const snapshot = await admin.firestore().collection("users").where("email", "==", email).limit(1).get();
+    profile = snapshot.docs[0]?.data();
+  } catch (error) {
+    functions.logger.warn(`Failed to load email settings for ${email}:`, error);
+  }
+
+  return {
+    locale: parseEmailLocale(requestedLocale) || parseEmailLocale(profile?.emailLocale) || DEFAULT_EMAIL_LOCALE,
+    diocese: profile?.diocese,
+  };
+};
+
+const EMAIL_OUTBOX_COLLECTION = "email_outbox";
+
+/**
+ * Queue an email for delivery by processEmailOutbox. Urgent mail (account
+ * access) may use the part of the daily quota reserved for it; see
+ * @shared/emailOutbox. The recipient's diocese decides which chancery sees
+ * the message in its delivery status.
+ */
+const enqueueEmail = async (
+  to: string,
+  email: RenderedEmail,
+  options: { category: string; priority: EmailPriority; diocese?: string }
+): Promise<string> => {
+  const now = admin.firestore.Timestamp.now();
+  const ref = await admin.firestore().collection(EMAIL_OUTBOX_COLLECTION).add({
+    to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    category: options.category,
+    priority: options.priority,
+    diocese: options.diocese || null,
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    sentAt: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ref.id;
 };
 
 // =============================================================================
@@ -1021,10 +325,9 @@ Diocese of Tagbilaran & Diocese of Talibon
  * Cloud Function: Send Password Reset Email
  * 
  * Called from the frontend when user requests password reset.
- * Uses Gmail SMTP for FREE email delivery (500 emails/day limit).
+ * The email is queued in email_outbox and delivered by processEmailOutbox.
  */
 export const sendPasswordResetEmail = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data) => {
     const { email, source } = data;
 
@@ -1064,23 +367,19 @@ export const sendPasswordResetEmail = functions
       // Generate reset link with source parameter
       const resetLink = await generatePasswordResetLink(email, emailSource);
 
-      // Send email via Gmail SMTP
-      const transporter = createGmailTransporter();
-      const template = emailTemplates.passwordReset(resetLink, emailSource);
-      
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
+      // Queue for delivery (processEmailOutbox)
+      const { locale, diocese } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate("passwordReset", { resetLink, source: emailSource }, {
+        locale,
+        branding: await getDioceseEmailBranding(diocese),
       });
+      await enqueueEmail(email, template, { category: "passwordReset", priority: "urgent", diocese });
 
-      functions.logger.info(`Password reset email sent to ${email}`);
+      functions.logger.info(`Password reset email queued for ${email}`);
       
       return { 
         success: true, 
-        message: "Password reset email sent successfully" 
+        message: "Password reset email queued for delivery" 
       };
 
     } catch (error: unknown) {
@@ -1092,13 +391,6 @@ export const sendPasswordResetEmail = functions
           // Don't reveal if user exists
           return { success: true, message: "If an account exists, a reset email has been sent." };
         }
-        
-        if (error.message.includes("Gmail credentials not configured")) {
-          throw new functions.https.HttpsError(
-            "failed-precondition",
-            "Email service not configured. Please contact the administrator."
-          );
-        }
       }
       
       throw new functions.https.HttpsError(
@@ -1114,7 +406,6 @@ export const sendPasswordResetEmail = functions
  * Sends a custom-branded email verification email.
  */
 export const sendEmailVerification = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data) => {
     const { email, source } = data;
 
@@ -1132,23 +423,19 @@ export const sendEmailVerification = functions
       // Generate verification link with appropriate redirect URL based on source
       const verifyLink = await generateEmailVerificationLink(email, emailSource);
 
-      // Send email via Gmail SMTP
-      const transporter = createGmailTransporter();
-      const template = emailTemplates.emailVerification(verifyLink, emailSource);
-      
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
+      // Queue for delivery (processEmailOutbox)
+      const { locale, diocese } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate("emailVerification", { verifyLink, source: emailSource }, {
+        locale,
+        branding: await getDioceseEmailBranding(diocese),
       });
+      await enqueueEmail(email, template, { category: "emailVerification", priority: "urgent", diocese });
 
-      functions.logger.info(`Email verification sent to ${email} (source: ${emailSource})`);
+      functions.logger.info(`Email verification queued for ${email} (source: ${emailSource})`);
       
       return { 
         success: true, 
-        message: "Verification email sent successfully" 
+        message: "Verification email queued for delivery" 
       };
 
     } catch (error: any) {
@@ -1170,6 +457,10 @@ export const sendEmailVerification = functions
 // NOTIFICATION HELPERS (Server-side, using Admin SDK)
 // ============================================================================
 
+// createdBy of notifications written by Cloud Functions. Clients set createdBy
+// to their own uid, so this value cannot come from the dashboard.
+const SYSTEM_NOTIFICATION_CREATOR = "system";
+
 /**
  * Creates a pending approval notification in Firestore after a user verifies their email.
  * Targets the current active user in the same role/diocese/parish who should approve.
@@ -1218,6 +509,7 @@ async function createPendingApprovalNotification(
         actionBy: { uid: newUserUid, name, role: 'chancery_office' },
       },
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      createdBy: SYSTEM_NOTIFICATION_CREATOR,
       isRead: false,
       readBy: [],
       actionUrl,
@@ -1253,6 +545,7 @@ async function createPendingApprovalNotification(
         actionBy: { uid: newUserUid, name, role: 'parish' },
       },
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      createdBy: SYSTEM_NOTIFICATION_CREATOR,
       isRead: false,
       readBy: [],
       actionUrl: '/parish?tab=staff',
@@ -1283,6 +576,7 @@ async function createPendingApprovalNotification(
         actionBy: { uid: newUserUid, name, role: 'museum_researcher' },
       },
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      createdBy: SYSTEM_NOTIFICATION_CREATOR,
       isRead: false,
       readBy: [],
       actionUrl: '/heritage?tab=staff',
@@ -1373,7 +667,6 @@ export const checkEmailVerified = functions
  * Can be called by the pending user themselves or by an admin.
  */
 export const resendEmailVerification = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data) => {
     const { email } = data;
 
@@ -1386,22 +679,18 @@ export const resendEmailVerification = functions
 
     try {
       const verifyLink = await generateEmailVerificationLink(email, 'admin');
-      const transporter = createGmailTransporter();
-      const template = emailTemplates.emailVerification(verifyLink, 'admin');
-      
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
+      const { locale, diocese } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate("emailVerification", { verifyLink, source: "admin" }, {
+        locale,
+        branding: await getDioceseEmailBranding(diocese),
       });
+      await enqueueEmail(email, template, { category: "emailVerification", priority: "urgent", diocese });
 
-      functions.logger.info(`Verification email resent to ${email}`);
+      functions.logger.info(`Verification email requeued for ${email}`);
       
       return { 
         success: true, 
-        message: "Verification email sent successfully" 
+        message: "Verification email queued for delivery" 
       };
     } catch (error: any) {
       functions.logger.error("Error resending verification email:", {
@@ -1433,9 +722,9 @@ export const resendEmailVerification = functions
  * @param status - 'approved' or 'rejected'
  * @param role - User's role (chancery_office, parish, museum_researcher)
  * @param reason - Rejection reason (only for rejected status)
+ * @param locale - Optional email language (en, fil, ceb); defaults to the user's saved emailLocale
  */
 export const sendAccountStatusEmail = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data) => {
     const { email, name, status, role, reason } = data;
 
@@ -1446,147 +735,17 @@ export const sendAccountStatusEmail = functions
       throw new functions.https.HttpsError("invalid-argument", "Status must be 'approved' or 'rejected'");
     }
 
-    const roleLabelMap: Record<string, string> = {
-      chancery_office: "Chancery Office Staff",
-      parish: "Parish Staff",
-      parish_secretary: "Parish Secretary",
-      parish_priest: "Parish Priest",
-      museum_researcher: "Museum Researcher",
-    };
-    const roleLabel = roleLabelMap[role] || role || "Staff";
-    const displayName = name || email;
-    const loginUrl = "https://visita-bohol-system.vercel.app/login";
-
     try {
-      const transporter = createGmailTransporter();
-
-      let subject: string;
-      let heading: string;
-      let statusColor: string;
-      let statusIcon: string;
-      let bodyContent: string;
-      let buttonHtml: string;
-
-      if (status === "approved") {
-        subject = "Your Account Has Been Approved — VISITA Bohol";
-        heading = "Account Approved!";
-        statusColor = "#16a34a";
-        statusIcon = "✅";
-        bodyContent = `
-          <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-            Dear <strong>${displayName}</strong>,
-          </p>
-          <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-            Great news! Your registration as <strong>${roleLabel}</strong> for the VISITA Bohol Churches Information System has been <span style="color: ${statusColor}; font-weight: 600;">approved</span>.
-          </p>
-          <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #475569;">
-            You can now log in to the admin dashboard and start managing your assigned responsibilities.
-          </p>
-        `;
-        buttonHtml = `
-          <table role="presentation" cellspacing="0" cellpadding="0" width="100%">
-            <tr>
-              <td align="center" style="padding: 8px 0 24px;">
-                <a href="${loginUrl}" 
-                   style="display: inline-block; padding: 14px 32px; background: linear-gradient(135deg, #16a34a, #15803d); color: #ffffff; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px; box-shadow: 0 2px 4px rgba(22, 163, 74, 0.3);">
-                  Log In to Dashboard
-                </a>
-              </td>
-            </tr>
-          </table>
-        `;
-      } else {
-        subject = "Account Registration Update — VISITA Bohol";
-        heading = "Registration Update";
-        statusColor = "#dc2626";
-        statusIcon = "📋";
-        bodyContent = `
-          <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-            Dear <strong>${displayName}</strong>,
-          </p>
-          <p style="margin: 0 0 16px; font-size: 15px; line-height: 1.6; color: #475569;">
-            We regret to inform you that your registration as <strong>${roleLabel}</strong> for the VISITA Bohol Churches Information System has <span style="color: ${statusColor}; font-weight: 600;">not been approved</span> at this time.
-          </p>
-          ${reason ? `
-          <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 12px 16px; border-radius: 0 4px 4px 0; margin: 0 0 16px;">
-            <p style="margin: 0; font-size: 14px; color: #92400e;">
-              <strong>Reason:</strong> ${reason}
-            </p>
-          </div>
-          ` : ""}
-          <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #475569;">
-            If you believe this was a mistake or need further assistance, please contact your Chancery Office administrator directly.
-          </p>
-        `;
-        buttonHtml = "";
-      }
-
-      const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${heading}</title>
-      </head>
-      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f4f4f5;">
-        <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="background-color: #f4f4f5;">
-          <tr>
-            <td align="center" style="padding: 40px 20px;">
-              <table role="presentation" cellspacing="0" cellpadding="0" width="100%" style="max-width: 480px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-                <!-- Header -->
-                <tr>
-                  <td style="padding: 40px 40px 20px; text-align: center;">
-                    <img src="https://visita-bohol-system.vercel.app/visita-logo.png" alt="VISITA Logo" width="100" height="100" style="display: block; margin: 0 auto 20px; border-radius: 12px;">
-                    <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1e293b;">
-                      VISITA Admin
-                    </h1>
-                    <p style="margin: 8px 0 0; font-size: 14px; color: #64748b;">
-                      Bohol Churches Information System
-                    </p>
-                  </td>
-                </tr>
-                <!-- Content -->
-                <tr>
-                  <td style="padding: 20px 40px;">
-                    <h2 style="margin: 0 0 16px; font-size: 20px; font-weight: 600; color: #1e293b;">
-                      ${statusIcon} ${heading}
-                    </h2>
-                    ${bodyContent}
-                    ${buttonHtml}
-                  </td>
-                </tr>
-                <!-- Footer -->
-                <tr>
-                  <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid #e2e8f0;">
-                    <p style="margin: 0; font-size: 12px; color: #94a3b8;">
-                      This is an automated message from the VISITA Bohol Churches Information System.
-                    </p>
-                    <p style="margin: 8px 0 0; font-size: 12px; color: #94a3b8;">
-                      Diocese of Tagbilaran &amp; Diocese of Talibon
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-      </html>
-      `;
-
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject,
-        html,
-        text: status === "approved"
-          ? `Dear ${displayName}, your registration as ${roleLabel} has been approved. You can now log in at ${loginUrl}`
-          : `Dear ${displayName}, your registration as ${roleLabel} has not been approved.${reason ? ` Reason: ${reason}` : ""} Please contact your Chancery Office for assistance.`,
-      });
+      const { locale, diocese } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate(
+        "accountStatus",
+        { status, name: name || email, role, reason: reason || undefined, loginUrl: LOGIN_URL },
+        { locale, branding: await getDioceseEmailBranding(diocese) }
+      );
+      await enqueueEmail(email, template, { category: "accountStatus", priority: "urgent", diocese });
 
-      functions.logger.info(`Account ${status} email sent to ${email}`);
-      return { success: true, message: `Account ${status} email sent successfully` };
+      functions.logger.info(`Account ${status} email queued for ${email}`);
+      return { success: true, message: `Account ${status} email queued for delivery` };
     } catch (error: any) {
       functions.logger.error(`Error sending account ${status} email:`, {
         email,
@@ -1607,7 +766,6 @@ export const sendAccountStatusEmail = functions
  * Sends a professional welcome email with password setup instructions.
  */
 export const sendWelcomeEmail = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data, context) => {
     // Verify caller is authenticated and has admin role
     if (!context.auth) {
@@ -1630,23 +788,19 @@ export const sendWelcomeEmail = functions
       // Generate password reset link for initial setup
       const setupLink = await generatePasswordResetLink(email);
 
-      // Send email via Gmail SMTP
-      const transporter = createGmailTransporter();
-      const template = emailTemplates.welcome(setupLink, parishName, diocese || "Bohol");
-      
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
+      // Queue for delivery (processEmailOutbox)
+      const { locale } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate("welcome", { setupLink, parishName, diocese }, {
+        locale,
+        branding: await getDioceseEmailBranding(diocese),
       });
+      await enqueueEmail(email, template, { category: "welcome", priority: "urgent", diocese });
 
-      functions.logger.info(`Welcome email sent to ${email} for ${parishName}`);
+      functions.logger.info(`Welcome email queued for ${email} (${parishName})`);
       
       return { 
         success: true, 
-        message: "Welcome email sent successfully" 
+        message: "Welcome email queued for delivery" 
       };
 
     } catch (error) {
@@ -1661,7 +815,6 @@ export const sendWelcomeEmail = functions
 
 
 export const sendWelcomeEmailWithCredentials = functions
-  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
   .https.onCall(async (data, context) => {
     // Verify caller is authenticated (must be chancery)
     if (!context.auth) {
@@ -1694,47 +847,27 @@ export const sendWelcomeEmailWithCredentials = functions
       // Generate password reset link (in case user wants to set their own password)
       const resetLink = await generatePasswordResetLink(email);
 
-      // Send email via Gmail SMTP
-      const transporter = createGmailTransporter();
-      const template = emailTemplates.welcomeWithCredentials(
-        email,
-        tempPassword,
-        parishName,
-        diocese || "Bohol",
-        resetLink
+      // Queue for delivery (processEmailOutbox)
+      const { locale } = await getEmailRecipientSettings(email, data.locale);
+      const template = renderEmailTemplate(
+        "welcomeWithCredentials",
+        { email, tempPassword, parishName, diocese, resetLink, loginUrl: LOGIN_URL },
+        { locale, branding: await getDioceseEmailBranding(diocese) }
       );
-      
-      await transporter.sendMail({
-        from: `"${EMAIL_CONFIG.fromName}" <${process.env.GMAIL_EMAIL}>`,
-        to: email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
-      });
+      await enqueueEmail(email, template, { category: "welcomeWithCredentials", priority: "urgent", diocese });
 
-      functions.logger.info(`Welcome email with credentials sent to ${email} for ${parishName}`);
+      functions.logger.info(`Welcome email with credentials queued for ${email} (${parishName})`);
       
       return { 
         success: true, 
-        message: "Welcome email with credentials sent successfully",
+        message: "Welcome email with credentials queued for delivery",
         emailSent: true
       };
 
     } catch (error) {
       functions.logger.error("Error sending welcome email with credentials:", error);
       
-      // Check if it's an email delivery error
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      
-      if (errorMessage.includes("Invalid recipient") || 
-          errorMessage.includes("Recipient not found") ||
-          errorMessage.includes("mailbox not found")) {
-        throw new functions.https.HttpsError(
-          "invalid-argument",
-          "The email address appears to be invalid or does not exist. Please verify the email address."
-        );
-      }
-      
+      // Delivery failures (e.g. a rejected address) show up in the email outbox
       throw new functions.https.HttpsError(
         "internal",
         "Failed to send welcome email. Please try again."
@@ -1742,6 +875,92 @@ export const sendWelcomeEmailWithCredentials = functions
     }
   });
 
+// =============================================================================
+// EMAIL TEMPLATE PREVIEW
+// =============================================================================
+
+/**
+ * Sample parameters for a template with the caller's overrides applied. Only
+ * top-level text parameters (names, links, reasons) can be overridden.
+ */
+const getPreviewParams = <K extends EmailTemplateId>(template: K, overrides: unknown): EmailTemplateParams[K] => {
+  const params: Record<string, unknown> = { ...EMAIL_TEMPLATE_SAMPLES[template] };
+  if (overrides && typeof overrides === "object") {
+    Object.entries(overrides as Record<string, unknown>).forEach(([key, value]) => {
+      if (typeof params[key] === "string" && typeof value === "string") params[key] = value;
+    });
+  }
+  return params as EmailTemplateParams[K];
+};
+
+/**
+ * Cloud Function: Preview Email Template
+ *
+ * Renders any email template in any language with sample parameters so the
+ * chancery can check wording and branding. Returns the subject, HTML and
+ * plain text; with sendTest it also emails the preview to the caller.
+ *
+ * @param template - Template ID (see EMAIL_TEMPLATE_IDS)
+ * @param locale - en, fil or ceb (default en)
+ * @param diocese - Diocese branding to use (default: the caller's diocese)
+ * @param params - Optional text overrides for the sample parameters
+ * @param sendTest - Also send the rendered email to the caller's address
+ */
+export const previewEmailTemplate = functions
+  .https.onCall(async (data, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError("unauthenticated", "Must be authenticated to preview email templates");
+    }
+
+    const userDoc = await admin.firestore().collection("users").doc(context.auth.uid).get();
+    const userData = userDoc.data();
+    if (!userData || userData.role !== "chancery_office") {
+      throw new functions.https.HttpsError("permission-denied", "Only chancery office can preview email templates");
+    }
+
+    const template = data?.template;
+    if (!isEmailTemplateId(template)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `template must be one of: ${EMAIL_TEMPLATE_IDS.join(", ")}`
+      );
+    }
+
+    const locale = data?.locale === undefined ? DEFAULT_EMAIL_LOCALE : parseEmailLocale(data.locale);
+    if (!locale) {
+      throw new functions.https.HttpsError("invalid-argument", "locale must be en, fil or ceb");
+    }
+
+    const diocese = typeof data?.diocese === "string" ? data.diocese : userData.diocese;
+
+    try {
+      const rendered = renderEmailTemplate(template, getPreviewParams(template, data?.params), {
+        locale,
+        branding: await getDioceseEmailBranding(diocese),
+      });
+
+      let sentTo: string | null = null;
+      if (data?.sendTest === true) {
+        sentTo = context.auth.token.email || userData.email;
+        if (!sentTo) {
+          throw new functions.https.HttpsError("failed-precondition", "Your account has no email address to send the test to");
+        }
+        await enqueueEmail(sentTo, { ...rendered, subject: `[Preview] ${rendered.subject}` }, {
+          category: template,
+          priority: "normal",
+          diocese: userData.diocese,
+        });
+        functions.logger.info(`Email template preview ${template} (${locale}) queued for ${sentTo}`);
+      }
+
+      return { success: true, template, locale, ...rendered, sentTo };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) throw error;
+      functions.logger.error(`Error previewing email template ${template}:`, error);
+      throw new functions.https.HttpsError("internal", "Failed to preview email template");
+    }
+  });
+
 // =============================================================================
 // CHURCH IMPORT FUNCTIONS
 // =============================================================================
@@ -1811,12 +1030,13 @@ export const parseChurchImport = functions.https.onCall(async (data, context) =>
     return { success: false };
   }
 
-  const { parsedData, confidence } = buildParsedDataFromText(text);
+  const { parsedData, confidence, sourceSnippets } = buildParsedDataFromText(text);
 
   await importRef.update({
     status: "ready",
     parsedData,
     confidence,
+    sourceSnippets,
     updatedAt: admin.firestore.FieldValue.serverTimestamp()
   });
 
@@ -2076,11 +1296,66 @@ export const onUserDeleted = functions.auth.user().onDelete(async (user) => {
   }
 });
 
+// How much earlier feedback the moderation pass compares a new submission with
+const MODERATION_USER_HISTORY = 20;
+const MODERATION_CHURCH_HISTORY = 50;
+
+const toFeedbackDate = (data: FirebaseFirestore.DocumentData): Date | null => {
+  if (data.date_submitted?.toDate) return data.date_submitted.toDate();
+  const parsed = typeof data.createdAt === "string" ? new Date(data.createdAt) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed : null;
+};
+
+/**
+ * Earlier feedback from the same visitor and for the same church, for the
+ * burst and near-duplicate checks.
+ */
+const getPriorFeedback = async (
+  feedbackId: string,
+  pubUserId: string,
+  churchId: string
+): Promise<PriorFeedback[]> => {
+  const feedbackRef = admin.firestore().collection("feedback");
+  const [userSnap, churchSnap] = await Promise.all([
+    pubUserId
+      ? feedbackRef
+        .where("pub_user_id", "==", pubUserId)
+        .orderBy("date_submitted", "desc")
+        .limit(MODERATION_USER_HISTORY)
+        .get()
+      : null,
+    feedbackRef
+      .where("church_id", "==", churchId)
+      .orderBy("date_submitted", "desc")
+      .limit(MODERATION_CHURCH_HISTORY)
+      .get(),
+  ]);
+
+  const prior = new Map<string, PriorFeedback>();
+  [...(userSnap?.docs || []), ...churchSnap.docs].forEach((doc) => {
+    if (doc.id === feedbackId || prior.has(doc.id)) return;
+    const data = doc.data();
+    prior.set(doc.id, {
+      id: doc.id,
+      text: data.comment || data.message || "",
+      submittedAt: toFeedbackDate(data),
+      sameUser: !!pubUserId && (data.pub_user_id || data.userId) === pubUserId,
+    });
+  });
+  return Array.from(prior.values());
+};
+
 /**
  * Firestore Trigger: On Feedback Created
  * 
- * Sends a notification to the parish secretary when new visitor feedback
- * is submitted for their church.
+ * Runs the automatic moderation pass (shared/feedbackModeration.ts) on new
+ * visitor feedback, which the mobile app saves as "pending". Clean feedback
+ * is published and the parish secretary is notified; flagged feedback stays
+ * pending with the verdict and the chancery is asked to review it. If the
+ * pass itself fails, the feedback stays pending for manual review.
+ * 
+ * The comment is also tagged with topics and sentiment
+ * (shared/feedbackTopics.ts) for the reports.
  */
 export const onFeedbackCreated = functions.firestore
   .document("feedback/{feedbackId}")
@@ -2092,7 +1367,7 @@ export const onFeedbackCreated = functions.firestore
       functions.logger.info(`New feedback created: ${feedbackId}`);
       
       if (!feedbackData.church_id) {
-        functions.logger.warn("Feedback missing church_id, skipping notification");
+        functions.logger.warn("Feedback missing church_id, skipping moderation");
         return;
       }
 
@@ -2113,8 +1388,34 @@ export const onFeedbackCreated = functions.firestore
         return;
       }
 
-      // Create the notification for parish secretary
-      const notification = {
+      const pubUserId = feedbackData.pub_user_id || feedbackData.userId || "";
+      const verdict = moderateFeedbackText({
+        subject: feedbackData.subject || "",
+        text: feedbackData.comment || feedbackData.message || "",
+        previous: await getPriorFeedback(feedbackId, pubUserId, feedbackData.church_id),
+        now: new Date(),
+      });
+      const published = verdict.decision === "publish";
+
+      await snapshot.ref.update({
+        status: published ? "published" : "pending",
+        moderation: {
+          ...verdict,
+          checkedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        tags: {
+          ...tagFeedbackText(feedbackData.comment || feedbackData.message || ""),
+          taggedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+
+      functions.logger.info(
+        `Feedback ${feedbackId} ${published ? "auto-published" : "held for review"}`,
+        { reasons: verdict.reasons.map((reason) => reason.message) }
+      );
+
+      const notification = published ? {
+        // Published: tell the parish secretary
         type: "feedback_received",
         priority: "medium",
         title: `New Visitor Feedback: ${churchData.name || "Your Church"}`,
@@ -2124,28 +1425,2077 @@ export const onFeedbackCreated = functions.firestore
           dioceses: [churchData.diocese],
           parishId: feedbackData.church_id,
         },
+        actionUrl: "/parish?tab=feedback",
+      } : {
+        // Held back: ask the chancery to review it
+        type: "feedback_flagged",
+        priority: "medium",
+        title: `Feedback Needs Review: ${churchData.name || "Unknown Church"}`,
+        message: `A visitor review for ${churchData.name || "a church"} was held back by automatic moderation: ${verdict.reasons.map((reason) => reason.message).join("; ")}.`,
+        recipients: {
+          roles: ["chancery_office"],
+          dioceses: [churchData.diocese],
+        },
+        actionUrl: "/feedback",
+      };
+
+      await admin.firestore().collection("notifications").add({
+        ...notification,
         relatedData: {
           churchId: feedbackData.church_id,
           churchName: churchData.name || "Unknown Church",
         },
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        createdBy: SYSTEM_NOTIFICATION_CREATOR,
         isRead: false,
         readBy: [],
-        actionUrl: "/parish?tab=feedback",
         metadata: {
           feedbackId: feedbackId,
           rating: feedbackData.rating || 0,
           reviewerName: feedbackData.userName || feedbackData.pub_user_name || "Anonymous Visitor",
         },
-      };
-
-      await admin.firestore().collection("notifications").add(notification);
+      });
       
       functions.logger.info(
         `Feedback notification sent for church: ${churchData.name} (${feedbackData.church_id})`
       );
     } catch (error) {
-      functions.logger.error("Error creating feedback notification:", error);
-      // Don't throw - notification failure shouldn't affect feedback creation
+      functions.logger.error("Error moderating feedback:", error);
+      // Don't throw - the feedback stays pending for manual review
+    }
+  });
+
+const REPLY_NOTIFICATION_PREVIEW_LENGTH = 200;
+
+/**
+ * Firestore Trigger: On Feedback Reply Written
+ * 
+ * Keeps the reply summary on the feedback document in step with its reply
+ * thread (shared/feedbackReplies.ts): the latest public official reply as
+ * response / responseDate / hasResponse, which the mobile app shows, the
+ * public reply count, and when the church first and last answered, for the
+ * reply rate and response time metrics.
+ * 
+ * The first time an official reply becomes public, the visitor who wrote the
+ * feedback gets a notification in their inbox (users/{uid}/inbox).
+ */
+export const onFeedbackReplyWritten = functions.firestore
+  .document("feedback/{feedbackId}/replies/{replyId}")
+  .onWrite(async (change, context) => {
+    const { feedbackId, replyId } = context.params;
+    const feedbackRef = admin.firestore().collection("feedback").doc(feedbackId);
+
+    try {
+      const [feedbackDoc, repliesSnap] = await Promise.all([
+        feedbackRef.get(),
+        feedbackRef.collection("replies").orderBy("createdAt", "asc").get(),
+      ]);
+      const feedbackData = feedbackDoc.data();
+      if (!feedbackData) {
+        functions.logger.warn(`Reply ${replyId} written for missing feedback ${feedbackId}`);
+        return;
+      }
+
+      const replies = repliesSnap.docs.map((doc) => doc.data());
+      const official = replies.filter((reply) => isOfficialReply(reply as { authorRole: string }));
+      const publicOfficial = official.filter((reply) => isPublicReply(reply as FeedbackReplyVisibility));
+      const latest = publicOfficial[publicOfficial.length - 1];
+
+      await feedbackRef.update({
+        hasResponse: !!latest,
+        response: latest ? latest.text : null,
+        responseDate: latest?.createdAt?.toDate ? latest.createdAt.toDate().toISOString() : null,
+        replyCount: replies.filter((reply) => isPublicReply(reply as FeedbackReplyVisibility)).length,
+        firstResponseAt: official[0]?.createdAt || null,
+        lastResponseAt: official[official.length - 1]?.createdAt || null,
+      });
+
+      const reply = change.after.exists ? change.after.data() : undefined;
+      if (!reply || !isOfficialReply(reply as { authorRole: string }) || !isPublicReply(reply as FeedbackReplyVisibility) || reply.visitorNotifiedAt) {
+        return;
+      }
+
+      const visitorId = feedbackData.pub_user_id || feedbackData.userId;
+      if (!visitorId) return;
+
+      const churchDoc = await admin.firestore().collection("churches").doc(feedbackData.church_id).get();
+      const churchName = churchDoc.data()?.name || "The parish";
+      const text: string = reply.text || "";
+
+      const entryRef = admin.firestore()
+        .collection("users")
+        .doc(visitorId)
+        .collection(NOTIFICATION_INBOX_COLLECTION)
+        .doc();
+      await entryRef.set(toInboxEntry(entryRef.id, {
+        type: "feedback_reply",
+        priority: "medium",
+        title: `${churchName} replied to your review`,
+        message: text.length > REPLY_NOTIFICATION_PREVIEW_LENGTH
+          ? `${text.slice(0, REPLY_NOTIFICATION_PREVIEW_LENGTH - 1)}…`
+          : text,
+        relatedData: {
+          churchId: feedbackData.church_id,
+          churchName,
+          feedbackId,
+          replyId,
+        },
+      }));
+      await change.after.ref.update({ visitorNotifiedAt: admin.firestore.FieldValue.serverTimestamp() });
+
+      functions.logger.info(`Notified visitor ${visitorId} of reply ${replyId} to feedback ${feedbackId}`);
+    } catch (error) {
+      functions.logger.error(`Error updating replies for feedback ${feedbackId}:`, error);
+    }
+  });
+
+/**
+ * Tag one page of existing feedback (ordered by document ID). Feedback
+ * already tagged with the current lexicon version is skipped, so pages can be
+ * re-run safely and a lexicon change re-tags everything.
+ */
+const backfillFeedbackTagsInternal = async (pageSize: number, startAfter?: string) => {
+  const db = admin.firestore();
+
+  let feedbackQuery = db.collection("feedback")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(pageSize);
+  if (startAfter) {
+    feedbackQuery = feedbackQuery.startAfter(startAfter);
+  }
+  const feedbackSnap = await feedbackQuery.get();
+
+  const batch = db.batch();
+  let tagged = 0;
+  feedbackSnap.docs.forEach((feedbackDoc) => {
+    const data = feedbackDoc.data();
+    if (data.tags?.version === FEEDBACK_TAGS_VERSION) return;
+
+    batch.update(feedbackDoc.ref, {
+      tags: {
+        ...tagFeedbackText(data.comment || data.message || ""),
+        taggedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    });
+    tagged++;
+  });
+  if (tagged > 0) {
+    await batch.commit();
+  }
+
+  const lastDoc = feedbackSnap.docs[feedbackSnap.docs.length - 1];
+  return {
+    tagged,
+    skipped: feedbackSnap.size - tagged,
+    nextCursor: feedbackSnap.size === pageSize && lastDoc ? lastDoc.id : null,
+  };
+};
+
+/**
+ * Cloud Function: Backfill Feedback Tags
+ *
+ * Tags feedback submitted before topic tagging existed, or after a lexicon
+ * change, for the Chancery Office. Processes one page per call; call again
+ * with { startAfter: nextCursor } until nextCursor is null.
+ */
+export const backfillFeedbackTags = functions.https.onCall(async (data, context) => {
+  await requireChanceryOffice(context, "run the backfill");
+
+  const pageSize = Number(data?.pageSize ?? 200);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 500) {
+    throw new functions.https.HttpsError("invalid-argument", "pageSize must be between 1 and 500");
+  }
+  const startAfter = typeof data?.startAfter === "string" && data.startAfter ? data.startAfter : undefined;
+
+  try {
+    const result = await backfillFeedbackTagsInternal(pageSize, startAfter);
+    functions.logger.info(`Feedback tag backfill: ${result.tagged} tagged, ${result.skipped} already current`);
+    return { success: true, ...result };
+  } catch (error) {
+    functions.logger.error("Error backfilling feedback tags:", error);
+    throw new functions.https.HttpsError("internal", "Failed to backfill feedback tags");
+  }
+});
+
+// =============================================================================
+// FEEDBACK FLAGS AND APPEALS
+// =============================================================================
+
+const FEEDBACK_AUTO_HIDE_ACTOR = {
+  uid: "system",
+  email: "",
+  name: "Automatic moderation",
+  role: "system",
+};
+
+/**
+ * Audit entry for a feedback action taken outside the dashboard (by a visitor
+ * or by the functions themselves), in the same shape AuditService writes.
+ */
+const writeFeedbackAuditLog = (entry: {
+  actor: { uid: string; email: string; name: string; role: string };
+  action: string;
+  feedbackId: string;
+  resourceName: string;
+  diocese: string;
+  parishId?: string;
+  changes?: Array<{ field: string; oldValue: unknown; newValue: unknown }>;
+  metadata: Record<string, unknown>;
+}) => admin.firestore().collection("audit_logs").add({
+  actor: { ...entry.actor, diocese: entry.diocese },
+  action: entry.action,
+  resourceType: "feedback",
+  resourceId: entry.feedbackId,
+  resourceName: entry.resourceName,
+  diocese: entry.diocese,
+  ...(entry.parishId ? { parishId: entry.parishId } : {}),
+  ...(entry.changes ? { changes: entry.changes } : {}),
+  metadata: entry.metadata,
+  timestamp: admin.firestore.FieldValue.serverTimestamp(),
+});
+
+// Visitors have no dashboard role; parish secretaries flag from the dashboard
+const toAuditActor = (uid: string, userData: FirebaseFirestore.DocumentData | undefined, fallbackRole: string) => ({
+  uid,
+  email: userData?.email || "",
+  name: userData?.displayName || userData?.name || "Visitor",
+  role: userData?.role || fallbackRole,
+});
+
+/**
+ * Firestore Trigger: On Feedback Flag Created
+ * 
+ * Completes a flag from a visitor or parish secretary
+ * (shared/feedbackFlags.ts) with the feedback's church, diocese and author,
+ * and counts the open flags on the feedback. When they reach the diocese
+ * threshold (feedback_settings/{diocese}), published feedback is hidden
+ * until the chancery reviews it: the chancery is notified, and so is the
+ * visitor who wrote it, who can appeal.
+ */
+export const onFeedbackFlagCreated = functions.firestore
+  .document(`${FEEDBACK_FLAGS_COLLECTION}/{flagId}`)
+  .onCreate(async (snapshot, context) => {
+    const db = admin.firestore();
+    const flag = snapshot.data();
+    const feedbackRef = db.collection("feedback").doc(flag.feedbackId);
+
+    try {
+      const feedbackDoc = await feedbackRef.get();
+      const feedbackData = feedbackDoc.data();
+      if (!feedbackData) {
+        functions.logger.warn(`Flag ${context.params.flagId} raised on missing feedback ${flag.feedbackId}`);
+        await snapshot.ref.update({
+          status: "dismissed",
+          resolvedBy: "system",
+          resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return;
+      }
+
+      const churchId: string = feedbackData.church_id || "";
+      const [churchDoc, reporterDoc] = await Promise.all([
+        churchId ? db.collection("churches").doc(churchId).get() : null,
+        db.collection("users").doc(flag.reporterId).get(),
+      ]);
+      const churchData = churchDoc?.data() || {};
+      const diocese: string = churchData.diocese || "";
+      const churchName: string = churchData.name || "Unknown Church";
+      const settingsDoc = diocese ? await db.collection(FEEDBACK_SETTINGS_COLLECTION).doc(diocese).get() : null;
+      const threshold = normalizeAutoHideFlagCount(settingsDoc?.data()?.autoHideFlagCount);
+      const feedbackAuthorId: string | null = feedbackData.pub_user_id || feedbackData.userId || null;
+
+      await snapshot.ref.update({ churchId, churchName, diocese, feedbackAuthorId });
+
+      const openFlagsQuery = db.collection(FEEDBACK_FLAGS_COLLECTION)
+        .where("feedbackId", "==", flag.feedbackId)
+        .where("status", "==", "open");
+
+      // In a transaction so flags arriving together hide the feedback once
+      const { flagCount, hidden, previousStatus } = await db.runTransaction(async (tx) => {
+        const [current, openFlags] = await Promise.all([tx.get(feedbackRef), tx.get(openFlagsQuery)]);
+        const status: string = current.data()?.status || "published";
+        const hide = shouldAutoHideFeedback(status, openFlags.size, threshold);
+        tx.update(feedbackRef, {
+          flagCount: openFlags.size,
+          ...(hide ? {
+            status: "hidden",
+            hiddenReason: "flags",
+            moderatedBy: "system",
+            moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          } : {}),
+        });
+        return { flagCount: openFlags.size, hidden: hide, previousStatus: status };
+      });
+
+      const resourceName: string = feedbackData.subject || feedbackData.category || "Visitor feedback";
+      await writeFeedbackAuditLog({
+        actor: toAuditActor(flag.reporterId, reporterDoc.data(), flag.reporterRole || "visitor"),
+        action: "feedback.flag",
+        feedbackId: flag.feedbackId,
+        resourceName,
+        diocese,
+        parishId: churchId,
+        metadata: { flagId: snapshot.id, reason: flag.reason, reporterRole: flag.reporterRole, flagCount, threshold },
+      });
+
+      functions.logger.info(`Feedback ${flag.feedbackId} flagged (${flagCount}/${threshold} open flags)`);
+      if (!hidden) return;
+
+      await writeFeedbackAuditLog({
+        actor: FEEDBACK_AUTO_HIDE_ACTOR,
+        action: "feedback.auto_hide",
+        feedbackId: flag.feedbackId,
+        resourceName,
+        diocese,
+        parishId: churchId,
+        changes: [{ field: "status", oldValue: previousStatus, newValue: "hidden" }],
+        metadata: { flagCount, threshold },
+      });
+
+      await db.collection("notifications").add({
+        type: "feedback_flagged",
+        priority: "medium",
+        title: `Feedback Hidden After Reports: ${churchName}`,
+        message: `A visitor review for ${churchName} was hidden automatically after ${flagCount} reports. Review the flags to restore it or keep it hidden.`,
+        recipients: {
+          roles: ["chancery_office"],
+          dioceses: [diocese],
+        },
+        actionUrl: "/feedback",
+        relatedData: { churchId, churchName },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        createdBy: SYSTEM_NOTIFICATION_CREATOR,
+        isRead: false,
+        readBy: [],
+        metadata: { feedbackId: flag.feedbackId, flagCount },
+      });
+
+      if (feedbackAuthorId) {
+        const entryRef = db.collection("users").doc(feedbackAuthorId).collection(NOTIFICATION_INBOX_COLLECTION).doc();
+        await entryRef.set(toInboxEntry(entryRef.id, {
+          type: "feedback_hidden",
+          priority: "medium",
+          title: `Your review of ${churchName} was hidden`,
+          message: "Other visitors reported your review, so it is hidden while the diocese reviews it. If you think this is a mistake, you can ask for it to be reviewed again.",
+          relatedData: { churchId, churchName, feedbackId: flag.feedbackId },
+        }));
+      }
+
+      functions.logger.info(`Feedback ${flag.feedbackId} hidden after ${flagCount} flags`);
+    } catch (error) {
+      functions.logger.error(`Error processing flag on feedback ${flag.feedbackId}:`, error);
+    }
+  });
+
+/**
+ * Firestore Trigger: On Feedback Appeal Written
+ * 
+ * When a visitor asks for their hidden feedback to be re-reviewed (a new
+ * appeal, or an earlier one re-opened after the feedback was hidden again),
+ * the appeal is completed with the feedback's church and diocese, audited,
+ * and the chancery is notified. When the chancery decides, the visitor gets
+ * the outcome in their inbox.
+ */
+export const onFeedbackAppealWritten = functions.firestore
+  .document(`${FEEDBACK_APPEALS_COLLECTION}/{feedbackId}`)
+  .onWrite(async (change, context) => {
+    const { feedbackId } = context.params;
+    const db = admin.firestore();
+    const before = change.before.data();
+    const appeal = change.after.data();
+    if (!appeal || before?.status === appeal.status) return;
+
+    try {
+      const feedbackData = (await db.collection("feedback").doc(feedbackId).get()).data() || {};
+      const churchId: string = feedbackData.church_id || appeal.churchId || "";
+      const churchData = churchId ? (await db.collection("churches").doc(churchId).get()).data() || {} : {};
+      const churchName: string = churchData.name || "Unknown Church";
+      const diocese: string = churchData.diocese || appeal.diocese || "";
+
+      if (appeal.status === "pending") {
+        const resourceName: string = feedbackData.subject || feedbackData.category || "Visitor feedback";
+        await change.after.ref.update({ churchId, churchName, diocese, feedbackSubject: resourceName });
+
+        const authorDoc = await db.collection("users").doc(appeal.authorId).get();
+        await writeFeedbackAuditLog({
+          actor: toAuditActor(appeal.authorId, authorDoc.data(), "visitor"),
+          action: "feedback.appeal",
+          feedbackId,
+          resourceName,
+          diocese,
+          parishId: churchId,
+          metadata: { hiddenReason: feedbackData.hiddenReason || null, flagCount: feedbackData.flagCount || 0 },
+        });
+
+        await db.collection("notifications").add({
+          type: "feedback_appeal",
+          priority: "medium",
+          title: `Appeal on Hidden Feedback: ${churchName}`,
+          message: `A visitor asked for their hidden review of ${churchName} to be reviewed again.`,
+          recipients: {
+            roles: ["chancery_office"],
+            dioceses: [diocese],
+          },
+          actionUrl: "/feedback",
+          relatedData: { churchId, churchName },
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          createdBy: SYSTEM_NOTIFICATION_CREATOR,
+          isRead: false,
+          readBy: [],
+          metadata: { feedbackId },
+        });
+        functions.logger.info(`Appeal opened on feedback ${feedbackId}`);
+        return;
+      }
+
+      // Decided by the chancery (audited from the dashboard)
+      const reinstated = appeal.status === "reinstated";
+      const entryRef = db.collection("users").doc(appeal.authorId).collection(NOTIFICATION_INBOX_COLLECTION).doc();
+      await entryRef.set(toInboxEntry(entryRef.id, {
+        type: "feedback_appeal_decided",
+        priority: "medium",
+        title: reinstated
+          ? `Your review of ${churchName} is visible again`
+          : `Your review of ${churchName} stays hidden`,
+        message: appeal.decisionNote || (reinstated
+          ? "The diocese reviewed your appeal and restored your review."
+          : "The diocese reviewed your appeal and decided to keep your review hidden."),
+        relatedData: { churchId, churchName, feedbackId },
+      }));
+      functions.logger.info(`Appeal on feedback ${feedbackId} decided: ${appeal.status}`);
+    } catch (error) {
+      functions.logger.error(`Error processing appeal on feedback ${feedbackId}:`, error);
+    }
+  });
+
+// =============================================================================
+// REVIEW SLA ESCALATION
+// =============================================================================
+
+const DIOCESES = ["tagbilaran", "talibon"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keep in sync with DEFAULT_REVIEW_SLA in src/lib/review-sla.ts
+const DEFAULT_REVIEW_SLA = {
+  chanceryReviewDays: 7,
+  museumValidationDays: 21,
+};
+
+/**
+ * When did the church enter its current status?
+ * Mirrors getStatusEnteredAt() in src/lib/review-sla.ts.
+ */
+const getStatusEnteredAt = async (
+  churchRef: FirebaseFirestore.DocumentReference,
+  churchData: FirebaseFirestore.DocumentData
+): Promise<Date | null> => {
+  const auditSnap = await churchRef
+    .collection("status_audit")
+    .orderBy("timestamp", "desc")
+    .limit(20)
+    .get();
+
+  const entry = auditSnap.docs
+    .map((d) => d.data())
+    .find((log) => log.toStatus === churchData.status && log.fromStatus !== churchData.status);
+
+  const timestamp = entry?.timestamp || churchData.lastStatusChange || churchData.updatedAt || churchData.createdAt;
+  return timestamp?.toDate ? timestamp.toDate() : null;
+};
+
+const escalateOverdueReviewsInternal = async (now: Date = new Date()) => {
+  const db = admin.firestore();
+  let escalated = 0;
+
+  for (const diocese of DIOCESES) {
+    const settingsDoc = await db.collection("sla_settings").doc(diocese).get();
+    const settings = settingsDoc.data() || {};
+    const slaDays: Record<string, number> = {
+      pending: Number(settings.chanceryReviewDays) || DEFAULT_REVIEW_SLA.chanceryReviewDays,
+      heritage_review: Number(settings.museumValidationDays) || DEFAULT_REVIEW_SLA.museumValidationDays,
+    };
+
+    const churchesSnap = await db.collection("churches")
+      .where("diocese", "==", diocese)
+      .where("status", "in", Object.keys(slaDays))
+      .get();
+
+    for (const churchDoc of churchesSnap.docs) {
+      const church = churchDoc.data();
+      const enteredAt = await getStatusEnteredAt(churchDoc.ref, church);
+      if (!enteredAt) continue;
+
+      const dueAt = new Date(enteredAt.getTime() + slaDays[church.status] * DAY_MS);
+      if (now <= dueAt) continue;
+
+      // Escalate once per stay in a status
+      const previous = church.slaEscalation;
+      if (
+        previous &&
+        previous.status === church.status &&
+        previous.enteredAt?.toMillis?.() === enteredAt.getTime()
+      ) {
+        continue;
+      }
+
+      const daysOverdue = Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS);
+      const isHeritage = church.status === "heritage_review";
+      const stageLabel = isHeritage ? "heritage validation" : "chancery review";
+
+      await db.collection("notifications").add({
+        type: "review_overdue",
+        priority: "urgent",
+        title: `Review Overdue: ${church.name || "Unknown Church"}`,
+        message: `"${church.name || "Unknown Church"}" has been waiting for ${stageLabel} for more than ${slaDays[church.status]} days (${daysOverdue} day${daysOverdue === 1 ? "" : "s"} overdue).`,
+        recipients: {
+          roles: isHeritage ? ["museum_researcher", "chancery_office"] : ["chancery_office"],
+          dioceses: [diocese],
+        },
+        relatedData: {
+          churchId: churchDoc.id,
+          churchName: church.name || "Unknown Church",
+          fromStatus: church.status,
+          toStatus: church.status,
+        },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        createdBy: SYSTEM_NOTIFICATION_CREATOR,
+        isRead: false,
+        readBy: [],
+        actionUrl: isHeritage ? "/heritage" : "/chancery/dashboard?tab=overdue",
+        metadata: {
+          diocese,
+          slaDays: slaDays[church.status],
+          daysOverdue,
+          enteredAt: enteredAt.toISOString(),
+        },
+      });
+
+      await churchDoc.ref.update({
+        slaEscalation: {
+          status: church.status,
+          enteredAt: admin.firestore.Timestamp.fromDate(enteredAt),
+          escalatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          daysOverdue,
+        },
+      });
+
+      escalated++;
+    }
+  }
+
+  return { escalated };
+};
+
+/**
+ * Scheduled Function: Escalate Overdue Reviews
+ *
+ * Runs every morning (Manila time). Finds churches that have been in
+ * 'pending' or 'heritage_review' longer than their diocese SLA
+ * (sla_settings/{diocese}) and sends an urgent review_overdue notification.
+ * Each stay in a status is escalated only once (tracked in slaEscalation).
+ */
+export const escalateOverdueReviews = functions.pubsub
+  .schedule("every day 08:00")
+  .timeZone("Asia/Manila")
+  .onRun(async () => {
+    try {
+      const result = await escalateOverdueReviewsInternal();
+      functions.logger.info(`Review SLA check complete: ${result.escalated} church(es) escalated`);
+    } catch (error) {
+      functions.logger.error("Error escalating overdue reviews:", error);
+    }
+    return null;
+  });
+
+// =============================================================================
+// REVIEWER CLAIM RELEASE
+// =============================================================================
+
+// Account statuses that can no longer hold a review claim
+const INACTIVE_ACCOUNT_STATUSES = ["archived", "inactive", "deleted"];
+
+const releaseClaims = async (
+  churchDocs: FirebaseFirestore.QueryDocumentSnapshot[],
+  reason: string
+): Promise<number> => {
+  const batch = admin.firestore().batch();
+  churchDocs.forEach((churchDoc) => {
+    batch.update(churchDoc.ref, {
+      reviewClaim: admin.firestore.FieldValue.delete(),
+    });
+  });
+  await batch.commit();
+
+  churchDocs.forEach((churchDoc) => {
+    functions.logger.info(
+      `Released review claim on ${churchDoc.id} held by ${churchDoc.data().reviewClaim?.reviewerId} (${reason})`
+    );
+  });
+  return churchDocs.length;
+};
+
+/**
+ * Scheduled Function: Release Expired Review Claims
+ *
+ * Clears reviewClaim from churches whose claim has expired, so the
+ * review queue shows them as unclaimed again. Mirrors isClaimActive() in
+ * src/lib/review-claims.ts, which already ignores expired claims.
+ */
+export const releaseExpiredReviewClaims = functions.pubsub
+  .schedule("every 60 minutes")
+  .onRun(async () => {
+    try {
+      const expired = await admin.firestore()
+        .collection("churches")
+        .where("reviewClaim.expiresAt", "<=", admin.firestore.Timestamp.now())
+        .get();
+
+      if (expired.empty) return null;
+
+      const released = await releaseClaims(expired.docs, "expired");
+      functions.logger.info(`Released ${released} expired review claim(s)`);
+    } catch (error) {
+      functions.logger.error("Error releasing expired review claims:", error);
+    }
+    return null;
+  });
+
+/**
+ * Firestore Trigger: Release Review Claims on Account Archive
+ *
+ * When a reviewer's account is archived (term ended), deactivated or
+ * deleted, any submissions they had claimed go back to the queue.
+ */
+export const releaseReviewClaimsOnArchive = functions.firestore
+  .document("users/{userId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (
+      before.status === after.status ||
+      !INACTIVE_ACCOUNT_STATUSES.includes(after.status)
+    ) {
+      return;
+    }
+
+    try {
+      const claimed = await admin.firestore()
+        .collection("churches")
+        .where("reviewClaim.reviewerId", "==", context.params.userId)
+        .get();
+
+      if (claimed.empty) return;
+
+      const released = await releaseClaims(claimed.docs, `account ${after.status}`);
+      functions.logger.info(
+        `Released ${released} review claim(s) held by ${context.params.userId} after account became ${after.status}`
+      );
+    } catch (error) {
+      functions.logger.error(`Error releasing review claims for ${context.params.userId}:`, error);
+    }
+  });
+
+// =============================================================================
+// CHURCH VERSION SNAPSHOTS
+// =============================================================================
+
+/**
+ * Firestore Trigger: Snapshot Church Version
+ *
+ * Saves a church into churches/{churchId}/versions when it is approved, when
+ * its pending changes are applied or reviewed, and when it is rolled back
+ * (getChurchVersionEvent in shared/churchVersions.ts). The snapshot is the
+ * church as it was saved, so versions cannot be forged by a client; the
+ * author is whoever signed the review fields written in the same update.
+ * A rollback is only versioned when the content matches the version it
+ * claims to restore.
+ */
+export const snapshotChurchVersion = functions.firestore
+  .document("churches/{churchId}")
+  .onUpdate(async (change, context) => {
+    const { churchId } = context.params;
+    const before = change.before.data();
+    const after = change.after.data();
+
+    const event = getChurchVersionEvent(before, after);
+    if (!event) return null;
+
+    const db = admin.firestore();
+    const versions = change.after.ref.collection(CHURCH_VERSIONS_COLLECTION);
+
+    try {
+      if (event.reason === "rollback") {
+        const restored = await versions
+          .where("versionNumber", "==", event.restoredFromVersion)
+          .limit(1)
+          .get();
+        if (restored.empty || !hasSameVersionedContent(restored.docs[0].data().snapshot || {}, after)) {
+          functions.logger.warn(
+            `Church ${churchId} does not match version ${event.restoredFromVersion}; rollback not versioned`
+          );
+          return null;
+        }
+      }
+
+      // Prefer the reviewer field this update wrote
+      const authorField = ["lastReviewedBy", "reviewedBy"]
+        .find((field) => after[field] && after[field] !== before[field]);
+      const uid: string | undefined = authorField ?
+        after[authorField] :
+        after.lastReviewedBy || after.reviewedBy;
+      const userData = uid ? (await db.collection("users").doc(uid).get()).data() : undefined;
+
+      const noteField = ["lastReviewNote", "reviewNotes"]
+        .find((field) => after[field] && after[field] !== before[field]);
+      const note: string | undefined = event.reason === "rollback" ?
+        after.lastRollback?.note :
+        noteField ? after[noteField] : undefined;
+
+      // Keyed by the event ID so a retried trigger does not save a second copy
+      const versionRef = versions.doc(context.eventId);
+      const versionNumber = await db.runTransaction(async (transaction) => {
+        const existing = await transaction.get(versionRef);
+        if (existing.exists) return existing.data()?.versionNumber as number;
+
+        const latest = await transaction.get(versions.orderBy("versionNumber", "desc").limit(1));
+        const next = latest.empty ? 1 : (latest.docs[0].data().versionNumber as number) + 1;
+
+        transaction.set(versionRef, {
+          churchId,
+          versionNumber: next,
+          reason: event.reason,
+          snapshot: getVersionedContent(after),
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          createdBy: {
+            uid: uid || "system",
+            ...(userData?.email ? { email: userData.email } : {}),
+            ...(userData?.name ? { name: userData.name } : {}),
+            ...(userData?.role ? { role: userData.role } : {}),
+          },
+          ...(note ? { note } : {}),
+          ...(event.restoredFromVersion !== undefined ? { restoredFromVersion: event.restoredFromVersion } : {}),
+          ...(after.diocese ? { diocese: after.diocese } : {}),
+        });
+        return next;
+      });
+
+      functions.logger.info(`Saved version ${versionNumber} (${event.reason}) of church ${churchId}`);
+    } catch (error) {
+      functions.logger.error(`Error saving version of church ${churchId}:`, error);
+    }
+    return null;
+  });
+
+// =============================================================================
+// ANNOUNCEMENT SCHEDULING
+// =============================================================================
+
+// Firestore batches are limited to 500 writes
+const ANNOUNCEMENT_BATCH_SIZE = 400;
+
+const toScheduledAnnouncement = (data: FirebaseFirestore.DocumentData): ScheduledAnnouncement => ({
+  status: data.status,
+  isArchived: data.isArchived,
+  publishAt: data.publishAt?.toDate?.() || null,
+  expireAt: data.expireAt?.toDate?.() || null,
+  eventDate: data.eventDate?.toDate?.() || null,
+  eventTime: data.eventTime || null,
+  endTime: data.endTime || null,
+  endDate: data.endDate?.toDate?.() || null,
+  recurrence: data.recurrence || null,
+});
+
+const processAnnouncementSchedulesInternal = async (now: Date) => {
+  const db = admin.firestore();
+  const [scheduled, active] = await Promise.all([
+    db.collection("announcements").where("status", "==", "scheduled").get(),
+    db.collection("announcements").where("isArchived", "==", false).get(),
+  ]);
+
+  const counts = { published: 0, rolled: 0, archived: 0 };
+  const updates: { ref: FirebaseFirestore.DocumentReference; data: FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData> }[] = [];
+  const timestamp = admin.firestore.Timestamp.fromDate(now);
+
+  [...scheduled.docs, ...active.docs].forEach((announcementDoc) => {
+    const action = getScheduleAction(toScheduledAnnouncement(announcementDoc.data()), now);
+    if (!action) return;
+
+    switch (action.type) {
+      case "publish":
+        counts.published++;
+        updates.push({
+          ref: announcementDoc.ref,
+          data: { status: "published", isArchived: false, archivedAt: null, publishedAt: timestamp, updatedAt: timestamp },
+        });
+        break;
+      case "roll":
+        counts.rolled++;
+        updates.push({
+          ref: announcementDoc.ref,
+          data: {
+            eventDate: admin.firestore.Timestamp.fromDate(action.eventDate),
+            endDate: action.endDate ? admin.firestore.Timestamp.fromDate(action.endDate) : null,
+            updatedAt: timestamp,
+          },
+        });
+        break;
+      case "archive":
+        counts.archived++;
+        updates.push({
+          ref: announcementDoc.ref,
+          data: { status: "archived", isArchived: true, archivedAt: timestamp, updatedAt: timestamp },
+        });
+        break;
+    }
+  });
+
+  for (let i = 0; i < updates.length; i += ANNOUNCEMENT_BATCH_SIZE) {
+    const batch = db.batch();
+    updates.slice(i, i + ANNOUNCEMENT_BATCH_SIZE).forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+
+  return counts;
+};
+
+/**
+ * Scheduled Function: Process Announcement Schedules
+ *
+ * Publishes scheduled announcements whose publishAt has passed, moves
+ * recurring announcements (novenas, First Friday devotions) to their next
+ * occurrence once the current one has ended, and archives announcements
+ * that expired or whose event is over. Replaces the archiving the dashboard
+ * used to do whenever an announcement list was opened.
+ */
+export const processAnnouncementSchedules = functions.pubsub
+  .schedule("every 15 minutes")
+  .timeZone("Asia/Manila")
+  .onRun(async () => {
+    try {
+      const result = await processAnnouncementSchedulesInternal(new Date());
+      functions.logger.info(
+        `Announcement schedules processed: ${result.published} published, ${result.rolled} rolled, ${result.archived} archived`
+      );
+    } catch (error) {
+      functions.logger.error("Error processing announcement schedules:", error);
+    }
+    return null;
+  });
+
+// =============================================================================
+// MASS SCHEDULE PROJECTION
+// =============================================================================
+
+// Firestore batches are limited to 500 writes
+const MASS_SCHEDULE_BATCH_SIZE = 400;
+
+const reprojectMassSchedulesInternal = async (now: Date) => {
+  const db = admin.firestore();
+  const asOfKey = manilaDateKey(now);
+  const snapshot = await db.collection("churches").where("massScheduleRules", "!=", null).get();
+
+  const updates: { ref: FirebaseFirestore.DocumentReference; massSchedules: LegacyMassSchedule[] }[] = [];
+  snapshot.docs.forEach((churchDoc) => {
+    const data = churchDoc.data();
+    const recurrence = data.massScheduleRules as Partial<MassScheduleRecurrence>;
+    if (!Array.isArray(recurrence.rules)) return;
+
+    const massSchedules = projectLegacyMassSchedules(
+      { rules: recurrence.rules, exceptions: recurrence.exceptions || [], additions: recurrence.additions || [] },
+      asOfKey
+    );
+    if (!sameLegacyMassSchedules(massSchedules, data.massSchedules || [])) {
+      updates.push({ ref: churchDoc.ref, massSchedules });
+    }
+  });
+
+  for (let i = 0; i < updates.length; i += MASS_SCHEDULE_BATCH_SIZE) {
+    const batch = db.batch();
+    updates.slice(i, i + MASS_SCHEDULE_BATCH_SIZE).forEach(({ ref, massSchedules }) => batch.update(ref, { massSchedules }));
+    await batch.commit();
+  }
+
+  return { checked: snapshot.size, updated: updates.length };
+};
+
+/**
+ * Scheduled Function: Re-project Mass Schedules
+ *
+ * The dashboard rebuilds a church's legacy massSchedules (what the mobile
+ * app reads) from its recurring rules only when the parish edits them, so a
+ * seasonal rule (e.g. a Lenten schedule) would otherwise never appear or
+ * disappear on its own. Shortly after midnight Manila time this repeats the
+ * projection (shared/massScheduleRecurrence.ts) for every church with
+ * recurring rules and saves the churches whose weekly list changed.
+ */
+export const reprojectMassSchedules = functions.pubsub
+  .schedule("every day 00:05")
+  .timeZone("Asia/Manila")
+  .onRun(async () => {
+    try {
+      const result = await reprojectMassSchedulesInternal(new Date());
+      functions.logger.info(
+        `Mass schedules re-projected: ${result.updated} of ${result.checked} recurring schedules changed`
+      );
+    } catch (error) {
+      functions.logger.error("Error re-projecting mass schedules:", error);
+    }
+    return null;
+  });
+
+// =============================================================================
+// CALENDAR FEEDS
+// =============================================================================
+
+const DIOCESE_NAMES: Record<string, string> = {
+  tagbilaran: "Diocese of Tagbilaran",
+  talibon: "Diocese of Talibon",
+};
+
+// Calendar apps and feed readers poll feeds; let the CDN absorb most of them
+const CALENDAR_CACHE_CONTROL = "public, max-age=900, s-maxage=3600";
+
+const toCalendarChurch = (churchDoc: FirebaseFirestore.DocumentSnapshot): CalendarChurch => {
+  const data = churchDoc.data() || {};
+  return {
+    id: churchDoc.id,
+    name: data.name || data.fullName || "Church",
+    municipality: data.municipality,
+    feastDay: data.feastDay,
+    massSchedules: data.massSchedules || [],
+    massScheduleRules: data.massScheduleRules,
+    updatedAt: data.updatedAt?.toDate?.(),
+  };
+};
+
+// Non-archived announcements with an event date; optionally limited to one parish (plus diocese-wide and targeted ones)
+const getCalendarAnnouncements = async (diocese: string, churchId?: string): Promise<CalendarAnnouncement[]> => {
+  const snapshot = await admin.firestore()
+    .collection("announcements")
+    .where("diocese", "==", diocese)
+    .where("isArchived", "==", false)
+    .get();
+
+  return snapshot.docs
+    .map((announcementDoc) => ({ id: announcementDoc.id, data: announcementDoc.data() }))
+    .filter(({ data }) => data.eventDate?.toDate)
+    .filter(({ data }) =>
+      !churchId || data.scope === "diocese" || data.parishId === churchId ||
+      (data.targetParishIds || []).includes(churchId)
+    )
+    .map(({ id, data }) => ({
+      id,
+      title: data.title || "Announcement",
+      description: data.description || undefined,
+      parishId: data.parishId || undefined,
+      eventDate: data.eventDate.toDate(),
+      eventTime: data.eventTime || undefined,
+      endTime: data.endTime || undefined,
+      endDate: data.endDate?.toDate?.(),
+      venue: data.venue || undefined,
+      updatedAt: data.updatedAt?.toDate?.(),
+    }));
+};
+
+// Public, cacheable response; clients revalidate with If-None-Match
+const sendCacheable = (
+  req: functions.https.Request,
+  res: functions.Response,
+  body: string,
+  contentType: string
+) => {
+  const etag = `"${createHash("sha1").update(body).digest("hex")}"`;
+  res.set("Cache-Control", CALENDAR_CACHE_CONTROL);
+  res.set("ETag", etag);
+  res.set("Access-Control-Allow-Origin", "*");
+
+  if (req.get("If-None-Match") === etag) {
+    res.status(304).end();
+    return;
+  }
+
+  res.set("Content-Type", contentType);
+  res.status(200).send(body);
+};
+
+const sendCalendar = (
+  req: functions.https.Request,
+  res: functions.Response,
+  ics: string,
+  filename: string
+) => {
+  res.set("Content-Disposition", `inline; filename="${filename}.ics"`);
+  sendCacheable(req, res, ics, "text/calendar; charset=utf-8");
+};
+
+const rejectNonGet = (req: functions.https.Request, res: functions.Response) => {
+  if (req.method === "GET" || req.method === "HEAD") return false;
+  res.set("Allow", "GET, HEAD");
+  res.status(405).send("Method Not Allowed");
+  return true;
+};
+
+/**
+ * HTTP Function: Church Calendar Feed
+ *
+ * GET /churchCalendarFeed?church={churchId}
+ * Mass schedules, feast day and event announcements of one approved church,
+ * plus diocese-wide events. Subscribe from Google/Apple/Outlook calendars.
+ */
+export const churchCalendarFeed = functions.https.onRequest(async (req, res) => {
+  if (rejectNonGet(req, res)) return;
+
+  const churchId = typeof req.query.church === "string" ? req.query.church.trim() : "";
+  if (!churchId) {
+    res.status(400).send("Missing church parameter");
+    return;
+  }
+
+  try {
+    const churchDoc = await admin.firestore().collection("churches").doc(churchId).get();
+    if (!churchDoc.exists || churchDoc.data()?.status !== "approved") {
+      res.status(404).send("Church calendar not found");
+      return;
+    }
+
+    const church = toCalendarChurch(churchDoc);
+    const announcements = await getCalendarAnnouncements(churchDoc.data()?.diocese, churchId);
+    const ics = buildCalendarFeed({
+      calendarName: church.name,
+      churches: [church],
+      announcements,
+    });
+    sendCalendar(req, res, ics, churchId);
+  } catch (error) {
+    functions.logger.error(`Error building calendar feed for church ${churchId}:`, error);
+    res.status(500).send("Unable to build calendar feed");
+  }
+});
+
+/**
+ * HTTP Function: Diocese Calendar Feed
+ *
+ * GET /dioceseCalendarFeed?diocese=tagbilaran|talibon
+ * Mass schedules and feast days of every approved church in the diocese,
+ * plus all of its event announcements, titled with the church name.
+ */
+export const dioceseCalendarFeed = functions.https.onRequest(async (req, res) => {
+  if (rejectNonGet(req, res)) return;
+
+  const diocese = typeof req.query.diocese === "string" ? req.query.diocese.trim().toLowerCase() : "";
+  if (!DIOCESE_NAMES[diocese]) {
+    res.status(400).send("Unknown diocese");
+    return;
+  }
+
+  try {
+    const [churchesSnapshot, announcements] = await Promise.all([
+      admin.firestore()
+        .collection("churches")
+        .where("diocese", "==", diocese)
+        .where("status", "==", "approved")
+        .get(),
+      getCalendarAnnouncements(diocese),
+    ]);
+
+    const ics = buildCalendarFeed({
+      calendarName: DIOCESE_NAMES[diocese],
+      churches: churchesSnapshot.docs.map(toCalendarChurch),
+      announcements,
+      includeChurchName: true,
+    });
+    sendCalendar(req, res, ics, `${diocese}-diocese`);
+  } catch (error) {
+    functions.logger.error(`Error building calendar feed for diocese ${diocese}:`, error);
+    res.status(500).send("Unable to build calendar feed");
+  }
+});
+
+// =============================================================================
+// ANNOUNCEMENT FEEDS
+// =============================================================================
+
+const ANNOUNCEMENT_FEED_LIMIT = 50;
+const PUBLIC_SITE_URL = "https://visita-bohol-system.vercel.app";
+
+// Canonical public URL of an HTTP function, used as the feed's self link
+const functionUrl = (name: string, params: Record<string, string | undefined>) => {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  return `https://us-central1-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/${name}${query ? `?${query}` : ""}`;
+};
+
+const parseFeedFormat = (value: unknown): AnnouncementFeedFormat | null => {
+  const format = typeof value === "string" && value.trim() ? value.trim().toLowerCase() : "rss";
+  return FEED_FORMATS.includes(format as AnnouncementFeedFormat) ? format as AnnouncementFeedFormat : null;
+};
+
+// Published (non-archived) announcements, newest first; optionally limited to one parish
+const getFeedAnnouncements = async (
+  diocese: string,
+  categories: AnnouncementCategory[],
+  parishId?: string
+): Promise<FeedAnnouncement[]> => {
+  const db = admin.firestore();
+  const snapshot = await db
+    .collection("announcements")
+    .where("diocese", "==", diocese)
+    .where("isArchived", "==", false)
+    .get();
+
+  const announcements = snapshot.docs
+    .map((announcementDoc) => ({ id: announcementDoc.id, data: announcementDoc.data() }))
+    .filter(({ data }) => !parishId || data.parishId === parishId || (data.targetParishIds || []).includes(parishId))
+    .filter(({ data }) => matchesAnnouncementCategories(data.category, categories))
+    .map(({ id, data }) => ({
+      id,
+      data,
+      publishedAt: (data.publishedAt || data.createdAt || data.updatedAt)?.toDate?.() as Date | undefined,
+    }))
+    .filter((item): item is { id: string; data: FirebaseFirestore.DocumentData; publishedAt: Date } => !!item.publishedAt)
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+    .slice(0, ANNOUNCEMENT_FEED_LIMIT);
+
+  // Diocese feeds name the parish of single-parish announcements
+  const parishIds = parishId ? [] : [...new Set(announcements.map(({ data }) => data.parishId).filter(Boolean))];
+  const parishNames = new Map<string, string>();
+  if (parishIds.length > 0) {
+    const churchDocs = await db.getAll(...parishIds.map((id) => db.collection("churches").doc(id)));
+    churchDocs.forEach((churchDoc) => {
+      const name = churchDoc.data()?.name || churchDoc.data()?.fullName;
+      if (name) parishNames.set(churchDoc.id, name);
+    });
+  }
+
+  return announcements.map(({ id, data, publishedAt }) => ({
+    id,
+    title: data.title || "Announcement",
+    description: data.description || undefined,
+    category: data.category || undefined,
+    parishName: data.parishId ? parishNames.get(data.parishId) : undefined,
+    eventDate: data.eventDate?.toDate?.(),
+    eventTime: data.eventTime || undefined,
+    endTime: data.endTime || undefined,
+    endDate: data.endDate?.toDate?.(),
+    venue: data.venue || undefined,
+    contactInfo: data.contactInfo || undefined,
+    publishedAt,
+    updatedAt: data.updatedAt?.toDate?.(),
+  }));
+};
+
+// Shared query parameter checks; sends the 400 response and returns null when invalid
+const parseFeedQuery = (req: functions.https.Request, res: functions.Response) => {
+  const format = parseFeedFormat(req.query.format);
+  if (!format) {
+    res.status(400).send(`Unknown format. Use one of: ${FEED_FORMATS.join(", ")}`);
+    return null;
+  }
+  // ?category=Festival,Mass - "Other" covers custom types
+  const categories = parseAnnouncementCategoryFilter(req.query.category);
+  if (!categories) {
+    res.status(400).send(`Unknown category. Use one of: ${ANNOUNCEMENT_CATEGORIES.join(", ")}`);
+    return null;
+  }
+  return { format, categories };
+};
+
+/**
+ * HTTP Function: Diocese Announcement Feed
+ *
+ * GET /dioceseAnnouncementFeed?diocese=tagbilaran|talibon[&format=rss|atom|json][&category=Festival,Mass]
+ * The latest published announcements of the diocese (diocese-wide and parish),
+ * for syndication on diocesan websites and Facebook pages.
+ */
+export const dioceseAnnouncementFeed = functions.https.onRequest(async (req, res) => {
+  if (rejectNonGet(req, res)) return;
+
+  const diocese = typeof req.query.diocese === "string" ? req.query.diocese.trim().toLowerCase() : "";
+  if (!DIOCESE_NAMES[diocese]) {
+    res.status(400).send("Unknown diocese");
+    return;
+  }
+  const feedQuery = parseFeedQuery(req, res);
+  if (!feedQuery) return;
+
+  try {
+    const announcements = await getFeedAnnouncements(diocese, feedQuery.categories);
+    const body = buildAnnouncementFeed(feedQuery.format, {
+      title: `${DIOCESE_NAMES[diocese]} Announcements`,
+      description: `Announcements and events from the ${DIOCESE_NAMES[diocese]}`,
+      homePageUrl: PUBLIC_SITE_URL,
+      feedUrl: functionUrl("dioceseAnnouncementFeed", {
+        diocese,
+        format: feedQuery.format,
+        category: feedQuery.categories.join(",") || undefined,
+      }),
+      announcements,
+    });
+    sendCacheable(req, res, body, FEED_CONTENT_TYPES[feedQuery.format]);
+  } catch (error) {
+    functions.logger.error(`Error building announcement feed for diocese ${diocese}:`, error);
+    res.status(500).send("Unable to build announcement feed");
+  }
+});
+
+/**
+ * HTTP Function: Parish Announcement Feed
+ *
+ * GET /parishAnnouncementFeed?parish={churchId}[&format=rss|atom|json][&category=Festival,Mass]
+ * Published announcements of one approved parish, including chancery
+ * announcements targeted at it (vicariate, municipality or parish list).
+ */
+export const parishAnnouncementFeed = functions.https.onRequest(async (req, res) => {
+  if (rejectNonGet(req, res)) return;
+
+  const parishId = typeof req.query.parish === "string" ? req.query.parish.trim() : "";
+  if (!parishId) {
+    res.status(400).send("Missing parish parameter");
+    return;
+  }
+  const feedQuery = parseFeedQuery(req, res);
+  if (!feedQuery) return;
+
+  try {
+    const churchDoc = await admin.firestore().collection("churches").doc(parishId).get();
+    if (!churchDoc.exists || churchDoc.data()?.status !== "approved") {
+      res.status(404).send("Parish feed not found");
+      return;
+    }
+
+    const church = churchDoc.data() || {};
+    const parishName = church.name || church.fullName || "Parish";
+    const announcements = await getFeedAnnouncements(church.diocese, feedQuery.categories, parishId);
+    const body = buildAnnouncementFeed(feedQuery.format, {
+      title: `${parishName} Announcements`,
+      description: `Announcements and events from ${parishName}${church.municipality ? `, ${church.municipality}` : ""}`,
+      homePageUrl: PUBLIC_SITE_URL,
+      feedUrl: functionUrl("parishAnnouncementFeed", {
+        parish: parishId,
+        format: feedQuery.format,
+        category: feedQuery.categories.join(",") || undefined,
+      }),
+      announcements,
+    });
+    sendCacheable(req, res, body, FEED_CONTENT_TYPES[feedQuery.format]);
+  } catch (error) {
+    functions.logger.error(`Error building announcement feed for parish ${parishId}:`, error);
+    res.status(500).send("Unable to build announcement feed");
+  }
+});
+
+// =============================================================================
+// NEXT MASS NEAR ME
+// =============================================================================
+
+// Approved churches are reused for a few minutes per instance instead of
+// reading every church document on each search
+const NEXT_MASS_CHURCH_TTL_MS = 5 * 60 * 1000;
+let nextMassChurchCache: { loadedAt: number; churches: NextMassChurch[] } | null = null;
+
+const getNextMassChurches = async (): Promise<NextMassChurch[]> => {
+  if (nextMassChurchCache && Date.now() - nextMassChurchCache.loadedAt < NEXT_MASS_CHURCH_TTL_MS) {
+    return nextMassChurchCache.churches;
+  }
+
+  const snapshot = await admin.firestore()
+    .collection("churches")
+    .where("status", "==", "approved")
+    .get();
+
+  const churches = snapshot.docs.map((churchDoc): NextMassChurch => {
+    const data = churchDoc.data();
+    return {
+      id: churchDoc.id,
+      name: data.name || data.fullName || "Church",
+      municipality: data.municipality,
+      diocese: data.diocese,
+      // Root-level coordinates (current) with nested coordinates as legacy fallback
+      latitude: data.latitude ?? data.coordinates?.latitude,
+      longitude: data.longitude ?? data.coordinates?.longitude,
+      massSchedules: data.massSchedules || [],
+    };
+  });
+
+  nextMassChurchCache = { loadedAt: Date.now(), churches };
+  return churches;
+};
+
+const queryNumber = (value: unknown): number | undefined => {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * HTTP Function: Next Masses
+ *
+ * GET /nextMasses?lat=9.62&lng=123.87&withinHours=3&language=English&fbLive=true
+ * Optional: from (ISO time, default now), maxKm, diocese, limit (max 50).
+ * Returns { masses: NextMassResult[] } ranked by distance and start time, or
+ * 400 for a non-numeric or out-of-range parameter.
+ * Without lat/lng the masses are ranked by start time only (useful for live streams).
+ */
+export const nextMasses = functions.https.onRequest(async (req, res) => {
+  res.set("Access-Control-Allow-Origin", "*");
+  if (req.method === "OPTIONS") {
+    res.set("Access-Control-Allow-Methods", "GET");
+    res.status(204).end();
+    return;
+  }
+  if (rejectNonGet(req, res)) return;
+
+  const latitude = queryNumber(req.query.lat);
+  const longitude = queryNumber(req.query.lng);
+  const withinHours = queryNumber(req.query.withinHours);
+  const maxKm = queryNumber(req.query.maxKm);
+  const limit = queryNumber(req.query.limit);
+  const from = typeof req.query.from === "string" ? new Date(req.query.from) : new Date();
+  const diocese = typeof req.query.diocese === "string" ? req.query.diocese.toLowerCase() : undefined;
+
+  const nonNumeric = ["lat", "lng", "withinHours", "maxKm", "limit"]
+    .find((name) => req.query[name] !== undefined && queryNumber(req.query[name]) === undefined);
+  if (nonNumeric) {
+    res.status(400).json({ error: `${nonNumeric} must be a number` });
+    return;
+  }
+  if ((latitude === undefined) !== (longitude === undefined)) {
+    res.status(400).json({ error: "lat and lng must be given together" });
+    return;
+  }
+  if (latitude !== undefined && (latitude < -90 || latitude > 90)) {
+    res.status(400).json({ error: "lat must be between -90 and 90" });
+    return;
+  }
+  if (longitude !== undefined && (longitude < -180 || longitude > 180)) {
+    res.status(400).json({ error: "lng must be between -180 and 180" });
+    return;
+  }
+  if (withinHours !== undefined && withinHours <= 0) {
+    res.status(400).json({ error: "withinHours must be greater than 0" });
+    return;
+  }
+  if (maxKm !== undefined && maxKm < 0) {
+    res.status(400).json({ error: "maxKm must not be negative" });
+    return;
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1)) {
+    res.status(400).json({ error: "limit must be a whole number of at least 1" });
+    return;
+  }
+  if (Number.isNaN(from.getTime())) {
+    res.status(400).json({ error: "from must be an ISO date-time" });
+    return;
+  }
+
+  try {
+    const churches = (await getNextMassChurches())
+      .filter((church) => !diocese || church.diocese === diocese);
+
+    const masses = findNextMasses(churches, {
+      latitude,
+      longitude,
+      from,
+      withinMinutes: withinHours !== undefined ? withinHours * 60 : undefined,
+      language: typeof req.query.language === "string" ? req.query.language : undefined,
+      fbLiveOnly: req.query.fbLive === "true",
+      maxDistanceKm: maxKm,
+      limit: Math.min(limit ?? DEFAULT_RESULT_LIMIT, 50),
+    });
+
+    res.set("Cache-Control", "public, max-age=60");
+    res.status(200).json({ masses });
+  } catch (error) {
+    functions.logger.error("Error finding next masses:", error);
+    res.status(500).json({ error: "Unable to search mass schedules" });
+  }
+});
+
+// =============================================================================
+// NOTIFICATION DELIVERY (INBOXES AND EMAIL)
+// =============================================================================
+
+const NOTIFICATION_DIGEST_COLLECTION = "notification_digest_items";
+const NOTIFICATION_INBOX_COLLECTION = "inbox";
+const NOTIFICATION_BATCH_SIZE = 400;
+const NOTIFICATION_RECIPIENT_ROLES = ["chancery_office", "parish", "museum_researcher"];
+
+interface NotificationRecipient {
+  uid: string;
+  email?: string;
+  name?: string;
+  role: string;
+  diocese?: string;
+  parishId?: string;
+  parish?: string;
+  locale: EmailLocale;
+  preferences: NotificationPreferences;
+}
+
+type NotificationWrite = [FirebaseFirestore.DocumentReference, FirebaseFirestore.DocumentData];
+
+const dashboardUrl = (path?: string) =>
+  path ? `${PUBLIC_SITE_URL}${path.startsWith("/") ? path : `/${path}`}` : undefined;
+
+// Parish secretaries edit preferences on the Account tab of the parish dashboard
+const notificationSettingsUrl = (role: string) =>
+  `${PUBLIC_SITE_URL}${role === "parish" ? "/parish" : "/settings"}`;
+
+const toNotificationRecipient = (userDoc: FirebaseFirestore.DocumentSnapshot): NotificationRecipient | null => {
+  const data = userDoc.data();
+  if (!data?.role || INACTIVE_ACCOUNT_STATUSES.includes(data.status)) return null;
+  return {
+    uid: userDoc.id,
+    email: data.email || undefined,
+    name: data.name,
+    role: data.role,
+    diocese: data.diocese,
+    parishId: data.parishId,
+    parish: data.parish,
+    locale: parseEmailLocale(data.emailLocale) || DEFAULT_EMAIL_LOCALE,
+    preferences: normalizeNotificationPreferences(data.notificationPreferences),
+  };
+};
+
+const commitNotificationWrites = async (writes: NotificationWrite[]) => {
+  const db = admin.firestore();
+  for (let i = 0; i < writes.length; i += NOTIFICATION_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + NOTIFICATION_BATCH_SIZE).forEach(([ref, data]) => batch.set(ref, data, { merge: true }));
+    await batch.commit();
+  }
+};
+
+/**
+ * Users a notification is addressed to: direct user IDs, and users with one
+ * of the recipient roles in the recipient dioceses (parish secretaries only
+ * for their own parish, see isNotificationRecipient).
+ */
+const getNotificationRecipients = async (
+  notification: FirebaseFirestore.DocumentData
+): Promise<NotificationRecipient[]> => {
+  const db = admin.firestore();
+  const recipients = notification.recipients || {};
+  const userDocs = new Map<string, FirebaseFirestore.DocumentSnapshot>();
+
+  const userIds: string[] = recipients.userIds || [];
+  if (userIds.length > 0) {
+    const snapshots = await db.getAll(...userIds.map((uid) => db.collection("users").doc(uid)));
+    snapshots.filter((userDoc) => userDoc.exists).forEach((userDoc) => userDocs.set(userDoc.id, userDoc));
+  }
+
+  const roles: string[] = recipients.roles || [];
+  if (roles.length > 0) {
+    let usersQuery: FirebaseFirestore.Query = db.collection("users").where("role", "in", roles.slice(0, 10));
+    if (recipients.dioceses?.length === 1) {
+      usersQuery = usersQuery.where("diocese", "==", recipients.dioceses[0]);
+    }
+    (await usersQuery.get()).docs.forEach((userDoc) => userDocs.set(userDoc.id, userDoc));
+  }
+
+  return [...userDocs.values()]
+    .map(toNotificationRecipient)
+    .filter((recipient): recipient is NotificationRecipient =>
+      recipient !== null && isNotificationRecipient(notification as NotificationAddress, recipient));
+};
+
+/**
+ * The recipient's own copy of a notification, with its own read and
+ * archived state. The shared readBy array is not copied.
+ */
+const toInboxEntry = (
+  notificationId: string,
+  notification: FirebaseFirestore.DocumentData,
+  isRead = false
+): FirebaseFirestore.DocumentData => {
+  const entry: FirebaseFirestore.DocumentData = {
+    ...notification,
+    notificationId,
+    createdAt: notification.createdAt || admin.firestore.Timestamp.now(),   // The inbox is ordered by createdAt
+    isRead,
+    readAt: null,
+    isArchived: false,
+    archivedAt: null,
+  };
+  delete entry.readBy;
+  delete entry.deliveredAt;
+  return entry;
+};
+
+const inboxRef = (uid: string, notificationId: string) =>
+  admin.firestore().collection("users").doc(uid).collection(NOTIFICATION_INBOX_COLLECTION).doc(notificationId);
+
+const toNotificationEmailItem = (data: FirebaseFirestore.DocumentData, fallbackDate: Date): NotificationEmailItem => ({
+  title: data.title || "VISITA notification",
+  message: data.message || "",
+  priority: data.priority,
+  actionUrl: dashboardUrl(data.actionUrl),
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : fallbackDate,
+});
+
+/**
+ * Who created a notification, verified server-side: a Cloud Function, or a
+ * dashboard user whose profile has a staff role and an active or pending
+ * account. Null when the creator cannot be verified.
+ */
+const getNotificationCreator = async (
+  notification: FirebaseFirestore.DocumentData
+): Promise<{ uid: string; name: string; role: string } | null> => {
+  if (notification.createdBy === SYSTEM_NOTIFICATION_CREATOR) {
+    // Functions name the user whose action they report (e.g. a new registration)
+    return {
+      uid: notification.relatedData?.actionBy?.uid || SYSTEM_NOTIFICATION_CREATOR,
+      name: notification.relatedData?.actionBy?.name || "",
+      role: SYSTEM_NOTIFICATION_CREATOR,
+    };
+  }
+  if (typeof notification.createdBy !== "string" || !notification.createdBy) return null;
+
+  const userDoc = await admin.firestore().collection("users").doc(notification.createdBy).get();
+  const userData = userDoc.data();
+  if (!userData || !NOTIFICATION_RECIPIENT_ROLES.includes(userData.role) || INACTIVE_ACCOUNT_STATUSES.includes(userData.status)) {
+    return null;
+  }
+  return { uid: userDoc.id, name: userData.name || userData.email || "", role: userData.role };
+};
+
+const deliverNotificationInternal = async (snapshot: FirebaseFirestore.DocumentSnapshot) => {
+  const notification = snapshot.data();
+  if (!notification) return { inboxes: 0, emailed: 0, queued: 0 };
+
+  // Only notifications from a verified creator are delivered, so the
+  // notifications collection cannot be used to send arbitrary mail or messages
+  const creator = await getNotificationCreator(notification);
+  if (!creator) {
+    functions.logger.warn(`Notification ${snapshot.id} has no verified creator; not delivering it`);
+    return { inboxes: 0, emailed: 0, queued: 0 };
+  }
+  // Recipients see the verified creator, not the actionBy the client wrote
+  const delivered = creator.role === SYSTEM_NOTIFICATION_CREATOR
+    ? notification
+    : { ...notification, relatedData: { ...notification.relatedData, actionBy: creator } };
+
+  const recipients = await getNotificationRecipients(notification);
+  const item = toNotificationEmailItem(delivered, snapshot.createTime?.toDate() || new Date());
+  const actorId = creator.uid;
+  const db = admin.firestore();
+  const writes: NotificationWrite[] = [];
+  let inboxes = 0;
+  let emailed = 0;
+  let queued = 0;
+
+  for (const recipient of recipients) {
+    if (isInAppEnabled(recipient.preferences, notification.type)) {
+      writes.push([inboxRef(recipient.uid, snapshot.id), toInboxEntry(snapshot.id, delivered)]);
+      inboxes++;
+    }
+
+    // No email about the recipient's own action
+    if (!recipient.email || recipient.uid === actorId) continue;
+    const delivery = resolveEmailDelivery(recipient.preferences, notification.type, notification.priority);
+
+    if (delivery === "digest") {
+      writes.push([db.collection(NOTIFICATION_DIGEST_COLLECTION).doc(`${recipient.uid}_${snapshot.id}`), {
+        userId: recipient.uid,
+        notificationId: snapshot.id,
+        type: notification.type,
+        priority: notification.priority || "medium",
+        title: item.title,
+        message: item.message,
+        actionUrl: item.actionUrl || null,
+        createdAt: admin.firestore.Timestamp.fromDate(item.createdAt),
+      }]);
+      queued++;
+    } else if (delivery === "immediate") {
+      try {
+        await enqueueEmail(recipient.email, renderEmailTemplate(
+          "notification",
+          { item, recipientName: recipient.name, settingsUrl: notificationSettingsUrl(recipient.role) },
+          { locale: recipient.locale, branding: await getDioceseEmailBranding(recipient.diocese) }
+        ), {
+          category: "notification",
+          priority: notification.priority === "urgent" ? "urgent" : "normal",
+          diocese: recipient.diocese,
+        });
+        emailed++;
+      } catch (error) {
+        functions.logger.error(`Failed to email notification ${snapshot.id} to ${recipient.uid}:`, error);
+      }
+    }
+  }
+
+  await commitNotificationWrites(writes);
+  await snapshot.ref.update({
+    deliveredAt: admin.firestore.FieldValue.serverTimestamp(),
+    recipientCount: recipients.length,
+  });
+  return { inboxes, emailed, queued };
+};
+
+/**
+ * Firestore Trigger: Deliver Notification
+ *
+ * Fans a new notification out to its recipients: a copy in each recipient's
+ * inbox (users/{uid}/inbox/{notificationId}) unless they turned the type off
+ * in the dashboard, and an email sent immediately or queued in
+ * notification_digest_items for the next digest, per notificationPreferences.
+ * Notifications without a verified creator (getNotificationCreator) are not
+ * delivered at all.
+ */
+export const deliverNotification = functions
+  .firestore.document("notifications/{notificationId}")
+  .onCreate(async (snapshot, context) => {
+    try {
+      const result = await deliverNotificationInternal(snapshot);
+      functions.logger.info(
+        `Notification ${context.params.notificationId}: ${result.inboxes} inbox(es), ` +
+        `${result.emailed} emailed, ${result.queued} queued for digest`
+      );
+    } catch (error) {
+      functions.logger.error("Error delivering notification:", error);
+    }
+  });
+
+/**
+ * Copy notifications created before inboxes existed into their recipients'
+ * inboxes, carrying over read state from readBy. Notifications already
+ * delivered (deliveredAt set) are skipped, so pages can be re-run safely.
+ */
+const migrateNotificationInboxesInternal = async (pageSize: number, startAfter?: string) => {
+  const db = admin.firestore();
+
+  const usersSnap = await db.collection("users").where("role", "in", NOTIFICATION_RECIPIENT_ROLES).get();
+  const users = usersSnap.docs
+    .map(toNotificationRecipient)
+    .filter((user): user is NotificationRecipient => user !== null);
+
+  let notificationsQuery = db.collection("notifications")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(pageSize);
+  if (startAfter) {
+    notificationsQuery = notificationsQuery.startAfter(startAfter);
+  }
+  const notificationsSnap = await notificationsQuery.get();
+
+  const writes: NotificationWrite[] = [];
+  let migrated = 0;
+
+  for (const notificationDoc of notificationsSnap.docs) {
+    const notification = notificationDoc.data();
+    if (notification.deliveredAt) continue;
+
+    const readBy: string[] = notification.readBy || [];
+    const recipients = users.filter((user) => isNotificationRecipient(notification as NotificationAddress, user));
+    recipients
+      .filter((user) => isInAppEnabled(user.preferences, notification.type))
+      .forEach((user) => {
+        writes.push([inboxRef(user.uid, notificationDoc.id), toInboxEntry(notificationDoc.id, notification, readBy.includes(user.uid))]);
+      });
+
+    writes.push([notificationDoc.ref, {
+      deliveredAt: admin.firestore.FieldValue.serverTimestamp(),
+      recipientCount: recipients.length,
+    }]);
+    migrated++;
+  }
+
+  await commitNotificationWrites(writes);
+
+  const lastDoc = notificationsSnap.docs[notificationsSnap.docs.length - 1];
+  return {
+    migrated,
+    inboxEntries: writes.length - migrated,
+    nextCursor: notificationsSnap.size === pageSize && lastDoc ? lastDoc.id : null,
+  };
+};
+
+/**
+ * Cloud Function: Migrate Notification Inboxes
+ *
+ * One-off migration for the Chancery Office. Processes one page of the
+ * notifications collection per call; call again with { startAfter: nextCursor }
+ * until nextCursor is null.
+ */
+export const migrateNotificationInboxes = functions.https.onCall(async (data, context) => {
+  await requireChanceryOffice(context, "run the migration");
+
+  const pageSize = Number(data?.pageSize ?? 200);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 500) {
+    throw new functions.https.HttpsError("invalid-argument", "pageSize must be between 1 and 500");
+  }
+  const startAfter = typeof data?.startAfter === "string" && data.startAfter ? data.startAfter : undefined;
+
+  try {
+    const result = await migrateNotificationInboxesInternal(pageSize, startAfter);
+    functions.logger.info(
+      `Notification inbox migration: ${result.migrated} notification(s), ${result.inboxEntries} inbox entries`
+    );
+    return { success: true, ...result };
+  } catch (error) {
+    functions.logger.error("Error migrating notification inboxes:", error);
+    throw new functions.https.HttpsError("internal", "Failed to migrate notification inboxes");
+  }
+});
+
+const sendNotificationDigestsInternal = async (now: Date) => {
+  const db = admin.firestore();
+  const snapshot = await db.collection(NOTIFICATION_DIGEST_COLLECTION).get();
+
+  const itemsByUser = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+  snapshot.docs.forEach((itemDoc) => {
+    const userId = itemDoc.get("userId");
+    if (!userId) return;
+    itemsByUser.set(userId, [...(itemsByUser.get(userId) || []), itemDoc]);
+  });
+
+  let sent = 0;
+  let dropped = 0;
+
+  for (const [userId, itemDocs] of itemsByUser) {
+    const recipient = toNotificationRecipient(await db.collection("users").doc(userId).get());
+
+    // Items for deleted or inactive accounts, or types the user has since
+    // turned off, are dropped; the rest wait until the digest is due
+    const items = recipient?.email
+      ? itemDocs.filter((itemDoc) =>
+        resolveEmailDelivery(recipient.preferences, itemDoc.get("type"), itemDoc.get("priority")) !== "off")
+      : [];
+    if (recipient && items.length > 0 && !isDigestDue(recipient.preferences, now)) continue;
+
+    if (recipient?.email && items.length > 0) {
+      try {
+        await enqueueEmail(recipient.email, renderEmailTemplate(
+          "notificationDigest",
+          {
+            items: items.map((itemDoc) => toNotificationEmailItem(itemDoc.data(), now)),
+            frequency: recipient.preferences.digestFrequency,
+            recipientName: recipient.name,
+            settingsUrl: notificationSettingsUrl(recipient.role),
+          },
+          { locale: recipient.locale, branding: await getDioceseEmailBranding(recipient.diocese) }
+        ), { category: "notificationDigest", priority: "normal", diocese: recipient.diocese });
+        sent++;
+      } catch (error) {
+        // Keep the items for the next run
+        functions.logger.error(`Failed to send notification digest to ${userId}:`, error);
+        continue;
+      }
+    }
+
+    dropped += itemDocs.length - items.length;
+    for (let i = 0; i < itemDocs.length; i += NOTIFICATION_BATCH_SIZE) {
+      const batch = db.batch();
+      itemDocs.slice(i, i + NOTIFICATION_BATCH_SIZE).forEach((itemDoc) => batch.delete(itemDoc.ref));
+      await batch.commit();
+    }
+  }
+
+  return { sent, dropped };
+};
+
+/**
+ * Scheduled Function: Send Notification Digests
+ *
+ * Runs every morning at DIGEST_HOUR (Manila time). Sends each user one email
+ * with the notifications queued for their digest: every day for daily
+ * digests, on WEEKLY_DIGEST_DAY for weekly ones.
+ */
+export const sendNotificationDigests = functions
+  .pubsub.schedule(`every day ${String(DIGEST_HOUR).padStart(2, "0")}:00`)
+  .timeZone("Asia/Manila")
+  .onRun(async () => {
+    try {
+      const result = await sendNotificationDigestsInternal(new Date());
+      functions.logger.info(`Notification digests: ${result.sent} sent, ${result.dropped} item(s) dropped`);
+    } catch (error) {
+      functions.logger.error("Error sending notification digests:", error);
+    }
+    return null;
+  });
+
+// =============================================================================
+// EMAIL OUTBOX (DELIVERY, RETRIES, DAILY QUOTA)
+// =============================================================================
+
+const EMAIL_QUOTA_COLLECTION = "email_quota";
+const EMAIL_OUTBOX_SWEEP_LIMIT = 100;
+const EMAIL_ERROR_MAX_LENGTH = 500;
+
+type OutboxDeliveryResult = "sent" | "retrying" | "dead" | "skipped";
+
+// One transport per function instance, created on first use
+let emailTransport: EmailTransport | null = null;
+const getEmailTransport = () => (emailTransport = emailTransport || createEmailTransport());
+
+/**
+ * Take a pending message for sending. Runs in a transaction so the trigger
+ * and the retry sweep never send the same message twice, and so the daily
+ * quota is counted before anything goes out. Returns null when the message
+ * is not due, already handled, or deferred by the quota.
+ */
+const claimOutboxEmail = async (
+  ref: FirebaseFirestore.DocumentReference,
+  now: Date
+): Promise<FirebaseFirestore.DocumentData | null> => {
+  const db = admin.firestore();
+  const day = getEmailQuotaDay(now);
+  const quotaRef = db.collection(EMAIL_QUOTA_COLLECTION).doc(day);
+
+  return db.runTransaction(async (transaction) => {
+    const [emailDoc, quotaDoc] = await Promise.all([transaction.get(ref), transaction.get(quotaRef)]);
+    const email = emailDoc.data();
+    if (!email || !PENDING_EMAIL_STATUSES.includes(email.status)) return null;
+    if (email.nextAttemptAt && email.nextAttemptAt.toMillis() > now.getTime()) return null;
+
+    const updatedAt = admin.firestore.Timestamp.fromDate(now);
+    const priority: EmailPriority = email.priority === "urgent" ? "urgent" : "normal";
+
+    if (!hasEmailQuota(quotaDoc.get("count") || 0, priority)) {
+      transaction.update(ref, {
+        status: "deferred",
+        nextAttemptAt: admin.firestore.Timestamp.fromDate(getNextEmailQuotaReset(now)),
+        updatedAt,
+      });
+      transaction.set(quotaRef, { day, deferred: admin.firestore.FieldValue.increment(1), updatedAt }, { merge: true });
+      return null;
+    }
+
+    transaction.set(quotaRef, { day, count: admin.firestore.FieldValue.increment(1), updatedAt }, { merge: true });
+    transaction.update(ref, {
+      status: "sending",
+      nextAttemptAt: admin.firestore.Timestamp.fromMillis(now.getTime() + EMAIL_SENDING_LEASE_MS),
+      updatedAt,
+    });
+    return email;
+  });
+};
+
+/**
+ * Attempt delivery of one outbox message. Sent messages drop their body
+ * (it may hold reset links or temporary passwords); failures are retried
+ * with exponential backoff, and permanent failures or the last attempt
+ * leave the message dead with its error.
+ */
+const deliverOutboxEmail = async (
+  ref: FirebaseFirestore.DocumentReference,
+  now: Date
+): Promise<OutboxDeliveryResult> => {
+  const email = await claimOutboxEmail(ref, now);
+  if (!email) return "skipped";
+
+  const attempts = (email.attempts || 0) + 1;
+  try {
+    const transport = getEmailTransport();
+    const result = await transport.send({ to: email.to, subject: email.subject, html: email.html, text: email.text });
+    await ref.update({
+      status: "sent",
+      attempts,
+      sentAt: admin.firestore.FieldValue.serverTimestamp(),
+      messageId: result.messageId || null,
+      transport: transport.name,
+      lastError: null,
+      nextAttemptAt: null,
+      html: admin.firestore.FieldValue.delete(),
+      text: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return "sent";
+  } catch (error) {
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, EMAIL_ERROR_MAX_LENGTH);
+    const dead = isPermanentEmailError(error) || attempts >= MAX_EMAIL_ATTEMPTS;
+    await ref.update({
+      status: dead ? "dead" : "retrying",
+      attempts,
+      lastError: message,
+      lastErrorAt: admin.firestore.FieldValue.serverTimestamp(),
+      nextAttemptAt: dead ? null : admin.firestore.Timestamp.fromMillis(now.getTime() + getEmailRetryDelayMs(attempts)),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    functions.logger.warn(`Email ${ref.id} (${email.category}) attempt ${attempts} failed${dead ? ", dead-lettered" : ""}: ${message}`);
+    return dead ? "dead" : "retrying";
+  }
+};
+
+const toIsoString = (value: FirebaseFirestore.Timestamp | null | undefined) =>
+  value?.toDate ? value.toDate().toISOString() : null;
+
+/**
+ * Firestore Trigger: Process Email Outbox
+ *
+ * Sends a newly queued email right away, unless the daily quota defers it.
+ */
+export const processEmailOutbox = functions
+  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
+  .firestore.document(`${EMAIL_OUTBOX_COLLECTION}/{emailId}`)
+  .onCreate(async (snapshot) => {
+    try {
+      const result = await deliverOutboxEmail(snapshot.ref, new Date());
+      functions.logger.info(`Email ${snapshot.id} (${snapshot.get("category")}): ${result}`);
+    } catch (error) {
+      // Left pending; the retry sweep picks it up
+      functions.logger.error(`Error processing email ${snapshot.id}:`, error);
+    }
+    return null;
+  });
+
+/**
+ * Scheduled Function: Retry Email Outbox
+ *
+ * Every 5 minutes, retries failed messages whose backoff has passed, sends
+ * messages deferred by yesterday's quota, and recovers messages whose
+ * sending lease expired (e.g. the processor crashed mid-send).
+ */
+export const retryEmailOutbox = functions
+  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
+  .pubsub.schedule("every 5 minutes")
+  .timeZone("Asia/Manila")
+  .onRun(async () => {
+    const now = new Date();
+    try {
+      const snapshot = await admin.firestore().collection(EMAIL_OUTBOX_COLLECTION)
+        .where("status", "in", PENDING_EMAIL_STATUSES)
+        .where("nextAttemptAt", "<=", admin.firestore.Timestamp.fromDate(now))
+        .orderBy("nextAttemptAt")
+        .limit(EMAIL_OUTBOX_SWEEP_LIMIT)
+        .get();
+
+      const results: Record<OutboxDeliveryResult, number> = { sent: 0, retrying: 0, dead: 0, skipped: 0 };
+      for (const emailDoc of snapshot.docs) {
+        results[await deliverOutboxEmail(emailDoc.ref, now)]++;
+      }
+
+      if (snapshot.size > 0) {
+        functions.logger.info(
+          `Email outbox sweep: ${results.sent} sent, ${results.retrying} retrying, ${results.dead} dead, ${results.skipped} skipped`
+        );
+      }
+    } catch (error) {
+      functions.logger.error("Error retrying email outbox:", error);
+    }
+    return null;
+  });
+
+/**
+ * Cloud Function: Get Email Outbox
+ *
+ * Delivery status for the chancery: today's quota usage (shared by both
+ * dioceses, as they send through one Gmail account), and the number of
+ * messages in each status and the most recent messages for the caller's
+ * diocese (without their bodies, which may contain reset links or temporary
+ * passwords).
+ *
+ * @param status - Optional status filter
+ * @param limit - Messages to return (1-100, default 50)
+ */
+export const getEmailOutbox = functions.https.onCall(async (data, context) => {
+  const { diocese } = await requireChanceryOffice(context, "view email delivery");
+  if (!diocese) {
+    throw new functions.https.HttpsError("failed-precondition", "Your account has no diocese");
+  }
+
+  const status = data?.status;
+  if (status !== undefined && !EMAIL_OUTBOX_STATUSES.includes(status)) {
+    throw new functions.https.HttpsError("invalid-argument", `status must be one of: ${EMAIL_OUTBOX_STATUSES.join(", ")}`);
+  }
+  const limit = Number(data?.limit ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new functions.https.HttpsError("invalid-argument", "limit must be between 1 and 100");
+  }
+
+  try {
+    const db = admin.firestore();
+    const outbox = db.collection(EMAIL_OUTBOX_COLLECTION).where("diocese", "==", diocese);
+    const day = getEmailQuotaDay(new Date());
+
+    let emailsQuery: FirebaseFirestore.Query = outbox;
+    if (status) emailsQuery = emailsQuery.where("status", "==", status);
+
+    const [quotaDoc, counts, emailsSnapshot] = await Promise.all([
+      db.collection(EMAIL_QUOTA_COLLECTION).doc(day).get(),
+      Promise.all(EMAIL_OUTBOX_STATUSES.map(async (value) =>
+        [value, (await outbox.where("status", "==", value).count().get()).data().count] as const)),
+      emailsQuery.orderBy("createdAt", "desc").limit(limit).get(),
+    ]);
+
+    return {
+      quota: {
+        day,
+        sent: quotaDoc.get("count") || 0,
+        deferred: quotaDoc.get("deferred") || 0,
+        limit: EMAIL_DAILY_QUOTA,
+        urgentReserve: URGENT_EMAIL_RESERVE,
+      },
+      counts: Object.fromEntries(counts),
+      emails: emailsSnapshot.docs.map((emailDoc) => {
+        const email = emailDoc.data();
+        return {
+          id: emailDoc.id,
+          to: email.to,
+          subject: email.subject,
+          category: email.category,
+          priority: email.priority,
+          status: email.status,
+          attempts: email.attempts || 0,
+          lastError: email.lastError || null,
+          createdAt: toIsoString(email.createdAt),
+          nextAttemptAt: toIsoString(email.nextAttemptAt),
+          sentAt: toIsoString(email.sentAt),
+        };
+      }),
+    };
+  } catch (error) {
+    functions.logger.error("Error loading email outbox:", error);
+    throw new functions.https.HttpsError("internal", "Failed to load email delivery status");
+  }
+});
+
+/**
+ * Cloud Function: Requeue Outbox Email
+ *
+ * Gives a dead-lettered message a fresh set of attempts (e.g. after the
+ * recipient's address was fixed or Gmail credentials were rotated) and tries
+ * it immediately.
+ *
+ * @param emailId - email_outbox document ID
+ */
+export const requeueOutboxEmail = functions
+  .runWith({ secrets: ["GMAIL_EMAIL", "GMAIL_APP_PASSWORD"] })
+  .https.onCall(async (data, context) => {
+    const { uid, diocese } = await requireChanceryOffice(context, "requeue email");
+
+    const emailId = data?.emailId;
+    if (!emailId || typeof emailId !== "string") {
+      throw new functions.https.HttpsError("invalid-argument", "emailId is required");
+    }
+
+    const ref = admin.firestore().collection(EMAIL_OUTBOX_COLLECTION).doc(emailId);
+    const emailDoc = await ref.get();
+    // Another diocese's messages are reported as missing, as getEmailOutbox hides them
+    if (!emailDoc.exists || !diocese || emailDoc.get("diocese") !== diocese) {
+      throw new functions.https.HttpsError("not-found", "Email not found");
+    }
+    if (emailDoc.get("status") !== "dead") {
+      throw new functions.https.HttpsError("failed-precondition", "Only dead emails can be requeued");
+    }
+
+    try {
+      const now = new Date();
+      await ref.update({
+        status: "queued",
+        attempts: 0,
+        nextAttemptAt: admin.firestore.Timestamp.fromDate(now),
+        requeuedAt: admin.firestore.Timestamp.fromDate(now),
+        requeuedBy: uid,
+        updatedAt: admin.firestore.Timestamp.fromDate(now),
+      });
+      const result = await deliverOutboxEmail(ref, now);
+      functions.logger.info(`Email ${emailId} requeued by ${uid}: ${result}`);
+      return { success: true, result };
+    } catch (error) {
+      functions.logger.error(`Error requeuing email ${emailId}:`, error);
+      throw new functions.https.HttpsError("internal", "Failed to requeue email");
     }
   });
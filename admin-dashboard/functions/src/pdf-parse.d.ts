@@ -8,7 +8,7 @@ declare module 'pdf-parse' {
     version: string;
   }
 
-  function pdfParse(dataBuffer: Buffer, options?: Record<string, unknown>): Promise<PDFParseResult>;
+  function pdfParse(dataBuffer: Buffer | Uint8Array, options?: Record<string, unknown>): Promise<PDFParseResult>;
   
   export = pdfParse;
 }
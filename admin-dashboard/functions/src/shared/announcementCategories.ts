@@ -0,0 +1,53 @@
+/**
+ * FILE PURPOSE: Announcement Categories
+ *
+ * Predefined announcement types offered by the dashboard form. Announcements
+ * saved with "Other" store the custom type name instead, so "Other" also
+ * stands for every category outside this list (e.g. in feed filters).
+ *
+ * src/types/announcement.ts re-exports this list for the dashboard.
+ */
+
+export const ANNOUNCEMENT_CATEGORIES = [
+  "Festival",
+  "Mass",
+  "Exhibit",
+  "Community Event",
+  "Celebration",
+  "Pilgrimage",
+  "Conference",
+  "Meeting",
+  "Other",
+] as const;
+
+export type AnnouncementCategory = typeof ANNOUNCEMENT_CATEGORIES[number];
+
+/**
+ * Predefined category for a stored category value; custom types map to "Other".
+ */
+export function toAnnouncementCategory(category?: string): AnnouncementCategory {
+  const match = ANNOUNCEMENT_CATEGORIES.find((c) => c.toLowerCase() === category?.trim().toLowerCase());
+  return match || "Other";
+}
+
+/**
+ * Categories from a feed's ?category=Festival,Mass filter, matched
+ * case-insensitively. Empty for no filter; null if a name is unknown.
+ */
+export function parseAnnouncementCategoryFilter(value: unknown): AnnouncementCategory[] | null {
+  if (typeof value !== "string" || !value.trim()) return [];
+  const categories: AnnouncementCategory[] = [];
+  for (const name of value.split(",").map((c) => c.trim()).filter(Boolean)) {
+    const category = ANNOUNCEMENT_CATEGORIES.find((c) => c.toLowerCase() === name.toLowerCase());
+    if (!category) return null;
+    categories.push(category);
+  }
+  return categories;
+}
+
+/**
+ * Whether a stored category passes a parsed filter; an empty filter passes everything.
+ */
+export function matchesAnnouncementCategories(category: string | undefined, filter: AnnouncementCategory[]): boolean {
+  return filter.length === 0 || filter.includes(toAnnouncementCategory(category));
+}
@@ -0,0 +1,206 @@
+/**
+ * FILE PURPOSE: Announcement Publishing Schedule
+ *
+ * Time-based lifecycle of announcements:
+ * - scheduled: has a future publishAt; stored with isArchived: true so public
+ *   clients (which only read isArchived == false) don't show it yet
+ * - published: visible until expireAt, or until its event has ended
+ * - recurring announcements (weekly novena, first-Friday devotion) roll their
+ *   eventDate forward to the next occurrence instead of being archived
+ * - archived: expired, ended, or past the last occurrence of the series
+ *
+ * processAnnouncementSchedules applies the transitions. Dates and times are
+ * Asia/Manila.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AnnouncementWeekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export type AnnouncementStatus = "scheduled" | "published" | "archived";
+
+export interface AnnouncementRecurrence {
+  frequency: "weekly" | "monthly";
+  byDay: AnnouncementWeekday[];
+  ordinal?: number;       // Monthly only: nth weekday of the month (1-4, -1 = last)
+  until?: string;         // Last possible occurrence, "YYYY-MM-DD"
+}
+
+export interface ScheduledAnnouncement {
+  status?: AnnouncementStatus;
+  isArchived?: boolean;
+  publishAt?: Date | null;
+  expireAt?: Date | null;
+  eventDate?: Date | null;
+  eventTime?: string | null;
+  endTime?: string | null;
+  endDate?: Date | null;
+  recurrence?: AnnouncementRecurrence | null;
+}
+
+export type AnnouncementScheduleAction =
+  | { type: "publish" }
+  | { type: "archive"; reason: "expired" | "ended" }
+  | { type: "roll"; eventDate: Date; endDate: Date | null };
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANNOUNCEMENT_WEEKDAYS: AnnouncementWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const WEEKDAY_NAMES: Record<AnnouncementWeekday, string> = {
+  SU: "Sunday", MO: "Monday", TU: "Tuesday", WE: "Wednesday", TH: "Thursday", FR: "Friday", SA: "Saturday",
+};
+
+const ORDINAL_NAMES: Record<number, string> = { 1: "First", 2: "Second", 3: "Third", 4: "Fourth", [-1]: "Last" };
+
+/**
+ * Calendar date ("YYYY-MM-DD") in Manila of a stored event date. Event dates
+ * are saved as midnight UTC of the picked day, so this returns that day.
+ */
+export const toManilaDateKey = (date: Date) => new Date(date.getTime() + MANILA_OFFSET_MS).toISOString().slice(0, 10);
+
+// Event date as stored by the dashboard: midnight UTC of the day
+export const dateKeyToEventDate = (dateKey: string) => new Date(`${dateKey}T00:00:00Z`);
+
+// Instant of a Manila wall-clock time ("HH:mm") on a day
+const manilaInstant = (dateKey: string, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + ((hours || 0) * 60 + (minutes || 0)) * 60000 - MANILA_OFFSET_MS);
+};
+
+const addDays = (dateKey: string, days: number) =>
+  new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * When the announcement's event is over: endDate (end of that day), else
+ * eventDate at endTime, at eventTime, or at the end of the day.
+ * Null for announcements without an event date.
+ */
+export function getEventEnd(announcement: ScheduledAnnouncement): Date | null {
+  if (announcement.endDate) {
+    return manilaInstant(addDays(toManilaDateKey(announcement.endDate), 1), "00:00");
+  }
+  if (!announcement.eventDate) return null;
+
+  const dateKey = toManilaDateKey(announcement.eventDate);
+  const time = announcement.endTime || announcement.eventTime;
+  return time ? manilaInstant(dateKey, time) : manilaInstant(addDays(dateKey, 1), "00:00");
+}
+
+// =============================================================================
+// RECURRENCE
+// =============================================================================
+
+const occursOn = (recurrence: AnnouncementRecurrence, dateKey: string) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  if (!recurrence.byDay.includes(ANNOUNCEMENT_WEEKDAYS[date.getUTCDay()])) return false;
+  if (recurrence.frequency === "weekly" || !recurrence.ordinal) return true;
+
+  const position = Math.ceil(date.getUTCDate() / 7);
+  const isLast = addDays(dateKey, 7).slice(5, 7) !== dateKey.slice(5, 7);
+  return recurrence.ordinal === position || (recurrence.ordinal === -1 && isLast);
+};
+
+/**
+ * First occurrence strictly after afterDateKey, or null when the series has
+ * ended (until) or the rule matches no day.
+ */
+export function getNextOccurrence(recurrence: AnnouncementRecurrence, afterDateKey: string): string | null {
+  if (!recurrence.byDay?.length) return null;
+  // A monthly rule always matches within 5 weeks; scan a little longer to be safe
+  for (let offset = 1; offset <= 62; offset++) {
+    const candidate = addDays(afterDateKey, offset);
+    if (recurrence.until && candidate > recurrence.until) return null;
+    if (occursOn(recurrence, candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Next `count` occurrences on or after fromDateKey, for previews.
+ */
+export function getUpcomingOccurrences(recurrence: AnnouncementRecurrence, fromDateKey: string, count: number): string[] {
+  const occurrences: string[] = [];
+  let cursor = addDays(fromDateKey, -1);
+  while (occurrences.length < count) {
+    const next = getNextOccurrence(recurrence, cursor);
+    if (!next) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+  return occurrences;
+}
+
+/**
+ * "Every Tuesday", "Every Monday, Friday" or "First Friday of the month".
+ */
+export function describeAnnouncementRecurrence(recurrence: AnnouncementRecurrence): string {
+  const days = ANNOUNCEMENT_WEEKDAYS.filter((day) => recurrence.byDay.includes(day)).map((day) => WEEKDAY_NAMES[day]);
+  const summary = recurrence.frequency === "monthly" && recurrence.ordinal
+    ? `${ORDINAL_NAMES[recurrence.ordinal] || `#${recurrence.ordinal}`} ${days.join(", ")} of the month`
+    : days.length === 7 ? "Daily" : `Every ${days.join(", ")}`;
+  return recurrence.until ? `${summary} until ${recurrence.until}` : summary;
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Effective status of an announcement; documents created before scheduling
+ * existed have no status and are derived from isArchived.
+ */
+export function getAnnouncementStatus(announcement: ScheduledAnnouncement): AnnouncementStatus {
+  if (announcement.status) return announcement.status;
+  return announcement.isArchived ? "archived" : "published";
+}
+
+/**
+ * The transition the scheduler should apply at `now`, if any.
+ */
+export function getScheduleAction(announcement: ScheduledAnnouncement, now: Date): AnnouncementScheduleAction | null {
+  const status = getAnnouncementStatus(announcement);
+
+  if (status === "scheduled") {
+    return announcement.publishAt && announcement.publishAt <= now ? { type: "publish" } : null;
+  }
+  if (status !== "published") return null;
+
+  if (announcement.expireAt && announcement.expireAt <= now) {
+    return { type: "archive", reason: "expired" };
+  }
+
+  const eventEnd = getEventEnd(announcement);
+  if (!eventEnd || eventEnd > now) return null;
+
+  if (announcement.recurrence && announcement.eventDate) {
+    // Skip occurrences that already ended (e.g. the scheduler was down for a while)
+    const currentKey = toManilaDateKey(announcement.eventDate);
+    const spanDays = announcement.endDate
+      ? Math.round((Date.parse(`${toManilaDateKey(announcement.endDate)}T00:00:00Z`) - Date.parse(`${currentKey}T00:00:00Z`)) / DAY_MS)
+      : null;
+
+    let nextKey = getNextOccurrence(announcement.recurrence, currentKey);
+    while (nextKey) {
+      const candidate = {
+        ...announcement,
+        eventDate: dateKeyToEventDate(nextKey),
+        endDate: spanDays === null ? null : dateKeyToEventDate(addDays(nextKey, spanDays)),
+      };
+      const candidateEnd = getEventEnd(candidate);
+      if (candidateEnd && candidateEnd > now) {
+        return { type: "roll", eventDate: candidate.eventDate, endDate: candidate.endDate };
+      }
+      nextKey = getNextOccurrence(announcement.recurrence, nextKey);
+    }
+  }
+
+  return { type: "archive", reason: "ended" };
+}
@@ -0,0 +1,490 @@
+/**
+ * FILE PURPOSE: Church Document Import Parser
+ *
+ * Turns the plain text of a parish profile document into ChurchInfo fields,
+ * with a confidence score and the source text for each extracted field.
+ *
+ * This is the only copy of the parser. It is used by:
+ * - the parseChurchImport Cloud Function (DOCX, PDF and image uploads)
+ * - the admin dashboard, which parses plain-text uploads in the browser
+ *   (imported there through the @shared alias)
+ *
+ * Keep this module free of Node, browser and Firebase imports so it
+ * compiles and behaves identically in both runtimes. Changes are covered
+ * by the golden fixtures in admin-dashboard/src/services/__tests__/fixtures.
+ */
+
+const normalizeWhitespace = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const setNestedValue = (target: Record<string, any>, path: string, value: unknown) => {
+  const keys = path.split(".");
+  let cursor = target;
+  for (let i = 0; i < keys.length - 1; i += 1) {
+    const key = keys[i];
+    if (!cursor[key] || typeof cursor[key] !== "object") {
+      cursor[key] = {};
+    }
+    cursor = cursor[key] as Record<string, any>;
+  }
+  cursor[keys[keys.length - 1]] = value;
+};
+
+// All known labels used to detect field boundaries.
+// Longer labels are listed first so they match before shorter prefixes.
+const ALL_KNOWN_LABELS = [
+  "Parish Name", "Church Name", "Parish", "Church",
+  "Location Details", "Street Address", "Address",
+  "Barangay", "Municipality", "City", "Town", "Province",
+  "Current Parish Priest", "Parish Priest", "Current Priest", "Priest",
+  "Parish Administrator",
+  "Feast Day", "Patron Feast Day", "Patron Saint", "Patron",
+  "Founding Year", "Year Founded", "Year Established", "Year Built",
+  "Date Established", "Date Founded", "Construction Year", "Founded",
+  "Founders", "Founded By", "Founding Organization",
+  "Architectural Style", "Architecture",
+  "Heritage Classification", "Heritage Class",
+  "Religious Classification", "Religious Class",
+  "Historical Background", "Historical background", "Church History", "History",
+  "Architectural Information", "Architectural Features", "Design Features", "Building Features", "Notable Features",
+  "Heritage Information", "Heritage Details", "Heritage Status", "Cultural Significance",
+  "Contact Phone", "Contact Number", "Contact #", "Phone", "Telephone",
+  "Mobile Number", "Mobile", "Tel",
+  "Contact Email", "Email",
+  "Official Website", "Website",
+  "Facebook Page", "Facebook",
+  "Mass Schedules", "Mass Schedule", "Schedule of Masses", "Worship Schedule",
+  "GPS Coordinates", "Coordinates", "Latitude", "Longitude",
+  "Diocese", "Vicariate"
+].sort((a, b) => b.length - a.length);
+
+// Fields whose values legitimately span multiple lines.
+// For all other fields, continuation lines are NOT appended.
+const MULTI_LINE_LABELS = new Set([
+  "historical background", "church history", "history",
+  "architectural information", "architectural features", "design features",
+  "building features", "notable features",
+  "heritage information", "heritage details", "heritage status", "cultural significance",
+  "mass schedules", "mass schedule", "schedule of masses", "worship schedule"
+]);
+
+// Multi-line fields where each line is a separate entry (one day per line)
+const LINE_LIST_LABELS = new Set([
+  "mass schedules", "mass schedule", "schedule of masses", "worship schedule"
+]);
+
+/**
+ * Pre-process raw text: split concatenated fields onto separate lines
+ * and join multi-line values that belong to the same field.
+ */
+const preprocessText = (text: string): Map<string, string> => {
+  // Phase 1: Insert line breaks before any known "Label:" pattern so
+  // concatenated text like "Municipality: DauisFounding Year: 1697" is split.
+  const labelPattern = ALL_KNOWN_LABELS
+    .map((l) => l.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+  // A single left-to-right pass consumes the longest label at each position, so
+  // "Contact Phone:" or "GPS Coordinates:" are not split again at "Phone"/"Coordinates".
+  const splitRegex = new RegExp(`(?:${labelPattern})(?=\\s*:)`, "gi");
+  const normalized = text.replace(splitRegex, (label: string, offset: number) =>
+    offset > 0 && text[offset - 1] !== "\n" ? `\n${label}` : label
+  );
+
+  // Phase 2: Walk lines and pair each label with its (possibly multi-line) value.
+  const lines = normalized.split(/\r?\n/);
+  const result = new Map<string, string>();
+  let currentLabel = "";
+  let currentValue = "";
+
+  const labelLineRegex = new RegExp(
+    `^\\s*(${labelPattern})\\s*:\\s*(.*)$`, "i"
+  );
+
+  for (const line of lines) {
+    const match = line.match(labelLineRegex);
+    if (match) {
+      // Store previous field
+      if (currentLabel) {
+        result.set(currentLabel.toLowerCase(), normalizeWhitespace(currentValue));
+      }
+      currentLabel = match[1];
+      currentValue = match[2] || "";
+    } else if (currentLabel) {
+      // Only append continuation lines for multi-line fields (e.g. history, features).
+      // For short fields like names/addresses, ignore stray continuation lines
+      // to prevent address text bleeding into parish/church name fields.
+      const trimmed = line.trim();
+      if (trimmed && MULTI_LINE_LABELS.has(currentLabel.toLowerCase())) {
+        const separator = LINE_LIST_LABELS.has(currentLabel.toLowerCase()) ? "; " : " ";
+        currentValue += separator + trimmed;
+      }
+    }
+  }
+  // Store last field
+  if (currentLabel) {
+    result.set(currentLabel.toLowerCase(), normalizeWhitespace(currentValue));
+  }
+
+  return result;
+};
+
+/**
+ * Normalize dropdown values so extracted text maps to valid form options.
+ */
+const ARCHITECTURAL_STYLE_MAP: Record<string, string> = {
+  "baroque": "Baroque",
+  "neo-gothic": "Neo-Gothic",
+  "neogothic": "Neo-Gothic",
+  "neo gothic": "Neo-Gothic",
+  "gothic": "Neo-Gothic",
+  "byzantine": "Byzantine",
+  "neo-classical": "Neo-Classical",
+  "neoclassical": "Neo-Classical",
+  "neo classical": "Neo-Classical",
+  "modern": "Modern",
+  "mixed styles": "Mixed Styles",
+  "mixed": "Mixed Styles",
+  "other": "Other",
+};
+
+const normalizeArchitecturalStyle = (raw: string): string => {
+  const lower = raw.toLowerCase().trim();
+  // Direct match
+  if (ARCHITECTURAL_STYLE_MAP[lower]) return ARCHITECTURAL_STYLE_MAP[lower];
+  // Partial / contains match
+  for (const [key, val] of Object.entries(ARCHITECTURAL_STYLE_MAP)) {
+    if (lower.includes(key)) return val;
+  }
+  // If it mentions multiple styles, use Mixed Styles
+  const matched = Object.keys(ARCHITECTURAL_STYLE_MAP).filter((k) => lower.includes(k));
+  if (matched.length > 1) return "Mixed Styles";
+  return raw.trim(); // Return as-is and let the UI handle it
+};
+
+const HERITAGE_CLASSIFICATION_MAP: Record<string, string> = {
+  "none": "None",
+  "national cultural treasure": "National Cultural Treasures",
+  "national cultural treasures": "National Cultural Treasures",
+  "nct": "National Cultural Treasures",
+  "important cultural property": "Important Cultural Properties",
+  "important cultural properties": "Important Cultural Properties",
+  "icp": "Important Cultural Properties",
+};
+
+const normalizeHeritageClassification = (raw: string): string => {
+  const lower = raw.toLowerCase().trim();
+  if (HERITAGE_CLASSIFICATION_MAP[lower]) return HERITAGE_CLASSIFICATION_MAP[lower];
+  for (const [key, val] of Object.entries(HERITAGE_CLASSIFICATION_MAP)) {
+    if (lower.includes(key)) return val;
+  }
+  return raw.trim();
+};
+
+const RELIGIOUS_CLASSIFICATION_OPTIONS = [
+  "Diocesan Shrine", "Jubilee Church", "Papal Basilica Affinity", "Holy Door"
+];
+
+const parseReligiousClassifications = (raw: string): string[] => {
+  const lower = raw.toLowerCase();
+  return RELIGIOUS_CLASSIFICATION_OPTIONS.filter(
+    (opt) => lower.includes(opt.toLowerCase())
+  );
+};
+
+export interface MassScheduleEntry {
+  day: string;
+  time: string;
+  endTime: string;
+}
+
+/**
+ * Parse mass schedule text into structured MassSchedule objects.
+ * Handles formats like:
+ *   "Sunday 7:00 AM, 9:00 AM; Saturday 5:30 PM"
+ *   "Sunday: 6:00 AM - 7:00 AM, 9:00 AM - 10:00 AM"
+ *   "Mon-Fri 6:00 AM"
+ */
+const parseMassSchedules = (raw: string): MassScheduleEntry[] => {
+  const schedules: MassScheduleEntry[] = [];
+  const entries = raw.split(/[;\n]/).map((s: string) => s.trim()).filter(Boolean);
+
+  const dayAliases: Record<string, string> = {
+    "sun": "Sunday", "sunday": "Sunday",
+    "mon": "Monday", "monday": "Monday",
+    "tue": "Tuesday", "tues": "Tuesday", "tuesday": "Tuesday",
+    "wed": "Wednesday", "wednesday": "Wednesday",
+    "thu": "Thursday", "thurs": "Thursday", "thursday": "Thursday",
+    "fri": "Friday", "friday": "Friday",
+    "sat": "Saturday", "saturday": "Saturday",
+    "weekdays": "Weekdays", "weekday": "Weekdays",
+    "daily": "Daily",
+  };
+
+  const timeRegex = /(\d{1,2}:\d{2}\s*(?:AM|PM|am|pm))/g;
+
+  for (const entry of entries) {
+    const dayMatch = entry.match(/^([A-Za-z-]+)[:\s,]+(.+)$/i);
+    let day = "";
+    let rest = entry;
+    if (dayMatch) {
+      const dayKey = dayMatch[1].toLowerCase().replace(/-/g, "");
+      if (dayAliases[dayKey]) {
+        day = dayAliases[dayKey];
+        rest = dayMatch[2];
+      } else {
+        const parts = dayMatch[1].split("-");
+        if (parts.length === 2 && dayAliases[parts[0].toLowerCase()] && dayAliases[parts[1].toLowerCase()]) {
+          day = `${dayAliases[parts[0].toLowerCase()]}-${dayAliases[parts[1].toLowerCase()]}`;
+          rest = dayMatch[2];
+        }
+      }
+    }
+
+    const times = [...rest.matchAll(timeRegex)].map((m: RegExpMatchArray) => m[1].trim());
+    if (times.length > 0 && day) {
+      for (const time of times) {
+        schedules.push({ day, time, endTime: "" });
+      }
+    } else if (day && rest.trim()) {
+      schedules.push({ day, time: rest.trim(), endTime: "" });
+    }
+  }
+
+  return schedules;
+};
+
+// Bounding box of Bohol province (mirrors BOHOL_BOUNDS in the dashboard's lib/validators.ts)
+const BOHOL_BOUNDS = { minLat: 9.4, maxLat: 10.2, minLng: 123.7, maxLng: 124.7 };
+
+const isWithinBohol = (lat: number, lng: number): boolean =>
+  lat >= BOHOL_BOUNDS.minLat && lat <= BOHOL_BOUNDS.maxLat &&
+  lng >= BOHOL_BOUNDS.minLng && lng <= BOHOL_BOUNDS.maxLng;
+
+/**
+ * Parse one coordinate written as decimal degrees ("9.6475", "9.6475° N")
+ * or degrees-minutes-seconds ("9°38'51.2\"N", "9 38 51.2 N").
+ * Southern and western hemispheres are returned as negative values.
+ */
+const parseCoordinateComponent = (raw: string): number | null => {
+  const text = raw.trim().toUpperCase();
+  const numbers = text.match(/-?\d+(?:\.\d+)?/g);
+  if (!numbers || numbers.length > 3) return null;
+
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number);
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const hemisphere = text.match(/[NSEW]/)?.[0];
+  const negative = degrees < 0 || hemisphere === "S" || hemisphere === "W";
+  return Number((negative ? -value : value).toFixed(6));
+};
+
+// Google Maps links, most precise first: place pin, then query params, then map viewport
+const GOOGLE_MAPS_PATTERNS = [
+  /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/,
+  /[?&](?:q|ll|query|destination|center)=(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)/,
+  /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/
+];
+
+/**
+ * Parse a latitude/longitude pair from decimal degrees, degrees-minutes-seconds
+ * or a Google Maps URL. Returns null if the text is not a valid coordinate pair.
+ */
+const parseCoordinates = (raw: string): { lat: number; lng: number } | null => {
+  let lat: number | null = null;
+  let lng: number | null = null;
+
+  if (/https?:\/\/|maps\.google|google\.[a-z.]+\/maps/i.test(raw)) {
+    const url = raw.replace(/%2C/gi, ",");
+    for (const pattern of GOOGLE_MAPS_PATTERNS) {
+      const match = url.match(pattern);
+      if (match) {
+        lat = Number(match[1]);
+        lng = Number(match[2]);
+        break;
+      }
+    }
+  } else {
+    // Split on hemisphere letters ("9°38"N 123°51"E"), otherwise on a comma/semicolon
+    const text = raw.trim();
+    const byHemisphere = text.match(/^(.+?[NS])[\s,;]+(.+?[EW])\.?$/i);
+    const reversed = text.match(/^(.+?[EW])[\s,;]+(.+?[NS])\.?$/i);
+    const parts = byHemisphere
+      ? [byHemisphere[1], byHemisphere[2]]
+      : reversed
+        ? [reversed[2], reversed[1]]
+        : text.split(/[,;]/).length === 2
+          ? text.split(/[,;]/)
+          : text.split(/\s+/);
+    if (parts.length === 2) {
+      lat = parseCoordinateComponent(parts[0]);
+      lng = parseCoordinateComponent(parts[1]);
+    }
+  }
+
+  if (lat === null || lng === null || Number.isNaN(lat) || Number.isNaN(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+};
+
+/**
+ * Validate extracted values and compute dynamic confidence scores.
+ */
+const validateAndScore = (
+  path: string,
+  value: unknown
+): { value: unknown; confidence: number } => {
+  const str = typeof value === "string" ? value : "";
+
+  switch (path) {
+    case "parishName":
+    case "churchName": {
+      const addressPatterns = /\b(bohol|cebu|leyte|street|st\.|brgy\.|barangay|province|philippines)\b/i;
+      if (addressPatterns.test(str)) return { value: str, confidence: 0.4 };
+      if (str.length < 3) return { value: str, confidence: 0.3 };
+      if (str.length > 200) return { value: str, confidence: 0.4 };
+      return { value: str, confidence: 0.85 };
+    }
+
+    case "historicalDetails.foundingYear": {
+      const yearMatch = str.match(/\b(1[0-9]{3}|20[0-2][0-9])\b/);
+      if (yearMatch) {
+        const year = parseInt(yearMatch[1], 10);
+        const currentYear = new Date().getFullYear();
+        if (year >= 1521 && year <= currentYear) return { value: String(year), confidence: 0.95 };
+        return { value: String(year), confidence: 0.5 };
+      }
+      return { value: str, confidence: 0.3 };
+    }
+
+    case "historicalDetails.heritageClassification": {
+      const validValues = ["National Cultural Treasures", "Important Cultural Properties", "None"];
+      if (validValues.includes(str)) return { value: str, confidence: 0.95 };
+      return { value: str, confidence: 0.4 };
+    }
+
+    case "historicalDetails.architecturalStyle": {
+      const validStyles = ["Baroque", "Neo-Gothic", "Byzantine", "Neo-Classical", "Modern", "Mixed Styles", "Other"];
+      if (validStyles.includes(str)) return { value: str, confidence: 0.9 };
+      return { value: str, confidence: 0.5 };
+    }
+
+    case "contactInfo.email": {
+      if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(str)) return { value: str, confidence: 0.9 };
+      return { value: str, confidence: 0.3 };
+    }
+
+    case "contactInfo.phone": {
+      const digits = str.replace(/[^0-9]/g, "");
+      if (digits.length < 7) return { value: str, confidence: 0.4 };
+      // Normalize to +63 format: strip leading 0 (domestic trunk prefix)
+      let normalized = str.trim();
+      if (normalized.startsWith("0")) {
+        normalized = "+63 " + normalized.replace(/^0+/, "");
+      } else if (/^\d/.test(normalized) && !normalized.startsWith("+")) {
+        normalized = "+63 " + normalized;
+      } else if (normalized.startsWith("+63")) {
+        normalized = normalized.replace(/^(\+63\s*)0+/, "$1");
+      }
+      return { value: normalized, confidence: 0.85 };
+    }
+
+    case "historicalDetails.historicalBackground":
+    case "historicalDetails.architecturalFeatures":
+    case "historicalDetails.heritageInformation": {
+      if (str.length > 100) return { value: str, confidence: 0.85 };
+      if (str.length > 30) return { value: str, confidence: 0.7 };
+      return { value: str, confidence: 0.5 };
+    }
+
+    case "massSchedules": {
+      if (Array.isArray(value) && value.length > 0) return { value, confidence: 0.8 };
+      return { value, confidence: 0.4 };
+    }
+
+    case "coordinates": {
+      // Valid points outside Bohol are kept but flagged with a low score
+      const { lat, lng } = value as { lat: number; lng: number };
+      if (isWithinBohol(lat, lng)) return { value, confidence: 0.9 };
+      return { value, confidence: 0.3 };
+    }
+
+    default:
+      return { value, confidence: 0.7 };
+  }
+};
+
+const MAX_SNIPPET_LENGTH = 500;
+
+export interface ParsedChurchImport {
+  parsedData: Record<string, unknown>;
+  confidence: Record<string, number>;
+  sourceSnippets: Record<string, string>;
+}
+
+export const buildParsedDataFromText = (text: string): ParsedChurchImport => {
+  const fieldValues = preprocessText(text);
+  const parsedData: Record<string, any> = {};
+  const confidence: Record<string, number> = {};
+  // Original text each field was extracted from, shown in the merge preview
+  const sourceSnippets: Record<string, string> = {};
+
+  // Mapping: field path -> list of label aliases (lowercase) to search in the map
+  const fieldMap: Array<{ path: string; labels: string[]; transform?: (v: string) => unknown }> = [
+    { path: "parishName", labels: ["parish name", "parish"] },
+    { path: "churchName", labels: ["church name", "church"] },
+    { path: "locationDetails.streetAddress", labels: ["street address", "address"] },
+    { path: "locationDetails.barangay", labels: ["barangay"] },
+    { path: "locationDetails.municipality", labels: ["municipality", "city", "town"] },
+    { path: "locationDetails.province", labels: ["province"] },
+    { path: "currentParishPriest", labels: ["current parish priest", "parish priest", "current priest", "priest", "parish administrator"] },
+    { path: "feastDay", labels: ["feast day", "patron feast day"] },
+    { path: "historicalDetails.foundingYear", labels: ["founding year", "year founded", "year established", "year built", "date established", "date founded", "construction year", "founded"] },
+    { path: "historicalDetails.founders", labels: ["founders", "founded by", "founding organization"] },
+    { path: "historicalDetails.architecturalStyle", labels: ["architectural style", "architecture"], transform: normalizeArchitecturalStyle },
+    { path: "historicalDetails.heritageClassification", labels: ["heritage classification", "heritage class"], transform: normalizeHeritageClassification },
+    { path: "historicalDetails.religiousClassifications", labels: ["religious classification", "religious class"], transform: (v) => { const arr = parseReligiousClassifications(v); return arr.length > 0 ? arr : undefined; } },
+    { path: "historicalDetails.historicalBackground", labels: ["historical background", "church history", "history"] },
+    { path: "historicalDetails.architecturalFeatures", labels: ["architectural information", "architectural features", "design features", "building features", "notable features"] },
+    { path: "historicalDetails.heritageInformation", labels: ["heritage information", "heritage details", "heritage status", "cultural significance"] },
+    { path: "contactInfo.phone", labels: ["contact phone", "contact number", "contact #", "phone", "telephone", "mobile number", "mobile", "tel"] },
+    { path: "contactInfo.email", labels: ["contact email", "email"] },
+    { path: "contactInfo.website", labels: ["official website", "website"] },
+    { path: "contactInfo.facebookPage", labels: ["facebook page", "facebook"] },
+    { path: "massSchedules", labels: ["mass schedules", "mass schedule", "schedule of masses", "worship schedule"], transform: (v) => { const arr = parseMassSchedules(v); return arr.length > 0 ? arr : undefined; } },
+    { path: "coordinates", labels: ["gps coordinates", "coordinates"], transform: (v) => parseCoordinates(v) ?? undefined }
+  ];
+
+  fieldMap.forEach(({ path, labels, transform }) => {
+    // Try each label alias — first match wins
+    for (const label of labels) {
+      const raw = fieldValues.get(label);
+      if (raw) {
+        const value = transform ? transform(raw) : raw;
+        if (value !== undefined && value !== "") {
+          const validated = validateAndScore(path, value);
+          if (validated.value !== undefined && validated.value !== "") {
+            setNestedValue(parsedData, path, validated.value);
+            confidence[path] = validated.confidence;
+            sourceSnippets[path] = raw.length > MAX_SNIPPET_LENGTH ? `${raw.slice(0, MAX_SNIPPET_LENGTH)}…` : raw;
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  // Latitude and longitude on separate lines
+  const latitude = fieldValues.get("latitude");
+  const longitude = fieldValues.get("longitude");
+  if (!parsedData.coordinates && latitude && longitude) {
+    const coordinates = parseCoordinates(`${latitude}, ${longitude}`);
+    if (coordinates) {
+      const validated = validateAndScore("coordinates", coordinates);
+      parsedData.coordinates = coordinates;
+      confidence.coordinates = validated.confidence;
+      sourceSnippets.coordinates = `Latitude: ${latitude}\nLongitude: ${longitude}`;
+    }
+  }
+
+  return { parsedData, confidence, sourceSnippets };
+};
@@ -0,0 +1,154 @@
+/**
+ * FILE PURPOSE: Church Version Snapshot Content
+ *
+ * A church version (churches/{churchId}/versions/{versionId}) keeps a copy of
+ * the church's content after an approval, an applied pending change or a
+ * rollback. Versions are written only by the snapshotChurchVersion trigger
+ * on churches/{churchId}, from the church as it was saved, so a reviewer
+ * cannot store a snapshot that differs from what was approved.
+ *
+ * The dashboard uses getVersionedContent() to diff versions and to decide
+ * which fields a rollback restores; the trigger uses getChurchVersionEvent()
+ * to decide whether a church update is worth a version.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ChurchVersionReason =
+  | "approval"                  // Church approved (Chancery or Museum)
+  | "pending_changes_applied"   // Staged update approved as a whole
+  | "pending_changes_reviewed"  // Staged update reviewed field by field
+  | "rollback";                 // Earlier version restored by Chancery
+
+export const CHURCH_VERSIONS_COLLECTION = "versions";
+
+// =============================================================================
+// SNAPSHOT CONTENT
+// =============================================================================
+
+/**
+ * Workflow and bookkeeping fields. These are not part of a church's content,
+ * so they are left out of diffs and never overwritten by a rollback.
+ */
+export const NON_VERSIONED_FIELDS = [
+  "id",
+  "status",
+  "diocese",
+  "parishId",
+  "createdAt",
+  "createdBy",
+  "updatedAt",
+  "submittedAt",
+  "approvedAt",
+  "reviewedAt",
+  "reviewedBy",
+  "reviewNotes",
+  "lastReviewedBy",
+  "lastReviewNote",
+  "lastStatusChange",
+  "lastHeritageUpdate",
+  "heritageResearcher",
+  "pendingChanges",
+  "hasPendingChanges",
+  "pendingChangesReview",
+  "revisionRequest",
+  "reviewClaim",
+  "slaEscalation",
+  "heritageAssessment",
+  "lastRollback",
+  "unpublishReason",
+  "unpublishedAt",
+  "unpublishedBy",
+  "visitCount",
+  "monthlyVisitors",
+  "averageRating",
+];
+
+/**
+ * Keeps only the content fields of a church document.
+ */
+export function getVersionedContent(data: Record<string, unknown>): Record<string, unknown> {
+  const content: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!NON_VERSIONED_FIELDS.includes(key) && value !== undefined) {
+      content[key] = value;
+    }
+  }
+  return content;
+}
+
+/**
+ * Compares content values regardless of object key order.
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+export const hasSameVersionedContent = (
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): boolean => stableStringify(getVersionedContent(a)) === stableStringify(getVersionedContent(b));
+
+// =============================================================================
+// VERSION EVENTS
+// =============================================================================
+
+/**
+ * Written by the dashboard alongside a rollback so the trigger can tell it
+ * apart from other edits of an approved church.
+ */
+export interface ChurchRollbackMarker {
+  restoredFromVersion: number;
+  note?: string;
+  rolledBackAt: unknown;        // Timestamp, so rolling back to the same version again is seen
+}
+
+export interface ChurchVersionEvent {
+  reason: ChurchVersionReason;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Decides whether a church update should be saved as a version:
+ * - pendingChanges cleared with new content is a staged update, reviewed
+ *   field by field when pendingChangesReview was written in the same update
+ *   (this includes legacy heritage_review churches restored to approved)
+ * - any other change into 'approved' is an approval
+ * - an approved church with a new lastRollback marker and new content is a
+ *   rollback (the trigger still checks the content matches that version)
+ * Other edits, such as direct-publish fields, are not versioned.
+ */
+export function getChurchVersionEvent(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ChurchVersionEvent | null {
+  if (after.status !== "approved") return null;
+  const contentChanged = !hasSameVersionedContent(before, after);
+
+  if (before.pendingChanges && !after.pendingChanges && contentChanged) {
+    const reviewed = !!after.pendingChangesReview &&
+      stableStringify(after.pendingChangesReview) !== stableStringify(before.pendingChangesReview);
+    return { reason: reviewed ? "pending_changes_reviewed" : "pending_changes_applied" };
+  }
+  if (before.status !== "approved") return { reason: "approval" };
+
+  const rollback = after.lastRollback as ChurchRollbackMarker | undefined;
+  if (
+    contentChanged &&
+    rollback &&
+    Number.isInteger(rollback.restoredFromVersion) &&
+    stableStringify(rollback) !== stableStringify(before.lastRollback)
+  ) {
+    return { reason: "rollback", restoredFromVersion: rollback.restoredFromVersion };
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+/**
+ * FILE PURPOSE: Email Languages
+ *
+ * Transactional and notification emails are written in English, Filipino and
+ * Cebuano. A user's choice is stored as emailLocale on their users document;
+ * callers of the email Cloud Functions may also pass a locale explicitly.
+ */
+
+export type EmailLocale = "en" | "fil" | "ceb";
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = "en";
+
+export const EMAIL_LOCALES: { code: EmailLocale; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "fil", label: "Filipino" },
+  { code: "ceb", label: "Cebuano (Binisaya)" },
+];
+
+// Language tags and names people actually send, e.g. "tl-PH" or "Bisaya"
+const LOCALE_ALIASES: Record<string, EmailLocale> = {
+  en: "en",
+  english: "en",
+  fil: "fil",
+  filipino: "fil",
+  tl: "fil",
+  tagalog: "fil",
+  ceb: "ceb",
+  cebuano: "ceb",
+  bisaya: "ceb",
+  binisaya: "ceb",
+};
+
+export const isEmailLocale = (value: unknown): value is EmailLocale =>
+  value === "en" || value === "fil" || value === "ceb";
+
+/**
+ * Email locale for a stored or requested language, or null when the value
+ * is not a supported language.
+ */
+export function parseEmailLocale(value: unknown): EmailLocale | null {
+  if (typeof value !== "string") return null;
+  const tag = value.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALE_ALIASES[tag] || LOCALE_ALIASES[value.trim().toLowerCase()] || null;
+}
@@ -0,0 +1,77 @@
+/**
+ * FILE PURPOSE: Email Outbox Rules
+ *
+ * Cloud Functions never send email inline. Senders add a message to the
+ * email_outbox collection; processEmailOutbox delivers it, retrying failures
+ * with exponential backoff until MAX_EMAIL_ATTEMPTS, after which the message
+ * is dead-lettered for the chancery to inspect and requeue.
+ *
+ * Gmail allows EMAIL_DAILY_QUOTA messages per day. Deliveries are counted per
+ * Manila calendar day in email_quota/{YYYY-MM-DD}; once the count reaches
+ * EMAIL_DAILY_QUOTA - URGENT_EMAIL_RESERVE, normal-priority mail is deferred
+ * to the next day so password resets and verifications still go out.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmailOutboxStatus =
+  | "queued"      // Waiting for its first attempt
+  | "sending"     // Claimed by a processor (lease until nextAttemptAt)
+  | "retrying"    // Failed, next attempt at nextAttemptAt
+  | "deferred"    // Held back by the daily quota until nextAttemptAt
+  | "sent"
+  | "dead";       // Permanent failure or out of attempts
+
+export type EmailPriority = "urgent" | "normal";
+
+export const EMAIL_OUTBOX_STATUSES: EmailOutboxStatus[] = ["queued", "sending", "retrying", "deferred", "sent", "dead"];
+
+// Statuses the processor picks up again once nextAttemptAt has passed
+export const PENDING_EMAIL_STATUSES: EmailOutboxStatus[] = ["queued", "sending", "retrying", "deferred"];
+
+// =============================================================================
+// RETRIES
+// =============================================================================
+
+export const MAX_EMAIL_ATTEMPTS = 6;
+
+const RETRY_BASE_MS = 60 * 1000;             // 1, 2, 4, 8, 16 minutes...
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;     // ...capped at 6 hours
+
+// How long a processor may hold a message in "sending" before another may retry it
+export const EMAIL_SENDING_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts.
+ */
+export const getEmailRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+// =============================================================================
+// DAILY QUOTA
+// =============================================================================
+
+export const EMAIL_DAILY_QUOTA = 500;
+export const URGENT_EMAIL_RESERVE = 50;
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quota document ID for the Manila calendar day of `now`, e.g. "2026-03-02"
+export const getEmailQuotaDay = (now: Date): string =>
+  new Date(now.getTime() + MANILA_OFFSET_MS).toISOString().slice(0, 10);
+
+// Start of the next Manila calendar day, when the quota resets
+export const getNextEmailQuotaReset = (now: Date): Date => {
+  const local = now.getTime() + MANILA_OFFSET_MS;
+  return new Date(Math.floor(local / DAY_MS) * DAY_MS + DAY_MS - MANILA_OFFSET_MS);
+};
+
+/**
+ * Can a message of this priority be sent when `sentToday` messages have
+ * already gone out today?
+ */
+export const hasEmailQuota = (sentToday: number, priority: EmailPriority): boolean =>
+  sentToday < (priority === "urgent" ? EMAIL_DAILY_QUOTA : EMAIL_DAILY_QUOTA - URGENT_EMAIL_RESERVE);
@@ -0,0 +1,130 @@
+/**
+ * FILE PURPOSE: Feedback Flags and Appeals
+ *
+ * Visitors (from the mobile app) and parish secretaries can flag published
+ * feedback they consider abusive. Each flag is a record in
+ * feedback_flags/{feedbackId}_{reporterId}, so one person flags a feedback
+ * at most once. When the open flags on a feedback reach the diocese
+ * threshold (feedback_settings/{diocese}.autoHideFlagCount), the
+ * onFeedbackFlagCreated Cloud Function hides it until the chancery reviews it.
+ *
+ * The visitor who wrote hidden feedback can ask for it to be re-reviewed with
+ * an appeal in feedback_appeals/{feedbackId}. The chancery either reinstates
+ * the feedback (its open flags are dismissed) or keeps it hidden (the flags
+ * are upheld). A visitor can appeal again only after the feedback was hidden
+ * again following the last decision.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FeedbackFlagReason =
+  | "offensive"
+  | "harassment"
+  | "spam"
+  | "false_information"
+  | "off_topic"
+  | "other";
+
+export type FeedbackFlagReporterRole = "visitor" | "parish";
+export type FeedbackFlagStatus = "open" | "upheld" | "dismissed";
+export type FeedbackAppealStatus = "pending" | "reinstated" | "upheld";
+
+// Why hidden feedback is hidden: by a chancery moderator, or automatically after flags
+export type FeedbackHiddenReason = "moderator" | "flags";
+
+export const FEEDBACK_FLAG_REASONS: FeedbackFlagReason[] = [
+  "offensive",
+  "harassment",
+  "spam",
+  "false_information",
+  "off_topic",
+  "other",
+];
+
+export const FEEDBACK_FLAG_REASON_LABELS: Record<FeedbackFlagReason, string> = {
+  offensive: "Offensive or hateful language",
+  harassment: "Harassment or personal attack",
+  spam: "Spam or advertising",
+  false_information: "False or misleading",
+  off_topic: "Not about this church",
+  other: "Other",
+};
+
+export const FEEDBACK_FLAG_STATUS_LABELS: Record<FeedbackFlagStatus, string> = {
+  open: "Open",
+  upheld: "Upheld",
+  dismissed: "Dismissed",
+};
+
+export const FEEDBACK_APPEAL_STATUS_LABELS: Record<FeedbackAppealStatus, string> = {
+  pending: "Awaiting review",
+  reinstated: "Reinstated",
+  upheld: "Kept hidden",
+};
+
+// =============================================================================
+// LIMITS AND SETTINGS
+// =============================================================================
+
+export const FEEDBACK_FLAGS_COLLECTION = "feedback_flags";
+export const FEEDBACK_APPEALS_COLLECTION = "feedback_appeals";
+export const FEEDBACK_SETTINGS_COLLECTION = "feedback_settings";
+
+// Open flags that hide published feedback when no diocese setting exists
+export const DEFAULT_AUTO_HIDE_FLAG_COUNT = 3;
+export const MAX_AUTO_HIDE_FLAG_COUNT = 50;
+
+export const MAX_FLAG_DETAILS_LENGTH = 500;
+export const MAX_APPEAL_MESSAGE_LENGTH = 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Flag document ID: one flag per reporter per feedback.
+ */
+export const feedbackFlagId = (feedbackId: string, reporterId: string): string =>
+  `${feedbackId}_${reporterId}`;
+
+export const isFeedbackFlagReason = (value: unknown): value is FeedbackFlagReason =>
+  FEEDBACK_FLAG_REASONS.includes(value as FeedbackFlagReason);
+
+/**
+ * Auto-hide threshold from a stored setting, falling back to the default for
+ * missing or out-of-range values.
+ */
+export const normalizeAutoHideFlagCount = (value: unknown): number => {
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 1 && count <= MAX_AUTO_HIDE_FLAG_COUNT
+    ? count
+    : DEFAULT_AUTO_HIDE_FLAG_COUNT;
+};
+
+/**
+ * Should feedback be hidden automatically? Only published feedback is hidden;
+ * feedback that is pending or already hidden is left to the chancery.
+ */
+export const shouldAutoHideFeedback = (
+  feedbackStatus: string | undefined,
+  openFlagCount: number,
+  threshold: number
+): boolean => (feedbackStatus || "published") === "published" && openFlagCount >= threshold;
+
+/**
+ * How many open flags per reason, most common first.
+ */
+export const countFlagReasons = (
+  flags: Array<{ reason: FeedbackFlagReason; status: FeedbackFlagStatus }>
+): Array<{ reason: FeedbackFlagReason; count: number }> => {
+  const counts = new Map<FeedbackFlagReason, number>();
+  flags
+    .filter((flag) => flag.status === "open")
+    .forEach((flag) => counts.set(flag.reason, (counts.get(flag.reason) || 0) + 1));
+
+  return [...counts.entries()]
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count || FEEDBACK_FLAG_REASONS.indexOf(a.reason) - FEEDBACK_FLAG_REASONS.indexOf(b.reason));
+};
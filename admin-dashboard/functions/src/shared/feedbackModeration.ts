@@ -0,0 +1,364 @@
+/**
+ * FILE PURPOSE: Automatic Feedback Moderation
+ *
+ * The mobile app saves every review with status "pending". The
+ * onFeedbackCreated Cloud Function runs moderateFeedbackText() on it before
+ * anything is published: clean feedback is published right away, anything
+ * else stays pending in the chancery's review queue together with the
+ * verdict, so reviewers can see why it was held and which terms were flagged.
+ *
+ * Checks:
+ * - language:  profanity and slurs from English, Filipino and Cebuano wordlists
+ * - spam:      links and repeated text
+ * - burst:     too many submissions from one pub_user_id in a short window
+ * - duplicate: near-copies of the same user's earlier feedback, or long
+ *              copy-pasted text already posted for the same church
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FeedbackModerationCheck = "language" | "spam" | "burst" | "duplicate";
+export type FeedbackModerationDecision = "publish" | "review";
+
+export interface FeedbackModerationReason {
+  check: FeedbackModerationCheck;
+  code: "profanity" | "slur" | "link" | "repeated_text" | "burst" | "near_duplicate";
+  message: string;
+  terms?: string[];                 // Flagged text exactly as written in the feedback
+  relatedFeedbackId?: string;       // The earlier feedback a duplicate matches
+}
+
+export interface FeedbackModerationCheckResult {
+  check: FeedbackModerationCheck;
+  passed: boolean;
+  reasons: FeedbackModerationReason[];
+}
+
+export interface FeedbackModerationVerdict {
+  version: number;
+  decision: FeedbackModerationDecision;
+  checks: FeedbackModerationCheckResult[];
+  reasons: FeedbackModerationReason[];    // Reasons of every failed check
+  flaggedTerms: string[];                 // For highlighting in the review queue
+}
+
+// Earlier feedback the new submission is compared with
+export interface PriorFeedback {
+  id: string;
+  text: string;
+  submittedAt: Date | null;
+  sameUser: boolean;                      // Submitted by the same pub_user_id
+}
+
+export interface FeedbackModerationInput {
+  subject?: string;                       // Checked for language and spam only
+  text: string;                           // The comment itself
+  previous: PriorFeedback[];
+  now: Date;
+}
+
+// Bump when the checks change, so stored verdicts show which rules produced them
+export const FEEDBACK_MODERATION_VERSION = 1;
+
+export const FEEDBACK_MODERATION_CHECK_LABELS: Record<FeedbackModerationCheck, string> = {
+  language: "Profanity & slurs",
+  spam: "Spam",
+  burst: "Burst submissions",
+  duplicate: "Near-duplicate",
+};
+
+// =============================================================================
+// WORDLISTS
+// =============================================================================
+
+type WordlistLanguage = "en" | "fil" | "ceb";
+
+const LANGUAGE_NAMES: Record<WordlistLanguage, string> = {
+  en: "English",
+  fil: "Filipino",
+  ceb: "Cebuano",
+};
+
+// Words are matched as whole words after normalization (see normalizeWord),
+// so spelling variants only need listing when they differ by more than case,
+// accents, doubled letters or leetspeak digits.
+const WORDLISTS: Record<WordlistLanguage, { profanity: string[]; slurs: string[] }> = {
+  en: {
+    profanity: [
+      "fuck", "fucking", "fucker", "fucked", "motherfucker", "fck", "fk", "wtf", "stfu",
+      "shit", "shitty", "bullshit", "bitch", "asshole", "bastard", "dick", "dickhead",
+      "cunt", "whore", "slut", "pussy", "cock", "wanker", "twat", "jackass",
+    ],
+    slurs: [
+      "nigger", "nigga", "faggot", "fag", "retard", "retarded", "chink", "spic", "kike", "tranny",
+    ],
+  },
+  fil: {
+    profanity: [
+      "putangina", "putanginamo", "tangina", "tanginamo", "putang", "puta", "pota", "pakyu",
+      "gago", "gaga", "gagu", "tarantado", "tarantada", "ulol", "ulul", "bobo", "tanga",
+      "leche", "letse", "punyeta", "kupal", "hinayupak", "lintik", "pokpok", "burat",
+      "pekpek", "kantot", "tamod",
+    ],
+    slurs: ["abnoy", "ulikba"],
+  },
+  ceb: {
+    profanity: [
+      "yawa", "yawaa", "pisteng", "piste", "pisti", "pistingyawa", "giatay", "buang", "boang",
+      "bilat", "oten", "otin", "yati", "pakshet", "amaw", "animala", "iyot",
+    ],
+    slurs: ["abnoy"],
+  },
+};
+
+interface WordlistEntry {
+  language: WordlistLanguage;
+  kind: "profanity" | "slur";
+}
+
+const LEETSPEAK: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s",
+};
+
+// Words, including leetspeak symbols that stand in for letters ("sh!t" is not covered)
+const WORD_PATTERN = /[\p{L}\p{N}@$]+/gu;
+
+/**
+ * Comparable form of a word: lower case, no accents, leetspeak digits
+ * replaced, runs of the same letter collapsed ("Fuuuck", "f0ck" -> "fuck").
+ */
+export const normalizeWord = (word: string): string =>
+  word
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[013457@$]/g, (c) => LEETSPEAK[c])
+    .replace(/[^a-z]/g, "")
+    .replace(/(.)\1+/g, "$1");
+
+const WORD_INDEX: Map<string, WordlistEntry> = (() => {
+  const index = new Map<string, WordlistEntry>();
+  (Object.keys(WORDLISTS) as WordlistLanguage[]).forEach((language) => {
+    // Slurs first so a word on both lists is reported as the more serious one
+    WORDLISTS[language].slurs.forEach((word) => {
+      const key = normalizeWord(word);
+      if (!index.has(key)) index.set(key, { language, kind: "slur" });
+    });
+  });
+  (Object.keys(WORDLISTS) as WordlistLanguage[]).forEach((language) => {
+    WORDLISTS[language].profanity.forEach((word) => {
+      const key = normalizeWord(word);
+      if (!index.has(key)) index.set(key, { language, kind: "profanity" });
+    });
+  });
+  return index;
+})();
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+// Burst: more than FEEDBACK_BURST_LIMIT submissions within the window
+export const FEEDBACK_BURST_LIMIT = 3;
+export const FEEDBACK_BURST_WINDOW_MS = 10 * 60 * 1000;
+
+// Near-duplicates: trigram similarity, stricter for other users' feedback
+const MIN_DUPLICATE_LENGTH = 12;
+const SAME_USER_SIMILARITY = 0.8;
+const OTHER_USER_SIMILARITY = 0.9;
+const OTHER_USER_MIN_LENGTH = 40;
+
+const LINK_PATTERN =
+  /(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|ph|info|biz|xyz|io|ly|me|co|site|online|shop|top)\b(?:\/\S*)?/gi;
+
+const uniqueStrings = (values: string[]): string[] => Array.from(new Set(values));
+
+const checkLanguage = (text: string): FeedbackModerationReason[] => {
+  const found = new Map<string, { entry: WordlistEntry; terms: string[] }>();
+  (text.match(WORD_PATTERN) || []).forEach((word) => {
+    const entry = WORD_INDEX.get(normalizeWord(word));
+    if (!entry) return;
+    const key = `${entry.kind}:${entry.language}`;
+    const group = found.get(key) || { entry, terms: [] };
+    group.terms.push(word);
+    found.set(key, group);
+  });
+
+  return Array.from(found.values()).map(({ entry, terms }) => ({
+    check: "language" as const,
+    code: entry.kind,
+    message: `${entry.kind === "slur" ? "Slur" : "Profanity"} (${LANGUAGE_NAMES[entry.language]})`,
+    terms: uniqueStrings(terms),
+  }));
+};
+
+const checkSpam = (text: string): FeedbackModerationReason[] => {
+  const reasons: FeedbackModerationReason[] = [];
+
+  const links = text.match(LINK_PATTERN) || [];
+  if (links.length > 0) {
+    reasons.push({
+      check: "spam",
+      code: "link",
+      message: links.length === 1 ? "Contains a link" : `Contains ${links.length} links`,
+      terms: uniqueStrings(links),
+    });
+  }
+
+  const words = (text.match(WORD_PATTERN) || []).map((word) => word.toLowerCase());
+  const characterRun = text.match(/(\S)\1{7,}/);
+  let longestWordRun = 1;
+  for (let i = 1, run = 1; i < words.length; i++) {
+    run = words[i] === words[i - 1] ? run + 1 : 1;
+    longestWordRun = Math.max(longestWordRun, run);
+  }
+  const distinctRatio = words.length > 0 ? new Set(words).size / words.length : 1;
+
+  if (characterRun) {
+    reasons.push({
+      check: "spam",
+      code: "repeated_text",
+      message: "Long run of one repeated character",
+      terms: [characterRun[0]],
+    });
+  } else if (longestWordRun >= 4 || (words.length >= 8 && distinctRatio < 0.4)) {
+    reasons.push({
+      check: "spam",
+      code: "repeated_text",
+      message: "The same words are repeated over and over",
+    });
+  }
+
+  return reasons;
+};
+
+const checkBurst = (previous: PriorFeedback[], now: Date): FeedbackModerationReason[] => {
+  const recent = previous.filter((feedback) =>
+    feedback.sameUser &&
+    feedback.submittedAt !== null &&
+    now.getTime() - feedback.submittedAt.getTime() <= FEEDBACK_BURST_WINDOW_MS
+  );
+  const submissions = recent.length + 1;
+  if (submissions <= FEEDBACK_BURST_LIMIT) return [];
+
+  return [{
+    check: "burst",
+    code: "burst",
+    message: `${submissions} submissions from this visitor within ${FEEDBACK_BURST_WINDOW_MS / 60000} minutes`,
+  }];
+};
+
+// Lower-case letters and digits with single spaces, for similarity comparison
+const normalizeForComparison = (text: string): string =>
+  (text.match(WORD_PATTERN) || []).map((word) => word.toLowerCase()).join(" ");
+
+const trigrams = (text: string): Set<string> => {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) grams.add(text.slice(i, i + 3));
+  return grams;
+};
+
+/**
+ * Jaccard similarity (0-1) of the character trigrams of two texts.
+ */
+export const getTextSimilarity = (a: string, b: string): number => {
+  const gramsA = trigrams(normalizeForComparison(a));
+  const gramsB = trigrams(normalizeForComparison(b));
+  if (gramsA.size === 0 || gramsB.size === 0) return 0;
+  let shared = 0;
+  gramsA.forEach((gram) => {
+    if (gramsB.has(gram)) shared++;
+  });
+  return shared / (gramsA.size + gramsB.size - shared);
+};
+
+const checkDuplicate = (text: string, previous: PriorFeedback[]): FeedbackModerationReason[] => {
+  const length = normalizeForComparison(text).length;
+  if (length < MIN_DUPLICATE_LENGTH) return [];
+
+  let best: { feedback: PriorFeedback; similarity: number } | null = null;
+  for (const feedback of previous) {
+    if (!feedback.sameUser && length < OTHER_USER_MIN_LENGTH) continue;
+    const similarity = getTextSimilarity(text, feedback.text);
+    const threshold = feedback.sameUser ? SAME_USER_SIMILARITY : OTHER_USER_SIMILARITY;
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { feedback, similarity };
+    }
+  }
+  if (!best) return [];
+
+  const { feedback, similarity } = best;
+  return [{
+    check: "duplicate",
+    code: "near_duplicate",
+    message: `${Math.round(similarity * 100)}% similar to earlier feedback ${feedback.sameUser ? "from this visitor" : "for this church"}`,
+    relatedFeedbackId: feedback.id,
+  }];
+};
+
+// =============================================================================
+// VERDICT
+// =============================================================================
+
+/**
+ * Run every check on a new submission. Feedback is published only when all
+ * checks pass; otherwise it is held for chancery review with the reasons.
+ */
+export function moderateFeedbackText({ subject, text, previous, now }: FeedbackModerationInput): FeedbackModerationVerdict {
+  const fullText = subject ? `${subject}\n${text}` : text;
+  const results: [FeedbackModerationCheck, FeedbackModerationReason[]][] = [
+    ["language", checkLanguage(fullText)],
+    ["spam", checkSpam(fullText)],
+    ["burst", checkBurst(previous, now)],
+    ["duplicate", checkDuplicate(text, previous)],
+  ];
+
+  const checks = results.map(([check, reasons]) => ({ check, passed: reasons.length === 0, reasons }));
+  const reasons = checks.flatMap((result) => result.reasons);
+
+  return {
+    version: FEEDBACK_MODERATION_VERSION,
+    decision: reasons.length === 0 ? "publish" : "review",
+    checks,
+    reasons,
+    flaggedTerms: uniqueStrings(reasons.flatMap((reason) => reason.terms || [])),
+  };
+}
+
+// =============================================================================
+// HIGHLIGHTING
+// =============================================================================
+
+export interface FlaggedTextSegment {
+  text: string;
+  flagged: boolean;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Split feedback text into plain and flagged segments so the review queue
+ * can highlight the terms that held it back.
+ */
+export function splitFlaggedTerms(text: string, terms: string[]): FlaggedTextSegment[] {
+  const pattern = terms
+    .filter((term) => term.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  if (!pattern) return [{ text, flagged: false }];
+
+  const segments: FlaggedTextSegment[] = [];
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}])(?:${pattern})(?![\\p{L}\\p{N}])`, "giu");
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = matcher.exec(text)) !== null) {
+    if (match.index > last) segments.push({ text: text.slice(last, match.index), flagged: false });
+    segments.push({ text: match[0], flagged: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), flagged: false });
+  return segments;
+}
@@ -0,0 +1,104 @@
+/**
+ * FILE PURPOSE: Feedback Reply Threads
+ *
+ * Parish secretaries and the chancery answer visitor feedback with official
+ * replies in feedback/{feedbackId}/replies. Replies form threads through
+ * parentReplyId, so the visitor who wrote the feedback can answer an official
+ * reply and the parish can follow up. Each reply keeps its edit history; its
+ * author can hide it from the public (visible) and the chancery can take it
+ * down (status "hidden").
+ *
+ * The onFeedbackReplyWritten Cloud Function keeps a summary on the feedback
+ * document (hasResponse, response, responseDate, replyCount, firstResponseAt)
+ * that the mobile app shows as the official reply, and that the dashboard
+ * uses for the reply rate and response time metrics below.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FeedbackReplyAuthorRole = "parish" | "chancery_office" | "visitor";
+export type FeedbackReplyStatus = "published" | "hidden";
+
+export interface FeedbackReplyVisibility {
+  visible: boolean;                // Author's public/private toggle
+  status: FeedbackReplyStatus;     // Chancery moderation
+}
+
+export const FEEDBACK_REPLY_ROLE_LABELS: Record<FeedbackReplyAuthorRole, string> = {
+  parish: "Parish",
+  chancery_office: "Chancery",
+  visitor: "Visitor",
+};
+
+// Replies that count as the church answering the visitor
+export const OFFICIAL_REPLY_ROLES: FeedbackReplyAuthorRole[] = ["parish", "chancery_office"];
+
+export const MAX_FEEDBACK_REPLY_LENGTH = 2000;
+
+export const isOfficialReply = (reply: { authorRole: string }): boolean =>
+  OFFICIAL_REPLY_ROLES.includes(reply.authorRole as FeedbackReplyAuthorRole);
+
+/**
+ * Shown to the public (and in the mobile app): the author left it visible
+ * and the chancery has not hidden it.
+ */
+export const isPublicReply = (reply: FeedbackReplyVisibility): boolean =>
+  reply.visible && reply.status === "published";
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+export interface FeedbackReplyTiming {
+  submittedAt: Date | null;
+  firstResponseAt: Date | null;    // First official reply, public or not
+}
+
+export interface FeedbackReplyMetrics {
+  total: number;
+  replied: number;
+  replyRate: number;                       // 0-1
+  averageResponseHours: number | null;     // null when nothing was answered
+  medianResponseHours: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Reply rate and response time (submission to first official reply) for a
+ * set of feedback.
+ */
+export function computeFeedbackReplyMetrics(feedback: FeedbackReplyTiming[]): FeedbackReplyMetrics {
+  const responseHours = feedback
+    .filter((item) => item.submittedAt && item.firstResponseAt)
+    .map((item) => Math.max(0, (item.firstResponseAt!.getTime() - item.submittedAt!.getTime()) / HOUR_MS))
+    .sort((a, b) => a - b);
+  const replied = feedback.filter((item) => item.firstResponseAt).length;
+  const middle = Math.floor(responseHours.length / 2);
+
+  return {
+    total: feedback.length,
+    replied,
+    replyRate: feedback.length > 0 ? replied / feedback.length : 0,
+    averageResponseHours: responseHours.length > 0
+      ? responseHours.reduce((sum, hours) => sum + hours, 0) / responseHours.length
+      : null,
+    medianResponseHours: responseHours.length === 0
+      ? null
+      : responseHours.length % 2 === 1
+        ? responseHours[middle]
+        : (responseHours[middle - 1] + responseHours[middle]) / 2,
+  };
+}
+
+/**
+ * Response time for display, e.g. "45 min", "5.5 hours", "3.2 days".
+ */
+export function formatResponseTime(hours: number | null): string {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10} hours`;
+  return `${Math.round((hours / 24) * 10) / 10} days`;
+}
@@ -0,0 +1,347 @@
+/**
+ * FILE PURPOSE: Feedback Topic and Sentiment Tagging
+ *
+ * Tags a visitor's feedback comment with the topics it talks about (restrooms,
+ * parking, guide availability, ...) and a sentiment score, so parishes and the
+ * chancery can see themes across hundreds of comments instead of reading them
+ * one by one. Entirely offline and lexicon based: keyword lists per topic and
+ * a small weighted sentiment lexicon in English, Filipino and Cebuano, with
+ * negation ("not clean", "dili limpyo") and intensifiers ("very", "kaayo").
+ *
+ * Each clause is scored on its own, so "beautiful church but the restroom was
+ * dirty" is positive overall while the restroom topic is negative.
+ *
+ * The onFeedbackCreated Cloud Function stores the tags on new feedback and
+ * backfillFeedbackTags tags existing feedback. Reports fall back to tagging on
+ * the fly (getFeedbackTags) for feedback that has not been tagged yet.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FeedbackTopic =
+  | "restrooms"
+  | "cleanliness"
+  | "parking"
+  | "guides"
+  | "mass"
+  | "accessibility"
+  | "crowding"
+  | "heritage"
+  | "hospitality"
+  | "safety";
+
+export type FeedbackSentimentLabel = "positive" | "neutral" | "negative";
+
+export type FeedbackTopicCounts = Partial<Record<FeedbackTopic, number>>;
+
+export interface FeedbackTags {
+  version: number;
+  topics: FeedbackTopic[];
+  topicSentiment: Partial<Record<FeedbackTopic, number>>;   // -1 to 1, per topic
+  sentiment: number;                                         // -1 (negative) to 1 (positive)
+  sentimentLabel: FeedbackSentimentLabel;
+}
+
+export interface FeedbackTopicSummary {
+  topic: FeedbackTopic;
+  mentions: number;
+  share: number;                   // 0-1 of all tagged feedback
+  averageSentiment: number;
+  negative: number;                // Mentions with negative topic sentiment
+}
+
+// Bump when the lexicon changes so the backfill re-tags existing feedback
+export const FEEDBACK_TAGS_VERSION = 1;
+
+export const FEEDBACK_TOPIC_LABELS: Record<FeedbackTopic, string> = {
+  restrooms: "Restrooms",
+  cleanliness: "Cleanliness",
+  parking: "Parking",
+  guides: "Guide availability",
+  mass: "Mass & services",
+  accessibility: "Accessibility",
+  crowding: "Crowds & waiting",
+  heritage: "Heritage & architecture",
+  hospitality: "Staff & hospitality",
+  safety: "Safety & security",
+};
+
+export const FEEDBACK_SENTIMENT_LABELS: Record<FeedbackSentimentLabel, string> = {
+  positive: "Positive",
+  neutral: "Neutral",
+  negative: "Negative",
+};
+
+// =============================================================================
+// LEXICON
+// =============================================================================
+
+// Single words also match their plural (+s / +es); phrases match word by word
+const TOPIC_KEYWORDS: Record<FeedbackTopic, string[]> = {
+  restrooms: [
+    "restroom", "toilet", "bathroom", "washroom", "lavatory", "cr", "comfort room",
+    "banyo", "kasilyas", "palikuran", "kubeta",
+  ],
+  cleanliness: [
+    "clean", "cleanliness", "dirty", "unclean", "filthy", "trash", "garbage", "litter", "littered",
+    "dust", "dusty", "smell", "smelly", "stink", "messy", "tidy", "hygiene",
+    "malinis", "linis", "marumi", "madumi", "dumi", "basura", "mabaho", "baho",
+    "limpyo", "hugaw",
+  ],
+  parking: [
+    "parking", "car park", "parking lot", "parking space", "parked", "park the car",
+    "paradahan", "parkingan",
+  ],
+  guides: [
+    "guide", "tour guide", "docent", "guided tour", "tour", "explained", "explanation",
+    "information desk", "gabay", "giya", "tigpasabot",
+  ],
+  mass: [
+    "mass", "masses", "homily", "sermon", "choir", "priest", "confession", "liturgy",
+    "mass schedule", "eucharist", "misa", "simba", "pari", "kumpisal", "koro",
+  ],
+  accessibility: [
+    "wheelchair", "ramp", "stairs", "steps", "elderly", "senior", "seniors", "pwd",
+    "disabled", "accessible", "accessibility", "handicap",
+    "hagdan", "hagdanan", "matanda", "tigulang",
+  ],
+  crowding: [
+    "crowd", "crowded", "queue", "waiting", "packed", "overcrowded", "too many people",
+    "siksikan", "masikip", "sikip", "daghang tawo", "daming tao",
+  ],
+  heritage: [
+    "architecture", "architectural", "heritage", "history", "historic", "historical", "baroque",
+    "coral stone", "facade", "altar", "retablo", "ceiling", "painting", "mural",
+    "restoration", "restored", "ruins", "museum", "antique", "belfry", "bell tower",
+    "kasaysayan", "makasaysayan", "kampanaryo", "karaan",
+  ],
+  hospitality: [
+    "staff", "caretaker", "volunteer", "sacristan", "friendly", "unfriendly", "rude",
+    "welcoming", "hospitable", "accommodating", "helpful", "polite",
+    "mabait", "bastos", "suplado", "suplada", "buotan", "maabiabihon",
+  ],
+  safety: [
+    "safe", "unsafe", "safety", "security", "guard", "thief", "theft", "pickpocket",
+    "snatcher", "dangerous", "lighting", "dark",
+    "ligtas", "delikado", "magnanakaw", "kawatan", "luwas",
+  ],
+};
+
+const SENTIMENT_WEIGHTS: Record<string, number> = {
+  // English
+  beautiful: 2, amazing: 2, wonderful: 2, excellent: 2, awesome: 2, breathtaking: 2,
+  stunning: 2, magnificent: 2, peaceful: 2, love: 2, loved: 2, perfect: 2, best: 2,
+  fantastic: 2, gorgeous: 2, majestic: 2, serene: 2, great: 2, lovely: 2,
+  good: 1, nice: 1, clean: 1, friendly: 1, helpful: 1, welcoming: 1, accommodating: 1,
+  calm: 1, quiet: 1, safe: 1, organized: 1, informative: 1, worth: 1,
+  recommend: 1, recommended: 1, enjoyed: 1, enjoy: 1, pleasant: 1, spacious: 1,
+  accessible: 1, convenient: 1, polite: 1, solemn: 1, hospitable: 1, tidy: 1,
+  bad: -2, terrible: -3, awful: -3, horrible: -3, worst: -3, disappointing: -2,
+  disappointed: -2, filthy: -2, stink: -2, dangerous: -2, neglected: -2, scam: -2,
+  dirty: -1, smelly: -1, crowded: -1, overcrowded: -1, noisy: -1, rude: -2, unfriendly: -1,
+  expensive: -1, overpriced: -1, slow: -1, lacking: -1, limited: -1, broken: -1,
+  poor: -1, unclean: -1, unsafe: -1, messy: -1, confusing: -1, sad: -1, damaged: -1,
+  littered: -1, closed: -1, unavailable: -1, dusty: -1, hot: -1,
+  // Filipino
+  maganda: 2, ganda: 2, masaya: 1, malinis: 1, mabait: 1, maayos: 1, tahimik: 1,
+  solemne: 1, sulit: 1, magaling: 1, ligtas: 1,
+  pangit: -2, marumi: -2, madumi: -2, mabaho: -2, bastos: -2, maingay: -1, mainit: -1,
+  masikip: -1, magulo: -1, sira: -1, siksikan: -1, kulang: -1, delikado: -2, suplado: -1,
+  suplada: -1,
+  // Cebuano
+  nindot: 2, gwapa: 1, limpyo: 1, buotan: 1, hilom: 1, malipayon: 1, maayo: 1,
+  maabiabihon: 1, luwas: 1,
+  hugaw: -2, baho: -2, ngilad: -2, saba: -1, init: -1, guba: -1, lisod: -1,
+};
+
+const NEGATORS = new Set([
+  "not", "no", "never", "isnt", "wasnt", "arent", "werent", "dont", "didnt", "doesnt",
+  "cant", "couldnt", "without", "hindi", "di", "wala", "walang", "dili", "walay",
+]);
+
+// Before the word ("very clean"), except Cebuano "kaayo" which follows it
+const INTENSIFIERS_BEFORE = new Set(["very", "so", "really", "super", "extremely", "too", "sobrang", "sobra"]);
+const INTENSIFIERS_AFTER = new Set(["kaayo"]);
+// Filipino superlative prefixes ("napakaganda", "pinakamaganda")
+const INTENSIFYING_PREFIXES = ["napaka", "pinaka"];
+
+const INTENSIFIER_BOOST = 1.5;
+const NEGATION_FACTOR = -0.75;
+const NEGATION_WINDOW = 3;
+// Normalizes a raw clause sum into -1..1 (as in VADER)
+const NORMALIZATION_ALPHA = 15;
+const SENTIMENT_THRESHOLD = 0.15;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+const CLAUSE_SPLIT = /[.!?;\n]+|,?\s+\b(?:but|however|although|though|except|pero|kaso|apan)\b\s+/i;
+
+const normalizeToken = (word: string): string =>
+  word
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+const tokenize = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).map(normalizeToken).filter(Boolean);
+
+interface TopicMatcher {
+  topic: FeedbackTopic;
+  words: Set<string>;
+  phrases: string[];
+}
+
+const TOPIC_MATCHERS: TopicMatcher[] = (Object.keys(TOPIC_KEYWORDS) as FeedbackTopic[]).map((topic) => {
+  const words = new Set<string>();
+  const phrases: string[] = [];
+  TOPIC_KEYWORDS[topic].forEach((keyword) => {
+    const tokens = tokenize(keyword);
+    if (tokens.length > 1) {
+      phrases.push(` ${tokens.join(" ")} `);
+    } else if (tokens.length === 1) {
+      words.add(tokens[0]);
+      words.add(`${tokens[0]}s`);
+      words.add(`${tokens[0]}es`);
+    }
+  });
+  return { topic, words, phrases };
+});
+
+// =============================================================================
+// TAGGING
+// =============================================================================
+
+const normalizeScore = (raw: number): number =>
+  raw === 0 ? 0 : Math.round((raw / Math.sqrt(raw * raw + NORMALIZATION_ALPHA)) * 100) / 100;
+
+export const toSentimentLabel = (score: number): FeedbackSentimentLabel =>
+  score >= SENTIMENT_THRESHOLD ? "positive" : score <= -SENTIMENT_THRESHOLD ? "negative" : "neutral";
+
+const wordWeight = (token: string): { weight: number; intensified: boolean } => {
+  if (SENTIMENT_WEIGHTS[token] !== undefined) return { weight: SENTIMENT_WEIGHTS[token], intensified: false };
+  const prefix = INTENSIFYING_PREFIXES.find((p) => token.startsWith(p) && token.length > p.length);
+  if (prefix) {
+    const stem = token.slice(prefix.length);
+    const weight = SENTIMENT_WEIGHTS[stem] ?? SENTIMENT_WEIGHTS[`ma${stem}`] ?? 0;
+    return { weight, intensified: weight !== 0 };
+  }
+  return { weight: 0, intensified: false };
+};
+
+/**
+ * Raw (unnormalized) sentiment of one clause.
+ */
+const scoreTokens = (tokens: string[]): number =>
+  tokens.reduce((sum, token, index) => {
+    const { weight, intensified } = wordWeight(token);
+    if (weight === 0) return sum;
+
+    let score = weight;
+    if (intensified || INTENSIFIERS_BEFORE.has(tokens[index - 1]) || INTENSIFIERS_AFTER.has(tokens[index + 1])) {
+      score *= INTENSIFIER_BOOST;
+    }
+    const window = tokens.slice(Math.max(0, index - NEGATION_WINDOW), index);
+    if (window.some((word) => NEGATORS.has(word))) {
+      score *= NEGATION_FACTOR;
+    }
+    return sum + score;
+  }, 0);
+
+const findTopics = (tokens: string[]): FeedbackTopic[] => {
+  const padded = ` ${tokens.join(" ")} `;
+  return TOPIC_MATCHERS
+    .filter(({ words, phrases }) =>
+      tokens.some((token) => words.has(token)) || phrases.some((phrase) => padded.includes(phrase)))
+    .map(({ topic }) => topic);
+};
+
+/**
+ * Tag one feedback comment with its topics and sentiment.
+ */
+export function tagFeedbackText(text: string): FeedbackTags {
+  const clauses = (text || "").split(CLAUSE_SPLIT).map(tokenize).filter((tokens) => tokens.length > 0);
+
+  let total = 0;
+  const topicRaw = new Map<FeedbackTopic, number>();
+  clauses.forEach((tokens) => {
+    const raw = scoreTokens(tokens);
+    total += raw;
+    findTopics(tokens).forEach((topic) => topicRaw.set(topic, (topicRaw.get(topic) || 0) + raw));
+  });
+
+  const topics = TOPIC_MATCHERS.map(({ topic }) => topic).filter((topic) => topicRaw.has(topic));
+  const topicSentiment: Partial<Record<FeedbackTopic, number>> = {};
+  topics.forEach((topic) => {
+    topicSentiment[topic] = normalizeScore(topicRaw.get(topic) || 0);
+  });
+  const sentiment = normalizeScore(total);
+
+  return {
+    version: FEEDBACK_TAGS_VERSION,
+    topics,
+    topicSentiment,
+    sentiment,
+    sentimentLabel: toSentimentLabel(sentiment),
+  };
+}
+
+/**
+ * Tags stored on a feedback document, or freshly computed ones when the
+ * feedback was never tagged or was tagged by an older lexicon.
+ */
+export function getFeedbackTags(stored: unknown, text: string): FeedbackTags {
+  const tags = stored as FeedbackTags | undefined;
+  return tags && tags.version === FEEDBACK_TAGS_VERSION && Array.isArray(tags.topics)
+    ? tags
+    : tagFeedbackText(text);
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+/**
+ * Mentions and average sentiment per topic, most mentioned first. Topics no
+ * feedback talks about are left out.
+ */
+export function summarizeFeedbackTopics(tags: FeedbackTags[]): FeedbackTopicSummary[] {
+  const totals = new Map<FeedbackTopic, { mentions: number; sentiment: number; negative: number }>();
+  tags.forEach((item) => {
+    item.topics.forEach((topic) => {
+      const score = item.topicSentiment[topic] ?? 0;
+      const current = totals.get(topic) || { mentions: 0, sentiment: 0, negative: 0 };
+      totals.set(topic, {
+        mentions: current.mentions + 1,
+        sentiment: current.sentiment + score,
+        negative: current.negative + (toSentimentLabel(score) === "negative" ? 1 : 0),
+      });
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([topic, { mentions, sentiment, negative }]) => ({
+      topic,
+      mentions,
+      share: tags.length > 0 ? mentions / tags.length : 0,
+      averageSentiment: Math.round((sentiment / mentions) * 100) / 100,
+      negative,
+    }))
+    .sort((a, b) => b.mentions - a.mentions);
+}
+
+/**
+ * Topic mentions per group, e.g. per month for trends or per municipality.
+ */
+export function countTopicsByGroup(
+  items: Array<{ group: string; tags: FeedbackTags }>
+): Record<string, FeedbackTopicCounts> {
+  return items.reduce((acc, { group, tags }) => {
+    const counts = acc[group] || (acc[group] = {});
+    tags.topics.forEach((topic) => {
+      counts[topic] = (counts[topic] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, FeedbackTopicCounts>);
+}
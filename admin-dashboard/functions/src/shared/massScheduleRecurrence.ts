@@ -0,0 +1,397 @@
+/**
+ * FILE PURPOSE: Recurrence-Based Mass Schedules
+ *
+ * A parish schedule is a set of RRULE-style rules (weekly, or monthly such as
+ * "first Friday of the month"), each with an optional seasonal validity range,
+ * plus one-off exceptions (cancelled masses) and additions (extra masses).
+ *
+ * This module:
+ * - Expands the rules into dated occurrences for the calendar preview
+ * - Flags duplicate and overlapping masses on the same day
+ * - Converts rules to RRULE strings for the editor and the iCalendar feeds
+ * - Projects the rules back into the legacy weekly massSchedules array,
+ *   which is what the mobile app reads
+ *
+ * The parish dashboard projects massSchedules whenever the schedule is
+ * edited; the reprojectMassSchedules Cloud Function repeats the projection
+ * every night so seasonal rules start and stop on their own. Dates are
+ * "YYYY-MM-DD" keys in Asia/Manila.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MassWeekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export interface MassRecurrenceRule {
+  id: string;
+  frequency: "weekly" | "monthly";
+  byDay: MassWeekday[];
+  ordinals?: number[];   // Monthly only: nth weekday of the month (1-4, -1 = last), as in RRULE BYDAY=1FR
+  time: string;          // Start time, 24-hour "HH:mm"
+  endTime?: string;
+  language?: string;
+  isFbLive?: boolean;
+  label?: string;        // e.g. "First Friday Mass", "Lenten Schedule"
+  validFrom?: string;    // Seasonal validity, inclusive "YYYY-MM-DD"
+  validUntil?: string;
+}
+
+// Cancels masses on one date: a specific rule and/or start time, or every mass that day
+export interface MassScheduleException {
+  id: string;
+  date: string;
+  ruleId?: string;
+  time?: string;
+  reason?: string;
+}
+
+// One-off mass that is not covered by a rule
+export interface MassScheduleAddition {
+  id: string;
+  date: string;
+  time: string;
+  endTime?: string;
+  language?: string;
+  isFbLive?: boolean;
+  label?: string;
+}
+
+export interface MassScheduleRecurrence {
+  rules: MassRecurrenceRule[];
+  exceptions: MassScheduleException[];
+  additions: MassScheduleAddition[];
+}
+
+// Entry of the legacy weekly massSchedules array read by the mobile app
+export interface LegacyMassSchedule {
+  day: string;
+  time: string;
+  endTime: string;
+  language?: string;
+  isFbLive?: boolean;
+}
+
+export interface MassOccurrence {
+  date: string;            // "YYYY-MM-DD"
+  time: string;
+  endTime?: string;
+  language?: string;
+  isFbLive?: boolean;
+  label?: string;
+  ruleId?: string;         // Set for occurrences generated by a rule
+  additionId?: string;     // Set for one-off additions
+  cancelled?: boolean;     // Removed by an exception (kept so the preview can show it)
+  cancelReason?: string;
+}
+
+export interface MassScheduleConflict {
+  date: string;
+  type: "duplicate" | "overlap";
+  occurrences: [MassOccurrence, MassOccurrence];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Masses without an end time are assumed to last this long when checking overlaps
+export const DEFAULT_MASS_DURATION_MINUTES = 60;
+
+// Language of projected masses whose rule does not name one
+export const DEFAULT_MASS_LANGUAGE = "Cebuano";
+
+// Ordered like Date.getDay(): index 0 = Sunday
+export const MASS_WEEKDAYS: MassWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const WEEKDAY_NAMES: Record<MassWeekday, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+export const ORDINAL_LABELS: Record<number, string> = {
+  1: "First",
+  2: "Second",
+  3: "Third",
+  4: "Fourth",
+  [-1]: "Last",
+};
+
+export const EMPTY_MASS_SCHEDULE_RECURRENCE: MassScheduleRecurrence = {
+  rules: [],
+  exceptions: [],
+  additions: [],
+};
+
+const MANILA_OFFSET_MINUTES = 8 * 60;
+
+// =============================================================================
+// DATES AND TIMES
+// =============================================================================
+
+/**
+ * Calendar date in Manila ("YYYY-MM-DD") of an instant.
+ */
+export const manilaDateKey = (date: Date): string =>
+  new Date(date.getTime() + MANILA_OFFSET_MINUTES * 60 * 1000).toISOString().slice(0, 10);
+
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// Index into MASS_WEEKDAYS (0 = Sunday)
+export const weekdayOfKey = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const endMinutes = (occurrence: Pick<MassOccurrence, "time" | "endTime">) => {
+  const start = timeToMinutes(occurrence.time);
+  const end = occurrence.endTime ? timeToMinutes(occurrence.endTime) : NaN;
+  return Number.isNaN(end) || end <= start ? start + DEFAULT_MASS_DURATION_MINUTES : end;
+};
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+/**
+ * Whether a rule's seasonal validity range covers the given date key.
+ */
+export function isRuleInSeason(rule: MassRecurrenceRule, dateKey: string): boolean {
+  if (rule.validFrom && dateKey < rule.validFrom) return false;
+  if (rule.validUntil && dateKey > rule.validUntil) return false;
+  return true;
+}
+
+/**
+ * Whether the rule produces a mass on the given date key (ignoring exceptions).
+ */
+export function ruleOccursOn(rule: MassRecurrenceRule, dateKey: string): boolean {
+  if (!isRuleInSeason(rule, dateKey)) return false;
+  if (!rule.byDay.includes(MASS_WEEKDAYS[weekdayOfKey(dateKey)])) return false;
+  if (rule.frequency === "weekly" || !rule.ordinals?.length) return true;
+
+  const dayOfMonth = Number(dateKey.slice(8, 10));
+  const position = Math.ceil(dayOfMonth / 7);
+  const isLast = addDaysToKey(dateKey, 7).slice(5, 7) !== dateKey.slice(5, 7);
+  return rule.ordinals.some((ordinal) => ordinal === position || (ordinal === -1 && isLast));
+}
+
+/**
+ * RRULE string for a rule, e.g. "FREQ=MONTHLY;BYDAY=1FR" for the first Friday.
+ *
+ * UNTIL is a date by default. With utcOffsetMinutes (for events whose start
+ * has a TZID, where RFC 5545 requires UTC) it is the last second of
+ * validUntil in that local time, expressed in UTC.
+ */
+export function toRRule(rule: MassRecurrenceRule, options: { utcOffsetMinutes?: number } = {}): string {
+  const byDay = rule.frequency === "monthly" && rule.ordinals?.length
+    ? rule.ordinals.flatMap((ordinal) => rule.byDay.map((day) => `${ordinal}${day}`))
+    : rule.byDay;
+  const parts = [`FREQ=${rule.frequency === "monthly" ? "MONTHLY" : "WEEKLY"}`, `BYDAY=${byDay.join(",")}`];
+  if (rule.validUntil && options.utcOffsetMinutes !== undefined) {
+    const lastSecond = new Date(`${rule.validUntil}T23:59:59Z`);
+    lastSecond.setUTCMinutes(lastSecond.getUTCMinutes() - options.utcOffsetMinutes);
+    const until = lastSecond.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    parts.push(`UNTIL=${until}`);
+  } else if (rule.validUntil) {
+    parts.push(`UNTIL=${rule.validUntil.replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Human-readable summary, e.g. "First Friday of the month" or "Every Monday, Wednesday".
+ */
+export function describeRule(rule: MassRecurrenceRule): string {
+  const days = MASS_WEEKDAYS.filter((d) => rule.byDay.includes(d)).map((d) => WEEKDAY_NAMES[d]);
+  let summary: string;
+  if (rule.frequency === "monthly" && rule.ordinals?.length) {
+    const positions = rule.ordinals.map((ordinal) => ORDINAL_LABELS[ordinal] || `#${ordinal}`).join(" & ");
+    summary = `${positions} ${days.join(", ")} of the month`;
+  } else {
+    summary = days.length === 7 ? "Daily" : `Every ${days.join(", ")}`;
+  }
+
+  if (rule.validFrom && rule.validUntil) return `${summary} (${rule.validFrom} to ${rule.validUntil})`;
+  if (rule.validFrom) return `${summary} (from ${rule.validFrom})`;
+  if (rule.validUntil) return `${summary} (until ${rule.validUntil})`;
+  return summary;
+}
+
+// =============================================================================
+// OCCURRENCES
+// =============================================================================
+
+const exceptionCancels = (exception: MassScheduleException, occurrence: MassOccurrence) => {
+  if (exception.date !== occurrence.date) return false;
+  if (exception.ruleId && exception.ruleId !== occurrence.ruleId) return false;
+  if (exception.time && exception.time !== occurrence.time) return false;
+  return true;
+};
+
+const compareOccurrences = (a: MassOccurrence, b: MassOccurrence) =>
+  a.date.localeCompare(b.date) || timeToMinutes(a.time) - timeToMinutes(b.time);
+
+/**
+ * Expand rules, exceptions and additions into dated occurrences between the
+ * from and to date keys (inclusive). Cancelled occurrences are included with
+ * cancelled: true.
+ */
+export function expandMassSchedule(
+  recurrence: MassScheduleRecurrence,
+  fromKey: string,
+  toKey: string
+): MassOccurrence[] {
+  const occurrences: MassOccurrence[] = [];
+
+  for (let dateKey = fromKey; dateKey <= toKey; dateKey = addDaysToKey(dateKey, 1)) {
+    recurrence.rules
+      .filter((rule) => ruleOccursOn(rule, dateKey))
+      .forEach((rule) => {
+        occurrences.push({
+          date: dateKey,
+          time: rule.time,
+          endTime: rule.endTime,
+          language: rule.language,
+          isFbLive: rule.isFbLive,
+          label: rule.label,
+          ruleId: rule.id,
+        });
+      });
+  }
+
+  recurrence.additions
+    .filter((addition) => addition.date >= fromKey && addition.date <= toKey)
+    .forEach((addition) => {
+      occurrences.push({
+        date: addition.date,
+        time: addition.time,
+        endTime: addition.endTime,
+        language: addition.language,
+        isFbLive: addition.isFbLive,
+        label: addition.label,
+        additionId: addition.id,
+      });
+    });
+
+  // Exceptions cancel rule occurrences only; a one-off addition is removed by deleting it
+  occurrences.forEach((occurrence) => {
+    if (!occurrence.ruleId) return;
+    const exception = recurrence.exceptions.find((e) => exceptionCancels(e, occurrence));
+    if (exception) {
+      occurrence.cancelled = true;
+      occurrence.cancelReason = exception.reason;
+    }
+  });
+
+  return occurrences.sort(compareOccurrences);
+}
+
+/**
+ * Duplicate (same start time) and overlapping masses on the same day.
+ * Cancelled occurrences are ignored.
+ */
+export function findMassScheduleConflicts(occurrences: MassOccurrence[]): MassScheduleConflict[] {
+  const conflicts: MassScheduleConflict[] = [];
+  const byDate = new Map<string, MassOccurrence[]>();
+  occurrences
+    .filter((o) => !o.cancelled)
+    .forEach((o) => byDate.set(o.date, [...(byDate.get(o.date) || []), o]));
+
+  byDate.forEach((dayOccurrences, date) => {
+    const sorted = [...dayOccurrences].sort(compareOccurrences);
+    for (let i = 0; i < sorted.length; i += 1) {
+      for (let j = i + 1; j < sorted.length; j += 1) {
+        const a = sorted[i];
+        const b = sorted[j];
+        if (timeToMinutes(b.time) >= endMinutes(a)) break;
+        conflicts.push({
+          date,
+          type: a.time === b.time ? "duplicate" : "overlap",
+          occurrences: [a, b],
+        });
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+// =============================================================================
+// LEGACY PROJECTION
+// =============================================================================
+
+/**
+ * Legacy weekly schedule for the mobile app: one entry per day of every weekly
+ * rule in season on asOfKey (today in Manila by default). Monthly rules cannot
+ * be expressed as a weekday entry and are left out; exceptions and additions
+ * are date-specific and also omitted.
+ */
+export function projectLegacyMassSchedules(
+  recurrence: MassScheduleRecurrence,
+  asOfKey: string = manilaDateKey(new Date())
+): LegacyMassSchedule[] {
+  const seen = new Set<string>();
+  const schedules: LegacyMassSchedule[] = [];
+
+  recurrence.rules
+    .filter((rule) => rule.frequency === "weekly" && isRuleInSeason(rule, asOfKey))
+    .forEach((rule) => {
+      rule.byDay.forEach((day) => {
+        const entry: LegacyMassSchedule = {
+          day: WEEKDAY_NAMES[day],
+          time: rule.time,
+          endTime: rule.endTime || "",
+          language: rule.language || DEFAULT_MASS_LANGUAGE,
+          isFbLive: rule.isFbLive || false,
+        };
+        const key = `${entry.day}|${entry.time}|${entry.endTime}|${entry.language}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        schedules.push(entry);
+      });
+    });
+
+  return schedules.sort((a, b) =>
+    MASS_WEEKDAYS.findIndex((d) => WEEKDAY_NAMES[d] === a.day) - MASS_WEEKDAYS.findIndex((d) => WEEKDAY_NAMES[d] === b.day) ||
+    timeToMinutes(a.time) - timeToMinutes(b.time)
+  );
+}
+
+/**
+ * Whether two legacy schedule arrays list the same masses in the same order.
+ */
+export function sameLegacyMassSchedules(a: LegacyMassSchedule[], b: LegacyMassSchedule[]): boolean {
+  const key = (schedule: LegacyMassSchedule) =>
+    `${schedule.day}|${schedule.time}|${schedule.endTime || ""}|${schedule.language || ""}|${schedule.isFbLive ? 1 : 0}`;
+  return a.length === b.length && a.every((schedule, index) => key(schedule) === key(b[index]));
+}
+
+// Drop empty optional fields; Firestore rejects nested undefined values
+const compact = <T extends object>(entry: T): T =>
+  Object.fromEntries(
+    Object.entries(entry).filter(([, value]) => value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0))
+  ) as T;
+
+/**
+ * Firestore-safe copy of a recurrence, as saved on the church document.
+ */
+export function serializeMassScheduleRecurrence(recurrence: MassScheduleRecurrence): MassScheduleRecurrence {
+  return {
+    rules: recurrence.rules.map((rule) => ({ ...compact(rule), byDay: rule.byDay })),
+    exceptions: recurrence.exceptions.map(compact),
+    additions: recurrence.additions.map(compact),
+  };
+}
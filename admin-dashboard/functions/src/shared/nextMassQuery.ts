@@ -0,0 +1,239 @@
+/**
+ * FILE PURPOSE: "Next Mass Near Me" Query
+ *
+ * Finds upcoming masses around a location from each church's legacy
+ * massSchedules and coordinates, within a time window and with optional
+ * language and Facebook live-stream filters. Results are ranked by a mix of
+ * travel distance and how soon the mass starts.
+ *
+ * The nextMasses HTTP function answers the mobile app from this module.
+ * Times are Asia/Manila.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NextMassSchedule {
+  day?: string;      // "Sunday", "Weekdays", "Daily", "Monday-Friday", ...
+  time?: string;     // "06:00", "06:00 - 07:00", "6:00 AM" or "6:00 AM - 7:00 AM"
+  endTime?: string;
+  language?: string;
+  isFbLive?: boolean;
+}
+
+export interface NextMassChurch {
+  id: string;
+  name: string;
+  municipality?: string;
+  diocese?: string;
+  latitude?: number;
+  longitude?: number;
+  massSchedules?: NextMassSchedule[];
+}
+
+export interface NextMassQuery {
+  latitude?: number;       // Without a location, results are ranked by start time only
+  longitude?: number;
+  from?: Date;             // Defaults to now
+  withinMinutes?: number;  // Time window after `from` (default 3 hours, max 7 days)
+  language?: string;
+  fbLiveOnly?: boolean;
+  maxDistanceKm?: number;
+  limit?: number;
+}
+
+export interface NextMassResult {
+  churchId: string;
+  churchName: string;
+  municipality?: string;
+  diocese?: string;
+  startsAt: string;        // ISO timestamp
+  startsInMinutes: number;
+  day: string;             // Weekday name of the occurrence
+  time: string;            // Local start, 24-hour "HH:mm"
+  endTime?: string;
+  language: string;
+  isFbLive: boolean;
+  distanceKm: number | null;
+}
+
+// =============================================================================
+// SCHEDULE PARSING
+// =============================================================================
+
+export const DEFAULT_WINDOW_MINUTES = 180;
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+export const DEFAULT_RESULT_LIMIT = 20;
+const DEFAULT_LANGUAGE = "Cebuano";
+const MANILA_OFFSET_MINUTES = 8 * 60;
+
+// Rough island driving speed, used to weigh distance against start time
+const TRAVEL_MINUTES_PER_KM = 2;
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DAY_ALIASES: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  everyday: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekday: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+  weekend: [0, 6],
+};
+
+const weekdayIndex = (value: string): number => {
+  const text = value.trim().toLowerCase();
+  if (text.length < 3) return -1;
+  return WEEKDAY_NAMES.findIndex((name) => name.toLowerCase().startsWith(text));
+};
+
+/**
+ * Weekdays (0 = Sunday) a schedule day covers. Understands single days,
+ * the Weekdays/Daily/Weekends aliases and ranges such as "Monday-Friday"
+ * or "Mon-Sat" produced by parseMassSchedules().
+ */
+export function expandScheduleDays(day?: string): number[] {
+  const text = (day || "").trim().toLowerCase().replace(/\s+/g, "");
+  if (!text) return [];
+  if (DAY_ALIASES[text]) return DAY_ALIASES[text];
+
+  const range = text.split(/[-–]|to/);
+  if (range.length === 2) {
+    const start = weekdayIndex(range[0]);
+    const end = weekdayIndex(range[1]);
+    if (start < 0 || end < 0) return [];
+    const days: number[] = [];
+    for (let index = start; ; index = (index + 1) % 7) {
+      days.push(index);
+      if (index === end) break;
+    }
+    return days;
+  }
+
+  const single = weekdayIndex(text);
+  return single < 0 ? [] : [single];
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Minutes after midnight for "06:00", "6:00 AM", "6 PM" or "18:00".
+ */
+export function parseTimeOfDay(value?: string): number | null {
+  const match = value?.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([ap]\.?\s*m\.?)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const period = match[3]?.toLowerCase().replace(/[.\s]/g, "");
+  if (period === "pm" && hours < 12) hours += 12;
+  if (period === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Firestore stores "start - end" in time; the form keeps them separate
+const scheduleTimes = (schedule: NextMassSchedule) => {
+  const [startText, endText] = (schedule.time || "").split(/\s+-\s+|\s*–\s*/);
+  return {
+    start: parseTimeOfDay(startText),
+    end: parseTimeOfDay(schedule.endTime || endText),
+  };
+};
+
+const formatMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Great-circle distance in kilometres (haversine).
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const hasCoordinates = (church: NextMassChurch) =>
+  typeof church.latitude === "number" && typeof church.longitude === "number" &&
+  !(church.latitude === 0 && church.longitude === 0);
+
+// =============================================================================
+// QUERY
+// =============================================================================
+
+/**
+ * Upcoming masses starting within the query window, ranked by start time
+ * plus estimated travel time (distance only counts when a location is given).
+ */
+export function findNextMasses(churches: NextMassChurch[], query: NextMassQuery = {}): NextMassResult[] {
+  const from = query.from || new Date();
+  const windowMinutes = Math.min(Math.max(query.withinMinutes ?? DEFAULT_WINDOW_MINUTES, 0), MAX_WINDOW_MINUTES);
+  const limit = query.limit ?? DEFAULT_RESULT_LIMIT;
+  const language = query.language?.trim().toLowerCase();
+  const hasOrigin = typeof query.latitude === "number" && typeof query.longitude === "number";
+
+  // Manila wall clock for `from`: day 0 is today, minutes since local midnight
+  const localNow = new Date(from.getTime() + MANILA_OFFSET_MINUTES * 60000);
+  const nowWeekday = localNow.getUTCDay();
+  const nowMinutes = localNow.getUTCHours() * 60 + localNow.getUTCMinutes();
+  const localMidnight = from.getTime() - (nowMinutes * 60 + localNow.getUTCSeconds()) * 1000 - localNow.getUTCMilliseconds();
+  const daysToScan = Math.ceil((nowMinutes + windowMinutes) / 1440);
+
+  const results: (NextMassResult & { rank: number })[] = [];
+
+  churches.forEach((church) => {
+    let distance: number | null = null;
+    if (hasOrigin) {
+      if (!hasCoordinates(church)) return;
+      distance = distanceKm(query.latitude as number, query.longitude as number, church.latitude as number, church.longitude as number);
+      if (query.maxDistanceKm !== undefined && distance > query.maxDistanceKm) return;
+    }
+
+    const seen = new Set<string>();
+    (church.massSchedules || []).forEach((schedule) => {
+      const massLanguage = schedule.language || DEFAULT_LANGUAGE;
+      if (language && massLanguage.toLowerCase() !== language) return;
+      if (query.fbLiveOnly && !schedule.isFbLive) return;
+
+      const { start, end } = scheduleTimes(schedule);
+      if (start === null) return;
+      const weekdays = expandScheduleDays(schedule.day);
+
+      for (let dayOffset = 0; dayOffset <= daysToScan; dayOffset++) {
+        const weekday = (nowWeekday + dayOffset) % 7;
+        if (!weekdays.includes(weekday)) continue;
+
+        const startsInMinutes = dayOffset * 1440 + start - nowMinutes;
+        if (startsInMinutes < 0 || startsInMinutes > windowMinutes) continue;
+
+        // The same mass can be listed under both "Daily" and a specific day
+        const key = `${dayOffset}-${start}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        results.push({
+          churchId: church.id,
+          churchName: church.name,
+          municipality: church.municipality,
+          diocese: church.diocese,
+          startsAt: new Date(localMidnight + (dayOffset * 1440 + start) * 60000).toISOString(),
+          startsInMinutes,
+          day: WEEKDAY_NAMES[weekday],
+          time: formatMinutes(start),
+          endTime: end !== null && end > start ? formatMinutes(end) : undefined,
+          language: massLanguage,
+          isFbLive: !!schedule.isFbLive,
+          distanceKm: distance === null ? null : Math.round(distance * 10) / 10,
+          rank: startsInMinutes + (distance ?? 0) * TRAVEL_MINUTES_PER_KM,
+        });
+      }
+    });
+  });
+
+  return results
+    .sort((a, b) => a.rank - b.rank || a.startsInMinutes - b.startsInMinutes || (a.distanceKm ?? 0) - (b.distanceKm ?? 0))
+    .slice(0, limit)
+    .map(({ rank: _rank, ...result }) => result);
+}
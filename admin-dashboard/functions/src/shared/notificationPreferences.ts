@@ -0,0 +1,169 @@
+/**
+ * FILE PURPOSE: Notification Delivery Preferences
+ *
+ * The deliverNotification Cloud Function copies every new notification into
+ * each recipient's inbox, shown in the dashboard bell (the in-app channel),
+ * and emails it right away or batched into a daily or weekly digest,
+ * following the notificationPreferences stored on the recipient's users
+ * document.
+ *
+ * Preferences are per notification type. A type without an explicit email
+ * choice uses the notification's priority: low-priority notifications go to
+ * the digest, everything else is emailed immediately.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type NotificationEmailDelivery = "immediate" | "digest" | "off";
+export type NotificationDigestFrequency = "daily" | "weekly";
+export type NotificationPriorityLevel = "low" | "medium" | "high" | "urgent";
+
+export interface NotificationTypePreference {
+  inApp?: boolean;                       // Copy into the user's inbox / dashboard bell (default true)
+  email?: NotificationEmailDelivery;     // Default depends on the notification priority
+}
+
+export interface NotificationPreferences {
+  emailEnabled: boolean;                 // Master switch for all notification email
+  digestFrequency: NotificationDigestFrequency;
+  types: Record<string, NotificationTypePreference>;
+}
+
+// Fields of a notification document that decide who receives it
+export interface NotificationAddress {
+  type: string;
+  recipients?: {
+    userIds?: string[];
+    roles?: string[];
+    dioceses?: string[];
+    parishId?: string;
+  };
+  relatedData?: {
+    churchId?: string;
+  };
+}
+
+export interface NotificationRecipientUser {
+  uid: string;
+  role: string;
+  diocese?: string;
+  parishId?: string;
+  parish?: string;     // Legacy parish identifier
+}
+
+// =============================================================================
+// DEFAULTS
+// =============================================================================
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailEnabled: true,
+  digestFrequency: "daily",
+  types: {},
+};
+
+export const NOTIFICATION_EMAIL_DELIVERIES: NotificationEmailDelivery[] = ["immediate", "digest", "off"];
+
+// Digests are sent every morning at DIGEST_HOUR (Manila); weekly ones only on this day (0 = Sunday)
+export const DIGEST_HOUR = 7;
+export const WEEKLY_DIGEST_DAY = 1;
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+// Types shown only to the parish they concern, even though they are addressed to the parish role
+export const PARISH_SPECIFIC_NOTIFICATION_TYPES = [
+  "church_approved",
+  "church_unpublished",
+  "revision_requested",
+  "heritage_review_assigned",
+  "heritage_validated",
+  "account_pending_approval",
+  "account_approved",
+  "feedback_received",
+];
+
+/**
+ * Read preferences from a users document, filling in defaults for missing
+ * or malformed fields.
+ */
+export function normalizeNotificationPreferences(value: unknown): NotificationPreferences {
+  if (!value || typeof value !== "object") {
+    return { ...DEFAULT_NOTIFICATION_PREFERENCES, types: {} };
+  }
+
+  const raw = value as Partial<NotificationPreferences>;
+  const types: Record<string, NotificationTypePreference> = {};
+  Object.entries(raw.types && typeof raw.types === "object" ? raw.types : {}).forEach(([type, preference]) => {
+    if (!preference || typeof preference !== "object") return;
+    const entry: NotificationTypePreference = {};
+    if (typeof preference.inApp === "boolean") entry.inApp = preference.inApp;
+    if (preference.email && NOTIFICATION_EMAIL_DELIVERIES.includes(preference.email)) entry.email = preference.email;
+    if (Object.keys(entry).length) types[type] = entry;
+  });
+
+  return {
+    emailEnabled: typeof raw.emailEnabled === "boolean" ? raw.emailEnabled : DEFAULT_NOTIFICATION_PREFERENCES.emailEnabled,
+    digestFrequency: raw.digestFrequency === "weekly" ? "weekly" : "daily",
+    types,
+  };
+}
+
+// =============================================================================
+// CHANNELS
+// =============================================================================
+
+export const getDefaultEmailDelivery = (priority?: string): NotificationEmailDelivery =>
+  priority === "low" ? "digest" : "immediate";
+
+/**
+ * How a notification of this type and priority should be emailed to a user.
+ */
+export function resolveEmailDelivery(
+  preferences: NotificationPreferences,
+  type: string,
+  priority?: string
+): NotificationEmailDelivery {
+  if (!preferences.emailEnabled) return "off";
+  return preferences.types[type]?.email || getDefaultEmailDelivery(priority);
+}
+
+export const isInAppEnabled = (preferences: NotificationPreferences, type: string): boolean =>
+  preferences.types[type]?.inApp !== false;
+
+/**
+ * Is a user's digest due in the run at `now`? Daily digests go out every
+ * run; weekly digests on WEEKLY_DIGEST_DAY (Manila date).
+ */
+export function isDigestDue(preferences: NotificationPreferences, now: Date): boolean {
+  if (preferences.digestFrequency === "daily") return true;
+  return new Date(now.getTime() + MANILA_OFFSET_MS).getUTCDay() === WEEKLY_DIGEST_DAY;
+}
+
+// =============================================================================
+// RECIPIENTS
+// =============================================================================
+
+/**
+ * Is the user a recipient of the notification? Direct user IDs always match.
+ * Role recipients must be in one of the listed dioceses (if any), and parish
+ * secretaries only receive parish-specific types for their own parish.
+ */
+export function isNotificationRecipient(notification: NotificationAddress, user: NotificationRecipientUser): boolean {
+  const recipients = notification.recipients || {};
+
+  if (recipients.userIds?.includes(user.uid)) return true;
+  if (!recipients.roles?.includes(user.role)) return false;
+
+  const dioceses = recipients.dioceses;
+  if (dioceses && dioceses.length > 0 && (!user.diocese || !dioceses.includes(user.diocese))) {
+    return false;
+  }
+
+  if (user.role === "parish" && PARISH_SPECIFIC_NOTIFICATION_TYPES.includes(notification.type)) {
+    const notificationParishId = recipients.parishId || notification.relatedData?.churchId;
+    return notificationParishId === (user.parishId || user.parish);
+  }
+
+  return true;
+}
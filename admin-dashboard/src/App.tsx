@@ -65,6 +65,7 @@ import {
   LazyUserManagement,         // User Management Page (create/edit users)
   LazyMuseumStaffManagement,  // Museum Staff Management Page
   LazyActivityLogPage,        // Activity Log Page (Museum Researcher)
+  LazyEmailDelivery,          // Email Delivery Status Page (Chancery)
   LazyMigrateAccounts         // Parish Account Migration Tool
 } from "@/components/LazyComponents";
 
@@ -371,6 +372,20 @@ const App = () => (
               </ProtectedRoute>
             } />
             
+            {/* 
+              EMAIL DELIVERY PAGE (/email-delivery)
+              
+              WHO: Only chancery_office
+              WHAT: Outgoing email status, daily sending limit, retry failed emails
+            */}
+            <Route path="/email-delivery" element={
+              <ProtectedRoute allowedRoles={['chancery_office']}>
+                <Suspense fallback={<PageLoadingFallback />}>
+                  <LazyEmailDelivery />
+                </Suspense>
+              </ProtectedRoute>
+            } />
+            
             {/* 
               ACCOUNT SETTINGS PAGE (/settings)
               
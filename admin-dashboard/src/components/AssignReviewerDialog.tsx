@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, UserCheck } from 'lucide-react';
+import type { Diocese } from '@/contexts/AuthContext';
+import type { Church } from '@/lib/churches';
+import {
+  ASSIGNMENT_DURATION_HOURS,
+  formatClaimHolder,
+  getAssignableReviewers,
+  isClaimActive,
+  type AssignableReviewer,
+} from '@/lib/review-claims';
+
+interface AssignReviewerDialogProps {
+  church: Church | null;
+  diocese: Diocese;
+  isOpen: boolean;
+  onClose: () => void;
+  onAssign: (church: Church, reviewer: AssignableReviewer) => Promise<void>;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  chancery_office: 'Chancery Office',
+  museum_researcher: 'Museum Researcher',
+};
+
+/**
+ * Assign Reviewer Dialog
+ *
+ * Lets a supervisor hand a submission to a specific reviewer. The assignment
+ * replaces any existing claim and lasts ASSIGNMENT_DURATION_HOURS.
+ */
+export function AssignReviewerDialog({
+  church,
+  diocese,
+  isOpen,
+  onClose,
+  onAssign
+}: AssignReviewerDialogProps) {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: reviewers = [], isLoading } = useQuery<AssignableReviewer[]>({
+    queryKey: ['reviewers', diocese],
+    queryFn: () => getAssignableReviewers(diocese),
+    enabled: isOpen,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Museum validation can only be done by museum researchers
+  const eligible = church?.status === 'heritage_review'
+    ? reviewers.filter(r => r.role === 'museum_researcher')
+    : reviewers.filter(r => r.role === 'chancery_office');
+
+  const handleClose = () => {
+    setSelectedId('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    const reviewer = eligible.find(r => r.uid === selectedId);
+    if (!church || !reviewer) return;
+
+    setIsSubmitting(true);
+    try {
+      await onAssign(church, reviewer);
+      handleClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!church) return null;
+
+  const currentClaim = isClaimActive(church.reviewClaim, church.status) ? church.reviewClaim : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5 text-sky-600" />
+            Assign Reviewer
+          </DialogTitle>
+          <DialogDescription>
+            Assign <strong>{church.name}</strong> to a reviewer for the next {ASSIGNMENT_DURATION_HOURS} hours.
+            Other reviewers cannot act on it until it is released or expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {currentClaim && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+              Currently claimed by {formatClaimHolder(currentClaim)}. Assigning will replace this claim.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Reviewer</Label>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" /> Loading reviewers...
+              </div>
+            ) : eligible.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active reviewers available for this stage.</p>
+            ) : (
+              <Select value={selectedId} onValueChange={setSelectedId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reviewer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {eligible.map(reviewer => (
+                    <SelectItem key={reviewer.uid} value={reviewer.uid}>
+                      {reviewer.name} · {ROLE_LABELS[reviewer.role] || reviewer.role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!selectedId || isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <UserCheck className="w-4 h-4 mr-2" />
+            )}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { getChurchesByDiocese, type Church, type ChurchStatus, updateChurchStatusWithValidation } from "@/lib/churches";
+import { getChurchesByDiocese, type Church, type ChurchStatus, updateChurchStatusWithValidation, requestChurchRevision } from "@/lib/churches";
 import { shouldRequireHeritageReview, assessHeritageSignificance } from "@/lib/heritage-detection";
+import { loadHeritageRules } from "@/lib/heritage-rules";
 import { workflowStateMachine, getStatusBadgeColor } from "@/lib/workflow-state-machine";
 import { notifyChurchStatusChange } from "@/lib/notifications";
 import { useAuth } from "@/contexts/AuthContext";
@@ -10,9 +11,23 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, CheckCircle2, ArrowRight, AlertTriangle, Info, Clock, Building2, Eye, Edit3, Check, MessageSquare, X } from "lucide-react";
+import { Loader2, CheckCircle2, ArrowRight, AlertTriangle, Info, Clock, Building2, Eye, Edit3, Check, MessageSquare, X, FileEdit, Lock, Unlock, UserCheck, Hand } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { SecurityReviewChecklist } from "./SecurityReviewChecklist";
+import { RequestRevisionDialog } from "./RequestRevisionDialog";
+import type { RevisionComment } from "@/types/church";
+import { getRevisionFieldLabel } from "@/lib/revision-requests";
+import { AssignReviewerDialog } from "./AssignReviewerDialog";
+import {
+  assignChurchReview,
+  canAssignReviews,
+  claimChurchReview,
+  formatClaimHolder,
+  isClaimActive,
+  releaseChurchReview,
+  type AssignableReviewer,
+} from "@/lib/review-claims";
+import { formatDistanceToNow } from "date-fns";
 
 interface Props {
   diocese: "tagbilaran" | "talibon";
@@ -29,7 +44,14 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
   // State for security review checklist dialog
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [churchToApprove, setChurchToApprove] = useState<Church | null>(null);
+
+  // State for revision request dialog
+  const [churchForRevision, setChurchForRevision] = useState<Church | null>(null);
   
+  // State for reviewer assignment dialog
+  const [churchForAssignment, setChurchForAssignment] = useState<Church | null>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
   // State for dismissed note banners (by church ID)
   const [dismissedNotes, setDismissedNotes] = useState<Set<string>>(new Set());
 
@@ -40,6 +62,13 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
     refetchOnWindowFocus: true, // Auto-refresh when switching browser tabs
   });
 
+  // Museum-configured heritage rules (defaults until loaded)
+  const { data: heritageRules } = useQuery({
+    queryKey: ["heritage-rules"],
+    queryFn: loadHeritageRules,
+    staleTime: 5 * 60 * 1000,
+  });
+
   const handleStatusChange = async (
     churchId: string,
     targetStatus: ChurchStatus,
@@ -142,8 +171,85 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
   };
 
 
+  // Called after the reviewer flags fields in the revision dialog
+  const handleRequestRevision = async (church: Church, comments: RevisionComment[], note: string) => {
+    if (!userProfile) return;
+
+    const result = await requestChurchRevision(church.id, comments, userProfile, note || undefined);
+
+    if (result.success) {
+      toast({
+        title: "Revision Requested",
+        description: `${church.name} was sent back to the parish with ${comments.length} flagged field${comments.length === 1 ? '' : 's'}.`
+      });
+
+      await notifyChurchStatusChange(
+        church.id,
+        church.name,
+        church.status,
+        'needs_revision',
+        userProfile,
+        note || undefined
+      );
+
+      await queryClient.invalidateQueries({ queryKey: ['churches'] });
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to request revision",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClaim = async (church: Church) => {
+    if (!userProfile) return;
+
+    setClaimingId(church.id);
+    try {
+      const result = await claimChurchReview(church.id, userProfile);
+      if (result.success) {
+        toast({ title: "Claimed", description: `You are now reviewing ${church.name}.` });
+      } else {
+        toast({ title: "Could not claim", description: result.error || "Failed to claim submission", variant: "destructive" });
+      }
+      await queryClient.invalidateQueries({ queryKey: ['churches'] });
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const handleRelease = async (church: Church) => {
+    if (!userProfile) return;
+
+    setClaimingId(church.id);
+    try {
+      const result = await releaseChurchReview(church.id, userProfile);
+      if (result.success) {
+        toast({ title: "Released", description: `${church.name} is back in the queue.` });
+      } else {
+        toast({ title: "Error", description: result.error || "Failed to release claim", variant: "destructive" });
+      }
+      await queryClient.invalidateQueries({ queryKey: ['churches'] });
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const handleAssign = async (church: Church, reviewer: AssignableReviewer) => {
+    if (!userProfile) return;
+
+    const result = await assignChurchReview(church.id, reviewer, userProfile);
+    if (result.success) {
+      toast({ title: "Reviewer Assigned", description: `${church.name} was assigned to ${reviewer.name}.` });
+      await queryClient.invalidateQueries({ queryKey: ['churches'] });
+    } else {
+      toast({ title: "Error", description: result.error || "Failed to assign reviewer", variant: "destructive" });
+    }
+  };
+
   const handleForwardHeritage = async (church: Church) => {
-    const assessment = assessHeritageSignificance(church);
+    const assessment = assessHeritageSignificance(church, heritageRules);
     const note = `Heritage review required. ${assessment.reasoning}`;
     await handleStatusChange(church.id, 'heritage_review', church, note);
   };
@@ -151,7 +257,7 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
   // Helper function to get heritage assessment for each church
   const getHeritageAssessmentForChurch = (church: Church) => {
     try {
-      return assessHeritageSignificance(church);
+      return assessHeritageSignificance(church, heritageRules);
     } catch (error) {
       console.error('Heritage assessment error:', error);
       return null;
@@ -211,6 +317,11 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                                           currentHeritageClass === 'ICP' || 
                                           currentHeritageClass === 'NCT';
 
+              // Active claim on this submission (expired or stale claims are ignored)
+              const claim = isClaimActive(c.reviewClaim, c.status) ? c.reviewClaim : null;
+              const claimedByMe = !!claim && claim.reviewerId === userProfile?.uid;
+              const claimedByOther = !!claim && !claimedByMe;
+
               return (
                 <div key={c.id} className="p-2 sm:p-3 rounded-lg bg-secondary/30">
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-3 mb-2">
@@ -229,8 +340,9 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                             <TooltipContent>
                               <div className="text-xs max-w-xs">
                                 <div className="font-medium">Heritage Assessment</div>
-                                <div>Confidence: {heritageAssessment.confidence}</div>
+                                <div>Confidence: {heritageAssessment.confidence} • Score: {heritageAssessment.score}</div>
                                 <div className="mt-1">{heritageAssessment.reasoning}</div>
+                                <div className="mt-1 text-muted-foreground">Heritage rules v{heritageAssessment.rulesVersion}</div>
                               </div>
                             </TooltipContent>
                           </Tooltip>
@@ -243,6 +355,9 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                             • Heritage: {heritageAssessment.confidence}
                           </span>
                         )}
+                        {heritageAssessment?.recommendation === 'detailed_review' && (
+                          <span className="ml-2 text-yellow-700">• Detailed review suggested</span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
@@ -286,6 +401,21 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                     </div>
                   </div>
 
+                  {/* Claim banner - who is reviewing this submission */}
+                  {claim && (
+                    <div className={cn(
+                      "mb-2 p-2 rounded text-xs flex items-center gap-1",
+                      claimedByMe ? "bg-sky-50 border border-sky-200 text-sky-700" : "bg-gray-100 border border-gray-300 text-gray-700"
+                    )}>
+                      <Lock className="w-3 h-3 flex-shrink-0" />
+                      <span>
+                        {claimedByMe ? "Claimed by you" : `Claimed by ${formatClaimHolder(claim)}`}
+                        {claim.assignedBy && ` • assigned by ${claim.assignedBy.name || 'supervisor'}`}
+                        {` • expires ${formatDistanceToNow(claim.expiresAt.toDate(), { addSuffix: true })}`}
+                      </span>
+                    </div>
+                  )}
+
                   {isCurrentlyHeritage && c.status !== 'heritage_review' && (
                     <div className="mb-2 p-2 bg-orange-100 border border-orange-300 rounded text-xs">
                       <div className="flex items-center gap-1 text-orange-700">
@@ -318,6 +448,23 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                     </div>
                   )}
 
+                  {/* Resubmission summary - shows which revision comments the parish addressed */}
+                  {c.status === 'pending' && c.revisionRequest?.resubmittedAt && (
+                    <div className="mb-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
+                      <div className="flex items-center gap-1 text-blue-700">
+                        <FileEdit className="w-3 h-3" />
+                        <span className="font-medium">
+                          Resubmitted after revision • {c.revisionRequest.comments.filter(rc => rc.addressed).length} of {c.revisionRequest.comments.length} comments addressed
+                        </span>
+                      </div>
+                      {c.revisionRequest.comments.some(rc => !rc.addressed) && (
+                        <div className="text-blue-600 mt-1">
+                          Unchanged: {c.revisionRequest.comments.filter(rc => !rc.addressed).map(rc => getRevisionFieldLabel(rc.field)).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex flex-wrap items-center gap-1.5 sm:gap-2 justify-end">
                     {/* View Church Details Button */}
                     <Button
@@ -329,6 +476,41 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                       <Eye className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">View</span>
                     </Button>
 
+                    {/* Claim / Release Button */}
+                    {claim && (claimedByMe || canAssignReviews(userProfile)) ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRelease(c)}
+                        disabled={claimingId === c.id}
+                        className="text-gray-600 border-gray-300 hover:bg-gray-50 h-8 px-2 sm:px-3 text-xs sm:text-sm"
+                      >
+                        <Unlock className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">Release</span>
+                      </Button>
+                    ) : !claim && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleClaim(c)}
+                        disabled={claimingId === c.id}
+                        className="text-sky-600 border-sky-300 hover:bg-sky-50 h-8 px-2 sm:px-3 text-xs sm:text-sm"
+                      >
+                        <Hand className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">Claim</span>
+                      </Button>
+                    )}
+
+                    {/* Assign Reviewer Button - supervisors only */}
+                    {canAssignReviews(userProfile) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setChurchForAssignment(c)}
+                        className="text-sky-600 border-sky-300 hover:bg-sky-50 h-8 px-2 sm:px-3 text-xs sm:text-sm"
+                      >
+                        <UserCheck className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">Assign</span>
+                      </Button>
+                    )}
+
                     {/* Edit Church Button */}
                     <Button
                       variant="outline"
@@ -339,13 +521,26 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                       <Edit3 className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">Edit</span>
                     </Button>
 
+                    {/* Request Revision Button - send the submission back to the parish */}
+                    {validTransitions.some(t => t.to === 'needs_revision') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setChurchForRevision(c)}
+                        disabled={claimedByOther}
+                        className="text-red-600 border-red-300 hover:bg-red-50 h-8 px-2 sm:px-3 text-xs sm:text-sm"
+                      >
+                        <FileEdit className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" /> <span className="hidden sm:inline">Request Revision</span>
+                      </Button>
+                    )}
+
                     {/* Heritage Review Button - Only show for actual heritage churches (ICP/NCT) */}
                     {isCurrentlyHeritage && (
                       <Button
                         variant={c.status === 'heritage_review' ? 'default' : 'outline'}
                         size="sm"
                         onClick={() => handleForwardHeritage(c)}
-                        disabled={c.status === 'heritage_review'}
+                        disabled={c.status === 'heritage_review' || claimedByOther}
                         className={cn(
                           "h-8 px-2 sm:px-3 text-xs sm:text-sm",
                           c.status === 'heritage_review' 
@@ -368,6 +563,7 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
                         variant="heritage"
                         size="sm"
                         onClick={() => handleApproveClick(c)}
+                        disabled={claimedByOther}
                         className={cn("h-8 px-2 sm:px-3 text-xs sm:text-sm", shouldAutoForward ? 'opacity-75' : '')}
                       >
                         <CheckCircle2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 sm:mr-1" />
@@ -394,6 +590,24 @@ export function ChanceryReviewList({ diocese, onViewChurch, onEditChurch }: Prop
         onApprove={handleApproveConfirmed}
         isHeritage={churchToApprove?.classification === 'ICP' || churchToApprove?.classification === 'NCT'}
       />
+
+      {/* Revision Request Dialog */}
+      <RequestRevisionDialog
+        church={churchForRevision}
+        isOpen={!!churchForRevision}
+        onClose={() => setChurchForRevision(null)}
+        onSubmit={handleRequestRevision}
+        reviewerLabel="Chancery Office"
+      />
+
+      {/* Assign Reviewer Dialog */}
+      <AssignReviewerDialog
+        church={churchForAssignment}
+        diocese={diocese}
+        isOpen={!!churchForAssignment}
+        onClose={() => setChurchForAssignment(null)}
+        onAssign={handleAssign}
+      />
     </Card>
   );
 }
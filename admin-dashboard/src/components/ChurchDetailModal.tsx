@@ -31,12 +31,16 @@ import {
   BookOpen,
   Camera,
   ChevronRight,
-  AlertTriangle
+  AlertTriangle,
+  GitCompare
 } from 'lucide-react';
 import type { Church } from '@/lib/churches';
 import { ChurchProfileForm } from '@/components/parish/ChurchProfileForm';
 import { ChurchInfo } from '@/components/parish/types';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChurchVersionHistory } from '@/components/ChurchVersionHistory';
+import { HeritageValidationReports } from '@/components/HeritageValidationReports';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface Props {
   church: Church | null;
@@ -60,6 +64,8 @@ export function ChurchDetailModal({
   isSubmitting = false,  isSaving = false,  isMuseumResearcher = false
 }: Props) {
   const [editMode, setEditMode] = useState(mode === 'edit');
+  const { userProfile } = useAuth();
+  const isChancery = userProfile?.role === 'chancery_office';
 
   // Update editMode when mode prop changes
   useEffect(() => {
@@ -505,7 +511,7 @@ export function ChurchDetailModal({
             )}
 
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-4 bg-gray-100/80 p-1 rounded-xl h-12">
+              <TabsList className={`grid w-full ${isChancery ? 'grid-cols-5' : 'grid-cols-4'} bg-gray-100/80 p-1 rounded-xl h-12`}>
                 <TabsTrigger value="overview" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm flex items-center gap-2">
                   <Info className="w-4 h-4" />
                   <span className="hidden sm:inline">Overview</span>
@@ -522,6 +528,12 @@ export function ChurchDetailModal({
                   <Camera className="w-4 h-4" />
                   <span className="hidden sm:inline">Media</span>
                 </TabsTrigger>
+                {isChancery && (
+                  <TabsTrigger value="versions" className="rounded-lg data-[state=active]:bg-white data-[state=active]:shadow-sm flex items-center gap-2">
+                    <GitCompare className="w-4 h-4" />
+                    <span className="hidden sm:inline">Versions</span>
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               {/* Overview Tab */}
@@ -748,6 +760,10 @@ export function ChurchDetailModal({
                     )}
                   </CardContent>
                 </Card>
+
+                {(isChancery || isMuseumResearcher) && (
+                  <HeritageValidationReports churchId={church.id} />
+                )}
               </TabsContent>
 
               {/* Pastoral Tab */}
@@ -1096,6 +1112,13 @@ export function ChurchDetailModal({
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Versions Tab - Chancery only */}
+              {isChancery && (
+                <TabsContent value="versions" className="mt-6 space-y-6">
+                  <ChurchVersionHistory churchId={church.id} canRollback />
+                </TabsContent>
+              )}
             </Tabs>
           </ScrollArea>
         </div>
@@ -0,0 +1,248 @@
+/**
+ * FILE PURPOSE: Church Version History, Diff Viewer and Rollback
+ *
+ * Shown as the "Versions" tab of ChurchDetailModal. Lists the immutable
+ * snapshots in churches/{churchId}/versions, shows a side-by-side diff of any
+ * two versions, and lets the Chancery Office restore an earlier version.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { GitCompare, History, Loader2, RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { diffChurchVersions, getChurchVersions, getVersionReasonLabel, type ChurchVersion } from '@/lib/church-versions';
+import { rollbackChurchToVersion } from '@/lib/churches';
+import { getFieldLabel } from '@/lib/church-field-categories';
+
+interface Props {
+  churchId: string;
+  canRollback?: boolean; // Chancery Office only
+}
+
+const formatDate = (version: ChurchVersion) =>
+  version.createdAt?.toDate
+    ? version.createdAt.toDate().toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    : 'Just now';
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value, null, 2);
+};
+
+export function ChurchVersionHistory({ churchId, canRollback = false }: Props) {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('');
+  const [rollbackNote, setRollbackNote] = useState('');
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const { data: versions = [], isLoading, isError } = useQuery<ChurchVersion[]>({
+    queryKey: ['churches', churchId, 'versions'],
+    queryFn: () => getChurchVersions(churchId),
+    staleTime: 30 * 1000,
+  });
+
+  // Default to comparing the two most recent versions
+  useEffect(() => {
+    if (versions.length === 0) return;
+    setCompareId(prev => prev || versions[0].id || '');
+    setBaseId(prev => prev || versions[1]?.id || versions[0].id || '');
+  }, [versions]);
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+
+  const changes = useMemo(
+    () => (base && compare ? diffChurchVersions(base.snapshot, compare.snapshot) : []),
+    [base, compare]
+  );
+
+  const handleRollback = async (version: ChurchVersion) => {
+    if (!userProfile || !version.id) return;
+    if (!rollbackNote.trim()) {
+      toast({
+        title: 'Note required',
+        description: 'Explain why this version is being restored.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsRollingBack(true);
+    try {
+      const result = await rollbackChurchToVersion(churchId, version.id, userProfile, rollbackNote.trim());
+      if (result.success) {
+        toast({
+          title: 'Version Restored',
+          description: `The church profile now matches version ${version.versionNumber}.`
+        });
+        setRollbackNote('');
+        setBaseId('');
+        setCompareId('');
+        await queryClient.invalidateQueries({ queryKey: ['churches'] });
+      } else {
+        toast({
+          title: 'Rollback Failed',
+          description: result.error || 'Failed to restore version',
+          variant: 'destructive'
+        });
+      }
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-destructive py-4">Failed to load version history.</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+        <p className="font-medium">No versions yet</p>
+        <p className="text-sm">A version is saved every time this church is approved.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Side-by-side diff */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <GitCompare className="w-4 h-4" />
+            Compare Versions
+          </CardTitle>
+          <CardDescription>Fields that differ between the two selected versions</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {[{ label: 'From', value: baseId, onChange: setBaseId }, { label: 'To', value: compareId, onChange: setCompareId }].map(picker => (
+              <div key={picker.label} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{picker.label}</Label>
+                <Select value={picker.value} onValueChange={picker.onChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(v => (
+                      <SelectItem key={v.id} value={v.id || ''}>
+                        v{v.versionNumber} · {getVersionReasonLabel(v.reason)} · {formatDate(v)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No differences between these versions.</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {changes.map(change => (
+                <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-3 p-3 text-xs">
+                  <span className="font-medium text-gray-700">{getFieldLabel(change.field)}</span>
+                  <pre className="whitespace-pre-wrap break-words font-sans bg-red-50 text-red-900 rounded p-2 max-h-40 overflow-auto">
+                    {formatValue(change.oldValue)}
+                  </pre>
+                  <pre className="whitespace-pre-wrap break-words font-sans bg-green-50 text-green-900 rounded p-2 max-h-40 overflow-auto">
+                    {formatValue(change.newValue)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Version list */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="w-4 h-4" />
+            Version History
+            <Badge variant="secondary" className="ml-1">{versions.length}</Badge>
+          </CardTitle>
+          {canRollback && (
+            <CardDescription>Restoring a version keeps the church published and records a new version.</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {canRollback && (
+            <div className="space-y-1">
+              <Label htmlFor="rollback-note" className="text-xs text-muted-foreground">Reason for rollback</Label>
+              <Textarea
+                id="rollback-note"
+                value={rollbackNote}
+                onChange={(e) => setRollbackNote(e.target.value)}
+                placeholder="Required when restoring a version"
+                rows={2}
+              />
+            </div>
+          )}
+          {versions.map((version, index) => (
+            <div key={version.id} className="flex items-start justify-between gap-3 border rounded-lg p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-semibold text-sm">Version {version.versionNumber}</span>
+                  <Badge variant="outline" className="text-xs">{getVersionReasonLabel(version.reason)}</Badge>
+                  {index === 0 && <Badge className="text-xs bg-green-100 text-green-800 border-green-300">Current</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDate(version)} · {version.createdBy.name || version.createdBy.email || version.createdBy.uid}
+                  {version.restoredFromVersion !== undefined && ` · restored from v${version.restoredFromVersion}`}
+                </p>
+                {version.note && <p className="text-xs text-gray-700 mt-1 italic">"{version.note}"</p>}
+              </div>
+              {canRollback && index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(version)}
+                  disabled={isRollingBack || !rollbackNote.trim()}
+                  className="flex-shrink-0"
+                >
+                  {isRollingBack ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                  )}
+                  Restore
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * FILE PURPOSE: Email Delivery Status Component
+ *
+ * Shows the chancery what happened to outgoing email: today's usage of the
+ * Gmail daily limit, how many messages are in each outbox status, and the
+ * most recent messages with their attempts and last error. Failed
+ * (dead-lettered) messages can be requeued.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Mail, RefreshCw, RotateCcw } from 'lucide-react';
+import {
+  EMAIL_CATEGORY_LABELS,
+  EMAIL_STATUS_LABELS,
+  getEmailOutbox,
+  requeueOutboxEmail,
+  type EmailOutboxSummary,
+} from '@/lib/email-outbox';
+import { EMAIL_OUTBOX_STATUSES, type EmailOutboxStatus } from '@shared/emailOutbox';
+
+const ALL_STATUSES = 'all';
+
+const STATUS_BADGE_CLASSES: Record<EmailOutboxStatus, string> = {
+  queued: 'bg-blue-100 text-blue-800',
+  sending: 'bg-blue-100 text-blue-800',
+  retrying: 'bg-amber-100 text-amber-800',
+  deferred: 'bg-gray-100 text-gray-800',
+  sent: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-PH', { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+export const EmailOutboxViewer = () => {
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<EmailOutboxSummary | null>(null);
+  const [statusFilter, setStatusFilter] = useState<EmailOutboxStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [requeueingId, setRequeueingId] = useState<string | null>(null);
+
+  const loadOutbox = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSummary(await getEmailOutbox(statusFilter === ALL_STATUSES ? undefined : statusFilter));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load email delivery status');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadOutbox();
+  }, [loadOutbox]);
+
+  const handleRequeue = async (emailId: string) => {
+    try {
+      setRequeueingId(emailId);
+      const result = await requeueOutboxEmail(emailId);
+      toast({
+        title: result === 'sent' ? 'Email Sent' : 'Email Requeued',
+        description: result === 'sent'
+          ? 'The email was delivered.'
+          : 'The email is back in the outbox and will be retried automatically.',
+      });
+      await loadOutbox();
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to requeue email',
+        variant: 'destructive',
+      });
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
+  const quota = summary?.quota;
+  const normalLimit = quota ? quota.limit - quota.urgentReserve : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="w-5 h-5" />
+            Today's Sending Limit
+          </CardTitle>
+          <CardDescription>
+            Gmail allows {quota?.limit ?? 500} emails per day. After {normalLimit || 450}, notification
+            email waits until tomorrow so password resets and verifications still go out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading && !summary ? (
+            <Skeleton className="h-16 w-full" />
+          ) : quota ? (
+            <>
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="font-medium text-gray-900">{quota.sent} of {quota.limit} sent ({quota.day})</span>
+                {quota.deferred > 0 && (
+                  <span className="text-gray-500">{quota.deferred} deferred to tomorrow</span>
+                )}
+              </div>
+              <Progress value={Math.min(100, (quota.sent / quota.limit) * 100)} />
+              <div className="flex flex-wrap gap-2">
+                {EMAIL_OUTBOX_STATUSES.map(status => (
+                  <Badge key={status} variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+                    {EMAIL_STATUS_LABELS[status]}: {summary.counts[status] ?? 0}
+                  </Badge>
+                ))}
+              </div>
+            </>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Recent Emails</CardTitle>
+            <CardDescription>Newest first. Failed emails can be sent again.</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => setStatusFilter(value as EmailOutboxStatus | typeof ALL_STATUSES)}
+            >
+              <SelectTrigger className="w-48" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                {EMAIL_OUTBOX_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{EMAIL_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={loadOutbox} disabled={loading} aria-label="Refresh">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : loading && !summary ? (
+            <div className="space-y-2">
+              {[0, 1, 2].map(index => <Skeleton key={index} className="h-14 w-full" />)}
+            </div>
+          ) : !summary?.emails.length ? (
+            <p className="text-sm text-gray-500 py-6 text-center">No emails to show</p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {summary.emails.map(email => (
+                <div key={email.id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 truncate">{email.subject}</p>
+                      {email.priority === 'urgent' && <Badge variant="outline">Urgent</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {EMAIL_CATEGORY_LABELS[email.category] || email.category} · {email.to} · queued {formatDateTime(email.createdAt)}
+                    </p>
+                    {email.status === 'sent' ? (
+                      <p className="text-xs text-gray-500">Sent {formatDateTime(email.sentAt)}</p>
+                    ) : email.nextAttemptAt && email.status !== 'dead' ? (
+                      <p className="text-xs text-gray-500">Next attempt {formatDateTime(email.nextAttemptAt)}</p>
+                    ) : null}
+                    {email.lastError && email.status !== 'sent' && (
+                      <p className="text-xs text-red-600 break-words">
+                        Attempt {email.attempts}: {email.lastError}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant="outline" className={STATUS_BADGE_CLASSES[email.status]}>
+                    {EMAIL_STATUS_LABELS[email.status]}
+                  </Badge>
+                  {email.status === 'dead' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRequeue(email.id)}
+                      disabled={requeueingId === email.id}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
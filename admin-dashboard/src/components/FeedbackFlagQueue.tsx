@@ -0,0 +1,325 @@
+/**
+ * FILE PURPOSE: Flag and Appeal Queue for Feedback Moderation (Chancery)
+ *
+ * Lists appeals from visitors whose feedback is hidden, and feedback with open
+ * flags from visitors and parishes, grouped per feedback with the reasons
+ * given. The chancery reinstates or keeps hidden appealed feedback, and
+ * dismisses or upholds flags. Also lets the Chancery Office set how many open
+ * flags hide feedback automatically in the diocese.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { CheckCircle2, Flag, Loader2, Save, Scale, Settings2 } from 'lucide-react';
+import {
+  decideFeedbackAppeal,
+  getFeedbackFlagSettings,
+  resolveFeedbackFlags,
+  updateFeedbackFlagSettings,
+  type FeedbackAppeal,
+  type FeedbackFlag,
+} from '@/lib/feedback-flags';
+import {
+  FEEDBACK_FLAG_REASON_LABELS,
+  MAX_AUTO_HIDE_FLAG_COUNT,
+  countFlagReasons,
+} from '@shared/feedbackFlags';
+
+export interface FlaggableFeedback {
+  id: string;
+  subject: string;
+  message: string;
+  churchName: string;
+  status: 'published' | 'hidden' | 'pending';
+  hiddenReason?: string;
+}
+
+interface FeedbackFlagQueueProps {
+  flags: FeedbackFlag[];
+  appeals: FeedbackAppeal[];
+  feedback: FlaggableFeedback[];
+  onStatusChange: (feedbackId: string, status: 'published' | 'hidden') => void;
+}
+
+const timeAgo = (date: Date | null) =>
+  date ? formatDistanceToNow(date, { addSuffix: true }) : 'just now';
+
+export const FeedbackFlagQueue = ({ flags, appeals, feedback, onStatusChange }: FeedbackFlagQueueProps) => {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const diocese = userProfile?.diocese;
+  const [showSettings, setShowSettings] = useState(false);
+  const [draftCount, setDraftCount] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: settings } = useQuery({
+    queryKey: ['feedback-settings', diocese],
+    queryFn: () => getFeedbackFlagSettings(diocese!),
+    enabled: !!diocese,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (settings) setDraftCount(settings.autoHideFlagCount);
+  }, [settings]);
+
+  const feedbackById = useMemo(() => new Map(feedback.map(item => [item.id, item])), [feedback]);
+
+  // Open flags per feedback, most flagged first
+  const flaggedFeedback = useMemo(() => {
+    const grouped = new Map<string, FeedbackFlag[]>();
+    flags.forEach(flag => grouped.set(flag.feedbackId, [...(grouped.get(flag.feedbackId) || []), flag]));
+    return [...grouped.entries()]
+      .map(([feedbackId, items]) => ({ feedbackId, flags: items }))
+      .sort((a, b) => b.flags.length - a.flags.length);
+  }, [flags]);
+
+  const handleSaveSettings = async () => {
+    if (!userProfile || !diocese || draftCount === null) return;
+
+    setIsSaving(true);
+    try {
+      const result = await updateFeedbackFlagSettings(diocese, { autoHideFlagCount: draftCount }, userProfile);
+      if (result.success) {
+        toast({ title: 'Threshold Updated', description: `Feedback is now hidden after ${draftCount} open flags.` });
+        setShowSettings(false);
+        await queryClient.invalidateQueries({ queryKey: ['feedback-settings', diocese] });
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to update threshold', variant: 'destructive' });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const run = async (id: string, action: () => Promise<void>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast({ title: 'Success', description: success });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResolveFlags = (feedbackId: string, feedbackFlags: FeedbackFlag[], resolution: 'dismissed' | 'upheld') => {
+    if (!userProfile) return;
+    const item = feedbackById.get(feedbackId);
+    run(feedbackId, async () => {
+      await resolveFeedbackFlags(feedbackId, feedbackFlags, resolution, userProfile);
+      if (resolution === 'dismissed' && item?.status === 'hidden' && item.hiddenReason === 'flags') {
+        onStatusChange(feedbackId, 'published');
+      } else if (resolution === 'upheld' && item?.status === 'published') {
+        onStatusChange(feedbackId, 'hidden');
+      }
+    }, resolution === 'dismissed' ? 'Flags dismissed.' : 'Flags upheld. The feedback stays hidden.');
+  };
+
+  const handleDecideAppeal = (appeal: FeedbackAppeal, decision: 'reinstated' | 'upheld') => {
+    if (!userProfile) return;
+    const openFlags = flags.filter(flag => flag.feedbackId === appeal.feedbackId);
+    run(appeal.id, async () => {
+      await decideFeedbackAppeal(appeal, decision, notes[appeal.id] || '', openFlags, userProfile);
+      if (decision === 'reinstated') onStatusChange(appeal.feedbackId, 'published');
+    }, decision === 'reinstated'
+      ? 'Feedback reinstated. The visitor will be notified.'
+      : 'Appeal denied. The visitor will be notified.');
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                <Scale className="w-5 h-5 text-orange-600" />
+                Appeals
+                {appeals.length > 0 && <Badge variant="destructive" className="ml-1">{appeals.length}</Badge>}
+              </CardTitle>
+              <CardDescription>Visitors asking for their hidden feedback to be reviewed again</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {appeals.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <CheckCircle2 className="w-10 h-10 mx-auto mb-2 text-green-500" />
+              <p className="text-sm">No appeals waiting for a decision.</p>
+            </div>
+          ) : appeals.map(appeal => {
+            const item = feedbackById.get(appeal.feedbackId);
+            const openFlagCount = flags.filter(flag => flag.feedbackId === appeal.feedbackId).length;
+            return (
+              <div key={appeal.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-semibold text-gray-900">{item?.subject || appeal.feedbackSubject}</span>
+                  <span className="text-muted-foreground">{item?.churchName || appeal.churchName}</span>
+                  {item?.hiddenReason === 'flags' && (
+                    <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800">Hidden after flags</Badge>
+                  )}
+                  {openFlagCount > 0 && <Badge variant="outline" className="text-xs">{openFlagCount} open flags</Badge>}
+                  <span className="text-xs text-muted-foreground">{timeAgo(appeal.createdAt)}</span>
+                </div>
+                {item?.message && <p className="text-xs sm:text-sm text-gray-600 line-clamp-3">{item.message}</p>}
+                <div className="rounded bg-blue-50 border border-blue-100 p-2 text-xs sm:text-sm">
+                  <span className="font-medium text-blue-900">Visitor's appeal: </span>
+                  <span className="text-blue-900 whitespace-pre-line">{appeal.message}</span>
+                </div>
+                <Textarea
+                  value={notes[appeal.id] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [appeal.id]: e.target.value }))}
+                  placeholder="Note to the visitor (optional)"
+                  rows={2}
+                  maxLength={500}
+                />
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId === appeal.id}
+                    onClick={() => handleDecideAppeal(appeal, 'upheld')}
+                  >
+                    Keep hidden
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700"
+                    disabled={busyId === appeal.id}
+                    onClick={() => handleDecideAppeal(appeal, 'reinstated')}
+                  >
+                    {busyId === appeal.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Reinstate
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                <Flag className="w-5 h-5 text-red-600" />
+                Flagged Feedback
+                {flaggedFeedback.length > 0 && <Badge variant="destructive" className="ml-1">{flaggedFeedback.length}</Badge>}
+              </CardTitle>
+              <CardDescription>
+                {settings
+                  ? `Published feedback is hidden automatically after ${settings.autoHideFlagCount} open flags`
+                  : 'Loading auto-hide threshold...'}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowSettings(prev => !prev)}>
+              <Settings2 className="w-4 h-4 mr-1" />
+              Threshold
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {showSettings && draftCount !== null && (
+            <div className="border rounded-lg p-4 bg-muted/30 space-y-3">
+              <div className="space-y-1 max-w-xs">
+                <Label htmlFor="auto-hide-flag-count" className="text-xs">Open flags before feedback is hidden</Label>
+                <Input
+                  id="auto-hide-flag-count"
+                  type="number"
+                  min={1}
+                  max={MAX_AUTO_HIDE_FLAG_COUNT}
+                  value={draftCount}
+                  onChange={(e) => setDraftCount(Number(e.target.value))}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSaveSettings} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {flaggedFeedback.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <CheckCircle2 className="w-10 h-10 mx-auto mb-2 text-green-500" />
+              <p className="text-sm">No open flags.</p>
+            </div>
+          ) : flaggedFeedback.map(({ feedbackId, flags: feedbackFlags }) => {
+            const item = feedbackById.get(feedbackId);
+            const isHidden = item?.status === 'hidden';
+            return (
+              <div key={feedbackId} className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-semibold text-gray-900">{item?.subject || 'Visitor feedback'}</span>
+                  <span className="text-muted-foreground">{item?.churchName || feedbackFlags[0].churchName}</span>
+                  <Badge variant="destructive" className="text-xs">{feedbackFlags.length} flags</Badge>
+                  {isHidden && (
+                    <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800">
+                      {item?.hiddenReason === 'flags' ? 'Hidden after flags' : 'Hidden'}
+                    </Badge>
+                  )}
+                </div>
+                {item?.message && <p className="text-xs sm:text-sm text-gray-600 line-clamp-3">{item.message}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {countFlagReasons(feedbackFlags).map(({ reason, count }) => (
+                    <Badge key={reason} variant="outline" className="text-xs">
+                      {FEEDBACK_FLAG_REASON_LABELS[reason]} × {count}
+                    </Badge>
+                  ))}
+                </div>
+                <ul className="space-y-1">
+                  {feedbackFlags.filter(flag => flag.details).map(flag => (
+                    <li key={flag.id} className="text-xs text-muted-foreground">
+                      <span className="font-medium">{flag.reporterRole === 'parish' ? 'Parish' : 'Visitor'}</span>
+                      {' '}({timeAgo(flag.createdAt)}): {flag.details}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId === feedbackId}
+                    onClick={() => handleResolveFlags(feedbackId, feedbackFlags, 'dismissed')}
+                  >
+                    {isHidden && item?.hiddenReason === 'flags' ? 'Dismiss and restore' : 'Dismiss flags'}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    disabled={busyId === feedbackId}
+                    onClick={() => handleResolveFlags(feedbackId, feedbackFlags, 'upheld')}
+                  >
+                    {busyId === feedbackId && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    {isHidden ? 'Uphold flags' : 'Uphold and hide'}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
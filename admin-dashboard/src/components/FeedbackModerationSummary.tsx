@@ -0,0 +1,56 @@
+/**
+ * FILE PURPOSE: Automatic Moderation Verdict for Held Feedback
+ *
+ * Shows a pending review's text with the terms that automatic moderation
+ * flagged highlighted, followed by why it was held back (profanity, links,
+ * burst submissions, near-duplicates). Feedback without a verdict (submitted
+ * before automatic moderation, or the pass failed) shows its plain text.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import {
+  FEEDBACK_MODERATION_CHECK_LABELS,
+  splitFlaggedTerms,
+} from '@shared/feedbackModeration';
+import type { FeedbackModeration } from '@/services/feedbackService';
+
+interface FeedbackModerationSummaryProps {
+  message: string;
+  moderation?: FeedbackModeration;
+}
+
+export const FeedbackModerationSummary = ({ message, moderation }: FeedbackModerationSummaryProps) => {
+  const segments = splitFlaggedTerms(message, moderation?.flaggedTerms || []);
+  const reasons = moderation?.reasons || [];
+
+  return (
+    <div className="space-y-2 mb-2">
+      <p className="text-gray-600 text-sm whitespace-pre-line">
+        {segments.map((segment, index) =>
+          segment.flagged ? (
+            <mark key={index} className="bg-red-100 text-red-800 rounded px-0.5">{segment.text}</mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </p>
+      {reasons.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <AlertTriangle className="w-3 h-3 text-orange-600" aria-hidden="true" />
+          {reasons.map((reason, index) => (
+            <Badge
+              key={index}
+              variant="outline"
+              className="text-xs border-orange-300 text-orange-800 bg-orange-50"
+              title={FEEDBACK_MODERATION_CHECK_LABELS[reason.check]}
+            >
+              {reason.message}
+              {reason.terms?.length ? `: ${reason.terms.join(', ')}` : ''}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
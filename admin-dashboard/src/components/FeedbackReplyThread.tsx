@@ -0,0 +1,302 @@
+/**
+ * FILE PURPOSE: Official Reply Thread on Visitor Feedback
+ *
+ * Shows the replies to one feedback as a thread, each with its author's role
+ * badge, and lets parish secretaries (for their own church) and the Chancery
+ * Office reply, answer a reply, and edit or hide their own replies from the
+ * public. Edited replies keep their earlier versions, shown on request. The
+ * Chancery Office can also hide any reply (moderation).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { Eye, EyeOff, History, Loader2, MessageSquare, Pencil, Reply, ShieldOff } from 'lucide-react';
+import {
+  addFeedbackReply,
+  buildReplyThreads,
+  canReplyToFeedback,
+  editFeedbackReply,
+  moderateFeedbackReply,
+  setFeedbackReplyVisibility,
+  subscribeToFeedbackReplies,
+  type FeedbackReply,
+  type FeedbackReplyNode,
+} from '@/lib/feedback-replies';
+import {
+  FEEDBACK_REPLY_ROLE_LABELS,
+  MAX_FEEDBACK_REPLY_LENGTH,
+  type FeedbackReplyAuthorRole,
+} from '@shared/feedbackReplies';
+
+interface FeedbackReplyThreadProps {
+  feedbackId: string;
+  churchId: string;
+}
+
+const ROLE_BADGE_CLASSES: Record<FeedbackReplyAuthorRole, string> = {
+  parish: 'bg-green-100 text-green-800 border-green-200',
+  chancery_office: 'bg-blue-100 text-blue-800 border-blue-200',
+  visitor: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+const formatDate = (date: Date | null) =>
+  date
+    ? date.toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: true })
+    : 'Just now';
+
+interface ReplyComposerProps {
+  initialText?: string;
+  submitLabel: string;
+  showVisibility?: boolean;
+  onSubmit: (text: string, visible: boolean) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const ReplyComposer = ({ initialText = '', submitLabel, showVisibility, onSubmit, onCancel }: ReplyComposerProps) => {
+  const [text, setText] = useState(initialText);
+  const [visible, setVisible] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit(text, visible);
+      setText('');
+    } catch {
+      // Already reported by the parent; keep the text so it can be retried
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Write an official reply..."
+        maxLength={MAX_FEEDBACK_REPLY_LENGTH}
+        rows={3}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {showVisibility ? (
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Switch checked={visible} onCheckedChange={setVisible} />
+            {visible ? 'Visible to the public' : 'Staff only'}
+          </label>
+        ) : <span />}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={isSaving || !text.trim()}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const FeedbackReplyThread = ({ feedbackId, churchId }: FeedbackReplyThreadProps) => {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const [replies, setReplies] = useState<FeedbackReply[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+
+  const canReply = canReplyToFeedback(userProfile, churchId);
+  const canModerate = userProfile?.role === 'chancery_office';
+  const threads = useMemo(() => buildReplyThreads(replies), [replies]);
+
+  useEffect(() => {
+    if (!userProfile?.diocese) return;
+    setIsLoading(true);
+    return subscribeToFeedbackReplies(feedbackId, userProfile.diocese, (items) => {
+      setReplies(items);
+      setIsLoading(false);
+    });
+  }, [feedbackId, userProfile?.diocese]);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({ title: 'Success', description: success });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  const handleReply = (parentReplyId: string | null) => async (text: string, visible: boolean) => {
+    if (!userProfile) return;
+    await run(
+      () => addFeedbackReply(feedbackId, churchId, text, userProfile, { parentReplyId, visible }).then(() => undefined),
+      visible ? 'Reply posted. The visitor will be notified.' : 'Reply saved for staff only.'
+    );
+    setReplyingTo(null);
+  };
+
+  const handleEdit = (reply: FeedbackReply) => async (text: string) => {
+    if (!userProfile) return;
+    await run(() => editFeedbackReply(reply, text, userProfile), 'Reply updated.');
+    setEditingId(null);
+  };
+
+  const renderNode = ({ reply, children }: FeedbackReplyNode, depth: number) => {
+    const isAuthor = reply.authorId === userProfile?.uid;
+    const isHidden = reply.status === 'hidden';
+
+    return (
+      <div key={reply.id} className={cn(depth > 0 && 'ml-4 sm:ml-6 border-l pl-3 sm:pl-4')}>
+        <div className={cn('rounded-lg border p-3 space-y-2', (isHidden || !reply.visible) && 'bg-gray-50 opacity-80')}>
+          <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+            <span className="font-medium text-gray-900">{reply.authorName}</span>
+            <Badge variant="outline" className={cn('text-xs', ROLE_BADGE_CLASSES[reply.authorRole])}>
+              {FEEDBACK_REPLY_ROLE_LABELS[reply.authorRole]}
+            </Badge>
+            <span className="text-muted-foreground">{formatDate(reply.createdAt)}</span>
+            {reply.editHistory.length > 0 && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-muted-foreground hover:text-gray-900"
+                onClick={() => setHistoryOpenId(historyOpenId === reply.id ? null : reply.id)}
+              >
+                <History className="w-3 h-3" />
+                edited
+              </button>
+            )}
+            {!reply.visible && <Badge variant="secondary" className="text-xs">Staff only</Badge>}
+            {isHidden && <Badge variant="destructive" className="text-xs">Hidden by chancery</Badge>}
+          </div>
+
+          {editingId === reply.id ? (
+            <ReplyComposer
+              initialText={reply.text}
+              submitLabel="Save"
+              onSubmit={handleEdit(reply)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <p className="text-sm text-gray-800 whitespace-pre-line">{reply.text}</p>
+          )}
+
+          {isHidden && reply.moderationReason && (
+            <p className="text-xs text-red-700">Reason: {reply.moderationReason}</p>
+          )}
+
+          {historyOpenId === reply.id && (
+            <div className="space-y-1 border-t pt-2">
+              {[...reply.editHistory].reverse().map((edit, index) => (
+                <div key={index} className="text-xs text-muted-foreground">
+                  <span className="font-medium">{formatDate(edit.editedAt)}:</span>{' '}
+                  <span className="line-through">{edit.text}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1">
+            {canReply && (
+              <Button variant="ghost" size="sm" onClick={() => setReplyingTo(reply.id)}>
+                <Reply className="w-3 h-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {isAuthor && editingId !== reply.id && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(reply.id)}>
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => run(
+                    () => setFeedbackReplyVisibility(reply, !reply.visible),
+                    reply.visible ? 'Reply is now staff only.' : 'Reply is now visible to the public.'
+                  ).catch(() => undefined)}
+                >
+                  {reply.visible ? <EyeOff className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+                  {reply.visible ? 'Make staff only' : 'Make public'}
+                </Button>
+              </>
+            )}
+            {canModerate && userProfile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={isHidden ? 'text-green-700' : 'text-red-700'}
+                onClick={() => run(
+                  () => moderateFeedbackReply(reply, isHidden ? 'published' : 'hidden', userProfile),
+                  isHidden ? 'Reply restored.' : 'Reply hidden from the public.'
+                ).catch(() => undefined)}
+              >
+                <ShieldOff className="w-3 h-3 mr-1" />
+                {isHidden ? 'Restore' : 'Hide reply'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {replyingTo === reply.id && (
+          <div className="ml-4 sm:ml-6 mt-2">
+            <ReplyComposer
+              submitLabel="Reply"
+              showVisibility
+              onSubmit={handleReply(reply.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {children.length > 0 && (
+          <div className="mt-2 space-y-2">
+            {children.map((child) => renderNode(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center gap-1">
+        <MessageSquare className="w-4 h-4" />
+        Replies {replies.length > 0 && `(${replies.length})`}
+      </h4>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading replies...
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No replies yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {threads.map((node) => renderNode(node, 0))}
+        </div>
+      )}
+
+      {canReply && (
+        <ReplyComposer submitLabel="Post reply" showVisibility onSubmit={handleReply(null)} />
+      )}
+    </div>
+  );
+};
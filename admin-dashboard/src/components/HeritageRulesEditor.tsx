@@ -0,0 +1,292 @@
+/**
+ * FILE PURPOSE: Heritage Rules Editor (Museum Researcher)
+ *
+ * Edits the rules and weights used by the heritage significance engine
+ * (lib/heritage-detection.ts). Saving publishes a new rule version; earlier
+ * versions are kept so past assessments can still be explained.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, Plus, Save, Scale, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_HERITAGE_RULES,
+  loadHeritageRules,
+  saveHeritageRules,
+  validateHeritageRules,
+  type HeritageRuleSet,
+} from '@/lib/heritage-rules';
+
+type RuleKey = keyof HeritageRuleSet['rules'];
+
+const RULE_LABELS: Record<RuleKey, { label: string; description: string }> = {
+  declaredClassification: {
+    label: 'Declared ICP / NCT',
+    description: 'Declared heritage churches always go to museum validation',
+  },
+  foundingYear: {
+    label: 'Founding year',
+    description: 'Older churches score higher; the oldest matching tier is used',
+  },
+  architecturalStyle: {
+    label: 'Architectural style',
+    description: 'Matches if the recorded style contains one of these styles',
+  },
+  religiousClassification: {
+    label: 'Religious classification',
+    description: 'Shrines, jubilee churches and similar designations',
+  },
+  declarationDocuments: {
+    label: 'Declaration documents',
+    description: 'Heritage declaration or heritage documents are attached',
+  },
+  restorationHistory: {
+    label: 'Restoration history',
+    description: 'Restoration or preservation history has been recorded',
+  },
+};
+
+const toList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+export function HeritageRulesEditor() {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<HeritageRuleSet | null>(null);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: active, isLoading } = useQuery<HeritageRuleSet>({
+    queryKey: ['heritage-rules'],
+    queryFn: loadHeritageRules,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (active) setDraft(active);
+  }, [active]);
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const errors = validateHeritageRules(draft);
+
+  const updateRule = <K extends RuleKey>(key: K, changes: Partial<HeritageRuleSet['rules'][K]>) => {
+    setDraft({ ...draft, rules: { ...draft.rules, [key]: { ...draft.rules[key], ...changes } } });
+  };
+
+  const updateTier = (index: number, changes: { beforeYear?: number; weight?: number }) => {
+    const tiers = draft.rules.foundingYear.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier));
+    updateRule('foundingYear', { tiers });
+  };
+
+  const handleSave = async () => {
+    if (!userProfile) return;
+
+    setIsSaving(true);
+    try {
+      const result = await saveHeritageRules(draft, userProfile, note.trim() || undefined);
+      if (result.success) {
+        toast({ title: 'Rules Published', description: `Heritage rules v${result.version} are now active.` });
+        setNote('');
+        await queryClient.invalidateQueries({ queryKey: ['heritage-rules'] });
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to save rules', variant: 'destructive' });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5 text-amber-700" />
+              Heritage Significance Rules
+              <Badge variant="secondary">v{active?.version ?? 0}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Each matched rule adds its weight to the church's heritage score. Changes apply to new assessments immediately.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setDraft({ ...DEFAULT_HERITAGE_RULES, version: draft.version })}>
+            Reset to defaults
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Thresholds */}
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="threshold-detailed" className="text-xs">Detailed review at score</Label>
+            <Input
+              id="threshold-detailed"
+              type="number"
+              min={1}
+              value={draft.thresholds.detailedReview}
+              onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, detailedReview: Number(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="threshold-heritage" className="text-xs">Museum validation at score</Label>
+            <Input
+              id="threshold-heritage"
+              type="number"
+              min={1}
+              value={draft.thresholds.heritageReview}
+              onChange={(e) => setDraft({ ...draft, thresholds: { ...draft.thresholds, heritageReview: Number(e.target.value) } })}
+            />
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div className="border rounded-lg divide-y">
+          {(Object.keys(RULE_LABELS) as RuleKey[]).map(key => {
+            const rule = draft.rules[key];
+            return (
+              <div key={key} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-sm">{RULE_LABELS[key].label}</p>
+                    <p className="text-xs text-muted-foreground">{RULE_LABELS[key].description}</p>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <div className="flex items-center gap-1">
+                      <Label htmlFor={`weight-${key}`} className="text-xs text-muted-foreground">Weight</Label>
+                      <Input
+                        id={`weight-${key}`}
+                        type="number"
+                        min={1}
+                        max={3}
+                        className="w-16 h-8"
+                        value={rule.weight}
+                        onChange={(e) => updateRule(key, { weight: Number(e.target.value) })}
+                      />
+                    </div>
+                    <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(key, { enabled })} />
+                  </div>
+                </div>
+
+                {key === 'foundingYear' && rule.enabled && (
+                  <div className="space-y-2 pl-2">
+                    {draft.rules.foundingYear.tiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2 text-xs">
+                        <span className="text-muted-foreground">Founded before</span>
+                        <Input
+                          type="number"
+                          className="w-24 h-8"
+                          value={tier.beforeYear}
+                          onChange={(e) => updateTier(index, { beforeYear: Number(e.target.value) })}
+                        />
+                        <span className="text-muted-foreground">scores</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={3}
+                          className="w-16 h-8"
+                          value={tier.weight}
+                          onChange={(e) => updateTier(index, { weight: Number(e.target.value) })}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Remove tier"
+                          onClick={() => updateRule('foundingYear', {
+                            tiers: draft.rules.foundingYear.tiers.filter((_, i) => i !== index)
+                          })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateRule('foundingYear', {
+                        tiers: [...draft.rules.foundingYear.tiers, { beforeYear: 1900, weight: 1 }]
+                      })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" /> Add tier
+                    </Button>
+                  </div>
+                )}
+
+                {key === 'architecturalStyle' && rule.enabled && (
+                  <Input
+                    key={draft.rules.architecturalStyle.styles.join(',')}
+                    defaultValue={draft.rules.architecturalStyle.styles.join(', ')}
+                    placeholder="Comma-separated styles"
+                    onBlur={(e) => updateRule('architecturalStyle', { styles: toList(e.target.value) })}
+                  />
+                )}
+
+                {key === 'religiousClassification' && rule.enabled && (
+                  <Input
+                    key={draft.rules.religiousClassification.classifications.join(',')}
+                    defaultValue={draft.rules.religiousClassification.classifications.join(', ')}
+                    placeholder="Comma-separated classifications"
+                    onBlur={(e) => updateRule('religiousClassification', { classifications: toList(e.target.value) })}
+                  />
+                )}
+
+                {key === 'restorationHistory' && rule.enabled && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground">Minimum length (characters)</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20 h-8"
+                      value={draft.rules.restorationHistory.minLength}
+                      onChange={(e) => updateRule('restorationHistory', { minLength: Number(e.target.value) })}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-600 list-disc pl-5 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="rules-note" className="text-xs text-muted-foreground">Change note</Label>
+          <Textarea
+            id="rules-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Why are the rules changing? (optional)"
+            rows={2}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Publish v{(active?.version ?? 0) + 1}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
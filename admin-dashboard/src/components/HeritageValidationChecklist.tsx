@@ -12,16 +12,37 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
-import { Award, CheckCircle2, AlertTriangle, Loader2, BookOpen, ShieldCheck } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Award, CheckCircle2, AlertTriangle, Loader2, BookOpen, ShieldCheck, FileText, PenLine } from 'lucide-react';
 import type { Church } from '@/lib/churches';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  HERITAGE_CHECKLIST_ITEMS,
+  SIGNATURE_STATEMENT,
+  getEvidenceCandidates,
+  type HeritageValidationReportInput,
+} from '@/lib/heritage-validation-reports';
 
 interface HeritageValidationChecklistProps {
   church: Church | null;
   isOpen: boolean;
   onClose: () => void;
-  onValidate: (church: Church) => Promise<void>;
+  onValidate: (church: Church, report: HeritageValidationReportInput) => Promise<void>;
 }
 
+const INITIAL_CHECKS = {
+  // Security checks
+  noArtifactDetails: false,
+  noSecurityInfo: false,
+  noValuations: false,
+  // Heritage accuracy checks
+  historicalAccuracy: false,
+  heritageClassificationCorrect: false,
+  architecturalInfoVerified: false,
+  // (Removed cultural sensitivity and documentation/consent checks)
+};
+
 /**
  * Heritage Validation Checklist Dialog for Museum Researchers
  * 
@@ -33,6 +54,9 @@ interface HeritageValidationChecklistProps {
  * - Historical accuracy verification
  * - Cultural sensitivity review
  * - Heritage documentation verification
+ *
+ * The completed checklist, cited evidence, findings and the researcher's
+ * signature are passed to onValidate and saved as a signed validation report.
  */
 export function HeritageValidationChecklist({
   church,
@@ -40,42 +64,49 @@ export function HeritageValidationChecklist({
   onClose,
   onValidate,
 }: HeritageValidationChecklistProps) {
-  const [checks, setChecks] = useState({
-    // Security checks
-    noArtifactDetails: false,
-    noSecurityInfo: false,
-    noValuations: false,
-    // Heritage accuracy checks
-    historicalAccuracy: false,
-    heritageClassificationCorrect: false,
-    architecturalInfoVerified: false,
-    // (Removed cultural sensitivity and documentation/consent checks)
-  });
+  const { userProfile } = useAuth();
+  const [checks, setChecks] = useState(INITIAL_CHECKS);
+  const [evidenceUrls, setEvidenceUrls] = useState<Set<string>>(new Set());
+  const [findings, setFindings] = useState('');
+  const [signatureName, setSignatureName] = useState('');
+  const [signaturePosition, setSignaturePosition] = useState('');
+  const [attested, setAttested] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const allChecked = Object.values(checks).every(Boolean);
+  const isSigned = attested && signatureName.trim().length > 0;
   const securityChecksComplete = checks.noArtifactDetails && checks.noSecurityInfo && checks.noValuations;
   const heritageChecksComplete = checks.historicalAccuracy && checks.heritageClassificationCorrect && checks.architecturalInfoVerified;
 
+  const resetState = () => {
+    setChecks(INITIAL_CHECKS);
+    setEvidenceUrls(new Set());
+    setFindings('');
+    setSignatureName('');
+    setSignaturePosition('');
+    setAttested(false);
+  };
+
   const handleValidate = async () => {
-    if (!church || !allChecked) return;
+    if (!church || !allChecked || !isSigned) return;
+
+    const evidence = getEvidenceCandidates(church).filter(doc => doc.url && evidenceUrls.has(doc.url));
     
     setIsSubmitting(true);
     try {
-      await onValidate(church);
-      // Reset checks for next use
-      setChecks({
-        noArtifactDetails: false,
-        noSecurityInfo: false,
-        noValuations: false,
-        historicalAccuracy: false,
-        heritageClassificationCorrect: false,
-        architecturalInfoVerified: false,
-        religiousContentRespectful: false,
-        noUnpublishedDevotional: false,
-        supportingDocsReviewed: false,
-        parishConsentConfirmed: false,
+      await onValidate(church, {
+        checklist: HERITAGE_CHECKLIST_ITEMS.map(item => ({
+          ...item,
+          checked: checks[item.id as keyof typeof INITIAL_CHECKS] === true,
+        })),
+        evidence,
+        findings,
+        decision: 'validated',
+        signatureName,
+        signaturePosition,
       });
+      // Reset checks for next use
+      resetState();
       onClose();
     } finally {
       setIsSubmitting(false);
@@ -84,23 +115,14 @@ export function HeritageValidationChecklist({
 
   const handleClose = () => {
     // Reset checks when closing
-    setChecks({
-      noArtifactDetails: false,
-      noSecurityInfo: false,
-      noValuations: false,
-      historicalAccuracy: false,
-      heritageClassificationCorrect: false,
-      architecturalInfoVerified: false,
-      religiousContentRespectful: false,
-      noUnpublishedDevotional: false,
-      supportingDocsReviewed: false,
-      parishConsentConfirmed: false,
-    });
+    resetState();
     onClose();
   };
 
   if (!church) return null;
 
+  const evidenceCandidates = getEvidenceCandidates(church);
+
   const classificationLabel = church.classification === 'NCT' 
     ? 'National Cultural Treasure' 
     : church.classification === 'ICP' 
@@ -231,13 +253,98 @@ export function HeritageValidationChecklist({
 
 
 
+        <Separator />
+
+        {/* Evidence Section */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <FileText className={`w-4 h-4 ${evidenceUrls.size > 0 ? 'text-emerald-600' : 'text-gray-400'}`} />
+            <h4 className="font-medium text-sm">Evidence Reviewed</h4>
+          </div>
+          <div className="space-y-2 pl-6">
+            {evidenceCandidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No documents are attached to this church.</p>
+            ) : (
+              evidenceCandidates.map((document, index) => (
+                <div key={document.url || index} className="flex items-start space-x-3">
+                  <Checkbox
+                    id={`evidence-${index}`}
+                    checked={!!document.url && evidenceUrls.has(document.url)}
+                    onCheckedChange={(checked) => setEvidenceUrls(prev => {
+                      const next = new Set(prev);
+                      if (checked === true && document.url) next.add(document.url);
+                      else if (document.url) next.delete(document.url);
+                      return next;
+                    })}
+                  />
+                  <Label htmlFor={`evidence-${index}`} className="text-sm font-normal cursor-pointer leading-relaxed">
+                    {document.name}
+                  </Label>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="validation-findings" className="text-sm font-medium">Findings</Label>
+            <Textarea
+              id="validation-findings"
+              value={findings}
+              onChange={(e) => setFindings(e.target.value)}
+              placeholder="Summarize what you verified and any observations for the record"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Signature Block */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <PenLine className={`w-4 h-4 ${isSigned ? 'text-emerald-600' : 'text-gray-400'}`} />
+            <h4 className="font-medium text-sm">Signature</h4>
+            {isSigned && <CheckCircle2 className="w-4 h-4 text-emerald-600" />}
+          </div>
+          <div className="grid sm:grid-cols-2 gap-3 pl-6">
+            <div className="space-y-1">
+              <Label htmlFor="signature-name" className="text-xs text-muted-foreground">Full name</Label>
+              <Input
+                id="signature-name"
+                value={signatureName}
+                onChange={(e) => setSignatureName(e.target.value)}
+                placeholder={userProfile?.name || 'Your full name'}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signature-position" className="text-xs text-muted-foreground">Position</Label>
+              <Input
+                id="signature-position"
+                value={signaturePosition}
+                onChange={(e) => setSignaturePosition(e.target.value)}
+                placeholder={userProfile?.position || 'e.g. Heritage Specialist'}
+              />
+            </div>
+          </div>
+          <div className="flex items-start space-x-3 pl-6">
+            <Checkbox
+              id="signature-attest"
+              checked={attested}
+              onCheckedChange={(checked) => setAttested(checked === true)}
+            />
+            <Label htmlFor="signature-attest" className="text-xs font-normal cursor-pointer leading-relaxed text-gray-700">
+              {SIGNATURE_STATEMENT} Signed reports cannot be edited.
+            </Label>
+          </div>
+        </div>
+
         <DialogFooter className="flex gap-2 sm:gap-0 mt-4">
           <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
             Cancel
           </Button>
           <Button
             onClick={handleValidate}
-            disabled={!allChecked || isSubmitting}
+            disabled={!allChecked || !isSigned || isSubmitting}
             className="bg-amber-600 hover:bg-amber-700"
           >
             {isSubmitting ? (
@@ -248,7 +355,7 @@ export function HeritageValidationChecklist({
             ) : (
               <>
                 <Award className="w-4 h-4 mr-2" />
-                Validate & Publish
+                Sign, Validate & Publish
               </>
             )}
           </Button>
@@ -0,0 +1,169 @@
+/**
+ * FILE PURPOSE: Heritage Validation Reports (Church History)
+ *
+ * Lists the signed validation reports in churches/{churchId}/validation_reports
+ * on the History tab of ChurchDetailModal. Each report shows the checklist,
+ * evidence, findings and signature block, and can be exported as a PDF.
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCircle, Download, FileSignature, Loader2, XCircle } from 'lucide-react';
+import {
+  VALIDATION_SECTION_LABELS,
+  getHeritageValidationReports,
+  getValidationDecisionLabel,
+  type HeritageValidationReport,
+  type ValidationChecklistSection,
+} from '@/lib/heritage-validation-reports';
+import { PDFExportService } from '@/services/pdfExportService';
+
+interface Props {
+  churchId: string;
+}
+
+const formatDate = (report: HeritageValidationReport) =>
+  report.signature.signedAt?.toDate
+    ? report.signature.signedAt.toDate().toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    : 'Just now';
+
+export function HeritageValidationReports({ churchId }: Props) {
+  const { toast } = useToast();
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const { data: reports = [], isLoading, isError } = useQuery<HeritageValidationReport[]>({
+    queryKey: ['churches', churchId, 'validation_reports'],
+    queryFn: () => getHeritageValidationReports(churchId),
+    staleTime: 60 * 1000,
+  });
+
+  const handleExport = async (report: HeritageValidationReport) => {
+    setExportingId(report.id || null);
+    try {
+      await PDFExportService.exportHeritageValidationReport(report);
+    } catch (error) {
+      console.error('Error exporting validation report:', error);
+      toast({ title: 'Export Failed', description: 'Could not generate the report PDF.', variant: 'destructive' });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-destructive py-4">Failed to load validation reports.</p>;
+  }
+
+  if (reports.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border-0 bg-white/80 backdrop-blur">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center gap-2 text-gray-800">
+          <FileSignature className="w-4 h-4 text-amber-600" />
+          Heritage Validation Reports
+        </CardTitle>
+        <CardDescription>Signed by the Museum Researcher at each heritage validation.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reports.map(report => (
+          <div key={report.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={report.decision === 'validated'
+                      ? 'bg-green-50 text-green-700 border-green-300'
+                      : 'bg-red-50 text-red-700 border-red-300'}
+                  >
+                    {getValidationDecisionLabel(report.decision)}
+                  </Badge>
+                  {report.heritageRulesVersion !== undefined && (
+                    <Badge variant="secondary">Rules v{report.heritageRulesVersion}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Signed by {report.signature.name}
+                  {report.signature.position ? `, ${report.signature.position}` : ''} · {formatDate(report)}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExport(report)}
+                disabled={exportingId === report.id}
+              >
+                {exportingId === report.id
+                  ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  : <Download className="h-4 w-4 mr-1" />}
+                Export PDF
+              </Button>
+            </div>
+
+            {(Object.keys(VALIDATION_SECTION_LABELS) as ValidationChecklistSection[]).map(section => {
+              const items = report.checklist.filter(item => item.section === section);
+              if (items.length === 0) return null;
+              return (
+                <div key={section} className="space-y-1">
+                  <p className="text-xs font-semibold text-gray-700">{VALIDATION_SECTION_LABELS[section]}</p>
+                  {items.map(item => (
+                    <div key={item.id} className="flex items-start gap-2 text-xs text-gray-600">
+                      {item.checked
+                        ? <CheckCircle className="h-3.5 w-3.5 text-green-600 mt-0.5 flex-shrink-0" />
+                        : <XCircle className="h-3.5 w-3.5 text-red-500 mt-0.5 flex-shrink-0" />}
+                      {item.label}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+
+            {report.evidence.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-gray-700">Evidence reviewed</p>
+                <ul className="list-disc pl-5 text-xs">
+                  {report.evidence.map(evidence => (
+                    <li key={evidence.url || evidence.name}>
+                      {evidence.url ? (
+                        <a href={evidence.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {evidence.name}
+                        </a>
+                      ) : evidence.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.findings && (
+              <div className="space-y-1">
+                <p className="text-xs font-semibold text-gray-700">Findings</p>
+                <p className="text-sm text-gray-600 whitespace-pre-wrap">{report.findings}</p>
+              </div>
+            )}
+
+            <p className="text-xs italic text-muted-foreground border-t pt-2">{report.signature.statement}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
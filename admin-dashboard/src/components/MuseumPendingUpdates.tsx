@@ -7,6 +7,7 @@
  * The Museum Researcher can:
  * - View/edit the pending changes (especially heritage-related fields)
  * - Approve changes (merges to live profile)
+ * - Accept or reject individual fields, with a reason for each rejection
  *
  * Note: Only heritage churches in 'heritage_review' status with pendingChanges
  * are shown here. Non-heritage pending updates are handled by Chancery only.
@@ -16,7 +17,7 @@ import { useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { collection, query, where, getDocs, and } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { applyPendingChanges } from "@/lib/workflow-state-machine";
+import { applyPendingChanges, reviewPendingChangesByField } from "@/lib/workflow-state-machine";
 import { getFieldLabel } from "@/lib/church-field-categories";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -31,9 +32,11 @@ import {
   Edit3,
   Clock,
   FileEdit,
-  Landmark
+  Landmark,
+  ListChecks
 } from "lucide-react";
-import type { Church } from "@/types/church";
+import type { Church, PendingFieldDecision } from "@/types/church";
+import { PendingChangesReviewDialog } from "@/components/PendingChangesReviewDialog";
 
 interface Props {
   onViewChurch?: (church: Church) => void;
@@ -45,6 +48,7 @@ export function MuseumPendingUpdates({ onViewChurch, onEditChurch }: Props) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [processingChurchId, setProcessingChurchId] = useState<string | null>(null);
+  const [churchForFieldReview, setChurchForFieldReview] = useState<Church | null>(null);
 
   // Query for heritage churches with pending changes in heritage_review status
   const { data: churches, isLoading, isError } = useQuery<Church[]>({
@@ -132,6 +136,52 @@ export function MuseumPendingUpdates({ onViewChurch, onEditChurch }: Props) {
     }
   };
 
+  const handleFieldReview = async (church: Church, decisions: PendingFieldDecision[], note: string) => {
+    if (!userProfile) {
+      toast({
+        title: "Error",
+        description: "User profile not available",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setProcessingChurchId(church.id);
+
+    try {
+      const result = await reviewPendingChangesByField(
+        church.id,
+        userProfile,
+        decisions,
+        note || undefined
+      );
+
+      if (result.success) {
+        toast({
+          title: "Review Submitted",
+          description: `${church.name}: ${result.acceptedFields?.length ?? 0} field(s) published, ${result.rejectedFields?.length ?? 0} rejected.`
+        });
+
+        await queryClient.invalidateQueries({ queryKey: ["churches"] });
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to submit review",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error reviewing changes:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingChurchId(null);
+    }
+  };
+
   if (isLoading) {
     return (
       <Card className="border-amber-200">
@@ -293,6 +343,18 @@ export function MuseumPendingUpdates({ onViewChurch, onEditChurch }: Props) {
                 Review & Edit
               </Button>
 
+              {/* Field-by-field Review Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChurchForFieldReview(church)}
+                disabled={processingChurchId === church.id || !church.pendingChanges?.changedFields?.length}
+                className="border-amber-300 hover:bg-amber-100"
+              >
+                <ListChecks className="h-4 w-4 mr-1" />
+                Review Fields
+              </Button>
+
               <div className="flex-1" />
 
               {/* Approve Button */}
@@ -313,6 +375,14 @@ export function MuseumPendingUpdates({ onViewChurch, onEditChurch }: Props) {
           </div>
         ))}
       </CardContent>
+
+      <PendingChangesReviewDialog
+        church={churchForFieldReview}
+        isOpen={!!churchForFieldReview}
+        onClose={() => setChurchForFieldReview(null)}
+        onSubmit={handleFieldReview}
+        reviewerLabel="Museum Researcher"
+      />
     </Card>
   );
 }
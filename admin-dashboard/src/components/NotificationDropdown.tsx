@@ -50,7 +50,7 @@ export function NotificationDropdown() {
     if (!userProfile) return;
 
     // Mark as read if not already
-    if (!notification.readBy?.includes(userProfile.uid)) {
+    if (!notification.isRead) {
       markAsReadMutation.mutate({
         notificationId: notification.id!,
         userId: userProfile.uid,
@@ -101,10 +101,18 @@ export function NotificationDropdown() {
         return '🏛️';  // New museum staff registration
       case 'pending_update_submitted':
         return '📋';  // Parish submitted profile updates
+      case 'review_overdue':
+        return '⏰';  // Review SLA exceeded
+      case 'review_assigned':
+        return '📌';  // Review assigned to you
       case 'account_approved':
         return '🎉';  // Account activated
       case 'feedback_received':
         return '💬';  // New visitor feedback
+      case 'feedback_flagged':
+        return '🚩';  // Feedback held by automatic moderation or hidden after flags
+      case 'feedback_appeal':
+        return '⚖️';  // Visitor appealed hidden feedback
       default:
         return '📢';  // System notification
     }
@@ -125,7 +133,7 @@ export function NotificationDropdown() {
 
   const isUnread = (notification: Notification) => {
     if (!userProfile) return false;
-    return !notification.readBy?.includes(userProfile.uid);
+    return !notification.isRead;
   };
 
   const formatTimestamp = (timestamp: unknown) => {
@@ -243,11 +251,14 @@ export function NotificationDropdown() {
                       notification.type === 'heritage_validated' ? 'border-l-green-500 bg-green-50/50' :
                       notification.type === 'church_unpublished' ? 'border-l-red-500 bg-red-50/50' :
                       notification.type === 'pending_update_submitted' ? 'border-l-amber-500 bg-amber-50/50' :
+                      notification.type === 'review_overdue' ? 'border-l-red-600 bg-red-50/50' :
+                      notification.type === 'review_assigned' ? 'border-l-sky-500 bg-sky-50/50' :
+                      (notification.type === 'feedback_flagged' || notification.type === 'feedback_appeal') ? 'border-l-orange-500 bg-orange-50/50' :
                       (notification.type === 'chancellor_pending_approval' || notification.type === 'museum_staff_pending_approval' || notification.type === 'account_pending_approval') ? 'border-l-indigo-500 bg-indigo-50/50' :
                       'border-l-gray-500 bg-gray-50/50'
                     } ${isUnread(notification) ? '' : 'opacity-60'}`}
                     onClick={() => {
-                      if (!notification.readBy?.includes(userProfile?.uid || '')) {
+                      if (!notification.isRead) {
                         markAsReadMutation.mutate({
                           notificationId: notification.id!,
                           userId: userProfile?.uid || '',
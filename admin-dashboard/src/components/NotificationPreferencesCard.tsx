@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Bell, Loader2, Save } from 'lucide-react';
+import { getNotificationTypeOptions, saveNotificationPreferences } from '@/lib/notification-preferences';
+import {
+  getDefaultEmailDelivery,
+  normalizeNotificationPreferences,
+  WEEKLY_DIGEST_DAY,
+  type NotificationEmailDelivery,
+  type NotificationPreferences,
+  type NotificationTypePreference,
+} from '@shared/notificationPreferences';
+import { DEFAULT_EMAIL_LOCALE, EMAIL_LOCALES, parseEmailLocale, type EmailLocale } from '@shared/emailLocales';
+
+const DEFAULT_DELIVERY = 'default';
+
+const EMAIL_DELIVERY_LABELS: Record<NotificationEmailDelivery, string> = {
+  immediate: 'Immediately',
+  digest: 'In digest',
+  off: 'Off',
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * NotificationPreferencesCard - Per-type in-app and email delivery settings,
+ * the digest schedule and the email language for the signed-in user.
+ */
+export const NotificationPreferencesCard = () => {
+  const { userProfile, refreshUserProfile } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    normalizeNotificationPreferences(userProfile?.notificationPreferences)
+  );
+  const [emailLocale, setEmailLocale] = useState<EmailLocale>(
+    parseEmailLocale(userProfile?.emailLocale) || DEFAULT_EMAIL_LOCALE
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setPreferences(normalizeNotificationPreferences(userProfile?.notificationPreferences));
+  }, [userProfile?.notificationPreferences]);
+
+  useEffect(() => {
+    setEmailLocale(parseEmailLocale(userProfile?.emailLocale) || DEFAULT_EMAIL_LOCALE);
+  }, [userProfile?.emailLocale]);
+
+  if (!userProfile) return null;
+
+  const typeOptions = getNotificationTypeOptions(userProfile.role);
+
+  const updateType = (type: string, change: NotificationTypePreference) => {
+    setPreferences(prev => {
+      const entry = { ...prev.types[type], ...change };
+      if (entry.inApp !== false) delete entry.inApp;
+      if (!entry.email) delete entry.email;
+
+      const types = { ...prev.types };
+      if (Object.keys(entry).length) {
+        types[type] = entry;
+      } else {
+        delete types[type];
+      }
+      return { ...prev, types };
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveNotificationPreferences(userProfile.uid, preferences, emailLocale);
+      await refreshUserProfile();
+      toast({
+        title: 'Preferences Saved',
+        description: 'Your notification settings have been updated.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save notification preferences',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose which notifications appear in the dashboard and which are sent to {userProfile.email}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div>
+              <Label htmlFor="emailEnabled">Email notifications</Label>
+              <p className="text-sm text-gray-500">Turn off to stop all notification email</p>
+            </div>
+            <Switch
+              id="emailEnabled"
+              checked={preferences.emailEnabled}
+              onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, emailEnabled: checked }))}
+            />
+          </div>
+          <div className="rounded-lg border p-4">
+            <Label>Digest</Label>
+            <Select
+              value={preferences.digestFrequency}
+              onValueChange={(value) => setPreferences(prev => ({ ...prev, digestFrequency: value === 'weekly' ? 'weekly' : 'daily' }))}
+              disabled={!preferences.emailEnabled}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily, every morning</SelectItem>
+                <SelectItem value="weekly">Weekly, on {WEEKDAY_NAMES[WEEKLY_DIGEST_DAY]} morning</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="rounded-lg border p-4">
+            <Label>Email language</Label>
+            <Select
+              value={emailLocale}
+              onValueChange={(value) => setEmailLocale(parseEmailLocale(value) || DEFAULT_EMAIL_LOCALE)}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMAIL_LOCALES.map(locale => (
+                  <SelectItem key={locale.code} value={locale.code}>
+                    {locale.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="divide-y rounded-lg border">
+          <div className="hidden sm:grid grid-cols-[1fr_6rem_10rem] gap-4 px-4 py-2 text-xs font-medium uppercase text-gray-500">
+            <span>Notification</span>
+            <span className="text-center">In dashboard</span>
+            <span>Email</span>
+          </div>
+          {typeOptions.map(option => {
+            const typePreference = preferences.types[option.type] || {};
+            const defaultDelivery = getDefaultEmailDelivery(option.priority);
+            return (
+              <div key={option.type} className="grid grid-cols-1 sm:grid-cols-[1fr_6rem_10rem] gap-2 sm:gap-4 px-4 py-3 items-center">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                  <p className="text-xs text-gray-500">{option.description}</p>
+                </div>
+                <div className="flex sm:justify-center">
+                  <Switch
+                    checked={typePreference.inApp !== false}
+                    onCheckedChange={(checked) => updateType(option.type, { inApp: checked })}
+                    aria-label={`Show ${option.label} in dashboard`}
+                  />
+                </div>
+                <Select
+                  value={typePreference.email || DEFAULT_DELIVERY}
+                  onValueChange={(value) => updateType(option.type, {
+                    email: value === DEFAULT_DELIVERY ? undefined : value as NotificationEmailDelivery,
+                  })}
+                  disabled={!preferences.emailEnabled}
+                >
+                  <SelectTrigger aria-label={`Email for ${option.label}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_DELIVERY}>
+                      Default ({EMAIL_DELIVERY_LABELS[defaultDelivery].toLowerCase()})
+                    </SelectItem>
+                    {(Object.keys(EMAIL_DELIVERY_LABELS) as NotificationEmailDelivery[]).map(delivery => (
+                      <SelectItem key={delivery} value={delivery}>
+                        {EMAIL_DELIVERY_LABELS[delivery]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          By default, low-priority notifications are collected into the digest and everything else is
+          emailed as it happens.
+        </p>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            {isSaving ? 'Saving...' : 'Save Preferences'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
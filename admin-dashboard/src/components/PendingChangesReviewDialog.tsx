@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, ListChecks, Loader2, XCircle } from 'lucide-react';
+import { getFieldLabel } from '@/lib/church-field-categories';
+import type { Church, PendingFieldDecision } from '@/types/church';
+
+interface PendingChangesReviewDialogProps {
+  church: Church | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (church: Church, decisions: PendingFieldDecision[], note: string) => Promise<void>;
+  reviewerLabel?: string; // e.g. "Chancery Office" or "Museum Researcher"
+}
+
+/**
+ * Formats a live or proposed field value for side-by-side comparison.
+ */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '—' : value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join(', ');
+  }
+  return JSON.stringify(value, null, 2);
+};
+
+/**
+ * Reads the live value of a field. Coordinates are stored at root level
+ * (latitude/longitude) rather than under the form's coordinates key.
+ */
+const getLiveValue = (church: Church, field: string): unknown => {
+  const data = church as unknown as Record<string, unknown>;
+  if (field === 'coordinates' && data.latitude !== undefined) {
+    return { latitude: data.latitude, longitude: data.longitude };
+  }
+  return data[field];
+};
+
+/**
+ * Pending Changes Review Dialog
+ *
+ * Lets a reviewer accept or reject each staged field change separately.
+ * Rejected fields require a reason, which is reported back to the parish.
+ */
+export function PendingChangesReviewDialog({
+  church,
+  isOpen,
+  onClose,
+  onSubmit,
+  reviewerLabel = 'Reviewer'
+}: PendingChangesReviewDialogProps) {
+  const [decisions, setDecisions] = useState<Record<string, PendingFieldDecision>>({});
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const changedFields = church?.pendingChanges?.changedFields || [];
+  const pendingData = (church?.pendingChanges?.data || {}) as Record<string, unknown>;
+
+  // Default every field to accepted when a new church is opened
+  useEffect(() => {
+    if (!isOpen || !church) return;
+    const initial: Record<string, PendingFieldDecision> = {};
+    for (const field of church.pendingChanges?.changedFields || []) {
+      initial[field] = { field, decision: 'accept' };
+    }
+    setDecisions(initial);
+    setNote('');
+  }, [isOpen, church]);
+
+  const setDecision = (field: string, decision: PendingFieldDecision['decision']) => {
+    setDecisions(prev => ({ ...prev, [field]: { ...prev[field], field, decision } }));
+  };
+
+  const setReason = (field: string, reason: string) => {
+    setDecisions(prev => ({ ...prev, [field]: { ...prev[field], field, reason } }));
+  };
+
+  const decisionList = Object.values(decisions);
+  const acceptedCount = decisionList.filter(d => d.decision === 'accept').length;
+  const rejectedCount = decisionList.filter(d => d.decision === 'reject').length;
+  const missingReason = decisionList.some(d => d.decision === 'reject' && !d.reason?.trim());
+
+  const handleSubmit = async () => {
+    if (!church || missingReason) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(church, decisionList, note.trim());
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!church) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-blue-600" />
+            Review Changes Field by Field
+          </DialogTitle>
+          <DialogDescription>
+            Accept or reject each change the parish made to <strong>{church.name}</strong>. Accepted fields are published; rejected fields are discarded and the reason is sent to the parish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {changedFields.map((field) => {
+            const decision = decisions[field]?.decision;
+            const isRejected = decision === 'reject';
+            return (
+              <div
+                key={field}
+                className={`rounded-lg border p-3 space-y-2 ${isRejected ? 'border-red-200 bg-red-50/50' : 'border-green-200 bg-green-50/40'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className="text-xs">{getFieldLabel(field)}</Badge>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={decision === 'accept' ? 'default' : 'outline'}
+                      className={decision === 'accept' ? 'bg-green-600 hover:bg-green-700 h-7' : 'h-7'}
+                      onClick={() => setDecision(field, 'accept')}
+                    >
+                      <CheckCircle2 className="w-3.5 h-3.5 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={isRejected ? 'default' : 'outline'}
+                      className={isRejected ? 'bg-red-600 hover:bg-red-700 h-7' : 'h-7'}
+                      onClick={() => setDecision(field, 'reject')}
+                    >
+                      <XCircle className="w-3.5 h-3.5 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-2 text-xs">
+                  <div>
+                    <p className="font-medium text-muted-foreground mb-0.5">Current</p>
+                    <p className="whitespace-pre-wrap break-words line-clamp-6">{formatValue(getLiveValue(church, field))}</p>
+                  </div>
+                  <div>
+                    <p className="font-medium text-muted-foreground mb-0.5">Proposed</p>
+                    <p className="whitespace-pre-wrap break-words line-clamp-6">{formatValue(pendingData[field])}</p>
+                  </div>
+                </div>
+
+                {isRejected && (
+                  <Textarea
+                    value={decisions[field]?.reason || ''}
+                    onChange={(e) => setReason(field, e.target.value)}
+                    placeholder="Why is this change rejected? (required)"
+                    rows={2}
+                    className="text-sm bg-white"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="space-y-2">
+            <Label htmlFor="pending-review-note" className="text-sm font-medium">
+              Note from {reviewerLabel}
+            </Label>
+            <Textarea
+              id="pending-review-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional summary for the parish"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          <p className="text-xs text-muted-foreground mr-auto">
+            {acceptedCount} accepted • {rejectedCount} rejected
+          </p>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={missingReason || isSubmitting || changedFields.length === 0}>
+            {isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ListChecks className="w-4 h-4 mr-2" />
+            )}
+            Submit Review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
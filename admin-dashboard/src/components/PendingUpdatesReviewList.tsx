@@ -10,11 +10,13 @@
  * - Allows Chancery to view/edit pending data before approval
  * - For heritage churches, allows forwarding to Museum
  * - Applies changes to the live church profile upon approval
+ * - Field-by-field review: accept some fields, reject others with a reason
  *
  * WORKFLOW:
  * 1. Parish submits changes to approved church → stored in pendingChanges
  * 2. Chancery reviews and optionally edits the pending data
  * 3. Chancery approves → changes merged to live profile
+ *    OR Chancery reviews field by field → accepted fields merged, rejected fields reported to parish
  *    OR Chancery forwards to Museum (for heritage churches)
  * 4. Museum reviews → approves and merges changes
  */
@@ -23,7 +25,7 @@ import { useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { collection, query, where, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { applyPendingChanges, forwardPendingChangesToMuseum } from "@/lib/workflow-state-machine";
+import { applyPendingChanges, forwardPendingChangesToMuseum, reviewPendingChangesByField } from "@/lib/workflow-state-machine";
 import { getFieldLabel } from "@/lib/church-field-categories";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -40,10 +42,12 @@ import {
   Clock,
   FileEdit,
   Building2,
-  Landmark
+  Landmark,
+  ListChecks
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Church } from "@/types/church";
+import type { Church, PendingFieldDecision } from "@/types/church";
+import { PendingChangesReviewDialog } from "@/components/PendingChangesReviewDialog";
 import type { Diocese } from "@/contexts/AuthContext";
 
 interface Props {
@@ -57,6 +61,7 @@ export function PendingUpdatesReviewList({ diocese, onViewChurch, onEditChurch }
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [processingChurchId, setProcessingChurchId] = useState<string | null>(null);
+  const [churchForFieldReview, setChurchForFieldReview] = useState<Church | null>(null);
 
   // Query for churches with pending changes
   const { data: churches, isLoading, isError } = useQuery<Church[]>({
@@ -173,6 +178,52 @@ export function PendingUpdatesReviewList({ diocese, onViewChurch, onEditChurch }
     }
   };
 
+  const handleFieldReview = async (church: Church, decisions: PendingFieldDecision[], note: string) => {
+    if (!userProfile) {
+      toast({
+        title: "Error",
+        description: "User profile not available",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setProcessingChurchId(church.id);
+
+    try {
+      const result = await reviewPendingChangesByField(
+        church.id,
+        userProfile,
+        decisions,
+        note || undefined
+      );
+
+      if (result.success) {
+        toast({
+          title: "Review Submitted",
+          description: `${church.name}: ${result.acceptedFields?.length ?? 0} field(s) published, ${result.rejectedFields?.length ?? 0} rejected.`
+        });
+
+        await queryClient.invalidateQueries({ queryKey: ["churches"] });
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to submit review",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error reviewing changes:", error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingChurchId(null);
+    }
+  };
+
   const isHeritage = (church: Church) => {
     return church.classification === "ICP" || church.classification === "NCT";
   };
@@ -338,6 +389,18 @@ export function PendingUpdatesReviewList({ diocese, onViewChurch, onEditChurch }
                 Review & Edit
               </Button>
 
+              {/* Field-by-field Review Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChurchForFieldReview(church)}
+                disabled={processingChurchId === church.id || !church.pendingChanges?.changedFields?.length}
+                className="border-blue-300 text-blue-700 hover:bg-blue-50"
+              >
+                <ListChecks className="h-4 w-4 mr-1" />
+                Review Fields
+              </Button>
+
               <div className="flex-1" />
 
               {/* Forward to Museum (for heritage churches) */}
@@ -378,6 +441,14 @@ export function PendingUpdatesReviewList({ diocese, onViewChurch, onEditChurch }
           </div>
         ))}
       </CardContent>
+
+      <PendingChangesReviewDialog
+        church={churchForFieldReview}
+        isOpen={!!churchForFieldReview}
+        onClose={() => setChurchForFieldReview(null)}
+        onSubmit={handleFieldReview}
+        reviewerLabel="Chancery Office"
+      />
     </Card>
   );
 }
@@ -38,6 +38,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { UserFlagHistory } from '@/components/UserFlagHistory';
 
 interface PublicUser {
   id: string;
@@ -513,7 +514,7 @@ export const PublicUserManagement: React.FC<PublicUserManagementProps> = ({ chur
 
       {/* Account View Dialog */}
       <Dialog open={isAccountViewOpen} onOpenChange={setIsAccountViewOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Users className="w-5 h-5 text-blue-600" />
@@ -609,6 +610,9 @@ export const PublicUserManagement: React.FC<PublicUserManagementProps> = ({ chur
                 </Alert>
               )}
 
+              {/* Flags raised by and against this user, and their appeals */}
+              <UserFlagHistory userId={selectedUser.id} />
+
               {/* Action Buttons */}
               <div className="flex flex-col gap-2">
                 {selectedUser.isBlocked ? (
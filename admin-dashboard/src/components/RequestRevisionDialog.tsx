@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { FileEdit, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { Church } from '@/lib/churches';
+import type { RevisionComment } from '@/types/church';
+import { REVISION_FIELDS, getRevisionFieldLabel } from '@/lib/revision-requests';
+
+interface RequestRevisionDialogProps {
+  church: Church | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (church: Church, comments: RevisionComment[], note: string) => Promise<void>;
+  reviewerLabel?: string; // e.g. "Chancery Office" or "Museum Researcher"
+}
+
+/**
+ * Request Revision Dialog
+ *
+ * Lets a reviewer send a submission back to the parish with comments attached
+ * to specific form fields. The parish form highlights each flagged field and
+ * shows the comment next to it.
+ */
+export function RequestRevisionDialog({
+  church,
+  isOpen,
+  onClose,
+  onSubmit,
+  reviewerLabel = 'Reviewer'
+}: RequestRevisionDialogProps) {
+  const [comments, setComments] = useState<RevisionComment[]>([]);
+  const [selectedField, setSelectedField] = useState<string>('');
+  const [fieldComment, setFieldComment] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSubmit = comments.length > 0 || note.trim().length > 0;
+
+  const resetState = () => {
+    setComments([]);
+    setSelectedField('');
+    setFieldComment('');
+    setNote('');
+  };
+
+  const handleAddComment = () => {
+    if (!selectedField || !fieldComment.trim()) return;
+    setComments(prev => [...prev, { field: selectedField, comment: fieldComment.trim() }]);
+    setSelectedField('');
+    setFieldComment('');
+  };
+
+  const handleRemoveComment = (index: number) => {
+    setComments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (!church || !canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(church, comments, note.trim());
+      resetState();
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  if (!church) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileEdit className="w-5 h-5 text-red-600" />
+            Request Revision
+          </DialogTitle>
+          <DialogDescription>
+            Send <strong>{church.name}</strong> back to the parish. Flag the fields that need fixing so the parish can see exactly what to change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Per-field comment builder */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Flag a field</Label>
+            <Select value={selectedField} onValueChange={setSelectedField}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REVISION_FIELDS).map(([key, definition]) => (
+                  <SelectItem key={key} value={key}>{definition.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={fieldComment}
+              onChange={(e) => setFieldComment(e.target.value)}
+              placeholder="What should the parish change in this field?"
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddComment}
+                disabled={!selectedField || !fieldComment.trim()}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Comment
+              </Button>
+            </div>
+          </div>
+
+          {comments.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Flagged fields ({comments.length})</Label>
+              {comments.map((c, index) => (
+                <div key={`${c.field}-${index}`} className="flex items-start gap-2 p-2 rounded border border-red-200 bg-red-50">
+                  <div className="flex-1 min-w-0">
+                    <Badge variant="outline" className="text-xs border-red-300 text-red-700 mb-1">
+                      {getRevisionFieldLabel(c.field)}
+                    </Badge>
+                    <p className="text-sm text-red-900 break-words">{c.comment}</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-600 hover:bg-red-100"
+                    onClick={() => handleRemoveComment(index)}
+                    aria-label="Remove comment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* General note */}
+          <div className="space-y-2">
+            <Label htmlFor="revision-note" className="text-sm font-medium">
+              General note from {reviewerLabel}
+            </Label>
+            <Textarea
+              id="revision-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional summary of the requested changes"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit || isSubmitting}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileEdit className="w-4 h-4 mr-2" />
+            )}
+            Send Back to Parish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
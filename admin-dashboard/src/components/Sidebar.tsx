@@ -15,7 +15,7 @@
  * │                         │ Reports*, Account (*requires church approval)  │
  * │                         │                                                 │
  * │ chancery_office         │ Dashboard, Churches, Users, Announcements,     │
- * │                         │ Feedback, Reports, Settings                    │
+ * │                         │ Feedback, Reports, Email Delivery, Settings    │
  * │                         │                                                 │
  * │ museum_researcher       │ Dashboard, Approved Churches, Settings         │
  * └─────────────────────────┴─────────────────────────────────────────────────┘
@@ -70,6 +70,7 @@ import {
   Search,
   Filter,
   Users,
+  Mail,
 } from "lucide-react";
 import { cn, toTitleCase } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
@@ -135,6 +136,7 @@ const getNavigationItems = (role?: string, setActiveTab?: (tab: string) => void,
       { title: 'Announcements', url: '/announcements', icon: Megaphone },
       { title: 'Visitor Feedback', url: '/feedback', icon: MessageSquare },
       { title: 'Generate Reports', url: '/reports', icon: FileBarChart },
+      { title: 'Email Delivery', url: '/email-delivery', icon: Mail },
       { title: 'Account Settings', url: '/settings', icon: Settings },
     ];
   }
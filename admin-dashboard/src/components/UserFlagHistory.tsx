@@ -0,0 +1,108 @@
+/**
+ * FILE PURPOSE: Flag History of a Public User
+ *
+ * Shown in the public user account view: the flags the user raised on other
+ * visitors' feedback, the flags raised on their own feedback, and their
+ * appeals, within the viewer's diocese.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { Flag, Loader2, Scale } from 'lucide-react';
+import { getUserFlagHistory, type FeedbackFlag } from '@/lib/feedback-flags';
+import {
+  FEEDBACK_APPEAL_STATUS_LABELS,
+  FEEDBACK_FLAG_REASON_LABELS,
+  FEEDBACK_FLAG_STATUS_LABELS,
+  type FeedbackAppealStatus,
+  type FeedbackFlagStatus,
+} from '@shared/feedbackFlags';
+
+interface UserFlagHistoryProps {
+  userId: string;
+}
+
+const STATUS_CLASSES: Record<FeedbackFlagStatus | FeedbackAppealStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  upheld: 'bg-red-100 text-red-800',
+  dismissed: 'bg-gray-100 text-gray-700',
+  reinstated: 'bg-green-100 text-green-800',
+};
+
+const formatDate = (date: Date | null) =>
+  date ? date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Unknown';
+
+const FlagList = ({ title, flags, empty }: { title: string; flags: FeedbackFlag[]; empty: string }) => (
+  <div className="space-y-1">
+    <p className="text-xs font-medium text-gray-500 uppercase">{title} ({flags.length})</p>
+    {flags.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-1">
+        {flags.map(flag => (
+          <li key={flag.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-900">{FEEDBACK_FLAG_REASON_LABELS[flag.reason]}</span>
+            <span className="text-muted-foreground">{flag.churchName} • {formatDate(flag.createdAt)}</span>
+            <Badge className={cn('text-xs', STATUS_CLASSES[flag.status])}>{FEEDBACK_FLAG_STATUS_LABELS[flag.status]}</Badge>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const UserFlagHistory = ({ userId }: UserFlagHistoryProps) => {
+  const { userProfile } = useAuth();
+  const diocese = userProfile?.diocese;
+
+  const { data: history, isLoading, isError } = useQuery({
+    queryKey: ['user-flag-history', userId, diocese],
+    queryFn: () => getUserFlagHistory(userId, diocese!),
+    enabled: !!diocese,
+  });
+
+  return (
+    <div className="p-4 rounded-lg space-y-3 border border-gray-200">
+      <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+        <Flag className="w-4 h-4 text-red-600" />
+        Flag History
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading flag history...
+        </div>
+      ) : isError || !history ? (
+        <p className="text-sm text-muted-foreground">Failed to load flag history.</p>
+      ) : (
+        <>
+          <FlagList title="Flags on their feedback" flags={history.received} empty="None of their feedback has been flagged." />
+          <FlagList title="Flags they raised" flags={history.raised} empty="They have not flagged any feedback." />
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-gray-500 uppercase">Appeals ({history.appeals.length})</p>
+            {history.appeals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No appeals.</p>
+            ) : (
+              <ul className="space-y-1">
+                {history.appeals.map(appeal => (
+                  <li key={appeal.id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <Scale className="w-3 h-3 text-muted-foreground" />
+                    <span className="text-gray-900">{appeal.feedbackSubject}</span>
+                    <span className="text-muted-foreground">{appeal.churchName} • {formatDate(appeal.createdAt)}</span>
+                    <Badge className={cn('text-xs', STATUS_CLASSES[appeal.status])}>
+                      {FEEDBACK_APPEAL_STATUS_LABELS[appeal.status]}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
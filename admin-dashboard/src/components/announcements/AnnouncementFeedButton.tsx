@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, Filter, Rss } from 'lucide-react';
+import { ANNOUNCEMENT_CATEGORIES, type AnnouncementCategory } from '@/types/announcement';
+import { ANNOUNCEMENT_FEED_FORMATS, type AnnouncementFeedFormat } from '@/lib/announcement-feeds';
+
+interface AnnouncementFeedButtonProps {
+  getFeedUrl: (format: AnnouncementFeedFormat, categories: AnnouncementCategory[]) => string;
+  className?: string;
+}
+
+/**
+ * AnnouncementFeedButton - Copy the public RSS, Atom or JSON Feed link of a
+ * diocese or parish, optionally limited to some announcement types.
+ */
+export const AnnouncementFeedButton: React.FC<AnnouncementFeedButtonProps> = ({ getFeedUrl, className }) => {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<AnnouncementCategory[]>([]);
+
+  const copyLink = async (format: AnnouncementFeedFormat, label: string) => {
+    const feedUrl = getFeedUrl(format, categories);
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: `${label} Link Copied`,
+        description: 'Add it to your website or social media scheduler to publish new announcements automatically.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Copy Failed',
+        description: feedUrl,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleCategory = (category: AnnouncementCategory) => {
+    setCategories(current =>
+      current.includes(category) ? current.filter(c => c !== category) : [...current, category]
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className}>
+          <Rss className="w-4 h-4 mr-2" />
+          News Feed
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Published announcements for websites and feed readers
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Filter className="w-4 h-4 mr-2" />
+            {categories.length ? `${categories.length} type${categories.length === 1 ? '' : 's'}` : 'All types'}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {ANNOUNCEMENT_CATEGORIES.map(category => (
+              <DropdownMenuCheckboxItem
+                key={category}
+                checked={categories.includes(category)}
+                onCheckedChange={() => toggleCategory(category)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {category}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSeparator />
+        {ANNOUNCEMENT_FEED_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => copyLink(format, label)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy {label} Link
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
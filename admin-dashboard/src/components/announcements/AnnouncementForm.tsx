@@ -10,17 +10,37 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, MapPin, AlertCircle } from 'lucide-react';
-import type { Announcement, AnnouncementFormData } from '@/types/announcement';
+import { Calendar, Clock, MapPin, AlertCircle, Repeat, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import type {
+  Announcement,
+  AnnouncementFormData,
+  AnnouncementRecurrence,
+  AnnouncementTargets,
+  AnnouncementWeekday,
+} from '@/types/announcement';
 import { ANNOUNCEMENT_CATEGORIES } from '@/types/announcement';
+import {
+  ANNOUNCEMENT_WEEKDAYS,
+  describeAnnouncementRecurrence,
+  getUpcomingOccurrences,
+} from '@shared/announcementSchedule';
 import type { Diocese } from '@/contexts/AuthContext';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AnnouncementTargetPicker } from './AnnouncementTargetPicker';
 
 const announcementSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   description: z.string().min(1, 'Description is required').max(1000, 'Description too long'),
   scope: z.enum(['diocese', 'parish']),
   parishId: z.string().optional(),
+  targets: z.object({
+    type: z.enum(['parishes', 'vicariate', 'municipalities']),
+    parishIds: z.array(z.string()).optional(),
+    vicariateId: z.string().optional(),
+    vicariateName: z.string().optional(),
+    municipalities: z.array(z.string()).optional(),
+  }).nullable().optional(),
   eventDate: z.string().optional(), // Optional for non-event announcements
   eventTime: z.string().optional(), // Optional for non-event announcements
   endTime: z.string().optional(), // New: End time for events
@@ -28,6 +48,14 @@ const announcementSchema = z.object({
   category: z.string().min(1, 'Type is required'),
   customCategory: z.string().max(100, 'Custom type too long').optional(), // For custom types
   endDate: z.string().optional(), // Optional for non-event announcements
+  publishAt: z.string().optional(), // Empty publishes immediately
+  expireAt: z.string().optional(),
+  recurrence: z.object({
+    frequency: z.enum(['weekly', 'monthly']),
+    byDay: z.array(z.enum(['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])).min(1, 'Pick at least one day'),
+    ordinal: z.number().optional(),
+    until: z.string().optional(),
+  }).nullable().optional(),
 }).refine(
   (data) => {
     // If both dates are provided, validate end date is not before start date
@@ -70,8 +98,51 @@ const announcementSchema = z.object({
     message: 'Start time is required when end time is provided',
     path: ['eventTime'],
   }
+).refine(
+  (data) => {
+    if (!data.targets) return true;
+    if (data.targets.type === 'parishes') return !!data.targets.parishIds?.length;
+    if (data.targets.type === 'vicariate') return !!data.targets.vicariateId;
+    return !!data.targets.municipalities?.length;
+  },
+  {
+    message: 'Choose who should receive this announcement',
+    path: ['targets'],
+  }
+).refine(
+  (data) => !data.recurrence || !!data.eventDate,
+  {
+    message: 'A start date is required for repeating announcements',
+    path: ['eventDate'],
+  }
+).refine(
+  (data) => {
+    if (data.publishAt && data.expireAt) {
+      return new Date(data.expireAt) > new Date(data.publishAt);
+    }
+    return true;
+  },
+  {
+    message: 'Expiry must be after the publish date',
+    path: ['expireAt'],
+  }
 );
 
+const WEEKDAY_LABELS: Record<AnnouncementWeekday, string> = {
+  SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat',
+};
+
+const ORDINAL_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+// Value for <input type="datetime-local">
+const toDateTimeLocal = (date?: Date) => date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+
 interface AnnouncementFormProps {
   diocese: Diocese;
   announcement?: Announcement;
@@ -116,12 +187,54 @@ export const AnnouncementForm: React.FC<AnnouncementFormProps> = ({
       category: isCustomCategory ? 'Other' : announcement.category,
       customCategory: isCustomCategory ? announcement.category : '',
       endDate: announcement.endDate ? announcement.endDate.toISOString().split('T')[0] : '',
+      publishAt: announcement.status === 'scheduled' ? toDateTimeLocal(announcement.publishAt) : '',
+      expireAt: toDateTimeLocal(announcement.expireAt),
+      recurrence: announcement.recurrence || null,
+      targets: announcement.targets || null,
     } : {
       scope: forceParishScope ? 'parish' : 'diocese',
+      recurrence: null,
+      targets: null,
     },
   });
 
   const scope = watch('scope');
+  const recurrence = watch('recurrence');
+  const targets = watch('targets');
+  const eventDate = watch('eventDate');
+
+  const updateRecurrence = (changes: Partial<AnnouncementRecurrence> | null) => {
+    setValue('recurrence', changes && recurrence ? { ...recurrence, ...changes } : null, { shouldValidate: !!errors.recurrence });
+  };
+
+  const handleRepeatChange = (value: string) => {
+    if (value === 'none') {
+      setValue('recurrence', null);
+      return;
+    }
+    // Default to the weekday of the start date
+    const startDay = eventDate
+      ? ANNOUNCEMENT_WEEKDAYS[new Date(`${eventDate}T00:00:00Z`).getUTCDay()]
+      : 'SU';
+    setValue('recurrence', {
+      frequency: value as AnnouncementRecurrence['frequency'],
+      byDay: recurrence?.byDay?.length ? recurrence.byDay : [startDay],
+      ...(value === 'monthly' ? { ordinal: recurrence?.ordinal ?? 1 } : {}),
+      ...(recurrence?.until ? { until: recurrence.until } : {}),
+    });
+  };
+
+  const toggleRecurrenceDay = (day: AnnouncementWeekday) => {
+    if (!recurrence) return;
+    const byDay = recurrence.byDay.includes(day)
+      ? recurrence.byDay.filter((d) => d !== day)
+      : [...recurrence.byDay, day];
+    updateRecurrence({ byDay });
+  };
+
+  const upcomingOccurrences = recurrence?.byDay?.length
+    ? getUpcomingOccurrences(recurrence, eventDate || format(new Date(), 'yyyy-MM-dd'), 4)
+    : [];
   const selectedCategory = watch('category');
   const showCustomCategoryInput = selectedCategory === 'Other';
 
@@ -153,6 +266,27 @@ export const AnnouncementForm: React.FC<AnnouncementFormProps> = ({
         data.category = data.customCategory.trim();
       }
 
+      // Targeted announcements are parish-scoped without a single parishId
+      if (!forceParishScope) {
+        data.scope = data.targets ? 'parish' : 'diocese';
+      }
+
+      // Firestore rejects undefined values inside the recurrence map
+      if (data.recurrence) {
+        const { frequency, byDay, ordinal, until } = data.recurrence;
+        data.recurrence = {
+          frequency,
+          byDay,
+          ...(frequency === 'monthly' && ordinal ? { ordinal } : {}),
+          ...(until ? { until } : {}),
+        };
+      }
+      if (data.targets) {
+        data.targets = Object.fromEntries(
+          Object.entries(data.targets).filter(([, value]) => value !== undefined)
+        ) as AnnouncementTargets;
+      }
+
       // Remove customCategory field before submission
       const { customCategory, ...submitData } = data;
 
@@ -246,6 +380,19 @@ export const AnnouncementForm: React.FC<AnnouncementFormProps> = ({
               )}
             </div>
 
+            {!forceParishScope && (
+              <div>
+                <AnnouncementTargetPicker
+                  diocese={diocese}
+                  value={targets || null}
+                  onChange={(value) => setValue('targets', value, { shouldValidate: !!errors.targets })}
+                />
+                {errors.targets && (
+                  <p className="text-sm text-red-600 mt-1">{errors.targets.message}</p>
+                )}
+              </div>
+            )}
+
             {/* Custom Category Input - shown when "Other" is selected */}
             {showCustomCategoryInput && (
               <div>
@@ -341,6 +488,123 @@ export const AnnouncementForm: React.FC<AnnouncementFormProps> = ({
             </div>
           </div>
 
+          {/* Publishing & Repeat */}
+          <div className="space-y-3 sm:space-y-4">
+            <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+              <Send className="w-4 h-4" />
+              <span>Publishing & Repeat (Optional)</span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+              <div>
+                <Label htmlFor="publishAt">Publish At</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  {...register('publishAt')}
+                  className={errors.publishAt ? 'border-red-500' : ''}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave empty to publish immediately
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="expireAt">Expire At</Label>
+                <Input
+                  id="expireAt"
+                  type="datetime-local"
+                  {...register('expireAt')}
+                  className={errors.expireAt ? 'border-red-500' : ''}
+                />
+                {errors.expireAt && (
+                  <p className="text-sm text-red-600 mt-1">{errors.expireAt.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  Announcement will be archived at this time
+                </p>
+              </div>
+
+              <div>
+                <Label>Repeat</Label>
+                <Select value={recurrence?.frequency || 'none'} onValueChange={handleRepeatChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="weekly">Weekly (e.g. novena)</SelectItem>
+                    <SelectItem value="monthly">Monthly (e.g. First Friday)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {recurrence && (
+                <div>
+                  <Label htmlFor="recurrenceUntil">Repeat Until</Label>
+                  <Input
+                    id="recurrenceUntil"
+                    type="date"
+                    value={recurrence.until || ''}
+                    onChange={(e) => updateRecurrence({ until: e.target.value || undefined })}
+                  />
+                </div>
+              )}
+
+              {recurrence && (
+                <div className="md:col-span-2 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {recurrence.frequency === 'monthly' && (
+                      <Select
+                        value={String(recurrence.ordinal ?? 1)}
+                        onValueChange={(value) => updateRecurrence({ ordinal: Number(value) })}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ORDINAL_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={String(option.value)}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {ANNOUNCEMENT_WEEKDAYS.map((day) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={recurrence.byDay.includes(day) ? 'default' : 'outline'}
+                        onClick={() => toggleRecurrenceDay(day)}
+                      >
+                        {WEEKDAY_LABELS[day]}
+                      </Button>
+                    ))}
+                  </div>
+                  {errors.recurrence && (
+                    <p className="text-sm text-red-600">Pick at least one day</p>
+                  )}
+                  {recurrence.byDay.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Repeat className="w-3 h-3" />
+                      <span>{describeAnnouncementRecurrence(recurrence)}. Next:</span>
+                      {upcomingOccurrences.map((date) => (
+                        <Badge key={date} variant="outline" className="text-xs">
+                          {format(new Date(`${date}T00:00:00`), 'EEE, MMM d')}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    After each occurrence ends, the start date moves to the next one instead of archiving.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Form Actions */}
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 sm:gap-4 pt-4 sm:pt-6 border-t">
             <Button type="button" variant="outline" onClick={onCancel} className="w-full sm:w-auto">
@@ -15,11 +15,15 @@ import {
   Archive,
   Plus,
   Phone,
+  Repeat,
+  Send,
   Trash2
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { Announcement, AnnouncementFilters } from '@/types/announcement';
 import { ANNOUNCEMENT_CATEGORIES } from '@/types/announcement';
+import { describeAnnouncementRecurrence } from '@shared/announcementSchedule';
+import { describeAnnouncementTargets } from '@/lib/announcement-targets';
 import type { Diocese } from '@/contexts/AuthContext';
 
 interface AnnouncementListProps {
@@ -30,7 +34,6 @@ interface AnnouncementListProps {
   onArchive: (id: string) => void;
   onDelete?: (id: string) => void; // Optional - kept for backward compatibility but not used
   onCreate?: () => void;
-  onAutoArchive?: () => void;
   onView?: (announcement: Announcement) => void;
   showScope?: boolean; // Show scope badge (diocese/parish)
   showHeader?: boolean; // Show header with title and "New Announcement" button
@@ -45,7 +48,6 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
   onArchive,
   onDelete,
   onCreate,
-  onAutoArchive,
   onView,
   showScope = true,
   showHeader = true,
@@ -85,6 +87,7 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
   }, [announcements, searchQuery, filters]);
 
   const getStatusColor = (announcement: Announcement) => {
+    if (announcement.status === 'scheduled') return 'outline';
     if (announcement.isArchived) return 'secondary';
 
     // For non-event announcements (no dates), show as active
@@ -101,6 +104,7 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
   };
 
   const getStatusText = (announcement: Announcement) => {
+    if (announcement.status === 'scheduled') return 'Scheduled';
     if (announcement.isArchived) return 'Archived';
 
     // For non-event announcements (no dates), show as active
@@ -156,14 +160,6 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
     return false;
   };
 
-  // Count past events that should be auto-archived
-  const getPastEventsCount = (): number => {
-    const now = new Date();
-    return announcements.filter(a => 
-      !a.isArchived && isAnnouncementPast(a, now)
-    ).length;
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -178,12 +174,6 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
             )}
           </div>
           <div className="flex flex-wrap gap-2">
-            {getPastEventsCount() > 0 && onAutoArchive && (
-              <Button onClick={onAutoArchive} variant="outline" size="sm" className="text-orange-600 border-orange-200 text-xs sm:text-sm">
-                <Archive className="w-4 h-4 sm:mr-2" />
-                <span className="hidden xs:inline">Archive Past</span> ({getPastEventsCount()})
-              </Button>
-            )}
             {onCreate && (
               <Button onClick={onCreate} size="sm" className="btn-heritage text-xs sm:text-sm">
                 <Plus className="w-4 h-4 sm:mr-2" />
@@ -280,12 +270,20 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
                       </Badge>
                       {showScope && (
                         <Badge variant="outline" className="text-xs hidden xs:inline-flex">
-                          {announcement.scope}
+                          {announcement.targets
+                            ? describeAnnouncementTargets(announcement.targets, announcement.targetParishIds?.length)
+                            : announcement.scope}
                         </Badge>
                       )}
                       <Badge variant="outline" className="text-xs hidden sm:inline-flex">
                         {announcement.category}
                       </Badge>
+                      {announcement.recurrence && (
+                        <Badge variant="outline" className="text-xs text-blue-700 border-blue-200">
+                          <Repeat className="w-3 h-3 mr-1" />
+                          {describeAnnouncementRecurrence(announcement.recurrence)}
+                        </Badge>
+                      )}
                     </div>
                   </div>
                   <div className="flex flex-wrap gap-1 sm:gap-2">
@@ -344,6 +342,12 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
               
               <CardContent className="p-3 sm:p-6 pt-0">
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-4 text-xs sm:text-sm">
+                  {announcement.status === 'scheduled' && announcement.publishAt && (
+                    <div className="flex items-center gap-2">
+                      <Send className="w-4 h-4 text-muted-foreground" />
+                      <span>Publishes {format(new Date(announcement.publishAt), 'PPP p')}</span>
+                    </div>
+                  )}
                   {announcement.eventDate && (
                     <div className="flex items-center gap-2">
                       <Calendar className="w-4 h-4 text-muted-foreground" />
@@ -370,6 +374,13 @@ export const AnnouncementList: React.FC<AnnouncementListProps> = ({
                     </div>
                   )}
 
+                  {announcement.expireAt && (
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">Expires: {format(new Date(announcement.expireAt), 'PPP p')}</span>
+                    </div>
+                  )}
+
                   {announcement.contactInfo && (
                     <div className="flex items-center gap-2">
                       <Phone className="w-4 h-4 text-muted-foreground" />
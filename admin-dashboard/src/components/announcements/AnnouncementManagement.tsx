@@ -5,6 +5,8 @@ import { AnnouncementService } from '@/services/announcementService';
 import { AnnouncementList } from './AnnouncementList';
 import { AnnouncementForm } from './AnnouncementForm';
 import { AnnouncementDetailDialog } from './AnnouncementDetailDialog';
+import { CalendarFeedButton } from './CalendarFeedButton';
+import { AnnouncementFeedButton } from './AnnouncementFeedButton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   AlertDialog,
@@ -22,6 +24,8 @@ import { useToast } from '@/components/ui/use-toast';
 import { Plus, Trash2 } from 'lucide-react';
 import type { Announcement, AnnouncementFormData } from '@/types/announcement';
 import type { Diocese } from '@/contexts/AuthContext';
+import { getDioceseCalendarFeedUrl } from '@/lib/calendar-feeds';
+import { getDioceseAnnouncementFeedUrl } from '@/lib/announcement-feeds';
 
 interface AnnouncementManagementProps {
   diocese: Diocese;
@@ -51,19 +55,9 @@ export const AnnouncementManagement: React.FC<AnnouncementManagementProps> = ({
     try {
       setIsLoading(true);
 
-      // First, auto-archive past events
-      const archivedCount = await AnnouncementService.autoArchivePastEvents(diocese);
-
-      if (archivedCount > 0) {
-        toast({
-          title: "Auto-Archive",
-          description: `${archivedCount} past event${archivedCount > 1 ? 's' : ''} automatically archived`,
-        });
-      }
-
-      // Then load current announcements - filter by creator to show only user's own announcements
-      const data = await AnnouncementService.getAnnouncements(diocese, {
-        isArchived: false,
+      // Published and scheduled announcements - filter by creator to show only user's own announcements.
+      // Past events are archived by the processAnnouncementSchedules Cloud Function.
+      const data = await AnnouncementService.getActiveAnnouncements(diocese, {
         createdBy: userProfile?.uid,
       });
       setAnnouncements(data);
@@ -333,11 +327,22 @@ export const AnnouncementManagement: React.FC<AnnouncementManagementProps> = ({
             </p>
           )}
         </div>
-        <Button onClick={handleCreateAnnouncement} className="btn-heritage w-full sm:w-auto">
-          <Plus className="w-4 h-4 mr-2" />
-          <span className="hidden sm:inline">New Announcement</span>
-          <span className="sm:hidden">New</span>
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          {diocese && (
+            <>
+              <CalendarFeedButton feedUrl={getDioceseCalendarFeedUrl(diocese)} className="w-full sm:w-auto" />
+              <AnnouncementFeedButton
+                getFeedUrl={(format, categories) => getDioceseAnnouncementFeedUrl(diocese, format, categories)}
+                className="w-full sm:w-auto"
+              />
+            </>
+          )}
+          <Button onClick={handleCreateAnnouncement} className="btn-heritage w-full sm:w-auto">
+            <Plus className="w-4 h-4 mr-2" />
+            <span className="hidden sm:inline">New Announcement</span>
+            <span className="sm:hidden">New</span>
+          </Button>
+        </div>
       </div>
 
       {/* Tabs for Active vs Archived */}
@@ -0,0 +1,255 @@
+// Audience picker for chancery announcements: whole diocese, selected parishes, a vicariate or municipalities
+import React, { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, Save, Trash2, Users } from 'lucide-react';
+import type { AnnouncementTargets } from '@/types/announcement';
+import type { Diocese } from '@/contexts/AuthContext';
+import { ParishService } from '@/services/parishService';
+import { matchTargetParishes } from '@/lib/announcement-targets';
+
+interface AnnouncementTargetPickerProps {
+  diocese: Diocese;
+  value: AnnouncementTargets | null;
+  onChange: (targets: AnnouncementTargets | null) => void;
+}
+
+const WHOLE_DIOCESE = 'diocese';
+
+export const AnnouncementTargetPicker: React.FC<AnnouncementTargetPickerProps> = ({ diocese, value, onChange }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [vicariateName, setVicariateName] = useState('');
+  const [isSavingVicariate, setIsSavingVicariate] = useState(false);
+
+  const { data: parishes = [], isLoading: isLoadingParishes } = useQuery({
+    queryKey: ['parishes', diocese, 'announcement-targets'],
+    queryFn: () => ParishService.getAnnouncementTargetParishes(diocese),
+    enabled: !!value,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: vicariates = [] } = useQuery({
+    queryKey: ['vicariates', diocese],
+    queryFn: () => ParishService.getVicariatesForDiocese(diocese),
+    enabled: !!value,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const municipalities = useMemo(
+    () => [...new Set(parishes.map(p => p.municipality).filter((m): m is string => !!m))].sort(),
+    [parishes]
+  );
+
+  const matchedParishIds = useMemo(
+    () => (value ? matchTargetParishes(parishes, vicariates, value) : []),
+    [parishes, vicariates, value]
+  );
+
+  const filteredParishes = parishes.filter(parish =>
+    !search ||
+    parish.name.toLowerCase().includes(search.toLowerCase()) ||
+    parish.municipality?.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const handleTypeChange = (type: string) => {
+    if (type === WHOLE_DIOCESE) {
+      onChange(null);
+    } else if (type === 'parishes') {
+      onChange({ type: 'parishes', parishIds: value ? matchedParishIds : [] });
+    } else if (type === 'vicariate') {
+      onChange({ type: 'vicariate' });
+    } else {
+      onChange({ type: 'municipalities', municipalities: [] });
+    }
+  };
+
+  const toggle = (list: string[] | undefined, item: string) =>
+    list?.includes(item) ? list.filter(i => i !== item) : [...(list || []), item];
+
+  const handleSaveVicariate = async () => {
+    if (!value || value.type !== 'parishes' || !vicariateName.trim()) return;
+    try {
+      setIsSavingVicariate(true);
+      const existing = vicariates.find(v => v.name.toLowerCase() === vicariateName.trim().toLowerCase());
+      const id = await ParishService.saveVicariate(diocese, vicariateName, value.parishIds || [], existing?.id);
+      await queryClient.invalidateQueries({ queryKey: ['vicariates', diocese] });
+      onChange({ type: 'vicariate', vicariateId: id, vicariateName: vicariateName.trim() });
+      setVicariateName('');
+      toast({ title: 'Vicariate Saved', description: `"${vicariateName.trim()}" can now be used as an audience.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save vicariate',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingVicariate(false);
+    }
+  };
+
+  const handleDeleteVicariate = async (id: string) => {
+    try {
+      await ParishService.deleteVicariate(id);
+      await queryClient.invalidateQueries({ queryKey: ['vicariates', diocese] });
+      onChange({ type: 'vicariate' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete vicariate',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const selectedVicariate = value?.type === 'vicariate'
+    ? vicariates.find(v => v.id === value.vicariateId)
+    : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Audience</Label>
+        <Select value={value?.type || WHOLE_DIOCESE} onValueChange={handleTypeChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_DIOCESE}>Whole diocese</SelectItem>
+            <SelectItem value="parishes">Selected parishes</SelectItem>
+            <SelectItem value="vicariate">Vicariate</SelectItem>
+            <SelectItem value="municipalities">Municipalities</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && isLoadingParishes && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading parishes...
+        </div>
+      )}
+
+      {value?.type === 'parishes' && !isLoadingParishes && (
+        <div className="space-y-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search parishes or municipalities"
+          />
+          <ScrollArea className="h-48 border rounded-md p-2">
+            {filteredParishes.map(parish => (
+              <label key={parish.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                <Checkbox
+                  checked={value.parishIds?.includes(parish.id) || false}
+                  onCheckedChange={() => onChange({ ...value, parishIds: toggle(value.parishIds, parish.id) })}
+                />
+                <span>{parish.name}</span>
+                {parish.municipality && (
+                  <span className="text-xs text-muted-foreground">{parish.municipality}</span>
+                )}
+              </label>
+            ))}
+          </ScrollArea>
+          {(value.parishIds?.length || 0) > 1 && (
+            <div className="flex gap-2">
+              <Input
+                value={vicariateName}
+                onChange={(e) => setVicariateName(e.target.value)}
+                placeholder="Save selection as vicariate (name)"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveVicariate}
+                disabled={!vicariateName.trim() || isSavingVicariate}
+              >
+                {isSavingVicariate ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {value?.type === 'vicariate' && !isLoadingParishes && (
+        <div className="space-y-2">
+          {vicariates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No vicariates yet. Choose "Selected parishes" and save the selection as a vicariate.
+            </p>
+          ) : (
+            <div className="flex gap-2">
+              <Select
+                value={value.vicariateId || ''}
+                onValueChange={(id) => onChange({
+                  type: 'vicariate',
+                  vicariateId: id,
+                  vicariateName: vicariates.find(v => v.id === id)?.name,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select vicariate" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vicariates.map(vicariate => (
+                    <SelectItem key={vicariate.id} value={vicariate.id}>
+                      {vicariate.name} ({vicariate.parishIds.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedVicariate && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  title="Delete vicariate"
+                  onClick={() => handleDeleteVicariate(selectedVicariate.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          )}
+          {selectedVicariate && (
+            <div className="flex flex-wrap gap-1">
+              {parishes.filter(p => selectedVicariate.parishIds.includes(p.id)).map(parish => (
+                <Badge key={parish.id} variant="outline" className="text-xs">{parish.name}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {value?.type === 'municipalities' && !isLoadingParishes && (
+        <ScrollArea className="h-40 border rounded-md p-2">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+            {municipalities.map(municipality => (
+              <label key={municipality} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                <Checkbox
+                  checked={value.municipalities?.includes(municipality) || false}
+                  onCheckedChange={() => onChange({ ...value, municipalities: toggle(value.municipalities, municipality) })}
+                />
+                {municipality}
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      {value && !isLoadingParishes && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Users className="w-3 h-3" />
+          Reaches {matchedParishIds.length} parish{matchedParishIds.length === 1 ? '' : 'es'}.
+          Shown on their church pages in the mobile app.
+        </p>
+      )}
+    </div>
+  );
+};
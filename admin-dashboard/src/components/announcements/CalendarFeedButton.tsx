@@ -0,0 +1,69 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarPlus, Copy, ExternalLink } from 'lucide-react';
+import { toWebcalUrl } from '@/lib/calendar-feeds';
+
+interface CalendarFeedButtonProps {
+  feedUrl: string;
+  className?: string;
+}
+
+/**
+ * CalendarFeedButton - Copy or open the .ics subscription link for a church
+ * or diocese calendar (mass schedules, feast day and event announcements).
+ */
+export const CalendarFeedButton: React.FC<CalendarFeedButtonProps> = ({ feedUrl, className }) => {
+  const { toast } = useToast();
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: 'Calendar Link Copied',
+        description: 'Paste it in Google Calendar (Other calendars → From URL) or Outlook/Apple Calendar (Subscribe).',
+      });
+    } catch (error) {
+      toast({
+        title: 'Copy Failed',
+        description: feedUrl,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Calendar Feed
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Masses, feast day and events as a subscribable calendar
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={copyLink}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy Link
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={toWebcalUrl(feedUrl)}>
+            <ExternalLink className="w-4 h-4 mr-2" />
+            Open in Calendar App
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
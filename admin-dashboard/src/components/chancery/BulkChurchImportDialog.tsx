@@ -0,0 +1,339 @@
+/**
+ * FILE PURPOSE: Bulk Church Import for Chancery Office
+ *
+ * Four-step dialog for onboarding a diocese from a CSV/XLSX file:
+ * upload -> map columns -> review the staging table -> import report.
+ * Parsing, validation and duplicate detection live in lib/church-bulk-import.ts;
+ * rows are created as draft churches.
+ */
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Diocese } from "@/contexts/AuthContext";
+import {
+  BULK_IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  downloadBulkImportReport,
+  importStagedChurches,
+  readImportSpreadsheet,
+  stageImportRows,
+  suggestColumnMapping,
+  type BulkImportField,
+  type BulkImportReport,
+  type ColumnMapping,
+  type StagedChurchRow,
+} from "@/lib/church-bulk-import";
+
+interface Props {
+  diocese: Diocese;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'review' | 'done';
+
+const STATUS_STYLES: Record<StagedChurchRow['status'], string> = {
+  ready: 'bg-green-50 text-green-700 border-green-300',
+  invalid: 'bg-red-50 text-red-700 border-red-300',
+  duplicate: 'bg-amber-50 text-amber-700 border-amber-300',
+};
+
+const IGNORE = '__ignore__';
+
+export function BulkChurchImportDialog({ diocese, isOpen, onClose }: Props) {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [staged, setStaged] = useState<StagedChurchRow[]>([]);
+  const [report, setReport] = useState<BulkImportReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const mappedFields = new Set(Object.values(mapping).filter(Boolean));
+  const missingRequired = BULK_IMPORT_FIELDS.filter(f => f.required && !mappedFields.has(f.field));
+  const selectedCount = staged.filter(row => row.include).length;
+
+  const handleClose = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setStaged([]);
+    setReport(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setIsWorking(true);
+    try {
+      const result = await readImportSpreadsheet(file);
+      setFileName(file.name);
+      setHeaders(result.headers);
+      setRows(result.rows);
+      setMapping(suggestColumnMapping(result.headers));
+      setStep('mapping');
+    } catch (error) {
+      toast({
+        title: 'Could not read file',
+        description: error instanceof Error ? error.message : 'Unsupported spreadsheet',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStage = async () => {
+    setIsWorking(true);
+    try {
+      setStaged(await stageImportRows(rows, mapping, diocese));
+      setStep('review');
+    } catch (error) {
+      console.error('Error staging import rows:', error);
+      toast({ title: 'Validation failed', description: 'Could not check rows against existing churches.', variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!userProfile) return;
+
+    setIsWorking(true);
+    try {
+      const result = await importStagedChurches(staged, diocese, fileName, userProfile);
+      if (result.report) {
+        setReport(result.report);
+        setStep('done');
+        await queryClient.invalidateQueries({ queryKey: ['churches'] });
+      }
+      if (!result.success) {
+        toast({
+          title: result.report ? 'Import partially failed' : 'Import failed',
+          description: result.error || 'Some rows could not be created. See the import report.',
+          variant: 'destructive'
+        });
+      } else {
+        toast({ title: 'Import complete', description: `${result.report?.created.length ?? 0} draft churches created.` });
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleRow = (rowNumber: number, include: boolean) => {
+    setStaged(prev => prev.map(row => (row.rowNumber === rowNumber ? { ...row, include } : row)));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-green-700" />
+            Bulk Import Churches
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && `Upload a CSV or Excel file with one church per row (up to ${MAX_IMPORT_ROWS} rows).`}
+            {step === 'mapping' && `${fileName}: ${rows.length} rows. Match each column to a church field.`}
+            {step === 'review' && `${selectedCount} of ${staged.length} rows selected. Churches are created as drafts.`}
+            {step === 'done' && 'Import finished. Download the report for your records.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <Label
+            htmlFor="bulk-import-file"
+            className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg py-10 cursor-pointer hover:bg-muted/50"
+          >
+            {isWorking ? <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" /> : <Upload className="w-8 h-8 text-muted-foreground" />}
+            <span className="text-sm font-medium">Choose a .csv or .xlsx file</span>
+            <span className="text-xs text-muted-foreground">Required columns: church name and municipality</span>
+            <Input
+              id="bulk-import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              disabled={isWorking}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </Label>
+        )}
+
+        {step === 'mapping' && (
+          <ScrollArea className="max-h-[55vh] pr-3">
+            <div className="grid sm:grid-cols-2 gap-3">
+              {headers.map(header => (
+                <div key={header} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    {header} <span className="italic">e.g. {rows.find(r => r[header])?.[header] || '—'}</span>
+                  </Label>
+                  <Select
+                    value={mapping[header] || IGNORE}
+                    onValueChange={(value) => setMapping(prev => ({
+                      ...prev,
+                      [header]: value === IGNORE ? '' : value as BulkImportField
+                    }))}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                      {BULK_IMPORT_FIELDS.map(f => (
+                        <SelectItem
+                          key={f.field}
+                          value={f.field}
+                          disabled={mapping[header] !== f.field && mappedFields.has(f.field)}
+                        >
+                          {f.label}{f.required ? ' *' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-xs text-red-600 mt-3">
+                Map a column to: {missingRequired.map(f => f.label).join(', ')}
+              </p>
+            )}
+          </ScrollArea>
+        )}
+
+        {step === 'review' && (
+          <ScrollArea className="max-h-[55vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead className="w-14">Row</TableHead>
+                  <TableHead>Church</TableHead>
+                  <TableHead>Municipality</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staged.map(row => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>
+                      <Checkbox
+                        checked={row.include}
+                        disabled={!row.data}
+                        onCheckedChange={(checked) => toggleRow(row.rowNumber, checked === true)}
+                        aria-label={`Import row ${row.rowNumber}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                    <TableCell className="font-medium">{row.data?.name || Object.values(row.raw)[0] || '—'}</TableCell>
+                    <TableCell>{row.data?.municipality || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_STYLES[row.status]}>
+                        {row.status === 'ready' ? 'Ready' : row.status === 'invalid' ? 'Invalid' : 'Duplicate'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs space-y-0.5">
+                      {row.errors.map(error => <p key={error} className="text-red-600">{error}</p>)}
+                      {row.duplicateOf && (
+                        <p className="text-amber-700">
+                          Matches {row.duplicateOf.source === 'existing' ? 'existing church' : `row ${row.duplicateOf.rowNumber}`} "{row.duplicateOf.name}"
+                        </p>
+                      )}
+                      {row.warnings.map(warning => <p key={warning} className="text-muted-foreground">{warning}</p>)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        {step === 'done' && report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg border bg-green-50 p-3">
+                <CheckCircle2 className="w-5 h-5 mx-auto text-green-600 mb-1" />
+                <p className="text-2xl font-bold text-green-800">{report.created.length}</p>
+                <p className="text-xs text-green-700">Draft churches created</p>
+              </div>
+              <div className="rounded-lg border bg-amber-50 p-3">
+                <p className="text-2xl font-bold text-amber-800 mt-6">{report.skipped.length}</p>
+                <p className="text-xs text-amber-700">Skipped</p>
+              </div>
+              <div className="rounded-lg border bg-red-50 p-3">
+                <AlertTriangle className="w-5 h-5 mx-auto text-red-600 mb-1" />
+                <p className="text-2xl font-bold text-red-800">{report.failed.length}</p>
+                <p className="text-xs text-red-700">Failed</p>
+              </div>
+            </div>
+            {report.failed.length > 0 && (
+              <p className="text-xs text-red-600">
+                {report.failed[0].error}. Failed rows were not created and can be imported again.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')} disabled={isWorking}>Back</Button>
+              <Button onClick={handleStage} disabled={isWorking || missingRequired.length > 0}>
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Validate Rows
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isWorking}>Back</Button>
+              <Button onClick={handleImport} disabled={isWorking || selectedCount === 0}>
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create {selectedCount} Draft {selectedCount === 1 ? 'Church' : 'Churches'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && report && (
+            <>
+              <Button variant="outline" onClick={() => downloadBulkImportReport(report)}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Report
+              </Button>
+              <Button onClick={handleClose}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
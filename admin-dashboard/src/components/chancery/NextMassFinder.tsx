@@ -0,0 +1,208 @@
+/**
+ * FILE PURPOSE: Next Mass Near Me for Chancery Dashboard
+ *
+ * Answers "where can I attend mass now?" for the diocese: upcoming masses
+ * within a time window from a municipality or the device location, with
+ * language and Facebook live-stream filters. Uses the same shared query as
+ * the mobile app's nextMasses endpoint.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Church, Clock, Loader2, LocateFixed, MapPin, Video } from "lucide-react";
+import type { Diocese } from "@/contexts/AuthContext";
+import { findNextMasses, getMunicipalityCenters, getNextMassChurches } from "@/lib/next-mass";
+
+interface Props {
+  diocese: Diocese;
+}
+
+const ANY = "any";
+const MY_LOCATION = "my-location";
+const WINDOW_OPTIONS = [1, 3, 6, 12, 24];
+const LANGUAGES = ["Cebuano", "English", "Filipino"];
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 === 0 ? 12 : hours % 12}:${String(minutes).padStart(2, "0")} ${hours >= 12 ? "PM" : "AM"}`;
+};
+
+const formatStartsIn = (minutes: number) => {
+  if (minutes < 1) return "starting now";
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `in ${hours} hr` : `in ${hours} hr ${minutes % 60} min`;
+};
+
+export function NextMassFinder({ diocese }: Props) {
+  const { toast } = useToast();
+  const [origin, setOrigin] = useState<string>(ANY);
+  const [deviceLocation, setDeviceLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [withinHours, setWithinHours] = useState(3);
+  const [language, setLanguage] = useState<string>(ANY);
+  const [fbLiveOnly, setFbLiveOnly] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const { data: churches, isLoading, isError } = useQuery({
+    queryKey: ["churches", diocese, "next-mass"],
+    queryFn: () => getNextMassChurches(diocese),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Keep "starts in" current while the tab is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const today = now.toLocaleDateString("en-US", { weekday: "long", timeZone: "Asia/Manila" });
+  const municipalities = useMemo(() => getMunicipalityCenters(churches || []), [churches]);
+
+  const location = origin === MY_LOCATION
+    ? deviceLocation
+    : municipalities.find(m => m.municipality === origin) || null;
+
+  const masses = useMemo(() => findNextMasses(churches || [], {
+    latitude: location?.latitude,
+    longitude: location?.longitude,
+    from: now,
+    withinMinutes: withinHours * 60,
+    language: language === ANY ? undefined : language,
+    fbLiveOnly,
+  }), [churches, location?.latitude, location?.longitude, now, withinHours, language, fbLiveOnly]);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location Unavailable", description: "This browser cannot share its location.", variant: "destructive" });
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setDeviceLocation({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setOrigin(MY_LOCATION);
+        setIsLocating(false);
+      },
+      () => {
+        toast({ title: "Location Unavailable", description: "Allow location access or pick a municipality instead.", variant: "destructive" });
+        setIsLocating(false);
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-emerald-600" />
+          Next Masses
+        </CardTitle>
+        <CardDescription>
+          Upcoming masses in approved churches, nearest and soonest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Near</Label>
+            <div className="flex gap-2">
+              <Select value={origin} onValueChange={setOrigin}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Anywhere (soonest first)</SelectItem>
+                  {deviceLocation && <SelectItem value={MY_LOCATION}>My location</SelectItem>}
+                  {municipalities.map(m => (
+                    <SelectItem key={m.municipality} value={m.municipality}>{m.municipality}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={handleUseMyLocation} disabled={isLocating} title="Use my location">
+                {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <LocateFixed className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Starting within</Label>
+            <Select value={String(withinHours)} onValueChange={(value) => setWithinHours(Number(value))}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WINDOW_OPTIONS.map(hours => (
+                  <SelectItem key={hours} value={String(hours)}>{hours} hour{hours === 1 ? "" : "s"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any language</SelectItem>
+                {LANGUAGES.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm h-10 cursor-pointer">
+            <Checkbox checked={fbLiveOnly} onCheckedChange={(checked) => setFbLiveOnly(!!checked)} />
+            Live-streamed only
+          </label>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-muted-foreground">Failed to load mass schedules. Please try refreshing the page.</p>
+        ) : masses.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Church className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+            <p className="font-medium">No masses found</p>
+            <p className="text-sm">Try a longer time window or fewer filters.</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {masses.map(mass => (
+              <div key={`${mass.churchId}-${mass.startsAt}`} className="border rounded-lg p-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <h4 className="font-semibold truncate">{mass.churchName}</h4>
+                    <Badge variant="outline">{mass.language}</Badge>
+                    {mass.isFbLive && (
+                      <Badge variant="outline" className="border-blue-200 text-blue-700">
+                        <Video className="h-3 w-3 mr-1" /> FB Live
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {mass.municipality || "Unknown municipality"}
+                    {mass.distanceKm !== null && ` • ${mass.distanceKm} km away`}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="font-semibold">
+                    {formatTime(mass.time)}
+                    {mass.endTime && <span className="font-normal text-muted-foreground"> – {formatTime(mass.endTime)}</span>}
+                  </p>
+                  <p className="text-xs text-emerald-700">
+                    {mass.day !== today ? `${mass.day}, ` : ""}
+                    {formatStartsIn(mass.startsInMinutes)}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * FILE PURPOSE: Overdue Review Queue for Chancery Dashboard
+ *
+ * Lists submissions that have waited in 'pending' or 'heritage_review' longer
+ * than the diocese review SLA, using StatusChangeAuditLog timestamps to know
+ * when each church entered its current stage. Also lets the Chancery Office
+ * adjust the SLA for the diocese.
+ */
+
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { AlarmClock, CheckCircle2, Eye, Loader2, Save, Settings2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Diocese } from "@/contexts/AuthContext";
+import type { Church } from "@/lib/churches";
+import {
+  getOverdueChurches,
+  getReviewSla,
+  updateReviewSla,
+  type ReviewSlaConfig,
+} from "@/lib/review-sla";
+
+interface Props {
+  diocese: Diocese;
+  onViewChurch?: (church: Church) => void;
+}
+
+export function OverdueReviewQueue({ diocese, onViewChurch }: Props) {
+  const { userProfile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showSettings, setShowSettings] = useState(false);
+  const [draftSla, setDraftSla] = useState<ReviewSlaConfig | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: sla } = useQuery<ReviewSlaConfig>({
+    queryKey: ["sla-settings", diocese],
+    queryFn: () => getReviewSla(diocese),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: overdue, isLoading, isError } = useQuery({
+    queryKey: ["churches", diocese, "overdue", sla],
+    queryFn: () => getOverdueChurches(diocese, sla),
+    enabled: !!sla,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  useEffect(() => {
+    if (sla) setDraftSla(sla);
+  }, [sla]);
+
+  const handleSaveSla = async () => {
+    if (!userProfile || !draftSla) return;
+
+    setIsSaving(true);
+    try {
+      const result = await updateReviewSla(diocese, draftSla, userProfile);
+      if (result.success) {
+        toast({ title: "SLA Updated", description: "Review deadlines have been saved for this diocese." });
+        setShowSettings(false);
+        await queryClient.invalidateQueries({ queryKey: ["sla-settings", diocese] });
+      } else {
+        toast({ title: "Error", description: result.error || "Failed to update SLA", variant: "destructive" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlarmClock className="h-5 w-5 text-red-600" />
+              Overdue Reviews
+              {overdue && overdue.length > 0 && (
+                <Badge variant="destructive" className="ml-2">{overdue.length}</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {sla
+                ? `Chancery review: ${sla.chanceryReviewDays} days • Museum validation: ${sla.museumValidationDays} days`
+                : "Loading review deadlines..."}
+            </CardDescription>
+          </div>
+          {userProfile?.role === "chancery_office" && (
+            <Button variant="outline" size="sm" onClick={() => setShowSettings(prev => !prev)}>
+              <Settings2 className="h-4 w-4 mr-1" />
+              SLA Settings
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showSettings && draftSla && (
+          <div className="border rounded-lg p-4 bg-muted/30 space-y-3">
+            <div className="grid sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="sla-chancery" className="text-xs">Chancery review (days)</Label>
+                <Input
+                  id="sla-chancery"
+                  type="number"
+                  min={1}
+                  value={draftSla.chanceryReviewDays}
+                  onChange={(e) => setDraftSla({ ...draftSla, chanceryReviewDays: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sla-museum" className="text-xs">Museum validation (days)</Label>
+                <Input
+                  id="sla-museum"
+                  type="number"
+                  min={1}
+                  value={draftSla.museumValidationDays}
+                  onChange={(e) => setDraftSla({ ...draftSla, museumValidationDays: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSaveSla} disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading || !sla ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-muted-foreground">Failed to load overdue reviews. Please try refreshing the page.</p>
+        ) : !overdue || overdue.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle2 className="h-10 w-10 mx-auto mb-3 text-green-500" />
+            <p className="font-medium">No overdue reviews</p>
+            <p className="text-sm">Every submission is within its review deadline.</p>
+          </div>
+        ) : (
+          overdue.map(item => (
+            <div key={item.church.id} className="border border-red-200 bg-red-50/40 rounded-lg p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <h4 className="font-semibold truncate">{item.church.name}</h4>
+                  <Badge variant="outline" className={item.status === "heritage_review"
+                    ? "bg-orange-50 text-orange-700 border-orange-200"
+                    : "bg-yellow-50 text-yellow-700 border-yellow-200"}>
+                    {item.status === "heritage_review" ? "Museum Validation" : "Chancery Review"}
+                  </Badge>
+                  {item.church.slaEscalation?.status === item.status && (
+                    <Badge variant="destructive" className="text-xs">Escalated</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">{item.church.municipality}</p>
+                <p className="text-xs text-red-700 mt-1">
+                  Waiting {formatDistanceToNow(item.enteredAt)} • {item.daysOverdue === 0 ? "due today" : `${item.daysOverdue} day${item.daysOverdue === 1 ? "" : "s"} past the ${item.slaDays}-day SLA`}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => onViewChurch?.(item.church)} className="shrink-0">
+                <Eye className="h-4 w-4 mr-1" />
+                View
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,13 +3,24 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { UploadCloud, FileText, CheckCircle2, AlertTriangle, RefreshCw } from 'lucide-react';
-import type { ChurchInfo, ChurchImportSession } from '@/components/parish/types';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { UploadCloud, FileText, CheckCircle2, AlertTriangle, RefreshCw, ShieldCheck } from 'lucide-react';
+import type { ChurchInfo, ChurchImportSession, Coordinates } from '@/components/parish/types';
 import { AuditService, createFieldChange } from '@/services/auditService';
 import type { UserProfile } from '@/contexts/AuthContext';
 import { ChurchImportService } from '@/services/churchImportService';
+import { isWithinBohol } from '@/lib/validators';
+import {
+  canCombine,
+  categorizeImportFields,
+  getDefaultMergeChoice,
+  isSameValue,
+  resolveMergedValue,
+  type ImportMergeField,
+  type MergeChoice
+} from '@/lib/church-import-merge';
 
 interface ChurchDocumentImportProps {
   churchId: string;
@@ -17,7 +28,7 @@ interface ChurchDocumentImportProps {
   user?: UserProfile | null;
   currentData: ChurchInfo;
   disabled?: boolean;
-  onApply: (data: Partial<ChurchInfo>, metadata: { importId: string; appliedFields: string[] }) => void;
+  onApply: (data: Partial<ChurchInfo>, metadata: { importId: string; appliedFields: string[]; stagedFields: string[] }) => void;
 }
 
 type FieldDefinition = {
@@ -47,7 +58,8 @@ const FIELD_DEFINITIONS: FieldDefinition[] = [
   { path: 'contactInfo.email', label: 'Contact Email' },
   { path: 'contactInfo.website', label: 'Website' },
   { path: 'contactInfo.facebookPage', label: 'Facebook Page' },
-  { path: 'massSchedules', label: 'Mass Schedule', description: 'Extracted worship schedule entries' }
+  { path: 'massSchedules', label: 'Mass Schedule', description: 'Extracted worship schedule entries' },
+  { path: 'coordinates', label: 'GPS Coordinates', description: 'Confirm the marker on the map before saving' }
 ];
 
 const getNestedValue = (source: Record<string, any> | undefined, path: string) => {
@@ -70,10 +82,25 @@ const setNestedValue = (target: Record<string, any>, path: string, value: unknow
 
 const formatValue = (value: unknown) => {
   if (value === undefined || value === null || value === '') return '—';
-  if (Array.isArray(value)) return value.length ? `${value.length} item(s)` : '—';
+  if (Array.isArray(value)) {
+    if (!value.length) return '—';
+    return value.map((item) => (typeof item === 'object' && item !== null && 'day' in item
+      ? `${(item as { day: string }).day} ${(item as { time: string }).time}`
+      : String(item))).join(', ');
+  }
+  if (typeof value === 'object' && 'lat' in value && 'lng' in value) {
+    const { lat, lng } = value as Coordinates;
+    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  }
   return String(value);
 };
 
+const MERGE_CHOICE_LABELS: Record<MergeChoice, string> = {
+  keep: 'Keep current',
+  replace: 'Replace',
+  combine: 'Combine'
+};
+
 const getConfidenceBadge = (confidence?: number) => {
   if (confidence === undefined) {
     return <Badge variant="secondary">Unknown</Badge>;
@@ -98,7 +125,7 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [importSession, setImportSession] = useState<ChurchImportSession | null>(null);
-  const [selectedFields, setSelectedFields] = useState<Set<string>>(new Set());
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [lastFileName, setLastFileName] = useState<string | null>(null);
 
@@ -110,32 +137,47 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
     return () => unsubscribe();
   }, [churchId, importSession?.id]);
 
-  const parsedFields = useMemo(() => {
+  const parsedFields = useMemo<ImportMergeField[]>(() => {
     const data = importSession?.parsedData;
     if (!data) return [];
     return FIELD_DEFINITIONS.map((field) => {
-      const value = getNestedValue(data as Record<string, any>, field.path);
-      if (value === undefined || value === '') return null;
+      const importedValue = getNestedValue(data as Record<string, any>, field.path);
+      if (importedValue === undefined || importedValue === '') return null;
       return {
-        ...field,
-        value,
+        path: field.path,
+        label: field.label,
+        importedValue,
         currentValue: getNestedValue(currentData as Record<string, any>, field.path),
-        confidence: importSession?.confidence?.[field.path]
+        confidence: importSession?.confidence?.[field.path],
+        sourceSnippet: importSession?.sourceSnippets?.[field.path]
       };
-    }).filter(Boolean) as Array<FieldDefinition & { value: unknown; currentValue: unknown; confidence?: number }>;
-  }, [currentData, importSession?.confidence, importSession?.parsedData]);
+    }).filter(Boolean) as ImportMergeField[];
+  }, [currentData, importSession?.confidence, importSession?.parsedData, importSession?.sourceSnippets]);
 
+  // Reset choices only when a new parse result arrives, not on every form edit
   useEffect(() => {
-    if (!parsedFields.length) return;
-    const defaults = new Set<string>();
+    if (!importSession?.parsedData) return;
+    const defaults: Record<string, MergeChoice> = {};
     parsedFields.forEach((field) => {
-      const confidence = field.confidence ?? 0.7;
-      if (confidence >= 0.6) {
-        defaults.add(field.path);
-      }
+      defaults[field.path] = getDefaultMergeChoice(field.currentValue, field.confidence);
     });
-    setSelectedFields(defaults);
-  }, [parsedFields]);
+    setChoices(defaults);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [importSession?.id, importSession?.parsedData]);
+
+  const mergedFields = useMemo(() => parsedFields
+    .filter((field) => (choices[field.path] ?? 'keep') !== 'keep')
+    .map((field) => ({
+      path: field.path,
+      currentValue: field.currentValue,
+      mergedValue: resolveMergedValue(choices[field.path], field.path, field.currentValue, field.importedValue)
+    }))
+    .filter((field) => !isSameValue(field.currentValue, field.mergedValue)),
+  [choices, parsedFields]);
+
+  // Sensitive fields of an approved church are staged in pendingChanges when the form is saved
+  const { stagedPaths } = useMemo(() => categorizeImportFields(mergedFields), [mergedFields]);
+  const isApproved = currentData.status === 'approved';
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -144,7 +186,7 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
     setIsUploading(true);
     setUploadProgress(0);
     setImportSession(null);
-    setSelectedFields(new Set());
+    setChoices({});
 
     try {
       const session = await ChurchImportService.createImportSession({
@@ -169,33 +211,25 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
     event.target.value = '';
   };
 
-  const handleToggleField = (path: string) => {
-    setSelectedFields((prev) => {
-      const next = new Set(prev);
-      if (next.has(path)) {
-        next.delete(path);
-      } else {
-        next.add(path);
-      }
-      return next;
-    });
+  const handleChoiceChange = (path: string, choice: MergeChoice) => {
+    setChoices((prev) => ({ ...prev, [path]: choice }));
   };
 
   const handleApply = async () => {
     if (!importSession?.parsedData) return;
     const patch: Record<string, any> = {};
-    const appliedPaths = Array.from(selectedFields);
-    appliedPaths.forEach((path) => {
-      const value = getNestedValue(importSession.parsedData as Record<string, any>, path);
-      if (value !== undefined) {
-        setNestedValue(patch, path, value);
+    const appliedPaths = mergedFields.map((field) => field.path);
+    const stagedFields = isApproved ? stagedPaths : [];
+    mergedFields.forEach(({ path, mergedValue }) => {
+      if (mergedValue !== undefined) {
+        setNestedValue(patch, path, mergedValue);
       }
     });
-    onApply(patch as Partial<ChurchInfo>, { importId: importSession.id, appliedFields: appliedPaths });
+    onApply(patch as Partial<ChurchInfo>, { importId: importSession.id, appliedFields: appliedPaths, stagedFields });
     if (user?.uid) {
       await ChurchImportService.markImportApplied(churchId, importSession.id, user.uid, appliedPaths);
       if (churchId) {
-        const changes = appliedPaths.map((path) => createFieldChange(path, 'import', 'applied'));
+        const changes = mergedFields.map((field) => createFieldChange(field.path, field.currentValue, field.mergedValue));
         void AuditService.logAction(
           user,
           'church.import_apply',
@@ -207,7 +241,8 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
             metadata: {
               churchId,
               importId: importSession.id,
-              appliedFields: appliedPaths
+              appliedFields: appliedPaths,
+              stagedForReview: stagedFields
             },
             changes
           }
@@ -217,7 +252,7 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
 
     // Reset import UI after successful apply
     setImportSession(null);
-    setSelectedFields(new Set());
+    setChoices({});
     setLastFileName(null);
     setUploadProgress(0);
     setErrorMessage(null);
@@ -258,7 +293,7 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
     return null;
   };
 
-  const canApply = parsedFields.length > 0 && selectedFields.size > 0 && importSession?.status === 'ready';
+  const canApply = mergedFields.length > 0 && importSession?.status === 'ready';
 
   return (
     <Card className="border-2 border-dashed border-emerald-200 bg-emerald-50/30">
@@ -333,34 +368,86 @@ export const ChurchDocumentImport: React.FC<ChurchDocumentImportProps> = ({
         {parsedFields.length > 0 && (
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <div className="text-sm font-medium text-emerald-900">Extracted Fields</div>
-              <div className="text-xs text-emerald-700">{selectedFields.size} selected</div>
+              <div className="text-sm font-medium text-emerald-900">Review Imported Fields</div>
+              <div className="text-xs text-emerald-700">{mergedFields.length} change(s) to apply</div>
             </div>
             <div className="space-y-2">
-              {parsedFields.map((field) => (
-                <div key={field.path} className="flex items-start gap-3 rounded-lg border border-emerald-100 bg-white/70 p-3">
-                  <Checkbox
-                    checked={selectedFields.has(field.path)}
-                    onCheckedChange={() => handleToggleField(field.path)}
-                    className="mt-1"
-                  />
-                  <div className="flex-1 space-y-1">
+              {parsedFields.map((field) => {
+                const unchanged = isSameValue(field.currentValue, field.importedValue);
+                const choice = choices[field.path] ?? 'keep';
+                const isStaged = isApproved && stagedPaths.includes(field.path);
+                const importedCoordinates = field.path === 'coordinates' ? field.importedValue as Coordinates : undefined;
+                return (
+                  <div key={field.path} className="space-y-2 rounded-lg border border-emerald-100 bg-white/70 p-3">
                     <div className="flex flex-wrap items-center gap-2">
                       <span className="text-sm font-semibold text-emerald-900">{field.label}</span>
                       {getConfidenceBadge(field.confidence)}
+                      {field.confidence !== undefined && (
+                        <span className="text-xs text-emerald-700">{Math.round(field.confidence * 100)}%</span>
+                      )}
+                      {isStaged && (
+                        <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                          <ShieldCheck className="h-3 w-3 mr-1" /> Requires review
+                        </Badge>
+                      )}
+                      {importedCoordinates && !isWithinBohol(importedCoordinates.lat, importedCoordinates.lng) && (
+                        <Badge variant="outline" className="border-rose-300 bg-rose-50 text-rose-800">
+                          <AlertTriangle className="h-3 w-3 mr-1" /> Outside Bohol
+                        </Badge>
+                      )}
                     </div>
-                    <div className="text-xs text-emerald-800">
-                      Proposed: <span className="font-medium">{formatValue(field.value)}</span>
-                    </div>
-                    <div className="text-xs text-emerald-600">
-                      Current: {formatValue(field.currentValue)}
+                    <div className="grid gap-2 sm:grid-cols-2 text-xs">
+                      <div className="rounded border border-gray-200 bg-gray-50 p-2">
+                        <div className="font-medium text-gray-600">Current</div>
+                        <div className="whitespace-pre-wrap text-gray-800">{formatValue(field.currentValue)}</div>
+                      </div>
+                      <div className="rounded border border-emerald-200 bg-emerald-50 p-2">
+                        <div className="font-medium text-emerald-700">Imported</div>
+                        <div className="whitespace-pre-wrap text-emerald-900">{formatValue(field.importedValue)}</div>
+                      </div>
                     </div>
+                    {field.sourceSnippet && (
+                      <details className="text-xs text-emerald-700">
+                        <summary className="cursor-pointer">Source text</summary>
+                        <blockquote className="mt-1 border-l-2 border-emerald-200 pl-2 italic whitespace-pre-wrap">
+                          {field.sourceSnippet}
+                        </blockquote>
+                      </details>
+                    )}
+                    {unchanged ? (
+                      <div className="text-xs text-emerald-600">Matches the current value</div>
+                    ) : (
+                      <RadioGroup
+                        value={choice}
+                        onValueChange={(value) => handleChoiceChange(field.path, value as MergeChoice)}
+                        className="flex flex-wrap gap-4"
+                      >
+                        {(Object.keys(MERGE_CHOICE_LABELS) as MergeChoice[])
+                          .filter((option) => option !== 'combine' || canCombine(field.path, field.currentValue))
+                          .map((option) => (
+                            <div key={option} className="flex items-center gap-1.5">
+                              <RadioGroupItem value={option} id={`merge-${field.path}-${option}`} />
+                              <Label htmlFor={`merge-${field.path}-${option}`} className="text-xs font-normal">
+                                {MERGE_CHOICE_LABELS[option]}
+                              </Label>
+                            </div>
+                          ))}
+                      </RadioGroup>
+                    )}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
+            {isApproved && stagedPaths.length > 0 && (
+              <Alert className="border-amber-200 bg-amber-50">
+                <ShieldCheck className="h-4 w-4 text-amber-600" />
+                <AlertDescription className="text-amber-800">
+                  {stagedPaths.length} field(s) will be sent to the Chancery for review when you save. They stay unpublished until approved.
+                </AlertDescription>
+              </Alert>
+            )}
             <Button type="button" disabled={!canApply} onClick={handleApply}>
-              Apply Selected Fields
+              Apply Changes to Form
             </Button>
           </div>
         )}
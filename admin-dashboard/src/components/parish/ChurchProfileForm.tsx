@@ -33,7 +33,8 @@ import {
   Image,
   RotateCcw,
   Loader2,
-  ShieldCheck
+  ShieldCheck,
+  Repeat
 } from 'lucide-react';
 import { ChurchInfo, MassSchedule } from './types';
 import { PriestHistoryManager } from './PriestHistoryManager';
@@ -41,10 +42,14 @@ import { VirtualTourManager } from '../360/VirtualTourManager';
 import PhotoUploader from './PhotoUploader';
 import DocumentUploader from './DocumentUploader';
 import { CoordinateMapPicker } from './CoordinateMapPicker';
+import { MassScheduleRecurrenceEditor } from './MassScheduleRecurrenceEditor';
 import { assessHeritageSignificance, type HeritageAssessment } from '@/lib/heritage-detection';
 import { uploadChurchImage, uploadDocument, deleteFile, compressImage } from '@/lib/storage';
 import { ChurchDocumentImport } from './ChurchDocumentImport';
 import { useAuth } from '@/contexts/AuthContext';
+import type { RevisionRequest } from '@/types/church';
+import { REVISION_FIELDS, getRevisionCommentsForField, getRevisionFieldLabel } from '@/lib/revision-requests';
+import { projectLegacyMassSchedules, recurrenceFromLegacySchedules } from '@/lib/mass-schedule-recurrence';
 
 interface ChurchProfileFormProps {
   initialData?: Partial<ChurchInfo>;
@@ -59,6 +64,7 @@ interface ChurchProfileFormProps {
   isChanceryEdit?: boolean; // New prop to determine if chancery/museum is editing
   isMuseumResearcher?: boolean; // Museum researcher can only edit historical tab and documents
   churchId?: string; // Church ID for hotspot editing
+  revisionRequest?: RevisionRequest; // Reviewer comments to highlight while status is needs_revision
 }
 
 export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
@@ -73,7 +79,8 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
   isModal = false,
   isChanceryEdit = false,
   isMuseumResearcher = false,
-  churchId
+  churchId,
+  revisionRequest
 }) => {
   const { toast } = useToast();
   const { userProfile } = useAuth();
@@ -143,6 +150,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     assistantPriests: initialData?.assistantPriests || [],
     feastDay: initialData?.feastDay || '',
     massSchedules: initialData?.massSchedules || [],
+    massScheduleRules: initialData?.massScheduleRules,
     contactInfo: {
       phone: initialData?.contactInfo?.phone || '+63 ',
       email: initialData?.contactInfo?.email || '',
@@ -171,7 +179,13 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     status: initialData?.status || 'draft'
   });
 
+  // Coordinates applied from a document import stay unconfirmed until the parish checks the map marker
+  const [importedLocationPending, setImportedLocationPending] = useState(false);
+
   const handleImportApply = (data: Partial<ChurchInfo>, _metadata?: { importId: string; appliedFields: string[] }) => {
+    if (data.coordinates) {
+      setImportedLocationPending(true);
+    }
     setFormData(prev => ({
       ...prev,
       ...data,
@@ -236,7 +250,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     ],
     parish: [
       { field: formData.currentParishPriest, label: 'Current Parish Priest' },
-      { field: formData.massSchedules.length > 0 ? 'has-schedules' : '', label: 'Mass Schedule' }
+      { field: formData.massSchedules.length > 0 || formData.massScheduleRules?.rules.length ? 'has-schedules' : '', label: 'Mass Schedule' }
     ],
     media: [] // Optional section
   });
@@ -279,6 +293,38 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     }
   }, [formData, currentStatus]);
 
+  // Revision request helpers - highlight fields flagged by the reviewer
+  const getRevisionFieldClass = (field: string, baseClass: string) => {
+    const comments = getRevisionCommentsForField(revisionRequest, field);
+    if (comments.length === 0) return baseClass;
+    return comments.every(c => c.addressed)
+      ? `${baseClass} rounded-lg ring-2 ring-green-300 bg-green-50/40 p-3`
+      : `${baseClass} rounded-lg ring-2 ring-red-300 bg-red-50/40 p-3`;
+  };
+
+  const tabHasRevisionComments = (tab: string) =>
+    (revisionRequest?.comments || []).some(c => !c.addressed && REVISION_FIELDS[c.field]?.tab === tab);
+
+  const renderRevisionComments = (field: string) => {
+    const comments = getRevisionCommentsForField(revisionRequest, field);
+    if (comments.length === 0) return null;
+    return (
+      <div className="space-y-1">
+        {comments.map((c, index) => (
+          <p
+            key={index}
+            className={`text-xs flex items-start gap-1 ${c.addressed ? 'text-green-700' : 'text-red-700'}`}
+          >
+            {c.addressed
+              ? <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              : <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+            <span><strong>Reviewer:</strong> {c.comment}</span>
+          </p>
+        ))}
+      </div>
+    );
+  };
+
   // Handle tab change - auto-save when switching to Media tab if no churchId exists
   const handleTabChange = async (newTab: string) => {
     // If switching to media tab and no churchId exists, auto-save first
@@ -646,6 +692,8 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
       ...prev,
       coordinates: { lat, lng }
     }));
+    // Moving the marker or typing coordinates counts as confirming the location
+    setImportedLocationPending(false);
     if (touchedFields.has('latitude')) {
       updateFieldError('latitude', lat);
     }
@@ -783,6 +831,21 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     toast({ title: "Removed", description: "Schedule removed from pending list." });
   };
 
+  // Convert the current and pending weekly schedules into recurring rules
+  const switchToRecurringSchedule = () => {
+    const massScheduleRules = recurrenceFromLegacySchedules([...formData.massSchedules, ...pendingSchedules]);
+    setFormData(prev => ({
+      ...prev,
+      massScheduleRules,
+      massSchedules: projectLegacyMassSchedules(massScheduleRules)
+    }));
+    setPendingSchedules([]);
+    toast({
+      title: "Recurring Schedule Enabled",
+      description: `${massScheduleRules.rules.length} recurring mass(es) created from your current schedule.`,
+    });
+  };
+
   // Legacy function for backward compatibility (can be removed later)
   const addMassScheduleForSelectedDays = () => {
     addToPendingSchedules();
@@ -1239,6 +1302,9 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     }
 
     // GPS Coordinates validation
+    if (importedLocationPending) {
+      validationErrors.push("Please confirm the imported GPS location on the map");
+    }
     if (!formData.coordinates.lat || !formData.coordinates.lng) {
       validationErrors.push("GPS Coordinates (latitude and longitude) are required");
     } else {
@@ -1326,7 +1392,8 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
     }
 
     // Mass Schedule validation
-    if (!formData.massSchedules || formData.massSchedules.length === 0) {
+    const hasRecurringMasses = (formData.massScheduleRules?.rules.length ?? 0) > 0;
+    if (!hasRecurringMasses && (!formData.massSchedules || formData.massSchedules.length === 0)) {
       validationErrors.push("At least one mass schedule is required");
     }
 
@@ -1596,6 +1663,29 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
           </div>
         )}
 
+        {/* Revision Request Summary - Shows reviewer comments while status is needs_revision */}
+        {revisionRequest && revisionRequest.comments.length > 0 && (
+          <Alert className="bg-red-50 border-red-300 mb-4">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <AlertDescription className="text-red-800">
+              <strong className="text-red-900">Revision requested:</strong> The reviewer flagged {revisionRequest.comments.length} field(s). Flagged fields are highlighted in red below.
+              <div className="flex flex-wrap gap-2 mt-2">
+                {revisionRequest.comments.map((c, index) => (
+                  <button
+                    key={`${c.field}-${index}`}
+                    type="button"
+                    onClick={() => REVISION_FIELDS[c.field] && handleTabChange(REVISION_FIELDS[c.field].tab)}
+                    className={`text-xs px-2 py-1 rounded border ${c.addressed ? 'border-green-300 bg-green-50 text-green-700' : 'border-red-300 bg-white text-red-700 hover:bg-red-100'}`}
+                  >
+                    {c.addressed && <CheckCircle className="w-3 h-3 inline mr-1" />}
+                    {getRevisionFieldLabel(c.field)}
+                  </button>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Main Form */}
         <Card className={isModal ? "shadow-sm border" : "shadow-xl"}>
           <CardContent className="p-0">
@@ -1611,12 +1701,14 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                   >
                     <Building className="w-4 h-4" />
                     <span className="hidden sm:inline">Basic Info</span>
+                    {tabHasRevisionComments('basic') && <span className="w-2 h-2 rounded-full bg-red-500" title="Reviewer comments on this tab" />}
                     {isMuseumResearcher && <span className="text-xs text-gray-400 hidden md:inline">(View)</span>}
                   </TabsTrigger>
                   
                   <TabsTrigger value="historical" className="flex items-center justify-center gap-2 rounded-md hover:bg-gray-100 data-[state=active]:bg-emerald-100 data-[state=active]:shadow-sm">
                     <History className="w-4 h-4" />
                     <span className="hidden sm:inline">Historical</span>
+                    {tabHasRevisionComments('historical') && <span className="w-2 h-2 rounded-full bg-red-500" title="Reviewer comments on this tab" />}
                   </TabsTrigger>
                   
                   <TabsTrigger 
@@ -1627,6 +1719,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                   >
                     <User className="w-4 h-4" />
                     <span className="hidden sm:inline">Parish Info</span>
+                    {tabHasRevisionComments('parish') && <span className="w-2 h-2 rounded-full bg-red-500" title="Reviewer comments on this tab" />}
                     {isMuseumResearcher && <span className="text-xs text-gray-400 hidden md:inline">(View)</span>}
                   </TabsTrigger>
                   
@@ -1636,6 +1729,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                   >
                     <Image className="w-4 h-4" />
                     <span className="hidden sm:inline">Media</span>
+                    {tabHasRevisionComments('media') && <span className="w-2 h-2 rounded-full bg-red-500" title="Reviewer comments on this tab" />}
                     {isMuseumResearcher && <span className="text-xs text-emerald-500 hidden md:inline">(Docs)</span>}
                   </TabsTrigger>
                 </TabsList>
@@ -1664,10 +1758,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                   )}
 
                   {/* Parish Name */}
-                  <div className="space-y-2">
+                  <div className={getRevisionFieldClass('parishName', 'space-y-2')}>
                     <Label htmlFor="parishName" className="text-sm font-medium text-gray-700">
                       Parish Name <span className="text-red-500">*</span>
                     </Label>
+                    {renderRevisionComments('parishName')}
                     <Input
                       id="parishName"
                       value={formData.parishName}
@@ -1698,10 +1793,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                     </div>
 
                     <div className="grid md:grid-cols-2 gap-6">
-                      <div className="space-y-2">
+                      <div className={getRevisionFieldClass('streetAddress', 'space-y-2')}>
                         <Label htmlFor="streetAddress" className="text-sm font-medium text-gray-700">
                           Street Address <span className="text-red-500">*</span>
                         </Label>
+                        {renderRevisionComments('streetAddress')}
                         <Input
                           id="streetAddress"
                           value={formData.locationDetails.streetAddress}
@@ -1718,10 +1814,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         )}
                       </div>
 
-                      <div className="space-y-2">
+                      <div className={getRevisionFieldClass('barangay', 'space-y-2')}>
                         <Label htmlFor="barangay" className="text-sm font-medium text-gray-700">
                           Barangay <span className="text-red-500">*</span>
                         </Label>
+                        {renderRevisionComments('barangay')}
                         <Input
                           id="barangay"
                           value={formData.locationDetails.barangay}
@@ -1738,10 +1835,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         )}
                       </div>
 
-                      <div className="space-y-2">
+                      <div className={getRevisionFieldClass('municipality', 'space-y-2')}>
                         <Label htmlFor="municipality" className="text-sm font-medium text-gray-700">
                           Municipality <span className="text-red-500">*</span>
                         </Label>
+                        {renderRevisionComments('municipality')}
                         <Input
                           id="municipality"
                           value={formData.locationDetails.municipality}
@@ -1766,6 +1864,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                           GPS Coordinates <span className="text-red-500">*</span>
                         </h4>
                       </div>
+                      {renderRevisionComments('coordinates')}
                       
                       {/* Interactive Map Picker */}
                       <CoordinateMapPicker
@@ -1781,6 +1880,8 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         }}
                         parishName={formData.parishName}
                         municipality={formData.locationDetails.municipality}
+                        importedLocationPending={importedLocationPending}
+                        onConfirmImportedLocation={() => setImportedLocationPending(false)}
                       />
 
                       {/* Manual Input (Collapsible) */}
@@ -1855,10 +1956,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
 
                   {/* Founding Information */}
                   <div className="grid md:grid-cols-2 gap-6">
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('foundingYear', 'space-y-2')}>
                       <Label htmlFor="foundingYear" className="text-sm font-medium text-gray-700">
                         Founding Year <span className="text-red-500">*</span>
                       </Label>
+                      {renderRevisionComments('foundingYear')}
                       <Input
                         id="foundingYear"
                         value={formData.historicalDetails.foundingYear}
@@ -1875,10 +1977,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                       )}
                     </div>
 
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('founders', 'space-y-2')}>
                       <Label htmlFor="founders" className="text-sm font-medium text-gray-700">
                         Founders
                       </Label>
+                      {renderRevisionComments('founders')}
                       <Input
                         id="founders"
                         value={formData.historicalDetails.founders}
@@ -1888,10 +1991,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                       />
                     </div>
 
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('architecturalStyle', 'space-y-2')}>
                       <Label htmlFor="architecturalStyle" className="text-sm font-medium text-gray-700">
                         Architectural Style <span className="text-red-500">*</span>
                       </Label>
+                      {renderRevisionComments('architecturalStyle')}
                       <Select
                         value={formData.historicalDetails.architecturalStyle}
                         onValueChange={(value) => {
@@ -1921,10 +2025,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
 
                   {/* Heritage & Religious Classifications */}
                   <div className="grid md:grid-cols-2 gap-6">
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('heritageClassification', 'space-y-2')}>
                       <Label htmlFor="heritageClassification" className="text-sm font-medium text-gray-700">
                         Heritage Classification
                       </Label>
+                      {renderRevisionComments('heritageClassification')}
                       {/* Heritage classification rules:
                           - Museum Researcher can always edit (they are the authority)
                           - If church is in heritage_review status, only museum can edit
@@ -2006,10 +2111,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
 
                   {/* Historical Background */}
                   <div className="space-y-6">
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('historicalBackground', 'space-y-2')}>
                       <Label htmlFor="historicalBackground" className="text-sm font-medium text-gray-700">
                         Historical Background <span className="text-red-500">*</span>
                       </Label>
+                      {renderRevisionComments('historicalBackground')}
                       <Textarea
                         id="historicalBackground"
                         value={formData.historicalDetails.historicalBackground}
@@ -2042,10 +2148,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                       <h3 className="text-lg font-semibold text-gray-900">Architectural & Heritage Information</h3>
                     </div>
 
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('architecturalFeatures', 'space-y-2')}>
                       <Label htmlFor="architecturalFeatures" className="text-sm font-medium text-gray-700">
                         Architectural Features
                       </Label>
+                      {renderRevisionComments('architecturalFeatures')}
                       <Textarea
                         id="architecturalFeatures"
                         value={formData.historicalDetails.architecturalFeatures}
@@ -2059,10 +2166,11 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                       </p>
                     </div>
 
-                    <div className="space-y-2">
+                    <div className={getRevisionFieldClass('heritageInformation', 'space-y-2')}>
                       <Label htmlFor="heritageInformation" className="text-sm font-medium text-gray-700">
                         Heritage Information
                       </Label>
+                      {renderRevisionComments('heritageInformation')}
                       <Textarea
                         id="heritageInformation"
                         value={formData.historicalDetails.heritageInformation}
@@ -2101,16 +2209,18 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         onUpdateHistory={(history) => setFormData(prev => ({ ...prev, priest_assignment: history }))}
                         disabled={isMuseumResearcher}
                       />
+                      {renderRevisionComments('currentParishPriest')}
                       {getFieldError('currentParishPriest') && (
                         <p className="text-xs text-red-500 mt-1">{getFieldError('currentParishPriest')}</p>
                       )}
                     </div>
 
                     {/* Feast Day */}
-                    <div className="space-y-1.5">
+                    <div className={getRevisionFieldClass('feastDay', 'space-y-1.5')}>
                       <Label htmlFor="feastDay" className="text-sm font-medium text-gray-700">
                         Feast Day
                       </Label>
+                      {renderRevisionComments('feastDay')}
                       <div className="relative">
                         <Calendar className="absolute left-2.5 top-1/2 transform -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
                         <Input
@@ -2196,6 +2306,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         </span>
                       )}
                     </div>
+                    {renderRevisionComments('contactInfo')}
 
                     {/* Contact Fields in 2-column grid */}
                     <div className="grid md:grid-cols-2 gap-4">
@@ -2313,9 +2424,35 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                       <Calendar className="w-5 h-5 text-emerald-600" />
                       <h3 className="text-lg font-semibold text-gray-900">Mass Schedules</h3>
                     </div>
+                    {renderRevisionComments('massSchedules')}
+
+                    {/* Recurring schedule - the legacy list is projected from its weekly rules on every change */}
+                    {formData.massScheduleRules && (
+                      <MassScheduleRecurrenceEditor
+                        value={formData.massScheduleRules}
+                        disabled={isChanceryEdit}
+                        onChange={(massScheduleRules) => setFormData(prev => ({
+                          ...prev,
+                          massScheduleRules,
+                          massSchedules: projectLegacyMassSchedules(massScheduleRules)
+                        }))}
+                      />
+                    )}
+
+                    {!formData.massScheduleRules && !isChanceryEdit && (
+                      <div className="flex items-center justify-between gap-4 rounded-lg border border-emerald-200 bg-white p-4">
+                        <p className="text-sm text-gray-600">
+                          Need First Friday masses, seasonal schedules or one-off cancellations? Switch to a recurring schedule.
+                        </p>
+                        <Button type="button" variant="outline" onClick={switchToRecurringSchedule} className="flex items-center gap-2 shrink-0">
+                          <Repeat className="w-4 h-4" />
+                          Use Recurring Schedule
+                        </Button>
+                      </div>
+                    )}
 
                     {/* Existing Mass Schedules */}
-                    {formData.massSchedules.length > 0 && (
+                    {!formData.massScheduleRules && formData.massSchedules.length > 0 && (
                       <div className="space-y-4">
                         <h4 className="font-medium text-gray-700">Current Schedules</h4>
                         {renderGroupedMassSchedules()}
@@ -2323,7 +2460,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                     )}
 
                     {/* Pending Schedules Preview - Hidden for Chancery */}
-                    {!isChanceryEdit && pendingSchedules.length > 0 && (
+                    {!isChanceryEdit && !formData.massScheduleRules && pendingSchedules.length > 0 && (
                       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
                         <div className="flex items-center justify-between mb-4">
                           <h4 className="font-medium text-gray-900">Pending Schedules ({pendingSchedules.length})</h4>
@@ -2508,7 +2645,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                     )}
 
                     {/* Add Mass Schedule - Hidden for Chancery */}
-                    {!isChanceryEdit && (
+                    {!isChanceryEdit && !formData.massScheduleRules && (
                     <div className="bg-emerald-50 rounded-lg p-6">
                       <h4 className="font-medium text-gray-900 mb-6">Add Mass Schedule</h4>
 
@@ -2677,6 +2814,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                             <p className="text-gray-600">Share regular photos of your church (Optional)</p>
                           </div>
                         </div>
+                        {renderRevisionComments('photos')}
                         <PhotoUploader
                           photos={formData.photos}
                           onPhotosChange={(photos) => setFormData(prev => ({
@@ -2747,6 +2885,7 @@ export const ChurchProfileForm: React.FC<ChurchProfileFormProps> = ({
                         <p className="text-gray-600">Upload heritage and historical documentation (Optional)</p>
                       </div>
                     </div>
+                    {renderRevisionComments('documents')}
                     <DocumentUploader
                       documents={formData.documents}
                       onDocumentsChange={(documents) => setFormData(prev => ({
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { BOHOL_BOUNDS, isWithinBohol } from '@/lib/validators';
 
 // Fix Leaflet default marker icon issue
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
@@ -37,12 +38,6 @@ const churchIcon = new L.Icon({
 
 // Bohol region constants (moved outside component to avoid dependency issues)
 const BOHOL_CENTER = { lat: 9.85, lng: 124.1 };
-const BOHOL_BOUNDS = {
-  minLat: 9.4,
-  maxLat: 10.2,
-  minLng: 123.7,
-  maxLng: 124.7
-};
 
 interface CoordinateMapPickerProps {
   latitude: number;
@@ -53,6 +48,10 @@ interface CoordinateMapPickerProps {
   parishName?: string;
   /** Municipality from the form - used for auto-search */
   municipality?: string;
+  /** Coordinates came from an imported document and have not been confirmed yet */
+  importedLocationPending?: boolean;
+  /** Called when the parish confirms the imported location as-is */
+  onConfirmImportedLocation?: () => void;
 }
 
 // Component to handle map click events
@@ -89,7 +88,9 @@ export const CoordinateMapPicker: React.FC<CoordinateMapPickerProps> = ({
   onCoordinatesChange,
   disabled = false,
   parishName = '',
-  municipality = ''
+  municipality = '',
+  importedLocationPending = false,
+  onConfirmImportedLocation
 }) => {
   const [locationError, setLocationError] = useState<string | null>(null);
   const [hasValidCoordinates, setHasValidCoordinates] = useState(false);
@@ -106,9 +107,7 @@ export const CoordinateMapPicker: React.FC<CoordinateMapPickerProps> = ({
 
   // Check if coordinates are valid (non-zero and within Bohol)
   useEffect(() => {
-    const isValid = latitude !== 0 && longitude !== 0 &&
-      latitude >= BOHOL_BOUNDS.minLat && latitude <= BOHOL_BOUNDS.maxLat &&
-      longitude >= BOHOL_BOUNDS.minLng && longitude <= BOHOL_BOUNDS.maxLng;
+    const isValid = latitude !== 0 && longitude !== 0 && isWithinBohol(latitude, longitude);
     setHasValidCoordinates(isValid);
   }, [latitude, longitude]);
 
@@ -245,8 +244,7 @@ export const CoordinateMapPicker: React.FC<CoordinateMapPickerProps> = ({
     const lng = parseFloat(result.lon);
     
     // Validate within Bohol bounds
-    if (lat < BOHOL_BOUNDS.minLat || lat > BOHOL_BOUNDS.maxLat ||
-        lng < BOHOL_BOUNDS.minLng || lng > BOHOL_BOUNDS.maxLng) {
+    if (!isWithinBohol(lat, lng)) {
       setLocationError('Selected location is outside Bohol region');
       return;
     }
@@ -267,8 +265,7 @@ export const CoordinateMapPicker: React.FC<CoordinateMapPickerProps> = ({
 
   const handleMapClick = useCallback((lat: number, lng: number) => {
     // Validate coordinates are within Bohol region
-    if (lat < BOHOL_BOUNDS.minLat || lat > BOHOL_BOUNDS.maxLat ||
-        lng < BOHOL_BOUNDS.minLng || lng > BOHOL_BOUNDS.maxLng) {
+    if (!isWithinBohol(lat, lng)) {
       setLocationError('Please select a location within Bohol region');
       return;
     }
@@ -340,6 +337,37 @@ export const CoordinateMapPicker: React.FC<CoordinateMapPickerProps> = ({
           </Alert>
         )}
 
+        {/* Imported location awaiting confirmation */}
+        {importedLocationPending && (
+          <Alert className="bg-amber-50 border-amber-200">
+            <AlertCircle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm text-amber-800">
+              {hasValidCoordinates ? (
+                <>
+                  <span>Location imported from a document. Check the marker, then confirm it or click the map to adjust.</span>
+                  {onConfirmImportedLocation && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={onConfirmImportedLocation}
+                      disabled={disabled}
+                      className="border-amber-300 text-amber-800 hover:bg-amber-100"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Confirm Location
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <span>
+                  The imported location ({latitude.toFixed(6)}, {longitude.toFixed(6)}) is outside Bohol. Please select the correct location on the map.
+                </span>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Search Results - shown below when we have results */}
         {showResults && searchResults.length > 0 && (
           <div className="bg-white border border-emerald-200 rounded-lg shadow-sm">
@@ -0,0 +1,507 @@
+import React, { useMemo, useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CalendarPlus, CalendarX, Plus, Repeat, Trash2, Video } from 'lucide-react';
+import type {
+  MassRecurrenceRule,
+  MassScheduleAddition,
+  MassScheduleException,
+  MassScheduleRecurrence,
+  MassWeekday,
+} from '@/types/church';
+import {
+  MASS_WEEKDAYS,
+  ORDINAL_LABELS,
+  WEEKDAY_NAMES,
+  createScheduleEntryId,
+  describeRule,
+  expandMassSchedule,
+  findMassScheduleConflicts,
+  fromDateKey,
+  toDateKey,
+  toRRule,
+  type MassOccurrence,
+} from '@/lib/mass-schedule-recurrence';
+
+interface MassScheduleRecurrenceEditorProps {
+  value: MassScheduleRecurrence;
+  onChange: (value: MassScheduleRecurrence) => void;
+  disabled?: boolean;
+}
+
+const LANGUAGES = ['Cebuano', 'English', 'Filipino'];
+const ALL_MASSES = 'all';
+
+const emptyRuleForm = {
+  frequency: 'weekly' as MassRecurrenceRule['frequency'],
+  byDay: [] as MassWeekday[],
+  ordinals: [1] as number[],
+  time: '',
+  endTime: '',
+  language: 'Cebuano',
+  isFbLive: false,
+  label: '',
+  validFrom: '',
+  validUntil: '',
+};
+
+const emptyExceptionForm = { date: '', ruleId: ALL_MASSES, reason: '' };
+const emptyAdditionForm = { date: '', time: '', endTime: '', language: 'Cebuano', label: '' };
+
+// 24-hour "HH:mm" to "6:00 AM"
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  if (Number.isNaN(hours)) return time;
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes || 0).padStart(2, '0')} ${period}`;
+};
+
+const formatTimeRange = (entry: { time: string; endTime?: string }) =>
+  entry.endTime ? `${formatTime(entry.time)} - ${formatTime(entry.endTime)}` : formatTime(entry.time);
+
+/**
+ * MassScheduleRecurrenceEditor - Edits a recurrence-based mass schedule:
+ * weekly and monthly rules with seasonal validity, cancelled masses (exceptions)
+ * and one-off additions, with a month calendar preview that flags duplicate
+ * and overlapping masses.
+ */
+export const MassScheduleRecurrenceEditor: React.FC<MassScheduleRecurrenceEditorProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+  const [exceptionForm, setExceptionForm] = useState(emptyExceptionForm);
+  const [additionForm, setAdditionForm] = useState(emptyAdditionForm);
+  const [previewMonth, setPreviewMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+
+  const occurrences = useMemo(
+    () => expandMassSchedule(value, toDateKey(startOfMonth(previewMonth)), toDateKey(endOfMonth(previewMonth))),
+    [value, previewMonth]
+  );
+  const conflicts = useMemo(() => findMassScheduleConflicts(occurrences), [occurrences]);
+
+  const massDays = useMemo(
+    () => [...new Set(occurrences.filter(o => !o.cancelled).map(o => o.date))].map(fromDateKey),
+    [occurrences]
+  );
+  const cancelledDays = useMemo(
+    () => [...new Set(occurrences.filter(o => o.cancelled).map(o => o.date))].map(fromDateKey),
+    [occurrences]
+  );
+  const conflictDays = useMemo(
+    () => [...new Set(conflicts.map(c => c.date))].map(fromDateKey),
+    [conflicts]
+  );
+
+  const selectedKey = selectedDate ? toDateKey(selectedDate) : '';
+  const selectedOccurrences = occurrences.filter(o => o.date === selectedKey);
+  const selectedConflicts = conflicts.filter(c => c.date === selectedKey);
+
+  const ruleLabel = (ruleId?: string) => {
+    const rule = value.rules.find(r => r.id === ruleId);
+    return rule ? rule.label || `${describeRule(rule)} at ${formatTime(rule.time)}` : 'All masses';
+  };
+
+  const occurrenceLabel = (occurrence: MassOccurrence) =>
+    occurrence.label || (occurrence.additionId ? 'Special mass' : 'Mass');
+
+  const toggleRuleDay = (day: MassWeekday, checked: boolean) => {
+    setRuleForm(prev => ({
+      ...prev,
+      byDay: checked ? MASS_WEEKDAYS.filter(d => d === day || prev.byDay.includes(d)) : prev.byDay.filter(d => d !== day),
+    }));
+  };
+
+  const toggleOrdinal = (ordinal: number, checked: boolean) => {
+    setRuleForm(prev => ({
+      ...prev,
+      ordinals: checked ? [...prev.ordinals, ordinal].sort((a, b) => (a === -1 ? 1 : b === -1 ? -1 : a - b)) : prev.ordinals.filter(o => o !== ordinal),
+    }));
+  };
+
+  const isRuleFormValid =
+    ruleForm.time !== '' &&
+    ruleForm.byDay.length > 0 &&
+    (ruleForm.frequency === 'weekly' || ruleForm.ordinals.length > 0) &&
+    (!ruleForm.validFrom || !ruleForm.validUntil || ruleForm.validFrom <= ruleForm.validUntil);
+
+  const handleAddRule = () => {
+    if (!isRuleFormValid) return;
+    const rule: MassRecurrenceRule = {
+      id: createScheduleEntryId(),
+      frequency: ruleForm.frequency,
+      byDay: ruleForm.byDay,
+      ...(ruleForm.frequency === 'monthly' ? { ordinals: ruleForm.ordinals } : {}),
+      time: ruleForm.time,
+      ...(ruleForm.endTime ? { endTime: ruleForm.endTime } : {}),
+      language: ruleForm.language,
+      isFbLive: ruleForm.isFbLive,
+      ...(ruleForm.label.trim() ? { label: ruleForm.label.trim() } : {}),
+      ...(ruleForm.validFrom ? { validFrom: ruleForm.validFrom } : {}),
+      ...(ruleForm.validUntil ? { validUntil: ruleForm.validUntil } : {}),
+    };
+    onChange({ ...value, rules: [...value.rules, rule] });
+    setRuleForm(prev => ({ ...emptyRuleForm, language: prev.language }));
+  };
+
+  const handleRemoveRule = (ruleId: string) => {
+    onChange({
+      ...value,
+      rules: value.rules.filter(r => r.id !== ruleId),
+      // Exceptions that only targeted the removed rule no longer apply
+      exceptions: value.exceptions.filter(e => e.ruleId !== ruleId),
+    });
+  };
+
+  const handleAddException = () => {
+    if (!exceptionForm.date) return;
+    const exception: MassScheduleException = {
+      id: createScheduleEntryId(),
+      date: exceptionForm.date,
+      ...(exceptionForm.ruleId !== ALL_MASSES ? { ruleId: exceptionForm.ruleId } : {}),
+      ...(exceptionForm.reason.trim() ? { reason: exceptionForm.reason.trim() } : {}),
+    };
+    onChange({ ...value, exceptions: [...value.exceptions, exception] });
+    setExceptionForm(emptyExceptionForm);
+  };
+
+  const handleAddAddition = () => {
+    if (!additionForm.date || !additionForm.time) return;
+    const addition: MassScheduleAddition = {
+      id: createScheduleEntryId(),
+      date: additionForm.date,
+      time: additionForm.time,
+      ...(additionForm.endTime ? { endTime: additionForm.endTime } : {}),
+      language: additionForm.language,
+      ...(additionForm.label.trim() ? { label: additionForm.label.trim() } : {}),
+    };
+    onChange({ ...value, additions: [...value.additions, addition] });
+    setAdditionForm(prev => ({ ...emptyAdditionForm, language: prev.language }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Recurring rules */}
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center gap-2">
+            <Repeat className="w-4 h-4 text-emerald-600" />
+            <h4 className="font-medium text-gray-900">Recurring Masses</h4>
+          </div>
+
+          {value.rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No recurring masses yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {value.rules.map(rule => (
+                <div key={rule.id} className="flex items-start justify-between gap-3 rounded-lg border border-gray-200 bg-white p-3">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{formatTimeRange(rule)}</span>
+                      {rule.label && <Badge variant="secondary">{rule.label}</Badge>}
+                      {rule.language && <Badge variant="outline">{rule.language}</Badge>}
+                      {rule.isFbLive && (
+                        <Badge variant="outline" className="border-blue-200 text-blue-700">
+                          <Video className="w-3 h-3 mr-1" /> FB Live
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">{describeRule(rule)}</p>
+                    <p className="text-xs font-mono text-gray-400">{toRRule(rule)}</p>
+                  </div>
+                  {!disabled && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveRule(rule.id)} aria-label="Remove recurring mass">
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!disabled && (
+            <div className="rounded-lg bg-emerald-50 p-4 space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-sm mb-2 block">Repeats</Label>
+                  <Select
+                    value={ruleForm.frequency}
+                    onValueChange={(frequency: MassRecurrenceRule['frequency']) => setRuleForm(prev => ({ ...prev, frequency }))}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="weekly">Every week</SelectItem>
+                      <SelectItem value="monthly">Monthly (e.g. first Friday)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-sm mb-2 block">Start Time</Label>
+                  <Input type="time" step="300" value={ruleForm.time} onChange={(e) => setRuleForm(prev => ({ ...prev, time: e.target.value }))} />
+                </div>
+                <div>
+                  <Label className="text-sm mb-2 block">End Time</Label>
+                  <Input type="time" step="300" value={ruleForm.endTime} onChange={(e) => setRuleForm(prev => ({ ...prev, endTime: e.target.value }))} />
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-sm mb-2 block">Days</Label>
+                <div className="flex flex-wrap gap-2">
+                  {MASS_WEEKDAYS.map(day => (
+                    <label key={day} className="flex items-center gap-2 rounded-md border bg-white px-3 py-1.5 text-sm cursor-pointer">
+                      <Checkbox checked={ruleForm.byDay.includes(day)} onCheckedChange={(checked) => toggleRuleDay(day, !!checked)} />
+                      {WEEKDAY_NAMES[day]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {ruleForm.frequency === 'monthly' && (
+                <div>
+                  <Label className="text-sm mb-2 block">Week of the month</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {[1, 2, 3, 4, -1].map(ordinal => (
+                      <label key={ordinal} className="flex items-center gap-2 rounded-md border bg-white px-3 py-1.5 text-sm cursor-pointer">
+                        <Checkbox checked={ruleForm.ordinals.includes(ordinal)} onCheckedChange={(checked) => toggleOrdinal(ordinal, !!checked)} />
+                        {ORDINAL_LABELS[ordinal]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid md:grid-cols-4 gap-4">
+                <div>
+                  <Label className="text-sm mb-2 block">Label (optional)</Label>
+                  <Input
+                    value={ruleForm.label}
+                    placeholder="e.g. Lenten Schedule"
+                    onChange={(e) => setRuleForm(prev => ({ ...prev, label: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm mb-2 block">Language</Label>
+                  <Select value={ruleForm.language} onValueChange={(language) => setRuleForm(prev => ({ ...prev, language }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGES.map(language => <SelectItem key={language} value={language}>{language}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-sm mb-2 block">Valid from (optional)</Label>
+                  <Input type="date" value={ruleForm.validFrom} onChange={(e) => setRuleForm(prev => ({ ...prev, validFrom: e.target.value }))} />
+                </div>
+                <div>
+                  <Label className="text-sm mb-2 block">Valid until (optional)</Label>
+                  <Input type="date" value={ruleForm.validUntil} onChange={(e) => setRuleForm(prev => ({ ...prev, validUntil: e.target.value }))} />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox checked={ruleForm.isFbLive} onCheckedChange={(checked) => setRuleForm(prev => ({ ...prev, isFbLive: !!checked }))} />
+                  Live-streamed on Facebook
+                </label>
+                <Button type="button" onClick={handleAddRule} disabled={!isRuleFormValid} className="flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  Add Recurring Mass
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Exceptions and additions */}
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <CalendarX className="w-4 h-4 text-red-600" />
+              <h4 className="font-medium text-gray-900">Cancelled Masses</h4>
+            </div>
+            {value.exceptions.length === 0 && <p className="text-sm text-gray-500">No cancellations.</p>}
+            {[...value.exceptions].sort((a, b) => a.date.localeCompare(b.date)).map(exception => (
+              <div key={exception.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <span className="font-medium">{format(fromDateKey(exception.date), 'MMM d, yyyy')}</span>
+                  <span className="text-gray-600"> · {ruleLabel(exception.ruleId)}</span>
+                  {exception.reason && <p className="text-xs text-gray-500">{exception.reason}</p>}
+                </div>
+                {!disabled && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange({ ...value, exceptions: value.exceptions.filter(e => e.id !== exception.id) })}
+                    aria-label="Remove cancellation"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!disabled && (
+              <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <Input type="date" value={exceptionForm.date} onChange={(e) => setExceptionForm(prev => ({ ...prev, date: e.target.value }))} />
+                  <Select value={exceptionForm.ruleId} onValueChange={(ruleId) => setExceptionForm(prev => ({ ...prev, ruleId }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_MASSES}>All masses that day</SelectItem>
+                      {value.rules.map(rule => (
+                        <SelectItem key={rule.id} value={rule.id}>{ruleLabel(rule.id)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  value={exceptionForm.reason}
+                  placeholder="Reason, e.g. No 6 AM mass on fiesta day"
+                  onChange={(e) => setExceptionForm(prev => ({ ...prev, reason: e.target.value }))}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={handleAddException} disabled={!exceptionForm.date}>
+                  <Plus className="w-4 h-4 mr-1" /> Add Cancellation
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <CalendarPlus className="w-4 h-4 text-blue-600" />
+              <h4 className="font-medium text-gray-900">Special Masses</h4>
+            </div>
+            {value.additions.length === 0 && <p className="text-sm text-gray-500">No special masses.</p>}
+            {[...value.additions].sort((a, b) => a.date.localeCompare(b.date)).map(addition => (
+              <div key={addition.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <span className="font-medium">{format(fromDateKey(addition.date), 'MMM d, yyyy')}</span>
+                  <span className="text-gray-600"> · {formatTimeRange(addition)}</span>
+                  {addition.label && <p className="text-xs text-gray-500">{addition.label}</p>}
+                </div>
+                {!disabled && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange({ ...value, additions: value.additions.filter(a => a.id !== addition.id) })}
+                    aria-label="Remove special mass"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!disabled && (
+              <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <Input type="date" value={additionForm.date} onChange={(e) => setAdditionForm(prev => ({ ...prev, date: e.target.value }))} />
+                  <Input type="time" step="300" value={additionForm.time} onChange={(e) => setAdditionForm(prev => ({ ...prev, time: e.target.value }))} />
+                  <Input type="time" step="300" value={additionForm.endTime} onChange={(e) => setAdditionForm(prev => ({ ...prev, endTime: e.target.value }))} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    value={additionForm.label}
+                    placeholder="e.g. Fiesta Mass"
+                    onChange={(e) => setAdditionForm(prev => ({ ...prev, label: e.target.value }))}
+                  />
+                  <Select value={additionForm.language} onValueChange={(language) => setAdditionForm(prev => ({ ...prev, language }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGES.map(language => <SelectItem key={language} value={language}>{language}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddAddition} disabled={!additionForm.date || !additionForm.time}>
+                  <Plus className="w-4 h-4 mr-1" /> Add Special Mass
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Calendar preview */}
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <h4 className="font-medium text-gray-900">Calendar Preview</h4>
+
+          {conflicts.length > 0 && (
+            <Alert className="border-amber-200 bg-amber-50">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertDescription className="text-sm text-amber-800">
+                {conflicts.length} conflict(s) in {format(previewMonth, 'MMMM yyyy')}: duplicate or overlapping masses on{' '}
+                {[...new Set(conflicts.map(c => format(fromDateKey(c.date), 'MMM d')))].join(', ')}.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid md:grid-cols-[auto,1fr] gap-6">
+            <Calendar
+              mode="single"
+              month={previewMonth}
+              onMonthChange={(month) => setPreviewMonth(startOfMonth(month))}
+              selected={selectedDate}
+              onSelect={setSelectedDate}
+              modifiers={{ hasMass: massDays, cancelled: cancelledDays, conflict: conflictDays }}
+              modifiersClassNames={{
+                hasMass: 'font-semibold text-emerald-700 underline decoration-emerald-400',
+                cancelled: 'line-through',
+                conflict: 'bg-amber-100 text-amber-900',
+              }}
+            />
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                {selectedDate ? format(selectedDate, 'EEEE, MMMM d, yyyy') : 'Select a date'}
+              </p>
+              {selectedDate && selectedOccurrences.length === 0 && (
+                <p className="text-sm text-gray-500">No masses scheduled.</p>
+              )}
+              {selectedOccurrences.map((occurrence, index) => (
+                <div
+                  key={`${occurrence.ruleId || occurrence.additionId}-${index}`}
+                  className={`flex items-center justify-between rounded-md border p-2 text-sm ${occurrence.cancelled ? 'bg-gray-50 text-gray-400' : 'bg-white'}`}
+                >
+                  <div className={occurrence.cancelled ? 'line-through' : ''}>
+                    <span className="font-medium">{formatTimeRange(occurrence)}</span>
+                    <span className="text-gray-600"> · {occurrenceLabel(occurrence)}</span>
+                    {occurrence.language && <span className="text-gray-500"> · {occurrence.language}</span>}
+                  </div>
+                  {occurrence.cancelled && (
+                    <Badge variant="outline" className="text-xs">Cancelled{occurrence.cancelReason ? `: ${occurrence.cancelReason}` : ''}</Badge>
+                  )}
+                </div>
+              ))}
+              {selectedConflicts.map((conflict, index) => (
+                <p key={index} className="flex items-center gap-1 text-xs text-amber-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  {conflict.type === 'duplicate' ? 'Duplicate' : 'Overlapping'} masses at{' '}
+                  {formatTime(conflict.occurrences[0].time)} and {formatTime(conflict.occurrences[1].time)}
+                </p>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MassScheduleRecurrenceEditor;
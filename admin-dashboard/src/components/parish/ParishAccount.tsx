@@ -22,6 +22,7 @@ import { doc, updateDoc } from 'firebase/firestore';
 import { updatePassword, EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
 import { db, auth } from '@/lib/firebase';
 import { ChurchService } from '@/services/churchService';
+import { NotificationPreferencesCard } from '@/components/NotificationPreferencesCard';
 
 interface ParishAccountProps {
   onClose: () => void;
@@ -755,6 +756,9 @@ export const ParishAccount: React.FC<ParishAccountProps> = ({
           )}
         </CardContent>
       </Card>
+
+      {/* Notification Delivery Preferences */}
+      <NotificationPreferencesCard />
     </div>
   );
 };
\ No newline at end of file
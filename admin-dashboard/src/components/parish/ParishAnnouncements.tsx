@@ -4,6 +4,8 @@ import { AnnouncementService } from '@/services/announcementService';
 import { AnnouncementList } from '@/components/announcements/AnnouncementList';
 import { AnnouncementForm } from '@/components/announcements/AnnouncementForm';
 import { AnnouncementDetailDialog } from '@/components/announcements/AnnouncementDetailDialog';
+import { CalendarFeedButton } from '@/components/announcements/CalendarFeedButton';
+import { AnnouncementFeedButton } from '@/components/announcements/AnnouncementFeedButton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,6 +14,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
 import { Plus, Calendar, Bell, ArrowLeft } from 'lucide-react';
 import type { Announcement, AnnouncementFormData } from '@/types/announcement';
+import { getChurchCalendarFeedUrl } from '@/lib/calendar-feeds';
+import { getParishAnnouncementFeedUrl } from '@/lib/announcement-feeds';
 
 interface ParishAnnouncementsProps {
   churchId: string;
@@ -48,77 +52,13 @@ export const ParishAnnouncements: React.FC<ParishAnnouncementsProps> = ({
         userId: userProfile.uid
       });
 
-      // Load current parish announcements - only show announcements created by this user
-      const data = await AnnouncementService.getAnnouncements(userProfile.diocese, {
-        isArchived: false,
+      // Load published and scheduled parish announcements - only show announcements created by this user.
+      // Past events are archived by the processAnnouncementSchedules Cloud Function.
+      const data = await AnnouncementService.getActiveAnnouncements(userProfile.diocese, {
         scope: 'parish',
         createdBy: userProfile.uid // Only show announcements created by this user
       });
 
-      // Auto-archive past events only for this user's announcements
-      // (Parish secretaries can only archive their own announcements)
-      try {
-        const now = new Date();
-        let archivedCount = 0;
-        for (const announcement of data) {
-          let shouldArchive = false;
-
-          if (announcement.endDate && announcement.endDate < now) {
-            shouldArchive = true;
-          } else if (!announcement.endDate && announcement.eventDate) {
-            const eventDate = new Date(announcement.eventDate);
-            
-            if (announcement.endTime) {
-              const [hours, minutes] = announcement.endTime.split(':').map(Number);
-              const eventEndDateTime = new Date(eventDate);
-              eventEndDateTime.setHours(hours || 0, minutes || 0, 0, 0);
-              if (eventEndDateTime < now) {
-                shouldArchive = true;
-              }
-            } else if (announcement.eventTime) {
-              const [hours, minutes] = announcement.eventTime.split(':').map(Number);
-              const eventDateTime = new Date(eventDate);
-              eventDateTime.setHours(hours || 0, minutes || 0, 0, 0);
-              if (eventDateTime < now) {
-                shouldArchive = true;
-              }
-            } else {
-              const eventEndOfDay = new Date(eventDate);
-              eventEndOfDay.setHours(23, 59, 59, 999);
-              if (eventEndOfDay < now) {
-                shouldArchive = true;
-              }
-            }
-          }
-
-          if (shouldArchive && !announcement.isArchived) {
-            console.log(`📦 Auto-archiving past announcement: "${announcement.title}"`);
-            await AnnouncementService.archiveAnnouncement(announcement.id, userProfile, announcement.title);
-            archivedCount++;
-          }
-        }
-
-        if (archivedCount > 0) {
-          toast({
-            title: "Auto-Archive",
-            description: `${archivedCount} past event${archivedCount > 1 ? 's' : ''} automatically archived`,
-          });
-          // Reload data since we archived some announcements
-          const refreshedData = await AnnouncementService.getAnnouncements(userProfile.diocese, {
-            isArchived: false,
-            scope: 'parish',
-            createdBy: userProfile.uid
-          });
-          const parishAnnouncements = refreshedData.filter(a => a.parishId === churchId);
-          setAnnouncements(parishAnnouncements);
-          setIsLoading(false);
-          return;
-        }
-      } catch (archiveError) {
-        console.warn('Auto-archive failed (non-critical):', archiveError);
-        // Continue loading announcements even if auto-archive fails
-      }
-
       console.log('📋 [PARISH ANNOUNCEMENTS] Fetched announcements:', {
         total: data.length,
         parishIds: data.map(a => ({ id: a.id, parishId: a.parishId, title: a.title })),
@@ -368,19 +308,26 @@ export const ParishAnnouncements: React.FC<ParishAnnouncementsProps> = ({
             <p className="text-sm sm:text-base text-gray-600">Manage announcements and events for your parish</p>
           </div>
         </div>
-        <Button
-          onClick={() => {
-            setSelectedAnnouncement(null);
-            setDetailAnnouncement(null);
-            setIsDetailOpen(false);
-            setDetailReturnMeta(null);
-            setIsFormOpen(true);
-          }}
-          className="bg-emerald-600 hover:bg-emerald-700 w-full sm:w-auto"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          <span className="sm:inline">New Announcement</span>
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <CalendarFeedButton feedUrl={getChurchCalendarFeedUrl(churchId)} className="w-full sm:w-auto" />
+          <AnnouncementFeedButton
+            getFeedUrl={(format, categories) => getParishAnnouncementFeedUrl(churchId, format, categories)}
+            className="w-full sm:w-auto"
+          />
+          <Button
+            onClick={() => {
+              setSelectedAnnouncement(null);
+              setDetailAnnouncement(null);
+              setIsDetailOpen(false);
+              setDetailReturnMeta(null);
+              setIsFormOpen(true);
+            }}
+            className="bg-emerald-600 hover:bg-emerald-700 w-full sm:w-auto"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            <span className="sm:inline">New Announcement</span>
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
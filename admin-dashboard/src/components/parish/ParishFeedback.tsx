@@ -12,6 +12,15 @@ import {
   DialogFooter
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import {
   MessageSquare,
   Star,
@@ -22,7 +31,10 @@ import {
   EyeOff,
   Clock,
   CheckCircle,
-  XCircle
+  XCircle,
+  Reply,
+  Timer,
+  Flag
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
@@ -31,6 +43,15 @@ import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 
 import { FeedbackService, FeedbackItem as FeedbackServiceItem } from '@/services/feedbackService';
+import { FeedbackReplyThread } from '@/components/FeedbackReplyThread';
+import { computeFeedbackReplyMetrics, formatResponseTime } from '@shared/feedbackReplies';
+import { flagFeedback, getFlaggedFeedbackIds } from '@/lib/feedback-flags';
+import {
+  FEEDBACK_FLAG_REASONS,
+  FEEDBACK_FLAG_REASON_LABELS,
+  MAX_FLAG_DETAILS_LENGTH,
+  type FeedbackFlagReason
+} from '@shared/feedbackFlags';
 
 interface ParishFeedbackProps {
   churchName: string;
@@ -55,6 +76,11 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [pendingAction, setPendingAction] = useState<{id: string, action: 'hide' | 'publish' | 'approve' | 'reject', subject?: string} | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [flaggedIds, setFlaggedIds] = useState<Set<string>>(new Set());
+  const [flagTarget, setFlagTarget] = useState<FeedbackItem | null>(null);
+  const [flagReason, setFlagReason] = useState<FeedbackFlagReason>('offensive');
+  const [flagDetails, setFlagDetails] = useState('');
+  const [isFlagging, setIsFlagging] = useState(false);
 
   // Real feedback data from Firestore
   const [feedbackData, setFeedbackData] = useState<FeedbackItem[]>([]);
@@ -109,6 +135,36 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [churchId]); // Only re-subscribe when churchId changes, not churchName
 
+  // Feedback this secretary has already flagged
+  useEffect(() => {
+    if (!userProfile?.uid) return;
+    getFlaggedFeedbackIds(userProfile.uid).then(setFlaggedIds);
+  }, [userProfile?.uid]);
+
+  const handleFlagFeedback = async () => {
+    if (!flagTarget || !userProfile) return;
+
+    setIsFlagging(true);
+    try {
+      await flagFeedback(flagTarget.id, flagReason, flagDetails, userProfile);
+      setFlaggedIds(prev => new Set(prev).add(flagTarget.id));
+      toast({
+        title: 'Feedback Flagged',
+        description: 'The Chancery Office will review it. Feedback with enough flags is hidden automatically.',
+      });
+      setFlagTarget(null);
+      setFlagDetails('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to flag feedback',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsFlagging(false);
+    }
+  };
+
   // Filter feedback based on active tab and search
   const filteredFeedback = useMemo(() => {
     return feedbackData.filter(feedback => {
@@ -134,7 +190,12 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
       ? (currentData.reduce((sum, f) => sum + f.rating, 0) / currentData.length).toFixed(1)
       : '0';
 
+    const replyMetrics = computeFeedbackReplyMetrics(
+      published.map(f => ({ submittedAt: f.date_submitted, firstResponseAt: f.firstResponseAt || null }))
+    );
+
     return { 
+      replyMetrics,
       pending: pending.length,
       published: published.length, 
       hidden: hidden.length, 
@@ -448,6 +509,48 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
             </Card>
           </div>
 
+          {/* Reply Metrics - Published Tab */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-2">
+                  <Reply className="w-4 h-4 text-blue-600" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Reply Rate</p>
+                    <p className="text-2xl font-bold text-blue-600">{Math.round(stats.replyMetrics.replyRate * 100)}%</p>
+                    <p className="text-xs text-muted-foreground">
+                      {stats.replyMetrics.replied} of {stats.replyMetrics.total} answered
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-2">
+                  <Timer className="w-4 h-4 text-purple-600" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Average Response Time</p>
+                    <p className="text-2xl font-bold text-purple-600">{formatResponseTime(stats.replyMetrics.averageResponseHours)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center space-x-2">
+                  <Timer className="w-4 h-4 text-purple-600" />
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Median Response Time</p>
+                    <p className="text-2xl font-bold text-purple-600">{formatResponseTime(stats.replyMetrics.medianResponseHours)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
           {/* Filters - Published Tab */}
           <Card>
             <CardContent className="p-4">
@@ -492,6 +595,11 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
                         <Badge variant={feedback.status === 'published' ? 'default' : 'secondary'}>
                           {feedback.status}
                         </Badge>
+                        {feedback.hasResponse && (
+                          <Badge variant="outline" className="text-blue-700 border-blue-200 bg-blue-50">
+                            Replied
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-gray-600 mb-2 line-clamp-2">{feedback.message}</p>
 
@@ -550,6 +658,27 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
                         <Eye className="w-4 h-4 mr-1" />
                         View
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setSelectedFeedback(feedback);
+                          setShowDetailsDialog(true);
+                        }}
+                      >
+                        <Reply className="w-4 h-4 mr-1" />
+                        Reply
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setFlagTarget(feedback)}
+                        disabled={flaggedIds.has(feedback.id)}
+                        className="text-red-600 border-red-200 hover:bg-red-50"
+                      >
+                        <Flag className="w-4 h-4 mr-1" />
+                        {flaggedIds.has(feedback.id) ? 'Flagged' : 'Flag'}
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -652,6 +781,11 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
                         <Badge variant={feedback.status === 'published' ? 'default' : 'secondary'}>
                           {feedback.status}
                         </Badge>
+                        {feedback.hasResponse && (
+                          <Badge variant="outline" className="text-blue-700 border-blue-200 bg-blue-50">
+                            Replied
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-gray-600 mb-2 line-clamp-2">{feedback.message}</p>
 
@@ -730,7 +864,7 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
 
       {/* Details Dialog */}
       <Dialog open={showDetailsDialog} onOpenChange={setShowDetailsDialog}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Feedback Details</DialogTitle>
           </DialogHeader>
@@ -776,11 +910,61 @@ export const ParishFeedback: React.FC<ParishFeedbackProps> = ({
                   <p><strong>Moderated:</strong> {new Date(selectedFeedback.moderatedAt).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: true })} by {selectedFeedback.moderatedBy}</p>
                 )}
               </div>
+
+              <div className="border-t pt-4">
+                <FeedbackReplyThread feedbackId={selectedFeedback.id} churchId={churchId} />
+              </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      {/* Flag Dialog */}
+      <Dialog open={!!flagTarget} onOpenChange={(open) => !open && setFlagTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Flag Feedback</DialogTitle>
+            <DialogDescription>
+              Report "{flagTarget?.subject}" to the Chancery Office. Feedback that collects enough flags is hidden until it is reviewed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={flagReason} onValueChange={(value) => setFlagReason(value as FeedbackFlagReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEEDBACK_FLAG_REASONS.map(reason => (
+                    <SelectItem key={reason} value={reason}>{FEEDBACK_FLAG_REASON_LABELS[reason]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="flag-details">Details (optional)</Label>
+              <Textarea
+                id="flag-details"
+                value={flagDetails}
+                onChange={(e) => setFlagDetails(e.target.value)}
+                maxLength={MAX_FLAG_DETAILS_LENGTH}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFlagTarget(null)} disabled={isFlagging}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleFlagFeedback} disabled={isFlagging}>
+              {isFlagging && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Flag
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirmation Dialog */}
       <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
         <DialogContent>
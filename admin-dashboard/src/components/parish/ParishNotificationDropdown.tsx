@@ -35,7 +35,7 @@ interface LocalNotification {
   isLocal: true;
   icon: string;
   createdAt?: Date;
-  readBy?: string[];
+  isRead?: boolean;
   actionUrl?: string;
 }
 
@@ -100,6 +100,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
       'heritage_validated',
       'account_pending_approval',
       'pending_update_submitted',
+      'pending_update_reviewed',
       'feedback_received'
     ];
     
@@ -133,7 +134,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
   // Count unread parish-relevant notifications
   const unreadParishCount = parishNotifications.filter(notification => {
     if (!userProfile) return false;
-    return !notification.readBy?.includes(userProfile.uid);
+    return !notification.isRead;
   }).length;
 
   // Generate local notifications based on church status
@@ -182,7 +183,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
     if (!userProfile) return;
 
     // Mark as read if not already (skip for local notifications)
-    if (!notification.readBy?.includes(userProfile.uid) && notification.id && !notification.id.startsWith('local-')) {
+    if (!notification.isRead && notification.id && !notification.id.startsWith('local-')) {
       markAsReadMutation.mutate({
         notificationId: notification.id!,
         userId: userProfile.uid,
@@ -220,6 +221,8 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
         return '👤';  // New staff registration
       case 'pending_update_submitted':
         return '📋';  // Parish profile update submitted
+      case 'pending_update_reviewed':
+        return '🗂️';  // Staged update reviewed field by field
       case 'account_approved':
         return '🎉';  // Account activated
       case 'feedback_received':
@@ -243,6 +246,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
       case 'account_pending_approval':
         return 'border-l-4 border-l-indigo-500 bg-indigo-50/50';
       case 'pending_update_submitted':
+      case 'pending_update_reviewed':
         return 'border-l-4 border-l-amber-500 bg-amber-50/50';
       case 'account_approved':
         return 'border-l-4 border-l-emerald-500 bg-emerald-50/50';
@@ -269,7 +273,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
   const isUnread = (notification: Notification | { id: string; isLocal?: boolean }) => {
     if ('isLocal' in notification && notification.isLocal) return true;
     if (!userProfile) return false;
-    return !('readBy' in notification) || !(notification as Notification).readBy?.includes(userProfile.uid);
+    return !(notification as Notification).isRead;
   };
 
   const formatTimestamp = (timestamp: unknown) => {
@@ -412,7 +416,7 @@ export function ParishNotificationDropdown({ churchStatus: propChurchStatus, chu
                     onClick={() => {
                       if (userProfile) {
                         const fullNotif = notif as Notification;
-                        if (!fullNotif.readBy?.includes(userProfile.uid)) {
+                        if (!fullNotif.isRead) {
                           markAsReadMutation.mutate({
                             notificationId: fullNotif.id!,
                             userId: userProfile.uid,
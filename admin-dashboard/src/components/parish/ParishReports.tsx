@@ -28,11 +28,19 @@ import {
   Star,
   Church,
   Filter,
-  RefreshCw
+  RefreshCw,
+  Tags
 } from 'lucide-react';
 import { ChurchInfo, ChurchSummaryReport, EngagementAnalyticsReport, VisitorLog, FeedbackAnalytics } from './types';
-import { format, subMonths } from 'date-fns';
+import { format, parseISO, startOfWeek, subMonths } from 'date-fns';
 import { AnalyticsService, AnalyticsData } from '@/services/analyticsService';
+import {
+  countTopicsByGroup,
+  summarizeFeedbackTopics,
+  toSentimentLabel,
+  FEEDBACK_SENTIMENT_LABELS,
+  FEEDBACK_TOPIC_LABELS,
+} from '@shared/feedbackTopics';
 import { PDFExportService } from '@/services/pdfExportService';
 import { ExcelExportService } from '@/services/excelExportService';
 import { ReportLogoManager } from '@/components/reports/ReportLogoManager';
@@ -524,7 +532,7 @@ export const ParishReports: React.FC<ParishReportsProps> = ({
 
   // Prepare chart data from analytics
   const prepareChartData = () => {
-    if (!analyticsData) return { visitorTrendData: [], feedbackTrendData: [], peakHoursData: [], ratingDistributionData: [] };
+    if (!analyticsData) return { visitorTrendData: [], feedbackTrendData: [], peakHoursData: [], ratingDistributionData: [], topicSummary: [], topicTrendData: [] };
 
     // Daily visitor trend data
     const dailyVisits = analyticsData.visitorLogs.reduce((acc, log) => {
@@ -566,10 +574,27 @@ export const ParishReports: React.FC<ParishReportsProps> = ({
       percentage: Math.round((count / analyticsData.feedback.length) * 100)
     }));
 
-    return { visitorTrendData, feedbackTrendData, peakHoursData, ratingDistributionData };
+    // Feedback topics, with weekly mentions for the trend chart
+    const topicSummary = summarizeFeedbackTopics(analyticsData.feedback.map(f => f.tags));
+    const weeklyTopics = countTopicsByGroup(analyticsData.feedback.map(f => ({
+      group: format(startOfWeek(f.createdAt), 'yyyy-MM-dd'),
+      tags: f.tags
+    })));
+    const topicTrendData = Object.keys(weeklyTopics)
+      .sort()
+      .map(week => ({ week: format(parseISO(week), 'MMM dd'), ...weeklyTopics[week] }));
+
+    return { visitorTrendData, feedbackTrendData, peakHoursData, ratingDistributionData, topicSummary, topicTrendData };
   };
 
   const chartData = prepareChartData();
+  const trendTopics = chartData.topicSummary.slice(0, 5).map(s => s.topic);
+  const topicColors = [chartColors.primary, chartColors.secondary, chartColors.accent, chartColors.purple, chartColors.red];
+  const sentimentBadgeClasses = {
+    positive: 'bg-green-100 text-green-800',
+    neutral: 'bg-gray-100 text-gray-700',
+    negative: 'bg-red-100 text-red-800'
+  };
 
   return (
     <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -1070,6 +1095,74 @@ export const ParishReports: React.FC<ParishReportsProps> = ({
                 </Card>
               </div>
 
+              {/* Feedback Topics */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Tags className="w-5 h-5 text-emerald-600" />
+                    Feedback Topics
+                  </CardTitle>
+                  <CardDescription>
+                    What visitors talk about in their comments, and how they feel about it
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {chartData.topicSummary.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <Tags className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                      <p className="text-sm">No recognizable topics in feedback for the selected period</p>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        {chartData.topicSummary.map(summary => {
+                          const label = toSentimentLabel(summary.averageSentiment);
+                          return (
+                            <div key={summary.topic} className="flex items-center justify-between gap-2 text-sm">
+                              <span className="font-medium">{FEEDBACK_TOPIC_LABELS[summary.topic]}</span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-gray-500">
+                                  {summary.mentions} ({Math.round(summary.share * 100)}%)
+                                </span>
+                                <Badge className={sentimentBadgeClasses[label]}>
+                                  {FEEDBACK_SENTIMENT_LABELS[label]}
+                                </Badge>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={chartData.topicTrendData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                            <XAxis dataKey="week" stroke="#6B7280" fontSize={12} />
+                            <YAxis stroke="#6B7280" fontSize={12} allowDecimals={false} />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: '#F9FAFB',
+                                border: '1px solid #E5E7EB',
+                                borderRadius: '8px'
+                              }}
+                            />
+                            <Legend />
+                            {trendTopics.map((topic, index) => (
+                              <Bar
+                                key={topic}
+                                dataKey={topic}
+                                name={FEEDBACK_TOPIC_LABELS[topic]}
+                                stackId="topics"
+                                fill={topicColors[index]}
+                              />
+                            ))}
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Report Metadata */}
               <Card className="border-gray-200 bg-gray-50">
                 <CardContent className="pt-6">
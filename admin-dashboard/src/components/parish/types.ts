@@ -1,5 +1,5 @@
 // Parish Dashboard Types
-import type { ChurchStatus, PriestAssignment } from '@/types/church';
+import type { ChurchStatus, MassScheduleRecurrence, PriestAssignment } from '@/types/church';
 
 export type { PriestAssignment } from '@/types/church';
 
@@ -126,6 +126,7 @@ export interface ChurchInfo {
   assistantPriests?: string[];  // Assistant parish priest(s) - optional, supports multiple entries
   feastDay?: string; // Feast day of the parish patron saint (e.g., "December 8" or "August 15")
   massSchedules: MassSchedule[];
+  massScheduleRules?: MassScheduleRecurrence; // Recurring schedule; massSchedules is projected from it
   contactInfo: ContactInfo;
   
   // Media
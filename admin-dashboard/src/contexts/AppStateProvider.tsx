@@ -124,11 +124,6 @@ export const AppStateProvider: React.FC<AppStateProviderProps> = ({
         preferences: storeUser?.preferences || {
           theme: 'system',
           language: 'en',
-          notifications: {
-            email: true,
-            push: true,
-            sms: false,
-          },
           dashboard: {
             autoRefresh: true,
             refreshInterval: 30000,
@@ -54,6 +54,8 @@ import { doc, getDoc, setDoc, DocumentSnapshot } from 'firebase/firestore';
 import { auth, db, isRegistrationInProgress } from '@/lib/firebase';
 import { getKnownAccountProfile } from '@/lib/auth-utils';
 import { AuditService } from '@/services/auditService';
+import type { NotificationPreferences } from '@shared/notificationPreferences';
+import type { EmailLocale } from '@shared/emailLocales';
 
 /**
  * Type Definitions for User Roles and Profile
@@ -115,6 +117,11 @@ export interface UserProfile {
   position?: string;       // Job title/position (e.g., "Heritage Specialist", "Parish Secretary")
   department?: string;     // For Museum Researchers
   institutionName?: string; // Editable institution name for system accounts
+
+  // Delivery preferences for notifications (see @shared/notificationPreferences)
+  notificationPreferences?: NotificationPreferences;
+  // Language for emails sent to this user (see @shared/emailLocales)
+  emailLocale?: EmailLocale;
   
   createdAt: Date;
   lastLoginAt: Date;
@@ -273,6 +280,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             
             // Contact information
             phoneNumber: data.phoneNumber,
+
+            // Notification channels (in-app and email) and digest settings
+            notificationPreferences: data.notificationPreferences,
+            emailLocale: data.emailLocale,
             
             createdAt: data.createdAt?.toDate(),
             lastLoginAt: new Date(),
@@ -413,6 +424,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           parishInfo: data.parishInfo,
           parish: data.parishId || data.parish,
           phoneNumber: data.phoneNumber,
+          notificationPreferences: data.notificationPreferences,
+          emailLocale: data.emailLocale,
           createdAt: data.createdAt?.toDate?.() || new Date(),
           lastLoginAt: data.lastLoginAt?.toDate?.() || new Date()
         });
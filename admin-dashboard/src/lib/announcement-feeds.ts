@@ -0,0 +1,35 @@
+/**
+ * FILE PURPOSE: Announcement Feed Links
+ *
+ * Public URLs of the dioceseAnnouncementFeed and parishAnnouncementFeed HTTP
+ * Cloud Functions (functions/src/index.ts), which publish the latest
+ * announcements as RSS 2.0, Atom or JSON Feed for websites and social media
+ * tools. Parish feeds only exist for approved churches.
+ */
+
+import type { Diocese } from '@/contexts/AuthContext';
+import type { AnnouncementCategory } from '@/types/announcement';
+import { functionsBaseUrl } from '@/lib/calendar-feeds';
+
+export type AnnouncementFeedFormat = 'rss' | 'atom' | 'json';
+
+export const ANNOUNCEMENT_FEED_FORMATS: { format: AnnouncementFeedFormat; label: string }[] = [
+  { format: 'rss', label: 'RSS' },
+  { format: 'atom', label: 'Atom' },
+  { format: 'json', label: 'JSON Feed' },
+];
+
+const feedQuery = (format: AnnouncementFeedFormat, categories?: AnnouncementCategory[]) =>
+  `&format=${format}${categories?.length ? `&category=${encodeURIComponent(categories.join(','))}` : ''}`;
+
+export const getDioceseAnnouncementFeedUrl = (
+  diocese: Diocese,
+  format: AnnouncementFeedFormat,
+  categories?: AnnouncementCategory[]
+) => `${functionsBaseUrl()}/dioceseAnnouncementFeed?diocese=${encodeURIComponent(diocese)}${feedQuery(format, categories)}`;
+
+export const getParishAnnouncementFeedUrl = (
+  parishId: string,
+  format: AnnouncementFeedFormat,
+  categories?: AnnouncementCategory[]
+) => `${functionsBaseUrl()}/parishAnnouncementFeed?parish=${encodeURIComponent(parishId)}${feedQuery(format, categories)}`;
@@ -0,0 +1,69 @@
+/**
+ * FILE PURPOSE: Announcement Targeting
+ *
+ * Chancery announcements can target a set of parishes, a vicariate (a saved
+ * group of parishes) or a list of municipalities instead of the whole
+ * diocese. Targets are resolved to parish IDs (church document IDs) when the
+ * announcement is saved and stored as targetParishIds, which the mobile app
+ * queries with array-contains on each church page.
+ *
+ * Resolution goes through ParishService.resolveAnnouncementTargets(); the
+ * pure helpers here are shared with the target picker for live counts.
+ */
+
+import type { AnnouncementTargets } from '@/types/announcement';
+import type { Parish, Vicariate } from '@/services/parishService';
+
+/**
+ * Parish IDs an announcement's targets cover, in parish list order.
+ */
+export function matchTargetParishes(
+  parishes: Parish[],
+  vicariates: Vicariate[],
+  targets: AnnouncementTargets
+): string[] {
+  let matches: (parish: Parish) => boolean;
+
+  switch (targets.type) {
+    case 'parishes': {
+      const ids = new Set(targets.parishIds || []);
+      matches = (parish) => ids.has(parish.id);
+      break;
+    }
+    case 'vicariate': {
+      const ids = new Set(vicariates.find(v => v.id === targets.vicariateId)?.parishIds || []);
+      matches = (parish) => ids.has(parish.id);
+      break;
+    }
+    case 'municipalities': {
+      const municipalities = new Set((targets.municipalities || []).map(m => m.trim().toLowerCase()));
+      matches = (parish) => !!parish.municipality && municipalities.has(parish.municipality.trim().toLowerCase());
+      break;
+    }
+    default:
+      return [];
+  }
+
+  return parishes.filter(matches).map(parish => parish.id);
+}
+
+/**
+ * Short audience label, e.g. "Vicariate of St. Joseph" or "3 parishes".
+ */
+export function describeAnnouncementTargets(targets: AnnouncementTargets, parishCount?: number): string {
+  switch (targets.type) {
+    case 'vicariate':
+      return targets.vicariateName ? `Vicariate: ${targets.vicariateName}` : 'Vicariate';
+    case 'municipalities': {
+      const municipalities = targets.municipalities || [];
+      return municipalities.length <= 2
+        ? municipalities.join(', ')
+        : `${municipalities.length} municipalities`;
+    }
+    case 'parishes':
+    default: {
+      const count = parishCount ?? targets.parishIds?.length ?? 0;
+      return `${count} parish${count === 1 ? '' : 'es'}`;
+    }
+  }
+}
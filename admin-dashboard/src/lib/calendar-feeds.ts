@@ -0,0 +1,24 @@
+/**
+ * FILE PURPOSE: Calendar Feed Links
+ *
+ * Public URLs of the churchCalendarFeed and dioceseCalendarFeed HTTP Cloud
+ * Functions (functions/src/index.ts). Calendar apps subscribe to these .ics
+ * feeds by URL; the webcal:// form opens the subscribe dialog directly.
+ * Church feeds only exist for approved churches.
+ */
+
+import { firebaseConfig } from '@/lib/firebase';
+import type { Diocese } from '@/contexts/AuthContext';
+
+// Cloud Functions are deployed to the default region
+const FUNCTIONS_REGION = 'us-central1';
+
+export const functionsBaseUrl = () => `https://${FUNCTIONS_REGION}-${firebaseConfig.projectId}.cloudfunctions.net`;
+
+export const getChurchCalendarFeedUrl = (churchId: string) =>
+  `${functionsBaseUrl()}/churchCalendarFeed?church=${encodeURIComponent(churchId)}`;
+
+export const getDioceseCalendarFeedUrl = (diocese: Diocese) =>
+  `${functionsBaseUrl()}/dioceseCalendarFeed?diocese=${encodeURIComponent(diocese)}`;
+
+export const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,425 @@
+/**
+ * FILE PURPOSE: Diocese Bulk Church Import
+ *
+ * Lets the Chancery Office onboard many parishes at once from a CSV/XLSX
+ * file with one row per church. The flow is:
+ *
+ * 1. readImportSpreadsheet()  - read the first sheet into header + rows
+ * 2. suggestColumnMapping()   - guess which column feeds which church field
+ * 3. stageImportRows()        - map, validate (lib/validations/church.ts) and
+ *                               detect duplicates by name + municipality
+ * 4. importStagedChurches()   - create the selected rows as draft churches in
+ *                               batches and save an import report in
+ *                               church_bulk_imports/{importId}
+ *
+ * Drafts get the same parishId a parish account for that church would get
+ * (generateParishId), so the parish can pick them up once onboarded.
+ */
+
+import * as XLSX from 'xlsx';
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, orderBy, query, serverTimestamp, setDoc, Timestamp, where, writeBatch } from 'firebase/firestore';
+import type { Diocese, UserProfile } from '@/contexts/AuthContext';
+import { getChurchesByDiocese } from '@/lib/churches';
+import { generateParishId, getMunicipalitiesByDiocese } from '@/lib/parish-utils';
+import { churchImportRowSchema, type ChurchImportRow } from '@/lib/validations/church';
+import { AuditService } from '@/services/auditService';
+
+export type BulkImportField =
+  | 'name'
+  | 'parish'
+  | 'municipality'
+  | 'address'
+  | 'foundingYear'
+  | 'founders'
+  | 'architecturalStyle'
+  | 'heritageClassification'
+  | 'historicalBackground'
+  | 'description'
+  | 'assignedPriest'
+  | 'feastDay'
+  | 'phone'
+  | 'email'
+  | 'website'
+  | 'facebook'
+  | 'latitude'
+  | 'longitude';
+
+// Header (as it appears in the file) -> church field, or '' to ignore the column
+export type ColumnMapping = Record<string, BulkImportField | ''>;
+
+export const BULK_IMPORT_FIELDS: { field: BulkImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Church Name', required: true, aliases: ['church name', 'church', 'name'] },
+  { field: 'parish', label: 'Parish Name', aliases: ['parish name', 'parish'] },
+  { field: 'municipality', label: 'Municipality', required: true, aliases: ['municipality', 'town', 'city'] },
+  { field: 'address', label: 'Address', aliases: ['address', 'street address', 'location'] },
+  { field: 'foundingYear', label: 'Founding Year', aliases: ['founding year', 'year founded', 'founded', 'year established'] },
+  { field: 'founders', label: 'Founders', aliases: ['founders', 'founded by'] },
+  { field: 'architecturalStyle', label: 'Architectural Style', aliases: ['architectural style', 'architecture', 'style'] },
+  { field: 'heritageClassification', label: 'Heritage Classification', aliases: ['heritage classification', 'classification', 'heritage class'] },
+  { field: 'historicalBackground', label: 'Historical Background', aliases: ['historical background', 'history', 'church history'] },
+  { field: 'description', label: 'Description', aliases: ['description'] },
+  { field: 'assignedPriest', label: 'Parish Priest', aliases: ['parish priest', 'priest', 'current parish priest', 'assigned priest'] },
+  { field: 'feastDay', label: 'Feast Day', aliases: ['feast day', 'fiesta'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'contact number', 'telephone', 'mobile'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'contact email', 'email address'] },
+  { field: 'website', label: 'Website', aliases: ['website', 'official website'] },
+  { field: 'facebook', label: 'Facebook Page', aliases: ['facebook', 'facebook page'] },
+  { field: 'latitude', label: 'Latitude', aliases: ['latitude', 'lat'] },
+  { field: 'longitude', label: 'Longitude', aliases: ['longitude', 'lng', 'long', 'lon'] },
+];
+
+export const MAX_IMPORT_ROWS = 500;
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+export type StagedRowStatus = 'ready' | 'invalid' | 'duplicate';
+
+export interface StagedChurchRow {
+  rowNumber: number;                 // Spreadsheet row (header is row 1)
+  raw: Record<string, string>;
+  data: ChurchImportRow | null;      // Validated row, null when invalid
+  status: StagedRowStatus;
+  errors: string[];
+  warnings: string[];
+  duplicateOf?: { id?: string; name: string; source: 'existing' | 'file'; rowNumber?: number };
+  include: boolean;                  // Selected for import in the staging table
+}
+
+export interface BulkImportReport {
+  id?: string;
+  diocese: Diocese;
+  fileName: string;
+  totalRows: number;
+  created: { rowNumber: number; churchId: string; name: string; municipality: string }[];
+  skipped: { rowNumber: number; name: string; reason: string }[];
+  failed: { rowNumber: number; name: string; error: string }[];
+  createdBy: { uid: string; name?: string };
+  createdAt?: Timestamp;
+}
+
+const BULK_IMPORTS = 'church_bulk_imports';
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const normalizeForMatch = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').replace(/\b(parish|church)\b/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Read the first sheet of a CSV/XLSX file. Empty rows are dropped.
+ */
+export async function readImportSpreadsheet(file: File): Promise<{ headers: string[]; rows: Record<string, string>[] }> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error('The file does not contain any sheets.');
+
+  const sheet = workbook.Sheets[sheetName];
+  const matrix = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false, blankrows: false });
+  if (matrix.length < 2) throw new Error('The file needs a header row and at least one church row.');
+
+  const headers = matrix[0].map(h => String(h).trim());
+  const rows = matrix.slice(1)
+    .map(cells => Object.fromEntries(headers.map((h, i) => [h, String(cells[i] ?? '').trim()])))
+    .filter(row => Object.values(row).some(Boolean));
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`A single import is limited to ${MAX_IMPORT_ROWS} churches (file has ${rows.length}).`);
+  }
+  return { headers, rows };
+}
+
+/**
+ * Match each header to a church field by its aliases.
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<BulkImportField>();
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    const match = BULK_IMPORT_FIELDS.find(f => !used.has(f.field) && f.aliases.includes(normalized));
+    mapping[header] = match ? match.field : '';
+    if (match) used.add(match.field);
+  });
+  return mapping;
+}
+
+const toClassification = (value: string): ChurchImportRow['heritageClassification'] | null => {
+  const lower = value.toLowerCase();
+  if (!lower || lower === 'none' || lower.includes('non')) return 'none';
+  if (lower === 'nct' || lower.includes('national cultural treasure')) return 'NCT';
+  if (lower === 'icp' || lower.includes('important cultural propert')) return 'ICP';
+  return null;
+};
+
+const toNumber = (value: string) => (value && !Number.isNaN(Number(value)) ? Number(value) : undefined);
+
+const mapRow = (raw: Record<string, string>, mapping: ColumnMapping): { input: Record<string, unknown>; errors: string[] } => {
+  const values: Partial<Record<BulkImportField, string>> = {};
+  Object.entries(mapping).forEach(([header, field]) => {
+    if (field && raw[header]) values[field] = raw[header];
+  });
+
+  const errors: string[] = [];
+  const classification = toClassification(values.heritageClassification || '');
+  if (classification === null) {
+    errors.push(`Unknown heritage classification "${values.heritageClassification}" (use ICP, NCT or None)`);
+  }
+
+  const foundingYear = values.foundingYear ? Number(values.foundingYear.match(/\d{4}/)?.[0]) : undefined;
+  if (values.foundingYear && !foundingYear) {
+    errors.push(`Founding year "${values.foundingYear}" is not a year`);
+  }
+
+  const latitude = toNumber(values.latitude || '');
+  const longitude = toNumber(values.longitude || '');
+  if ((values.latitude || values.longitude) && (latitude === undefined || longitude === undefined)) {
+    errors.push('Latitude and longitude must both be numbers');
+  }
+
+  const contactInfo = {
+    phone: values.phone?.replace(/[\s()-]/g, ''),
+    email: values.email,
+    website: values.website,
+    facebook: values.facebook,
+  };
+
+  const input = {
+    name: values.name || '',
+    municipality: values.municipality || '',
+    address: values.address,
+    parish: values.parish,
+    description: values.description,
+    foundingYear,
+    founders: values.founders,
+    architecturalStyle: values.architecturalStyle,
+    heritageClassification: classification ?? 'none',
+    contactInfo: Object.values(contactInfo).some(Boolean) ? contactInfo : undefined,
+    coordinates: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+    historicalBackground: values.historicalBackground,
+    assignedPriest: values.assignedPriest,
+    feastDay: values.feastDay,
+  };
+  return { input, errors };
+};
+
+/**
+ * Map and validate every row and flag duplicates against the diocese's
+ * existing churches and earlier rows in the same file.
+ */
+export async function stageImportRows(
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  diocese: Diocese
+): Promise<StagedChurchRow[]> {
+  const existing = await getChurchesByDiocese(diocese);
+  const existingByKey = new Map(
+    existing.map(c => [`${normalizeForMatch(c.name)}|${normalizeForMatch(c.municipality || '')}`, c])
+  );
+  const municipalities = new Set(getMunicipalitiesByDiocese(diocese).map(m => m.toLowerCase()));
+  const seenInFile = new Map<string, { name: string; rowNumber: number }>();
+
+  return rows.map((raw, index) => {
+    const rowNumber = index + 2;
+    const { input, errors } = mapRow(raw, mapping);
+    const warnings: string[] = [];
+
+    const parsed = churchImportRowSchema.safeParse(input);
+    if (!parsed.success) {
+      parsed.error.errors.forEach(err => errors.push(`${err.path.join('.') || 'row'}: ${err.message}`));
+    }
+
+    const name = String(input.name);
+    const municipality = String(input.municipality);
+    if (municipality && !municipalities.has(municipality.toLowerCase())) {
+      warnings.push(`"${municipality}" is not a municipality of the Diocese of ${diocese}`);
+    }
+    if (!input.parish) {
+      warnings.push('No parish name; the church name will be used');
+    }
+
+    const key = `${normalizeForMatch(name)}|${normalizeForMatch(municipality)}`;
+    const existingMatch = existingByKey.get(key);
+    const fileMatch = seenInFile.get(key);
+    let duplicateOf: StagedChurchRow['duplicateOf'];
+    if (existingMatch) {
+      duplicateOf = { id: existingMatch.id, name: existingMatch.name, source: 'existing' };
+    } else if (fileMatch) {
+      duplicateOf = { name: fileMatch.name, source: 'file', rowNumber: fileMatch.rowNumber };
+    } else if (name && municipality) {
+      seenInFile.set(key, { name, rowNumber });
+    }
+
+    const status: StagedRowStatus = errors.length > 0 ? 'invalid' : duplicateOf ? 'duplicate' : 'ready';
+    return {
+      rowNumber,
+      raw,
+      data: errors.length === 0 && parsed.success ? parsed.data : null,
+      status,
+      errors,
+      warnings,
+      duplicateOf,
+      include: status === 'ready',
+    };
+  });
+}
+
+// Firestore rejects undefined values
+const withoutUndefined = <T extends object>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+
+const toChurchDocument = (row: ChurchImportRow, diocese: Diocese, userId: string, importId: string) => {
+  const parishName = row.parish || row.name;
+  const now = Timestamp.now();
+  return withoutUndefined({
+    name: row.name,
+    fullName: parishName,
+    location: row.address,
+    municipality: row.municipality,
+    diocese,
+    parishId: generateParishId(diocese, row.municipality, parishName),
+    status: 'draft',
+    classification: row.heritageClassification === 'none' ? 'non_heritage' : row.heritageClassification,
+    foundingYear: row.foundingYear,
+    founders: row.founders,
+    architecturalStyle: row.architecturalStyle,
+    historicalBackground: row.historicalBackground,
+    description: row.description,
+    assignedPriest: row.assignedPriest,
+    feastDay: row.feastDay,
+    latitude: row.coordinates?.latitude,
+    longitude: row.coordinates?.longitude,
+    contactInfo: row.contactInfo
+      ? withoutUndefined({
+          phone: row.contactInfo.phone,
+          email: row.contactInfo.email,
+          website: row.contactInfo.website,
+          facebookPage: row.contactInfo.facebook,
+        })
+      : undefined,
+    massSchedules: [],
+    images: [],
+    documents: [],
+    bulkImportId: importId,
+    createdBy: userId,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Create the included rows as draft churches and save the import report.
+ * Each batch commits independently; rows in a failed batch are reported as failed.
+ */
+export async function importStagedChurches(
+  rows: StagedChurchRow[],
+  diocese: Diocese,
+  fileName: string,
+  userProfile: UserProfile
+): Promise<{ success: boolean; report?: BulkImportReport; error?: string }> {
+  try {
+    if (userProfile.role !== 'chancery_office' || userProfile.diocese !== diocese) {
+      return { success: false, error: 'Only the Chancery Office can import churches for this diocese' };
+    }
+
+    const importRef = doc(collection(db, BULK_IMPORTS));
+    const report: BulkImportReport = {
+      diocese,
+      fileName,
+      totalRows: rows.length,
+      created: [],
+      skipped: [],
+      failed: [],
+      createdBy: { uid: userProfile.uid, name: userProfile.name || userProfile.email },
+    };
+
+    rows.filter(row => !row.include || !row.data).forEach(row => {
+      report.skipped.push({
+        rowNumber: row.rowNumber,
+        name: row.data?.name || row.raw[Object.keys(row.raw)[0]] || '',
+        reason: row.status === 'invalid'
+          ? row.errors.join('; ')
+          : row.status === 'duplicate'
+            ? `Duplicate of ${row.duplicateOf?.name}${row.duplicateOf?.source === 'file' ? ` (row ${row.duplicateOf.rowNumber})` : ''}`
+            : 'Excluded from import',
+      });
+    });
+
+    const toCreate = rows.filter((row): row is StagedChurchRow & { data: ChurchImportRow } => row.include && !!row.data);
+    for (let i = 0; i < toCreate.length; i += BATCH_SIZE) {
+      const chunk = toCreate.slice(i, i + BATCH_SIZE);
+      const batch = writeBatch(db);
+      const refs = chunk.map(row => {
+        const ref = doc(collection(db, 'churches'));
+        batch.set(ref, toChurchDocument(row.data, diocese, userProfile.uid, importRef.id));
+        return ref;
+      });
+
+      try {
+        await batch.commit();
+        chunk.forEach((row, index) => report.created.push({
+          rowNumber: row.rowNumber,
+          churchId: refs[index].id,
+          name: row.data.name,
+          municipality: row.data.municipality,
+        }));
+      } catch (error) {
+        console.error('Error committing bulk import batch:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        chunk.forEach(row => report.failed.push({ rowNumber: row.rowNumber, name: row.data.name, error: message }));
+      }
+    }
+
+    // The report is saved even if some batches failed, so the chancery can see what happened
+    await setDoc(importRef, { ...report, createdAt: serverTimestamp() });
+    report.id = importRef.id;
+
+    AuditService.logAction(userProfile, 'church.bulk_import', 'import_session', importRef.id, {
+      resourceName: fileName,
+      metadata: {
+        diocese,
+        totalRows: rows.length,
+        created: report.created.length,
+        skipped: report.skipped.length,
+        failed: report.failed.length,
+      },
+    }).catch(err => console.error('[BulkImport] Audit log failed:', err));
+
+    return { success: report.failed.length === 0, report };
+  } catch (error) {
+    console.error('Error importing churches:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Past bulk imports for a diocese, newest first.
+ */
+export async function getBulkImportReports(diocese: Diocese): Promise<BulkImportReport[]> {
+  const snapshot = await getDocs(query(
+    collection(db, BULK_IMPORTS),
+    where('diocese', '==', diocese),
+    orderBy('createdAt', 'desc')
+  ));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as BulkImportReport);
+}
+
+/**
+ * Download the import report as a spreadsheet (one sheet per outcome).
+ */
+export function downloadBulkImportReport(report: BulkImportReport): void {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['File', report.fileName],
+    ['Diocese', report.diocese],
+    ['Rows in file', report.totalRows],
+    ['Created as draft', report.created.length],
+    ['Skipped', report.skipped.length],
+    ['Failed', report.failed.length],
+  ]), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.created), 'Created');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.skipped), 'Skipped');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.failed), 'Failed');
+  XLSX.writeFile(workbook, `${report.fileName.replace(/\.[^.]+$/, '')}_import_report.xlsx`);
+}
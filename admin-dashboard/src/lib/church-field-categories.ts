@@ -63,6 +63,7 @@ export const DIRECT_PUBLISH_FIELDS: (keyof ChurchFormData)[] = [
   // Contact and scheduling (changes frequently)
   'contactInfo',
   'massSchedules',
+  'massScheduleRules',
   'assignedPriest',
   'priest_assignment',
   'feastDay',
@@ -181,6 +182,7 @@ export function getFieldLabel(fieldName: string): string {
     coordinates: 'Map Coordinates',
     contactInfo: 'Contact Information',
     massSchedules: 'Mass Schedules',
+    massScheduleRules: 'Recurring Mass Schedule',
     assignedPriest: 'Assigned Priest',
     priest_assignment: 'Priest Assignment History',
     feastDay: 'Feast Day',
@@ -0,0 +1,134 @@
+/**
+ * FILE PURPOSE: Document Import Merge Preview
+ *
+ * Compares fields parsed from an imported document (ChurchImportSession.parsedData)
+ * with the church's current ChurchInfo values. For each field the parish picks:
+ * - keep:    leave the current value
+ * - replace: use the imported value
+ * - combine: append/union the imported value with the current one
+ *
+ * Applied fields are mapped to their ChurchFormData keys and passed through
+ * categorizeChanges(), so the preview can show which ones will be staged in
+ * pendingChanges for review instead of published directly.
+ */
+
+import type { MassSchedule } from '@/components/parish/types';
+import type { ChurchFormData } from '@/types/church';
+import { categorizeChanges } from '@/lib/church-field-categories';
+
+export type MergeChoice = 'keep' | 'replace' | 'combine';
+
+// ChurchInfo path (as used by the parser) -> ChurchFormData key it is saved under
+export const IMPORT_FIELD_FORM_KEYS: Record<string, keyof ChurchFormData> = {
+  parishName: 'fullName',
+  churchName: 'name',
+  'locationDetails.streetAddress': 'location',
+  'locationDetails.barangay': 'location',
+  'locationDetails.municipality': 'municipality',
+  'locationDetails.province': 'location',
+  currentParishPriest: 'assignedPriest',
+  feastDay: 'feastDay',
+  'historicalDetails.foundingYear': 'foundingYear',
+  'historicalDetails.founders': 'founders',
+  'historicalDetails.architecturalStyle': 'architecturalStyle',
+  'historicalDetails.heritageClassification': 'classification',
+  'historicalDetails.religiousClassifications': 'historicalDetails',
+  'historicalDetails.historicalBackground': 'historicalBackground',
+  'historicalDetails.architecturalFeatures': 'architecturalFeatures',
+  'historicalDetails.heritageInformation': 'heritageInformation',
+  'contactInfo.phone': 'contactInfo',
+  'contactInfo.email': 'contactInfo',
+  'contactInfo.website': 'contactInfo',
+  'contactInfo.facebookPage': 'contactInfo',
+  massSchedules: 'massSchedules',
+  coordinates: 'coordinates',
+};
+
+// Free-text fields where appending the imported text to the current text makes sense
+const COMBINABLE_TEXT_PATHS = new Set([
+  'historicalDetails.founders',
+  'historicalDetails.historicalBackground',
+  'historicalDetails.architecturalFeatures',
+  'historicalDetails.heritageInformation',
+]);
+
+// { lat: 0, lng: 0 } is the placeholder used for churches without a pinned location
+const isUnsetCoordinates = (value: unknown) =>
+  typeof value === 'object' && value !== null && (value as { lat?: number }).lat === 0 && (value as { lng?: number }).lng === 0;
+
+export const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0) ||
+  isUnsetCoordinates(value);
+
+export const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(isEmptyValue(a) ? null : a) === JSON.stringify(isEmptyValue(b) ? null : b);
+
+export function canCombine(path: string, currentValue: unknown): boolean {
+  if (isEmptyValue(currentValue)) return false;
+  return COMBINABLE_TEXT_PATHS.has(path) || Array.isArray(currentValue);
+}
+
+export function combineValues(path: string, currentValue: unknown, importedValue: unknown): unknown {
+  if (path === 'massSchedules' && Array.isArray(currentValue) && Array.isArray(importedValue)) {
+    const key = (s: MassSchedule) => `${s.day}|${s.time}`.toLowerCase();
+    const existing = new Set((currentValue as MassSchedule[]).map(key));
+    return [...currentValue, ...(importedValue as MassSchedule[]).filter(s => !existing.has(key(s)))];
+  }
+  if (Array.isArray(currentValue) && Array.isArray(importedValue)) {
+    return [...new Set([...currentValue, ...importedValue])];
+  }
+  if (typeof currentValue === 'string' && typeof importedValue === 'string') {
+    return currentValue.includes(importedValue) ? currentValue : `${currentValue.trim()}\n\n${importedValue.trim()}`;
+  }
+  return importedValue;
+}
+
+export function resolveMergedValue(choice: MergeChoice, path: string, currentValue: unknown, importedValue: unknown): unknown {
+  if (choice === 'keep') return currentValue;
+  if (choice === 'combine' && canCombine(path, currentValue)) return combineValues(path, currentValue, importedValue);
+  return importedValue;
+}
+
+/**
+ * Default choice: fill empty fields with confident values, never overwrite
+ * existing content unless the parish chooses to.
+ */
+export function getDefaultMergeChoice(currentValue: unknown, confidence = 0.7): MergeChoice {
+  return isEmptyValue(currentValue) && confidence >= 0.6 ? 'replace' : 'keep';
+}
+
+/**
+ * Which applied paths publish directly and which go to pendingChanges
+ * for an approved church, according to categorizeChanges().
+ */
+export function categorizeImportFields(
+  merged: { path: string; currentValue: unknown; mergedValue: unknown }[]
+): { stagedPaths: string[]; directPaths: string[] } {
+  const original: Record<string, Record<string, unknown>> = {};
+  const updated: Record<string, Record<string, unknown>> = {};
+  merged.forEach(({ path, currentValue, mergedValue }) => {
+    const key = IMPORT_FIELD_FORM_KEYS[path] || path;
+    original[key] = { ...original[key], [path]: currentValue };
+    updated[key] = { ...updated[key], [path]: mergedValue };
+  });
+
+  const { sensitiveFields, directPublishFields } = categorizeChanges(
+    original as Partial<ChurchFormData>,
+    updated as Partial<ChurchFormData>
+  );
+  const pathsFor = (keys: string[]) => merged
+    .filter(({ path }) => keys.includes(IMPORT_FIELD_FORM_KEYS[path] || path))
+    .filter(({ currentValue, mergedValue }) => !isSameValue(currentValue, mergedValue))
+    .map(({ path }) => path);
+
+  return { stagedPaths: pathsFor(sensitiveFields), directPaths: pathsFor(directPublishFields) };
+}
+
+export type ImportMergeField = {
+  path: string;
+  label: string;
+  importedValue: unknown;
+  currentValue: unknown;
+  confidence?: number;
+  sourceSnippet?: string;
+};
@@ -0,0 +1,102 @@
+/**
+ * FILE PURPOSE: Immutable Church Version Snapshots
+ *
+ * Every approval (and every applied pending change) overwrites the live
+ * churches/{churchId} document. This module keeps a full copy of the church
+ * after each of those writes in the churches/{churchId}/versions subcollection
+ * so earlier content can be compared and restored.
+ *
+ * WORKFLOW:
+ * 1. The snapshotChurchVersion Cloud Function writes a version whenever an
+ *    update approves a church or applies its pending changes (clients cannot
+ *    write versions themselves)
+ * 2. ChurchVersionHistory lists versions and shows a side-by-side diff
+ * 3. Chancery restores a version via rollbackChurchToVersion() in lib/churches.ts,
+ *    which goes through the workflow state machine and audit trail and marks
+ *    the update with lastRollback, so the trigger saves it as a new 'rollback'
+ *    version (versions are never edited or deleted)
+ */
+
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+} from 'firebase/firestore';
+import { diffObjects } from '@/services/auditService';
+import type { FieldChange } from '@/types/audit';
+import { getVersionedContent, type ChurchVersionReason } from '@shared/churchVersions';
+
+export {
+  NON_VERSIONED_FIELDS,
+  getVersionedContent,
+  type ChurchRollbackMarker,
+  type ChurchVersionReason,
+} from '@shared/churchVersions';
+
+export interface ChurchVersion {
+  id?: string;
+  churchId: string;
+  versionNumber: number;              // 1, 2, 3... per church
+  reason: ChurchVersionReason;
+  snapshot: Record<string, unknown>;  // Church content at the time of the version
+  createdAt: Timestamp;
+  createdBy: {
+    uid: string;
+    email?: string;
+    name?: string;
+    role?: string;
+  };
+  note?: string;
+  restoredFromVersion?: number;       // Set on rollback versions
+  diocese?: string;
+}
+
+const versionsCollection = (churchId: string) => collection(db, 'churches', churchId, 'versions');
+
+/**
+ * Get all versions of a church, newest first.
+ */
+export async function getChurchVersions(churchId: string): Promise<ChurchVersion[]> {
+  const snapshot = await getDocs(query(versionsCollection(churchId), orderBy('versionNumber', 'desc')));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as ChurchVersion);
+}
+
+/**
+ * Get a single version by document ID.
+ */
+export async function getChurchVersion(churchId: string, versionId: string): Promise<ChurchVersion | null> {
+  const snapshot = await getDoc(doc(db, 'churches', churchId, 'versions', versionId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as ChurchVersion) : null;
+}
+
+/**
+ * Field-by-field differences between two snapshots (older → newer).
+ * Workflow fields are ignored.
+ */
+export function diffChurchVersions(
+  older: Record<string, unknown>,
+  newer: Record<string, unknown>
+): FieldChange[] {
+  const olderContent = getVersionedContent(older);
+  const newerContent = getVersionedContent(newer);
+  const fields = Array.from(new Set([...Object.keys(olderContent), ...Object.keys(newerContent)])).sort();
+  return diffObjects(olderContent, newerContent, fields);
+}
+
+/**
+ * Human-readable label for a version reason.
+ */
+export function getVersionReasonLabel(reason: ChurchVersionReason): string {
+  const labels: Record<ChurchVersionReason, string> = {
+    approval: 'Approved',
+    pending_changes_applied: 'Update approved',
+    pending_changes_reviewed: 'Update reviewed',
+    rollback: 'Rolled back',
+  };
+  return labels[reason] || reason;
+}
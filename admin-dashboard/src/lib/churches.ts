@@ -1,11 +1,15 @@
 import { db } from '@/lib/firebase';
-import { addDoc, collection, doc, getDoc, getDocs, orderBy, query, setDoc, Timestamp, updateDoc, where, type QueryConstraint } from 'firebase/firestore';
+import { addDoc, collection, deleteField, doc, getDoc, getDocs, orderBy, query, setDoc, Timestamp, updateDoc, where, type QueryConstraint } from 'firebase/firestore';
 import type { Diocese, UserProfile } from '@/contexts/AuthContext';
 import { workflowStateMachine, type WorkflowContext } from '@/lib/workflow-state-machine';
-import { shouldRequireHeritageReview } from '@/lib/heritage-detection';
+import { assessHeritageSignificance } from '@/lib/heritage-detection';
+import { loadHeritageRules } from '@/lib/heritage-rules';
 import { AuditService, createFieldChange } from '@/services/auditService';
+import type { RevisionComment } from '@/types/church';
+import { markAddressedComments } from '@/lib/revision-requests';
+import { diffChurchVersions, getChurchVersion, getVersionedContent, type ChurchRollbackMarker } from '@/lib/church-versions';
 
-export type ChurchStatus = 'draft' | 'pending' | 'approved' | 'under_review' | 'heritage_review';
+export type ChurchStatus = 'draft' | 'pending' | 'approved' | 'under_review' | 'heritage_review' | 'needs_revision';
 
 export interface MassSchedule {
   day: string;
@@ -93,6 +97,26 @@ export interface Church {
   lastReviewedBy?: string; // uid
   lastReviewNote?: string;
   lastStatusChange?: Timestamp;
+  revisionRequest?: import('@/types/church').RevisionRequest;
+  // Set by the escalateOverdueReviews Cloud Function when the review SLA is exceeded
+  slaEscalation?: {
+    status: ChurchStatus;
+    enteredAt: Timestamp;
+    escalatedAt: Timestamp;
+    daysOverdue: number;
+  };
+  // Latest heritage significance assessment and the rule version that produced it
+  heritageAssessment?: {
+    recommendation: 'auto_approve' | 'heritage_review' | 'detailed_review';
+    confidence: 'low' | 'medium' | 'high';
+    score: number;
+    rulesVersion: number;
+    indicators: string[];  // Names of the indicators that were present
+    assessedAt: Timestamp;
+    assessedBy: string;    // uid
+  };
+  // Reviewer currently working on the submission (see lib/review-claims.ts)
+  reviewClaim?: import('@/lib/review-claims').ReviewClaim;
 }
 
 const CHURCHES = 'churches';
@@ -257,7 +281,9 @@ export async function updateChurchStatus(
       updatedAt: Timestamp.now(),
       lastReviewedBy: reviewerUid || userProfile.uid,
       lastReviewNote: note || null,
-      lastStatusChange: Timestamp.now()
+      lastStatusChange: Timestamp.now(),
+      // A claim covers one review stage; moving on frees the submission
+      ...(status !== currentStatus ? { reviewClaim: deleteField() } : {})
     };
 
     console.log('Attempting to update church document:', churchId, updateData);
@@ -321,13 +347,14 @@ export async function updateChurchStatusWithValidation(
     let autoForwarded = false;
     let finalNote = note;
 
-    // Smart heritage detection logic
+    // Smart heritage detection logic, using the latest museum-configured rules
+    const assessment = assessHeritageSignificance(churchData, await loadHeritageRules());
     if (targetStatus === 'approved' && userProfile.role === 'chancery_office') {
       // Check if church should go to heritage review instead
-      if (shouldRequireHeritageReview(churchData)) {
+      if (assessment.shouldRequireReview) {
         finalStatus = 'heritage_review';
         autoForwarded = true;
-        finalNote = `Automatically forwarded to heritage review due to heritage indicators. ${note || ''}`.trim();
+        finalNote = `Automatically forwarded to heritage review due to heritage indicators (rules v${assessment.rulesVersion}). ${note || ''}`.trim();
       }
     }
 
@@ -340,6 +367,21 @@ export async function updateChurchStatusWithValidation(
       userProfile
     );
 
+    // Record the assessment that informed this decision
+    if (result.success && userProfile.role === 'chancery_office') {
+      await updateDoc(doc(db, CHURCHES, churchId), {
+        heritageAssessment: {
+          recommendation: assessment.recommendation,
+          confidence: assessment.confidence,
+          score: assessment.score,
+          rulesVersion: assessment.rulesVersion,
+          indicators: assessment.indicators.filter(i => i.present).map(i => i.name),
+          assessedAt: Timestamp.now(),
+          assessedBy: userProfile.uid,
+        },
+      }).catch(err => console.error('Failed to record heritage assessment:', err));
+    }
+
     return {
       ...result,
       autoForwarded
@@ -354,6 +396,288 @@ export async function updateChurchStatusWithValidation(
   }
 }
 
+/**
+ * Restore an approved church to the content of an earlier version.
+ *
+ * Goes through the workflow state machine (approved → approved, note required)
+ * so the rollback appears in status_audit, then logs the restored fields to
+ * the audit trail. The lastRollback marker makes the snapshotChurchVersion
+ * trigger save the result as a new 'rollback' version.
+ * Workflow fields (status, pendingChanges, review metadata) are left untouched.
+ *
+ * @param churchId - The church document ID
+ * @param versionId - Document ID in churches/{churchId}/versions to restore
+ * @param userProfile - The Chancery user performing the rollback
+ * @param note - Required explanation for the rollback
+ */
+export async function rollbackChurchToVersion(
+  churchId: string,
+  versionId: string,
+  userProfile: UserProfile,
+  note: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const ref = doc(db, CHURCHES, churchId);
+    const churchSnap = await getDoc(ref);
+    if (!churchSnap.exists()) {
+      return { success: false, error: 'Church not found' };
+    }
+
+    const version = await getChurchVersion(churchId, versionId);
+    if (!version) {
+      return { success: false, error: 'Version not found' };
+    }
+
+    const current = churchSnap.data();
+    const churchData = { id: churchSnap.id, ...current } as Church;
+
+    // Check before the transition so a no-op rollback leaves no status_audit entry
+    const changes = diffChurchVersions(current, version.snapshot);
+    if (changes.length === 0) {
+      return { success: false, error: 'The church already matches this version' };
+    }
+
+    const result = await workflowStateMachine.executeTransition({
+      churchId,
+      currentStatus: churchData.status,
+      targetStatus: churchData.status,
+      userProfile,
+      note,
+      metadata: {
+        action: 'rollback',
+        restoredVersion: version.versionNumber,
+        isAutomated: false
+      }
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    // Tells the snapshotChurchVersion trigger to save this as a rollback
+    const lastRollback: ChurchRollbackMarker = {
+      restoredFromVersion: version.versionNumber,
+      note,
+      rolledBackAt: Timestamp.now(),
+    };
+
+    // Overwrite content fields with the snapshot and remove fields added since
+    const updateData: Record<string, unknown> = {
+      updatedAt: Timestamp.now(),
+      lastReviewedBy: userProfile.uid,
+      lastReviewNote: note,
+      lastRollback,
+    };
+    const currentContent = getVersionedContent(current);
+    for (const key of Object.keys(currentContent)) {
+      if (!(key in version.snapshot)) {
+        updateData[key] = deleteField();
+      }
+    }
+    Object.assign(updateData, version.snapshot);
+
+    await updateDoc(ref, updateData);
+
+    await AuditService.logAction(
+      userProfile,
+      'church.rollback',
+      'church',
+      churchId,
+      {
+        resourceName: churchData.name || 'Unknown Church',
+        changes,
+        parishId: churchData.parishId,
+        metadata: {
+          diocese: churchData.diocese,
+          note,
+          restoredVersion: version.versionNumber,
+        },
+      }
+    );
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error rolling back church:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Send a pending or heritage_review church back to the parish.
+ *
+ * Stores the reviewer's per-field comments on the church as `revisionRequest`
+ * so the parish form can highlight the flagged fields.
+ */
+export async function requestChurchRevision(
+  churchId: string,
+  comments: Omit<RevisionComment, 'addressed' | 'addressedAt'>[],
+  userProfile: UserProfile,
+  note?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const churchData = await getChurch(churchId);
+    if (!churchData) {
+      return { success: false, error: 'Church not found' };
+    }
+
+    const cleanComments = comments
+      .map(c => ({ field: c.field, comment: c.comment.trim() }))
+      .filter(c => c.comment.length > 0);
+
+    const result = await workflowStateMachine.executeTransition({
+      churchId,
+      currentStatus: churchData.status,
+      targetStatus: 'needs_revision',
+      userProfile,
+      note,
+      metadata: {
+        action: 'request_revision',
+        revisionComments: cleanComments,
+        isAutomated: false
+      }
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    await updateDoc(doc(db, CHURCHES, churchId), {
+      status: 'needs_revision',
+      updatedAt: Timestamp.now(),
+      lastReviewedBy: userProfile.uid,
+      lastReviewNote: note || null,
+      lastStatusChange: Timestamp.now(),
+      revisionRequest: {
+        requestedBy: {
+          uid: userProfile.uid,
+          name: userProfile.name || userProfile.email,
+          role: userProfile.role
+        },
+        requestedAt: Timestamp.now(),
+        fromStatus: churchData.status,
+        ...(note && { note }),
+        comments: cleanComments
+      }
+    });
+
+    await AuditService.logAction(
+      userProfile,
+      'church.request_revision',
+      'church',
+      churchId,
+      {
+        resourceName: churchData.name || 'Unknown Church',
+        changes: [createFieldChange('status', churchData.status, 'needs_revision')],
+        parishId: churchData.parishId,
+        metadata: {
+          diocese: churchData.diocese,
+          note,
+          flaggedFields: cleanComments.map(c => c.field),
+          commentCount: cleanComments.length
+        },
+      }
+    );
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error requesting church revision:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+/**
+ * Resubmit a needs_revision church after the parish has made its fixes.
+ *
+ * Marks each reviewer comment whose field was changed as addressed and moves
+ * the church back to pending for Chancery review.
+ *
+ * @param addressedFields - Flagged field keys the parish changed (see getAddressedRevisionFields)
+ */
+export async function resubmitChurchAfterRevision(
+  churchId: string,
+  addressedFields: string[],
+  userProfile: UserProfile
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const churchData = await getChurch(churchId);
+    if (!churchData) {
+      return { success: false, error: 'Church not found' };
+    }
+    // pending → pending is also a valid transition for the parish, so check
+    // the status here rather than relying on the state machine
+    if (churchData.status !== 'needs_revision') {
+      return { success: false, error: `Only churches in 'needs_revision' can be resubmitted after revision (status is '${churchData.status}')` };
+    }
+
+    const comments = churchData.revisionRequest?.comments || [];
+    const addressedComments = comments.filter(c => addressedFields.includes(c.field));
+    const unaddressedComments = comments.filter(c => !addressedFields.includes(c.field));
+
+    const result = await workflowStateMachine.executeTransition({
+      churchId,
+      currentStatus: churchData.status,
+      targetStatus: 'pending',
+      userProfile,
+      note: `Resubmitted after revision (${addressedComments.length} of ${comments.length} comments addressed)`,
+      metadata: {
+        action: 'resubmit_after_revision',
+        addressedComments,
+        unaddressedComments,
+        isAutomated: false
+      }
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    const now = Timestamp.now();
+    await updateDoc(doc(db, CHURCHES, churchId), {
+      status: 'pending',
+      updatedAt: now,
+      submittedAt: now,
+      lastStatusChange: now,
+      'revisionRequest.resubmittedAt': now,
+      'revisionRequest.comments': markAddressedComments(comments, addressedFields, now.toDate())
+    });
+
+    await AuditService.logAction(
+      userProfile,
+      'church.submit',
+      'church',
+      churchId,
+      {
+        resourceName: churchData.name || 'Unknown Church',
+        changes: [createFieldChange('status', churchData.status, 'pending')],
+        parishId: churchData.parishId,
+        metadata: {
+          diocese: churchData.diocese,
+          action: 'resubmit_after_revision',
+          addressedFields: addressedComments.map(c => c.field),
+          unaddressedFields: unaddressedComments.map(c => c.field)
+        },
+      }
+    );
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error resubmitting church after revision:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
 /**
  * Get a single church by ID
  */
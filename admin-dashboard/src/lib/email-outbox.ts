@@ -0,0 +1,93 @@
+/**
+ * FILE PURPOSE: Email Delivery Status
+ *
+ * Cloud Functions queue every outgoing email in the email_outbox collection
+ * and deliver it with retries, deferring normal-priority mail when the Gmail
+ * daily limit is close (rules in @shared/emailOutbox). The outbox is not
+ * readable from the dashboard because queued messages can contain reset
+ * links and temporary passwords; the chancery reads delivery status and
+ * requeues dead-lettered messages of its own diocese through the
+ * getEmailOutbox and requeueOutboxEmail functions.
+ */
+
+import { functions } from '@/lib/firebase';
+import { httpsCallable } from 'firebase/functions';
+import type { EmailOutboxStatus, EmailPriority } from '@shared/emailOutbox';
+
+export interface EmailOutboxEntry {
+  id: string;
+  to: string;
+  subject: string;
+  category: string;               // Email template ID, e.g. "passwordReset"
+  priority: EmailPriority;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string | null;       // ISO timestamps
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+}
+
+export interface EmailOutboxSummary {
+  quota: {
+    day: string;                  // Manila date, YYYY-MM-DD
+    sent: number;
+    deferred: number;
+    limit: number;
+    urgentReserve: number;
+  };
+  counts: Record<EmailOutboxStatus, number>;
+  emails: EmailOutboxEntry[];
+}
+
+export const EMAIL_STATUS_LABELS: Record<EmailOutboxStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  retrying: 'Retrying',
+  deferred: 'Deferred (daily limit)',
+  sent: 'Sent',
+  dead: 'Failed',
+};
+
+export const EMAIL_CATEGORY_LABELS: Record<string, string> = {
+  passwordReset: 'Password reset',
+  emailVerification: 'Email verification',
+  welcome: 'Welcome',
+  welcomeWithCredentials: 'Welcome (with credentials)',
+  accountStatus: 'Account status',
+  notification: 'Notification',
+  notificationDigest: 'Notification digest',
+};
+
+export async function getEmailOutbox(status?: EmailOutboxStatus, limit = 50): Promise<EmailOutboxSummary> {
+  try {
+    const callable = httpsCallable<{ status?: EmailOutboxStatus; limit: number }, EmailOutboxSummary>(
+      functions,
+      'getEmailOutbox'
+    );
+    const result = await callable(status ? { status, limit } : { limit });
+    return result.data;
+  } catch (error) {
+    console.error('Error loading email delivery status:', error);
+    throw new Error('Failed to load email delivery status');
+  }
+}
+
+/**
+ * Give a failed (dead-lettered) email a fresh set of attempts. Resolves to
+ * the outcome of the immediate retry: "sent", "retrying", "dead" or
+ * "skipped" (deferred by the daily limit).
+ */
+export async function requeueOutboxEmail(emailId: string): Promise<string> {
+  try {
+    const callable = httpsCallable<{ emailId: string }, { success: boolean; result: string }>(
+      functions,
+      'requeueOutboxEmail'
+    );
+    const result = await callable({ emailId });
+    return result.data.result;
+  } catch (error) {
+    console.error('Error requeuing email:', error);
+    throw new Error('Failed to requeue email');
+  }
+}
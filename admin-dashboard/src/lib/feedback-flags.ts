@@ -0,0 +1,434 @@
+/**
+ * FILE PURPOSE: Feedback Flags, Auto-Hide Threshold and Appeals
+ *
+ * Visitors (mobile app) and parish secretaries flag abusive feedback; the
+ * author of hidden feedback can appeal (records and rules in
+ * @shared/feedbackFlags).
+ *
+ * WORKFLOW:
+ * 1. A parish secretary flags published feedback (flagFeedback), or a visitor
+ *    does from the mobile app
+ * 2. The onFeedbackFlagCreated Cloud Function audits the flag and hides the
+ *    feedback once its open flags reach the diocese threshold
+ *    (feedback_settings/{diocese}, see getFeedbackFlagSettings)
+ * 3. The chancery dismisses the flags (restoring feedback they hid) or
+ *    upholds them (keeping the feedback hidden) - resolveFeedbackFlags
+ * 4. The visitor who wrote hidden feedback appeals from the mobile app; the
+ *    chancery reinstates it or keeps it hidden (decideFeedbackAppeal) and
+ *    onFeedbackAppealWritten tells the visitor the outcome
+ */
+
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore';
+import type { Diocese, UserProfile } from '@/contexts/AuthContext';
+import { AuditService, createFieldChange } from '@/services/auditService';
+import {
+  DEFAULT_AUTO_HIDE_FLAG_COUNT,
+  FEEDBACK_APPEALS_COLLECTION,
+  FEEDBACK_FLAGS_COLLECTION,
+  FEEDBACK_SETTINGS_COLLECTION,
+  MAX_AUTO_HIDE_FLAG_COUNT,
+  MAX_FLAG_DETAILS_LENGTH,
+  feedbackFlagId,
+  normalizeAutoHideFlagCount,
+  type FeedbackAppealStatus,
+  type FeedbackFlagReason,
+  type FeedbackFlagReporterRole,
+  type FeedbackFlagStatus,
+} from '@shared/feedbackFlags';
+
+export interface FeedbackFlag {
+  id: string;
+  feedbackId: string;
+  churchId: string;
+  churchName: string;
+  diocese: string;
+  feedbackAuthorId: string | null;
+  reporterId: string;
+  reporterRole: FeedbackFlagReporterRole;
+  reason: FeedbackFlagReason;
+  details?: string;
+  status: FeedbackFlagStatus;
+  createdAt: Date | null;
+  resolvedBy?: string;
+  resolvedAt?: Date | null;
+}
+
+export interface FeedbackAppeal {
+  id: string;                      // Same as the feedback ID
+  feedbackId: string;
+  feedbackSubject: string;
+  churchId: string;
+  churchName: string;
+  authorId: string;
+  message: string;
+  status: FeedbackAppealStatus;
+  createdAt: Date | null;
+  decidedBy?: string;
+  decidedAt?: Date | null;
+  decisionNote?: string;
+}
+
+export interface FeedbackFlagSettings {
+  autoHideFlagCount: number;       // Open flags that hide published feedback
+}
+
+export interface UserFlagHistory {
+  raised: FeedbackFlag[];          // Flags the user raised on others' feedback
+  received: FeedbackFlag[];        // Flags raised on the user's own feedback
+  appeals: FeedbackAppeal[];
+}
+
+const toDate = (value: unknown): Date | null =>
+  (value as Timestamp | undefined)?.toDate?.() || null;
+
+const mapFlag = (id: string, data: DocumentData): FeedbackFlag => ({
+  id,
+  feedbackId: data.feedbackId || '',
+  churchId: data.churchId || '',
+  churchName: data.churchName || 'Unknown Church',
+  diocese: data.diocese || '',
+  feedbackAuthorId: data.feedbackAuthorId || null,
+  reporterId: data.reporterId || '',
+  reporterRole: data.reporterRole === 'parish' ? 'parish' : 'visitor',
+  reason: data.reason || 'other',
+  details: data.details || undefined,
+  status: data.status || 'open',
+  createdAt: toDate(data.createdAt),
+  resolvedBy: data.resolvedBy,
+  resolvedAt: toDate(data.resolvedAt),
+});
+
+const mapAppeal = (id: string, data: DocumentData): FeedbackAppeal => ({
+  id,
+  feedbackId: data.feedbackId || id,
+  feedbackSubject: data.feedbackSubject || 'Visitor feedback',
+  churchId: data.churchId || '',
+  churchName: data.churchName || 'Unknown Church',
+  authorId: data.authorId || '',
+  message: data.message || '',
+  status: data.status || 'pending',
+  createdAt: toDate(data.createdAt),
+  decidedBy: data.decidedBy,
+  decidedAt: toDate(data.decidedAt),
+  decisionNote: data.decisionNote || undefined,
+});
+
+const newestFirst = <T extends { createdAt: Date | null }>(a: T, b: T) =>
+  (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+/**
+ * Get the auto-hide threshold for a diocese, falling back to the default.
+ */
+export async function getFeedbackFlagSettings(diocese: Diocese): Promise<FeedbackFlagSettings> {
+  try {
+    const snapshot = await getDoc(doc(db, FEEDBACK_SETTINGS_COLLECTION, diocese));
+    return { autoHideFlagCount: normalizeAutoHideFlagCount(snapshot.data()?.autoHideFlagCount) };
+  } catch (error) {
+    console.error('[FeedbackFlags] Failed to load feedback settings, using defaults:', error);
+    return { autoHideFlagCount: DEFAULT_AUTO_HIDE_FLAG_COUNT };
+  }
+}
+
+/**
+ * Save the auto-hide threshold for a diocese (Chancery Office only, enforced by rules).
+ */
+export async function updateFeedbackFlagSettings(
+  diocese: Diocese,
+  settings: FeedbackFlagSettings,
+  userProfile: UserProfile
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const count = settings.autoHideFlagCount;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_AUTO_HIDE_FLAG_COUNT) {
+      return { success: false, error: `Threshold must be a whole number from 1 to ${MAX_AUTO_HIDE_FLAG_COUNT}` };
+    }
+
+    const previous = await getFeedbackFlagSettings(diocese);
+
+    await setDoc(doc(db, FEEDBACK_SETTINGS_COLLECTION, diocese), {
+      autoHideFlagCount: count,
+      updatedAt: Timestamp.now(),
+      updatedBy: userProfile.uid,
+    }, { merge: true });
+
+    AuditService.logAction(userProfile, 'system.config_update', 'system', `${FEEDBACK_SETTINGS_COLLECTION}/${diocese}`, {
+      resourceName: 'Feedback auto-hide threshold',
+      changes: [createFieldChange('autoHideFlagCount', previous.autoHideFlagCount, count)],
+      metadata: { diocese },
+    }).catch(err => console.error('[FeedbackFlags] Audit log failed:', err));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating feedback settings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+// =============================================================================
+// Flags
+// =============================================================================
+
+/**
+ * Parish secretary flags published feedback on a church in their diocese.
+ * The flag is audited by the onFeedbackFlagCreated Cloud Function, which
+ * also audits flags from the mobile app.
+ */
+export async function flagFeedback(
+  feedbackId: string,
+  reason: FeedbackFlagReason,
+  details: string,
+  userProfile: UserProfile
+): Promise<void> {
+  if (userProfile.role !== 'parish') {
+    throw new Error('Only parish secretaries can flag feedback from the dashboard');
+  }
+  const trimmed = details.trim();
+  if (trimmed.length > MAX_FLAG_DETAILS_LENGTH) {
+    throw new Error(`Details cannot be longer than ${MAX_FLAG_DETAILS_LENGTH} characters`);
+  }
+
+  const flagRef = doc(db, FEEDBACK_FLAGS_COLLECTION, feedbackFlagId(feedbackId, userProfile.uid));
+  if ((await getDoc(flagRef)).exists()) {
+    throw new Error('You have already flagged this feedback');
+  }
+
+  try {
+    await setDoc(flagRef, {
+      feedbackId,
+      reporterId: userProfile.uid,
+      reporterRole: 'parish',
+      reason,
+      ...(trimmed ? { details: trimmed } : {}),
+      status: 'open',
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error flagging feedback:', error);
+    throw new Error('Failed to flag feedback');
+  }
+}
+
+/**
+ * IDs of the feedback this user has flagged, to mark it in their list.
+ */
+export async function getFlaggedFeedbackIds(uid: string): Promise<Set<string>> {
+  try {
+    const snapshot = await getDocs(query(collection(db, FEEDBACK_FLAGS_COLLECTION), where('reporterId', '==', uid)));
+    return new Set(snapshot.docs.map(flagDoc => flagDoc.data().feedbackId as string));
+  } catch (error) {
+    console.error('Error loading flagged feedback:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Live list of open flags in the diocese, newest first.
+ */
+export function subscribeToOpenFeedbackFlags(
+  diocese: Diocese,
+  callback: (flags: FeedbackFlag[]) => void
+): () => void {
+  return onSnapshot(
+    query(
+      collection(db, FEEDBACK_FLAGS_COLLECTION),
+      where('diocese', '==', diocese),
+      where('status', '==', 'open'),
+      orderBy('createdAt', 'desc')
+    ),
+    snapshot => callback(snapshot.docs.map(flagDoc => mapFlag(flagDoc.id, flagDoc.data()))),
+    error => {
+      console.error('Error in feedback flag subscription:', error);
+      callback([]);
+    }
+  );
+}
+
+/**
+ * Chancery decision on the open flags of one feedback. Dismissing them
+ * restores feedback the flags hid; upholding them hides the feedback if it
+ * is still published.
+ */
+export async function resolveFeedbackFlags(
+  feedbackId: string,
+  flags: FeedbackFlag[],
+  resolution: 'dismissed' | 'upheld',
+  userProfile: UserProfile
+): Promise<void> {
+  const feedbackRef = doc(db, 'feedback', feedbackId);
+
+  try {
+    const feedbackData = (await getDoc(feedbackRef)).data() || {};
+    const previousStatus: string = feedbackData.status || 'published';
+    const newStatus = resolution === 'dismissed'
+      ? (previousStatus === 'hidden' && feedbackData.hiddenReason === 'flags' ? 'published' : previousStatus)
+      : (previousStatus === 'published' ? 'hidden' : previousStatus);
+
+    const batch = writeBatch(db);
+    flags.forEach(flag => batch.update(doc(db, FEEDBACK_FLAGS_COLLECTION, flag.id), {
+      status: resolution,
+      resolvedBy: userProfile.uid,
+      resolvedAt: serverTimestamp(),
+    }));
+    batch.update(feedbackRef, {
+      flagCount: 0,
+      ...(newStatus !== previousStatus ? {
+        status: newStatus,
+        hiddenReason: newStatus === 'hidden' ? 'moderator' : null,
+        moderatedBy: userProfile.uid,
+        moderatedAt: serverTimestamp(),
+      } : {}),
+    });
+    await batch.commit();
+
+    AuditService.logAction(
+      userProfile,
+      resolution === 'dismissed' ? 'feedback.flags_dismiss' : 'feedback.flags_uphold',
+      'feedback',
+      feedbackId,
+      {
+        resourceName: feedbackData.subject || 'Visitor feedback',
+        changes: newStatus !== previousStatus ? [createFieldChange('status', previousStatus, newStatus)] : undefined,
+        metadata: { flagIds: flags.map(flag => flag.id), reasons: flags.map(flag => flag.reason) },
+        parishId: feedbackData.church_id,
+      }
+    ).catch(err => console.error('[FeedbackFlags] Audit log failed:', err));
+  } catch (error) {
+    console.error('Error resolving feedback flags:', error);
+    throw new Error('Failed to resolve flags');
+  }
+}
+
+// =============================================================================
+// Appeals
+// =============================================================================
+
+/**
+ * Live list of appeals waiting for a decision in the diocese, oldest first.
+ */
+export function subscribeToPendingFeedbackAppeals(
+  diocese: Diocese,
+  callback: (appeals: FeedbackAppeal[]) => void
+): () => void {
+  return onSnapshot(
+    query(
+      collection(db, FEEDBACK_APPEALS_COLLECTION),
+      where('diocese', '==', diocese),
+      where('status', '==', 'pending'),
+      orderBy('createdAt', 'asc')
+    ),
+    snapshot => callback(snapshot.docs.map(appealDoc => mapAppeal(appealDoc.id, appealDoc.data()))),
+    error => {
+      console.error('Error in feedback appeal subscription:', error);
+      callback([]);
+    }
+  );
+}
+
+/**
+ * Chancery decision on an appeal. Reinstating publishes the feedback again
+ * and dismisses its open flags; upholding keeps it hidden and upholds them.
+ */
+export async function decideFeedbackAppeal(
+  appeal: FeedbackAppeal,
+  decision: 'reinstated' | 'upheld',
+  note: string,
+  openFlags: FeedbackFlag[],
+  userProfile: UserProfile
+): Promise<void> {
+  const feedbackRef = doc(db, 'feedback', appeal.feedbackId);
+
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, FEEDBACK_APPEALS_COLLECTION, appeal.id), {
+      status: decision,
+      decidedBy: userProfile.uid,
+      decidedAt: serverTimestamp(),
+      decisionNote: note.trim() || null,
+    });
+    openFlags.forEach(flag => batch.update(doc(db, FEEDBACK_FLAGS_COLLECTION, flag.id), {
+      status: decision === 'reinstated' ? 'dismissed' : 'upheld',
+      resolvedBy: userProfile.uid,
+      resolvedAt: serverTimestamp(),
+    }));
+    if (decision === 'reinstated') {
+      batch.update(feedbackRef, {
+        status: 'published',
+        hiddenReason: null,
+        flagCount: 0,
+        moderatedBy: userProfile.uid,
+        moderatedAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+
+    AuditService.logAction(
+      userProfile,
+      decision === 'reinstated' ? 'feedback.appeal_reinstate' : 'feedback.appeal_uphold',
+      'feedback',
+      appeal.feedbackId,
+      {
+        resourceName: appeal.feedbackSubject,
+        changes: decision === 'reinstated' ? [createFieldChange('status', 'hidden', 'published')] : undefined,
+        metadata: { authorId: appeal.authorId, note: note.trim() || null, flagIds: openFlags.map(flag => flag.id) },
+        parishId: appeal.churchId,
+      }
+    ).catch(err => console.error('[FeedbackFlags] Audit log failed:', err));
+  } catch (error) {
+    console.error('Error deciding feedback appeal:', error);
+    throw new Error('Failed to decide appeal');
+  }
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/**
+ * A public user's flag history in the diocese: flags they raised, flags on
+ * their own feedback, and their appeals, each newest first.
+ */
+export async function getUserFlagHistory(uid: string, diocese: Diocese): Promise<UserFlagHistory> {
+  try {
+    const flags = collection(db, FEEDBACK_FLAGS_COLLECTION);
+    const [raisedSnap, receivedSnap, appealsSnap] = await Promise.all([
+      getDocs(query(flags, where('reporterId', '==', uid), where('diocese', '==', diocese))),
+      getDocs(query(flags, where('feedbackAuthorId', '==', uid), where('diocese', '==', diocese))),
+      getDocs(query(
+        collection(db, FEEDBACK_APPEALS_COLLECTION),
+        where('authorId', '==', uid),
+        where('diocese', '==', diocese)
+      )),
+    ]);
+
+    return {
+      raised: raisedSnap.docs.map(flagDoc => mapFlag(flagDoc.id, flagDoc.data())).sort(newestFirst),
+      received: receivedSnap.docs.map(flagDoc => mapFlag(flagDoc.id, flagDoc.data())).sort(newestFirst),
+      appeals: appealsSnap.docs.map(appealDoc => mapAppeal(appealDoc.id, appealDoc.data())).sort(newestFirst),
+    };
+  } catch (error) {
+    console.error('Error loading flag history:', error);
+    throw new Error('Failed to load flag history');
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * FILE PURPOSE: Official Replies to Visitor Feedback
+ *
+ * Parish secretaries and the Chancery Office answer visitor feedback in a
+ * reply thread stored in feedback/{feedbackId}/replies (thread rules and
+ * metrics in @shared/feedbackReplies).
+ *
+ * WORKFLOW:
+ * 1. Parish or chancery posts a reply (addFeedbackReply), optionally in
+ *    answer to another reply in the thread
+ * 2. The onFeedbackReplyWritten Cloud Function copies the latest public
+ *    official reply onto the feedback for the mobile app and notifies the
+ *    visitor who wrote the feedback in their inbox
+ * 3. The author can edit a reply (previous text kept in editHistory) or
+ *    toggle whether the public sees it
+ * 4. The Chancery Office can hide a reply that should not be public
+ */
+
+import { db } from '@/lib/firebase';
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+  type DocumentData,
+} from 'firebase/firestore';
+import type { UserProfile } from '@/contexts/AuthContext';
+import { AuditService, createFieldChange } from '@/services/auditService';
+import {
+  MAX_FEEDBACK_REPLY_LENGTH,
+  type FeedbackReplyAuthorRole,
+  type FeedbackReplyStatus,
+} from '@shared/feedbackReplies';
+
+export interface FeedbackReplyEdit {
+  text: string;                    // Text before the edit
+  editedAt: Date | null;
+  editedBy: string;
+}
+
+export interface FeedbackReply {
+  id: string;
+  feedbackId: string;
+  parentReplyId: string | null;    // null for replies to the feedback itself
+  text: string;
+  authorId: string;
+  authorName: string;
+  authorRole: FeedbackReplyAuthorRole;
+  visible: boolean;
+  status: FeedbackReplyStatus;
+  moderatedBy?: string;
+  moderatedAt?: Date | null;
+  moderationReason?: string;
+  editHistory: FeedbackReplyEdit[];
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface FeedbackReplyNode {
+  reply: FeedbackReply;
+  children: FeedbackReplyNode[];
+}
+
+const repliesCollection = (feedbackId: string) => collection(db, 'feedback', feedbackId, 'replies');
+
+const toDate = (value: unknown): Date | null =>
+  (value as Timestamp | undefined)?.toDate?.() || null;
+
+const mapReply = (feedbackId: string, id: string, data: DocumentData): FeedbackReply => ({
+  id,
+  feedbackId,
+  parentReplyId: data.parentReplyId || null,
+  text: data.text || '',
+  authorId: data.authorId || '',
+  authorName: data.authorName || 'Unknown',
+  authorRole: data.authorRole || 'parish',
+  visible: data.visible !== false,
+  status: data.status === 'hidden' ? 'hidden' : 'published',
+  moderatedBy: data.moderatedBy,
+  moderatedAt: toDate(data.moderatedAt),
+  moderationReason: data.moderationReason,
+  editHistory: (data.editHistory || []).map((edit: DocumentData) => ({
+    text: edit.text || '',
+    editedAt: toDate(edit.editedAt),
+    editedBy: edit.editedBy || '',
+  })),
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+});
+
+const validateReplyText = (text: string): string => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Reply cannot be empty');
+  if (trimmed.length > MAX_FEEDBACK_REPLY_LENGTH) {
+    throw new Error(`Reply cannot be longer than ${MAX_FEEDBACK_REPLY_LENGTH} characters`);
+  }
+  return trimmed;
+};
+
+/**
+ * Can this user post official replies? Parish secretaries for their own
+ * church, and the Chancery Office.
+ */
+export function canReplyToFeedback(
+  userProfile: Pick<UserProfile, 'role' | 'parishId' | 'parish'> | null | undefined,
+  churchId: string
+): boolean {
+  if (userProfile?.role === 'chancery_office') return true;
+  return userProfile?.role === 'parish' && (userProfile.parishId || userProfile.parish) === churchId;
+}
+
+/**
+ * Arrange replies into threads, oldest first at every level. Replies whose
+ * parent is missing are shown at the top level.
+ */
+export function buildReplyThreads(replies: FeedbackReply[]): FeedbackReplyNode[] {
+  const nodes = new Map(replies.map(reply => [reply.id, { reply, children: [] as FeedbackReplyNode[] }]));
+  const roots: FeedbackReplyNode[] = [];
+  const byDate = (a: FeedbackReplyNode, b: FeedbackReplyNode) =>
+    (a.reply.createdAt?.getTime() ?? Infinity) - (b.reply.createdAt?.getTime() ?? Infinity);
+
+  nodes.forEach(node => {
+    const parent = node.reply.parentReplyId ? nodes.get(node.reply.parentReplyId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  nodes.forEach(node => node.children.sort(byDate));
+  return roots.sort(byDate);
+}
+
+/**
+ * Live list of every reply to one feedback (the dashboard sees hidden and
+ * private replies too). Staff may only list replies of their own diocese.
+ */
+export function subscribeToFeedbackReplies(
+  feedbackId: string,
+  diocese: string,
+  callback: (replies: FeedbackReply[]) => void
+): () => void {
+  return onSnapshot(
+    query(repliesCollection(feedbackId), where('diocese', '==', diocese), orderBy('createdAt', 'asc')),
+    snapshot => callback(snapshot.docs.map(replyDoc => mapReply(feedbackId, replyDoc.id, replyDoc.data()))),
+    error => {
+      console.error('Error in feedback reply subscription:', error);
+      callback([]);
+    }
+  );
+}
+
+export async function addFeedbackReply(
+  feedbackId: string,
+  churchId: string,
+  text: string,
+  userProfile: UserProfile,
+  options: { parentReplyId?: string | null; visible?: boolean } = {}
+): Promise<string> {
+  const replyText = validateReplyText(text);
+  if (!canReplyToFeedback(userProfile, churchId)) {
+    throw new Error('You cannot reply to feedback for this church');
+  }
+
+  try {
+    const replyRef = await addDoc(repliesCollection(feedbackId), {
+      parentReplyId: options.parentReplyId || null,
+      text: replyText,
+      authorId: userProfile.uid,
+      authorName: userProfile.name || userProfile.email,
+      authorRole: userProfile.role,
+      diocese: userProfile.diocese,
+      churchId,
+      visible: options.visible ?? true,
+      status: 'published',
+      editHistory: [],
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    AuditService.logAction(userProfile, 'feedback.respond', 'feedback', feedbackId, {
+      resourceName: 'Feedback reply',
+      metadata: { replyId: replyRef.id, parentReplyId: options.parentReplyId || null },
+    }).catch(err => console.error('[FeedbackReplies] Audit log failed:', err));
+
+    return replyRef.id;
+  } catch (error) {
+    console.error('Error adding feedback reply:', error);
+    throw new Error('Failed to post reply');
+  }
+}
+
+/**
+ * Replace the text of your own reply, keeping the previous text in its
+ * edit history.
+ */
+export async function editFeedbackReply(
+  reply: FeedbackReply,
+  text: string,
+  userProfile: UserProfile
+): Promise<void> {
+  const replyText = validateReplyText(text);
+  if (replyText === reply.text) return;
+
+  try {
+    await updateDoc(doc(repliesCollection(reply.feedbackId), reply.id), {
+      text: replyText,
+      editHistory: arrayUnion({ text: reply.text, editedAt: Timestamp.now(), editedBy: userProfile.uid }),
+      updatedAt: serverTimestamp(),
+    });
+
+    AuditService.logAction(userProfile, 'feedback.reply_edit', 'feedback', reply.feedbackId, {
+      resourceName: 'Feedback reply',
+      changes: [createFieldChange('text', reply.text, replyText)],
+      metadata: { replyId: reply.id },
+    }).catch(err => console.error('[FeedbackReplies] Audit log failed:', err));
+  } catch (error) {
+    console.error('Error editing feedback reply:', error);
+    throw new Error('Failed to edit reply');
+  }
+}
+
+/**
+ * Author's toggle: show the reply to the public or keep it private.
+ */
+export async function setFeedbackReplyVisibility(reply: FeedbackReply, visible: boolean): Promise<void> {
+  try {
+    await updateDoc(doc(repliesCollection(reply.feedbackId), reply.id), {
+      visible,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error changing feedback reply visibility:', error);
+    throw new Error('Failed to change reply visibility');
+  }
+}
+
+/**
+ * Chancery moderation: hide a reply from the public regardless of its
+ * author's visibility setting, or restore it.
+ */
+export async function moderateFeedbackReply(
+  reply: FeedbackReply,
+  status: FeedbackReplyStatus,
+  userProfile: UserProfile,
+  reason?: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(repliesCollection(reply.feedbackId), reply.id), {
+      status,
+      moderatedBy: userProfile.uid,
+      moderatedAt: serverTimestamp(),
+      moderationReason: status === 'hidden' ? reason || 'Reply did not meet guidelines' : null,
+    });
+
+    AuditService.logAction(
+      userProfile,
+      status === 'hidden' ? 'feedback.reply_hide' : 'feedback.reply_unhide',
+      'feedback',
+      reply.feedbackId,
+      {
+        resourceName: 'Feedback reply',
+        changes: [createFieldChange('status', reply.status, status)],
+        metadata: { replyId: reply.id, authorId: reply.authorId },
+      }
+    ).catch(err => console.error('[FeedbackReplies] Audit log failed:', err));
+  } catch (error) {
+    console.error('Error moderating feedback reply:', error);
+    throw new Error('Failed to moderate reply');
+  }
+}
@@ -1,5 +1,6 @@
 import type { ChurchInfo } from '@/components/parish/types';
 import type { Church } from '@/lib/churches';
+import { getActiveHeritageRules, type HeritageRuleSet } from '@/lib/heritage-rules';
 
 export interface HeritageIndicator {
   name: string;
@@ -14,75 +15,200 @@ export interface HeritageAssessment {
   indicators: HeritageIndicator[];
   recommendation: 'auto_approve' | 'heritage_review' | 'detailed_review';
   reasoning: string;
+  score: number;        // Sum of the weights of present indicators
+  rulesVersion: number; // HeritageRuleSet version that produced this assessment
 }
 
+type HeritageSource = ChurchInfo | Church | Partial<ChurchInfo>;
+
+// The fields the rules read, across parish form data and stored church documents
+interface HeritageSourceFields {
+  classification?: string;
+  foundedYear?: number;
+  foundingYear?: number | string;
+  founded?: string;
+  architecturalStyle?: string;
+  religiousClassification?: string;
+  heritageDeclaration?: unknown;
+  documents?: unknown[];
+  restorationHistory?: string;
+  preservationHistory?: string;
+  historicalDetails?: {
+    heritageClassification?: string;
+    foundingYear?: string;
+    architecturalStyle?: string;
+    religiousClassification?: string;
+    religiousClassifications?: string[];
+    supportingDocuments?: unknown[];
+  };
+}
+
+const parseYear = (value: unknown): number | null => {
+  if (typeof value === 'number' && value > 0) return value;
+  const match = typeof value === 'string' ? value.match(/\b(1[5-9]\d{2}|20\d{2})\b/) : null;
+  return match ? Number(match[1]) : null;
+};
+
+// Heritage documents are uploaded as 'heritage-doc' or named after the declaration
+const isDeclarationDocument = (document: unknown): boolean => {
+  if (!document || typeof document !== 'object') return false;
+  const { type, name } = document as { type?: string; name?: string };
+  return type === 'heritage-doc' || /declaration|resolution|ncca|nhcp/i.test(name || '');
+};
+
 /**
- * Analyzes church data to determine if heritage review is required
- * Simplified to only check for ICP or NCT classification
+ * Analyzes church data to determine if heritage review is required.
+ *
+ * A declared ICP/NCT classification always requires heritage review. Other
+ * churches are scored by the configurable rules in lib/heritage-rules.ts:
+ * a score at the heritageReview threshold forwards to the museum, a score at
+ * the detailedReview threshold asks the Chancery for a closer look.
  */
 export function assessHeritageSignificance(
-  church: ChurchInfo | Church | Partial<ChurchInfo>
+  church: HeritageSource,
+  ruleSet: HeritageRuleSet = getActiveHeritageRules()
 ): HeritageAssessment {
+  const data = church as HeritageSourceFields;
+  const { rules, thresholds } = ruleSet;
   const indicators: HeritageIndicator[] = [];
 
-  // Only check for explicit Heritage Classification (ICP or NCT)
-  const heritageClass = church.historicalDetails?.heritageClassification || church.classification;
+  // Rule 1: Declared heritage classification (ICP or NCT)
+  const heritageClass = data.historicalDetails?.heritageClassification || data.classification;
+  const isNct = heritageClass === 'National Cultural Treasures' || heritageClass === 'NCT';
+  const isIcp = heritageClass === 'Important Cultural Properties' || heritageClass === 'ICP';
+  if (rules.declaredClassification.enabled && (isNct || isIcp)) {
+    indicators.push({
+      name: isNct ? 'declared_nct' : 'declared_icp',
+      present: true,
+      weight: rules.declaredClassification.weight,
+      description: isNct
+        ? 'Classified as National Cultural Treasure (NCT) - requires heritage review'
+        : 'Classified as Important Cultural Property (ICP) - requires heritage review'
+    });
+  }
 
-  let shouldRequireReview = false;
-  let confidence: 'low' | 'medium' | 'high' = 'low';
-  let recommendation: 'auto_approve' | 'heritage_review' | 'detailed_review' = 'auto_approve';
+  // Rule 2: Founding year - the oldest matching tier wins
+  if (rules.foundingYear.enabled) {
+    const year = parseYear(data.historicalDetails?.foundingYear)
+      ?? parseYear(data.foundingYear)
+      ?? parseYear(data.foundedYear)
+      ?? parseYear(data.founded);
+    const tier = year !== null
+      ? [...rules.foundingYear.tiers].sort((a, b) => a.beforeYear - b.beforeYear).find(t => year < t.beforeYear)
+      : undefined;
+    indicators.push({
+      name: 'founding_year',
+      present: !!tier,
+      weight: tier ? Math.min(tier.weight, rules.foundingYear.weight) : 0,
+      description: tier
+        ? `Founded in ${year}, before ${tier.beforeYear}`
+        : year !== null ? `Founded in ${year}` : 'No founding year recorded'
+    });
+  }
 
-  if (heritageClass === 'National Cultural Treasures') {
+  // Rule 3: Architectural style
+  if (rules.architecturalStyle.enabled) {
+    const style = (data.historicalDetails?.architecturalStyle || data.architecturalStyle || '').trim();
+    const matched = style
+      ? rules.architecturalStyle.styles.find(s => style.toLowerCase().includes(s.toLowerCase()))
+      : undefined;
     indicators.push({
-      name: 'declared_nct',
-      present: true,
-      weight: 3,
-      description: 'Classified as National Cultural Treasure (NCT) - requires heritage review'
+      name: 'architectural_style',
+      present: !!matched,
+      weight: matched ? rules.architecturalStyle.weight : 0,
+      description: matched ? `${style} architecture` : style ? `${style} architecture (not a heritage style)` : 'No architectural style recorded'
     });
-    shouldRequireReview = true;
-    confidence = 'high';
-    recommendation = 'heritage_review';
-  } else if (heritageClass === 'Important Cultural Properties') {
+  }
+
+  // Rule 4: Religious classification
+  if (rules.religiousClassification.enabled) {
+    const classifications = [
+      ...(data.historicalDetails?.religiousClassifications || []),
+      data.historicalDetails?.religiousClassification,
+      data.religiousClassification,
+    ].filter((c): c is string => !!c);
+    const matched = classifications.filter(c =>
+      rules.religiousClassification.classifications.some(rc => rc.toLowerCase() === c.toLowerCase().replace(/_/g, ' '))
+    );
     indicators.push({
-      name: 'declared_icp',
-      present: true,
-      weight: 3,
-      description: 'Classified as Important Cultural Property (ICP) - requires heritage review'
+      name: 'religious_classification',
+      present: matched.length > 0,
+      weight: matched.length > 0 ? rules.religiousClassification.weight : 0,
+      description: matched.length > 0 ? `Religious classification: ${matched.join(', ')}` : 'No qualifying religious classification'
     });
-    shouldRequireReview = true;
-    confidence = 'high';
-    recommendation = 'heritage_review';
-  } else {
+  }
+
+  // Rule 5: Attached heritage declaration documents
+  if (rules.declarationDocuments.enabled) {
+    const hasDeclaration = !!data.heritageDeclaration
+      || (data.historicalDetails?.supportingDocuments || []).some(isDeclarationDocument)
+      || (data.documents || []).some(isDeclarationDocument);
+    indicators.push({
+      name: 'declaration_documents',
+      present: hasDeclaration,
+      weight: hasDeclaration ? rules.declarationDocuments.weight : 0,
+      description: hasDeclaration ? 'Heritage declaration documents attached' : 'No heritage declaration documents'
+    });
+  }
+
+  // Rule 6: Recorded restoration or preservation history
+  if (rules.restorationHistory.enabled) {
+    const history = `${data.restorationHistory || ''} ${data.preservationHistory || ''}`.trim();
+    const hasHistory = history.length >= rules.restorationHistory.minLength;
     indicators.push({
-      name: 'no_heritage_classification',
-      present: false,
-      weight: 0,
-      description: 'No ICP or NCT classification - standard approval process'
+      name: 'restoration_history',
+      present: hasHistory,
+      weight: hasHistory ? rules.restorationHistory.weight : 0,
+      description: hasHistory ? 'Restoration or preservation history recorded' : 'No restoration history recorded'
     });
-    shouldRequireReview = false;
-    confidence = 'low';
-    recommendation = 'auto_approve';
   }
 
-  const reasoning = generateReasoning(indicators, confidence);
+  const score = indicators.filter(i => i.present).reduce((sum, i) => sum + i.weight, 0);
+  const isDeclared = indicators.some(i => i.present && (i.name === 'declared_nct' || i.name === 'declared_icp'));
+
+  let recommendation: HeritageAssessment['recommendation'] = 'auto_approve';
+  let confidence: HeritageAssessment['confidence'] = 'low';
+  if (isDeclared || score >= thresholds.heritageReview) {
+    recommendation = 'heritage_review';
+    confidence = 'high';
+  } else if (score >= thresholds.detailedReview) {
+    recommendation = 'detailed_review';
+    confidence = 'medium';
+  }
 
   return {
-    shouldRequireReview,
+    shouldRequireReview: recommendation === 'heritage_review',
     confidence,
     indicators,
     recommendation,
-    reasoning
+    reasoning: generateReasoning(indicators, recommendation, score, ruleSet),
+    score,
+    rulesVersion: ruleSet.version
   };
 }
 
-function generateReasoning(indicators: HeritageIndicator[], confidence: string): string {
-  const presentIndicators = indicators.filter(i => i.present);
-
-  if (presentIndicators.length > 0 && confidence === 'high') {
-    const heritageType = presentIndicators[0]?.name === 'declared_nct' ? 'National Cultural Treasure (NCT)' : 'Important Cultural Property (ICP)';
+function generateReasoning(
+  indicators: HeritageIndicator[],
+  recommendation: HeritageAssessment['recommendation'],
+  score: number,
+  ruleSet: HeritageRuleSet
+): string {
+  const declared = indicators.find(i => i.present && (i.name === 'declared_nct' || i.name === 'declared_icp'));
+  if (declared) {
+    const heritageType = declared.name === 'declared_nct' ? 'National Cultural Treasure (NCT)' : 'Important Cultural Property (ICP)';
     return `Church is classified as ${heritageType}. Must be forwarded to Museum Staff for heritage validation.`;
-  } else {
-    return `No heritage classification (ICP or NCT) found. Standard Chancery approval process applies.`;
+  }
+
+  const matched = indicators.filter(i => i.present).map(i => i.description);
+  const summary = matched.length > 0 ? ` Indicators: ${matched.join('; ')}.` : '';
+
+  switch (recommendation) {
+    case 'heritage_review':
+      return `Heritage score ${score} meets the heritage review threshold (${ruleSet.thresholds.heritageReview}).${summary} Forward to Museum Staff for heritage validation.`;
+    case 'detailed_review':
+      return `Heritage score ${score} is borderline (review at ${ruleSet.thresholds.detailedReview}, museum at ${ruleSet.thresholds.heritageReview}).${summary} Review the historical details closely before approving.`;
+    default:
+      return `No heritage classification (ICP or NCT) and heritage score ${score} is below the review threshold. Standard Chancery approval process applies.`;
   }
 }
 
@@ -90,15 +216,15 @@ function generateReasoning(indicators: HeritageIndicator[], confidence: string):
  * Helper function specifically for the existing workflow
  * Returns true if church should be automatically sent to heritage review
  */
-export function shouldRequireHeritageReview(church: ChurchInfo | Church | Partial<ChurchInfo>): boolean {
-  const assessment = assessHeritageSignificance(church);
+export function shouldRequireHeritageReview(church: HeritageSource, ruleSet?: HeritageRuleSet): boolean {
+  const assessment = assessHeritageSignificance(church, ruleSet);
   return assessment.shouldRequireReview;
 }
 
 /**
  * Get user-friendly explanation for heritage assessment
  */
-export function getHeritageExplanation(church: ChurchInfo | Church | Partial<ChurchInfo>): string {
+export function getHeritageExplanation(church: HeritageSource): string {
   const assessment = assessHeritageSignificance(church);
   return assessment.reasoning;
 }
@@ -106,8 +232,6 @@ export function getHeritageExplanation(church: ChurchInfo | Church | Partial<Chu
 /**
  * Get detailed heritage assessment for admin review
  */
-export function getDetailedHeritageAssessment(
-  church: ChurchInfo | Church | Partial<ChurchInfo>
-): HeritageAssessment {
+export function getDetailedHeritageAssessment(church: HeritageSource): HeritageAssessment {
   return assessHeritageSignificance(church);
-}
\ No newline at end of file
+}
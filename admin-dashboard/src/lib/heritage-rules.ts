@@ -0,0 +1,196 @@
+/**
+ * FILE PURPOSE: Configurable Heritage Significance Rules
+ *
+ * Rules and weights used by assessHeritageSignificance() in
+ * lib/heritage-detection.ts. The Museum Researcher edits them from the
+ * dashboard; no deploy is needed.
+ *
+ * Every save creates a new immutable document in heritage_rules/{version}.
+ * The highest version is the active rule set, and each assessment records
+ * the version that produced it. Version 0 is the built-in default below.
+ */
+
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import type { UserProfile } from '@/contexts/AuthContext';
+import { AuditService, diffObjects } from '@/services/auditService';
+
+export interface HeritageRule {
+  enabled: boolean;
+  weight: number; // 1-3 scale, 3 being highest importance
+}
+
+export interface FoundingYearTier {
+  beforeYear: number; // Founded strictly before this year
+  weight: number;
+}
+
+export interface HeritageRuleSet {
+  version: number;
+  // Score needed to recommend each outcome (sum of matched rule weights)
+  thresholds: {
+    heritageReview: number;
+    detailedReview: number;
+  };
+  rules: {
+    declaredClassification: HeritageRule;                                  // ICP/NCT always requires heritage review
+    foundingYear: HeritageRule & { tiers: FoundingYearTier[] };            // Oldest matching tier wins
+    architecturalStyle: HeritageRule & { styles: string[] };              // Case-insensitive substring match
+    religiousClassification: HeritageRule & { classifications: string[] };
+    declarationDocuments: HeritageRule;                                    // Heritage declaration or heritage-doc uploads
+    restorationHistory: HeritageRule & { minLength: number };             // Recorded restoration/preservation history
+  };
+  note?: string;
+  createdAt?: Timestamp;
+  createdBy?: {
+    uid: string;
+    name?: string;
+  };
+}
+
+export const DEFAULT_HERITAGE_RULES: HeritageRuleSet = {
+  version: 0,
+  thresholds: {
+    heritageReview: 6,
+    detailedReview: 3,
+  },
+  rules: {
+    declaredClassification: { enabled: true, weight: 3 },
+    foundingYear: {
+      enabled: true,
+      weight: 3,
+      tiers: [
+        { beforeYear: 1800, weight: 3 }, // Spanish colonial era
+        { beforeYear: 1900, weight: 2 },
+        { beforeYear: 1946, weight: 1 }, // Pre-independence
+      ],
+    },
+    architecturalStyle: {
+      enabled: true,
+      weight: 2,
+      styles: ['baroque', 'romanesque', 'gothic', 'neoclassical', 'byzantine', 'spanish colonial'],
+    },
+    religiousClassification: {
+      enabled: true,
+      weight: 1,
+      classifications: ['Diocesan Shrine', 'Jubilee Church', 'Papal Basilica Affinity', 'Holy Door'],
+    },
+    declarationDocuments: { enabled: true, weight: 3 },
+    restorationHistory: { enabled: true, weight: 1, minLength: 20 },
+  },
+};
+
+const HERITAGE_RULES = 'heritage_rules';
+
+// Rule set used by synchronous callers until loadHeritageRules() resolves
+let activeRuleSet: HeritageRuleSet = DEFAULT_HERITAGE_RULES;
+
+export function getActiveHeritageRules(): HeritageRuleSet {
+  return activeRuleSet;
+}
+
+/**
+ * Load the latest rule set from Firestore and make it the active one.
+ * Falls back to the current rule set (initially the defaults) on error.
+ */
+export async function loadHeritageRules(): Promise<HeritageRuleSet> {
+  try {
+    const snapshot = await getDocs(query(collection(db, HERITAGE_RULES), orderBy('version', 'desc'), limit(1)));
+    if (!snapshot.empty) {
+      activeRuleSet = snapshot.docs[0].data() as HeritageRuleSet;
+    }
+  } catch (error) {
+    console.error('[HeritageRules] Failed to load rules, using cached rule set:', error);
+  }
+  return activeRuleSet;
+}
+
+/**
+ * Get a specific rule version (e.g. to explain an older assessment).
+ */
+export async function getHeritageRuleVersion(version: number): Promise<HeritageRuleSet | null> {
+  if (version === 0) return DEFAULT_HERITAGE_RULES;
+  const snapshot = await getDoc(doc(db, HERITAGE_RULES, String(version)));
+  return snapshot.exists() ? (snapshot.data() as HeritageRuleSet) : null;
+}
+
+/**
+ * Check a rule set before saving. Returns a list of problems.
+ */
+export function validateHeritageRules(ruleSet: HeritageRuleSet): string[] {
+  const errors: string[] = [];
+  const { thresholds, rules } = ruleSet;
+
+  if (thresholds.detailedReview < 1) {
+    errors.push('Detailed review threshold must be at least 1');
+  }
+  if (thresholds.heritageReview <= thresholds.detailedReview) {
+    errors.push('Heritage review threshold must be higher than the detailed review threshold');
+  }
+
+  Object.entries(rules).forEach(([name, rule]) => {
+    if (rule.weight < 1 || rule.weight > 3) {
+      errors.push(`Weight for ${name} must be between 1 and 3`);
+    }
+  });
+
+  if (rules.foundingYear.tiers.some(tier => tier.weight < 1 || tier.weight > 3 || !Number.isInteger(tier.beforeYear))) {
+    errors.push('Founding year tiers need a whole year and a weight between 1 and 3');
+  }
+
+  return errors;
+}
+
+/**
+ * Save an edited rule set as a new version (Museum Researcher only, enforced by rules).
+ */
+export async function saveHeritageRules(
+  ruleSet: HeritageRuleSet,
+  userProfile: UserProfile,
+  note?: string
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  try {
+    const errors = validateHeritageRules(ruleSet);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('. ') };
+    }
+
+    const previous = await loadHeritageRules();
+    const version = previous.version + 1;
+
+    const newRuleSet: HeritageRuleSet = {
+      version,
+      thresholds: ruleSet.thresholds,
+      rules: {
+        ...ruleSet.rules,
+        foundingYear: {
+          ...ruleSet.rules.foundingYear,
+          tiers: [...ruleSet.rules.foundingYear.tiers].sort((a, b) => a.beforeYear - b.beforeYear),
+        },
+      },
+      ...(note ? { note } : {}),
+      createdAt: serverTimestamp() as Timestamp,
+      createdBy: { uid: userProfile.uid, name: userProfile.name || userProfile.email },
+    };
+
+    await setDoc(doc(db, HERITAGE_RULES, String(version)), newRuleSet);
+    activeRuleSet = newRuleSet;
+
+    AuditService.logAction(userProfile, 'heritage.rules_update', 'system', `${HERITAGE_RULES}/${version}`, {
+      resourceName: `Heritage rules v${version}`,
+      changes: diffObjects(
+        { thresholds: previous.thresholds, ...previous.rules },
+        { thresholds: newRuleSet.thresholds, ...newRuleSet.rules }
+      ),
+      metadata: { previousVersion: previous.version, version, note },
+    }).catch(err => console.error('[HeritageRules] Audit log failed:', err));
+
+    return { success: true, version };
+  } catch (error) {
+    console.error('Error saving heritage rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
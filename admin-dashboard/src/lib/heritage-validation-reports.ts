@@ -0,0 +1,168 @@
+/**
+ * FILE PURPOSE: Heritage Validation Reports
+ *
+ * When a Museum Researcher validates a heritage church, the checklist they
+ * completed is saved as a structured report in
+ * churches/{churchId}/validation_reports. A report holds the checklist
+ * items, the evidence documents reviewed, the researcher's findings, their
+ * signature block and the decision.
+ *
+ * Reports are signed when created and never edited or deleted (enforced by
+ * Firestore rules). They are listed in the church history and can be
+ * exported as a PDF via PDFExportService.exportHeritageValidationReport().
+ */
+
+import { db } from '@/lib/firebase';
+import { addDoc, collection, getDocs, orderBy, query, serverTimestamp, Timestamp } from 'firebase/firestore';
+import type { UserProfile } from '@/contexts/AuthContext';
+import type { Church } from '@/lib/churches';
+import { AuditService } from '@/services/auditService';
+
+export type ValidationChecklistSection = 'security' | 'heritage';
+
+export interface ValidationChecklistItem {
+  id: string;
+  section: ValidationChecklistSection;
+  label: string;
+  checked: boolean;
+}
+
+export interface ValidationEvidence {
+  name: string;
+  url?: string;
+}
+
+export type ValidationDecision = 'validated' | 'not_validated';
+
+export interface HeritageValidationReport {
+  id?: string;
+  churchId: string;
+  churchName: string;
+  diocese?: string;
+  classification?: string;
+  checklist: ValidationChecklistItem[];
+  evidence: ValidationEvidence[];
+  findings: string;
+  decision: ValidationDecision;
+  signature: {
+    uid: string;
+    name: string;          // Name typed by the researcher when signing
+    position?: string;
+    email?: string;
+    statement: string;     // Attestation the researcher agreed to
+    signedAt: Timestamp;
+  };
+  heritageRulesVersion?: number; // Rule version of the church's latest heritage assessment
+  createdAt: Timestamp;
+}
+
+export type HeritageValidationReportInput = Pick<HeritageValidationReport, 'checklist' | 'evidence' | 'findings' | 'decision'> & {
+  signatureName: string;
+  signaturePosition?: string;
+};
+
+export const VALIDATION_SECTION_LABELS: Record<ValidationChecklistSection, string> = {
+  security: 'Security & Artifact Protection',
+  heritage: 'Historical & Heritage Accuracy',
+};
+
+// Items the Museum Researcher must verify before a heritage church is published
+export const HERITAGE_CHECKLIST_ITEMS: Omit<ValidationChecklistItem, 'checked'>[] = [
+  { id: 'noArtifactDetails', section: 'security', label: 'No specific descriptions of portable valuable artifacts (antique statues, gold items, relics)' },
+  { id: 'noSecurityInfo', section: 'security', label: 'No storage locations or security measure details disclosed' },
+  { id: 'noValuations', section: 'security', label: 'No monetary valuations or detailed inventory lists included' },
+  { id: 'historicalAccuracy', section: 'heritage', label: 'Historical information (founding year, events, figures) is accurate and verified' },
+  { id: 'heritageClassificationCorrect', section: 'heritage', label: 'Heritage classification is correctly documented with valid references' },
+  { id: 'architecturalInfoVerified', section: 'heritage', label: 'Architectural style and features are accurately described' },
+];
+
+export const SIGNATURE_STATEMENT =
+  'I certify that I personally reviewed this church profile and the evidence listed in this report, and that the findings above are accurate to the best of my knowledge.';
+
+const reportsCollection = (churchId: string) => collection(db, 'churches', churchId, 'validation_reports');
+
+/**
+ * Documents attached to a church that can be cited as evidence.
+ */
+export function getEvidenceCandidates(church: Church): ValidationEvidence[] {
+  return (church.documents || [])
+    .map((document, index) => (typeof document === 'string'
+      ? { name: `Document ${index + 1}`, url: document }
+      : { name: document.name || `Document ${index + 1}`, url: document.url }))
+    .filter(document => !!document.url);
+}
+
+/**
+ * Sign and save a validation report. Returns the new report ID.
+ */
+export async function createHeritageValidationReport(
+  church: Church,
+  input: HeritageValidationReportInput,
+  userProfile: UserProfile
+): Promise<{ success: boolean; reportId?: string; error?: string }> {
+  try {
+    if (userProfile.role !== 'museum_researcher') {
+      return { success: false, error: 'Only Museum Researchers can sign validation reports' };
+    }
+    if (!input.signatureName.trim()) {
+      return { success: false, error: 'A signature is required' };
+    }
+    if (input.decision === 'validated' && input.checklist.some(item => !item.checked)) {
+      return { success: false, error: 'All checklist items must be verified to validate the church' };
+    }
+
+    const now = serverTimestamp() as Timestamp;
+    const report: Omit<HeritageValidationReport, 'id'> = {
+      churchId: church.id,
+      churchName: church.name,
+      ...(church.diocese ? { diocese: church.diocese } : {}),
+      ...(church.classification ? { classification: church.classification } : {}),
+      checklist: input.checklist,
+      evidence: input.evidence,
+      findings: input.findings.trim(),
+      decision: input.decision,
+      signature: {
+        uid: userProfile.uid,
+        name: input.signatureName.trim(),
+        ...(input.signaturePosition?.trim() ? { position: input.signaturePosition.trim() } : {}),
+        ...(userProfile.email ? { email: userProfile.email } : {}),
+        statement: SIGNATURE_STATEMENT,
+        signedAt: now,
+      },
+      ...(church.heritageAssessment ? { heritageRulesVersion: church.heritageAssessment.rulesVersion } : {}),
+      createdAt: now,
+    };
+
+    const ref = await addDoc(reportsCollection(church.id), report);
+
+    AuditService.logAction(userProfile, 'heritage.validation_report', 'church', church.id, {
+      resourceName: church.name,
+      metadata: {
+        reportId: ref.id,
+        decision: input.decision,
+        diocese: church.diocese,
+        evidenceCount: input.evidence.length,
+      },
+    }).catch(err => console.error('[ValidationReports] Audit log failed:', err));
+
+    return { success: true, reportId: ref.id };
+  } catch (error) {
+    console.error('Error creating heritage validation report:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * All validation reports for a church, newest first.
+ */
+export async function getHeritageValidationReports(churchId: string): Promise<HeritageValidationReport[]> {
+  const snapshot = await getDocs(query(reportsCollection(churchId), orderBy('createdAt', 'desc')));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as HeritageValidationReport);
+}
+
+export function getValidationDecisionLabel(decision: ValidationDecision): string {
+  return decision === 'validated' ? 'Validated' : 'Not Validated';
+}
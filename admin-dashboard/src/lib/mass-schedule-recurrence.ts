@@ -0,0 +1,85 @@
+/**
+ * FILE PURPOSE: Recurrence-Based Mass Schedules (dashboard helpers)
+ *
+ * Expansion, conflict detection, RRULE conversion and the projection into the
+ * legacy weekly massSchedules array live in @shared/massScheduleRecurrence so
+ * the dashboard and the nightly reprojectMassSchedules Cloud Function always
+ * agree. This module re-exports them and adds what only the schedule editor
+ * needs:
+ * - Conversion between Date objects and "YYYY-MM-DD" keys
+ * - New rule, exception and addition IDs
+ * - Converting an existing legacy massSchedules array into rules
+ */
+
+import { format, parseISO } from 'date-fns';
+import {
+  MASS_WEEKDAYS,
+  WEEKDAY_NAMES,
+  type MassRecurrenceRule,
+  type MassScheduleRecurrence,
+  type MassWeekday,
+} from '@shared/massScheduleRecurrence';
+import type { MassSchedule } from '@/components/parish/types';
+
+export {
+  DEFAULT_MASS_DURATION_MINUTES,
+  EMPTY_MASS_SCHEDULE_RECURRENCE,
+  MASS_WEEKDAYS,
+  ORDINAL_LABELS,
+  WEEKDAY_NAMES,
+  describeRule,
+  expandMassSchedule,
+  findMassScheduleConflicts,
+  isRuleInSeason,
+  projectLegacyMassSchedules,
+  ruleOccursOn,
+  serializeMassScheduleRecurrence,
+  timeToMinutes,
+  toRRule,
+  type MassOccurrence,
+  type MassScheduleConflict,
+} from '@shared/massScheduleRecurrence';
+
+export const createScheduleEntryId = () => crypto.randomUUID();
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Parse a "YYYY-MM-DD" key as a local date (parseISO treats date-only strings as local).
+ */
+export const fromDateKey = (dateKey: string) => parseISO(dateKey);
+
+const LEGACY_DAY_GROUPS: Record<string, MassWeekday[]> = {
+  Daily: [...MASS_WEEKDAYS],
+  Weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'],
+  Weekends: ['SA', 'SU'],
+};
+
+/**
+ * Build weekly rules from a legacy massSchedules array, merging days that
+ * share the same time, end time, language and live-stream setting.
+ */
+export function recurrenceFromLegacySchedules(schedules: MassSchedule[]): MassScheduleRecurrence {
+  const rules = new Map<string, MassRecurrenceRule>();
+
+  schedules.forEach(schedule => {
+    const weekday = MASS_WEEKDAYS.find(d => WEEKDAY_NAMES[d] === schedule.day);
+    const days = weekday ? [weekday] : LEGACY_DAY_GROUPS[schedule.day];
+    if (!days || !schedule.time) return;
+
+    const key = `${schedule.time}|${schedule.endTime || ''}|${schedule.language || ''}|${schedule.isFbLive ? 1 : 0}`;
+    const rule: MassRecurrenceRule = rules.get(key) || {
+      id: createScheduleEntryId(),
+      frequency: 'weekly',
+      byDay: [],
+      time: schedule.time,
+      ...(schedule.endTime ? { endTime: schedule.endTime } : {}),
+      ...(schedule.language ? { language: schedule.language } : {}),
+      isFbLive: schedule.isFbLive || false,
+    };
+    rule.byDay = MASS_WEEKDAYS.filter(d => rule.byDay.includes(d) || days.includes(d));
+    rules.set(key, rule);
+  });
+
+  return { rules: [...rules.values()], exceptions: [], additions: [] };
+}
@@ -0,0 +1,56 @@
+/**
+ * FILE PURPOSE: Next Mass Near Me (Dashboard)
+ *
+ * Loads the diocese's approved churches in the shape expected by the shared
+ * findNextMasses() query (functions/src/shared/nextMassQuery.ts). The mobile
+ * app calls the nextMasses HTTP Cloud Function, which runs the same query
+ * over every approved church.
+ */
+
+import type { Diocese } from '@/contexts/AuthContext';
+import { getChurchesByDiocese, type Church } from '@/lib/churches';
+import type { NextMassChurch } from '@shared/nextMassQuery';
+
+export { findNextMasses, type NextMassQuery, type NextMassResult } from '@shared/nextMassQuery';
+
+export const toNextMassChurch = (church: Church): NextMassChurch => ({
+  id: church.id,
+  name: church.name || church.fullName || 'Church',
+  municipality: church.municipality,
+  diocese: church.diocese,
+  // Root-level coordinates (current) with nested coordinates as legacy fallback
+  latitude: church.latitude ?? church.coordinates?.latitude,
+  longitude: church.longitude ?? church.coordinates?.longitude,
+  massSchedules: church.massSchedules || [],
+});
+
+export async function getNextMassChurches(diocese: Diocese): Promise<NextMassChurch[]> {
+  const churches = await getChurchesByDiocese(diocese, ['approved']);
+  return churches.map(toNextMassChurch);
+}
+
+/**
+ * Average position of the churches in each municipality, used as a search
+ * origin when the chancery has no device location.
+ */
+export function getMunicipalityCenters(churches: NextMassChurch[]): { municipality: string; latitude: number; longitude: number }[] {
+  const groups = new Map<string, { latitude: number; longitude: number; count: number }>();
+  churches.forEach(church => {
+    if (!church.municipality || typeof church.latitude !== 'number' || typeof church.longitude !== 'number') return;
+    if (church.latitude === 0 && church.longitude === 0) return;
+    const group = groups.get(church.municipality) || { latitude: 0, longitude: 0, count: 0 };
+    groups.set(church.municipality, {
+      latitude: group.latitude + church.latitude,
+      longitude: group.longitude + church.longitude,
+      count: group.count + 1,
+    });
+  });
+
+  return [...groups.entries()]
+    .map(([municipality, group]) => ({
+      municipality,
+      latitude: group.latitude / group.count,
+      longitude: group.longitude / group.count,
+    }))
+    .sort((a, b) => a.municipality.localeCompare(b.municipality));
+}
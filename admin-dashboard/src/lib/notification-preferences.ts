@@ -0,0 +1,189 @@
+/**
+ * FILE PURPOSE: Notification Preference Editor Support
+ *
+ * Users choose, per notification type, whether it shows in the dashboard
+ * bell and whether it is emailed immediately, batched into a daily or weekly
+ * digest, or not emailed. Preferences are saved on the users document
+ * (notificationPreferences) where the deliverNotification and
+ * sendNotificationDigests Cloud Functions read them.
+ *
+ * Delivery rules live in @shared/notificationPreferences; this file lists the
+ * types each role receives and saves the preferences, together with the
+ * language emails are written in (emailLocale, see @shared/emailLocales).
+ */
+
+import { db } from '@/lib/firebase';
+import { doc, updateDoc } from 'firebase/firestore';
+import type { UserRole } from '@/contexts/AuthContext';
+import type { NotificationPriority, NotificationType } from '@/lib/notifications';
+import {
+  normalizeNotificationPreferences,
+  type NotificationPreferences,
+} from '@shared/notificationPreferences';
+import type { EmailLocale } from '@shared/emailLocales';
+
+export interface NotificationTypeOption {
+  type: NotificationType;
+  label: string;
+  description: string;
+  priority: NotificationPriority;   // Usual priority, which decides the default email delivery
+  roles: UserRole[];
+}
+
+export const NOTIFICATION_TYPE_OPTIONS: NotificationTypeOption[] = [
+  {
+    type: 'church_submitted',
+    label: 'New submissions',
+    description: 'A parish submitted a church profile for review',
+    priority: 'high',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'pending_update_submitted',
+    label: 'Submitted changes',
+    description: 'A parish proposed changes to a published church',
+    priority: 'medium',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'heritage_review_assigned',
+    label: 'Heritage reviews',
+    description: 'A church was forwarded for heritage validation',
+    priority: 'high',
+    roles: ['museum_researcher'],
+  },
+  {
+    type: 'heritage_validated',
+    label: 'Heritage validated',
+    description: 'Museum staff validated a heritage church',
+    priority: 'medium',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'review_assigned',
+    label: 'Assigned reviews',
+    description: 'A supervisor assigned a submission to you',
+    priority: 'high',
+    roles: ['chancery_office', 'museum_researcher'],
+  },
+  {
+    type: 'review_overdue',
+    label: 'Overdue reviews',
+    description: 'A submission passed the diocese review deadline',
+    priority: 'urgent',
+    roles: ['chancery_office', 'museum_researcher'],
+  },
+  {
+    type: 'feedback_flagged',
+    label: 'Flagged feedback',
+    description: 'Automatic moderation held back a visitor review, or visitors reported one until it was hidden',
+    priority: 'medium',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'feedback_appeal',
+    label: 'Feedback appeals',
+    description: 'A visitor asked for their hidden review to be reviewed again',
+    priority: 'medium',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'church_approved',
+    label: 'Church approved',
+    description: 'Your church profile was approved and published',
+    priority: 'medium',
+    roles: ['parish'],
+  },
+  {
+    type: 'revision_requested',
+    label: 'Revisions requested',
+    description: 'Reviewers asked for changes to your church profile',
+    priority: 'high',
+    roles: ['parish'],
+  },
+  {
+    type: 'church_unpublished',
+    label: 'Church unpublished',
+    description: 'The Chancery Office unpublished your church',
+    priority: 'high',
+    roles: ['parish'],
+  },
+  {
+    type: 'pending_update_reviewed',
+    label: 'Changes reviewed',
+    description: 'Your proposed changes were accepted or rejected',
+    priority: 'medium',
+    roles: ['parish'],
+  },
+  {
+    type: 'feedback_received',
+    label: 'Visitor feedback',
+    description: 'A visitor reviewed your church',
+    priority: 'medium',
+    roles: ['parish'],
+  },
+  {
+    type: 'account_pending_approval',
+    label: 'Staff registrations',
+    description: 'New parish staff are waiting for your approval',
+    priority: 'high',
+    roles: ['parish'],
+  },
+  {
+    type: 'account_approved',
+    label: 'Account approved',
+    description: 'Your account was activated',
+    priority: 'medium',
+    roles: ['parish'],
+  },
+  {
+    type: 'chancellor_pending_approval',
+    label: 'Chancellor registrations',
+    description: 'A new chancellor is waiting for your approval',
+    priority: 'high',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'museum_staff_pending_approval',
+    label: 'Museum staff registrations',
+    description: 'New museum staff are waiting for your approval',
+    priority: 'high',
+    roles: ['museum_researcher'],
+  },
+  {
+    type: 'workflow_error',
+    label: 'Workflow errors',
+    description: 'A review workflow step failed',
+    priority: 'high',
+    roles: ['chancery_office'],
+  },
+  {
+    type: 'system_notification',
+    label: 'System announcements',
+    description: 'General notices about the system',
+    priority: 'low',
+    roles: ['chancery_office', 'parish', 'museum_researcher'],
+  },
+];
+
+export const getNotificationTypeOptions = (role: UserRole): NotificationTypeOption[] =>
+  NOTIFICATION_TYPE_OPTIONS.filter(option => option.roles.includes(role));
+
+/**
+ * Save a user's notification preferences to their profile.
+ */
+export async function saveNotificationPreferences(
+  uid: string,
+  preferences: NotificationPreferences,
+  emailLocale: EmailLocale
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'users', uid), {
+      notificationPreferences: normalizeNotificationPreferences(preferences),
+      emailLocale,
+    });
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    throw new Error('Failed to save notification preferences');
+  }
+}
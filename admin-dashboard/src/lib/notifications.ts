@@ -1,5 +1,5 @@
-import { db } from '@/lib/firebase';
-import { addDoc, collection, query, where, orderBy, getDocs, updateDoc, doc, serverTimestamp, Timestamp, limit, deleteDoc, writeBatch, arrayUnion } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { addDoc, collection, query, where, orderBy, getDocs, updateDoc, doc, serverTimestamp, Timestamp, limit, deleteDoc, writeBatch, getCountFromServer } from 'firebase/firestore';
 import type { ChurchStatus } from '@/lib/churches';
 import type { UserProfile, Diocese } from '@/contexts/AuthContext';
 
@@ -11,12 +11,17 @@ export type NotificationType =
   | 'church_approved'            // Church is now published → Parish
   | 'church_unpublished'         // Church was unpublished by Chancery → Parish
   | 'pending_update_submitted'   // Parish submitted changes to approved church → Chancery
+  | 'pending_update_reviewed'    // Chancery/Museum accepted or rejected staged field changes → Parish
+  | 'review_overdue'             // Submission exceeded the diocese review SLA → Chancery/Museum (sent by Cloud Function)
+  | 'review_assigned'            // Supervisor assigned a submission to a reviewer → Assigned reviewer
   | 'workflow_error'             // System error → Chancery
   | 'account_pending_approval'   // New parish staff registered → Current Parish Staff
   | 'chancellor_pending_approval' // New chancellor registered → Current Active Chancellor
   | 'museum_staff_pending_approval' // New museum staff registered → Current Active Museum Researcher
   | 'account_approved'           // Account activated → Parish Secretary
   | 'feedback_received'          // New visitor feedback → Parish Secretary
+  | 'feedback_flagged'           // Automatic moderation held back or hid feedback → Chancery (sent by Cloud Function)
+  | 'feedback_appeal'            // Visitor appealed their hidden feedback → Chancery (sent by Cloud Function)
   | 'system_notification';       // General system notification
 
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
@@ -45,8 +50,13 @@ export interface Notification {
     };
   };
   createdAt: Timestamp;
+  createdBy?: string;  // Creator's uid, or "system" for Cloud Functions; checked before delivery
+  // Per-user state on inbox copies (users/{uid}/inbox/{notificationId})
   isRead?: boolean;
-  readBy?: string[];
+  readAt?: Timestamp | null;
+  isArchived?: boolean;
+  archivedAt?: Timestamp | null;
+  readBy?: string[];  // Legacy shared read state, copied to isRead by the inbox migration
   expiresAt?: Timestamp;
   actionUrl?: string;
   metadata?: Record<string, unknown>;
@@ -216,9 +226,39 @@ const NOTIFICATION_TEMPLATES: NotificationTemplate[] = [
     recipientRules: {
       roles: ['chancery_office']
     }
+  },
+
+  // Reviewer decided on staged changes field by field → Parish
+  {
+    type: 'pending_update_reviewed',
+    titleTemplate: 'Update Reviewed: {churchName}',
+    messageTemplate: 'Your changes to "{churchName}" were reviewed: {acceptedCount} accepted, {rejectedCount} rejected.',
+    priority: 'medium',
+    recipientRules: {
+      roles: ['parish']
+    }
+  },
+
+  // Supervisor assigned a submission to a specific reviewer → Assignee
+  {
+    type: 'review_assigned',
+    titleTemplate: 'Review Assigned: {churchName}',
+    messageTemplate: '{assignedBy} assigned "{churchName}" to you for review.',
+    priority: 'high',
+    recipientRules: {
+      roles: ['chancery_office', 'museum_researcher']
+    }
   }
 ];
 
+/**
+ * Write a notification as the signed-in user. The rules require createdBy to
+ * be the caller's uid, and deliverNotification only emails notifications
+ * whose creator has a verified staff role.
+ */
+const addNotification = (notification: Omit<Notification, 'id'>) =>
+  addDoc(collection(db, 'notifications'), { ...notification, createdBy: auth.currentUser?.uid });
+
 /**
  * Notification Service Class
  */
@@ -242,7 +282,7 @@ export class NotificationService {
    * - Chancery forwards to museum (under_review → heritage_review) → Museum gets "heritage_review_assigned"
    * - Museum validates (heritage_review → approved) → Chancery gets "heritage_validated", Parish gets "church_approved"
    * - Chancery approves non-heritage (under_review → approved) → Parish gets "church_approved"
-   * - Revision requested (→ pending) → Parish gets "revision_requested"
+   * - Revision requested (→ needs_revision, or legacy → pending) → Parish gets "revision_requested"
    */
   async notifyStatusChange(
     churchId: string,
@@ -286,6 +326,9 @@ export class NotificationService {
       } else if (toStatus === 'approved' && (fromStatus === 'under_review' || fromStatus === 'pending')) {
         // Chancery approved church (from pending or under_review) → Notify Parish
         notifications.push({ type: 'church_approved', roles: ['parish'] });
+      } else if (toStatus === 'needs_revision') {
+        // Chancery/Museum sent the submission back with per-field comments → Notify Parish
+        notifications.push({ type: 'revision_requested', roles: ['parish'] });
       } else if (toStatus === 'pending' && fromStatus !== 'draft' && !isParishSubmission) {
         // Revision requested (sent back to pending from approved/under_review) by Chancery/Museum → Notify Parish
         // Note: We exclude draft→pending since that's a submission, not a revision request
@@ -350,7 +393,7 @@ export class NotificationService {
         };
 
         // Save to Firestore
-        await addDoc(collection(db, 'notifications'), notification);
+        await addNotification(notification);
         console.log(`[Notifications] Created ${notif.type} notification for ${notif.roles.join(', ')}`);
       }
 
@@ -385,148 +428,61 @@ export class NotificationService {
         metadata: {}
       };
 
-      await addDoc(collection(db, 'notifications'), notification);
+      await addNotification(notification);
     } catch (error) {
       console.error('Error creating custom notification:', error);
     }
   }
 
   /**
-   * Get notifications for a specific user
+   * Get notifications for a specific user from their inbox
+   * (users/{uid}/inbox, written by the deliverNotification Cloud Function).
+   * Archived (cleared) notifications are left out.
    */
-    async getUserNotifications(
-      userProfile: UserProfile | null,
-      limitCount: number = 20,
-      unreadOnly: boolean = false
-    ): Promise<Notification[]> {
-      try {
-        if (!userProfile || !userProfile.uid) {
-          console.warn('Cannot fetch notifications: user profile is null or missing UID');
-          return [];
-        }
+  async getUserNotifications(
+    userProfile: UserProfile | null,
+    limitCount: number = 20,
+    unreadOnly: boolean = false
+  ): Promise<Notification[]> {
+    try {
+      if (!userProfile || !userProfile.uid) {
+        console.warn('Cannot fetch notifications: user profile is null or missing UID');
+        return [];
+      }
 
-        // Query notifications where user is direct recipient
-        const userIdQuery = query(
-          collection(db, 'notifications'),
-          where('recipients.userIds', 'array-contains', userProfile.uid),
-          orderBy('createdAt', 'desc'),
-          limit(limitCount)
-        );
-
-        // Query notifications where user matches role
-        // Note: We filter by diocese client-side because Firestore doesn't support
-        // multiple array-contains in a single query
-        const roleQuery = query(
-          collection(db, 'notifications'),
-          where('recipients.roles', 'array-contains', userProfile.role),
-          orderBy('createdAt', 'desc'),
-          limit(limitCount * 2) // Fetch more to account for diocese filtering
-        );
-
-        // Run both queries in parallel
-        const [userIdSnap, roleSnap] = await Promise.all([
-          getDocs(userIdQuery),
-          getDocs(roleQuery)
-        ]);
-
-        console.log(`[Notifications] Query results - UserID: ${userIdSnap.size}, Role (${userProfile.role}): ${roleSnap.size}`);
-        console.log(`[Notifications] User diocese: ${userProfile.diocese}`);
-
-        // Merge and deduplicate notifications
-        const notificationsMap = new Map<string, Notification>();
-        userIdSnap.docs.forEach(doc => {
-          const docData = doc.data();
-          console.log(`[Notifications] UserID doc:`, doc.id, docData);
-          if (typeof docData === 'object' && docData !== null) {
-            const data = { id: doc.id, ...docData } as Notification;
-            if (!unreadOnly || !(data.readBy?.includes(userProfile.uid))) {
-              notificationsMap.set(doc.id, data);
-            }
-          }
-        });
-        roleSnap.docs.forEach(doc => {
-          const docData = doc.data();
-          console.log(`[Notifications] Role doc:`, doc.id, 'dioceses:', docData.recipients?.dioceses);
-          if (typeof docData === 'object' && docData !== null) {
-            const data = { id: doc.id, ...docData } as Notification;
-            
-            // Filter by diocese client-side (since Firestore doesn't support multiple array-contains)
-            const dioceses = data.recipients?.dioceses;
-            const isDioceseMatch = !dioceses || dioceses.length === 0 || 
-                                   (userProfile.diocese && dioceses.includes(userProfile.diocese));
-            
-            console.log(`[Notifications] Diocese match check: dioceses=${JSON.stringify(dioceses)}, userDiocese=${userProfile.diocese}, match=${isDioceseMatch}`);
-            
-            // For parish users, filter notifications to only show their parish's notifications
-            const userParishId = userProfile.parishId || userProfile.parish;
-            const isParishUser = userProfile.role === 'parish';
-            
-            // Parish-specific notification types that should only show to the specific parish
-            // account_approved is included here so it's filtered out from roleQuery results
-            // (the target user still sees it via the userIdQuery which has no parish filter)
-            const parishSpecificTypes: NotificationType[] = [
-              'church_approved',
-              'church_unpublished', 
-              'revision_requested',
-              'heritage_review_assigned',
-              'heritage_validated',
-              'account_pending_approval',
-              'account_approved',
-              'feedback_received'
-            ];
-            
-            // Determine if this notification should be filtered by parish
-            const isParishSpecificNotification = parishSpecificTypes.includes(data.type);
-            
-            // Get the parish/church ID from either recipients.parishId or relatedData.churchId
-            const notificationParishId = data.recipients?.parishId || data.relatedData?.churchId;
-            
-            // Parish filtering logic for parish users:
-            // - For parish-specific notification types, MUST match user's parish (via recipients.parishId or relatedData.churchId)
-            // - For general notifications (system_notification, etc.), show to all
-            // - Non-parish roles see all notifications for their role/diocese
-            let isParishMatch = true;
-            if (isParishUser && isParishSpecificNotification) {
-              // Parish secretary viewing a parish-specific notification - must match their parish
-              isParishMatch = notificationParishId === userParishId;
-            }
-            
-            if (isDioceseMatch && isParishMatch && (!unreadOnly || !(data.readBy?.includes(userProfile.uid)))) {
-              notificationsMap.set(doc.id, data);
-            }
-          }
-        });
-
-        // Sort by createdAt descending
-        const notifications = Array.from(notificationsMap.values()).sort((a, b) => {
-          if (!a.createdAt || !b.createdAt) return 0;
-          return b.createdAt.toMillis() - a.createdAt.toMillis();
-        });
-
-        return notifications.slice(0, limitCount);
-      } catch (error: unknown) {
-        const firebaseError = error as { code?: string; message?: string };
-        if (firebaseError?.code === 'permission-denied') {
-          console.error('[Notifications] Permission denied fetching notifications. Check Firestore rules for the notifications collection.', firebaseError.message);
-          return [];
-        }
-        if (firebaseError?.code === 'failed-precondition') {
-          console.error('[Notifications] Missing Firestore composite index for notifications query. Deploy indexes with: firebase deploy --only firestore:indexes', firebaseError.message);
-          return [];
-        }
-        console.error('[Notifications] Error fetching user notifications:', error);
+      const inboxQuery = query(
+        this.inbox(userProfile.uid),
+        where('isArchived', '==', false),
+        ...(unreadOnly ? [where('isRead', '==', false)] : []),
+        orderBy('createdAt', 'desc'),
+        limit(limitCount)
+      );
+
+      const snapshot = await getDocs(inboxQuery);
+      return snapshot.docs.map(inboxDoc => ({ id: inboxDoc.id, ...inboxDoc.data() }) as Notification);
+    } catch (error: unknown) {
+      const firebaseError = error as { code?: string; message?: string };
+      if (firebaseError?.code === 'permission-denied') {
+        console.error('[Notifications] Permission denied fetching notifications. Check Firestore rules for users/{uid}/inbox.', firebaseError.message);
+        return [];
+      }
+      if (firebaseError?.code === 'failed-precondition') {
+        console.error('[Notifications] Missing Firestore composite index for inbox query. Deploy indexes with: firebase deploy --only firestore:indexes', firebaseError.message);
         return [];
       }
+      console.error('[Notifications] Error fetching user notifications:', error);
+      return [];
     }
+  }
 
   /**
    * Mark notification as read
    */
   async markAsRead(notificationId: string, userId: string): Promise<void> {
     try {
-      const notificationRef = doc(db, 'notifications', notificationId);
-      await updateDoc(notificationRef, {
-        readBy: arrayUnion(userId)
+      await updateDoc(doc(this.inbox(userId), notificationId), {
+        isRead: true,
+        readAt: serverTimestamp()
       });
     } catch (error) {
       console.error('Error marking notification as read:', error);
@@ -538,14 +494,11 @@ export class NotificationService {
    */
   async markAllAsRead(userProfile: UserProfile): Promise<void> {
     try {
-      const notifications = await this.getUserNotifications(userProfile, 100, true);
-      const unreadNotifications = notifications.filter(n => !n.readBy?.includes(userProfile.uid));
-      
-      await Promise.all(
-        unreadNotifications.map(notification => 
-          this.markAsRead(notification.id!, userProfile.uid)
-        )
-      );
+      const unreadNotifications = await this.getUserNotifications(userProfile, 500, true);
+      await this.updateInbox(userProfile.uid, unreadNotifications, {
+        isRead: true,
+        readAt: serverTimestamp()
+      });
     } catch (error) {
       console.error('Error marking all notifications as read:', error);
       throw error;
@@ -560,8 +513,12 @@ export class NotificationService {
       if (!userProfile) {
         return 0;
       }
-      const notifications = await this.getUserNotifications(userProfile, 100, true);
-      return notifications.length;
+      const snapshot = await getCountFromServer(query(
+        this.inbox(userProfile.uid),
+        where('isArchived', '==', false),
+        where('isRead', '==', false)
+      ));
+      return snapshot.data().count;
     } catch (error) {
       console.error('Error getting unread count:', error);
       return 0;
@@ -569,41 +526,47 @@ export class NotificationService {
   }
 
   /**
-   * Clear all notifications visible to the current user.
-   * Chancery Office users can delete notifications from Firestore.
-   * Other roles mark all as read (Firestore rules only allow chancery to delete).
+   * Clear all notifications from the current user's bell. Inbox copies are
+   * archived (and marked read), so other recipients are not affected.
    */
   async clearAllNotifications(userProfile: UserProfile): Promise<void> {
     try {
       const notifications = await this.getUserNotifications(userProfile, 500, false);
       if (notifications.length === 0) return;
 
-      if (userProfile.role === 'chancery_office') {
-        // Chancery can delete notifications per Firestore rules
-        const batchSize = 500;
-        for (let i = 0; i < notifications.length; i += batchSize) {
-          const batch = writeBatch(db);
-          const chunk = notifications.slice(i, i + batchSize);
-          for (const notification of chunk) {
-            if (notification.id) {
-              batch.delete(doc(db, 'notifications', notification.id));
-            }
-          }
-          await batch.commit();
-        }
-        console.log(`[NotificationService] Deleted ${notifications.length} notifications for chancery user ${userProfile.uid}`);
-      } else {
-        // Non-chancery users: mark all as read instead of deleting
-        // (Firestore rules only allow chancery_office to delete notifications)
-        await this.markAllAsRead(userProfile);
-        console.log(`[NotificationService] Marked ${notifications.length} notifications as read for user ${userProfile.uid}`);
-      }
+      await this.updateInbox(userProfile.uid, notifications, {
+        isArchived: true,
+        archivedAt: serverTimestamp(),
+        isRead: true
+      });
+      console.log(`[NotificationService] Archived ${notifications.length} notifications for user ${userProfile.uid}`);
     } catch (error) {
       console.error('[NotificationService] Error clearing notifications:', error);
       throw error;
     }
   }
 
+  private inbox(userId: string) {
+    return collection(db, 'users', userId, 'inbox');
+  }
+
+  private async updateInbox(
+    userId: string,
+    notifications: Notification[],
+    changes: Record<string, unknown>
+  ): Promise<void> {
+    const batchSize = 500;
+    for (let i = 0; i < notifications.length; i += batchSize) {
+      const batch = writeBatch(db);
+      notifications.slice(i, i + batchSize).forEach(notification => {
+        if (notification.id) {
+          batch.update(doc(this.inbox(userId), notification.id), changes);
+        }
+      });
+      await batch.commit();
+    }
+  }
+
   private processTemplate(template: string, data: Record<string, unknown>): string {
     return template.replace(/\{(\w+)\}/g, (match, key) => {
       const value = data[key];
@@ -643,41 +606,23 @@ export class NotificationService {
       church_approved: '/churches',          // Church list
       church_unpublished: '/parish',         // Parish dashboard for unpublished
       pending_update_submitted: '/chancery/dashboard?tab=updates', // Chancery updates tab
+      pending_update_reviewed: '/parish',    // Parish dashboard shows rejected fields
+      review_overdue: '/chancery/dashboard?tab=overdue', // Chancery overdue queue
+      review_assigned: '/chancery',          // Review queue shows the claim
       workflow_error: '/chancery',           // Chancery handles errors
       account_pending_approval: '/parish',   // Parish staff approves from their dashboard
       chancellor_pending_approval: '/chancery', // Current chancellor approves from their dashboard
       museum_staff_pending_approval: '/heritage', // Current museum researcher approves from their dashboard
       account_approved: '/parish',           // Parish dashboard for approved users
       feedback_received: '/parish',          // Parish feedback tab
+      feedback_flagged: '/feedback',         // Chancery feedback review queue
+      feedback_appeal: '/feedback',          // Chancery flags and appeals queue
       system_notification: '/'               // Home
     };
 
     const baseUrl = baseUrls[type] || '/';
     return churchId ? `${baseUrl}?church=${churchId}` : baseUrl;
   }
-
-  private isNotificationRelevantToUser(
-    notification: Notification,
-    userProfile: UserProfile
-  ): boolean {
-    const { recipients } = notification;
-
-    // Check direct user ID match
-    if (recipients.userIds?.includes(userProfile.uid)) {
-      return true;
-    }
-
-    // Check role match
-    if (recipients.roles?.includes(userProfile.role)) {
-      // Also check diocese match if specified
-      if (recipients.dioceses) {
-        return recipients.dioceses.includes(userProfile.diocese);
-      }
-      return true;
-    }
-
-    return false;
-  }
 }
 
 // Export singleton instance
@@ -752,7 +697,7 @@ export async function notifyPendingChangesSubmitted(
       },
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Created pending_update_submitted notification for chancery_office`);
   } catch (error) {
     console.error('Error creating pending update notification:', error);
@@ -760,6 +705,122 @@ export async function notifyPendingChangesSubmitted(
   }
 }
 
+/**
+ * Utility function to notify the parish after a field-level review of its pending changes.
+ * Rejected fields and their reasons are included in metadata so the parish can see
+ * exactly which edits were not published.
+ */
+export async function notifyPendingChangesReviewed(
+  churchId: string,
+  churchName: string,
+  diocese: Diocese,
+  acceptedFields: string[],
+  rejectedFields: { field: string; reason: string }[],
+  actionBy: UserProfile
+): Promise<void> {
+  try {
+    const template = notificationService['templates'].get('pending_update_reviewed');
+    if (!template) {
+      console.warn('No template found for pending_update_reviewed notification');
+      return;
+    }
+
+    const title = template.titleTemplate.replace('{churchName}', churchName);
+    const message = template.messageTemplate
+      .replace('{churchName}', churchName)
+      .replace('{acceptedCount}', String(acceptedFields.length))
+      .replace('{rejectedCount}', String(rejectedFields.length));
+
+    const notification: Omit<Notification, 'id'> = {
+      type: 'pending_update_reviewed',
+      priority: rejectedFields.length > 0 ? 'high' : template.priority,
+      title,
+      message,
+      recipients: {
+        roles: ['parish'],
+        dioceses: [diocese],
+        parishId: churchId
+      },
+      relatedData: {
+        churchId,
+        churchName,
+        actionBy: {
+          uid: actionBy.uid,
+          name: actionBy.name || actionBy.email,
+          role: actionBy.role,
+        },
+      },
+      createdAt: serverTimestamp() as Timestamp,
+      isRead: false,
+      readBy: [],
+      actionUrl: '/parish/dashboard',
+      metadata: {
+        acceptedFields,
+        rejectedFields,
+      },
+    };
+
+    await addNotification(notification);
+    console.log(`[Notifications] Created pending_update_reviewed notification for parish ${churchId}`);
+  } catch (error) {
+    console.error('Error creating pending update review notification:', error);
+    // Don't throw — notification failure should not block the review
+  }
+}
+
+/**
+ * Utility function to notify a reviewer that a supervisor assigned them a submission
+ */
+export async function notifyReviewAssigned(
+  churchId: string,
+  churchName: string,
+  status: ChurchStatus,
+  assigneeId: string,
+  assignedBy: UserProfile
+): Promise<void> {
+  try {
+    const template = notificationService['templates'].get('review_assigned');
+    if (!template) {
+      console.warn('No template found for review_assigned notification');
+      return;
+    }
+
+    const assignedByName = assignedBy.name || assignedBy.email;
+    const notification: Omit<Notification, 'id'> = {
+      type: 'review_assigned',
+      priority: template.priority,
+      title: template.titleTemplate.replace('{churchName}', churchName),
+      message: template.messageTemplate
+        .replace('{assignedBy}', assignedByName)
+        .replace('{churchName}', churchName),
+      recipients: {
+        userIds: [assigneeId]
+      },
+      relatedData: {
+        churchId,
+        churchName,
+        fromStatus: status,
+        toStatus: status,
+        actionBy: {
+          uid: assignedBy.uid,
+          name: assignedByName,
+          role: assignedBy.role,
+        },
+      },
+      createdAt: serverTimestamp() as Timestamp,
+      isRead: false,
+      readBy: [],
+      actionUrl: status === 'heritage_review' ? '/heritage' : '/chancery',
+    };
+
+    await addNotification(notification);
+    console.log(`[Notifications] Created review_assigned notification for ${assigneeId}`);
+  } catch (error) {
+    console.error('Error creating review assignment notification:', error);
+    // Don't throw — notification failure should not block the assignment
+  }
+}
+
 /**
  * Utility function to notify parish secretary when their church is unpublished
  * Also sends a confirmation notification to the Chancery Office
@@ -814,7 +875,7 @@ export async function notifyChurchUnpublished(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), parishNotification);
+    await addNotification(parishNotification);
     console.log(`[Notifications] Church unpublished notification sent to parish for: ${churchName}`);
 
     // 2. Create confirmation notification for Chancery Office
@@ -848,7 +909,7 @@ export async function notifyChurchUnpublished(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), chanceryNotification);
+    await addNotification(chanceryNotification);
     console.log(`[Notifications] Church unpublished confirmation sent to chancery for: ${churchName}`);
   } catch (error) {
     console.error('Error sending unpublish notification:', error);
@@ -916,7 +977,7 @@ export async function notifyAccountPendingApproval(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Parish staff pending approval notification sent to current parish user for: ${staffData.name}`);
   } catch (error) {
     console.error('Error sending account pending notification:', error);
@@ -972,7 +1033,7 @@ export async function notifyChancellorPendingApproval(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Chancellor pending approval notification sent for: ${chancellorData.name}`);
   } catch (error) {
     console.error('Error sending chancellor pending notification:', error);
@@ -1024,7 +1085,7 @@ export async function notifyMuseumStaffPendingApproval(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Museum staff pending approval notification sent for: ${staffData.name}`);
   } catch (error) {
     console.error('Error sending museum staff pending notification:', error);
@@ -1077,7 +1138,7 @@ export async function notifyAccountApproved(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Account approved notification sent to: ${approvedUser.email}`);
   } catch (error) {
     console.error('Error sending account approved notification:', error);
@@ -1125,7 +1186,7 @@ export async function notifyFeedbackReceived(
       }
     };
 
-    await addDoc(collection(db, 'notifications'), notification);
+    await addNotification(notification);
     console.log(`[Notifications] Feedback received notification sent for church: ${feedbackData.churchName}`);
   } catch (error) {
     console.error('Error sending feedback notification:', error);
@@ -443,7 +443,7 @@ export const useMarkAllNotificationsAsRead = () => {
 };
 
 /**
- * useClearAllNotifications - Mutation for deleting all notifications
+ * useClearAllNotifications - Mutation for clearing (archiving) all inbox notifications
  */
 export const useClearAllNotifications = () => {
   const queryClient = useQueryClient();
@@ -74,15 +74,6 @@ export interface ParishUpload {
   };
 }
 
-export interface FeedbackResponse {
-  id?: string;
-  feedbackId: string;
-  parishId: string;
-  response: string;
-  respondedBy: string;
-  respondedAt?: Date | Timestamp;
-}
-
 export interface ChurchProfile {
   id?: string;
   parishId: string;
@@ -365,7 +356,7 @@ export const getParishUploads = async (parishId: string): Promise<ParishUpload[]
   }
 };
 
-// Feedback Management
+// Feedback Management (official replies live in ./feedback-replies)
 export const getChurchFeedback = async (churchId: string): Promise<Record<string, unknown>[]> => {
   try {
     const q = query(
@@ -384,33 +375,6 @@ export const getChurchFeedback = async (churchId: string): Promise<Record<string
   }
 };
 
-export const respondToFeedback = async (
-  feedbackId: string,
-  parishId: string,
-  response: string,
-  respondedBy: string
-): Promise<void> => {
-  try {
-    // Create response record
-    await addDoc(collection(db, 'feedback_responses'), {
-      feedbackId,
-      parishId,
-      response,
-      respondedBy,
-      respondedAt: serverTimestamp()
-    });
-    
-    // Update feedback status
-    await updateDoc(doc(db, 'feedback', feedbackId), {
-      status: 'responded',
-      lastResponseAt: serverTimestamp()
-    });
-  } catch (error) {
-    console.error('Error responding to feedback:', error);
-    throw error;
-  }
-};
-
 export const moderateFeedback = async (
   feedbackId: string,
   action: 'approve' | 'hide' | 'flag',
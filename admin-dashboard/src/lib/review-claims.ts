@@ -0,0 +1,296 @@
+/**
+ * FILE PURPOSE: Reviewer Claims and Assignment
+ *
+ * Several reviewers work the same review queue. A reviewer claims a
+ * submission before reviewing it so others can see it is taken. The claim is
+ * stored on the church document (reviewClaim) with the reviewer and an expiry.
+ *
+ * WORKFLOW:
+ * 1. Reviewer claims a 'pending' or 'heritage_review' church (claimChurchReview)
+ * 2. Other reviewers see "Claimed by ..." in ChanceryReviewList
+ * 3. ChurchWorkflowStateMachine blocks status changes by other reviewers
+ *    while the claim is active
+ * 4. The Chancery Office (supervisor) can assign a submission to a specific
+ *    reviewer, replacing any existing claim (assignChurchReview)
+ * 5. A claim stops applying when it expires, when the church leaves the
+ *    claimed status, or when it is released. The releaseReviewClaims Cloud
+ *    Functions clear expired claims and claims held by archived accounts.
+ */
+
+import { db } from '@/lib/firebase';
+import { collection, deleteField, doc, getDocs, query, runTransaction, Timestamp, where } from 'firebase/firestore';
+import type { Diocese, UserProfile } from '@/contexts/AuthContext';
+import type { Church, ChurchStatus } from '@/lib/churches';
+import { AuditService, createFieldChange } from '@/services/auditService';
+import { notifyReviewAssigned } from '@/lib/notifications';
+
+export interface ReviewClaim {
+  reviewerId: string;
+  reviewerName: string;
+  reviewerEmail?: string;
+  reviewerRole: string;
+  status: ChurchStatus;          // Review stage the claim applies to
+  claimedAt: Timestamp;
+  expiresAt: Timestamp;
+  assignedBy?: {                 // Set when a supervisor assigned the review
+    uid: string;
+    name?: string;
+  };
+}
+
+export interface AssignableReviewer {
+  uid: string;
+  name: string;
+  email?: string;
+  role: string;
+}
+
+// Self-claims are short so abandoned reviews free up the same day;
+// assignments by a supervisor last longer.
+export const CLAIM_DURATION_HOURS = 4;
+export const ASSIGNMENT_DURATION_HOURS = 72;
+
+// Roles that review submissions and can hold a claim
+export const REVIEWER_ROLES = ['chancery_office', 'museum_researcher'];
+
+// Statuses that can be claimed
+export const CLAIMABLE_STATUSES: ChurchStatus[] = ['pending', 'heritage_review'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Is the claim still in force for the church's current status?
+ */
+export function isClaimActive(
+  claim: ReviewClaim | undefined | null,
+  currentStatus: ChurchStatus,
+  now: Date = new Date()
+): claim is ReviewClaim {
+  if (!claim?.expiresAt) return false;
+  return claim.status === currentStatus && claim.expiresAt.toMillis() > now.getTime();
+}
+
+/**
+ * Returns the active claim held by someone other than the user, if any.
+ */
+export function getClaimConflict(
+  church: Pick<Church, 'status' | 'reviewClaim'>,
+  userProfile: Pick<UserProfile, 'uid'>,
+  now: Date = new Date()
+): ReviewClaim | null {
+  const claim = church.reviewClaim;
+  if (!isClaimActive(claim, church.status, now)) return null;
+  return claim.reviewerId === userProfile.uid ? null : claim;
+}
+
+/**
+ * Supervisors (the Chancery Office) can assign reviews and release
+ * anyone's claim.
+ */
+export function canAssignReviews(userProfile: Pick<UserProfile, 'role'> | null | undefined): boolean {
+  return userProfile?.role === 'chancery_office';
+}
+
+export function formatClaimHolder(claim: ReviewClaim): string {
+  return claim.reviewerName || claim.reviewerEmail || 'another reviewer';
+}
+
+function buildClaim(
+  reviewer: AssignableReviewer,
+  status: ChurchStatus,
+  hours: number,
+  assignedBy?: UserProfile
+): ReviewClaim {
+  const now = Date.now();
+  return {
+    reviewerId: reviewer.uid,
+    reviewerName: reviewer.name,
+    ...(reviewer.email ? { reviewerEmail: reviewer.email } : {}),
+    reviewerRole: reviewer.role,
+    status,
+    claimedAt: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + hours * HOUR_MS),
+    ...(assignedBy ? { assignedBy: { uid: assignedBy.uid, name: assignedBy.name || assignedBy.email } } : {}),
+  };
+}
+
+/**
+ * Claim a submission for review. Fails if another reviewer holds an active claim.
+ * Claiming again extends your own claim.
+ */
+export async function claimChurchReview(
+  churchId: string,
+  userProfile: UserProfile
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!REVIEWER_ROLES.includes(userProfile.role)) {
+      return { success: false, error: 'Only reviewers can claim submissions' };
+    }
+
+    const ref = doc(db, 'churches', churchId);
+    const church = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) {
+        throw new Error('Church not found');
+      }
+
+      const data = { id: snapshot.id, ...snapshot.data() } as Church;
+      if (!CLAIMABLE_STATUSES.includes(data.status)) {
+        throw new Error(`Churches in '${data.status}' status cannot be claimed`);
+      }
+
+      const conflict = getClaimConflict(data, userProfile);
+      if (conflict) {
+        throw new Error(`Already claimed by ${formatClaimHolder(conflict)}`);
+      }
+
+      const claim = buildClaim(
+        { uid: userProfile.uid, name: userProfile.name, email: userProfile.email, role: userProfile.role },
+        data.status,
+        CLAIM_DURATION_HOURS
+      );
+      transaction.update(ref, { reviewClaim: claim });
+      return data;
+    });
+
+    AuditService.logAction(userProfile, 'church.review_claim', 'church', churchId, {
+      resourceName: church.name,
+      metadata: { diocese: church.diocese, status: church.status, hours: CLAIM_DURATION_HOURS },
+    }).catch(err => console.error('[ReviewClaims] Audit log failed:', err));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error claiming church review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Release a claim. The holder can release their own claim; supervisors can
+ * release anyone's.
+ */
+export async function releaseChurchReview(
+  churchId: string,
+  userProfile: UserProfile
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const ref = doc(db, 'churches', churchId);
+    const { church, previous } = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) {
+        throw new Error('Church not found');
+      }
+
+      const data = { id: snapshot.id, ...snapshot.data() } as Church;
+      const claim = data.reviewClaim;
+      if (!claim) {
+        return { church: data, previous: null };
+      }
+
+      if (claim.reviewerId !== userProfile.uid && !canAssignReviews(userProfile)) {
+        throw new Error(`Only ${formatClaimHolder(claim)} or a supervisor can release this claim`);
+      }
+
+      transaction.update(ref, { reviewClaim: deleteField() });
+      return { church: data, previous: claim };
+    });
+
+    if (previous) {
+      AuditService.logAction(userProfile, 'church.review_release', 'church', churchId, {
+        resourceName: church.name,
+        changes: [createFieldChange('reviewClaim', previous.reviewerName, null)],
+        metadata: { diocese: church.diocese, releasedReviewerId: previous.reviewerId },
+      }).catch(err => console.error('[ReviewClaims] Audit log failed:', err));
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error releasing church review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Assign a submission to a reviewer (supervisors only). Replaces any existing
+ * claim and notifies the assignee.
+ */
+export async function assignChurchReview(
+  churchId: string,
+  reviewer: AssignableReviewer,
+  supervisor: UserProfile,
+  hours: number = ASSIGNMENT_DURATION_HOURS
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!canAssignReviews(supervisor)) {
+      return { success: false, error: 'Only the Chancery Office can assign reviews' };
+    }
+    if (!REVIEWER_ROLES.includes(reviewer.role)) {
+      return { success: false, error: 'Submissions can only be assigned to reviewers' };
+    }
+
+    const ref = doc(db, 'churches', churchId);
+    const { church, previous } = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) {
+        throw new Error('Church not found');
+      }
+
+      const data = { id: snapshot.id, ...snapshot.data() } as Church;
+      if (!CLAIMABLE_STATUSES.includes(data.status)) {
+        throw new Error(`Churches in '${data.status}' status cannot be assigned`);
+      }
+
+      transaction.update(ref, { reviewClaim: buildClaim(reviewer, data.status, hours, supervisor) });
+      return {
+        church: data,
+        previous: isClaimActive(data.reviewClaim, data.status) ? data.reviewClaim : null,
+      };
+    });
+
+    AuditService.logAction(supervisor, 'church.review_assign', 'church', churchId, {
+      resourceName: church.name,
+      changes: [createFieldChange('reviewClaim', previous?.reviewerName ?? null, reviewer.name)],
+      metadata: { diocese: church.diocese, status: church.status, assigneeId: reviewer.uid, hours },
+    }).catch(err => console.error('[ReviewClaims] Audit log failed:', err));
+
+    if (reviewer.uid !== supervisor.uid) {
+      await notifyReviewAssigned(churchId, church.name, church.status, reviewer.uid, supervisor);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error assigning church review:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Active reviewers in a diocese who can be assigned a submission.
+ */
+export async function getAssignableReviewers(diocese: Diocese): Promise<AssignableReviewer[]> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'users'),
+      where('diocese', '==', diocese),
+      where('role', 'in', REVIEWER_ROLES)
+    ));
+
+    return snapshot.docs
+      .map(d => ({ uid: d.id, ...d.data() }) as AssignableReviewer & { status?: string })
+      .filter(user => user.status === 'active')
+      .map(({ uid, name, email, role }) => ({ uid, name: name || email || uid, email, role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('[ReviewClaims] Failed to load reviewers:', error);
+    return [];
+  }
+}
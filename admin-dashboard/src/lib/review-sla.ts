@@ -0,0 +1,181 @@
+/**
+ * FILE PURPOSE: Review SLA Tracking
+ *
+ * Each diocese configures how long a submission may wait in each review stage
+ * (e.g. 7 days for Chancery review, 21 days for Museum heritage validation).
+ * The time a church entered its current stage is read from the
+ * StatusChangeAuditLog entries in churches/{churchId}/status_audit.
+ *
+ * WORKFLOW:
+ * 1. Chancery sets the diocese SLA in sla_settings/{diocese} (ReviewSlaConfig)
+ * 2. The chancery dashboard "Overdue" tab lists churches past their SLA
+ * 3. The escalateOverdueReviews Cloud Function runs daily with the same rules
+ *    and sends 'urgent' review_overdue notifications
+ */
+
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc, Timestamp } from 'firebase/firestore';
+import type { Diocese, UserProfile } from '@/contexts/AuthContext';
+import { getChurchesByDiocese, type Church, type ChurchStatus } from '@/lib/churches';
+import type { StatusChangeAuditLog } from '@/lib/workflow-state-machine';
+import { AuditService, createFieldChange } from '@/services/auditService';
+
+export interface ReviewSlaConfig {
+  chanceryReviewDays: number;   // Max days in 'pending'
+  museumValidationDays: number; // Max days in 'heritage_review'
+}
+
+export const DEFAULT_REVIEW_SLA: ReviewSlaConfig = {
+  chanceryReviewDays: 7,
+  museumValidationDays: 21,
+};
+
+// Statuses that have an SLA, mapped to the config key that defines it
+export const SLA_STATUSES: Partial<Record<ChurchStatus, keyof ReviewSlaConfig>> = {
+  pending: 'chanceryReviewDays',
+  heritage_review: 'museumValidationDays',
+};
+
+export interface OverdueChurch {
+  church: Church;
+  status: ChurchStatus;
+  enteredAt: Date;     // When the church entered its current status
+  dueAt: Date;
+  slaDays: number;
+  daysOverdue: number;
+}
+
+const SLA_SETTINGS = 'sla_settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the SLA for a diocese, falling back to DEFAULT_REVIEW_SLA.
+ */
+export async function getReviewSla(diocese: Diocese): Promise<ReviewSlaConfig> {
+  try {
+    const snapshot = await getDoc(doc(db, SLA_SETTINGS, diocese));
+    const data = snapshot.exists() ? snapshot.data() : {};
+    return {
+      chanceryReviewDays: Number(data.chanceryReviewDays) || DEFAULT_REVIEW_SLA.chanceryReviewDays,
+      museumValidationDays: Number(data.museumValidationDays) || DEFAULT_REVIEW_SLA.museumValidationDays,
+    };
+  } catch (error) {
+    console.error('[ReviewSla] Failed to load SLA settings, using defaults:', error);
+    return DEFAULT_REVIEW_SLA;
+  }
+}
+
+/**
+ * Save the SLA for a diocese (Chancery Office only, enforced by rules).
+ */
+export async function updateReviewSla(
+  diocese: Diocese,
+  config: ReviewSlaConfig,
+  userProfile: UserProfile
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (config.chanceryReviewDays < 1 || config.museumValidationDays < 1) {
+      return { success: false, error: 'SLA must be at least 1 day' };
+    }
+
+    const previous = await getReviewSla(diocese);
+
+    await setDoc(doc(db, SLA_SETTINGS, diocese), {
+      ...config,
+      updatedAt: Timestamp.now(),
+      updatedBy: userProfile.uid,
+    });
+
+    AuditService.logAction(userProfile, 'system.config_update', 'system', `${SLA_SETTINGS}/${diocese}`, {
+      resourceName: 'Review SLA',
+      changes: [
+        createFieldChange('chanceryReviewDays', previous.chanceryReviewDays, config.chanceryReviewDays),
+        createFieldChange('museumValidationDays', previous.museumValidationDays, config.museumValidationDays),
+      ],
+      metadata: { diocese },
+    }).catch(err => console.error('[ReviewSla] Audit log failed:', err));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating review SLA:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * When did the church enter its current status?
+ *
+ * Uses the most recent status_audit entry that moved the church into the
+ * status. Falls back to lastStatusChange / updatedAt for churches whose
+ * audit log predates the workflow state machine.
+ */
+export async function getStatusEnteredAt(church: Church): Promise<Date | null> {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'churches', church.id, 'status_audit'),
+      orderBy('timestamp', 'desc'),
+      limit(20)
+    ));
+
+    const entry = snapshot.docs
+      .map(d => d.data() as StatusChangeAuditLog)
+      .find(log => log.toStatus === church.status && log.fromStatus !== church.status);
+
+    if (entry?.timestamp) {
+      return entry.timestamp.toDate();
+    }
+  } catch (error) {
+    console.warn(`[ReviewSla] Could not read status_audit for ${church.id}:`, error);
+  }
+
+  const fallback = church.lastStatusChange || church.updatedAt || church.createdAt;
+  return fallback ? fallback.toDate() : null;
+}
+
+/**
+ * Compute the SLA state of a church that entered its status at enteredAt.
+ * Returns null when the status has no SLA or the church is not overdue.
+ */
+export function evaluateSla(
+  church: Church,
+  enteredAt: Date,
+  sla: ReviewSlaConfig,
+  now: Date = new Date()
+): OverdueChurch | null {
+  const key = SLA_STATUSES[church.status];
+  if (!key) return null;
+
+  const slaDays = sla[key];
+  const dueAt = new Date(enteredAt.getTime() + slaDays * DAY_MS);
+  if (now <= dueAt) return null;
+
+  return {
+    church,
+    status: church.status,
+    enteredAt,
+    dueAt,
+    slaDays,
+    daysOverdue: Math.floor((now.getTime() - dueAt.getTime()) / DAY_MS),
+  };
+}
+
+/**
+ * List the churches in a diocese that are past their review SLA,
+ * most overdue first.
+ */
+export async function getOverdueChurches(diocese: Diocese, sla?: ReviewSlaConfig): Promise<OverdueChurch[]> {
+  const config = sla || await getReviewSla(diocese);
+  const churches = await getChurchesByDiocese(diocese, Object.keys(SLA_STATUSES) as ChurchStatus[]);
+
+  const results = await Promise.all(churches.map(async church => {
+    const enteredAt = await getStatusEnteredAt(church);
+    return enteredAt ? evaluateSla(church, enteredAt, config) : null;
+  }));
+
+  return results
+    .filter((r): r is OverdueChurch => r !== null)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
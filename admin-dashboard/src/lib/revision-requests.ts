@@ -0,0 +1,118 @@
+/**
+ * FILE PURPOSE: Field Definitions for Structured Revision Requests
+ *
+ * When the Chancery Office or a Museum Researcher sends a submission back to
+ * the parish (status → needs_revision), each reviewer comment is attached to a
+ * specific field of the parish ChurchProfileForm. This module is the shared
+ * vocabulary for those field keys.
+ *
+ * WORKFLOW:
+ * 1. Reviewer flags fields in RequestRevisionDialog → RevisionComment[]
+ * 2. Parish form highlights the flagged fields and shows the comments
+ * 3. On each parish save/resubmission, getAddressedRevisionFields() compares
+ *    the form before and after editing to record which comments were addressed
+ */
+
+import type { ChurchInfo } from '@/components/parish/types';
+import type { RevisionComment, RevisionRequest } from '@/types/church';
+
+export type RevisionFieldTab = 'basic' | 'historical' | 'parish' | 'media';
+
+export interface RevisionFieldDefinition {
+  label: string;
+  tab: RevisionFieldTab;                    // ChurchProfileForm tab the field lives on
+  getValue: (info: ChurchInfo) => unknown;  // Used to detect whether the parish changed it
+}
+
+/**
+ * Fields a reviewer can attach comments to.
+ * Keys match the input ids used in ChurchProfileForm.
+ */
+export const REVISION_FIELDS: Record<string, RevisionFieldDefinition> = {
+  // Basic Info tab
+  parishName: { label: 'Parish Name', tab: 'basic', getValue: (i) => i.parishName || i.churchName },
+  streetAddress: { label: 'Street Address', tab: 'basic', getValue: (i) => i.locationDetails?.streetAddress },
+  barangay: { label: 'Barangay', tab: 'basic', getValue: (i) => i.locationDetails?.barangay },
+  municipality: { label: 'Municipality', tab: 'basic', getValue: (i) => i.locationDetails?.municipality },
+  coordinates: { label: 'Map Coordinates', tab: 'basic', getValue: (i) => i.coordinates },
+
+  // Historical tab
+  foundingYear: { label: 'Founding Year', tab: 'historical', getValue: (i) => i.historicalDetails?.foundingYear },
+  founders: { label: 'Founders', tab: 'historical', getValue: (i) => i.historicalDetails?.founders },
+  architecturalStyle: { label: 'Architectural Style', tab: 'historical', getValue: (i) => i.historicalDetails?.architecturalStyle },
+  heritageClassification: { label: 'Heritage Classification', tab: 'historical', getValue: (i) => i.historicalDetails?.heritageClassification },
+  historicalBackground: { label: 'Historical Background', tab: 'historical', getValue: (i) => i.historicalDetails?.historicalBackground },
+  architecturalFeatures: { label: 'Architectural Features', tab: 'historical', getValue: (i) => i.historicalDetails?.architecturalFeatures },
+  heritageInformation: { label: 'Heritage Information', tab: 'historical', getValue: (i) => i.historicalDetails?.heritageInformation },
+
+  // Parish Info tab
+  feastDay: { label: 'Feast Day', tab: 'parish', getValue: (i) => i.feastDay },
+  currentParishPriest: { label: 'Parish Priest', tab: 'parish', getValue: (i) => i.currentParishPriest },
+  massSchedules: { label: 'Mass Schedules', tab: 'parish', getValue: (i) => i.massSchedules },
+  contactInfo: { label: 'Contact Information', tab: 'parish', getValue: (i) => i.contactInfo },
+
+  // Media tab
+  photos: { label: 'Photos', tab: 'media', getValue: (i) => (i.photos || []).map(p => p.url) },
+  documents: { label: 'Documents', tab: 'media', getValue: (i) => (i.documents || []).map(d => d.url) },
+};
+
+/**
+ * Gets a human-readable label for a revision field key.
+ */
+export function getRevisionFieldLabel(field: string): string {
+  return REVISION_FIELDS[field]?.label || field;
+}
+
+/**
+ * Returns the reviewer comments attached to one field.
+ */
+export function getRevisionCommentsForField(
+  request: RevisionRequest | undefined | null,
+  field: string
+): RevisionComment[] {
+  if (!request?.comments) return [];
+  return request.comments.filter(c => c.field === field);
+}
+
+/**
+ * Determines which flagged fields the parish changed in this save.
+ *
+ * @param comments - Reviewer comments from the active revision request
+ * @param before - Church profile as last saved
+ * @param after - Church profile being resubmitted
+ * @returns Field keys whose comments count as addressed
+ */
+export function getAddressedRevisionFields(
+  comments: RevisionComment[],
+  before: ChurchInfo,
+  after: ChurchInfo
+): string[] {
+  const addressed = new Set<string>();
+
+  for (const { field } of comments) {
+    const definition = REVISION_FIELDS[field];
+    if (!definition) continue;
+
+    if (JSON.stringify(definition.getValue(before) ?? null) !== JSON.stringify(definition.getValue(after) ?? null)) {
+      addressed.add(field);
+    }
+  }
+
+  return Array.from(addressed);
+}
+
+/**
+ * Flags comments as addressed, keeping the original addressedAt of comments
+ * that were already addressed in an earlier save.
+ */
+export function markAddressedComments(
+  comments: RevisionComment[],
+  addressedFields: string[],
+  addressedAt: Date
+): RevisionComment[] {
+  return comments.map(c =>
+    addressedFields.includes(c.field)
+      ? { ...c, addressed: true, addressedAt: c.addressedAt || addressedAt }
+      : { ...c, addressed: false }
+  );
+}
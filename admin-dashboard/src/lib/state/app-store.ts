@@ -17,14 +17,11 @@ export interface User {
   preferences: UserPreferences;
 }
 
+// Notification delivery preferences are stored on the user profile
+// (UserProfile.notificationPreferences), where Cloud Functions can read them
 export interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   language: 'en' | 'fil';
-  notifications: {
-    email: boolean;
-    push: boolean;
-    sms: boolean;
-  };
   dashboard: {
     autoRefresh: boolean;
     refreshInterval: number;
@@ -138,11 +135,6 @@ export interface AppState {
 const defaultUserPreferences: UserPreferences = {
   theme: 'system',
   language: 'en',
-  notifications: {
-    email: true,
-    push: true,
-    sms: false,
-  },
   dashboard: {
     autoRefresh: true,
     refreshInterval: 30000,
@@ -155,6 +155,28 @@ export const createChurchSchema = churchSchema.omit({
 // Update church schema (for modifications)
 export const updateChurchSchema = churchSchema.partial();
 
+// Bulk import row schema (one spreadsheet row per church, imported as a draft)
+export const churchImportRowSchema = churchSchema
+  .pick({
+    name: true,
+    municipality: true,
+    address: true,
+    parish: true,
+    description: true,
+    foundingYear: true,
+    founders: true,
+    architecturalStyle: true,
+    heritageClassification: true,
+    contactInfo: true,
+    coordinates: true,
+  })
+  .partial({ address: true, parish: true, coordinates: true })
+  .extend({
+    historicalBackground: z.string().max(5000, 'Historical background is too long').optional(),
+    assignedPriest: z.string().max(100, 'Priest name is too long').optional(),
+    feastDay: z.string().max(100, 'Feast day is too long').optional(),
+  });
+
 // Church review schema (for chancery/museum reviewer actions)
 export const churchReviewSchema = z.object({
   status: z.enum(['approved', 'heritage_review']),
@@ -189,6 +211,7 @@ export const churchFilterSchema = z.object({
 export type Church = z.infer<typeof churchSchema>;
 export type CreateChurch = z.infer<typeof createChurchSchema>;
 export type UpdateChurch = z.infer<typeof updateChurchSchema>;
+export type ChurchImportRow = z.infer<typeof churchImportRowSchema>;
 export type ChurchReview = z.infer<typeof churchReviewSchema>;
 export type ChurchFilter = z.infer<typeof churchFilterSchema>;
 
@@ -11,6 +11,19 @@ export function isValidLongitude(value: unknown): boolean {
   return !Number.isNaN(n) && n >= -180 && n <= 180;
 }
 
+// Bounding box of Bohol province (mainland and nearby islands)
+export const BOHOL_BOUNDS = {
+  minLat: 9.4,
+  maxLat: 10.2,
+  minLng: 123.7,
+  maxLng: 124.7
+};
+
+export function isWithinBohol(latitude: number, longitude: number): boolean {
+  return latitude >= BOHOL_BOUNDS.minLat && latitude <= BOHOL_BOUNDS.maxLat &&
+    longitude >= BOHOL_BOUNDS.minLng && longitude <= BOHOL_BOUNDS.maxLng;
+}
+
 export function isNonEmptyMinMax(value: unknown, min = 1, max = 200): boolean {
   if (value === undefined || value === null || value === '') return true;
   const s = String(value);
@@ -4,8 +4,10 @@ import type { ChurchStatus } from '@/lib/churches';
 import type { UserProfile } from '@/contexts/AuthContext';
 import { db } from '@/lib/firebase';
 import { addDoc, collection, serverTimestamp, Timestamp, doc, updateDoc, getDoc, deleteField } from 'firebase/firestore';
-import type { Church, ChurchFormData } from '@/types/church';
-import { AuditService } from '@/services/auditService';
+import type { Church, ChurchFormData, PendingFieldDecision } from '@/types/church';
+import { AuditService, createFieldChange } from '@/services/auditService';
+import { notifyPendingChangesReviewed } from '@/lib/notifications';
+import { getClaimConflict, formatClaimHolder, REVIEWER_ROLES, type ReviewClaim } from '@/lib/review-claims';
 
 
 export type WorkflowTransition = {
@@ -130,10 +132,68 @@ const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
       // This prevents accidental re-evaluation of published churches
       return !!context.note;
     }
+  },
+
+
+  // When: Chancery finds problems in a pending submission
+  // Who: Chancery Office only
+  // Result: Church goes to NEEDS_REVISION and back to the parish for fixes
+  // REQUIRES: At least one per-field comment or a general note
+  {
+    from: 'pending',
+    to: 'needs_revision',
+    requiredRoles: ['chancery_office'],
+    description: 'Send back to parish with reviewer comments',
+    conditions: (context) => hasRevisionFeedback(context)
+  },
+
+
+  // When: Museum finds problems in the heritage information
+  // Who: Museum Researcher only
+  // Result: Church goes to NEEDS_REVISION and back to the parish for fixes
+  // REQUIRES: At least one per-field comment or a general note
+  {
+    from: 'heritage_review',
+    to: 'needs_revision',
+    requiredRoles: ['museum_researcher'],
+    description: 'Send back to parish with heritage review comments',
+    conditions: (context) => hasRevisionFeedback(context)
+  },
+
+
+  // When: A published church's content must be restored to an earlier version
+  // Who: Chancery Office only
+  // Result: Church stays APPROVED with the content of the chosen version
+  // REQUIRES: An explanation note and the version being restored
+  {
+    from: 'approved',
+    to: 'approved',
+    requiredRoles: ['chancery_office'],
+    description: 'Restore a previous approved version',
+    conditions: (context) =>
+      !!context.note && context.metadata?.action === 'rollback' && typeof context.metadata?.restoredVersion === 'number'
+  },
+
+
+  // When: Parish has fixed the flagged fields
+  // Who: Parish Secretary only
+  // Result: Church returns to PENDING for Chancery review
+  {
+    from: 'needs_revision',
+    to: 'pending',
+    requiredRoles: ['parish'],
+    description: 'Resubmit revised church profile for review'
   }
 ];
 
 
+// A revision request must tell the parish what to fix
+function hasRevisionFeedback(context: WorkflowContext): boolean {
+  const comments = context.metadata?.revisionComments as unknown[] | undefined;
+  return !!context.note || (Array.isArray(comments) && comments.length > 0);
+}
+
+
 export class ChurchWorkflowStateMachine {
  
   private transitions: Map<string, WorkflowTransition[]>;
@@ -235,13 +295,19 @@ export class ChurchWorkflowStateMachine {
         return { success: false, error: 'Transition not found' };
       }
 
-      // Step 3: Run pre-transition hook if defined
+      // Step 3: Block reviewers from acting on a submission another reviewer has claimed
+      const claimConflict = await this.checkReviewClaim(context);
+      if (claimConflict) {
+        return { success: false, error: claimConflict };
+      }
+
+      // Step 4: Run pre-transition hook if defined
       // (Could be used for sending notifications, etc.)
       if (transition.onTransition) {
         await transition.onTransition(context);
       }
 
-      // Step 4: Log the status change for audit trail
+      // Step 5: Log the status change for audit trail
       await this.logStatusChange(context);
 
       return { success: true };
@@ -277,6 +343,11 @@ export class ChurchWorkflowStateMachine {
         label: 'Published',
         color: 'green',
         description: 'Church profile is live and public'
+      },
+      needs_revision: {
+        label: 'Needs Revision',
+        color: 'red',
+        description: 'Returned to the parish for corrections'
       }
     };
 
@@ -326,12 +397,36 @@ export class ChurchWorkflowStateMachine {
     const actionLabels: Record<ChurchStatus, string> = {
       pending: 'Submit for Review',
       heritage_review: 'Send to Museum Staff',
-      approved: 'Approve & Publish'
+      approved: 'Approve & Publish',
+      needs_revision: 'Request Revision'
     };
 
     return actionLabels[transition.to] || transition.to;
   }
 
+  /**
+   * Returns an error message when another reviewer holds an active claim on
+   * the church. Parish actions and automated transitions are never blocked.
+   */
+  private async checkReviewClaim(context: WorkflowContext): Promise<string | null> {
+    if (!REVIEWER_ROLES.includes(context.userProfile.role) || context.metadata?.isAutomated) {
+      return null;
+    }
+
+    const churchSnap = await getDoc(doc(db, 'churches', context.churchId));
+    if (!churchSnap.exists()) {
+      return null;
+    }
+
+    const conflict = getClaimConflict(
+      { status: context.currentStatus, reviewClaim: churchSnap.data().reviewClaim as ReviewClaim | undefined },
+      context.userProfile
+    );
+    return conflict
+      ? `This submission is claimed by ${formatClaimHolder(conflict)} until ${conflict.expiresAt.toDate().toLocaleString()}`
+      : null;
+  }
+
   //audit logs
     private async logStatusChange(context: WorkflowContext): Promise<void> {
     try {
@@ -438,18 +533,7 @@ export async function applyPendingChanges(
     }
     
     // Apply each field from the pending changes
-    for (const [field, value] of Object.entries(dataToApply)) {
-      if (value !== undefined) {
-        // Handle coordinates specially - store at root level for mobile compatibility
-        if (field === 'coordinates' && value) {
-          const coords = value as { latitude: number; longitude: number };
-          updateData['latitude'] = coords.latitude;
-          updateData['longitude'] = coords.longitude;
-        } else {
-          updateData[field] = value;
-        }
-      }
-    }
+    mergePendingData(updateData, dataToApply);
     
     // Add review note if provided
     if (note) {
@@ -510,6 +594,203 @@ export async function applyPendingChanges(
 }
 
 
+/**
+ * Copy staged pendingChanges.data values onto a root-level church update.
+ * Coordinates are stored at root level (latitude/longitude) for mobile compatibility.
+ */
+function mergePendingData(updateData: Record<string, unknown>, data: Partial<ChurchFormData>): void {
+  for (const [field, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      if (field === 'coordinates' && value) {
+        const coords = value as { latitude: number; longitude: number };
+        updateData['latitude'] = coords.latitude;
+        updateData['longitude'] = coords.longitude;
+      } else {
+        updateData[field] = value;
+      }
+    }
+  }
+}
+
+
+/**
+ * Review pending changes field by field.
+ *
+ * Unlike applyPendingChanges (all or nothing), the reviewer accepts or rejects
+ * each entry of pendingChanges.changedFields separately. Accepted fields are
+ * merged into the live profile, rejected fields are discarded and reported back
+ * to the parish through pendingChangesReview and a notification.
+ *
+ * Flow:
+ * 1. Validate that every changed field has a decision and every rejection a reason
+ * 2. Merge accepted fields into the root church document
+ * 3. Clear pendingChanges and store the review outcome in pendingChangesReview
+ * 4. Log to churches/{churchId}/status_audit and one AuditService entry per decision
+ *
+ * @param churchId - The church document ID
+ * @param userProfile - The reviewer (Chancery Office or Museum Researcher)
+ * @param decisions - One decision per changed field
+ * @param note - Optional: general review note
+ * @returns Success/failure result with the accepted and rejected field lists
+ */
+export async function reviewPendingChangesByField(
+  churchId: string,
+  userProfile: UserProfile,
+  decisions: PendingFieldDecision[],
+  note?: string
+): Promise<{ success: boolean; error?: string; acceptedFields?: string[]; rejectedFields?: { field: string; reason: string }[] }> {
+  try {
+    if (userProfile.role !== 'chancery_office' && userProfile.role !== 'museum_researcher') {
+      return { success: false, error: 'Only Chancery Office or Museum Researcher can review pending changes' };
+    }
+
+    const churchRef = doc(db, 'churches', churchId);
+    const churchSnapshot = await getDoc(churchRef);
+
+    if (!churchSnapshot.exists()) {
+      return { success: false, error: 'Church not found' };
+    }
+
+    const church = churchSnapshot.data() as Church;
+
+    if (!church.hasPendingChanges || !church.pendingChanges) {
+      return { success: false, error: 'No pending changes to review' };
+    }
+
+    const { changedFields, data } = church.pendingChanges;
+    const decisionByField = new Map(decisions.map(d => [d.field, d]));
+
+    const missing = changedFields.filter(field => !decisionByField.has(field));
+    if (missing.length > 0) {
+      return { success: false, error: `Missing decision for: ${missing.join(', ')}` };
+    }
+
+    const unexplained = decisions.filter(d => d.decision === 'reject' && !d.reason?.trim());
+    if (unexplained.length > 0) {
+      return { success: false, error: `A reason is required for rejected field: ${unexplained[0].field}` };
+    }
+
+    const acceptedFields = changedFields.filter(field => decisionByField.get(field)?.decision === 'accept');
+    const rejectedFields = changedFields
+      .filter(field => decisionByField.get(field)?.decision === 'reject')
+      .map(field => ({ field, reason: decisionByField.get(field)!.reason!.trim() }));
+
+    const acceptedData: Partial<ChurchFormData> = {};
+    for (const field of acceptedFields) {
+      (acceptedData as Record<string, unknown>)[field] = (data as Record<string, unknown>)[field];
+    }
+
+    console.log(`[WorkflowStateMachine] Reviewing pending changes for church ${churchId}:`, {
+      acceptedFields,
+      rejectedFields: rejectedFields.map(r => r.field),
+      reviewedBy: userProfile.email,
+    });
+
+    const updateData: Record<string, unknown> = {
+      updatedAt: serverTimestamp(),
+      reviewedBy: userProfile.uid,
+      reviewedAt: serverTimestamp(),
+      hasPendingChanges: false,
+      pendingChanges: deleteField(),
+      pendingChangesReview: {
+        reviewedAt: serverTimestamp(),
+        reviewedBy: {
+          uid: userProfile.uid,
+          name: userProfile.name || userProfile.email,
+          role: userProfile.role,
+        },
+        acceptedFields,
+        rejectedFields,
+        ...(note ? { note } : {}),
+      },
+    };
+
+    if (acceptedFields.length > 0) {
+      updateData['approvedAt'] = serverTimestamp();
+      mergePendingData(updateData, acceptedData);
+    }
+
+    // If church was previously set to heritage_review (legacy), restore to approved
+    if (church.status === 'heritage_review') {
+      updateData['status'] = 'approved';
+    }
+
+    if (note) {
+      updateData['reviewNotes'] = note;
+    }
+
+    await updateDoc(churchRef, updateData);
+
+    const auditLog = {
+      churchId,
+      fromStatus: 'approved' as ChurchStatus, // Status doesn't change
+      toStatus: 'approved' as ChurchStatus,
+      changedBy: {
+        uid: userProfile.uid,
+        email: userProfile.email,
+        name: userProfile.name,
+        role: userProfile.role,
+      },
+      timestamp: serverTimestamp(),
+      note: note || `Reviewed pending changes: ${acceptedFields.length} accepted, ${rejectedFields.length} rejected`,
+      metadata: {
+        action: 'review_pending_changes_by_field',
+        acceptedFields,
+        rejectedFields,
+        originalSubmitter: church.pendingChanges.submittedBy,
+      },
+      isAutomated: false,
+      diocese: userProfile.diocese,
+    };
+
+    await addDoc(collection(db, 'churches', churchId, 'status_audit'), auditLog);
+
+    // One centralized audit entry per field decision
+    const parishId = church.parishId;
+    const sessionId = AuditService.generateSessionId();
+    const liveData = church as unknown as Record<string, unknown>;
+
+    for (const field of acceptedFields) {
+      AuditService.logAction(userProfile, 'church.pending_field_accept', 'church', churchId, {
+        resourceName: church.name,
+        changes: [createFieldChange(field, liveData[field], (data as Record<string, unknown>)[field])],
+        parishId,
+        sessionId,
+        metadata: { action: 'review_pending_changes_by_field', field },
+      }).catch(err => console.error('[WorkflowStateMachine] Centralized audit log failed:', err));
+    }
+
+    for (const { field, reason } of rejectedFields) {
+      AuditService.logAction(userProfile, 'church.pending_field_reject', 'church', churchId, {
+        resourceName: church.name,
+        parishId,
+        sessionId,
+        metadata: {
+          action: 'review_pending_changes_by_field',
+          field,
+          reason,
+          proposedValue: (data as Record<string, unknown>)[field],
+        },
+      }).catch(err => console.error('[WorkflowStateMachine] Centralized audit log failed:', err));
+    }
+
+    notifyPendingChangesReviewed(churchId, church.name, church.diocese, acceptedFields, rejectedFields, userProfile)
+      .catch(err => console.error('[WorkflowStateMachine] Review notification failed:', err));
+
+    console.log(`[WorkflowStateMachine] Field-level review complete for church ${churchId}`);
+
+    return { success: true, acceptedFields, rejectedFields };
+
+  } catch (error) {
+    console.error('Error reviewing pending changes:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+
 /**
  * Forward pending changes to Museum Researcher for heritage validation.
  * 
@@ -613,7 +894,8 @@ export function getStatusBadgeColor(status: ChurchStatus): string {
   const colors = {
     pending: 'bg-yellow-100 text-yellow-800 border-yellow-300',      // Yellow = waiting
     heritage_review: 'bg-orange-100 text-orange-800 border-orange-300', // Orange = in review
-    approved: 'bg-green-100 text-green-800 border-green-300'         // Green = published
+    approved: 'bg-green-100 text-green-800 border-green-300',        // Green = published
+    needs_revision: 'bg-red-100 text-red-800 border-red-300'         // Red = parish must fix
   };
 
   // Return matching color, or gray for unknown status
@@ -629,7 +911,8 @@ export function getStatusIcon(status: ChurchStatus): string {
   const icons = {
     pending: 'Clock',           // Clock = waiting
     heritage_review: 'Building2', // Building = museum review
-    approved: 'CheckCircle2'    // Checkmark = approved
+    approved: 'CheckCircle2',   // Checkmark = approved
+    needs_revision: 'FileEdit'  // Edit = back with the parish
   };
 
   return icons[status] || 'Circle';  // Default circle for unknown
@@ -16,6 +16,7 @@ import { db, auth, storage } from '@/lib/firebase';
 import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
 import imageCompression from 'browser-image-compression';
 import { ChurchService } from '@/services/churchService';
+import { NotificationPreferencesCard } from '@/components/NotificationPreferencesCard';
 
 const AccountSettings = () => {
   const { userProfile, user, refreshUserProfile } = useAuth();
@@ -1118,6 +1119,9 @@ const AccountSettings = () => {
             )}
           </CardContent>
         </Card>
+
+        {/* Notification Delivery Preferences */}
+        <NotificationPreferencesCard />
       </div>
     </Layout>
   );
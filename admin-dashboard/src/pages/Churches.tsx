@@ -20,6 +20,7 @@
  * 4. Church cards with key info and action buttons
  * 5. Summary statistics at bottom (total, approved, visitors, heritage count)
  * 6. Detail modal for viewing full church information
+ * 7. Bulk import of draft churches from a CSV/XLSX file (chancery only)
  *
  * CHURCH WORKFLOW ACTIONS:
  * ┌────────────────────┬─────────────────────────────────────────────────┐
@@ -79,7 +80,8 @@ import {
   Check,
   X,
   AlertCircle,
-  Eye
+  Eye,
+  FileSpreadsheet
 } from "lucide-react";
 import { useState, useMemo, useEffect } from "react";
 import heroImage from "@/assets/baclayon-church-hero.jpg";
@@ -89,6 +91,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
 import type { ChurchStatus, ChurchClassification, Church, ArchitecturalStyle, ReligiousClassification } from "@/types/church";
 import { ChurchDetailModal } from "@/components/ChurchDetailModal";
+import { BulkChurchImportDialog } from "@/components/chancery/BulkChurchImportDialog";
 import { ChurchInfo } from "@/components/parish/types";
 import { ChurchService } from "@/services/churchService";
 import { collection, query, where, getDocs, Timestamp } from "firebase/firestore";
@@ -118,6 +121,7 @@ const Churches = () => {
   const [unpublishTarget, setUnpublishTarget] = useState<Church | null>(null);
   const [unpublishReason, setUnpublishReason] = useState('');
   const [isUnpublishDialogOpen, setIsUnpublishDialogOpen] = useState(false);
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
 
   // Build filters
   const filters = useMemo(() => {
@@ -522,6 +526,12 @@ const Churches = () => {
                   <span className="sm:hidden">Add Church</span>
                 </Button>
               )}
+              {userProfile?.role === 'chancery_office' && (
+                <Button variant="outline" className="gap-2 w-full sm:w-auto" onClick={() => setIsBulkImportOpen(true)}>
+                  <FileSpreadsheet className="w-4 h-4" />
+                  Bulk Import
+                </Button>
+              )}
             </div>
 
             {/* Filters */}
@@ -535,6 +545,7 @@ const Churches = () => {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="pending">Pending Review</SelectItem>
                   <SelectItem value="heritage_review">Heritage Review</SelectItem>
+                  <SelectItem value="draft">Drafts</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -795,6 +806,13 @@ const Churches = () => {
         isMuseumResearcher={userProfile?.role === 'museum_researcher'}
       />
 
+      {userProfile?.role === 'chancery_office' && (
+        <BulkChurchImportDialog
+          diocese={userProfile.diocese}
+          isOpen={isBulkImportOpen}
+          onClose={() => setIsBulkImportOpen(false)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,38 @@
+/**
+ * =============================================================================
+ * EMAIL DELIVERY PAGE - Outgoing Email Status for the Chancery Office
+ * =============================================================================
+ *
+ * PURPOSE:
+ * Shows whether system emails (password resets, verifications, welcome
+ * emails, notifications and digests) were delivered, are waiting for a
+ * retry or the next day's sending limit, or failed for good.
+ *
+ * ACCESS CONTROL:
+ * - Only 'chancery_office' role can access this page (enforced by route guard
+ *   and by the getEmailOutbox Cloud Function)
+ *
+ * WRAPPED IN:
+ * - Layout component for consistent sidebar + header
+ */
+
+import { Layout } from '@/components/Layout';
+import { EmailOutboxViewer } from '@/components/EmailOutboxViewer';
+
+const EmailDelivery = () => {
+  return (
+    <Layout>
+      <div className="space-y-6 max-w-5xl mx-auto">
+        <div className="border-b border-gray-200 pb-4">
+          <h1 className="text-2xl font-bold text-gray-900">Email Delivery</h1>
+          <p className="text-gray-600 mt-1">
+            Track outgoing system email for your diocese
+          </p>
+        </div>
+        <EmailOutboxViewer />
+      </div>
+    </Layout>
+  );
+};
+
+export default EmailDelivery;
@@ -10,11 +10,19 @@
  * reviews.
  *
  * KEY FEATURES:
- * 1. Two-Tab Interface: Published vs Hidden feedback separation
+ * 1. Tabs: Pending (held by automatic moderation), Published and Hidden feedback
  * 2. Search: Find feedback by content, user, or church name
  * 3. Statistics: Total count, average rating, moderation summary
  * 4. Photo Support: View attached photos in feedback
  * 5. Moderation Audit: Track who moderated and when
+ * 6. Automatic Moderation: Pending feedback shows why it was held, with
+ *    flagged terms highlighted (clean feedback is published automatically
+ *    by the onFeedbackCreated Cloud Function)
+ * 7. Replies: Official reply thread in the details dialog, where the chancery
+ *    can reply and hide parish replies that should not be public
+ * 8. Flags & Appeals: Feedback flagged by visitors and parishes (hidden
+ *    automatically past the diocese threshold) and appeals from visitors
+ *    whose feedback is hidden (see lib/feedback-flags.ts)
  *
  * MODERATION WORKFLOW:
  * ┌─────────────────┐     Hide      ┌─────────────────┐
@@ -79,7 +87,8 @@ import {
   XCircle,
   Church,
   ChevronDown,
-  FolderOpen
+  FolderOpen,
+  Flag
 } from 'lucide-react';
 import {
   Accordion,
@@ -92,11 +101,21 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ui/use-toast';
 import { collection, query, where, orderBy, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { FeedbackService } from '@/services/feedbackService';
+import { FeedbackService, type FeedbackModeration } from '@/services/feedbackService';
+import { FeedbackModerationSummary } from '@/components/FeedbackModerationSummary';
+import { FeedbackReplyThread } from '@/components/FeedbackReplyThread';
+import { FeedbackFlagQueue } from '@/components/FeedbackFlagQueue';
+import {
+  subscribeToOpenFeedbackFlags,
+  subscribeToPendingFeedbackAppeals,
+  type FeedbackAppeal,
+  type FeedbackFlag
+} from '@/lib/feedback-flags';
 
 // Define feedback type with church name
 interface FeedbackItem {
   id: string;
+  churchId: string;
   churchName: string;
   userName: string;
   rating: number;
@@ -107,14 +126,19 @@ interface FeedbackItem {
   photos?: string[];
   moderatedAt?: string;
   moderatedBy?: string;
+  moderation?: FeedbackModeration;
+  flagCount?: number;
+  hiddenReason?: string;
 }
 
+type FeedbackTab = 'pending' | 'published' | 'hidden' | 'flags';
+
 const FeedbackReports = () => {
   const { userProfile, user } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [activeTab, setActiveTab] = useState<'pending' | 'published' | 'hidden'>('pending');
+  const [activeTab, setActiveTab] = useState<FeedbackTab>('pending');
   const [selectedFeedback, setSelectedFeedback] = useState<FeedbackItem | null>(null);
   const [showDetailsDialog, setShowDetailsDialog] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -122,6 +146,8 @@ const FeedbackReports = () => {
   const [feedbackData, setFeedbackData] = useState<FeedbackItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedChurch, setSelectedChurch] = useState<string>('all');
+  const [openFlags, setOpenFlags] = useState<FeedbackFlag[]>([]);
+  const [pendingAppeals, setPendingAppeals] = useState<FeedbackAppeal[]>([]);
 
   // Group feedback by church name
   const feedbackByChurch = useMemo(() => {
@@ -225,6 +251,7 @@ const FeedbackReports = () => {
 
           allFeedback.push({
             id: feedbackDoc.id,
+            churchId: actualChurchId,
             churchName: churchMap.get(actualChurchId) || churchIdOrName,
             userName,
             rating: data.rating || 5,
@@ -234,7 +261,12 @@ const FeedbackReports = () => {
             createdAt: data.date_submitted?.toDate?.()?.toISOString() || new Date().toISOString(),
             photos: Array.isArray(data.photos) ? data.photos : [],
             moderatedAt: data.moderatedAt?.toDate?.()?.toISOString(),
-            moderatedBy: data.moderatedBy // Will be resolved to name below
+            moderatedBy: data.moderatedBy, // Will be resolved to name below
+            moderation: data.moderation
+              ? { ...data.moderation, checkedAt: data.moderation.checkedAt?.toDate?.() }
+              : undefined,
+            flagCount: data.flagCount || 0,
+            hiddenReason: data.hiddenReason || undefined
           });
         }
 
@@ -308,6 +340,37 @@ const FeedbackReports = () => {
     fetchDioceseFeedback();
   }, [userProfile?.diocese, toast]);
 
+  // Live flag and appeal queues
+  useEffect(() => {
+    if (!userProfile?.diocese) return;
+    const unsubscribeFlags = subscribeToOpenFeedbackFlags(userProfile.diocese, setOpenFlags);
+    const unsubscribeAppeals = subscribeToPendingFeedbackAppeals(userProfile.diocese, setPendingAppeals);
+    return () => {
+      unsubscribeFlags();
+      unsubscribeAppeals();
+    };
+  }, [userProfile?.diocese]);
+
+  const flaggedFeedbackCount = useMemo(
+    () => new Set(openFlags.map(flag => flag.feedbackId)).size,
+    [openFlags]
+  );
+
+  const handleQueueStatusChange = (feedbackId: string, status: 'published' | 'hidden') => {
+    setFeedbackData(prev => prev.map(fb =>
+      fb.id === feedbackId
+        ? {
+            ...fb,
+            status,
+            flagCount: 0,
+            hiddenReason: status === 'hidden' ? 'moderator' : undefined,
+            moderatedAt: new Date().toISOString(),
+            moderatedBy: user?.email || 'Admin'
+          }
+        : fb
+    ));
+  };
+
   // Handle moderation actions (for published/hidden tabs)
   const handleModerationRequest = (feedbackId: string, action: 'hide' | 'publish', subject?: string) => {
     setPendingAction({id: feedbackId, action, subject});
@@ -377,7 +440,13 @@ const FeedbackReports = () => {
       // Update local state
       setFeedbackData(prev => prev.map(fb =>
         fb.id === pendingAction.id
-          ? { ...fb, status: newStatus, moderatedAt: new Date().toISOString(), moderatedBy: user.email || 'Admin' }
+          ? {
+              ...fb,
+              status: newStatus,
+              hiddenReason: newStatus === 'hidden' ? 'moderator' : undefined,
+              moderatedAt: new Date().toISOString(),
+              moderatedBy: user.email || 'Admin'
+            }
           : fb
       ));
 
@@ -504,8 +573,8 @@ const FeedbackReports = () => {
         ) : (
           <>
             {/* Tabs for Pending, Published, Hidden */}
-            <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'pending' | 'published' | 'hidden')} className="w-full">
-              <TabsList className="grid w-full max-w-xs sm:max-w-lg grid-cols-3">
+            <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as FeedbackTab)} className="w-full">
+              <TabsList className="grid w-full max-w-sm sm:max-w-2xl grid-cols-4">
                 <TabsTrigger value="pending" className="text-xs sm:text-sm flex items-center gap-1">
                   <Clock className="w-3 h-3 sm:w-4 sm:h-4" />
                   <span className="hidden sm:inline">Pending</span>
@@ -522,6 +591,15 @@ const FeedbackReports = () => {
                 <TabsTrigger value="hidden" className="text-xs sm:text-sm">
                   Hidden {stats.hiddenCount > 0 && `(${stats.hiddenCount})`}
                 </TabsTrigger>
+                <TabsTrigger value="flags" className="text-xs sm:text-sm flex items-center gap-1">
+                  <Flag className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span className="hidden sm:inline">Flags & Appeals</span>
+                  {flaggedFeedbackCount + pendingAppeals.length > 0 && (
+                    <Badge variant="destructive" className="ml-1 h-5 min-w-[20px] px-1 text-xs">
+                      {flaggedFeedbackCount + pendingAppeals.length}
+                    </Badge>
+                  )}
+                </TabsTrigger>
               </TabsList>
 
               {/* Pending Tab - Pre-Moderation Queue */}
@@ -658,7 +736,7 @@ const FeedbackReports = () => {
                                           {renderStars(feedback.rating)}
                                         </div>
                                       </div>
-                                      <p className="text-gray-600 mb-2 text-sm">{feedback.message}</p>
+                                      <FeedbackModerationSummary message={feedback.message} moderation={feedback.moderation} />
                                       <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
                                         <span>{new Date(feedback.createdAt).toLocaleDateString()}</span>
                                       </div>
@@ -830,6 +908,12 @@ const FeedbackReports = () => {
                                         <div className="flex gap-0.5">
                                           {renderStars(feedback.rating)}
                                         </div>
+                                        {!!feedback.flagCount && (
+                                          <Badge variant="outline" className="text-xs border-red-200 text-red-700">
+                                            <Flag className="w-3 h-3 mr-1" />
+                                            {feedback.flagCount} flag{feedback.flagCount !== 1 ? 's' : ''}
+                                          </Badge>
+                                        )}
                                       </div>
                                       <p className="text-gray-600 mb-2 line-clamp-2 text-xs sm:text-sm">{feedback.message}</p>
 
@@ -1014,7 +1098,7 @@ const FeedbackReports = () => {
                                           {renderStars(feedback.rating)}
                                         </div>
                                         <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800">
-                                          Hidden
+                                          {feedback.hiddenReason === 'flags' ? 'Hidden after flags' : 'Hidden'}
                                         </Badge>
                                       </div>
                                       <p className="text-gray-600 mb-2 line-clamp-2 text-xs sm:text-sm">{feedback.message}</p>
@@ -1044,7 +1128,11 @@ const FeedbackReports = () => {
                                         {feedback.moderatedAt && (
                                           <>
                                             <span>•</span>
-                                            <span>Hidden by {feedback.moderatedBy}</span>
+                                            <span>
+                                              {feedback.hiddenReason === 'flags'
+                                                ? `Hidden automatically after ${feedback.flagCount || 'several'} flags`
+                                                : `Hidden by ${feedback.moderatedBy}`}
+                                            </span>
                                           </>
                                         )}
                                       </div>
@@ -1083,6 +1171,16 @@ const FeedbackReports = () => {
                   )}
                 </div>
               </TabsContent>
+
+              {/* Flags & Appeals Tab */}
+              <TabsContent value="flags" className="mt-4 sm:mt-6">
+                <FeedbackFlagQueue
+                  flags={openFlags}
+                  appeals={pendingAppeals}
+                  feedback={feedbackData}
+                  onStatusChange={handleQueueStatusChange}
+                />
+              </TabsContent>
             </Tabs>
           </>
         )}
@@ -1155,6 +1253,10 @@ const FeedbackReports = () => {
                 )}
               </div>
 
+              <div className="border-t pt-3 sm:pt-4">
+                <FeedbackReplyThread feedbackId={selectedFeedback.id} churchId={selectedFeedback.churchId} />
+              </div>
+
               <div className="flex flex-col-reverse sm:flex-row gap-2 pt-3 sm:pt-4">
                 {selectedFeedback.status === 'published' && (
                   <Button
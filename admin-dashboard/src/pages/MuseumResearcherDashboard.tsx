@@ -18,12 +18,14 @@ import {
   Loader2,
   ArrowRight,
   FileEdit,
-  History
+  History,
+  Scale
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MuseumPendingUpdates } from '@/components/MuseumPendingUpdates';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { HeritageRulesEditor } from '@/components/HeritageRulesEditor';
 import {
   Dialog,
   DialogContent,
@@ -31,12 +33,15 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useAuth } from "@/contexts/AuthContext";
-import { getChurchesByDiocese, updateChurchStatusWithValidation, type Church, type ChurchStatus } from '@/lib/churches';
+import { getChurchesByDiocese, updateChurchStatusWithValidation, requestChurchRevision, type Church, type ChurchStatus } from '@/lib/churches';
 import { ChurchDetailModal } from '@/components/ChurchDetailModal';
 import { ChurchService } from '@/services/churchService';
 import { ChurchInfo } from '@/components/parish/types';
 import { notifyChurchStatusChange } from '@/lib/notifications';
 import { HeritageValidationChecklist } from '@/components/HeritageValidationChecklist';
+import { createHeritageValidationReport, type HeritageValidationReportInput } from '@/lib/heritage-validation-reports';
+import { RequestRevisionDialog } from '@/components/RequestRevisionDialog';
+import type { RevisionComment } from '@/types/church';
 
 
 
@@ -58,6 +63,9 @@ const MuseumResearcherDashboard = () => {
 
   const [churchToValidate, setChurchToValidate] = useState<Church | null>(null);
 
+  // Revision request dialog state
+  const [churchForRevision, setChurchForRevision] = useState<Church | null>(null);
+
   // Tab state
   const [activeTab, setActiveTab] = useState<string>('heritage');
 
@@ -316,11 +324,23 @@ const MuseumResearcherDashboard = () => {
   };
 
   // Called after validation checklist is confirmed
-  const handleValidateChurch = async (church: Church) => {
+  const handleValidateChurch = async (church: Church, report: HeritageValidationReportInput) => {
     if (!userProfile) return;
 
     setIsSubmitting(true);
     try {
+      // Keep a signed record of what was verified; the church is only
+      // approved once the report is saved
+      const reportResult = await createHeritageValidationReport(church, report, userProfile);
+      if (!reportResult.success) {
+        toast({
+          title: "Validation report not saved",
+          description: reportResult.error || "The church was not approved because the validation report could not be saved.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const result = await updateChurchStatusWithValidation(
         church.id,
         'approved',
@@ -366,6 +386,37 @@ const MuseumResearcherDashboard = () => {
     }
   };
 
+  // Called after the researcher flags fields in the revision dialog
+  const handleRequestRevision = async (church: Church, comments: RevisionComment[], note: string) => {
+    if (!userProfile) return;
+
+    const result = await requestChurchRevision(church.id, comments, userProfile, note || undefined);
+
+    if (result.success) {
+      toast({
+        title: "Revision Requested",
+        description: `${church.name} was sent back to the parish for corrections.`,
+      });
+
+      await notifyChurchStatusChange(
+        church.id,
+        church.name,
+        church.status,
+        'needs_revision',
+        userProfile,
+        note || undefined
+      );
+
+      await queryClient.invalidateQueries({ queryKey: ['churches'] });
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to request revision",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadgeColor = (status: ChurchStatus) => {
     const colors = {
       pending: 'bg-yellow-100 text-yellow-800 border-yellow-300',
@@ -468,7 +519,7 @@ const MuseumResearcherDashboard = () => {
 
         {/* Tabbed Content Area */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-2 lg:w-auto lg:inline-flex">
+          <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-flex">
             <TabsTrigger value="heritage" className="flex items-center gap-2">
               <BookOpen className="h-4 w-4" />
               <span className="hidden sm:inline">Heritage Review</span>
@@ -477,6 +528,10 @@ const MuseumResearcherDashboard = () => {
               <FileEdit className="h-4 w-4" />
               <span className="hidden sm:inline">Updates</span>
             </TabsTrigger>
+            <TabsTrigger value="rules" className="flex items-center gap-2">
+              <Scale className="h-4 w-4" />
+              <span className="hidden sm:inline">Heritage Rules</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Heritage Review Tab */}
@@ -529,13 +584,14 @@ const MuseumResearcherDashboard = () => {
                           <TooltipTrigger>
                             <div className="flex items-center text-xs text-slate-600">
                               <Clock className="w-3 h-3 mr-1" />
-                              1 action
+                              2 actions
                             </div>
                           </TooltipTrigger>
                           <TooltipContent>
                             <div className="text-xs">
                               <div className="font-medium">Available Actions:</div>
                               <div>• Validate and approve heritage church</div>
+                              <div>• Send back to parish for revision</div>
                             </div>
                           </TooltipContent>
                         </Tooltip>
@@ -563,6 +619,17 @@ const MuseumResearcherDashboard = () => {
                         <Edit className="w-4 h-4 mr-1" /> Edit
                       </Button>
 
+                      {/* Request Revision Button - send heritage details back to the parish */}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setChurchForRevision(church)}
+                        disabled={isSubmitting}
+                        className="text-red-700 border-red-300 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <FileEdit className="w-4 h-4 mr-1" /> Request Revision
+                      </Button>
+
                       {/* Approve & Publish Button - Opens validation checklist */}
                       <Button
                         variant="outline"
@@ -597,6 +664,13 @@ const MuseumResearcherDashboard = () => {
             </ErrorBoundary>
           </TabsContent>
 
+          {/* Heritage Rules Tab - scoring rules for heritage significance */}
+          <TabsContent value="rules" className="space-y-4">
+            <ErrorBoundary>
+              <HeritageRulesEditor />
+            </ErrorBoundary>
+          </TabsContent>
+
         </Tabs>
 
         {/* Recent Activity Widget */}
@@ -648,6 +722,15 @@ const MuseumResearcherDashboard = () => {
         onValidate={handleValidateChurch}
       />
 
+      {/* Revision Request Dialog */}
+      <RequestRevisionDialog
+        church={churchForRevision}
+        isOpen={!!churchForRevision}
+        onClose={() => setChurchForRevision(null)}
+        onSubmit={handleRequestRevision}
+        reviewerLabel="Museum Researcher"
+      />
+
       {/* Church Detail Modal */}
       <ChurchDetailModal
         church={selectedChurch}
@@ -16,6 +16,7 @@
  * │ Draft              │ Profile form for editing before submission      │
  * │ Pending            │ Overview with "Under Review" status banner      │
  * │ Heritage Review    │ Overview with "Heritage Review" status banner   │
+ * │ Needs Revision     │ Overview with reviewer comments to address      │
  * │ Approved           │ Full overview + all features unlocked           │
  * └────────────────────┴─────────────────────────────────────────────────┘
  *
@@ -106,8 +107,11 @@ import {
 import { ChurchService } from '@/services/churchService';
 import { notifyChurchStatusChange, notifyPendingChangesSubmitted } from '@/lib/notifications';
 import { getFieldLabel } from '@/lib/church-field-categories';
+import { getAddressedRevisionFields, getRevisionFieldLabel, markAddressedComments } from '@/lib/revision-requests';
+import { resubmitChurchAfterRevision } from '@/lib/churches';
 import type { ArchitecturalStyle, ChurchClassification, Church, ChurchDocument } from '@/types/church';
 import { db } from '@/lib/firebase';
+import { serializeMassScheduleRecurrence } from '@/lib/mass-schedule-recurrence';
 import { doc, updateDoc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { useQueryClient } from '@tanstack/react-query';
 import { useRef } from 'react';
@@ -335,6 +339,7 @@ const ParishDashboard = () => {
         language: schedule.language || 'Cebuano',
         isFbLive: schedule.isFbLive || false
       })),
+      massScheduleRules: church.massScheduleRules,
       contactInfo: {
         phone: church.contactInfo?.phone || '',
         email: church.contactInfo?.email || '',
@@ -543,6 +548,7 @@ const ParishDashboard = () => {
               'approved': 'Your church profile has been approved!',
               'heritage_review': 'Your church has been forwarded for heritage review.',
               'pending': 'Your church profile is now under review.',
+              'needs_revision': 'Reviewers requested changes to your church profile.',
               'draft': 'Your church profile is in draft status.'
             };
 
@@ -728,6 +734,7 @@ const ParishDashboard = () => {
       assistantPriests: (data.assistantPriests || []).filter((p: string) => p.trim() !== ''),
       feastDay: data.feastDay || '',
       massSchedules: convertMassSchedules(data.massSchedules || []),
+      massScheduleRules: data.massScheduleRules ? serializeMassScheduleRecurrence(data.massScheduleRules) : undefined,
       coordinates: convertCoordinates(data.coordinates),
       contactInfo: {
         phone: data.contactInfo?.phone || '',
@@ -780,6 +787,14 @@ const ParishDashboard = () => {
     };
   };
 
+  // Flagged fields addressed so far: those marked on earlier saves plus any changed in this one
+  const getAddressedFieldsForSave = (data: ChurchInfo): string[] => {
+    const request = existingChurch?.revisionRequest;
+    if (existingChurch?.status !== 'needs_revision' || !request) return [];
+    const previouslyAddressed = request.comments.filter(c => c.addressed).map(c => c.field);
+    return [...new Set([...previouslyAddressed, ...getAddressedRevisionFields(request.comments, churchInfo, data)])];
+  };
+
   // Form submission handlers - returns churchId for auto-save feature
   const handleProfileFormSave = async (data: ChurchInfo): Promise<string | void> => {
     if (!userProfile) {
@@ -830,9 +845,9 @@ const ParishDashboard = () => {
         console.log('📸 [SAVE DRAFT] data.photos (input):', data.photos);
         console.log('🔍 [SAVE DRAFT] existingChurch.status:', existingChurch.status);
         
-        // Preserve 'approved', 'pending', and 'heritage_review' statuses - don't revert to draft
+        // Preserve 'approved', 'pending', 'heritage_review' and 'needs_revision' statuses - don't revert to draft
         // Only use 'draft' if the church was already a draft
-        const preservedStatus = ['approved', 'pending', 'heritage_review'].includes(existingChurch.status) 
+        const preservedStatus = ['approved', 'pending', 'heritage_review', 'needs_revision'].includes(existingChurch.status) 
           ? existingChurch.status 
           : 'draft';
         
@@ -892,11 +907,16 @@ const ParishDashboard = () => {
         }
         
         // For non-approved churches, use direct update
+        // While in needs_revision, also record which flagged fields this save addressed
+        const revisionComments = existingChurch.status === 'needs_revision' && existingChurch.revisionRequest
+          ? markAddressedComments(existingChurch.revisionRequest.comments, getAddressedFieldsForSave(data), new Date())
+          : null;
         await updateDoc(docRef, {
           ...formData,
           status: preservedStatus,
           parishId: parishIdentifier,
-          updatedAt: serverTimestamp()
+          updatedAt: serverTimestamp(),
+          ...(revisionComments && { 'revisionRequest.comments': revisionComments })
         });
         
         setChurchInfo({ ...data, status: preservedStatus, id: existingChurch.id });
@@ -906,6 +926,7 @@ const ParishDashboard = () => {
           'approved': "Changes saved successfully!",
           'pending': "Changes saved! Your profile remains in the review queue.",
           'heritage_review': "Changes saved! Your profile remains in heritage review.",
+          'needs_revision': "Changes saved! Submit the profile when all requested revisions are done.",
           'draft': "Church profile saved as draft!"
         };
         toast({ 
@@ -1032,8 +1053,10 @@ const ParishDashboard = () => {
         await queryClient.invalidateQueries({ queryKey: ['churches'] });
       } else {
         // Update existing church in Firebase
-        // If church is draft, change to pending on submit
-        const newStatus = existingChurch.status === 'draft' ? 'pending' : existingChurch.status;
+        // If church is draft or needs revision, change to pending on submit
+        const newStatus = existingChurch.status === 'draft' || existingChurch.status === 'needs_revision'
+          ? 'pending'
+          : existingChurch.status;
         const parishIdForUpdate = userProfile.parishId || userProfile.parish;
         
         // Manually update status if transitioning from draft to pending
@@ -1060,6 +1083,35 @@ const ParishDashboard = () => {
           } catch (notifError) {
             console.error('[Parish] Failed to send notification:', notifError);
           }
+        } else if (existingChurch.status === 'needs_revision') {
+          // Save the revised profile, then move it back to the Chancery queue
+          // recording which reviewer comments were addressed
+          const addressedFields = getAddressedFieldsForSave(data);
+          await ChurchService.updateChurchWithStaging(
+            existingChurch.id,
+            formData,
+            userProfile.diocese,
+            userProfile.uid,
+            userProfile
+          );
+
+          const resubmitResult = await resubmitChurchAfterRevision(existingChurch.id, addressedFields, userProfile);
+          if (!resubmitResult.success) {
+            throw new Error(resubmitResult.error || 'Failed to resubmit church profile');
+          }
+
+          try {
+            await notifyChurchStatusChange(
+              existingChurch.id,
+              data.churchName || data.name || 'Church',
+              'needs_revision',
+              'pending', // Parish re-submission triggers church_submitted notification to Chancery
+              userProfile
+            );
+            console.log('[Parish] Notification sent to Chancery for revised church submission');
+          } catch (notifError) {
+            console.error('[Parish] Failed to send notification:', notifError);
+          }
         } else {
           // Use updateChurchWithStaging for all non-draft churches.
           // For approved churches, this splits fields into direct-publish vs staged-for-review
@@ -1155,6 +1207,13 @@ const ParishDashboard = () => {
             Heritage Review
           </Badge>
         );
+      case 'needs_revision':
+        return (
+          <Badge className="bg-red-50 text-red-700 border-red-200">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            Needs Revision
+          </Badge>
+        );
       default:
         return (
           <Badge className="bg-slate-50 text-slate-700 border-slate-200">
@@ -2086,6 +2145,30 @@ const ParishDashboard = () => {
               </Button>
             </div>
           )}
+          {existingChurch.status === 'approved' && !existingChurch.hasPendingChanges &&
+           (existingChurch.pendingChangesReview?.rejectedFields?.length ?? 0) > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mt-2">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <span className="font-medium text-amber-900">Some Updates Were Not Published</span>
+                  <p className="text-sm text-amber-700">
+                    The {existingChurch.pendingChangesReview!.reviewedBy.role === 'museum_researcher' ? 'Museum Researcher' : 'Chancery Office'} published {existingChurch.pendingChangesReview!.acceptedFields.length} of your changes and rejected the following:
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {existingChurch.pendingChangesReview!.rejectedFields.map(({ field, reason }) => (
+                      <li key={field} className="text-sm text-amber-800 flex items-start gap-1.5">
+                        <span className="text-amber-500 mt-0.5">•</span>
+                        <span>
+                          <strong>{getFieldLabel(field)}:</strong> {reason}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
           {existingChurch.status === 'heritage_review' && (
             <div className="bg-violet-50 border border-violet-200 rounded-lg p-3 flex items-center gap-2">
               <Building className="w-5 h-5 text-violet-600" />
@@ -2104,6 +2187,46 @@ const ParishDashboard = () => {
               </div>
             </div>
           )}
+          {existingChurch.status === 'needs_revision' && existingChurch.revisionRequest && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-2">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <span className="font-medium text-red-900">Revision Requested</span>
+                    <p className="text-sm text-red-700">
+                      The {existingChurch.revisionRequest.requestedBy.role === 'museum_researcher' ? 'Museum Researcher' : 'Chancery Office'} sent your church profile back for corrections. Update the flagged fields and submit again.
+                    </p>
+                    {existingChurch.revisionRequest.note && (
+                      <p className="text-sm text-red-800 mt-1 italic">"{existingChurch.revisionRequest.note}"</p>
+                    )}
+                    {existingChurch.revisionRequest.comments.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {existingChurch.revisionRequest.comments.map((c, index) => (
+                          <li key={`${c.field}-${index}`} className="text-sm text-red-800 flex items-start gap-1.5">
+                            {c.addressed
+                              ? <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                              : <span className="text-red-500 mt-0.5">•</span>}
+                            <span>
+                              <strong>{getRevisionFieldLabel(c.field)}:</strong> {c.comment}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => setCurrentView('profile')}
+                  className="bg-red-600 hover:bg-red-700 text-white flex-shrink-0"
+                >
+                  <Edit className="w-4 h-4 mr-1" />
+                  Revise Profile
+                </Button>
+              </div>
+            </div>
+          )}
           {existingChurch.status === 'draft' && (
             <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 flex items-center gap-2">
               <Edit className="w-5 h-5 text-slate-600" />
@@ -2175,6 +2298,7 @@ const ParishDashboard = () => {
             }
           }}
           currentStatus={churchInfo.status}
+          revisionRequest={existingChurch?.status === 'needs_revision' ? existingChurch.revisionRequest : undefined}
           isSubmitting={isSubmitting}
           isSaving={isSaving}
           churchId={churchId || existingChurch?.id || userProfile?.parishId || userProfile?.parish || undefined}
@@ -21,7 +21,8 @@ import {
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer, 
-  Cell 
+  Cell,
+  Legend
 } from 'recharts';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '@/components/ui/use-toast';
@@ -33,6 +34,8 @@ import { DioceseAnalyticsService, type DioceseAnalytics, type EngagementMetrics,
 import { PDFExportService } from '@/services/pdfExportService';
 import { ExcelExportService } from '@/services/excelExportService';
 import { DioceseReportService } from '@/services/dioceseReportService';
+import { formatResponseTime } from '@shared/feedbackReplies';
+import { FEEDBACK_SENTIMENT_LABELS, FEEDBACK_TOPIC_LABELS, toSentimentLabel, type FeedbackTopic } from '@shared/feedbackTopics';
 import { 
   Building2, 
   BarChart3, 
@@ -51,11 +54,19 @@ import {
   Minus,
   Activity, 
   PieChart, 
-  Eye 
+  Eye,
+  Tags
 } from 'lucide-react';
 
 // Note: All data is now fetched from Firestore via DioceseAnalyticsService
 
+const TOPIC_CHART_COLORS = ['#2563eb', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6'];
+const SENTIMENT_TEXT_CLASSES = {
+  positive: 'text-green-600',
+  neutral: 'text-muted-foreground',
+  negative: 'text-red-600'
+};
+
 const Reports = () => {
   const { userProfile } = useAuth();
   const { toast } = useToast();
@@ -244,7 +255,9 @@ const Reports = () => {
         nonHeritageCount: 0,
         totalVisitors: 0,
         avgRating: '0.0',
-        totalFeedback: 0
+        totalFeedback: 0,
+        replyRate: 0,
+        averageResponseTime: formatResponseTime(null)
       };
     }
 
@@ -255,7 +268,9 @@ const Reports = () => {
       nonHeritageCount: dioceseAnalytics.nonHeritageChurches,
       totalVisitors: dioceseAnalytics.totalVisitors,
       avgRating: dioceseAnalytics.avgRating.toFixed(1),
-      totalFeedback: dioceseAnalytics.totalFeedback
+      totalFeedback: dioceseAnalytics.totalFeedback,
+      replyRate: Math.round(dioceseAnalytics.feedbackReplies.replyRate * 100),
+      averageResponseTime: formatResponseTime(dioceseAnalytics.feedbackReplies.averageResponseHours)
     };
   }, [dioceseAnalytics]);
 
@@ -402,6 +417,7 @@ const Reports = () => {
               totalVisitors: dioceseAnalytics!.totalVisitors,
               totalFeedback: dioceseAnalytics!.totalFeedback,
               avgRating: dioceseAnalytics!.avgRating,
+              feedbackReplies: dioceseAnalytics!.feedbackReplies,
               totalChurches: dioceseAnalytics!.totalChurches,
               visitorsByMonth: dioceseAnalytics!.visitorsByMonth,
               topChurches: dioceseAnalytics!.topChurches.map(c => ({
@@ -1223,6 +1239,96 @@ const Reports = () => {
               </CardContent>
             </Card>
 
+            {/* Feedback Topics */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tags className="w-5 h-5" />
+                  Feedback Topics
+                </CardTitle>
+                <CardDescription>
+                  Themes visitors mention in their comments, by month and by municipality
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {engagementMetrics?.feedbackTopics && engagementMetrics.feedbackTopics.length > 0 ? (
+                  <div className="space-y-6">
+                    <div className="h-[250px] w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={engagementMetrics.topicTrends} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                          <XAxis dataKey="month" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+                          <YAxis tick={{ fontSize: 12 }} tickLine={false} axisLine={false} allowDecimals={false} />
+                          <Tooltip 
+                            contentStyle={{ 
+                              backgroundColor: 'hsl(var(--background))', 
+                              border: '1px solid hsl(var(--border))',
+                              borderRadius: '8px'
+                            }}
+                          />
+                          <Legend />
+                          {engagementMetrics.feedbackTopics.slice(0, 5).map((summary, index) => (
+                            <Bar
+                              key={summary.topic}
+                              dataKey={summary.topic}
+                              name={FEEDBACK_TOPIC_LABELS[summary.topic]}
+                              stackId="topics"
+                              fill={TOPIC_CHART_COLORS[index]}
+                            />
+                          ))}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Most mentioned</h4>
+                        {engagementMetrics.feedbackTopics.map(summary => {
+                          const sentiment = toSentimentLabel(summary.averageSentiment);
+                          return (
+                            <div key={summary.topic} className="flex items-center justify-between text-sm">
+                              <span>{FEEDBACK_TOPIC_LABELS[summary.topic]}</span>
+                              <span className="flex items-center gap-3">
+                                <span className="text-muted-foreground">{summary.mentions} ({Math.round(summary.share * 100)}%)</span>
+                                <span className={cn('w-16 text-right', SENTIMENT_TEXT_CLASSES[sentiment])}>
+                                  {FEEDBACK_SENTIMENT_LABELS[sentiment]}
+                                </span>
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="space-y-2">
+                        <h4 className="text-sm font-medium">By municipality</h4>
+                        {Object.entries(engagementMetrics.topicsByMunicipality)
+                          .sort(([a], [b]) => a.localeCompare(b))
+                          .map(([municipality, counts]) => (
+                            <div key={municipality} className="flex items-start justify-between gap-2 text-sm">
+                              <span>{municipality}</span>
+                              <span className="flex flex-wrap justify-end gap-1">
+                                {(Object.entries(counts) as [FeedbackTopic, number][])
+                                  .sort(([, a], [, b]) => b - a)
+                                  .slice(0, 3)
+                                  .map(([topic, count]) => (
+                                    <Badge key={topic} variant="secondary" className="text-xs">
+                                      {FEEDBACK_TOPIC_LABELS[topic]} · {count}
+                                    </Badge>
+                                  ))}
+                              </span>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Tags className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                    <p>No recognizable topics in feedback for this period</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Geographic Heatmap - Most Visited Churches */}
             <HybridHeatmap
               diocese={currentDiocese as 'tagbilaran' | 'talibon'}
@@ -1313,6 +1419,14 @@ const Reports = () => {
                           <span className="text-muted-foreground">Avg Rating:</span>
                           <span className="font-medium text-foreground">{summaryStats.avgRating} / 5.0</span>
                         </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Reply Rate:</span>
+                          <span className="font-medium text-foreground">{summaryStats.replyRate}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Avg Response:</span>
+                          <span className="font-medium text-foreground">{summaryStats.averageResponseTime}</span>
+                        </div>
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Monthly Trend:</span>
                           <span className={cn(
@@ -9,6 +9,8 @@ import { PendingUpdatesReviewList } from '@/components/PendingUpdatesReviewList'
 import { ChurchDetailModal } from '@/components/ChurchDetailModal';
 import { PendingChancellors } from '@/components/PendingChancellors';
 import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { OverdueReviewQueue } from '@/components/chancery/OverdueReviewQueue';
+import { NextMassFinder } from '@/components/chancery/NextMassFinder';
 import {
   Dialog,
   DialogContent,
@@ -22,7 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { useChurchStats } from '@/hooks/useChurchStats';
 import { useToast } from '@/components/ui/use-toast';
-import { Loader2, ClipboardList, History, UserPlus, FileEdit } from 'lucide-react';
+import { Loader2, ClipboardList, History, UserPlus, FileEdit, AlarmClock, Clock } from 'lucide-react';
 import type { Diocese } from '@/contexts/AuthContext';
 import type { Church } from '@/lib/churches';
 import { ChurchInfo } from '@/components/parish/types';
@@ -278,7 +280,7 @@ export const OptimizedChanceryDashboard = React.memo<OptimizedChanceryDashboardP
 
         {/* Tabbed Content Area */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-          <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-flex">
+          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-flex">
             <TabsTrigger value="overview" className="flex items-center gap-2">
               <ClipboardList className="h-4 w-4" />
               <span className="hidden sm:inline">Overview</span>
@@ -292,6 +294,14 @@ export const OptimizedChanceryDashboard = React.memo<OptimizedChanceryDashboardP
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="overdue" className="flex items-center gap-2">
+              <AlarmClock className="h-4 w-4" />
+              <span className="hidden sm:inline">Overdue</span>
+            </TabsTrigger>
+            <TabsTrigger value="masses" className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              <span className="hidden sm:inline">Next Masses</span>
+            </TabsTrigger>
             <TabsTrigger value="chancellors" className="flex items-center gap-2">
               <UserPlus className="h-4 w-4" />
               <span className="hidden sm:inline">Chancellors</span>
@@ -402,6 +412,20 @@ export const OptimizedChanceryDashboard = React.memo<OptimizedChanceryDashboardP
             </ErrorBoundary>
           </TabsContent>
 
+          {/* Overdue Tab - Submissions past the review SLA */}
+          <TabsContent value="overdue" className="space-y-4">
+            <ErrorBoundary>
+              <OverdueReviewQueue diocese={diocese} onViewChurch={handleViewChurch} />
+            </ErrorBoundary>
+          </TabsContent>
+
+          {/* Next Masses Tab - Where to attend mass soon */}
+          <TabsContent value="masses" className="space-y-4">
+            <ErrorBoundary>
+              <NextMassFinder diocese={diocese} />
+            </ErrorBoundary>
+          </TabsContent>
+
           {/* Chancellors Tab - Pending Registrations */}
           <TabsContent value="chancellors">
             <ErrorBoundary>
@@ -0,0 +1,187 @@
+/**
+ * Tests for the RSS 2.0, Atom and JSON Feed 1.1 announcement feeds.
+ *
+ * Each format is rendered from the same sample announcements and compared
+ * with the reviewed output in fixtures/feeds. After an intentional feed
+ * change, regenerate with `npx vitest run -u` and review the diff.
+ */
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  matchesAnnouncementCategories,
+  parseAnnouncementCategoryFilter,
+} from '@shared/announcementCategories';
+import {
+  buildAnnouncementFeed,
+  FEED_FORMATS,
+  type AnnouncementFeedOptions,
+} from '../../../functions/src/announcementFeed';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'feeds');
+
+const OPTIONS: AnnouncementFeedOptions = {
+  title: 'Diocese of Tagbilaran Announcements',
+  description: 'Announcements and events from the Diocese of Tagbilaran',
+  homePageUrl: 'https://visita-bohol-system.vercel.app',
+  feedUrl: 'https://example.test/dioceseAnnouncementFeed?diocese=tagbilaran&format=rss',
+  announcements: [
+    {
+      id: 'fiesta',
+      title: 'Fiesta & Procession <Dauis>',
+      description: 'Join us "all".\nBring candles & flowers.',
+      category: 'Festival',
+      parishName: 'Our Lady of the Assumption',
+      eventDate: new Date('2026-08-14T16:00:00Z'), // August 15 in Manila
+      eventTime: '16:00',
+      endTime: '18:00',
+      venue: 'Church plaza',
+      publishedAt: new Date('2026-08-01T01:00:00Z'),
+      updatedAt: new Date('2026-08-02T03:04:05Z'),
+    },
+    {
+      id: 'council',
+      title: 'Parish council meeting',
+      category: 'Vigil Night',
+      publishedAt: new Date('2026-07-20T00:00:00Z'),
+    },
+  ],
+};
+
+const EXTENSIONS = { rss: 'rss.xml', atom: 'atom.xml', json: 'json' } as const;
+
+const RFC_822 = /^(Mon|Tue|Wed|Thu|Fri|Sat|Sun), \d{2} (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{4} \d{2}:\d{2}:\d{2} GMT$/;
+const RFC_3339 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/;
+
+/**
+ * Minimal well-formedness check: one root element, balanced tags, quoted
+ * attributes, and no raw "<" or "&" in text.
+ */
+const expectWellFormedXml = (xml: string) => {
+  expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n')).toBe(true);
+  const body = xml.replace(/^<\?xml[^?]*\?>/, '');
+  const tagPattern = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+="[^"<&]*(?:&[a-z]+;[^"<&]*)*")*)\s*(\/?)>/g;
+  const stack: string[] = [];
+  let roots = 0;
+
+  for (const [, closing, name, , selfClosing] of body.matchAll(tagPattern)) {
+    if (closing) {
+      expect(stack.pop()).toBe(name);
+    } else if (!selfClosing) {
+      if (stack.length === 0) roots += 1;
+      stack.push(name);
+    }
+  }
+
+  expect(stack).toEqual([]);
+  expect(roots).toBe(1);
+  const text = body.replace(tagPattern, '');
+  expect(text).not.toMatch(/[<>]/);
+  expect(text).not.toMatch(/&(?!(amp|lt|gt|quot|apos);)/);
+};
+
+const elements = (xml: string, name: string) =>
+  [...xml.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>([^<]*)</${name}>`, 'g'))].map(match => match[1]);
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+describe('announcement feed snapshots', () => {
+  it.each(FEED_FORMATS)('%s matches its snapshot', async (format) => {
+    await expect(buildAnnouncementFeed(format, OPTIONS)).toMatchFileSnapshot(
+      path.join(FIXTURE_DIR, `announcements.${EXTENSIONS[format]}`)
+    );
+  });
+});
+
+describe('RSS 2.0', () => {
+  const rss = buildAnnouncementFeed('rss', OPTIONS);
+
+  it('is well-formed with the required channel and item elements', () => {
+    expectWellFormedXml(rss);
+    expect(rss).toContain('<rss version="2.0"');
+    ['title', 'link', 'description', 'lastBuildDate'].forEach(name => expect(elements(rss, name).length).toBeGreaterThan(0));
+    expect(elements(rss, 'guid')).toEqual(['urn:visita-bohol:announcement:fiesta', 'urn:visita-bohol:announcement:council']);
+    expect(elements(rss, 'category')).toEqual(['Festival', 'Vigil Night']);
+  });
+
+  it('uses RFC 822 dates', () => {
+    expect(elements(rss, 'pubDate')).toEqual(['Sat, 01 Aug 2026 01:00:00 GMT', 'Mon, 20 Jul 2026 00:00:00 GMT']);
+    expect(elements(rss, 'lastBuildDate')[0]).toMatch(RFC_822);
+  });
+
+  it('escapes the title once and the HTML description twice', () => {
+    expect(elements(rss, 'title')).toContain('Fiesta &amp; Procession &lt;Dauis&gt;');
+
+    const html = decodeXml(elements(rss, 'description')[1]);
+    expect(html).toContain('Join us "all".<br>Bring candles &amp; flowers.');
+    expect(html).toContain('When: Saturday, August 15, 2026<br>Time: 4:00 PM – 6:00 PM<br>Where: Church plaza');
+    expect(html).not.toContain('candles & flowers');
+  });
+});
+
+describe('Atom', () => {
+  const atom = buildAnnouncementFeed('atom', OPTIONS);
+
+  it('is well-formed with the required feed and entry elements', () => {
+    expectWellFormedXml(atom);
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom"');
+    expect(elements(atom, 'id')).toEqual([
+      OPTIONS.feedUrl.replace(/&/g, '&amp;'),
+      'urn:visita-bohol:announcement:fiesta',
+      'urn:visita-bohol:announcement:council',
+    ]);
+    expect(elements(atom, 'name')).toEqual(['VISITA Bohol Churches']);
+    expect(atom).toContain('<link rel="self" type="application/atom+xml"');
+  });
+
+  it('uses RFC 3339 dates, with the latest edit as the feed date', () => {
+    const updated = elements(atom, 'updated');
+    updated.forEach(date => expect(date).toMatch(RFC_3339));
+    expect(updated).toEqual(['2026-08-02T03:04:05Z', '2026-08-02T03:04:05Z', '2026-07-20T00:00:00Z']);
+    expect(elements(atom, 'published')).toEqual(['2026-08-01T01:00:00Z', '2026-07-20T00:00:00Z']);
+  });
+
+  it('escapes plain-text content once', () => {
+    expect(decodeXml(elements(atom, 'content')[0])).toContain('Join us "all".\nBring candles & flowers.');
+  });
+});
+
+describe('JSON Feed 1.1', () => {
+  const feed = JSON.parse(buildAnnouncementFeed('json', OPTIONS));
+
+  it('has the required top-level and item fields', () => {
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.title).toBe(OPTIONS.title);
+    expect(feed.feed_url).toBe(OPTIONS.feedUrl);
+    expect(feed.items).toHaveLength(2);
+    feed.items.forEach((item: Record<string, unknown>) => {
+      expect(typeof item.id).toBe('string');
+      expect(typeof item.content_text).toBe('string');
+      expect(item.date_published).toMatch(RFC_3339);
+      expect(item.date_modified).toMatch(RFC_3339);
+    });
+    expect(feed.items[0].title).toBe('Fiesta & Procession <Dauis>');
+    expect(feed.items[1].tags).toEqual(['Vigil Night']);
+  });
+});
+
+describe('category filter', () => {
+  it('parses category names case-insensitively and rejects unknown ones', () => {
+    expect(parseAnnouncementCategoryFilter(undefined)).toEqual([]);
+    expect(parseAnnouncementCategoryFilter(' festival, MASS ,')).toEqual(['Festival', 'Mass']);
+    expect(parseAnnouncementCategoryFilter('Festival,Bingo')).toBeNull();
+  });
+
+  it('matches custom types with "Other" and everything without a filter', () => {
+    expect(matchesAnnouncementCategories('Festival', ['Festival', 'Mass'])).toBe(true);
+    expect(matchesAnnouncementCategories('Meeting', ['Festival', 'Mass'])).toBe(false);
+    expect(matchesAnnouncementCategories('Vigil Night', ['Other'])).toBe(true);
+    expect(matchesAnnouncementCategories(undefined, ['Other'])).toBe(true);
+    expect(matchesAnnouncementCategories('Meeting', [])).toBe(true);
+  });
+});
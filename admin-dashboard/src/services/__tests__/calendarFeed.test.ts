@@ -0,0 +1,112 @@
+/**
+ * Tests for the iCalendar feeds served by churchCalendarFeed and dioceseCalendarFeed.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildCalendarFeed, type CalendarChurch } from '../../../functions/src/calendarFeed';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+const church = (overrides: Partial<CalendarChurch>): CalendarChurch => ({
+  id: 'dauis',
+  name: 'Our Lady of the Assumption',
+  municipality: 'Dauis',
+  updatedAt: new Date('2026-02-01T00:00:00Z'),
+  ...overrides,
+});
+
+const feedFor = (churches: CalendarChurch[], announcements = []) =>
+  buildCalendarFeed({ calendarName: 'Test Calendar', churches, announcements, now: NOW });
+
+// Undo line folding so properties can be matched whole
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+const events = (ics: string) =>
+  ics.split('BEGIN:VEVENT').slice(1).map(event => unfold(`BEGIN:VEVENT${event}`));
+
+describe('buildCalendarFeed', () => {
+  it('ends every line with CRLF and folds long lines at 75 octets', () => {
+    const ics = buildCalendarFeed({
+      calendarName: 'Test Calendar',
+      churches: [church({ massSchedules: [{ day: 'Sunday', time: '06:00 - 07:00' }] })],
+      announcements: [{
+        id: 'a1',
+        title: 'Simbang Gabi',
+        description: 'Nine dawn masses before Christmas — everyone is welcome to join the parish for the novena. '.repeat(2),
+        eventDate: new Date('2026-12-15T16:00:00Z'),
+      }],
+      now: NOW,
+    });
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+
+    const physicalLines = ics.split('\r\n').slice(0, -1);
+    physicalLines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    expect(physicalLines.some(line => line.startsWith(' '))).toBe(true);
+
+    const description = unfold(ics).find(line => line.startsWith('DESCRIPTION:'));
+    expect(description).toContain('everyone is welcome to join the parish for the novena. Nine dawn');
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text values', () => {
+    const ics = buildCalendarFeed({
+      calendarName: 'Dauis, Bohol',
+      churches: [],
+      announcements: [{
+        id: 'a2',
+        title: 'Fiesta; procession, mass',
+        description: 'Line one\nC:\\parish',
+        eventDate: new Date('2026-08-14T16:00:00Z'),
+      }],
+      now: NOW,
+    });
+    const lines = unfold(ics);
+
+    expect(lines).toContain('X-WR-CALNAME:Dauis\\, Bohol');
+    expect(lines).toContain('SUMMARY:Fiesta\\; procession\\, mass');
+    expect(lines).toContain('DESCRIPTION:Line one\\nC:\\\\parish');
+  });
+
+  it('writes seasonal rules with a UTC UNTIL and cancelled masses as EXDATE', () => {
+    const ics = feedFor([church({
+      massScheduleRules: {
+        rules: [{
+          id: 'lent',
+          frequency: 'weekly',
+          byDay: ['WE'],
+          time: '17:00',
+          validFrom: '2026-02-18',
+          validUntil: '2026-04-01',
+        }],
+        exceptions: [
+          { id: 'x1', date: '2026-03-04', ruleId: 'lent' },
+          { id: 'x2', date: '2026-03-05', ruleId: 'lent' }, // Not a Wednesday: ignored
+        ],
+        additions: [],
+      },
+    })]);
+    const [event] = events(ics);
+
+    expect(event).toContain('DTSTART;TZID=Asia/Manila:20260218T170000');
+    expect(event).toContain('DTEND;TZID=Asia/Manila:20260218T180000');
+    expect(event).toContain('RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20260401T155959Z');
+    expect(event).toContain('EXDATE;TZID=Asia/Manila:20260304T170000');
+  });
+
+  it('turns legacy Daily, Weekdays and day ranges into one weekly event per day', () => {
+    const ics = feedFor([church({
+      massSchedules: [
+        { day: 'Weekdays', time: '06:00 - 07:00' },
+        { day: 'Monday-Wednesday', time: '06:00 - 07:00' }, // Same masses again
+        { day: 'Daily', time: '6:00 PM' },
+      ],
+    })]);
+    const rrules = events(ics).map(event => event.find(line => line.startsWith('RRULE:')));
+
+    expect(rrules).toHaveLength(12);
+    expect(rrules.filter(rrule => rrule === 'RRULE:FREQ=WEEKLY;BYDAY=MO')).toHaveLength(2);
+    expect(rrules.filter(rrule => rrule === 'RRULE:FREQ=WEEKLY;BYDAY=SU')).toHaveLength(1);
+    expect(ics).toContain('UID:mass-dauis-mo-0600@visita-bohol');
+    expect(ics).toContain('UID:mass-dauis-sa-1800@visita-bohol');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for merging imported document fields into a church: the keep /
+ * replace / combine choices and which applied fields need review.
+ */
+import { describe, it, expect } from 'vitest';
+import type { MassSchedule } from '@/components/parish/types';
+import {
+  categorizeImportFields,
+  combineValues,
+  getDefaultMergeChoice,
+  resolveMergedValue,
+} from '@/lib/church-import-merge';
+
+const mass = (day: string, time: string) => ({ day, time }) as MassSchedule;
+
+describe('combineValues', () => {
+  it('adds only the imported mass schedules that are not already listed', () => {
+    const current = [mass('Sunday', '6:00 AM'), mass('Sunday', '8:00 AM')];
+    const imported = [mass('sunday', '6:00 am'), mass('Saturday', '5:00 PM')];
+
+    expect(combineValues('massSchedules', current, imported)).toEqual([
+      mass('Sunday', '6:00 AM'),
+      mass('Sunday', '8:00 AM'),
+      mass('Saturday', '5:00 PM'),
+    ]);
+  });
+
+  it('unions other lists', () => {
+    expect(combineValues('historicalDetails.religiousClassifications', ['Diocesan Shrine'], ['Holy Door', 'Diocesan Shrine']))
+      .toEqual(['Diocesan Shrine', 'Holy Door']);
+  });
+
+  it('appends imported text as a new paragraph unless it is already there', () => {
+    const path = 'historicalDetails.historicalBackground';
+
+    expect(combineValues(path, 'Founded by the Jesuits. ', ' Rebuilt in 1885.')).toBe('Founded by the Jesuits.\n\nRebuilt in 1885.');
+    expect(combineValues(path, 'Founded by the Jesuits. Rebuilt in 1885.', 'Rebuilt in 1885.'))
+      .toBe('Founded by the Jesuits. Rebuilt in 1885.');
+  });
+
+  it('falls back to the imported value when the types differ', () => {
+    expect(combineValues('historicalDetails.founders', 'Augustinians', ['Jesuits'])).toEqual(['Jesuits']);
+  });
+});
+
+describe('resolveMergedValue', () => {
+  const path = 'historicalDetails.founders';
+
+  it('keeps or replaces as chosen', () => {
+    expect(resolveMergedValue('keep', path, 'Augustinians', 'Jesuits')).toBe('Augustinians');
+    expect(resolveMergedValue('replace', path, 'Augustinians', 'Jesuits')).toBe('Jesuits');
+  });
+
+  it('combines only combinable fields that already have a value', () => {
+    expect(resolveMergedValue('combine', path, 'Augustinians', 'Jesuits')).toBe('Augustinians\n\nJesuits');
+    expect(resolveMergedValue('combine', path, '', 'Jesuits')).toBe('Jesuits');
+    expect(resolveMergedValue('combine', 'feastDay', 'March 19', 'May 1')).toBe('May 1');
+  });
+});
+
+describe('getDefaultMergeChoice', () => {
+  it('fills empty fields with confident values and otherwise keeps the current value', () => {
+    expect(getDefaultMergeChoice('', 0.9)).toBe('replace');
+    expect(getDefaultMergeChoice({ lat: 0, lng: 0 })).toBe('replace');
+    expect(getDefaultMergeChoice('', 0.4)).toBe('keep');
+    expect(getDefaultMergeChoice('March 19', 0.9)).toBe('keep');
+  });
+});
+
+describe('categorizeImportFields', () => {
+  it('stages sensitive fields and publishes direct fields, skipping unchanged ones', () => {
+    expect(categorizeImportFields([
+      { path: 'churchName', currentValue: 'St. Joseph', mergedValue: 'St. Joseph the Worker' },
+      { path: 'feastDay', currentValue: 'March 19', mergedValue: 'May 1' },
+      { path: 'contactInfo.phone', currentValue: '0912', mergedValue: '0912' },
+      { path: 'locationDetails.barangay', currentValue: 'Poblacion', mergedValue: 'Totolan' },
+      { path: 'locationDetails.streetAddress', currentValue: 'Main St', mergedValue: 'Main St' },
+    ])).toEqual({
+      stagedPaths: ['churchName', 'locationDetails.barangay'],
+      directPaths: ['feastDay'],
+    });
+  });
+
+  it('treats an empty value replaced by another empty value as unchanged', () => {
+    expect(categorizeImportFields([
+      { path: 'historicalDetails.founders', currentValue: undefined, mergedValue: '' },
+    ])).toEqual({ stagedPaths: [], directPaths: [] });
+  });
+});
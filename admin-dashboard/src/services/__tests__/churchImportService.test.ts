@@ -6,10 +6,18 @@
  * - Prevents address text from bleeding into name fields
  * - Normalises enum values (heritage, architecture)
  * - Extracts founding years from various formats
- * - Parses mass schedules
+ * - Parses mass schedules and GPS coordinates
  * - Computes appropriate confidence scores
+ *
+ * The golden fixture suite at the end runs real parish documents (plain text,
+ * DOCX, PDF) through the Cloud Function's text extraction and the shared
+ * parser, and compares the result with the reviewed `*.expected.json` output
+ * next to each document. After an intentional parser change, regenerate the
+ * goldens with `npx vitest run -u` and review the diff.
  */
 import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
 
 // Mock Firebase modules so the service can be imported without a live backend.
 vi.mock('firebase/firestore', () => ({
@@ -33,6 +41,8 @@ vi.mock('@/services/uploadService', () => ({
 }));
 
 import { buildParsedDataFromText } from '../churchImportService';
+import { buildParsedDataFromText as parseOnServer } from '@shared/churchImportParser';
+import { extractTextFromFile } from '../../../functions/src/documentText';
 
 // ─── Helper ───────────────────────────────────────────────────────────────────
 
@@ -277,6 +287,14 @@ describe('buildParsedDataFromText', () => {
       expect(parsedData.churchName).toBe('Test Church');
       expect(getField(parsedData, 'locationDetails.municipality')).toBe('Tagbilaran');
     });
+
+    it('does not split multi-word labels that end in a shorter label', () => {
+      const text = 'Architectural Features: Coral stone walls.\nContact Phone: 038-501-1234\nTelephone: 038-501-5678';
+      const { parsedData } = buildParsedDataFromText(text);
+
+      expect(getField(parsedData, 'historicalDetails.architecturalFeatures')).toBe('Coral stone walls.');
+      expect(getField(parsedData, 'contactInfo.phone')).toBeDefined();
+    });
   });
 
   // ── 7. Confidence scoring ──────────────────────────────────────────────
@@ -341,9 +359,56 @@ describe('buildParsedDataFromText', () => {
       expect(schedules).toBeDefined();
       expect(schedules!.length).toBeGreaterThanOrEqual(1);
     });
+
+    it('keeps one day per line when the schedule spans several lines', () => {
+      const text = 'Mass Schedule: Sunday 7:00 AM\nTuesday 6:00 PM';
+      const { parsedData } = buildParsedDataFromText(text);
+
+      expect(parsedData.massSchedules).toEqual([
+        { day: 'Sunday', time: '7:00 AM', endTime: '' },
+        { day: 'Tuesday', time: '6:00 PM', endTime: '' },
+      ]);
+    });
+  });
+
+  // ── 9. GPS coordinate extraction ────────────────────────────────────────
+  describe('GPS coordinate extraction', () => {
+    it('parses decimal degrees', () => {
+      const { parsedData, confidence } = buildParsedDataFromText('GPS Coordinates: 9.6475, 123.8547');
+      expect(parsedData.coordinates).toEqual({ lat: 9.6475, lng: 123.8547 });
+      expect(confidence.coordinates).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('parses degrees-minutes-seconds with hemispheres', () => {
+      const { parsedData } = buildParsedDataFromText(`Coordinates: 9°38'51"N 123°51'17"E`);
+      expect(parsedData.coordinates?.lat).toBeCloseTo(9.6475, 4);
+      expect(parsedData.coordinates?.lng).toBeCloseTo(123.8547, 4);
+    });
+
+    it('parses a Google Maps link', () => {
+      const text = 'GPS Coordinates: https://www.google.com/maps/place/Baclayon+Church/@9.6225,123.9112,17z';
+      const { parsedData } = buildParsedDataFromText(text);
+      expect(parsedData.coordinates).toEqual({ lat: 9.6225, lng: 123.9112 });
+    });
+
+    it('combines separate Latitude and Longitude labels', () => {
+      const { parsedData } = buildParsedDataFromText('Latitude: 9.6475\nLongitude: 123.8547');
+      expect(parsedData.coordinates).toEqual({ lat: 9.6475, lng: 123.8547 });
+    });
+
+    it('flags valid coordinates outside Bohol with low confidence', () => {
+      const { parsedData, confidence } = buildParsedDataFromText('GPS Coordinates: 14.5995, 120.9842');
+      expect(parsedData.coordinates).toEqual({ lat: 14.5995, lng: 120.9842 });
+      expect(confidence.coordinates).toBeLessThan(0.5);
+    });
+
+    it('rejects out-of-range values', () => {
+      const { parsedData } = buildParsedDataFromText('GPS Coordinates: 123.85, 9.64');
+      expect(parsedData.coordinates).toBeUndefined();
+    });
   });
 
-  // ── 9. Empty / no-label documents ───────────────────────────────────────
+  // ── 10. Empty / no-label documents ──────────────────────────────────────
   describe('edge cases', () => {
     it('returns empty parsedData for empty text', () => {
       const { parsedData } = buildParsedDataFromText('');
@@ -364,3 +429,39 @@ describe('buildParsedDataFromText', () => {
     });
   });
 });
+
+// ─── Golden fixtures ──────────────────────────────────────────────────────────
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'church-import');
+
+const GOLDEN_FIXTURES = [
+  { file: 'dauis-assumption.txt', contentType: 'text/plain' },
+  { file: 'talibon-blessed-trinity.txt', contentType: 'text/plain' },
+  { file: 'baclayon-immaculate-conception.docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { file: 'loboc-san-pedro.pdf', contentType: 'application/pdf' },
+];
+
+const toGolden = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+describe('church import golden fixtures', () => {
+  it.each(GOLDEN_FIXTURES)('$file matches its golden output', async ({ file, contentType }) => {
+    const text = await extractTextFromFile(readFileSync(path.join(FIXTURE_DIR, file)), contentType, file);
+    const result = parseOnServer(text);
+
+    await expect(toGolden(result)).toMatchFileSnapshot(
+      path.join(FIXTURE_DIR, file.replace(/\.\w+$/, '.expected.json'))
+    );
+  });
+
+  it.each(GOLDEN_FIXTURES.filter(({ contentType }) => contentType === 'text/plain'))(
+    '$file parses identically in the browser and the Cloud Function',
+    async ({ file, contentType }) => {
+      const bytes = readFileSync(path.join(FIXTURE_DIR, file));
+      // Browser path: File.text() in startImportProcessing; server path: extractTextFromFile
+      const browserText = await new File([bytes], file, { type: contentType }).text();
+      const serverText = await extractTextFromFile(bytes, contentType, file);
+
+      expect(buildParsedDataFromText(browserText)).toEqual(parseOnServer(serverText));
+    }
+  );
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for which church updates the snapshotChurchVersion trigger saves as
+ * a version.
+ */
+import { describe, it, expect } from 'vitest';
+import { getChurchVersionEvent, hasSameVersionedContent } from '@shared/churchVersions';
+
+const approved = {
+  name: 'St. Joseph',
+  status: 'approved',
+  description: 'Old description',
+  contactInfo: { phone: '0000', email: 'parish@example.test' },
+};
+
+describe('hasSameVersionedContent', () => {
+  it('ignores workflow fields and object key order', () => {
+    expect(hasSameVersionedContent(approved, {
+      ...approved,
+      contactInfo: { email: 'parish@example.test', phone: '0000' },
+      lastReviewedBy: 'chancery-1',
+      updatedAt: 'later',
+    })).toBe(true);
+    expect(hasSameVersionedContent(approved, { ...approved, description: 'New' })).toBe(false);
+  });
+});
+
+describe('getChurchVersionEvent', () => {
+  it('versions every change into approved', () => {
+    expect(getChurchVersionEvent({ ...approved, status: 'pending' }, approved)).toEqual({ reason: 'approval' });
+    expect(getChurchVersionEvent({ ...approved, status: 'heritage_review' }, approved)).toEqual({ reason: 'approval' });
+  });
+
+  it('ignores churches that are not approved afterwards', () => {
+    expect(getChurchVersionEvent(approved, { ...approved, status: 'needs_revision', description: 'New' })).toBeNull();
+  });
+
+  it('tells applied pending changes from ones reviewed field by field', () => {
+    const before = { ...approved, pendingChanges: { data: { description: 'New' } } };
+    const after = { ...approved, description: 'New' };
+
+    expect(getChurchVersionEvent(before, after)).toEqual({ reason: 'pending_changes_applied' });
+    expect(getChurchVersionEvent(before, { ...after, pendingChangesReview: { acceptedFields: ['description'] } }))
+      .toEqual({ reason: 'pending_changes_reviewed' });
+  });
+
+  it('does not version pending changes that were all rejected', () => {
+    const before = { ...approved, pendingChanges: { data: { description: 'New' } } };
+
+    expect(getChurchVersionEvent(before, { ...approved, pendingChangesReview: { acceptedFields: [] } })).toBeNull();
+  });
+
+  it('versions a rollback only when it has a new marker and new content', () => {
+    const lastRollback = { restoredFromVersion: 2, note: 'Undo', rolledBackAt: 1 };
+    const rolledBack = { ...approved, description: 'Version 2', lastRollback };
+
+    expect(getChurchVersionEvent(approved, rolledBack)).toEqual({ reason: 'rollback', restoredFromVersion: 2 });
+    expect(getChurchVersionEvent({ ...approved, lastRollback }, { ...rolledBack })).toBeNull();
+    expect(getChurchVersionEvent(approved, { ...approved, lastRollback })).toBeNull();
+  });
+
+  it('does not version other edits of an approved church', () => {
+    expect(getChurchVersionEvent(approved, { ...approved, contactInfo: { phone: '0912' } })).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for email outbox retry backoff and the daily quota reserve.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  EMAIL_DAILY_QUOTA,
+  getEmailQuotaDay,
+  getEmailRetryDelayMs,
+  getNextEmailQuotaReset,
+  hasEmailQuota,
+  MAX_EMAIL_ATTEMPTS,
+  URGENT_EMAIL_RESERVE,
+} from '@shared/emailOutbox';
+
+const MINUTE = 60 * 1000;
+
+describe('getEmailRetryDelayMs', () => {
+  it('doubles the delay after each failed attempt, starting at one minute', () => {
+    expect([1, 2, 3, 4, 5].map(getEmailRetryDelayMs)).toEqual([1, 2, 4, 8, 16].map(m => m * MINUTE));
+    expect(getEmailRetryDelayMs(0)).toBe(MINUTE);
+  });
+
+  it('caps the delay at six hours', () => {
+    expect(getEmailRetryDelayMs(10)).toBe(6 * 60 * MINUTE);
+    expect(getEmailRetryDelayMs(50)).toBe(6 * 60 * MINUTE);
+  });
+
+  it('dead-letters after six attempts spread over about half an hour', () => {
+    expect(MAX_EMAIL_ATTEMPTS).toBe(6);
+    const totalWait = Array.from({ length: MAX_EMAIL_ATTEMPTS - 1 }, (_, i) => getEmailRetryDelayMs(i + 1))
+      .reduce((sum, delay) => sum + delay, 0);
+    expect(totalWait).toBe(31 * MINUTE);
+  });
+});
+
+describe('hasEmailQuota', () => {
+  const normalLimit = EMAIL_DAILY_QUOTA - URGENT_EMAIL_RESERVE;
+
+  it('holds back normal mail once only the urgent reserve is left', () => {
+    expect(hasEmailQuota(normalLimit - 1, 'normal')).toBe(true);
+    expect(hasEmailQuota(normalLimit, 'normal')).toBe(false);
+  });
+
+  it('lets urgent mail use the reserve up to the daily quota', () => {
+    expect(hasEmailQuota(normalLimit, 'urgent')).toBe(true);
+    expect(hasEmailQuota(EMAIL_DAILY_QUOTA - 1, 'urgent')).toBe(true);
+    expect(hasEmailQuota(EMAIL_DAILY_QUOTA, 'urgent')).toBe(false);
+  });
+});
+
+describe('email quota day', () => {
+  it('counts by Manila calendar day', () => {
+    expect(getEmailQuotaDay(new Date('2026-03-01T15:59:00Z'))).toBe('2026-03-01');
+    expect(getEmailQuotaDay(new Date('2026-03-01T16:00:00Z'))).toBe('2026-03-02');
+  });
+
+  it('resets at the next Manila midnight', () => {
+    expect(getNextEmailQuotaReset(new Date('2026-03-01T10:00:00Z')).toISOString()).toBe('2026-03-01T16:00:00.000Z');
+    expect(getNextEmailQuotaReset(new Date('2026-03-01T16:00:00Z')).toISOString()).toBe('2026-03-02T16:00:00.000Z');
+  });
+});
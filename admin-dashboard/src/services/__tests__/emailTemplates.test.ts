@@ -0,0 +1,73 @@
+/**
+ * Snapshot tests for the Cloud Functions email templates.
+ *
+ * Every template is rendered in every language with the sample parameters
+ * the chancery preview endpoint uses, and compared with the reviewed output
+ * in fixtures/emails: `<template>.<locale>.html` can be opened in a browser,
+ * `<template>.<locale>.txt` holds the subject and plain-text alternative.
+ * After an intentional template change, regenerate with `npx vitest run -u`
+ * and review the diff.
+ */
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { EMAIL_LOCALES } from '@shared/emailLocales';
+import {
+  EMAIL_TEMPLATE_IDS,
+  EMAIL_TEMPLATE_SAMPLES,
+  renderEmailTemplate,
+} from '../../../functions/src/emailTemplates';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'emails');
+
+const DIOCESE_BRANDING = {
+  logoUrl: 'https://firebasestorage.googleapis.com/v0/b/sample/o/logos%2Fdiocese%2Ftalibon%2Flogo_1.png?alt=media',
+  logoAlt: 'Diocese of Talibon logo',
+  diocese: 'talibon',
+};
+
+const CASES = EMAIL_TEMPLATE_IDS.flatMap(template =>
+  EMAIL_LOCALES.map(({ code }) => ({ template, locale: code }))
+);
+
+describe('email template snapshots', () => {
+  it.each(CASES)('$template ($locale) matches its snapshot', async ({ template, locale }) => {
+    const email = renderEmailTemplate(template, EMAIL_TEMPLATE_SAMPLES[template], { locale });
+
+    await expect(email.html).toMatchFileSnapshot(path.join(FIXTURE_DIR, `${template}.${locale}.html`));
+    await expect(`Subject: ${email.subject}\n\n${email.text}`).toMatchFileSnapshot(
+      path.join(FIXTURE_DIR, `${template}.${locale}.txt`)
+    );
+  });
+});
+
+describe('renderEmailTemplate', () => {
+  it('escapes user-provided text in the HTML body', () => {
+    const email = renderEmailTemplate('accountStatus', {
+      ...EMAIL_TEMPLATE_SAMPLES.accountStatus,
+      reason: '<script>alert("x")</script>',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+    expect(email.text).toContain('<script>alert("x")</script>');
+  });
+
+  it('uses the diocese logo and names only that diocese in the footer', () => {
+    const email = renderEmailTemplate('passwordReset', EMAIL_TEMPLATE_SAMPLES.passwordReset, {
+      locale: 'ceb',
+      branding: DIOCESE_BRANDING,
+    });
+
+    expect(email.html).toContain('logos%2Fdiocese%2Ftalibon');
+    expect(email.text).toContain('Diyosesis sa Talibon');
+    expect(email.text).not.toContain('Tagbilaran');
+  });
+
+  it('defaults to English with VISITA branding', () => {
+    const email = renderEmailTemplate('welcome', EMAIL_TEMPLATE_SAMPLES.welcome);
+
+    expect(email.subject).toBe('Welcome to VISITA Admin - Our Lady of the Assumption Parish - Dauis');
+    expect(email.html).toContain('<html lang="en">');
+    expect(email.html).toContain('visita-logo.png');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for the feedback flag threshold and reason summary.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  countFlagReasons,
+  DEFAULT_AUTO_HIDE_FLAG_COUNT,
+  normalizeAutoHideFlagCount,
+  shouldAutoHideFeedback,
+} from '@shared/feedbackFlags';
+
+describe('shouldAutoHideFeedback', () => {
+  it('hides published feedback once its open flags reach the threshold', () => {
+    expect(shouldAutoHideFeedback('published', 2, 3)).toBe(false);
+    expect(shouldAutoHideFeedback('published', 3, 3)).toBe(true);
+    expect(shouldAutoHideFeedback(undefined, 3, 3)).toBe(true);
+  });
+
+  it('leaves pending and already hidden feedback to the chancery', () => {
+    expect(shouldAutoHideFeedback('pending', 5, 3)).toBe(false);
+    expect(shouldAutoHideFeedback('hidden', 5, 3)).toBe(false);
+  });
+});
+
+describe('normalizeAutoHideFlagCount', () => {
+  it('falls back to the default for missing or invalid settings', () => {
+    expect(normalizeAutoHideFlagCount(5)).toBe(5);
+    expect(normalizeAutoHideFlagCount('2')).toBe(2);
+    expect(normalizeAutoHideFlagCount(undefined)).toBe(DEFAULT_AUTO_HIDE_FLAG_COUNT);
+    expect(normalizeAutoHideFlagCount(0)).toBe(DEFAULT_AUTO_HIDE_FLAG_COUNT);
+    expect(normalizeAutoHideFlagCount(2.5)).toBe(DEFAULT_AUTO_HIDE_FLAG_COUNT);
+  });
+});
+
+describe('countFlagReasons', () => {
+  it('counts open flags per reason, most common first', () => {
+    expect(countFlagReasons([
+      { reason: 'spam', status: 'open' },
+      { reason: 'offensive', status: 'open' },
+      { reason: 'offensive', status: 'open' },
+      { reason: 'spam', status: 'dismissed' },
+      { reason: 'other', status: 'open' },
+    ])).toEqual([
+      { reason: 'offensive', count: 2 },
+      { reason: 'spam', count: 1 },
+      { reason: 'other', count: 1 },
+    ]);
+  });
+});
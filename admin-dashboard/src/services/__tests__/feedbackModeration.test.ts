@@ -0,0 +1,89 @@
+/**
+ * Tests for the automatic feedback moderation pass run by onFeedbackCreated.
+ */
+import { describe, it, expect } from 'vitest';
+import { moderateFeedbackText, splitFlaggedTerms, type PriorFeedback } from '@shared/feedbackModeration';
+
+const NOW = new Date('2026-03-02T10:00:00+08:00');
+
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const moderate = (text: string, previous: PriorFeedback[] = []) =>
+  moderateFeedbackText({ subject: 'General Review', text, previous, now: NOW });
+
+describe('moderateFeedbackText', () => {
+  it('publishes clean feedback in any language', () => {
+    expect(moderate('Beautiful church, very peaceful. The choir was wonderful!').decision).toBe('publish');
+    expect(moderate('Nindot kaayo ang simbahan, limpyo ug hilom.').decision).toBe('publish');
+    expect(moderate('Ang ganda ng simbahan, masarap ang putahe sa tabi.').decision).toBe('publish');
+  });
+
+  it('flags profanity in English, Filipino and Cebuano with the terms as written', () => {
+    const verdict = moderate('Sh1t parking. Tangina, ang init! Yawa-a gyud.');
+
+    expect(verdict.decision).toBe('review');
+    expect(verdict.reasons.map(reason => reason.message)).toEqual([
+      'Profanity (English)',
+      'Profanity (Filipino)',
+      'Profanity (Cebuano)',
+    ]);
+    expect(verdict.flaggedTerms).toEqual(['Sh1t', 'Tangina', 'Yawa']);
+  });
+
+  it('reports slurs separately from profanity', () => {
+    const verdict = moderate('The guide was a retard');
+
+    expect(verdict.reasons).toEqual([
+      expect.objectContaining({ check: 'language', code: 'slur', terms: ['retard'] }),
+    ]);
+  });
+
+  it('flags links and repeated text as spam', () => {
+    expect(moderate('Cheap tours at bohol-deals.com book now').reasons).toEqual([
+      expect.objectContaining({ check: 'spam', code: 'link', terms: ['bohol-deals.com'] }),
+    ]);
+    expect(moderate('wow wow wow wow wow').reasons[0]).toMatchObject({ code: 'repeated_text' });
+    expect(moderate('Amazing!!!!!!!!!!').reasons[0]).toMatchObject({ code: 'repeated_text' });
+  });
+
+  it('flags a burst of submissions from one visitor', () => {
+    const previous = [2, 4, 6].map((minutes, index) => ({
+      id: `fb${index}`,
+      text: `Visit number ${index}`,
+      submittedAt: minutesAgo(minutes),
+      sameUser: true,
+    }));
+
+    expect(moderate('Another lovely church', previous.slice(0, 2)).decision).toBe('publish');
+    expect(moderate('Another lovely church', previous).reasons).toEqual([
+      expect.objectContaining({ check: 'burst' }),
+    ]);
+  });
+
+  it('flags near-duplicates of the same visitor\'s earlier feedback', () => {
+    const verdict = moderate('The church is beautiful and well kept, highly recommended!', [
+      { id: 'old1', text: 'The church is beautiful and well kept. Highly recommended', submittedAt: minutesAgo(3000), sameUser: true },
+    ]);
+
+    expect(verdict.reasons).toEqual([
+      expect.objectContaining({ check: 'duplicate', relatedFeedbackId: 'old1' }),
+    ]);
+  });
+
+  it('allows short common phrases that other visitors also wrote', () => {
+    const verdict = moderate('Beautiful church', [
+      { id: 'other1', text: 'Beautiful church', submittedAt: minutesAgo(60), sameUser: false },
+    ]);
+
+    expect(verdict.decision).toBe('publish');
+  });
+});
+
+describe('splitFlaggedTerms', () => {
+  it('marks whole-word matches only', () => {
+    expect(splitFlaggedTerms('Gago! Not gagoo or Gagong', ['Gago'])).toEqual([
+      { text: 'Gago', flagged: true },
+      { text: '! Not gagoo or Gagong', flagged: false },
+    ]);
+  });
+});
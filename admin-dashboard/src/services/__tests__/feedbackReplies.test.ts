@@ -0,0 +1,44 @@
+/**
+ * Tests for the feedback reply rate and response time metrics.
+ */
+import { describe, it, expect } from 'vitest';
+import { computeFeedbackReplyMetrics, formatResponseTime } from '@shared/feedbackReplies';
+
+const SUBMITTED = new Date('2026-03-02T10:00:00+08:00');
+
+const answeredAfter = (hours: number) => ({
+  submittedAt: SUBMITTED,
+  firstResponseAt: new Date(SUBMITTED.getTime() + hours * 60 * 60 * 1000),
+});
+
+describe('computeFeedbackReplyMetrics', () => {
+  it('computes reply rate and response times over answered feedback only', () => {
+    const metrics = computeFeedbackReplyMetrics([
+      answeredAfter(2),
+      answeredAfter(4),
+      answeredAfter(30),
+      { submittedAt: SUBMITTED, firstResponseAt: null },
+    ]);
+
+    expect(metrics).toEqual({
+      total: 4,
+      replied: 3,
+      replyRate: 0.75,
+      averageResponseHours: 12,
+      medianResponseHours: 4,
+    });
+  });
+
+  it('has no response times when nothing was answered', () => {
+    expect(computeFeedbackReplyMetrics([])).toMatchObject({ replyRate: 0, averageResponseHours: null });
+  });
+});
+
+describe('formatResponseTime', () => {
+  it('uses minutes, hours or days depending on size', () => {
+    expect(formatResponseTime(null)).toBe('—');
+    expect(formatResponseTime(0.5)).toBe('30 min');
+    expect(formatResponseTime(5.25)).toBe('5.3 hours');
+    expect(formatResponseTime(72)).toBe('3 days');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the lexicon-based topic and sentiment tagging of feedback.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  countTopicsByGroup,
+  FEEDBACK_TAGS_VERSION,
+  getFeedbackTags,
+  summarizeFeedbackTopics,
+  tagFeedbackText,
+} from '@shared/feedbackTopics';
+
+describe('tagFeedbackText', () => {
+  it('scores each clause so one complaint does not sink a positive review', () => {
+    const tags = tagFeedbackText('Beautiful baroque church, very peaceful. But the restroom was dirty and there was no parking.');
+
+    expect(tags.topics).toEqual(['restrooms', 'cleanliness', 'parking', 'heritage']);
+    expect(tags.sentimentLabel).toBe('positive');
+    expect(tags.topicSentiment.restrooms).toBeLessThan(0);
+    expect(tags.topicSentiment.heritage).toBeGreaterThan(0);
+  });
+
+  it('understands Filipino and Cebuano, including negation and intensifiers', () => {
+    expect(tagFeedbackText('Napakaganda ng simbahan!')).toMatchObject({ sentimentLabel: 'positive' });
+    const cebuano = tagFeedbackText('Nindot kaayo ang simbahan pero hugaw ang CR.');
+    expect(cebuano).toMatchObject({ topics: ['restrooms', 'cleanliness'], sentimentLabel: 'positive' });
+    expect(cebuano.topicSentiment.restrooms).toBeLessThan(0);
+    expect(tagFeedbackText('The toilets were not clean').sentimentLabel).toBe('negative');
+    expect(tagFeedbackText('Wala kaming nakitang tour guide').topics).toEqual(['guides']);
+  });
+
+  it('leaves text without topic or sentiment words neutral', () => {
+    expect(tagFeedbackText('We visited on Sunday.')).toMatchObject({ topics: [], sentiment: 0, sentimentLabel: 'neutral' });
+  });
+});
+
+describe('getFeedbackTags', () => {
+  it('reuses stored tags of the current version and re-tags older ones', () => {
+    const stored = { ...tagFeedbackText('Great guide'), topics: ['parking'] };
+
+    expect(getFeedbackTags(stored, 'Great guide').topics).toEqual(['parking']);
+    expect(getFeedbackTags({ ...stored, version: FEEDBACK_TAGS_VERSION - 1 }, 'Great guide').topics).toEqual(['guides']);
+    expect(getFeedbackTags(undefined, 'Great guide').topics).toEqual(['guides']);
+  });
+});
+
+describe('topic reporting', () => {
+  const tagged = [
+    'The restroom was dirty',
+    'Clean restrooms, friendly staff',
+    'No parking at all',
+  ].map(tagFeedbackText);
+
+  it('summarizes mentions and sentiment per topic', () => {
+    const summary = summarizeFeedbackTopics(tagged);
+
+    expect(summary[0]).toMatchObject({ topic: 'restrooms', mentions: 2, negative: 1 });
+    expect(summary.find(s => s.topic === 'parking')?.share).toBeCloseTo(1 / 3);
+  });
+
+  it('counts topic mentions per group', () => {
+    const counts = countTopicsByGroup(tagged.map((tags, i) => ({ group: i < 2 ? 'Baclayon' : 'Loboc', tags })));
+
+    expect(counts.Baclayon).toMatchObject({ restrooms: 2, cleanliness: 2, hospitality: 1 });
+    expect(counts.Loboc).toEqual({ parking: 1 });
+  });
+});
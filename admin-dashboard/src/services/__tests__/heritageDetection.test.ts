@@ -0,0 +1,146 @@
+/**
+ * Tests for heritage significance scoring: each rule, the review thresholds
+ * and the rule version recorded on an assessment.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+
+import type { Church } from '@/lib/churches';
+import { assessHeritageSignificance } from '@/lib/heritage-detection';
+import { DEFAULT_HERITAGE_RULES, validateHeritageRules, type HeritageRuleSet } from '@/lib/heritage-rules';
+
+const church = (fields: Record<string, unknown>) => fields as unknown as Church;
+
+const indicator = (fields: Record<string, unknown>, name: string, ruleSet?: HeritageRuleSet) =>
+  assessHeritageSignificance(church(fields), ruleSet).indicators.find(i => i.name === name);
+
+const withRules = (changes: Partial<HeritageRuleSet['rules']>, version = 7): HeritageRuleSet => ({
+  ...DEFAULT_HERITAGE_RULES,
+  version,
+  rules: { ...DEFAULT_HERITAGE_RULES.rules, ...changes },
+});
+
+describe('assessHeritageSignificance rules', () => {
+  it('always sends a declared ICP or NCT to heritage review', () => {
+    const assessment = assessHeritageSignificance(church({ historicalDetails: { heritageClassification: 'ICP' } }));
+
+    expect(assessment.score).toBe(3);
+    expect(assessment.recommendation).toBe('heritage_review');
+    expect(assessment.shouldRequireReview).toBe(true);
+    expect(assessment.indicators[0]).toMatchObject({ name: 'declared_icp', weight: 3 });
+    expect(indicator({ classification: 'National Cultural Treasures' }, 'declared_nct')?.present).toBe(true);
+  });
+
+  it('weights the founding year by the oldest matching tier', () => {
+    expect(indicator({ foundingYear: 1750 }, 'founding_year')).toMatchObject({ present: true, weight: 3 });
+    expect(indicator({ historicalDetails: { foundingYear: 'circa 1885' } }, 'founding_year'))
+      .toMatchObject({ present: true, weight: 2 });
+    expect(indicator({ founded: '1920' }, 'founding_year')).toMatchObject({ present: true, weight: 1 });
+    expect(indicator({ foundingYear: 1990 }, 'founding_year')).toMatchObject({ present: false, weight: 0 });
+    expect(indicator({}, 'founding_year')?.description).toBe('No founding year recorded');
+  });
+
+  it('caps a tier weight at the founding year rule weight', () => {
+    const ruleSet = withRules({ foundingYear: { ...DEFAULT_HERITAGE_RULES.rules.foundingYear, weight: 2 } });
+
+    expect(indicator({ foundingYear: 1750 }, 'founding_year', ruleSet)?.weight).toBe(2);
+  });
+
+  it('matches heritage architectural styles case-insensitively within the text', () => {
+    expect(indicator({ architecturalStyle: 'Earthquake BAROQUE' }, 'architectural_style'))
+      .toMatchObject({ present: true, weight: 2 });
+    expect(indicator({ architecturalStyle: 'Modern' }, 'architectural_style')).toMatchObject({ present: false, weight: 0 });
+  });
+
+  it('matches religious classifications stored with underscores', () => {
+    expect(indicator({ historicalDetails: { religiousClassifications: ['diocesan_shrine'] } }, 'religious_classification'))
+      .toMatchObject({ present: true, weight: 1 });
+    expect(indicator({ religiousClassification: 'Parish Church' }, 'religious_classification')?.present).toBe(false);
+  });
+
+  it('recognizes attached declaration documents by type or name', () => {
+    expect(indicator({ documents: [{ type: 'heritage-doc' }] }, 'declaration_documents'))
+      .toMatchObject({ present: true, weight: 3 });
+    expect(indicator({ historicalDetails: { supportingDocuments: [{ name: 'NHCP Resolution 2010.pdf' }] } }, 'declaration_documents')?.present)
+      .toBe(true);
+    expect(indicator({ documents: [{ type: 'other', name: 'floor-plan.pdf' }] }, 'declaration_documents')?.present).toBe(false);
+  });
+
+  it('needs a restoration history of the minimum length', () => {
+    expect(indicator({ restorationHistory: 'Roof repaired 1990' }, 'restoration_history')?.present).toBe(false);
+    expect(indicator({ restorationHistory: 'Roof repaired 1990,', preservationHistory: 'belfry 2014' }, 'restoration_history'))
+      .toMatchObject({ present: true, weight: 1 });
+  });
+
+  it('leaves out disabled rules', () => {
+    const ruleSet = withRules({ architecturalStyle: { ...DEFAULT_HERITAGE_RULES.rules.architecturalStyle, enabled: false } });
+
+    expect(indicator({ architecturalStyle: 'Baroque' }, 'architectural_style', ruleSet)).toBeUndefined();
+  });
+});
+
+describe('assessHeritageSignificance thresholds', () => {
+  // Founded 1850 (2) + Baroque (2) = 4
+  const borderline = { foundingYear: 1850, architecturalStyle: 'Baroque' };
+
+  it('auto-approves below the detailed review threshold', () => {
+    const assessment = assessHeritageSignificance(church({ architecturalStyle: 'Baroque' }));
+
+    expect(assessment).toMatchObject({ score: 2, recommendation: 'auto_approve', confidence: 'low', shouldRequireReview: false });
+  });
+
+  it('asks for a detailed review between the two thresholds', () => {
+    for (const fields of [
+      { foundingYear: 1920, architecturalStyle: 'Baroque' },         // 3
+      borderline,                                                    // 4
+      { ...borderline, religiousClassification: 'Jubilee Church' },  // 5
+    ]) {
+      const assessment = assessHeritageSignificance(church(fields));
+      expect(assessment.recommendation).toBe('detailed_review');
+      expect(assessment.confidence).toBe('medium');
+      expect(assessment.shouldRequireReview).toBe(false);
+    }
+    expect(assessHeritageSignificance(church(borderline)).reasoning).toContain('borderline');
+  });
+
+  it('forwards to heritage review at the heritage review threshold', () => {
+    const assessment = assessHeritageSignificance(church({
+      ...borderline,
+      religiousClassification: 'Jubilee Church',
+      restorationHistory: 'Facade restored by the NHCP in 2015',
+    }));
+
+    expect(assessment).toMatchObject({ score: 6, recommendation: 'heritage_review', confidence: 'high', shouldRequireReview: true });
+  });
+
+  it('uses the thresholds of the given rule set', () => {
+    const ruleSet: HeritageRuleSet = { ...withRules({}), thresholds: { heritageReview: 4, detailedReview: 2 } };
+
+    expect(assessHeritageSignificance(church(borderline), ruleSet).recommendation).toBe('heritage_review');
+    expect(assessHeritageSignificance(church({ architecturalStyle: 'Baroque' }), ruleSet).recommendation).toBe('detailed_review');
+  });
+
+  it('records the version of the rule set that produced it', () => {
+    expect(assessHeritageSignificance(church(borderline)).rulesVersion).toBe(0);
+    expect(assessHeritageSignificance(church(borderline), withRules({}, 7)).rulesVersion).toBe(7);
+  });
+});
+
+describe('validateHeritageRules', () => {
+  it('accepts the default rules', () => {
+    expect(validateHeritageRules(DEFAULT_HERITAGE_RULES)).toEqual([]);
+  });
+
+  it('requires the heritage threshold above the detailed one and weights from 1 to 3', () => {
+    const errors = validateHeritageRules({
+      ...withRules({ declarationDocuments: { enabled: true, weight: 4 } }),
+      thresholds: { heritageReview: 3, detailedReview: 3 },
+    });
+
+    expect(errors).toEqual([
+      'Heritage review threshold must be higher than the detailed review threshold',
+      'Weight for declarationDocuments must be between 1 and 3',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for recurring mass schedule expansion, conflicts and the legacy projection.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  expandMassSchedule,
+  findMassScheduleConflicts,
+  projectLegacyMassSchedules,
+  toRRule,
+  type MassRecurrenceRule,
+  type MassScheduleRecurrence,
+} from '@shared/massScheduleRecurrence';
+
+// March 2026: the 1st is a Sunday, the 6th the first Friday, the 27th the last Friday
+const sundayMass: MassRecurrenceRule = { id: 'sun', frequency: 'weekly', byDay: ['SU'], time: '06:00', endTime: '07:00' };
+const firstFriday: MassRecurrenceRule = {
+  id: 'ff',
+  frequency: 'monthly',
+  byDay: ['FR'],
+  ordinals: [1],
+  time: '18:00',
+  label: 'First Friday Mass',
+};
+const lenten: MassRecurrenceRule = {
+  id: 'lent',
+  frequency: 'weekly',
+  byDay: ['WE', 'FR'],
+  time: '17:00',
+  language: 'English',
+  validFrom: '2026-02-18',
+  validUntil: '2026-04-02',
+};
+
+const recurrence = (overrides: Partial<MassScheduleRecurrence>): MassScheduleRecurrence => ({
+  rules: [],
+  exceptions: [],
+  additions: [],
+  ...overrides,
+});
+
+describe('expandMassSchedule', () => {
+  it('expands weekly and nth-weekday monthly rules within the range', () => {
+    const occurrences = expandMassSchedule(recurrence({ rules: [sundayMass, firstFriday] }), '2026-03-01', '2026-03-31');
+    expect(occurrences.filter(o => o.ruleId === 'sun').map(o => o.date))
+      .toEqual(['2026-03-01', '2026-03-08', '2026-03-15', '2026-03-22', '2026-03-29']);
+    expect(occurrences.filter(o => o.ruleId === 'ff').map(o => o.date)).toEqual(['2026-03-06']);
+  });
+
+  it('understands the last weekday of the month', () => {
+    const lastFriday = { ...firstFriday, ordinals: [-1] };
+    expect(expandMassSchedule(recurrence({ rules: [lastFriday] }), '2026-03-01', '2026-03-31').map(o => o.date))
+      .toEqual(['2026-03-27']);
+  });
+
+  it('only expands seasonal rules inside their validity range', () => {
+    const dates = expandMassSchedule(recurrence({ rules: [lenten] }), '2026-03-25', '2026-04-10').map(o => o.date);
+    expect(dates).toEqual(['2026-03-25', '2026-03-27', '2026-04-01']);
+  });
+
+  it('marks occurrences cancelled by an exception and adds one-off masses', () => {
+    const occurrences = expandMassSchedule(recurrence({
+      rules: [sundayMass],
+      exceptions: [{ id: 'x', date: '2026-03-08', ruleId: 'sun', reason: 'Parish fiesta' }],
+      additions: [{ id: 'a', date: '2026-03-08', time: '09:00', label: 'Fiesta Mass' }],
+    }), '2026-03-08', '2026-03-08');
+
+    expect(occurrences).toEqual([
+      expect.objectContaining({ time: '06:00', ruleId: 'sun', cancelled: true, cancelReason: 'Parish fiesta' }),
+      expect.objectContaining({ time: '09:00', additionId: 'a', label: 'Fiesta Mass' }),
+    ]);
+    expect(occurrences[1].cancelled).toBeUndefined();
+  });
+});
+
+describe('findMassScheduleConflicts', () => {
+  it('reports duplicates and overlaps on the same day, ignoring cancelled masses', () => {
+    const conflicts = findMassScheduleConflicts([
+      { date: '2026-03-01', time: '06:00', endTime: '07:00', ruleId: 'a' },
+      { date: '2026-03-01', time: '06:00', ruleId: 'b' },
+      { date: '2026-03-01', time: '06:30', ruleId: 'c', cancelled: true },
+      { date: '2026-03-08', time: '08:00', ruleId: 'd' },
+      { date: '2026-03-08', time: '08:45', ruleId: 'e' },
+      { date: '2026-03-08', time: '09:45', ruleId: 'f' },
+    ]);
+
+    expect(conflicts.map(c => [c.date, c.type, c.occurrences.map(o => o.ruleId)])).toEqual([
+      ['2026-03-01', 'duplicate', ['a', 'b']],
+      ['2026-03-08', 'overlap', ['d', 'e']],
+    ]);
+  });
+});
+
+describe('projectLegacyMassSchedules', () => {
+  it('lists weekly rules in season on the given day, sorted by weekday and time', () => {
+    const rules = recurrence({ rules: [lenten, firstFriday, sundayMass] });
+
+    expect(projectLegacyMassSchedules(rules, '2026-03-01')).toEqual([
+      { day: 'Sunday', time: '06:00', endTime: '07:00', language: 'Cebuano', isFbLive: false },
+      { day: 'Wednesday', time: '17:00', endTime: '', language: 'English', isFbLive: false },
+      { day: 'Friday', time: '17:00', endTime: '', language: 'English', isFbLive: false },
+    ]);
+    expect(projectLegacyMassSchedules(rules, '2026-04-03').map(s => s.day)).toEqual(['Sunday']);
+  });
+
+  it('drops duplicate entries from overlapping rules', () => {
+    const copy = { ...sundayMass, id: 'sun-2' };
+    expect(projectLegacyMassSchedules(recurrence({ rules: [sundayMass, copy] }), '2026-03-01')).toHaveLength(1);
+  });
+});
+
+describe('toRRule', () => {
+  it('writes UNTIL as a date, or as a UTC time for a local time zone', () => {
+    expect(toRRule(firstFriday)).toBe('FREQ=MONTHLY;BYDAY=1FR');
+    expect(toRRule(lenten)).toBe('FREQ=WEEKLY;BYDAY=WE,FR;UNTIL=20260402');
+    expect(toRRule(lenten, { utcOffsetMinutes: 480 })).toBe('FREQ=WEEKLY;BYDAY=WE,FR;UNTIL=20260402T155959Z');
+  });
+});
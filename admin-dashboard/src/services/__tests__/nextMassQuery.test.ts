@@ -0,0 +1,107 @@
+/**
+ * Tests for the "next mass near me" search behind the nextMasses endpoint.
+ */
+import { describe, it, expect } from 'vitest';
+import { expandScheduleDays, findNextMasses, type NextMassChurch } from '@shared/nextMassQuery';
+
+// 05:30 on Monday March 2 in Manila, still Sunday evening in UTC
+const FROM = new Date('2026-03-01T21:30:00Z');
+const ORIGIN = { latitude: 9.62, longitude: 123.87 };
+
+const CHURCHES: NextMassChurch[] = [
+  {
+    id: 'near',
+    name: 'Near Church',
+    ...ORIGIN,
+    massSchedules: [
+      { day: 'Weekdays', time: '06:00 - 07:00' },
+      { day: 'Sunday', time: '06:00' },
+    ],
+  },
+  {
+    id: 'far',
+    name: 'Far Church',
+    latitude: 9.665, // About 5 km north
+    longitude: 123.87,
+    massSchedules: [{ day: 'Monday-Friday', time: '6:00 AM', language: 'English' }],
+  },
+  {
+    id: 'late',
+    name: 'Late Church',
+    ...ORIGIN,
+    massSchedules: [{ day: 'Daily', time: '09:00', isFbLive: true }],
+  },
+  {
+    id: 'unmapped',
+    name: 'Unmapped Church',
+    massSchedules: [{ day: 'Daily', time: '06:15' }],
+  },
+];
+
+describe('expandScheduleDays', () => {
+  it('understands single days, aliases and ranges', () => {
+    expect(expandScheduleDays('Sunday')).toEqual([0]);
+    expect(expandScheduleDays('Daily')).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(expandScheduleDays('Weekdays')).toEqual([1, 2, 3, 4, 5]);
+    expect(expandScheduleDays('Mon - Wed')).toEqual([1, 2, 3]);
+    expect(expandScheduleDays('Friday-Monday')).toEqual([5, 6, 0, 1]);
+    expect(expandScheduleDays('Feast days')).toEqual([]);
+  });
+});
+
+describe('findNextMasses', () => {
+  it('uses the Manila date and weekday, not the UTC one', () => {
+    const [first] = findNextMasses(CHURCHES, { ...ORIGIN, from: FROM });
+
+    expect(first).toMatchObject({
+      churchId: 'near',
+      day: 'Monday',
+      time: '06:00',
+      endTime: '07:00',
+      startsAt: '2026-03-01T22:00:00.000Z',
+      startsInMinutes: 30,
+      distanceKm: 0,
+    });
+  });
+
+  it('ranks by start time plus travel time and skips churches without coordinates', () => {
+    const masses = findNextMasses(CHURCHES, { ...ORIGIN, from: FROM });
+
+    expect(masses.map(m => m.churchId)).toEqual(['near', 'far']);
+    expect(masses[1].distanceKm).toBe(5);
+  });
+
+  it('ranks by start time only without a location', () => {
+    const masses = findNextMasses(CHURCHES, { from: FROM });
+
+    expect(masses.map(m => [m.churchId, m.time])).toEqual([
+      ['near', '06:00'],
+      ['far', '06:00'],
+      ['unmapped', '06:15'],
+    ]);
+    expect(masses.every(m => m.distanceKm === null)).toBe(true);
+  });
+
+  it('only returns masses inside the time window', () => {
+    expect(findNextMasses(CHURCHES, { ...ORIGIN, from: FROM, withinMinutes: 20 })).toEqual([]);
+    expect(findNextMasses(CHURCHES, { ...ORIGIN, from: FROM, withinMinutes: 240 }).map(m => m.churchId))
+      .toEqual(['near', 'far', 'late']);
+  });
+
+  it('rolls over to the next Manila day late at night', () => {
+    // 23:30 on Sunday in Manila
+    const masses = findNextMasses(CHURCHES, { ...ORIGIN, from: new Date('2026-03-01T15:30:00Z'), withinMinutes: 8 * 60 });
+
+    expect(masses[0]).toMatchObject({ churchId: 'near', day: 'Monday', startsInMinutes: 390 });
+    expect(masses.some(m => m.day === 'Sunday')).toBe(false);
+  });
+
+  it('filters by language, live stream, distance and limit', () => {
+    const query = { ...ORIGIN, from: FROM, withinMinutes: 240 };
+
+    expect(findNextMasses(CHURCHES, { ...query, language: 'english' }).map(m => m.churchId)).toEqual(['far']);
+    expect(findNextMasses(CHURCHES, { ...query, fbLiveOnly: true }).map(m => m.churchId)).toEqual(['late']);
+    expect(findNextMasses(CHURCHES, { ...query, maxDistanceKm: 1 }).map(m => m.churchId)).toEqual(['near', 'late']);
+    expect(findNextMasses(CHURCHES, { ...query, limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for the field-by-field review of a parish's staged pendingChanges.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const firestore = vi.hoisted(() => ({
+  church: null as Record<string, unknown> | null,
+  updateDoc: vi.fn(),
+  addDoc: vi.fn(),
+}));
+
+// Firestore reads return the church set by each test; writes are recorded.
+vi.mock('firebase/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  collection: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  getDoc: vi.fn(async () => ({
+    id: 'church-1',
+    exists: () => firestore.church !== null,
+    data: () => firestore.church,
+  })),
+  updateDoc: firestore.updateDoc,
+  addDoc: firestore.addDoc,
+}));
+vi.mock('@/lib/firebase', () => ({
+  db: {},
+  functions: {},
+  auth: { currentUser: null },
+}));
+vi.mock('@/services/auditService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/auditService')>()),
+  AuditService: { logAction: vi.fn(async () => undefined), generateSessionId: () => 'session-1' },
+}));
+vi.mock('@/lib/notifications', () => ({ notifyPendingChangesReviewed: vi.fn(async () => undefined) }));
+
+import type { UserProfile } from '@/contexts/AuthContext';
+import { reviewPendingChangesByField } from '@/lib/workflow-state-machine';
+
+const chancery = { uid: 'chancery-1', email: 'chancery@example.test', name: 'Chancery', role: 'chancery_office', diocese: 'tagbilaran' } as UserProfile;
+
+const PENDING_DATA = {
+  description: 'Restored belfry',
+  coordinates: { latitude: 9.62, longitude: 123.87 },
+  contactInfo: { phone: '0912', email: 'parish@example.test' },
+  historicalDetails: { foundingYear: '1700' },
+};
+
+const lastUpdate = () => firestore.updateDoc.mock.calls[0][1] as Record<string, unknown>;
+
+describe('reviewPendingChangesByField', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    firestore.church = {
+      name: 'St. Joseph',
+      diocese: 'tagbilaran',
+      status: 'approved',
+      description: 'Old description',
+      contactInfo: { phone: '0000' },
+      hasPendingChanges: true,
+      pendingChanges: {
+        changedFields: Object.keys(PENDING_DATA),
+        data: PENDING_DATA,
+        submittedBy: { uid: 'parish-1' },
+      },
+    };
+  });
+
+  it('requires a decision for every changed field', async () => {
+    const result = await reviewPendingChangesByField('church-1', chancery, [
+      { field: 'description', decision: 'accept' },
+      { field: 'coordinates', decision: 'accept' },
+    ]);
+
+    expect(result).toEqual({ success: false, error: 'Missing decision for: contactInfo, historicalDetails' });
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+  });
+
+  it('requires a reason for every rejection', async () => {
+    const result = await reviewPendingChangesByField('church-1', chancery, [
+      { field: 'description', decision: 'accept' },
+      { field: 'coordinates', decision: 'accept' },
+      { field: 'contactInfo', decision: 'reject', reason: '  ' },
+      { field: 'historicalDetails', decision: 'accept' },
+    ]);
+
+    expect(result).toEqual({ success: false, error: 'A reason is required for rejected field: contactInfo' });
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+  });
+
+  it('merges accepted fields, with coordinates at root level, and drops rejected ones', async () => {
+    const result = await reviewPendingChangesByField('church-1', chancery, [
+      { field: 'description', decision: 'reject', reason: ' Not accurate ' },
+      { field: 'coordinates', decision: 'accept' },
+      { field: 'contactInfo', decision: 'accept' },
+      { field: 'historicalDetails', decision: 'reject', reason: 'Needs a source' },
+    ]);
+
+    expect(result).toEqual({
+      success: true,
+      acceptedFields: ['coordinates', 'contactInfo'],
+      rejectedFields: [
+        { field: 'description', reason: 'Not accurate' },
+        { field: 'historicalDetails', reason: 'Needs a source' },
+      ],
+    });
+
+    const update = lastUpdate();
+    expect(update).toMatchObject({
+      latitude: 9.62,
+      longitude: 123.87,
+      contactInfo: { phone: '0912', email: 'parish@example.test' },
+      hasPendingChanges: false,
+    });
+    expect(update).not.toHaveProperty('coordinates');
+    expect(update).not.toHaveProperty('description');
+    expect(update).not.toHaveProperty('historicalDetails');
+    expect(update.pendingChangesReview).toMatchObject({
+      acceptedFields: ['coordinates', 'contactInfo'],
+      rejectedFields: [{ field: 'description' }, { field: 'historicalDetails' }],
+    });
+  });
+
+  it('clears pendingChanges without approving when every field is rejected', async () => {
+    const result = await reviewPendingChangesByField(
+      'church-1',
+      chancery,
+      Object.keys(PENDING_DATA).map(field => ({ field, decision: 'reject' as const, reason: 'No' })),
+      'See comments'
+    );
+
+    expect(result.success).toBe(true);
+    const update = lastUpdate();
+    expect(update.hasPendingChanges).toBe(false);
+    expect(update.pendingChanges).toBeDefined(); // deleteField() sentinel
+    expect(update).not.toHaveProperty('approvedAt');
+    expect(update.reviewNotes).toBe('See comments');
+    expect(firestore.addDoc).toHaveBeenCalledWith(
+      { path: 'churches/church-1/status_audit' },
+      expect.objectContaining({ metadata: expect.objectContaining({ action: 'review_pending_changes_by_field' }) })
+    );
+  });
+
+  it('only lets reviewers decide', async () => {
+    const parish = { ...chancery, role: 'parish' } as UserProfile;
+    const result = await reviewPendingChangesByField('church-1', parish, []);
+
+    expect(result.success).toBe(false);
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for when a reviewer's claim on a submission blocks other reviewers.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+vi.mock('@/lib/notifications', () => ({ notifyReviewAssigned: vi.fn() }));
+
+import { getClaimConflict, isClaimActive, type ReviewClaim } from '@/lib/review-claims';
+
+const NOW = new Date('2026-05-04T09:00:00Z');
+
+const claim = (overrides: Partial<ReviewClaim> = {}): ReviewClaim => ({
+  reviewerId: 'reviewer-1',
+  reviewerName: 'Reviewer One',
+  reviewerRole: 'chancery_office',
+  status: 'pending',
+  claimedAt: Timestamp.fromDate(new Date('2026-05-04T08:00:00Z')),
+  expiresAt: Timestamp.fromDate(new Date('2026-05-04T12:00:00Z')),
+  ...overrides,
+});
+
+describe('isClaimActive', () => {
+  it('holds until the claim expires', () => {
+    expect(isClaimActive(claim(), 'pending', NOW)).toBe(true);
+    expect(isClaimActive(claim({ expiresAt: Timestamp.fromDate(NOW) }), 'pending', NOW)).toBe(false);
+    expect(isClaimActive(claim({ expiresAt: Timestamp.fromDate(new Date('2026-05-04T08:59:00Z')) }), 'pending', NOW))
+      .toBe(false);
+  });
+
+  it('stops applying once the church leaves the claimed status', () => {
+    expect(isClaimActive(claim(), 'heritage_review', NOW)).toBe(false);
+    expect(isClaimActive(claim({ status: 'heritage_review' }), 'heritage_review', NOW)).toBe(true);
+  });
+
+  it('treats a missing claim or expiry as no claim', () => {
+    expect(isClaimActive(undefined, 'pending', NOW)).toBe(false);
+    expect(isClaimActive(null, 'pending', NOW)).toBe(false);
+    expect(isClaimActive({ ...claim(), expiresAt: undefined } as unknown as ReviewClaim, 'pending', NOW)).toBe(false);
+  });
+});
+
+describe('getClaimConflict', () => {
+  it('returns an active claim held by another reviewer', () => {
+    const church = { status: 'pending' as const, reviewClaim: claim() };
+
+    expect(getClaimConflict(church, { uid: 'reviewer-2' }, NOW)).toEqual(church.reviewClaim);
+  });
+
+  it('never blocks the reviewer who holds the claim', () => {
+    expect(getClaimConflict({ status: 'pending', reviewClaim: claim() }, { uid: 'reviewer-1' }, NOW)).toBeNull();
+  });
+
+  it('ignores expired claims and claims for another status', () => {
+    const expired = claim({ expiresAt: Timestamp.fromDate(new Date('2026-05-04T08:30:00Z')) });
+
+    expect(getClaimConflict({ status: 'pending', reviewClaim: expired }, { uid: 'reviewer-2' }, NOW)).toBeNull();
+    expect(getClaimConflict({ status: 'approved', reviewClaim: claim() }, { uid: 'reviewer-2' }, NOW)).toBeNull();
+    expect(getClaimConflict({ status: 'pending' }, { uid: 'reviewer-2' }, NOW)).toBeNull();
+  });
+});
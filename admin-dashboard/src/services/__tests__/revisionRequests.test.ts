@@ -0,0 +1,181 @@
+/**
+ * Tests for the needs_revision round trip: which flagged fields count as
+ * addressed, comment marking, and the request / resubmit status changes.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const firestore = vi.hoisted(() => ({
+  church: null as Record<string, unknown> | null,
+  updateDoc: vi.fn(),
+  addDoc: vi.fn(),
+}));
+
+// Firestore reads return the church set by each test; writes are recorded.
+vi.mock('firebase/firestore', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('firebase/firestore')>()),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  collection: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  getDoc: vi.fn(async () => ({
+    id: 'church-1',
+    exists: () => firestore.church !== null,
+    data: () => firestore.church,
+  })),
+  updateDoc: firestore.updateDoc,
+  addDoc: firestore.addDoc,
+}));
+vi.mock('@/lib/firebase', () => ({
+  db: {},
+  functions: {},
+  auth: { currentUser: null },
+}));
+vi.mock('@/services/auditService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/auditService')>()),
+  AuditService: { logAction: vi.fn() },
+}));
+
+import type { UserProfile } from '@/contexts/AuthContext';
+import type { ChurchInfo } from '@/components/parish/types';
+import type { RevisionComment } from '@/types/church';
+import { getAddressedRevisionFields, markAddressedComments } from '@/lib/revision-requests';
+import { requestChurchRevision, resubmitChurchAfterRevision } from '@/lib/churches';
+
+const chancery = { uid: 'chancery-1', email: 'chancery@example.test', name: 'Chancery', role: 'chancery_office', diocese: 'tagbilaran' } as UserProfile;
+const parish = { uid: 'parish-1', email: 'parish@example.test', name: 'Parish', role: 'parish', diocese: 'tagbilaran' } as UserProfile;
+
+const info = (overrides: Partial<ChurchInfo>): ChurchInfo => ({
+  churchName: 'St. Joseph',
+  locationDetails: { streetAddress: 'Main St', barangay: 'Poblacion', municipality: 'Dauis' },
+  historicalDetails: { foundingYear: '1697' },
+  feastDay: 'March 19',
+  photos: [{ url: 'a.jpg' }],
+  ...overrides,
+} as ChurchInfo);
+
+describe('getAddressedRevisionFields', () => {
+  const comments: RevisionComment[] = [
+    { field: 'barangay', comment: 'Wrong barangay' },
+    { field: 'foundingYear', comment: 'Cite a source' },
+    { field: 'photos', comment: 'Add a facade photo' },
+    { field: 'notAField', comment: 'Ignored' },
+  ];
+
+  it('counts only flagged fields whose value changed', () => {
+    const before = info({});
+    const after = info({
+      locationDetails: { ...before.locationDetails, barangay: 'Totolan' },
+      feastDay: 'May 1', // Changed but not flagged
+    });
+
+    expect(getAddressedRevisionFields(comments, before, after)).toEqual(['barangay']);
+  });
+
+  it('compares nested values and media by URL', () => {
+    const before = info({});
+    const after = info({ photos: [{ url: 'a.jpg' }, { url: 'b.jpg' }] as ChurchInfo['photos'] });
+
+    expect(getAddressedRevisionFields(comments, before, after)).toEqual(['photos']);
+    expect(getAddressedRevisionFields(comments, before, info({}))).toEqual([]);
+  });
+
+  it('treats a missing value and an empty one as the same', () => {
+    const before = info({ feastDay: undefined });
+    const after = info({ feastDay: undefined, historicalDetails: {} as ChurchInfo['historicalDetails'] });
+
+    expect(getAddressedRevisionFields([{ field: 'feastDay', comment: 'Add it' }], before, after)).toEqual([]);
+    expect(getAddressedRevisionFields(comments, before, after)).toEqual(['foundingYear']);
+  });
+});
+
+describe('markAddressedComments', () => {
+  it('marks addressed comments and keeps the first addressedAt', () => {
+    const earlier = new Date('2026-03-01T00:00:00Z');
+    const now = new Date('2026-03-05T00:00:00Z');
+
+    expect(markAddressedComments([
+      { field: 'barangay', comment: 'a', addressed: true, addressedAt: earlier },
+      { field: 'feastDay', comment: 'b' },
+      { field: 'photos', comment: 'c', addressed: true, addressedAt: earlier },
+    ], ['barangay', 'feastDay'], now)).toEqual([
+      { field: 'barangay', comment: 'a', addressed: true, addressedAt: earlier },
+      { field: 'feastDay', comment: 'b', addressed: true, addressedAt: now },
+      { field: 'photos', comment: 'c', addressed: false, addressedAt: earlier },
+    ]);
+  });
+});
+
+describe('requestChurchRevision', () => {
+  beforeEach(() => {
+    firestore.updateDoc.mockReset();
+    firestore.addDoc.mockReset();
+    firestore.church = { name: 'St. Joseph', diocese: 'tagbilaran', status: 'pending' };
+  });
+
+  it('sends a pending church back with the non-empty comments', async () => {
+    const result = await requestChurchRevision('church-1', [
+      { field: 'barangay', comment: '  Wrong barangay ' },
+      { field: 'feastDay', comment: '   ' },
+    ], chancery);
+
+    expect(result).toEqual({ success: true });
+    const [, update] = firestore.updateDoc.mock.calls[0];
+    expect(update.status).toBe('needs_revision');
+    expect(update.revisionRequest).toMatchObject({
+      fromStatus: 'pending',
+      requestedBy: { uid: 'chancery-1', role: 'chancery_office' },
+      comments: [{ field: 'barangay', comment: 'Wrong barangay' }],
+    });
+    expect(firestore.addDoc).toHaveBeenCalledWith(
+      { path: 'churches/church-1/status_audit' },
+      expect.objectContaining({ fromStatus: 'pending', toStatus: 'needs_revision' })
+    );
+  });
+
+  it('requires a comment or a note', async () => {
+    const result = await requestChurchRevision('church-1', [{ field: 'barangay', comment: ' ' }], chancery);
+
+    expect(result.success).toBe(false);
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+  });
+});
+
+describe('resubmitChurchAfterRevision', () => {
+  beforeEach(() => {
+    firestore.updateDoc.mockReset();
+    firestore.addDoc.mockReset();
+  });
+
+  it('returns a needs_revision church to pending and marks the addressed comments', async () => {
+    firestore.church = {
+      name: 'St. Joseph',
+      diocese: 'tagbilaran',
+      status: 'needs_revision',
+      revisionRequest: {
+        comments: [
+          { field: 'barangay', comment: 'Wrong barangay' },
+          { field: 'photos', comment: 'Add a facade photo' },
+        ],
+      },
+    };
+
+    const result = await resubmitChurchAfterRevision('church-1', ['barangay'], parish);
+
+    expect(result).toEqual({ success: true });
+    const [, update] = firestore.updateDoc.mock.calls[0];
+    expect(update.status).toBe('pending');
+    expect(update['revisionRequest.comments']).toEqual([
+      expect.objectContaining({ field: 'barangay', addressed: true, addressedAt: expect.any(Date) }),
+      expect.objectContaining({ field: 'photos', addressed: false }),
+    ]);
+  });
+
+  it.each(['pending', 'approved', 'heritage_review'])('rejects a resubmit from %s', async (status) => {
+    firestore.church = { name: 'St. Joseph', diocese: 'tagbilaran', status };
+
+    const result = await resubmitChurchAfterRevision('church-1', [], parish);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`status is '${status}'`);
+    expect(firestore.updateDoc).not.toHaveBeenCalled();
+    expect(firestore.addDoc).not.toHaveBeenCalled();
+  });
+});
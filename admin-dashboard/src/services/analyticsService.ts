@@ -9,6 +9,7 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getFeedbackTags, tagFeedbackText, type FeedbackTags } from '@shared/feedbackTopics';
 
 // Types for analytics data
 export interface VisitorLog {
@@ -35,6 +36,7 @@ export interface FeedbackData {
   status: 'published' | 'hidden' | 'pending';
   createdAt: Date;
   images?: string[];
+  tags: FeedbackTags;
 }
 
 export interface AnalyticsData {
@@ -143,7 +145,8 @@ export class AnalyticsService {
             message: data.message || data.comment || '',
             status: data.status || 'published',
             createdAt: createdAt,
-            images: data.images || []
+            images: data.images || [],
+            tags: getFeedbackTags(data.tags, data.message || data.comment || '')
           } as FeedbackData;
         });
 
@@ -286,7 +289,8 @@ export class AnalyticsService {
           subject: subjects[Math.floor(Math.random() * subjects.length)],
           message: 'Sample feedback message about the church experience.',
           status: 'published',
-          createdAt: date
+          createdAt: date,
+          tags: tagFeedbackText('Sample feedback message about the church experience.')
         });
       }
     }
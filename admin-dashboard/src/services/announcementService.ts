@@ -15,9 +15,10 @@ import {
   type QueryConstraint
 } from 'firebase/firestore';
 import { db, auth } from '@/lib/firebase';
-import type { Announcement, AnnouncementFormData, AnnouncementFilters } from '@/types/announcement';
+import type { Announcement, AnnouncementFormData, AnnouncementFilters, AnnouncementStatus } from '@/types/announcement';
 import type { Diocese, UserProfile } from '@/contexts/AuthContext';
 import { AuditService } from './auditService';
+import { ParishService } from './parishService';
 const ANNOUNCEMENTS_COLLECTION = 'announcements';
 
 // Convert Firestore document to Announcement
@@ -31,6 +32,8 @@ const convertToAnnouncement = (doc: any): Announcement => {
     scope: data.scope as 'diocese' | 'parish',
     diocese: data.diocese as 'tagbilaran' | 'talibon',
     parishId: data.parishId,
+    targets: data.targets || undefined,
+    targetParishIds: data.targetParishIds || undefined,
     eventDate: data.eventDate?.toDate(),
     eventTime: data.eventTime,
     endTime: data.endTime,
@@ -40,6 +43,11 @@ const convertToAnnouncement = (doc: any): Announcement => {
     contactInfo: data.contactInfo,
     createdAt: data.createdAt?.toDate() || new Date(),
     updatedAt: data.updatedAt?.toDate() || new Date(),
+    status: data.status,
+    publishAt: data.publishAt?.toDate(),
+    expireAt: data.expireAt?.toDate(),
+    publishedAt: data.publishedAt?.toDate(),
+    recurrence: data.recurrence || undefined,
     createdBy: data.createdBy,
     isArchived: data.isArchived || false,
     archivedAt: data.archivedAt?.toDate(),
@@ -48,24 +56,36 @@ const convertToAnnouncement = (doc: any): Announcement => {
 
 // Convert form data to Firestore document
 const convertToFirestoreData = (formData: AnnouncementFormData, userId: string, diocese: Diocese, isUpdate = false) => {
+  const now = new Date();
+  const publishAt = formData.publishAt && formData.publishAt.trim() ? new Date(formData.publishAt) : null;
+  const expireAt = formData.expireAt && formData.expireAt.trim() ? new Date(formData.expireAt) : null;
+  const recurrence = formData.recurrence?.byDay?.length ? formData.recurrence : null;
+
   // Determine if the announcement should be archived based on event date
-  // If no event date is provided, or if event date is in the future, it should NOT be archived
-  let shouldBeArchived = false;
-  if (formData.eventDate && formData.eventDate.trim()) {
+  // If no event date is provided, or if event date is in the future, it should NOT be archived.
+  // Recurring announcements are rolled to their next occurrence by the scheduler instead.
+  let shouldBeArchived = !!expireAt && expireAt <= now;
+  if (!recurrence && formData.eventDate && formData.eventDate.trim()) {
     const eventDate = new Date(formData.eventDate);
-    const now = new Date();
+    const today = new Date();
     // Set both dates to start of day for fair comparison
     eventDate.setHours(23, 59, 59, 999); // End of event day
-    now.setHours(0, 0, 0, 0); // Start of today
-    shouldBeArchived = eventDate < now;
+    today.setHours(0, 0, 0, 0); // Start of today
+    shouldBeArchived = shouldBeArchived || eventDate < today;
   }
 
+  // Scheduled announcements stay archived (hidden from the mobile app) until publishAt
+  const isScheduled = !!publishAt && publishAt > now;
+  const isArchived = isScheduled || shouldBeArchived;
+  const status: AnnouncementStatus = isScheduled ? 'scheduled' : shouldBeArchived ? 'archived' : 'published';
+
   const baseData = {
     title: formData.title,
     description: formData.description,
     scope: formData.scope,
     diocese: diocese,
-    parishId: formData.parishId || null,
+    parishId: formData.targets ? null : formData.parishId || null,
+    targets: formData.targets || null,
     // Event fields are optional - only include if provided
     eventDate: formData.eventDate && formData.eventDate.trim() ? Timestamp.fromDate(new Date(formData.eventDate)) : null,
     eventTime: formData.eventTime && formData.eventTime.trim() ? formData.eventTime : null,
@@ -74,16 +94,21 @@ const convertToFirestoreData = (formData: AnnouncementFormData, userId: string,
     endDate: formData.endDate && formData.endDate.trim() ? Timestamp.fromDate(new Date(formData.endDate)) : null,
     category: formData.category,
     contactInfo: formData.contactInfo && formData.contactInfo.trim() ? formData.contactInfo : null,
+    publishAt: publishAt ? Timestamp.fromDate(publishAt) : null,
+    expireAt: expireAt ? Timestamp.fromDate(expireAt) : null,
+    recurrence,
     updatedAt: Timestamp.now(),
+    status,
     // Automatically unarchive if event date is in the future, archive if in the past
-    isArchived: shouldBeArchived,
+    isArchived,
     // Clear archivedAt if being unarchived
-    ...(shouldBeArchived ? {} : { archivedAt: null }),
+    ...(isArchived && !isScheduled ? {} : { archivedAt: null }),
   };
 
   if (!isUpdate) {
     return {
       ...baseData,
+      publishedAt: status === 'published' ? Timestamp.now() : null,
       createdAt: Timestamp.now(),
       createdBy: userId,
     };
@@ -92,6 +117,23 @@ const convertToFirestoreData = (formData: AnnouncementFormData, userId: string,
   return baseData;
 };
 
+// Parish secretaries may only list their own parish (firestore.rules); status
+// changes re-send it so announcements saved before targeting stay editable
+const ownParishTargets = (userProfile?: UserProfile) =>
+  userProfile?.role === 'parish' && userProfile.parishId ? { targetParishIds: [userProfile.parishId] } : {};
+
+// Parishes whose church pages show the announcement (none for diocese-wide ones)
+const resolveTargetParishIds = async (formData: AnnouncementFormData, diocese: Diocese): Promise<string[]> => {
+  if (formData.targets) {
+    const parishIds = await ParishService.resolveAnnouncementTargets(diocese, formData.targets);
+    if (parishIds.length === 0) {
+      throw new Error('No parishes match the selected audience');
+    }
+    return parishIds;
+  }
+  return formData.scope === 'parish' && formData.parishId ? [formData.parishId] : [];
+};
+
 export class AnnouncementService {
   // Create new announcement
   static async createAnnouncement(
@@ -138,7 +180,10 @@ export class AnnouncementService {
         throw new Error('Category is required');
       }
       
-      const data = convertToFirestoreData(formData, userId, diocese);
+      const data = {
+        ...convertToFirestoreData(formData, userId, diocese),
+        targetParishIds: await resolveTargetParishIds(formData, diocese),
+      };
       console.log('🔍 Converted Firestore data:', data);
       
       const docRef = await addDoc(collection(db, ANNOUNCEMENTS_COLLECTION), data);
@@ -164,6 +209,7 @@ export class AnnouncementService {
           metadata: {
             scope: formData.scope,
             category: formData.category,
+            targetParishCount: data.targetParishIds.length,
           },
         }
       ).catch((err) => console.error('[AnnouncementService] Audit log failed:', err));
@@ -209,7 +255,10 @@ export class AnnouncementService {
     userProfile?: UserProfile
   ): Promise<void> {
     try {
-      const data = convertToFirestoreData(formData, userId, diocese, true);
+      const data = {
+        ...convertToFirestoreData(formData, userId, diocese, true),
+        targetParishIds: await resolveTargetParishIds(formData, diocese),
+      };
       await updateDoc(doc(db, ANNOUNCEMENTS_COLLECTION, id), data);
 
       // Log audit event if userProfile provided
@@ -238,9 +287,11 @@ export class AnnouncementService {
   static async archiveAnnouncement(id: string, userProfile?: UserProfile, announcementTitle?: string): Promise<void> {
     try {
       await updateDoc(doc(db, ANNOUNCEMENTS_COLLECTION, id), {
+        status: 'archived',
         isArchived: true,
         archivedAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
+        ...ownParishTargets(userProfile),
       });
 
       // Log audit event if userProfile provided
@@ -266,9 +317,14 @@ export class AnnouncementService {
   static async unarchiveAnnouncement(id: string, userProfile?: UserProfile, announcementTitle?: string): Promise<void> {
     try {
       await updateDoc(doc(db, ANNOUNCEMENTS_COLLECTION, id), {
+        status: 'published',
         isArchived: false,
         archivedAt: null,
+        // Restoring publishes now; drop a publish date or expiry that would hide it again
+        publishAt: null,
+        expireAt: null,
         updatedAt: Timestamp.now(),
+        ...ownParishTargets(userProfile),
       });
 
       // Log audit event if userProfile provided
@@ -340,6 +396,10 @@ export class AnnouncementService {
         constraints.push(where('isArchived', '==', filters.isArchived));
       }
 
+      if (filters?.status) {
+        constraints.push(where('status', '==', filters.status));
+      }
+
       // Filter by creator (important for role-based access)
       if (filters?.createdBy) {
         constraints.push(where('createdBy', '==', filters.createdBy));
@@ -356,9 +416,14 @@ export class AnnouncementService {
         console.log('📄 First announcement sample:', snapshot.docs[0].data());
       }
 
-      const announcements = snapshot.docs.map(convertToAnnouncement);
+      let announcements = snapshot.docs.map(convertToAnnouncement);
       console.log('✅ Converted announcements:', announcements);
 
+      // Scheduled announcements are stored archived but belong with the active ones
+      if (filters?.isArchived === true && !filters.status) {
+        announcements = announcements.filter(a => a.status !== 'scheduled');
+      }
+
       return announcements;
     } catch (error) {
       console.error('❌ Error fetching announcements:', error);
@@ -407,65 +472,19 @@ export class AnnouncementService {
     }
   }
 
-  // Automatically archive past events based on endDate or eventDate + endTime
-  static async autoArchivePastEvents(diocese: Diocese): Promise<number> {
-    try {
-      const announcements = await this.getAnnouncements(diocese, { isArchived: false });
-      const now = new Date();
-      let archivedCount = 0;
-
-      for (const announcement of announcements) {
-        let shouldArchive = false;
-
-        // Check if announcement has passed based on various date/time combinations
-        if (announcement.endDate && announcement.endDate < now) {
-          // If endDate is explicitly set and has passed
-          shouldArchive = true;
-        } else if (!announcement.endDate && announcement.eventDate) {
-          // If no endDate but eventDate is set, check eventDate + endTime
-          const eventDate = new Date(announcement.eventDate);
-          
-          if (announcement.endTime) {
-            // If endTime is set (e.g., "09:30"), parse and combine with eventDate
-            const [hours, minutes] = announcement.endTime.split(':').map(Number);
-            const eventEndDateTime = new Date(eventDate);
-            eventEndDateTime.setHours(hours || 0, minutes || 0, 0, 0);
-            
-            if (eventEndDateTime < now) {
-              shouldArchive = true;
-            }
-          } else if (announcement.eventTime) {
-            // If only eventTime is set (no endTime), use eventTime as the cutoff
-            const [hours, minutes] = announcement.eventTime.split(':').map(Number);
-            const eventDateTime = new Date(eventDate);
-            eventDateTime.setHours(hours || 0, minutes || 0, 0, 0);
-            
-            if (eventDateTime < now) {
-              shouldArchive = true;
-            }
-          } else {
-            // If no time specified, use end of eventDate day
-            const eventEndOfDay = new Date(eventDate);
-            eventEndOfDay.setHours(23, 59, 59, 999);
-            
-            if (eventEndOfDay < now) {
-              shouldArchive = true;
-            }
-          }
-        }
-
-        if (shouldArchive && !announcement.isArchived) {
-          console.log(`📦 Auto-archiving past announcement: "${announcement.title}" (ID: ${announcement.id})`);
-          await this.archiveAnnouncement(announcement.id);
-          archivedCount++;
-        }
-      }
+  // Get published and scheduled (not yet published) announcements.
+  // Publishing, recurring and archiving are handled by the
+  // processAnnouncementSchedules Cloud Function.
+  static async getActiveAnnouncements(
+    diocese: Diocese,
+    filters?: Omit<AnnouncementFilters, 'isArchived' | 'status'>
+  ): Promise<Announcement[]> {
+    const [published, scheduled] = await Promise.all([
+      this.getAnnouncements(diocese, { ...filters, isArchived: false }),
+      this.getAnnouncements(diocese, { ...filters, status: 'scheduled' }),
+    ]);
 
-      return archivedCount;
-    } catch (error) {
-      console.error('Error auto-archiving past events:', error);
-      throw new Error('Failed to auto-archive past events');
-    }
+    return [...scheduled, ...published].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   // Get announcement statistics
@@ -473,6 +492,7 @@ export class AnnouncementService {
     total: number;
     active: number;
     archived: number;
+    scheduled: number;
     upcoming: number;
     past: number;
   }> {
@@ -483,7 +503,8 @@ export class AnnouncementService {
       const stats = {
         total: announcements.length,
         active: announcements.filter(a => !a.isArchived).length,
-        archived: announcements.filter(a => a.isArchived).length,
+        archived: announcements.filter(a => a.isArchived && a.status !== 'scheduled').length,
+        scheduled: announcements.filter(a => a.status === 'scheduled').length,
         upcoming: announcements.filter(a => a.eventDate && a.eventDate > now && !a.isArchived).length,
         past: announcements.filter(a => a.eventDate && a.eventDate < now && !a.isArchived).length,
       };
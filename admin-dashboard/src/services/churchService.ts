@@ -132,6 +132,7 @@ const convertToChurch = (doc: FirestoreChurchDoc): Church => {
     feastDay: data.feastDay as string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     massSchedules: (data.massSchedules || []) as any[],
+    massScheduleRules: data.massScheduleRules as import('@/types/church').MassScheduleRecurrence | undefined,
     // Support both root level (new) and nested (legacy) coordinates
     coordinates: data.latitude && data.longitude
       ? { latitude: data.latitude as number, longitude: data.longitude as number }
@@ -154,6 +155,20 @@ const convertToChurch = (doc: FirestoreChurchDoc): Church => {
     reviewNotes: data.reviewNotes as string,
     reviewedBy: data.reviewedBy as string,
     reviewedAt: data.reviewedAt?.toDate(),
+    revisionRequest: data.revisionRequest
+      ? {
+          ...data.revisionRequest,
+          requestedAt: data.revisionRequest.requestedAt?.toDate?.() || data.revisionRequest.requestedAt,
+          resubmittedAt: data.revisionRequest.resubmittedAt?.toDate?.() || data.revisionRequest.resubmittedAt,
+        }
+      : undefined,
+    hasPendingChanges: data.hasPendingChanges as boolean | undefined,
+    pendingChangesReview: data.pendingChangesReview
+      ? {
+          ...data.pendingChangesReview,
+          reviewedAt: data.pendingChangesReview.reviewedAt?.toDate?.() || data.pendingChangesReview.reviewedAt,
+        }
+      : undefined,
     createdAt: data.createdAt?.toDate() || new Date(),
     updatedAt: data.updatedAt?.toDate() || new Date(),
     createdBy: data.createdBy as string,
@@ -204,6 +219,7 @@ const convertToFirestoreData = (formData: ChurchFormData, userId: string, dioces
     assistantPriests: (formData.assistantPriests || []).filter(p => p.trim() !== ''),
     feastDay: formData.feastDay,
     massSchedules: formData.massSchedules,
+    massScheduleRules: formData.massScheduleRules,
     // Save coordinates at root level for mobile app compatibility
     latitude: formData.coordinates?.latitude,
     longitude: formData.coordinates?.longitude,
@@ -488,6 +504,7 @@ export class ChurchService {
         assistantPriests: currentChurch.assistantPriests,
         feastDay: currentChurch.feastDay,
         massSchedules: currentChurch.massSchedules,
+        massScheduleRules: currentChurch.massScheduleRules,
         coordinates: currentChurch.coordinates,
         contactInfo: currentChurch.contactInfo,
         images: currentChurch.images,
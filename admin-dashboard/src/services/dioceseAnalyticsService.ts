@@ -1,6 +1,15 @@
 import { collection, query, where, getDocs, Timestamp, orderBy } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { Diocese } from '@/contexts/AuthContext';
+import { computeFeedbackReplyMetrics, type FeedbackReplyMetrics } from '@shared/feedbackReplies';
+import {
+  countTopicsByGroup,
+  getFeedbackTags,
+  summarizeFeedbackTopics,
+  type FeedbackTags,
+  type FeedbackTopicCounts,
+  type FeedbackTopicSummary,
+} from '@shared/feedbackTopics';
 
 // Internal visitor log type
 interface VisitorLog {
@@ -18,6 +27,7 @@ interface FeedbackDocument {
   church_id?: string;
   rating?: number;
   date_submitted?: Timestamp | { toDate?(): Date; seconds?: number };
+  firstResponseAt?: Timestamp | { toDate?(): Date };
   [key: string]: unknown;
 }
 
@@ -110,6 +120,7 @@ export interface DioceseAnalytics {
   totalVisitors: number;
   totalFeedback: number;
   avgRating: number;
+  feedbackReplies: FeedbackReplyMetrics;
   churchesByMunicipality: Record<string, number>;
   churchesByClassification: {
     NCT: number;
@@ -138,6 +149,9 @@ export interface EngagementMetrics {
     percentage: number;
   }>;
   feedbackByMunicipality: Record<string, number>;
+  feedbackTopics: FeedbackTopicSummary[];
+  topicTrends: Array<{ month: string } & FeedbackTopicCounts>;
+  topicsByMunicipality: Record<string, FeedbackTopicCounts>;
   topRatedChurches: Array<{
     name: string;
     rating: number;
@@ -300,6 +314,10 @@ export class DioceseAnalyticsService {
       const avgRating = feedbackList.length > 0
         ? feedbackList.reduce((sum, f) => sum + (f.rating || 0), 0) / feedbackList.length
         : 0;
+      const feedbackReplies = computeFeedbackReplyMetrics(feedbackList.map(f => ({
+        submittedAt: f.date_submitted?.toDate?.() || null,
+        firstResponseAt: f.firstResponseAt?.toDate?.() || null,
+      })));
 
       // Churches by municipality
       const churchesByMunicipality = churches.reduce((acc, church) => {
@@ -458,6 +476,7 @@ export class DioceseAnalyticsService {
         totalVisitors,
         totalFeedback,
         avgRating: Math.round(avgRating * 10) / 10,
+        feedbackReplies,
         churchesByMunicipality,
         churchesByClassification,
         visitorsByMonth,
@@ -486,6 +505,7 @@ export class DioceseAnalyticsService {
       totalVisitors: 0,
       totalFeedback: 0,
       avgRating: 0,
+      feedbackReplies: computeFeedbackReplyMetrics([]),
       churchesByMunicipality: {},
       churchesByClassification: {
         NCT: 0,
@@ -607,7 +627,7 @@ export class DioceseAnalyticsService {
         churches.push({ id: doc.id, ...doc.data() } as ChurchDocument);
       });
 
-      const feedbackByMunicipality = feedbackList.reduce((acc, f) => {
+      const municipalityOf = (f: FeedbackDocument): string | null => {
         // Match feedback by ID or church name
         const church = churches.find(c => 
           c.id === f.church_id || 
@@ -615,13 +635,30 @@ export class DioceseAnalyticsService {
           c.name === f.church_id ||
           c.basicInfo?.churchName === f.church_id
         );
-        if (church) {
-          const municipality = church.locationDetails?.municipality || church.municipality || 'Unknown';
+        return church ? church.locationDetails?.municipality || church.municipality || 'Unknown' : null;
+      };
+
+      const feedbackByMunicipality = feedbackList.reduce((acc, f) => {
+        const municipality = municipalityOf(f);
+        if (municipality) {
           acc[municipality] = (acc[municipality] || 0) + 1;
         }
         return acc;
       }, {} as Record<string, number>);
 
+      // Feedback topics (stored tags, or tagged now if not backfilled yet)
+      const taggedFeedback = feedbackList.map(f => ({
+        feedback: f,
+        tags: getFeedbackTags(f.tags, (f.comment || f.message || '') as string)
+      }));
+      const feedbackTopics = summarizeFeedbackTopics(taggedFeedback.map(t => t.tags));
+      const topicTrends = this.calculateMonthlyTopics(taggedFeedback);
+      const topicsByMunicipality = countTopicsByGroup(
+        taggedFeedback
+          .map(({ feedback, tags }) => ({ group: municipalityOf(feedback) || '', tags }))
+          .filter(item => item.group)
+      );
+
       // Top rated churches
       const topRatedChurches = analytics.topChurches
         .filter(c => c.feedbackCount > 0)
@@ -638,6 +675,9 @@ export class DioceseAnalyticsService {
         peakVisitingPeriods,
         ratingDistribution,
         feedbackByMunicipality,
+        feedbackTopics,
+        topicTrends,
+        topicsByMunicipality,
         topRatedChurches
       };
     } catch (error) {
@@ -666,10 +706,29 @@ export class DioceseAnalyticsService {
         { rating: 1, count: 0, percentage: 0 }
       ],
       feedbackByMunicipality: {},
+      feedbackTopics: [],
+      topicTrends: [],
+      topicsByMunicipality: {},
       topRatedChurches: []
     };
   }
 
+  /**
+   * Calculate monthly topic mentions in feedback
+   */
+  private static calculateMonthlyTopics(
+    taggedFeedback: Array<{ feedback: FeedbackDocument; tags: FeedbackTags }>
+  ): Array<{ month: string } & FeedbackTopicCounts> {
+    const monthCounts = countTopicsByGroup(taggedFeedback.map(({ feedback, tags }) => {
+      const date = feedback.date_submitted?.toDate?.() || new Date();
+      return { group: `${date.toLocaleString('default', { month: 'long' })} ${date.getFullYear()}`, tags };
+    }));
+
+    return Object.entries(monthCounts)
+      .map(([month, counts]) => ({ month, ...counts }))
+      .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
+  }
+
   /**
    * Calculate monthly visitor counts
    */
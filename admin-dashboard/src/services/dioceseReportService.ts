@@ -3,6 +3,7 @@ import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
 import type { DioceseAnalytics, ChurchSummaryData } from './dioceseAnalyticsService';
 import { addReportHeader, addReportFooter } from '@/lib/report-header';
+import { formatResponseTime } from '@shared/feedbackReplies';
 
 // Type for jsPDF with autoTable extension
 interface jsPDFWithAutoTable extends jsPDF {
@@ -707,6 +708,9 @@ export class DioceseReportService {
       ['Average Daily Visitors', Math.round(analytics.totalVisitors / daysDiff)],
       ['Total Feedback', analytics.totalFeedback],
       ['Average Rating', `${analytics.avgRating.toFixed(1)} / 5.0`],
+      ['Reply Rate', `${Math.round(analytics.feedbackReplies.replyRate * 100)}%`],
+      ['Average Response Time', formatResponseTime(analytics.feedbackReplies.averageResponseHours)],
+      ['Median Response Time', formatResponseTime(analytics.feedbackReplies.medianResponseHours)],
       ['Active Parishes', analytics.recentActivity?.activeParishes || 0]
     ];
 
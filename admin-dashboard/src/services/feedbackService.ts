@@ -15,10 +15,18 @@
  * - Submit suggestions or complaints
  * 
  * MODERATION WORKFLOW:
- * 1. Mobile user submits feedback → status: 'pending' or 'published'
- * 2. Chancery Office reviews in admin dashboard
- * 3. Can hide inappropriate reviews → status: 'hidden'
- * 4. Hidden reviews don't show in mobile app
+ * 1. Mobile user submits feedback → status: 'pending'
+ * 2. onFeedbackCreated Cloud Function runs automatic moderation
+ *    (profanity/slurs, spam, burst submissions, near-duplicates):
+ *    clean feedback → 'published', flagged feedback stays 'pending'
+ *    with the verdict in `moderation`
+ * 3. Chancery Office reviews the flagged queue in admin dashboard
+ * 4. Can hide inappropriate reviews → status: 'hidden'
+ * 5. Hidden reviews don't show in mobile app
+ * 6. Parish and chancery answer in a reply thread (lib/feedback-replies.ts);
+ *    onFeedbackReplyWritten keeps the reply summary on the feedback
+ * 7. Visitors and parishes flag abusive reviews; enough open flags hide them
+ *    automatically, and their author can appeal (lib/feedback-flags.ts)
  * 
  * KEY CONCEPTS:
  * - Service Pattern: Encapsulates all Firestore logic for feedback
@@ -52,6 +60,14 @@ import {
 import { db } from '@/lib/firebase';
 import type { UserProfile } from '@/contexts/AuthContext';
 import { AuditService } from './auditService';
+import type { FeedbackModerationVerdict } from '@shared/feedbackModeration';
+import type { FeedbackHiddenReason } from '@shared/feedbackFlags';
+
+/**
+ * Verdict of the automatic moderation pass, stored on the feedback document
+ * by the onFeedbackCreated Cloud Function.
+ */
+export type FeedbackModeration = FeedbackModerationVerdict & { checkedAt?: Date };
 
 /**
  * FeedbackItem Interface
@@ -71,6 +87,11 @@ import { AuditService } from './auditService';
  * - photos: Array of photo URLs uploaded with feedback
  * - moderatedAt: When chancery took action (hide/unhide)
  * - moderatedBy: Which chancery user moderated
+ * - moderation: Automatic moderation verdict (missing on older feedback)
+ * - hasResponse / replyCount: Public official reply exists / public replies
+ * - firstResponseAt: First official reply, for response time metrics
+ * - flagCount: Open flags from visitors and parishes
+ * - hiddenReason: Why hidden feedback is hidden (a moderator, or flags)
  */
 export interface FeedbackItem {
   id: string;
@@ -88,6 +109,12 @@ export interface FeedbackItem {
   mediaFiles?: MediaFile[];
   moderatedAt?: Date;
   moderatedBy?: string;
+  moderation?: FeedbackModeration;
+  hasResponse?: boolean;
+  replyCount?: number;
+  firstResponseAt?: Date;
+  flagCount?: number;
+  hiddenReason?: FeedbackHiddenReason;
 }
 
 /**
@@ -289,6 +316,7 @@ export class FeedbackService {
         status,
         moderatedAt: Timestamp.now(),  // Current timestamp
         moderatedBy: moderatorId,       // Who performed moderation
+        hiddenReason: status === 'hidden' ? 'moderator' : null,
       });
 
       console.log(`✅ Feedback ${feedbackId} moderated to: ${status}`);
@@ -404,6 +432,7 @@ export class FeedbackService {
         status: 'hidden',
         moderatedAt: Timestamp.now(),
         moderatedBy: moderatorId,
+        hiddenReason: 'moderator',
         rejectedAt: Timestamp.now(),
         rejectedBy: moderatorId,
         rejectionReason: reason || 'Content did not meet guidelines',
@@ -614,6 +643,12 @@ export class FeedbackService {
       mediaFiles: data.mediaFiles || data.images || [],
       moderatedAt: data.moderatedAt?.toDate?.(),
       moderatedBy: data.moderatedBy,
+      moderation: data.moderation
+        ? { ...data.moderation, checkedAt: data.moderation.checkedAt?.toDate?.() }
+        : undefined,
+      hasResponse: data.hasResponse === true,
+      replyCount: data.replyCount || 0,
+      firstResponseAt: data.firstResponseAt?.toDate?.(),
     };
   }
 }
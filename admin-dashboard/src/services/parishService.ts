@@ -1,6 +1,8 @@
 import { db } from '@/lib/firebase';
-import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { addDoc, collection, deleteDoc, doc, getDocs, query, updateDoc, where, Timestamp } from 'firebase/firestore';
 import type { Diocese } from '@/contexts/AuthContext';
+import type { AnnouncementTargets } from '@/types/announcement';
+import { matchTargetParishes } from '@/lib/announcement-targets';
 
 export interface Parish {
   id: string;
@@ -17,8 +19,18 @@ export interface Parish {
   updatedAt?: Date;
 }
 
+// Named group of parishes used to target announcements
+export interface Vicariate {
+  id: string;
+  diocese: Diocese;
+  name: string;
+  parishIds: string[];
+  updatedAt?: Date;
+}
+
 export class ParishService {
   private static readonly COLLECTION = 'parishes';
+  private static readonly VICARIATES_COLLECTION = 'vicariates';
 
   /**
    * Get all parishes for a specific diocese
@@ -94,4 +106,106 @@ export class ParishService {
       return 0;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the parishes announcements can target. Parishes are stored as church
+   * documents (parishId is the church ID); entries in the parishes
+   * collection fill in parishes without a church profile yet.
+   */
+  static async getAnnouncementTargetParishes(diocese: Diocese): Promise<Parish[]> {
+    try {
+      const [churchSnapshot, parishes] = await Promise.all([
+        getDocs(query(collection(db, 'churches'), where('diocese', '==', diocese))),
+        this.getParishesForDiocese(diocese).catch(() => [] as Parish[]),
+      ]);
+
+      const byId = new Map<string, Parish>();
+      churchSnapshot.docs.forEach(churchDoc => {
+        const data = churchDoc.data();
+        byId.set(churchDoc.id, {
+          id: churchDoc.id,
+          name: data.name || data.fullName || churchDoc.id,
+          diocese,
+          municipality: data.municipality,
+        });
+      });
+      parishes.forEach(parish => {
+        if (!byId.has(parish.id)) byId.set(parish.id, parish);
+      });
+
+      return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching announcement target parishes:', error);
+      throw new Error('Failed to fetch parishes');
+    }
+  }
+
+  /**
+   * Get the vicariates (saved parish groups) of a diocese
+   */
+  static async getVicariatesForDiocese(diocese: Diocese): Promise<Vicariate[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.VICARIATES_COLLECTION),
+        where('diocese', '==', diocese)
+      ));
+
+      return snapshot.docs
+        .map(vicariateDoc => {
+          const data = vicariateDoc.data();
+          return {
+            id: vicariateDoc.id,
+            diocese: data.diocese,
+            name: data.name,
+            parishIds: data.parishIds || [],
+            updatedAt: data.updatedAt?.toDate(),
+          } as Vicariate;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching vicariates:', error);
+      throw new Error('Failed to fetch vicariates');
+    }
+  }
+
+  /**
+   * Create or update a vicariate. Returns the vicariate ID.
+   */
+  static async saveVicariate(diocese: Diocese, name: string, parishIds: string[], id?: string): Promise<string> {
+    try {
+      const data = { diocese, name: name.trim(), parishIds, updatedAt: Timestamp.now() };
+      if (id) {
+        await updateDoc(doc(db, this.VICARIATES_COLLECTION, id), data);
+        return id;
+      }
+      const ref = await addDoc(collection(db, this.VICARIATES_COLLECTION), data);
+      return ref.id;
+    } catch (error) {
+      console.error('Error saving vicariate:', error);
+      throw new Error('Failed to save vicariate');
+    }
+  }
+
+  /**
+   * Delete a vicariate. Announcements already sent to it keep their parishes.
+   */
+  static async deleteVicariate(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, this.VICARIATES_COLLECTION, id));
+    } catch (error) {
+      console.error('Error deleting vicariate:', error);
+      throw new Error('Failed to delete vicariate');
+    }
+  }
+
+  /**
+   * Resolve announcement targets to the parish IDs they cover
+   */
+  static async resolveAnnouncementTargets(diocese: Diocese, targets: AnnouncementTargets): Promise<string[]> {
+    const [parishes, vicariates] = await Promise.all([
+      this.getAnnouncementTargetParishes(diocese),
+      targets.type === 'vicariate' ? this.getVicariatesForDiocese(diocese) : Promise.resolve([]),
+    ]);
+    return matchTargetParishes(parishes, vicariates, targets);
+  }
+}
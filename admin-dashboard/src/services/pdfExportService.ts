@@ -2,6 +2,12 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 import { addReportHeader, addReportFooter } from '@/lib/report-header';
+import { formatResponseTime, type FeedbackReplyMetrics } from '@shared/feedbackReplies';
+import {
+  VALIDATION_SECTION_LABELS,
+  getValidationDecisionLabel,
+  type HeritageValidationReport,
+} from '@/lib/heritage-validation-reports';
 
 // Type for jsPDF with autoTable extension
 interface jsPDFWithAutoTable extends jsPDF {
@@ -656,6 +662,7 @@ export class PDFExportService {
       totalVisitors: number;
       totalFeedback: number;
       avgRating: number;
+      feedbackReplies: FeedbackReplyMetrics;
       totalChurches: number;
       visitorsByMonth: Array<{ month: string; visitors: number }>;
       topChurches: Array<{
@@ -716,6 +723,9 @@ export class PDFExportService {
         ['Average Daily Visitors', avgDailyVisitors.toLocaleString()],
         ['Total Feedback', analytics.totalFeedback.toLocaleString()],
         ['Average Rating', `${analytics.avgRating.toFixed(1)} / 5.0`],
+        ['Reply Rate', `${Math.round(analytics.feedbackReplies.replyRate * 100)}%`],
+        ['Average Response Time', formatResponseTime(analytics.feedbackReplies.averageResponseHours)],
+        ['Median Response Time', formatResponseTime(analytics.feedbackReplies.medianResponseHours)],
       ],
       theme: 'grid',
       headStyles: { fillColor: [17, 40, 110], textColor: 255, fontStyle: 'bold' },
@@ -902,4 +912,116 @@ export class PDFExportService {
     const fileName = `${dioceseName.replace(/\s+/g, '_')}_Diocese_Engagement_Analytics_${new Date().getFullYear()}.pdf`;
     doc.save(fileName);
   }
+
+  /**
+   * Export a signed heritage validation report as a formal PDF
+   */
+  static async exportHeritageValidationReport(report: HeritageValidationReport): Promise<void> {
+    const doc = new jsPDF();
+    const signedAt = report.signature.signedAt?.toDate ? report.signature.signedAt.toDate() : new Date();
+    const formatDate = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    let yPos = await addReportHeader(doc, {
+      title: 'HERITAGE VALIDATION REPORT',
+      subtitle: report.churchName,
+      detail: report.diocese
+        ? `Diocese of ${report.diocese.charAt(0).toUpperCase() + report.diocese.slice(1)}`
+        : undefined,
+      dioceseId: report.diocese,
+      parishId: report.churchId,
+    });
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Report No. ${report.id || 'N/A'}  |  Signed ${formatDate(signedAt)}`, 105, yPos, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+    yPos += 10;
+
+    // 1. Summary
+    yPos = this.addSectionHeader(doc, '1. SUMMARY', yPos);
+    autoTable(doc, {
+      startY: yPos,
+      body: [
+        ['Church', report.churchName],
+        ['Heritage Classification', report.classification || 'Not specified'],
+        ['Decision', getValidationDecisionLabel(report.decision)],
+        ...(report.heritageRulesVersion !== undefined
+          ? [['Heritage Rules Version', `v${report.heritageRulesVersion}`]]
+          : []),
+      ],
+      theme: 'grid',
+      styles: { fontSize: 10, cellPadding: 4 },
+      columnStyles: { 0: { fontStyle: 'bold', cellWidth: 60 }, 1: { cellWidth: 110 } },
+      margin: { left: 20, right: 20 },
+    });
+    yPos = (doc as jsPDFWithAutoTable).lastAutoTable.finalY + 15;
+
+    // 2. Checklist
+    yPos = this.checkPageBreak(doc, yPos, 60);
+    yPos = this.addSectionHeader(doc, '2. VERIFICATION CHECKLIST', yPos);
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Section', 'Item', 'Verified']],
+      body: report.checklist.map(item => [
+        VALIDATION_SECTION_LABELS[item.section] || item.section,
+        item.label,
+        item.checked ? 'Yes' : 'No',
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [17, 40, 110], textColor: 255, fontStyle: 'bold' },
+      styles: { fontSize: 9, cellPadding: 3 },
+      columnStyles: { 0: { cellWidth: 45 }, 1: { cellWidth: 100 }, 2: { cellWidth: 25, halign: 'center' } },
+      margin: { left: 20, right: 20 },
+    });
+    yPos = (doc as jsPDFWithAutoTable).lastAutoTable.finalY + 15;
+
+    // 3. Evidence
+    yPos = this.checkPageBreak(doc, yPos, 40);
+    yPos = this.addSectionHeader(doc, '3. EVIDENCE REVIEWED', yPos);
+    if (report.evidence.length === 0) {
+      yPos = this.addTextBlock(doc, 'No documents were cited as evidence.', yPos);
+    } else {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Document', 'Reference']],
+        body: report.evidence.map(evidence => [evidence.name, evidence.url || '']),
+        theme: 'grid',
+        headStyles: { fillColor: [17, 40, 110], textColor: 255, fontStyle: 'bold' },
+        styles: { fontSize: 9, cellPadding: 3, overflow: 'linebreak' },
+        columnStyles: { 0: { cellWidth: 60 }, 1: { cellWidth: 110 } },
+        margin: { left: 20, right: 20 },
+      });
+      yPos = (doc as jsPDFWithAutoTable).lastAutoTable.finalY + 15;
+    }
+
+    // 4. Findings
+    yPos = this.checkPageBreak(doc, yPos, 40);
+    yPos = this.addSectionHeader(doc, '4. FINDINGS', yPos);
+    yPos = this.addTextBlock(doc, report.findings || 'No findings recorded.', yPos);
+
+    // 5. Signature block
+    yPos = this.checkPageBreak(doc, yPos, 60);
+    yPos = this.addSectionHeader(doc, '5. CERTIFICATION', yPos);
+    yPos = this.addTextBlock(doc, report.signature.statement, yPos, 170, 9);
+    yPos += 10;
+
+    doc.setDrawColor(0, 0, 0);
+    doc.line(20, yPos, 100, yPos);
+    yPos += 5;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(report.signature.name, 20, yPos);
+    yPos += 5;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(report.signature.position || 'Museum Researcher', 20, yPos);
+    yPos += 5;
+    doc.text(`Signed electronically on ${signedAt.toLocaleString('en-US')}`, 20, yPos);
+
+    addReportFooter(doc, `Heritage Validation Report | ${report.churchName}`);
+
+    const fileName = `${report.churchName.replace(/\s+/g, '_')}_Heritage_Validation_${signedAt.toISOString().slice(0, 10)}.pdf`;
+    doc.save(fileName);
+  }
 }
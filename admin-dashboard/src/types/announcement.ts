@@ -1,11 +1,26 @@
 // TypeScript interfaces for announcement management
+import type { AnnouncementRecurrence, AnnouncementStatus } from '@shared/announcementSchedule';
+
+export type { AnnouncementRecurrence, AnnouncementStatus, AnnouncementWeekday } from '@shared/announcementSchedule';
+
+// Multi-parish audience of a chancery announcement (scope 'parish', no parishId)
+export interface AnnouncementTargets {
+  type: 'parishes' | 'vicariate' | 'municipalities';
+  parishIds?: string[];
+  vicariateId?: string;
+  vicariateName?: string; // Kept for display if the vicariate is renamed or deleted
+  municipalities?: string[];
+}
+
 export interface Announcement {
   id: string;
   title: string;
   description: string;
   scope: 'diocese' | 'parish';
   diocese: 'tagbilaran' | 'talibon';
-  parishId?: string; // Only for parish scope
+  parishId?: string; // Only for single-parish announcements
+  targets?: AnnouncementTargets;
+  targetParishIds?: string[]; // Resolved parishes (mobile church pages query this)
 
   // Event details (optional for non-event announcements)
   eventDate?: Date;
@@ -16,6 +31,13 @@ export interface Announcement {
   endDate?: Date; // For automatic archiving
   contactInfo?: string;
 
+  // Publishing schedule (processed by the processAnnouncementSchedules function)
+  status?: AnnouncementStatus; // Missing on announcements created before scheduling
+  publishAt?: Date;
+  expireAt?: Date;
+  publishedAt?: Date;
+  recurrence?: AnnouncementRecurrence; // eventDate rolls to the next occurrence
+
   // Metadata
   createdAt: Date;
   updatedAt: Date;
@@ -29,6 +51,7 @@ export interface AnnouncementFormData {
   description: string;
   scope: 'diocese' | 'parish';
   parishId?: string;
+  targets?: AnnouncementTargets | null; // Chancery only; overrides the whole-diocese scope
   eventDate?: string; // Optional for non-event announcements
   eventTime?: string; // Optional for non-event announcements
   endTime?: string; // End time for events
@@ -37,12 +60,16 @@ export interface AnnouncementFormData {
   customCategory?: string; // For custom categories when "Other" is selected
   endDate?: string; // Optional for non-event announcements
   contactInfo?: string;
+  publishAt?: string; // datetime-local; empty publishes immediately
+  expireAt?: string; // datetime-local
+  recurrence?: AnnouncementRecurrence | null;
 }
 
 export interface AnnouncementFilters {
   scope?: 'diocese' | 'parish' | 'all';
   category?: string;
   isArchived?: boolean;
+  status?: AnnouncementStatus;
   createdBy?: string; // Filter by creator userId
   dateRange?: {
     start: Date;
@@ -51,16 +78,4 @@ export interface AnnouncementFilters {
   tags?: string[];
 }
 
-export const ANNOUNCEMENT_CATEGORIES = [
-  'Festival',
-  'Mass',
-  'Exhibit',
-  'Community Event',
-  'Celebration',
-  'Pilgrimage',
-  'Conference',
-  'Meeting',
-  'Other'
-] as const;
-
-export type AnnouncementCategory = typeof ANNOUNCEMENT_CATEGORIES[number];
\ No newline at end of file
+export { ANNOUNCEMENT_CATEGORIES, type AnnouncementCategory } from '@shared/announcementCategories';
@@ -83,6 +83,13 @@ export type AuditAction =
   | 'church.heritage_validate'     // Museum validated heritage status
   | 'church.heritage_reject'       // Museum rejected heritage status
   | 'church.delete'                // Church soft deleted
+  | 'church.pending_field_accept'  // Staged field change accepted and published
+  | 'church.pending_field_reject'  // Staged field change rejected with reason
+  | 'church.rollback'              // Church content restored from an earlier version
+  | 'church.review_claim'          // Reviewer claimed a submission
+  | 'church.review_release'        // Reviewer released a claimed submission
+  | 'church.review_assign'         // Supervisor assigned a submission to a reviewer
+  | 'church.bulk_import'           // Draft churches created from a diocese spreadsheet
   
   // Announcement management actions
   | 'announcement.create'          // Announcement created
@@ -99,6 +106,16 @@ export type AuditAction =
   | 'feedback.hide'                // Feedback hidden from public
   | 'feedback.unhide'              // Feedback restored from hidden
   | 'feedback.delete'              // Feedback deleted
+  | 'feedback.reply_edit'          // Official reply edited
+  | 'feedback.reply_hide'          // Official reply hidden by the chancery
+  | 'feedback.reply_unhide'        // Official reply restored by the chancery
+  | 'feedback.flag'                // Feedback flagged by a visitor or parish secretary
+  | 'feedback.auto_hide'           // Feedback hidden automatically after too many flags
+  | 'feedback.flags_dismiss'       // Open flags dismissed by the chancery
+  | 'feedback.flags_uphold'        // Open flags upheld by the chancery
+  | 'feedback.appeal'              // Author asked for hidden feedback to be reviewed again
+  | 'feedback.appeal_reinstate'    // Appeal granted, feedback published again
+  | 'feedback.appeal_uphold'       // Appeal denied, feedback stays hidden
   
   // Heritage management actions
   | 'heritage.validate'            // Heritage status validated
@@ -107,6 +124,8 @@ export type AuditAction =
   | 'heritage.update'              // Heritage information updated (draft save)
   | 'heritage.approve'             // Heritage church approved by Museum Researcher
   | 'heritage.reclassify'          // Heritage classification changed (e.g., to non-heritage)
+  | 'heritage.rules_update'        // Heritage significance rules edited (new rule version)
+  | 'heritage.validation_report'   // Signed heritage validation report saved
   
   // System actions
   | 'system.config_update'         // System configuration changed
@@ -296,6 +315,13 @@ export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
   'church.heritage_validate': 'Validated heritage status',
   'church.heritage_reject': 'Rejected heritage status',
   'church.delete': 'Deleted church',
+  'church.pending_field_accept': 'Accepted field update',
+  'church.pending_field_reject': 'Rejected field update',
+  'church.rollback': 'Rolled back church',
+  'church.review_claim': 'Claimed review',
+  'church.review_release': 'Released review',
+  'church.review_assign': 'Assigned review',
+  'church.bulk_import': 'Bulk imported churches',
   
   // Announcement
   'announcement.create': 'Created announcement',
@@ -312,6 +338,16 @@ export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
   'feedback.hide': 'Hid feedback',
   'feedback.unhide': 'Restored feedback',
   'feedback.delete': 'Deleted feedback',
+  'feedback.reply_edit': 'Edited feedback reply',
+  'feedback.reply_hide': 'Hid feedback reply',
+  'feedback.reply_unhide': 'Restored feedback reply',
+  'feedback.flag': 'Flagged feedback',
+  'feedback.auto_hide': 'Feedback hidden after flags',
+  'feedback.flags_dismiss': 'Dismissed feedback flags',
+  'feedback.flags_uphold': 'Upheld feedback flags',
+  'feedback.appeal': 'Appealed hidden feedback',
+  'feedback.appeal_reinstate': 'Reinstated feedback on appeal',
+  'feedback.appeal_uphold': 'Denied feedback appeal',
   
   // Heritage
   'heritage.validate': 'Validated heritage',
@@ -320,6 +356,8 @@ export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
   'heritage.update': 'Updated heritage information',
   'heritage.approve': 'Approved heritage church',
   'heritage.reclassify': 'Reclassified heritage status',
+  'heritage.rules_update': 'Updated heritage rules',
+  'heritage.validation_report': 'Signed validation report',
   
   // System
   'system.config_update': 'Updated system config',
@@ -381,5 +419,9 @@ export function isDestructiveAction(action: AuditAction): boolean {
          action.endsWith('.deactivate') ||
          action.endsWith('.suspend') ||
          action === 'church.unpublish' ||
-         action === 'feedback.hide';
+         action === 'feedback.hide' ||
+         action === 'feedback.auto_hide' ||
+         action === 'feedback.flags_uphold' ||
+         action === 'feedback.appeal_uphold' ||
+         action === 'feedback.reply_hide';
 }
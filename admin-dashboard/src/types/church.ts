@@ -1,4 +1,6 @@
-export type ChurchStatus = 'draft' | 'pending' | 'approved' | 'under_review' | 'heritage_review';
+import type { MassScheduleRecurrence } from '@shared/massScheduleRecurrence';
+
+export type ChurchStatus = 'draft' | 'pending' | 'approved' | 'under_review' | 'heritage_review' | 'needs_revision';
 export type ChurchClassification = 'ICP' | 'NCT' | 'non_heritage' | 'parish_church' | 'pilgrimage_site' | 'historical_shrine';
 export type ArchitecturalStyle = 'baroque' | 'gothic' | 'romanesque' | 'byzantine' | 'neoclassical' | 'modern' | 'mixed' | 'other';
 export type ReligiousClassification = 'diocesan_shrine' | 'jubilee_church' | 'papal_basilica_affinity' | 'none';
@@ -39,6 +41,16 @@ export interface MassSchedule {
   isFbLive?: boolean; // Whether the mass is live-streamed on Facebook
 }
 
+// Recurrence-based mass schedule (RRULE-style). The legacy massSchedules array
+// is projected from these rules for the mobile app.
+export type {
+  MassRecurrenceRule,
+  MassScheduleAddition,
+  MassScheduleException,
+  MassScheduleRecurrence,
+  MassWeekday,
+} from '@shared/massScheduleRecurrence';
+
 // Parish priest assignment record for historical tracking
 export interface PriestAssignment {
   name: string;         // Full name of the priest (e.g., "Rev. Fr. Juan Dela Cruz")
@@ -48,6 +60,48 @@ export interface PriestAssignment {
   notes?: string;       // Optional notes (e.g., reason for reassignment)
 }
 
+// Reviewer comment attached to a single form field when a submission is sent back
+export interface RevisionComment {
+  field: string;          // Form field key (see REVISION_FIELDS in lib/revision-requests.ts)
+  comment: string;        // What the parish needs to fix
+  addressed?: boolean;    // Set on resubmission when the parish changed the flagged field
+  addressedAt?: Date;
+}
+
+// Structured revision request stored on the church while it is in needs_revision
+export interface RevisionRequest {
+  requestedBy: {
+    uid: string;
+    name?: string;
+    role: string;
+  };
+  requestedAt: Date;
+  fromStatus: ChurchStatus;   // Review stage the church was in (pending or heritage_review)
+  note?: string;              // General note covering the whole submission
+  comments: RevisionComment[];
+  resubmittedAt?: Date;       // When the parish sent the revised profile back
+}
+
+// Reviewer decision on a single entry of pendingChanges.changedFields
+export interface PendingFieldDecision {
+  field: string;                      // Key in pendingChanges.data (see church-field-categories.ts)
+  decision: 'accept' | 'reject';
+  reason?: string;                    // Required when rejecting; shown to the parish
+}
+
+// Outcome of the latest field-level review of pendingChanges, kept for the parish
+export interface PendingChangesReview {
+  reviewedAt: Date;
+  reviewedBy: {
+    uid: string;
+    name?: string;
+    role: string;
+  };
+  acceptedFields: string[];
+  rejectedFields: { field: string; reason: string }[];
+  note?: string;
+}
+
 export interface Church {
   id: string;
   name: string;
@@ -68,6 +122,7 @@ export interface Church {
   assistantPriests?: string[];  // Assistant parish priest(s) - optional, supports multiple entries
   feastDay?: string; // Feast day of the parish patron saint (e.g., "December 8")
   massSchedules: MassSchedule[];
+  massScheduleRules?: MassScheduleRecurrence; // Source of massSchedules when the parish uses recurring schedules
   coordinates?: Coordinates;
   contactInfo?: ContactInfo;
 
@@ -90,6 +145,7 @@ export interface Church {
   reviewNotes?: string;
   reviewedBy?: string;
   reviewedAt?: Date;
+  revisionRequest?: RevisionRequest; // Latest reviewer revision request (kept after resubmission)
 
   // Metadata
   createdAt: Date;
@@ -128,6 +184,7 @@ export interface Church {
     forwardedBy?: string;           // User ID who forwarded
   };
   hasPendingChanges?: boolean;      // Quick filter flag for queries
+  pendingChangesReview?: PendingChangesReview; // Result of the last field-level review
 }
 
 export interface ChurchFormData {
@@ -151,6 +208,7 @@ export interface ChurchFormData {
   assistantPriests?: string[];  // Assistant parish priest(s)
   feastDay?: string; // Feast day of the parish patron saint
   massSchedules: MassSchedule[];
+  massScheduleRules?: MassScheduleRecurrence; // Source of massSchedules when the parish uses recurring schedules
   coordinates?: Coordinates;
   contactInfo?: ContactInfo;
   images: string[]; // Legacy: simple URL array for backward compatibility
@@ -12,6 +12,7 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./functions/src/shared"),
     },
   },
   test: {
@@ -20,6 +21,7 @@ export default defineConfig({
     include: ["src/**/*.test.{ts,tsx}"],
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./functions/src/shared"),
     },
   },
   build: {
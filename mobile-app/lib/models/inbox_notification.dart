@@ -0,0 +1,50 @@
+import 'package:cloud_firestore/cloud_firestore.dart';
+
+/// A notification in the user's inbox (users/{uid}/inbox/{notificationId}).
+///
+/// Cloud Functions write these for visitors when a parish or the chancery
+/// replies to their review (feedback_reply), when their review is hidden
+/// after reports (feedback_hidden), and when an appeal is decided
+/// (feedback_appeal_decided).
+class InboxNotification {
+  final String id;
+  final String type;
+  final String title;
+  final String message;
+  final String? churchId;
+  final String? churchName;
+  final String? feedbackId;
+  final bool isRead;
+  final DateTime? createdAt;
+
+  InboxNotification({
+    required this.id,
+    required this.type,
+    required this.title,
+    required this.message,
+    this.churchId,
+    this.churchName,
+    this.feedbackId,
+    this.isRead = false,
+    this.createdAt,
+  });
+
+  factory InboxNotification.fromFirestore(
+      DocumentSnapshot<Map<String, dynamic>> doc) {
+    final data = doc.data() ?? {};
+    final related = (data['relatedData'] as Map<String, dynamic>?) ?? {};
+    final createdAt = data['createdAt'];
+
+    return InboxNotification(
+      id: doc.id,
+      type: data['type'] ?? '',
+      title: data['title'] ?? '',
+      message: data['message'] ?? '',
+      churchId: related['churchId'],
+      churchName: related['churchName'],
+      feedbackId: related['feedbackId'],
+      isRead: data['isRead'] ?? false,
+      createdAt: createdAt is Timestamp ? createdAt.toDate() : null,
+    );
+  }
+}
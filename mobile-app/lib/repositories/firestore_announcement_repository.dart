@@ -12,6 +12,8 @@ import 'announcement_repository.dart';
 /// - Parish scope ('parish'): Created by parish secretary, visible in:
 ///   * Individual church detail page only
 ///   * NOT shown in homepage carousel or main announcements screen
+///   * Chancery announcements targeting several parishes (a vicariate or
+///     municipalities) are parish-scoped and list them in targetParishIds
 class FirestoreAnnouncementRepository extends AnnouncementRepository {
   final FirebaseFirestore _firestore = FirebaseFirestore.instance;
   static const String _announcementsCollection = 'announcements';
@@ -173,19 +175,35 @@ class FirestoreAnnouncementRepository extends AnnouncementRepository {
     try {
       debugPrint('🔍 Fetching announcements for parish: $parishId');
 
-      // Query all announcements for parish, regardless of archived status
-      final QuerySnapshot snapshot = await _firestore
-          .collection(_announcementsCollection)
-          .where('parishId', isEqualTo: parishId)
-          .get();
+      // Query all announcements for parish, regardless of archived status.
+      // Single-parish announcements match parishId; announcements sent to
+      // several parishes (vicariate, municipalities) list it in targetParishIds.
+      final results = await Future.wait([
+        _firestore
+            .collection(_announcementsCollection)
+            .where('parishId', isEqualTo: parishId)
+            .get(),
+        _firestore
+            .collection(_announcementsCollection)
+            .where('targetParishIds', arrayContains: parishId)
+            .get(),
+      ]);
+
+      final docsById = <String, QueryDocumentSnapshot<Map<String, dynamic>>>{};
+      for (final snapshot in results) {
+        for (final doc in snapshot.docs) {
+          docsById[doc.id] = doc;
+        }
+      }
 
       debugPrint(
-          '✅ Found ${snapshot.docs.length} announcements for parish $parishId');
+          '✅ Found ${docsById.length} announcements for parish $parishId');
 
-      final announcements = snapshot.docs.map((doc) {
-        final data = doc.data() as Map<String, dynamic>;
-        return Announcement.fromFirestore(doc.id, data);
-      }).toList();
+      final announcements = docsById.values
+          // Scheduled announcements are not published yet
+          .where((doc) => doc.data()['status'] != 'scheduled')
+          .map((doc) => Announcement.fromFirestore(doc.id, doc.data()))
+          .toList();
 
       // Sort by date in-memory to avoid index requirement
       announcements.sort((a, b) {
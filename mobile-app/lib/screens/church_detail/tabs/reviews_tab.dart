@@ -651,6 +651,124 @@ class _ReviewsTabState extends State<ReviewsTab> {
     }
   }
 
+  Future<void> _showReportDialog(FeedbackModel review, String userId) async {
+    final detailsController = TextEditingController();
+    String? reason;
+
+    final confirmed = await showDialog<bool>(
+      context: context,
+      builder: (context) => StatefulBuilder(
+        builder: (context, setDialogState) => AlertDialog(
+          shape: RoundedRectangleBorder(
+            borderRadius: BorderRadius.circular(16),
+          ),
+          title: const Text(
+            'Report Review',
+            style: TextStyle(fontSize: 20, fontWeight: FontWeight.w700),
+          ),
+          content: SingleChildScrollView(
+            child: Column(
+              mainAxisSize: MainAxisSize.min,
+              crossAxisAlignment: CrossAxisAlignment.start,
+              children: [
+                const Text(
+                  'Why should the diocese look at this review?',
+                  style: TextStyle(fontSize: 14, color: Color(0xFF6B7280)),
+                ),
+                const SizedBox(height: 8),
+                ...FeedbackService.flagReasons.entries.map(
+                  (entry) => RadioListTile<String>(
+                    value: entry.key,
+                    groupValue: reason,
+                    onChanged: (value) => setDialogState(() => reason = value),
+                    title: Text(entry.value,
+                        style: const TextStyle(fontSize: 14)),
+                    dense: true,
+                    contentPadding: EdgeInsets.zero,
+                  ),
+                ),
+                TextField(
+                  controller: detailsController,
+                  maxLength: 500,
+                  maxLines: 3,
+                  decoration: const InputDecoration(
+                    hintText: 'Details (optional)',
+                    border: OutlineInputBorder(),
+                  ),
+                ),
+              ],
+            ),
+          ),
+          actions: [
+            TextButton(
+              onPressed: () => Navigator.of(context).pop(false),
+              child: const Text(
+                'Cancel',
+                style: TextStyle(
+                  color: Color(0xFF6B7280),
+                  fontWeight: FontWeight.w600,
+                ),
+              ),
+            ),
+            ElevatedButton(
+              onPressed:
+                  reason == null ? null : () => Navigator.of(context).pop(true),
+              style: ElevatedButton.styleFrom(
+                backgroundColor: const Color(0xFFEF4444),
+                foregroundColor: Colors.white,
+                shape: RoundedRectangleBorder(
+                  borderRadius: BorderRadius.circular(8),
+                ),
+              ),
+              child: const Text(
+                'Report',
+                style: TextStyle(fontWeight: FontWeight.w600),
+              ),
+            ),
+          ],
+        ),
+      ),
+    );
+
+    final details = detailsController.text;
+    if (confirmed != true || reason == null) return;
+
+    try {
+      await _feedbackService.flag(
+        feedbackId: review.id,
+        userId: userId,
+        reason: reason!,
+        details: details,
+      );
+      if (!mounted) return;
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(
+          content: const Text('Thanks. The diocese will review this report.'),
+          backgroundColor: const Color(0xFF10B981),
+          behavior: SnackBarBehavior.floating,
+          shape:
+              RoundedRectangleBorder(borderRadius: BorderRadius.circular(12)),
+          margin: const EdgeInsets.all(16),
+        ),
+      );
+    } catch (e) {
+      debugPrint('❌ Error reporting review: $e');
+      if (!mounted) return;
+      // The rules allow one report per user per review
+      ScaffoldMessenger.of(context).showSnackBar(
+        SnackBar(
+          content: const Text(
+              'Could not send your report. You may have already reported this review.'),
+          backgroundColor: const Color(0xFFEF4444),
+          behavior: SnackBarBehavior.floating,
+          shape:
+              RoundedRectangleBorder(borderRadius: BorderRadius.circular(12)),
+          margin: const EdgeInsets.all(16),
+        ),
+      );
+    }
+  }
+
   @override
   void dispose() {
     _reviewController.dispose();
@@ -1047,6 +1165,17 @@ class _ReviewsTabState extends State<ReviewsTab> {
                       ),
                     ),
                   ),
+                // Report button (signed-in users, on other people's reviews)
+                if (currentUser != null && !isOwnReview)
+                  IconButton(
+                    icon: const Icon(Icons.flag_outlined),
+                    color: const Color(0xFF9CA3AF),
+                    iconSize: 20,
+                    padding: EdgeInsets.zero,
+                    constraints: const BoxConstraints(),
+                    onPressed: () => _showReportDialog(review, currentUser.uid),
+                    tooltip: 'Report review',
+                  ),
                 // Delete button (only show for user's own reviews)
                 if (isOwnReview)
                   IconButton(
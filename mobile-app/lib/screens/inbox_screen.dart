@@ -0,0 +1,206 @@
+import 'package:flutter/material.dart';
+import 'package:intl/intl.dart';
+import '../models/inbox_notification.dart';
+import '../services/feedback_service.dart';
+import '../services/inbox_service.dart';
+import '../widgets/empty_state.dart';
+
+/// Lists the user's inbox: replies to their reviews and moderation updates.
+/// Opening a notification marks it read; swiping it away archives it. A
+/// hidden-review notification offers an appeal (FeedbackService.appeal).
+class InboxScreen extends StatelessWidget {
+  final String userId;
+
+  const InboxScreen({super.key, required this.userId});
+
+  IconData _iconFor(String type) {
+    switch (type) {
+      case 'feedback_reply':
+        return Icons.forum_outlined;
+      case 'feedback_hidden':
+        return Icons.visibility_off_outlined;
+      case 'feedback_appeal_decided':
+        return Icons.gavel_outlined;
+      default:
+        return Icons.notifications_outlined;
+    }
+  }
+
+  void _open(BuildContext context, InboxNotification notification) {
+    if (!notification.isRead) {
+      InboxService.markRead(userId, notification.id);
+    }
+
+    final outerContext = context;
+    showDialog(
+      context: context,
+      builder: (context) => AlertDialog(
+        title: Text(notification.title),
+        content: SingleChildScrollView(child: Text(notification.message)),
+        actions: [
+          TextButton(
+            onPressed: () => Navigator.of(context).pop(),
+            child: const Text('Close'),
+          ),
+          // The author of a hidden review can ask for it to be reviewed again
+          if (notification.type == 'feedback_hidden' &&
+              notification.feedbackId != null)
+            ElevatedButton(
+              onPressed: () {
+                Navigator.of(context).pop();
+                _appeal(outerContext, notification.feedbackId!);
+              },
+              child: const Text('Appeal'),
+            ),
+        ],
+      ),
+    );
+  }
+
+  Future<void> _appeal(BuildContext context, String feedbackId) async {
+    final messenger = ScaffoldMessenger.of(context);
+    final messageController = TextEditingController();
+
+    final message = await showDialog<String>(
+      context: context,
+      builder: (context) => AlertDialog(
+        title: const Text('Appeal Hidden Review'),
+        content: TextField(
+          controller: messageController,
+          maxLength: 1000,
+          maxLines: 4,
+          decoration: const InputDecoration(
+            hintText: 'Why should your review be restored?',
+            border: OutlineInputBorder(),
+          ),
+        ),
+        actions: [
+          TextButton(
+            onPressed: () => Navigator.of(context).pop(),
+            child: const Text('Cancel'),
+          ),
+          ElevatedButton(
+            onPressed: () =>
+                Navigator.of(context).pop(messageController.text.trim()),
+            child: const Text('Send Appeal'),
+          ),
+        ],
+      ),
+    );
+    if (message == null || message.isEmpty) return;
+
+    try {
+      await FeedbackService().appeal(
+        feedbackId: feedbackId,
+        userId: userId,
+        message: message,
+      );
+      messenger.showSnackBar(
+        const SnackBar(
+          content: Text('Appeal sent. You will be notified of the decision.'),
+          backgroundColor: Color(0xFF10B981),
+        ),
+      );
+    } catch (e) {
+      debugPrint('❌ Error appealing review: $e');
+      // The rules allow an appeal only while the review is hidden and no
+      // appeal is pending
+      messenger.showSnackBar(
+        const SnackBar(
+          content: Text(
+              'Could not send your appeal. It may already be under review.'),
+          backgroundColor: Color(0xFFEF4444),
+        ),
+      );
+    }
+  }
+
+  @override
+  Widget build(BuildContext context) {
+    final isDark = Theme.of(context).brightness == Brightness.dark;
+
+    return Scaffold(
+      backgroundColor:
+          isDark ? const Color(0xFF121212) : const Color(0xFFF8FAFC),
+      appBar: AppBar(
+        title: const Text('Notifications'),
+        backgroundColor: isDark ? const Color(0xFF1F1F1F) : Colors.white,
+        foregroundColor: isDark ? Colors.white : const Color(0xFF1A1A1A),
+        elevation: 0,
+      ),
+      body: StreamBuilder<List<InboxNotification>>(
+        stream: InboxService.watch(userId),
+        builder: (context, snapshot) {
+          if (snapshot.hasError) {
+            return const EmptyState(
+              icon: Icons.error_outline,
+              title: 'Could not load notifications',
+              subtitle: 'Check your connection and try again.',
+            );
+          }
+          if (!snapshot.hasData) {
+            return const Center(
+              child: CircularProgressIndicator(color: Color(0xFF8B5E3C)),
+            );
+          }
+
+          final notifications = snapshot.data!;
+          if (notifications.isEmpty) {
+            return const EmptyState(
+              icon: Icons.notifications_none_rounded,
+              title: 'No notifications',
+              subtitle:
+                  'Replies to your reviews and updates about them will appear here.',
+            );
+          }
+
+          return ListView.separated(
+            itemCount: notifications.length,
+            separatorBuilder: (_, __) => const Divider(height: 1),
+            itemBuilder: (context, index) {
+              final notification = notifications[index];
+              return Dismissible(
+                key: ValueKey(notification.id),
+                direction: DismissDirection.endToStart,
+                background: Container(
+                  alignment: Alignment.centerRight,
+                  padding: const EdgeInsets.symmetric(horizontal: 20),
+                  color: Colors.grey.shade400,
+                  child: const Icon(Icons.archive_outlined, color: Colors.white),
+                ),
+                onDismissed: (_) =>
+                    InboxService.archive(userId, notification.id),
+                child: ListTile(
+                  leading: Icon(
+                    _iconFor(notification.type),
+                    color: const Color(0xFF8B5E3C),
+                  ),
+                  title: Text(
+                    notification.title,
+                    style: TextStyle(
+                      fontWeight: notification.isRead
+                          ? FontWeight.normal
+                          : FontWeight.w600,
+                    ),
+                  ),
+                  subtitle: Text(
+                    notification.message,
+                    maxLines: 2,
+                    overflow: TextOverflow.ellipsis,
+                  ),
+                  trailing: notification.createdAt != null
+                      ? Text(
+                          DateFormat('MMM d').format(notification.createdAt!),
+                          style: const TextStyle(fontSize: 12),
+                        )
+                      : null,
+                  onTap: () => _open(context, notification),
+                ),
+              );
+            },
+          );
+        },
+      ),
+    );
+  }
+}
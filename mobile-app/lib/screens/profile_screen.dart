@@ -6,10 +6,12 @@ import '../models/church.dart';
 import '../models/app_state.dart';
 import '../services/profile_service.dart';
 import '../services/auth_service.dart';
+import '../services/inbox_service.dart';
 import '../repositories/church_repository.dart';
 import '../theme/header_palette.dart';
 import '../widgets/home/church_card.dart';
 import 'church_detail_screen.dart';
+import 'inbox_screen.dart';
 
 class ProfileScreen extends StatefulWidget {
   const ProfileScreen({super.key});
@@ -290,6 +292,30 @@ class _ProfileScreenState extends State<ProfileScreen> {
         ),
       ),
       actions: [
+        if (profile.id.isNotEmpty)
+          StreamBuilder<int>(
+            stream: InboxService.watchUnreadCount(profile.id),
+            builder: (context, snapshot) {
+              final unread = snapshot.data ?? 0;
+              return IconButton(
+                icon: Badge(
+                  isLabelVisible: unread > 0,
+                  label: Text('$unread'),
+                  child: Icon(
+                    Icons.notifications_outlined,
+                    color: isDark ? Colors.white : const Color(0xFF1A1A1A),
+                  ),
+                ),
+                onPressed: () => Navigator.push(
+                  context,
+                  MaterialPageRoute(
+                    builder: (context) => InboxScreen(userId: profile.id),
+                  ),
+                ),
+                tooltip: 'Notifications',
+              );
+            },
+          ),
         IconButton(
           icon: Icon(
             Icons.edit_rounded,
@@ -10,6 +10,8 @@
 /// - Save: Submit new feedback/reviews to Firestore
 /// - Load: Retrieve all feedback or feedback for specific church
 /// - Delete: Remove feedback (for moderation purposes)
+/// - Flag: Report another visitor's abusive review
+/// - Appeal: Ask for the user's own hidden review to be reviewed again
 ///
 /// HOW FEEDBACK WORKS IN THE SYSTEM:
 ///
@@ -24,6 +26,11 @@
 ///    - Admin dashboard can moderate/delete inappropriate reviews
 ///    - Admin can change status (pending → published/rejected)
 ///
+/// 4. FLAGS AND APPEALS:
+///    - Visitors flag reviews (feedback_flags/{feedbackId}_{userId})
+///    - Reviews with enough flags are hidden automatically
+///    - The author of a hidden review can appeal (feedback_appeals/{feedbackId})
+///
 /// FIRESTORE COLLECTION STRUCTURE:
 /// feedback/
 ///   {feedbackId}/
@@ -39,6 +46,8 @@
 /// RELATED FILES:
 /// - models/feedback.dart: FeedbackModel data class
 /// - screens/church_detail_screen.dart: Displays reviews
+/// - screens/church_detail/tabs/reviews_tab.dart: Reports other visitors' reviews
+/// - screens/inbox_screen.dart: Appeals from a hidden-review notification
 /// - admin-dashboard/components/FeedbackManagement.tsx: Admin moderation
 /// =============================================================================
 
@@ -248,4 +257,91 @@ class FeedbackService {
       rethrow; // Let caller handle error (show message to user)
     }
   }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // FLAG ANOTHER VISITOR'S REVIEW
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /// Reasons a review can be reported, with the labels shown to the user.
+  /// Keep in sync with FEEDBACK_FLAG_REASONS in
+  /// admin-dashboard/functions/src/shared/feedbackFlags.ts.
+  static const Map<String, String> flagReasons = {
+    'offensive': 'Offensive or hateful language',
+    'harassment': 'Harassment or personal attack',
+    'spam': 'Spam or advertising',
+    'false_information': 'False or misleading',
+    'off_topic': 'Not about this church',
+    'other': 'Other',
+  };
+
+  /// Report a published review as abusive.
+  ///
+  /// One flag per user per review: the document ID combines both, so
+  /// flagging the same review again fails (Firestore rules allow create only).
+  ///
+  /// [reason] - One of: offensive, harassment, spam, false_information,
+  ///            off_topic, other
+  /// [details] - Optional explanation (max 500 characters)
+  ///
+  /// Throws: Re-throws any Firestore errors for caller to handle
+  Future<void> flag({
+    required String feedbackId,
+    required String userId,
+    required String reason,
+    String? details,
+  }) async {
+    try {
+      final trimmed = details?.trim() ?? '';
+      await _firestore
+          .collection('feedback_flags')
+          .doc('${feedbackId}_$userId')
+          .set({
+        'feedbackId': feedbackId,
+        'reporterId': userId,
+        'reporterRole': 'visitor',
+        'reason': reason,
+        if (trimmed.isNotEmpty) 'details': trimmed,
+        'status': 'open',
+        'createdAt': FieldValue.serverTimestamp(),
+      });
+
+      debugPrint('🚩 [FEEDBACK SERVICE] Flagged feedback $feedbackId ($reason)');
+    } catch (e) {
+      debugPrint('💥 [FEEDBACK SERVICE] Error flagging feedback: $e');
+      rethrow;
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // APPEAL A HIDDEN REVIEW
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /// Ask the diocese to review the user's own hidden review again.
+  ///
+  /// Allowed while the review is hidden. After a decision, the user can
+  /// appeal again only if the review was hidden again later.
+  ///
+  /// [message] - Why the review should be restored (max 1000 characters)
+  ///
+  /// Throws: Re-throws any Firestore errors for caller to handle
+  Future<void> appeal({
+    required String feedbackId,
+    required String userId,
+    required String message,
+  }) async {
+    try {
+      await _firestore.collection('feedback_appeals').doc(feedbackId).set({
+        'feedbackId': feedbackId,
+        'authorId': userId,
+        'message': message.trim(),
+        'status': 'pending',
+        'createdAt': FieldValue.serverTimestamp(),
+      }, SetOptions(merge: true));
+
+      debugPrint('⚖️ [FEEDBACK SERVICE] Appealed hidden feedback $feedbackId');
+    } catch (e) {
+      debugPrint('💥 [FEEDBACK SERVICE] Error appealing feedback: $e');
+      rethrow;
+    }
+  }
 }
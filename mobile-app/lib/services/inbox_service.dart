@@ -0,0 +1,54 @@
+import 'package:cloud_firestore/cloud_firestore.dart';
+import 'package:flutter/foundation.dart';
+import '../models/inbox_notification.dart';
+
+/// Service for the signed-in user's notification inbox.
+///
+/// Inbox entries are written only by Cloud Functions; the owner can read
+/// them and mark them read or archived (see firestore.rules).
+class InboxService {
+  static final FirebaseFirestore _firestore = FirebaseFirestore.instance;
+  static const int pageSize = 50;
+
+  static CollectionReference<Map<String, dynamic>> _inbox(String userId) =>
+      _firestore.collection('users').doc(userId).collection('inbox');
+
+  /// Live list of the user's notifications that are not archived, newest first
+  static Stream<List<InboxNotification>> watch(String userId) {
+    return _inbox(userId)
+        .where('isArchived', isEqualTo: false)
+        .orderBy('createdAt', descending: true)
+        .limit(pageSize)
+        .snapshots()
+        .map((snapshot) =>
+            snapshot.docs.map(InboxNotification.fromFirestore).toList());
+  }
+
+  /// Live count of unread notifications, for the badge on the inbox button
+  static Stream<int> watchUnreadCount(String userId) {
+    return watch(userId).map(
+        (notifications) => notifications.where((n) => !n.isRead).length);
+  }
+
+  static Future<void> markRead(String userId, String notificationId) async {
+    try {
+      await _inbox(userId).doc(notificationId).update({
+        'isRead': true,
+        'readAt': FieldValue.serverTimestamp(),
+      });
+    } catch (e) {
+      debugPrint('💥 [INBOX SERVICE] Error marking $notificationId read: $e');
+    }
+  }
+
+  static Future<void> archive(String userId, String notificationId) async {
+    try {
+      await _inbox(userId).doc(notificationId).update({
+        'isArchived': true,
+        'archivedAt': FieldValue.serverTimestamp(),
+      });
+    } catch (e) {
+      debugPrint('💥 [INBOX SERVICE] Error archiving $notificationId: $e');
+    }
+  }
+}